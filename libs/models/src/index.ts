@@ -2,3 +2,4 @@ export * from './lib/models';
 export * from './lib/api-types';
 export * from './lib/providers';
 export * from './lib/service-catalog';
+export * from './lib/service-addons';
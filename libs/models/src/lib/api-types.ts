@@ -1,5 +1,8 @@
 import type {
   Address,
+  CompanyBillingMode,
+  CompanyMemberRole,
+  CompanyPermission,
   AddressSuggestion,
   BookingContactDetails,
   BookingInvitationStatus,
@@ -8,6 +11,7 @@ import type {
   BookingServicePreferences,
   BookingStatus,
   CleaningFrequency,
+  CleaningSoilLevel,
   EcoPreference,
   FallbackTeamCandidate,
   NotificationChannel,
@@ -22,6 +26,7 @@ import type {
   ProviderServiceType,
   ProviderServiceZone,
   ProviderType,
+  ServiceAddonLine,
   ServiceCategory,
   SupportCategory,
   SupportPriority,
@@ -36,6 +41,7 @@ import type {
   DocumentReference,
   PromoCodeType,
   MarketingLandingStatus,
+  ReviewCriteriaScores,
   ReviewStatus,
   SystemApiKeyStatus,
   SystemDataJobFormat,
@@ -56,6 +62,36 @@ export interface AuthResponse {
   tokens: AuthTokens;
 }
 
+export interface AuthTwoFactorChallengeResponse {
+  status: 'two_factor_required' | 'two_factor_setup_required';
+  challengeToken: string;
+  expiresAt: string;
+}
+
+export type AuthLoginResponse = AuthResponse | AuthTwoFactorChallengeResponse;
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+export interface TwoFactorStatusResponse {
+  enabled: boolean;
+  required: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+}
+
+export interface VerifyTwoFactorChallengePayload {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
 export interface RegisterPayload {
   email: string;
   password: string;
@@ -64,6 +100,7 @@ export interface RegisterPayload {
   phone?: string;
   roles: UserRole[];
   preferredLocale: string;
+  referralCode?: string;
 }
 
 export interface LoginPayload {
@@ -78,6 +115,7 @@ export interface RefreshPayload {
 export interface CreateBookingPayload {
   clientId?: string;
   companyId?: string;
+  costCentre?: string;
   address: Address;
   billingAddress?: Address;
   service: ServiceCategory;
@@ -109,6 +147,24 @@ export interface CreateBookingPayload {
   guestToken?: string;
 }
 
+export interface CreateCompanyPayload {
+  name: string;
+  vatNumber?: string;
+  legalForm?: string;
+  billingEmail: string;
+  billingMode?: CompanyBillingMode;
+  costCentres?: string[];
+  phone?: string;
+  address: Omit<Address, 'coordinates' | 'accessNotes'>;
+  locales?: string[];
+}
+
+export interface InviteCompanyMemberPayload {
+  email: string;
+  role: Exclude<CompanyMemberRole, 'owner'>;
+  permissions?: CompanyPermission[];
+}
+
 export interface CheckoutPaymentIntentResponse {
   required: boolean;
   paymentIntentClientSecret: string | null;
@@ -154,6 +210,29 @@ export interface UpdateBookingPayload {
   status?: BookingRequest['status'];
 }
 
+export type UpdateBookingSeriesPayload = Pick<
+  UpdateBookingPayload,
+  | 'startAt'
+  | 'endAt'
+  | 'surfacesSquareMeters'
+  | 'durationHours'
+  | 'recommendedHours'
+  | 'durationManuallyAdjusted'
+  | 'ecoPreference'
+  | 'onsiteContact'
+  | 'servicePreferences'
+  | 'notes'
+  | 'providerNotes'
+>;
+
+export interface SkipBookingOccurrencePayload {
+  reason?: string;
+}
+
+export interface EndBookingSeriesPayload {
+  reason?: string;
+}
+
 export interface ListBookingsParams {
   status?: BookingStatus;
   statuses?: BookingStatus[];
@@ -289,6 +368,27 @@ export interface UpdateNotificationPreferencesPayload {
   language?: string;
 }
 
+export interface PushConfigResponse {
+  webPushEnabled: boolean;
+  vapidPublicKey: string | null;
+  fcmEnabled: boolean;
+}
+
+export interface RegisterPushSubscriptionPayload {
+  platform: 'WEB' | 'ANDROID' | 'IOS';
+  endpoint: string;
+  keys?: { p256dh: string; auth: string };
+  userAgent?: string;
+}
+
+export interface PushSubscriptionSummary {
+  id: string;
+  platform: 'web' | 'android' | 'ios';
+  userAgent: string | null;
+  createdAt: string;
+  lastSuccessAt: string | null;
+}
+
 export interface ProviderInvitationFilters {
   status?: BookingInvitationStatus;
   limit?: number;
@@ -384,6 +484,9 @@ export interface ProviderReviewSummary {
   authorFirstName: string;
   comment?: string;
   score: number;
+  criteria?: ReviewCriteriaScores;
+  providerReply?: string;
+  providerRepliedAt?: string;
   createdAt: string;
 }
 
@@ -571,6 +674,7 @@ export interface UpdateProviderProfilePayload {
   serviceCategories?: ServiceCategory[];
   hourlyRateCents?: number;
   offersEco?: boolean;
+  smallBusiness?: boolean;
   yearsExperience?: number;
 }
 
@@ -838,6 +942,8 @@ export interface AdminGdprRequest {
   exportReadyAt?: string;
   exportExpiresAt?: string;
   exportAvailable: boolean;
+  /** Deletion requests: steps of the erasure pipeline already applied (it resumes from there). */
+  erasureCompletedSteps?: string[];
 }
 
 export interface CreateAdminGdprRequestPayload {
@@ -854,6 +960,25 @@ export interface RejectAdminGdprRequestPayload {
   reason: string;
 }
 
+export interface GdprErasureReport {
+  requestId: string;
+  subjectId: string;
+  /** SHA-256 of the lower-cased e-mail address, to match the report against a request without storing it. */
+  subjectEmailHash: string;
+  steps: { step: string; affected: number; completedAt: string }[];
+  /** Records kept for statutory retention (tax law), anonymised instead of deleted. */
+  retained: { invoices: number; payments: number; payouts: number };
+  executedBy: string;
+  completedAt: string;
+}
+
+export interface AdminGdprErasureReport {
+  report: GdprErasureReport;
+  algorithm: string;
+  signature: string;
+  signatureValid: boolean;
+}
+
 export interface AdminConsentRecord {
   id: string;
   user: {
@@ -1090,6 +1215,11 @@ export interface PayoutMissionSummary {
   startAt?: string;
   endAt?: string;
   clientTotalCents?: number;
+  checkInAt?: string | null;
+  checkOutAt?: string | null;
+  workedMinutes?: number | null;
+  /** Set on the entry for approved overtime, which is paid out separately from the booked time. */
+  overtime?: boolean;
 }
 
 export interface ProviderPayoutSummary {
@@ -1196,6 +1326,7 @@ export interface AdminClientDetails extends AdminClientListItem {
   addresses: AdminClientAddress[];
   bookings: AdminClientBookingSummary[];
   payments: AdminClientPaymentSummary[];
+  emailDelivery: AdminEmailDeliveryHistory;
 }
 
 export interface AdminBookingParty {
@@ -1318,6 +1449,7 @@ export interface AdminProviderDetails extends AdminProviderListItem {
     city: string | null;
     region: string | null;
   };
+  emailDelivery: AdminEmailDeliveryHistory;
 }
 
 export interface AdminEmployeeListItem {
@@ -1387,12 +1519,18 @@ export interface AdminFinancePaymentItem {
   provider: string;
   externalReference?: string | null;
   metadataPurpose?: string | null;
+  refundedAmountCents?: number;
   client: AdminFinancePaymentParty;
   service?: string;
   city?: string;
   postalCode?: string;
 }
 
+export interface AdminFinanceRefundPayload {
+  amountCents?: number;
+  reason?: string;
+}
+
 export type ProviderPayoutStatus = 'pending' | 'processing' | 'paid' | 'failed';
 
 export interface AdminFinancePayoutItem {
@@ -1777,6 +1915,48 @@ export interface AdminMarketingCampaign {
 
 export interface AdminMarketingCampaignListResponse extends AdminPaginatedResponse<AdminMarketingCampaign> {}
 
+/** Saved on a marketing segment; every field narrows the audience further. */
+export interface MarketingSegmentCriteria {
+  roles?: Array<'client' | 'company'>;
+  /** Prefixes matched against the postal code of past bookings, e.g. `10` for central Berlin. */
+  postalCodes?: string[];
+  lastBookingAfter?: string;
+  /** Clients with at least one booking but none since this date. */
+  lastBookingBefore?: string;
+  minBookings?: number;
+  maxBookings?: number;
+  /** Window used to count `minBookings`/`maxBookings`, 365 days by default. */
+  bookingWindowDays?: number;
+  marketingConsent?: boolean;
+  locales?: string[];
+}
+
+export interface AdminMarketingSegment {
+  id: string;
+  name: string;
+  description?: string | null;
+  criteria: MarketingSegmentCriteria;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminMarketingSegmentPreview {
+  audienceSize: number;
+  /** Part of the audience that can actually be emailed. */
+  reachable: number;
+}
+
+export interface AdminMarketingCampaignDetail extends AdminMarketingCampaign {
+  segmentId?: string | null;
+  subject?: string | null;
+  content?: string | null;
+  ctaLabel?: string | null;
+  ctaUrl?: string | null;
+  openCount: number;
+  clickCount: number;
+  conversionCount: number;
+}
+
 export type ReferralStatus =
   | 'invited'
   | 'signed_up'
@@ -1807,6 +1987,30 @@ export interface AdminReferralRecord {
 
 export interface AdminReferralListResponse extends AdminPaginatedResponse<AdminReferralRecord> {}
 
+export interface CreateReferralInvitesPayload {
+  emails: string[];
+  message?: string;
+}
+
+export interface ReferralInviteSummary {
+  id: string;
+  email: string;
+  status: ReferralStatus;
+  rewardReferrerCents: number;
+  rewardedAt?: string | null;
+  createdAt: string;
+}
+
+export interface ReferralOverviewResponse {
+  enabled: boolean;
+  code: string;
+  shareUrl: string;
+  rewardReferrerCents: number;
+  rewardReferredCents: number;
+  totalRewardedCents: number;
+  invites: ReferralInviteSummary[];
+}
+
 export type AdminSystemStatus = 'ok' | 'degraded' | 'down';
 
 export interface AdminSystemHealthCheck {
@@ -1876,12 +2080,36 @@ export interface AdminSystemApiKeyItem {
   scopes: string[];
   status: SystemApiKeyStatus;
   rateLimitPerDay?: number;
+  usageToday?: number;
   lastUsedAt?: string;
+  rotatedAt?: string;
+  revokedAt?: string;
   createdAt: string;
   updatedAt: string;
   owner?: AdminSystemActor;
 }
 
+export interface AdminSystemApiKeyPayload {
+  name: string;
+  description?: string;
+  ownerId: string;
+  scopes: string[];
+  rateLimitPerDay?: number;
+}
+
+export interface AdminSystemApiKeyUpdatePayload {
+  name?: string;
+  description?: string | null;
+  scopes?: string[];
+  rateLimitPerDay?: number | null;
+  status?: SystemApiKeyStatus;
+}
+
+export interface AdminSystemApiKeySecretResponse {
+  apiKey: AdminSystemApiKeyItem;
+  secret: string;
+}
+
 export interface AdminSystemImportJobItem {
   id: string;
   label: string;
@@ -1890,6 +2118,10 @@ export interface AdminSystemImportJobItem {
   status: SystemDataJobStatus;
   processedCount: number;
   totalCount?: number;
+  successCount: number;
+  errorCount: number;
+  dryRun: boolean;
+  reportAvailable: boolean;
   sourceFilename?: string;
   createdAt: string;
   updatedAt: string;
@@ -1900,6 +2132,15 @@ export interface AdminSystemImportJobItem {
   createdBy?: AdminSystemActor;
 }
 
+export interface AdminSystemImportJobPayload {
+  label: string;
+  entity: Uppercase<SystemImportEntity>;
+  format: Uppercase<Exclude<SystemDataJobFormat, 'xlsx'>>;
+  fileName?: string;
+  content: string;
+  dryRun?: boolean;
+}
+
 export interface AdminSystemExportJobItem {
   id: string;
   label: string;
@@ -1908,15 +2149,30 @@ export interface AdminSystemExportJobItem {
   status: SystemDataJobStatus;
   recordCount?: number;
   fileUrl?: string;
+  documentId?: string;
   expiresAt?: string;
   createdAt: string;
   updatedAt: string;
+  startedAt?: string;
   completedAt?: string;
+  purgedAt?: string;
+  attempts?: number;
   errorMessage?: string;
   metadata?: Record<string, unknown>;
   requestedBy?: AdminSystemActor;
 }
 
+export interface AdminSystemExportJobPayload {
+  label: string;
+  type: Uppercase<SystemExportType>;
+  format: Uppercase<SystemDataJobFormat>;
+  parameters?: {
+    from?: string;
+    to?: string;
+    status?: string;
+  };
+}
+
 export interface AdminWebhookLogItem {
   id: string;
   provider: string;
@@ -1999,6 +2255,47 @@ export interface AdminNotificationLogItem {
   error: { code: string; message: string | null } | null;
 }
 
+export type EmailDeliveryStatus = 'pending' | 'sent' | 'failed' | 'suppressed';
+export type EmailDeliveryEventType = 'delivered' | 'deferred' | 'bounced' | 'complained' | 'opened' | 'clicked';
+export type EmailSuppressionReason = 'hard_bounce' | 'soft_bounce' | 'complaint' | 'manual';
+
+export interface AdminEmailSuppression {
+  id: string;
+  email: string;
+  reason: EmailSuppressionReason;
+  details: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface AdminEmailDeliveryEvent {
+  id: string;
+  type: EmailDeliveryEventType;
+  bounceType: string | null;
+  status: string | null;
+  reason: string | null;
+  occurredAt: string;
+}
+
+export interface AdminEmailDeliveryItem {
+  id: string;
+  template: string;
+  status: EmailDeliveryStatus;
+  createdAt: string;
+  sentAt: string | null;
+  deliveredAt: string | null;
+  bouncedAt: string | null;
+  openedAt: string | null;
+  clickedAt: string | null;
+  error: string | null;
+  events: AdminEmailDeliveryEvent[];
+}
+
+export interface AdminEmailDeliveryHistory {
+  suppression: AdminEmailSuppression | null;
+  emails: AdminEmailDeliveryItem[];
+}
+
 export interface AdminNotificationTemplate {
   id: string;
   key: string;
@@ -2035,6 +2332,9 @@ export interface AdminQualityReviewListItem {
   comment: string | null;
   status: ReviewStatus;
   ecoCompliance: boolean;
+  criteria: ReviewCriteriaScores;
+  providerReply: string | null;
+  providerRepliedAt: string | null;
   createdAt: string;
   booking: {
     id: string;
@@ -2240,6 +2540,7 @@ export interface AdminServicePricingMatrixRow {
   avgDurationHours: number | null;
   bookingsCount: number;
   lastUpdatedAt: string | null;
+  addons: ServiceAddonLine[];
 }
 
 export interface AdminServicePricingMatrixResponse {
@@ -2257,6 +2558,15 @@ export interface AdminServicePricingRuleItem {
   multiplier?: number | null;
   minSquareMeters?: number | null;
   maxSquareMeters?: number | null;
+  postalCodePrefixes: string[];
+  weekdays: number[];
+  startMinute?: number | null;
+  endMinute?: number | null;
+  maxLeadTimeHours?: number | null;
+  soilLevel?: CleaningSoilLevel | null;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  exclusive: boolean;
   isActive: boolean;
   priority: number;
   createdAt: string;
@@ -47,6 +47,35 @@ export interface ProviderServiceType {
   includedOptions: string[];
 }
 
+export type ServiceAddonId =
+  | 'oven'
+  | 'fridge'
+  | 'cabinets'
+  | 'interior_windows'
+  | 'window_frames'
+  | 'balcony'
+  | 'ironing'
+  | 'dishes'
+  | 'limescale';
+
+export interface ServiceAddon {
+  id: ServiceAddonId;
+  title: string;
+  description: string;
+  /** Services the add-on can be booked with. */
+  services: ServiceCategory[];
+  priceCents: number;
+  extraMinutes: number;
+}
+
+/** An add-on as priced for a booking; the price can be overridden per add-on through pricing rules. */
+export interface ServiceAddonLine {
+  id: ServiceAddonId;
+  title: string;
+  priceCents: number;
+  extraMinutes: number;
+}
+
 export type BookingMode = 'manual' | 'smart_match';
 
 export type EcoPreference = 'standard' | 'bio';
@@ -61,7 +90,7 @@ export type SystemApiKeyStatus = 'active' | 'paused' | 'revoked';
 
 export type SystemDataJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
-export type SystemDataJobFormat = 'csv' | 'json';
+export type SystemDataJobFormat = 'csv' | 'json' | 'xlsx';
 
 export type SystemImportEntity =
   | 'users'
@@ -132,6 +161,7 @@ export interface User extends BaseEntity {
   roles: UserRole[];
   preferredLocale: string;
   isActive: boolean;
+  emailVerifiedAt?: string;
   lastLoginAt?: string;
   companies?: string[]; // company ids for which the user has access
 }
@@ -158,6 +188,10 @@ export interface ProviderProfile extends BaseEntity {
   ratingAverage?: number;
   ratingCount?: number;
   offersEco: boolean;
+  /** Small business under §19 UStG: the provider's missions are invoiced without VAT. */
+  smallBusiness?: boolean;
+  /** How far from their service zones the provider travels; the platform default applies when unset. */
+  distanceMaxKm?: number;
   photoUrl?: string | null;
   acceptsAnimals?: boolean;
   payoutMethod?: 'card' | 'bank_transfer';
@@ -213,17 +247,68 @@ export interface ProviderServiceZone {
   radiusKm?: number;
 }
 
+export type CompanyBillingMode = 'per_booking' | 'consolidated';
+
+export type CompanyMemberRole = 'owner' | 'admin' | 'booker' | 'viewer';
+
+export type CompanyPermission =
+  | 'bookings.create'
+  | 'bookings.cancel'
+  | 'members.manage'
+  | 'company.manage'
+  | 'billing.view';
+
 export interface Company extends BaseEntity {
   name: string;
   vatNumber?: string;
+  vatNumberValidatedAt?: string;
   legalForm?: string;
   billingEmail: string;
+  billingMode?: CompanyBillingMode;
+  costCentres?: string[];
   phone?: string;
   address: Address;
   locales: string[];
   ecoPolicy?: string;
 }
 
+export interface CompanyMember extends BaseEntity {
+  companyId: string;
+  userId: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  role: CompanyMemberRole;
+  permissions: CompanyPermission[];
+}
+
+export type CompanyInvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface CompanyInvitation extends BaseEntity {
+  companyId: string;
+  email: string;
+  role: CompanyMemberRole;
+  permissions: CompanyPermission[];
+  status: CompanyInvitationStatus;
+  expiresAt: string;
+  acceptedAt?: string;
+}
+
+export interface CompanyInvoice {
+  id: string;
+  invoiceNumber: string;
+  issuedAt: string;
+  periodStart: string;
+  periodEnd: string;
+  status: string;
+  currency: string;
+  subtotalCents: number;
+  taxCents: number;
+  totalCents: number;
+  bookingCount: number;
+  documentUrl?: string;
+}
+
 export interface ClientProfile extends BaseEntity {
   userId: string;
   defaultLocale: string;
@@ -264,6 +349,7 @@ export interface BookingPreview {
 export interface BookingRequest extends BaseEntity {
   clientId: string | null;
   companyId?: string;
+  costCentre?: string;
   address: Address;
   service: ServiceCategory;
   billingAddress?: Address;
@@ -273,6 +359,7 @@ export interface BookingRequest extends BaseEntity {
   durationHours?: number | null;
   recommendedHours?: number | null;
   durationManuallyAdjusted?: boolean;
+  addons?: ServiceAddonLine[];
   startAt: string;
   endAt: string;
   frequency: CleaningFrequency;
@@ -291,6 +378,7 @@ export interface BookingRequest extends BaseEntity {
   status: BookingStatus;
   pricing: BookingPricing;
   auditLog: BookingAuditEntry[];
+  timeTracking: BookingTimeEntry[];
   matchingRetryCount: number;
   fallbackRequestedAt?: string | null;
   fallbackEscalatedAt?: string | null;
@@ -298,8 +386,38 @@ export interface BookingRequest extends BaseEntity {
   leadTimeDays?: number;
   shortNotice?: boolean;
   shortNoticeDepositCents?: number;
+  cancelledAt?: string | null;
+  cancellationFeeCents?: number | null;
+  cancellationInitiator?: CancellationInitiator | null;
   couponCode?: string | null;
   servicePreferences?: BookingServicePreferences;
+  seriesId?: string | null;
+  seriesIndex?: number | null;
+}
+
+export type BookingSeriesStatus = 'active' | 'ended';
+
+export interface BookingSeriesOccurrence {
+  bookingId: string;
+  index: number;
+  startAt: string;
+  endAt: string;
+  status: BookingStatus;
+  providerIds: string[];
+}
+
+export interface BookingSeries extends BaseEntity {
+  clientId: string | null;
+  frequency: Extract<CleaningFrequency, 'weekly' | 'biweekly' | 'monthly'>;
+  status: BookingSeriesStatus;
+  anchorStartAt: string;
+  durationMinutes: number;
+  timezone: string;
+  horizonOccurrences: number;
+  lastMaterializedAt?: string | null;
+  endedAt?: string | null;
+  endReason?: string | null;
+  occurrences: BookingSeriesOccurrence[];
 }
 
 export type BookingInvitationStatus = 'pending' | 'accepted' | 'declined' | 'expired';
@@ -344,14 +462,48 @@ export type BookingStatus =
   | 'cancelled'
   | 'disputed';
 
+/**
+ * VAT treatment applied to a booking: the country rate (standard or reduced), reverse charge for EU business
+ * customers from another member state, or no VAT for small-business providers (§19 UStG).
+ */
+export type TaxRuleCode =
+  | 'de_standard'
+  | 'de_reduced'
+  | 'at_standard'
+  | 'at_reduced'
+  | 'ch_standard'
+  | 'ch_reduced'
+  | 'reverse_charge'
+  | 'small_business';
+
+export type PricingAdjustmentType = 'zone' | 'weekend' | 'evening' | 'short_notice' | 'soil_level' | 'off_peak';
+
+export interface PricingAdjustment {
+  ruleId: string;
+  code: string;
+  type: PricingAdjustmentType;
+  label: string;
+  /** Negative for discounts. */
+  amountCents: number;
+}
+
+/** How the subtotal was derived from the square-meter price; the sum of the adjustments is already in it. */
+export interface PricingBreakdown {
+  baseSubtotalCents: number;
+  adjustments: PricingAdjustment[];
+}
+
 export interface BookingPricing {
   subtotalCents: number;
   ecoSurchargeCents: number;
   loyaltyCreditsCents: number;
   extrasCents: number;
   taxCents: number;
+  taxRule?: TaxRuleCode | null;
+  taxRateBps?: number | null;
   currency: 'EUR';
   totalCents: number;
+  breakdown?: PricingBreakdown | null;
 }
 
 export interface FallbackTeamCandidate {
@@ -461,10 +613,116 @@ export interface BookingAuditEntry {
     | 'attachment_uploaded'
     | 'customer_notified'
     | 'invoice_generated'
-    | 'payment_captured';
+    | 'payment_captured'
+    | 'provider_checked_in'
+    | 'provider_checked_out'
+    | 'overtime_approved'
+    | 'overtime_declined';
   metadata?: Record<string, unknown>;
 }
 
+export type BookingOvertimeStatus = 'pending' | 'approved' | 'declined';
+
+export interface BookingOvertimeRequest {
+  minutes: number;
+  /** Net amount before VAT, priced at the booking's rate. */
+  amountCents: number;
+  status: BookingOvertimeStatus;
+  respondedAt?: string | null;
+  /** Set once the separate overtime payment is collected. */
+  paidAt?: string | null;
+}
+
+export interface BookingOvertimeResponse extends BookingRequest {
+  /** Checkout for the overtime payment when it cannot be debited from a SEPA mandate. */
+  checkoutUrl?: string | null;
+}
+
+export interface BookingTimeEntry {
+  assignmentId: string;
+  providerId: string;
+  checkInAt?: string | null;
+  checkOutAt?: string | null;
+  checkInDistanceMeters?: number | null;
+  checkOutDistanceMeters?: number | null;
+  /** False when the provider checked in or out further from the address than the tolerance allows. */
+  withinTolerance: boolean;
+  plannedMinutes: number;
+  workedMinutes?: number | null;
+  overtime?: BookingOvertimeRequest | null;
+}
+
+export interface BookingChecklistEntry {
+  id: string;
+  position: number;
+  label: string;
+  source: 'service' | 'addon' | 'client_wish';
+  completed: boolean;
+  completedAt?: string | null;
+  completedByProviderId?: string | null;
+  note?: string | null;
+}
+
+export type BookingPhotoPhase = 'before' | 'after';
+
+export interface BookingEvidencePhoto {
+  id: string;
+  phase: BookingPhotoPhase;
+  url: string;
+  name?: string;
+  providerId?: string | null;
+  uploadedAt: string;
+  /** Set on dispute evidence when the photo was removed or replaced after the dispute was opened. */
+  changedSinceCapture?: boolean;
+}
+
+/** What the provider documented on site; shown to the client once the booking is completed. */
+export interface BookingEvidence {
+  bookingId: string;
+  checklist: BookingChecklistEntry[];
+  photos: BookingEvidencePhoto[];
+  timeTracking: BookingTimeEntry[];
+  capturedAt: string;
+}
+
+export type CancellationInitiator = 'client' | 'company' | 'provider' | 'staff';
+
+export type CancellationPolicyScope = 'standard' | 'short_notice' | 'company' | 'provider';
+
+export interface CancellationFeeTier {
+  /** The fee applies when cancelling less than this many hours before the start. */
+  withinHours: number;
+  feeBps: number;
+}
+
+export interface CancellationPolicyRecord {
+  id: string;
+  name: string;
+  scope: CancellationPolicyScope;
+  companyId?: string | null;
+  tiers: CancellationFeeTier[];
+  /** Share of the fee passed on to the assigned providers. */
+  providerCompensationBps: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What cancelling now would cost; shown to the client before confirming the cancellation. */
+export interface CancellationPreview {
+  bookingId: string;
+  initiator: CancellationInitiator;
+  policyId: string | null;
+  policyName: string;
+  scope: CancellationPolicyScope;
+  hoursUntilStart: number;
+  freeUntilHours: number | null;
+  feeBps: number;
+  feeCents: number;
+  refundCents: number;
+  currency: string;
+}
+
 export interface AddressSuggestion {
   id: string;
   label: string;
@@ -500,10 +758,27 @@ export interface PaymentRecord extends BaseEntity {
   capturedAt?: string | null;
   releasedAt?: string | null;
   refundedAt?: string | null;
+  refundedAmountCents?: number;
   cancellationReason?: string;
   occurredAt: string;
 }
 
+export type PaymentRefundStatus = 'pending' | 'processing' | 'refunded' | 'failed' | 'canceled';
+export type PaymentRefundSource = 'dispute' | 'cancellation' | 'admin' | 'external';
+
+export interface PaymentRefundRecord extends BaseEntity {
+  paymentId: string;
+  bookingId: string;
+  amountCents: number;
+  currency: string;
+  status: PaymentRefundStatus;
+  source: PaymentRefundSource;
+  reason?: string | null;
+  externalRefundId?: string | null;
+  failureReason?: string | null;
+  processedAt?: string | null;
+}
+
 export interface PaymentMandateRecord extends BaseEntity {
   provider: 'mollie' | 'adyen' | 'other';
   externalMandateId: string;
@@ -546,16 +821,27 @@ export type PaymentStatus =
   | 'released'
   | 'refunded'
   | 'failed'
-  | 'disputed';
+  | 'disputed'
+  | 'cancelled';
 export type PaymentMethod = 'card' | 'sepa' | 'paypal';
 
+export interface ReviewCriteriaScores {
+  punctuality?: number;
+  quality?: number;
+  communication?: number;
+}
+
 export interface Review extends BaseEntity {
   bookingId: string;
   authorId: string;
   targetProviderId: string;
-  score: number; // 0-10
+  score: number; // 1-5
+  criteria?: ReviewCriteriaScores;
   comment?: string;
   ecoCompliance: boolean;
+  status?: ReviewStatus;
+  providerReply?: string;
+  providerRepliedAt?: string;
 }
 
 export interface DocumentReference {
@@ -647,7 +933,7 @@ export type NotificationType =
   | 'matching_progress'
   | 'identity_verification';
 
-export type NotificationChannel = 'in_app' | 'email' | 'push';
+export type NotificationChannel = 'in_app' | 'email' | 'push' | 'sms';
 
 export type NotificationDeliveryStatus = 'pending' | 'sent' | 'delivered' | 'failed' | 'bounced';
 
@@ -667,6 +953,7 @@ export interface Notification extends BaseEntity {
   type: NotificationType;
   payload: Record<string, unknown>;
   readAt?: string | null;
+  digestedAt?: string | null;
   userId: string;
   channel: NotificationChannel;
   deliveryStatus: NotificationDeliveryStatus;
@@ -730,6 +1017,7 @@ export interface DisputeRecord extends BaseEntity {
   resolvedAt?: string | null;
   adminNotes?: string | null;
   messages?: DisputeMessage[];
+  evidence?: BookingEvidence | null;
 }
 
 export interface NotificationRealtimeEvent {
@@ -760,6 +1048,8 @@ export interface UserPreferences {
   productUpdates: boolean;
   enableDarkMode: boolean;
   digestFrequency: 'NEVER' | 'DAILY' | 'WEEKLY';
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
 }
 
 export interface ProfileAuditEntry extends BaseEntity {
@@ -0,0 +1,78 @@
+import type { ServiceAddon, ServiceAddonId } from './models';
+
+export const SERVICE_ADDON_CATALOG: ServiceAddon[] = [
+  {
+    id: 'oven',
+    title: 'Backofen reinigen',
+    description: 'Backofen innen inklusive Bleche und Roste entfetten.',
+    services: ['residential', 'spring', 'final', 'move_out', 'cluttered'],
+    priceCents: 2500,
+    extraMinutes: 30,
+  },
+  {
+    id: 'fridge',
+    title: 'Kühlschrank innen reinigen',
+    description: 'Kühlschrank ausräumen, Fächer auswaschen und wieder einräumen.',
+    services: ['residential', 'office', 'spring', 'final', 'move_out'],
+    priceCents: 2000,
+    extraMinutes: 30,
+  },
+  {
+    id: 'cabinets',
+    title: 'Schränke innen auswischen',
+    description: 'Küchen- und Einbauschränke innen feucht auswischen.',
+    services: ['residential', 'spring', 'final', 'move_out'],
+    priceCents: 3000,
+    extraMinutes: 45,
+  },
+  {
+    id: 'interior_windows',
+    title: 'Fenster innen putzen',
+    description: 'Glasflächen und Fensterbänke von innen reinigen.',
+    services: ['residential', 'office', 'spring', 'final', 'move_out', 'cluttered'],
+    priceCents: 3500,
+    extraMinutes: 60,
+  },
+  {
+    id: 'window_frames',
+    title: 'Fensterrahmen & Rollläden reinigen',
+    description: 'Rahmen, Falze und Rollläden zusätzlich zu den Glasflächen.',
+    services: ['windows', 'wintergarden'],
+    priceCents: 2500,
+    extraMinutes: 30,
+  },
+  {
+    id: 'balcony',
+    title: 'Balkon / Terrasse reinigen',
+    description: 'Boden kehren und wischen, Geländer abwischen.',
+    services: ['residential', 'spring', 'final', 'move_out'],
+    priceCents: 2500,
+    extraMinutes: 30,
+  },
+  {
+    id: 'ironing',
+    title: 'Bügelservice (1 Stunde)',
+    description: 'Wäsche bügeln und zusammenlegen.',
+    services: ['residential'],
+    priceCents: 3000,
+    extraMinutes: 60,
+  },
+  {
+    id: 'dishes',
+    title: 'Geschirr spülen',
+    description: 'Geschirr spülen oder Spülmaschine ein- und ausräumen.',
+    services: ['residential', 'office'],
+    priceCents: 1500,
+    extraMinutes: 20,
+  },
+  {
+    id: 'limescale',
+    title: 'Intensive Entkalkung im Bad',
+    description: 'Armaturen, Duschwände und Fliesenfugen gründlich entkalken.',
+    services: ['residential', 'spring', 'final', 'move_out', 'disinfection'],
+    priceCents: 2000,
+    extraMinutes: 30,
+  },
+];
+
+export const SERVICE_ADDON_IDS = SERVICE_ADDON_CATALOG.map((addon) => addon.id) as ServiceAddonId[];
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "BookingSeriesStatus" AS ENUM ('ACTIVE', 'ENDED');
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "seriesId" TEXT,
+ADD COLUMN     "seriesIndex" INTEGER;
+
+-- CreateTable
+CREATE TABLE "BookingSeries" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "clientId" TEXT,
+    "frequency" "CleaningFrequency" NOT NULL,
+    "status" "BookingSeriesStatus" NOT NULL DEFAULT 'ACTIVE',
+    "anchorStartAt" TIMESTAMP(3) NOT NULL,
+    "anchorIndex" INTEGER NOT NULL DEFAULT 0,
+    "durationMinutes" INTEGER NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'Europe/Berlin',
+    "horizonOccurrences" INTEGER NOT NULL DEFAULT 4,
+    "lastMaterializedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "endedById" TEXT,
+    "endReason" TEXT,
+
+    CONSTRAINT "BookingSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingSeries_status_idx" ON "BookingSeries"("status");
+
+-- CreateIndex
+CREATE INDEX "BookingSeries_clientId_idx" ON "BookingSeries"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Booking_seriesId_seriesIndex_key" ON "Booking"("seriesId", "seriesIndex");
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "BookingSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingSeries" ADD CONSTRAINT "BookingSeries_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "addressLatitude" DOUBLE PRECISION,
+ADD COLUMN     "addressLongitude" DOUBLE PRECISION;
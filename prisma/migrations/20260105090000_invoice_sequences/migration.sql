@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "InvoiceKind" AS ENUM ('INVOICE', 'CREDIT_NOTE');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "kind" "InvoiceKind" NOT NULL DEFAULT 'INVOICE',
+ADD COLUMN     "series" TEXT NOT NULL DEFAULT 'SAU',
+ADD COLUMN     "sequenceYear" INTEGER,
+ADD COLUMN     "sequenceNumber" INTEGER,
+ADD COLUMN     "originalInvoiceId" TEXT,
+ADD COLUMN     "creditReason" TEXT,
+ADD COLUMN     "sourceReference" TEXT;
+
+-- CreateTable
+CREATE TABLE "InvoiceNumberSequence" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "series" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "InvoiceNumberSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_sourceReference_key" ON "Invoice"("sourceReference");
+
+-- CreateIndex
+CREATE INDEX "Invoice_originalInvoiceId_idx" ON "Invoice"("originalInvoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_series_sequenceYear_sequenceNumber_key" ON "Invoice"("series", "sequenceYear", "sequenceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceNumberSequence_series_year_key" ON "InvoiceNumberSequence"("series", "year");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_originalInvoiceId_fkey" FOREIGN KEY ("originalInvoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
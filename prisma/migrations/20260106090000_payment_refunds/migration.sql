@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "PaymentRefundStatus" AS ENUM ('PENDING', 'PROCESSING', 'REFUNDED', 'FAILED', 'CANCELED');
+
+-- CreateEnum
+CREATE TYPE "PaymentRefundSource" AS ENUM ('DISPUTE', 'CANCELLATION', 'ADMIN', 'EXTERNAL');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "refundedAmountCents" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PaymentRefund" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "status" "PaymentRefundStatus" NOT NULL DEFAULT 'PENDING',
+    "source" "PaymentRefundSource" NOT NULL,
+    "reason" TEXT,
+    "sourceReference" TEXT,
+    "externalRefundId" TEXT,
+    "requestedById" TEXT,
+    "failureReason" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "ledgerAppliedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaymentRefund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentRefund_sourceReference_key" ON "PaymentRefund"("sourceReference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentRefund_externalRefundId_key" ON "PaymentRefund"("externalRefundId");
+
+-- CreateIndex
+CREATE INDEX "PaymentRefund_paymentId_idx" ON "PaymentRefund"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "PaymentRefund_status_idx" ON "PaymentRefund"("status");
+
+-- AddForeignKey
+ALTER TABLE "PaymentRefund" ADD CONSTRAINT "PaymentRefund_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentRefund" ADD CONSTRAINT "PaymentRefund_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "NotificationAutomationJobStatus" AS ENUM ('PENDING', 'PROCESSING', 'SENT', 'SKIPPED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "NotificationAutomationJob" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "event" "NotificationAutomationEvent" NOT NULL,
+    "status" "NotificationAutomationJobStatus" NOT NULL DEFAULT 'PENDING',
+    "runAt" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "dedupeKey" TEXT,
+    "bookingId" TEXT,
+    "paymentId" TEXT,
+    "context" JSONB NOT NULL,
+    "processedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+
+    CONSTRAINT "NotificationAutomationJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationAutomationJob_status_runAt_idx" ON "NotificationAutomationJob"("status", "runAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationAutomationJob_ruleId_dedupeKey_key" ON "NotificationAutomationJob"("ruleId", "dedupeKey");
+
+-- AddForeignKey
+ALTER TABLE "NotificationAutomationJob" ADD CONSTRAINT "NotificationAutomationJob_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "NotificationAutomationRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "digestedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "UserPreference" ADD COLUMN     "quietHoursStart" TEXT,
+ADD COLUMN     "quietHoursEnd" TEXT,
+ADD COLUMN     "lastDigestSentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_readAt_digestedAt_idx" ON "Notification"("userId", "readAt", "digestedAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SystemApiKey" ADD COLUMN     "usageCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "usageWindowStart" TIMESTAMP(3),
+ADD COLUMN     "rotatedAt" TIMESTAMP(3),
+ADD COLUMN     "revokedAt" TIMESTAMP(3);
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "DataImportJob" ADD COLUMN     "successCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "errorCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "dryRun" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sourcePath" TEXT,
+ADD COLUMN     "reportPath" TEXT,
+ADD COLUMN     "heartbeatAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "DataImportJob_status_heartbeatAt_idx" ON "DataImportJob"("status", "heartbeatAt");
@@ -0,0 +1,21 @@
+-- AlterEnum
+ALTER TYPE "DataJobFormat" ADD VALUE 'XLSX';
+
+-- AlterTable
+ALTER TABLE "DataExportJob" ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN     "purgedAt" TIMESTAMP(3),
+ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "documentId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DataExportJob_documentId_key" ON "DataExportJob"("documentId");
+
+-- CreateIndex
+CREATE INDEX "DataExportJob_status_heartbeatAt_idx" ON "DataExportJob"("status", "heartbeatAt");
+
+-- CreateIndex
+CREATE INDEX "DataExportJob_expiresAt_idx" ON "DataExportJob"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "DataExportJob" ADD CONSTRAINT "DataExportJob_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "punctualityScore" INTEGER,
+ADD COLUMN     "qualityScore" INTEGER,
+ADD COLUMN     "communicationScore" INTEGER,
+ADD COLUMN     "providerReply" TEXT,
+ADD COLUMN     "providerRepliedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_bookingId_targetProviderId_key" ON "Review"("bookingId", "targetProviderId");
+
+-- CreateIndex
+CREATE INDEX "Review_targetProviderId_status_idx" ON "Review"("targetProviderId", "status");
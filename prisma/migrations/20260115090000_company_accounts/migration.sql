@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "CompanyBillingMode" AS ENUM ('PER_BOOKING', 'CONSOLIDATED');
+
+-- DropForeignKey
+ALTER TABLE "Invoice" DROP CONSTRAINT "Invoice_bookingId_fkey";
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "billingMode" "CompanyBillingMode" NOT NULL DEFAULT 'PER_BOOKING',
+ADD COLUMN     "costCentres" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "vatNumberValidatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "companyInvoiceId" TEXT,
+ADD COLUMN     "costCentre" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "companyId" TEXT,
+ADD COLUMN     "periodEnd" TIMESTAMP(3),
+ADD COLUMN     "periodStart" TIMESTAMP(3),
+ALTER COLUMN "bookingId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "CompanyInvitation" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CompanyInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyInvitation_tokenHash_key" ON "CompanyInvitation"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "CompanyInvitation_companyId_idx" ON "CompanyInvitation"("companyId");
+
+-- CreateIndex
+CREATE INDEX "CompanyInvitation_email_idx" ON "CompanyInvitation"("email");
+
+-- CreateIndex
+CREATE INDEX "Booking_companyId_companyInvoiceId_idx" ON "Booking"("companyId", "companyInvoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_companyId_periodStart_key" ON "Invoice"("companyId", "periodStart");
+
+-- AddForeignKey
+ALTER TABLE "CompanyInvitation" ADD CONSTRAINT "CompanyInvitation_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanyInvitation" ADD CONSTRAINT "CompanyInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_companyInvoiceId_fkey" FOREIGN KEY ("companyInvoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "referralCode" TEXT;
+
+-- AlterTable
+ALTER TABLE "ReferralInvite" ADD COLUMN     "fraudReason" TEXT,
+ADD COLUMN     "rewardedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_referralCode_key" ON "User"("referralCode");
+
+-- CreateIndex
+CREATE INDEX "ReferralInvite_referredUserId_idx" ON "ReferralInvite"("referredUserId");
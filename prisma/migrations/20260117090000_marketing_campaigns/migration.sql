@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "MarketingCampaign" ADD COLUMN     "clickCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "content" TEXT,
+ADD COLUMN     "conversionCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ctaLabel" TEXT,
+ADD COLUMN     "ctaUrl" TEXT,
+ADD COLUMN     "openCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "segmentId" TEXT,
+ADD COLUMN     "subject" TEXT;
+
+-- CreateTable
+CREATE TABLE "MarketingSegment" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "criteria" JSONB NOT NULL,
+    "createdById" TEXT,
+
+    CONSTRAINT "MarketingSegment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MarketingCampaignRecipient" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "campaignId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "openedAt" TIMESTAMP(3),
+    "clickedAt" TIMESTAMP(3),
+    "convertedAt" TIMESTAMP(3),
+    "unsubscribedAt" TIMESTAMP(3),
+    "bookingId" TEXT,
+
+    CONSTRAINT "MarketingCampaignRecipient_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketingCampaign_status_scheduledAt_idx" ON "MarketingCampaign"("status", "scheduledAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketingCampaignRecipient_token_key" ON "MarketingCampaignRecipient"("token");
+
+-- CreateIndex
+CREATE INDEX "MarketingCampaignRecipient_userId_clickedAt_idx" ON "MarketingCampaignRecipient"("userId", "clickedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketingCampaignRecipient_campaignId_userId_key" ON "MarketingCampaignRecipient"("campaignId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "MarketingCampaign" ADD CONSTRAINT "MarketingCampaign_segmentId_fkey" FOREIGN KEY ("segmentId") REFERENCES "MarketingSegment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketingSegment" ADD CONSTRAINT "MarketingSegment_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketingCampaignRecipient" ADD CONSTRAINT "MarketingCampaignRecipient_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "MarketingCampaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketingCampaignRecipient" ADD CONSTRAINT "MarketingCampaignRecipient_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketingCampaignRecipient" ADD CONSTRAINT "MarketingCampaignRecipient_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
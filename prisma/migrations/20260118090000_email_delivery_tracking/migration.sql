@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "EmailDeliveryEventType" AS ENUM ('DELIVERED', 'DEFERRED', 'BOUNCED', 'COMPLAINED', 'OPENED', 'CLICKED');
+
+-- CreateEnum
+CREATE TYPE "EmailSuppressionReason" AS ENUM ('HARD_BOUNCE', 'SOFT_BOUNCE', 'COMPLAINT', 'MANUAL');
+
+-- AlterEnum
+ALTER TYPE "EmailQueueStatus" ADD VALUE 'SUPPRESSED';
+
+-- AlterTable
+ALTER TABLE "EmailQueue" ADD COLUMN     "bouncedAt" TIMESTAMP(3),
+ADD COLUMN     "clickedAt" TIMESTAMP(3),
+ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "openedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "EmailDeliveryEvent" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "emailId" TEXT,
+    "recipient" TEXT NOT NULL,
+    "type" "EmailDeliveryEventType" NOT NULL,
+    "bounceType" TEXT,
+    "status" TEXT,
+    "reason" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailDeliveryEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EmailSuppression" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "email" TEXT NOT NULL,
+    "reason" "EmailSuppressionReason" NOT NULL,
+    "details" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdById" TEXT,
+
+    CONSTRAINT "EmailSuppression_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailQueue_to_createdAt_idx" ON "EmailQueue"("to", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EmailDeliveryEvent_recipient_occurredAt_idx" ON "EmailDeliveryEvent"("recipient", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "EmailDeliveryEvent_emailId_idx" ON "EmailDeliveryEvent"("emailId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailSuppression_email_key" ON "EmailSuppression"("email");
+
+-- AddForeignKey
+ALTER TABLE "EmailDeliveryEvent" ADD CONSTRAINT "EmailDeliveryEvent_emailId_fkey" FOREIGN KEY ("emailId") REFERENCES "EmailQueue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmailSuppression" ADD CONSTRAINT "EmailSuppression_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "SmsMessageStatus" AS ENUM ('QUEUED', 'SENT', 'DELIVERED', 'UNDELIVERED', 'FAILED', 'RATE_LIMITED');
+
+-- AlterEnum
+ALTER TYPE "NotificationChannel" ADD VALUE 'SMS';
+
+-- CreateTable
+CREATE TABLE "SmsMessage" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT,
+    "bookingId" TEXT,
+    "to" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" "SmsMessageStatus" NOT NULL DEFAULT 'QUEUED',
+    "providerMessageId" TEXT,
+    "errorCode" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+
+    CONSTRAINT "SmsMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SmsMessage_providerMessageId_key" ON "SmsMessage"("providerMessageId");
+
+-- CreateIndex
+CREATE INDEX "SmsMessage_userId_createdAt_idx" ON "SmsMessage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SmsMessage_bookingId_template_idx" ON "SmsMessage"("bookingId", "template");
+
+-- AddForeignKey
+ALTER TABLE "SmsMessage" ADD CONSTRAINT "SmsMessage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SmsMessage" ADD CONSTRAINT "SmsMessage_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
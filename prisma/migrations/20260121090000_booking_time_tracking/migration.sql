@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "OvertimeRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'DECLINED');
+
+-- AlterTable
+ALTER TABLE "BookingAssignment" ADD COLUMN     "checkInAt" TIMESTAMP(3),
+ADD COLUMN     "checkInDistanceMeters" INTEGER,
+ADD COLUMN     "checkInLatitude" DOUBLE PRECISION,
+ADD COLUMN     "checkInLongitude" DOUBLE PRECISION,
+ADD COLUMN     "checkOutAt" TIMESTAMP(3),
+ADD COLUMN     "checkOutDistanceMeters" INTEGER,
+ADD COLUMN     "checkOutLatitude" DOUBLE PRECISION,
+ADD COLUMN     "checkOutLongitude" DOUBLE PRECISION,
+ADD COLUMN     "overtimeAmountCents" INTEGER,
+ADD COLUMN     "overtimeMinutes" INTEGER,
+ADD COLUMN     "overtimeRespondedAt" TIMESTAMP(3),
+ADD COLUMN     "overtimeStatus" "OvertimeRequestStatus",
+ADD COLUMN     "workedMinutes" INTEGER;
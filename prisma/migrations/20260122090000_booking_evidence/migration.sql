@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Dispute" ADD COLUMN     "evidence" JSONB;
+
+-- CreateTable
+CREATE TABLE "BookingChecklistItem" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'service',
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "completedById" TEXT,
+    "note" TEXT,
+
+    CONSTRAINT "BookingChecklistItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingChecklistItem_bookingId_position_key" ON "BookingChecklistItem"("bookingId", "position");
+
+-- AddForeignKey
+ALTER TABLE "BookingChecklistItem" ADD CONSTRAINT "BookingChecklistItem_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingChecklistItem" ADD CONSTRAINT "BookingChecklistItem_completedById_fkey" FOREIGN KEY ("completedById") REFERENCES "ProviderProfile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "CancellationPolicyScope" AS ENUM ('STANDARD', 'SHORT_NOTICE', 'COMPANY', 'PROVIDER');
+
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "cancellationFeeCents" INTEGER,
+ADD COLUMN     "cancellationInitiator" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CancellationPolicy" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "scope" "CancellationPolicyScope" NOT NULL,
+    "companyId" TEXT,
+    "tiers" JSONB NOT NULL,
+    "providerCompensationBps" INTEGER NOT NULL DEFAULT 7000,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "CancellationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CancellationPolicy_scope_isActive_idx" ON "CancellationPolicy"("scope", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "CancellationPolicy" ADD CONSTRAINT "CancellationPolicy_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
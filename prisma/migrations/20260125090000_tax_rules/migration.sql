@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "PricingRuleType" ADD VALUE 'TAX_RATE';
+
+-- AlterTable
+ALTER TABLE "ProviderProfile" ADD COLUMN     "smallBusiness" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "taxRateBps" INTEGER,
+ADD COLUMN     "taxRule" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "taxRateBps" INTEGER,
+ADD COLUMN     "taxRule" TEXT;
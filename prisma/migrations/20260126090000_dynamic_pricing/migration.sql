@@ -0,0 +1,21 @@
+-- AlterEnum
+ALTER TYPE "PricingRuleType" ADD VALUE 'ZONE_MULTIPLIER';
+ALTER TYPE "PricingRuleType" ADD VALUE 'WEEKEND_SURCHARGE';
+ALTER TYPE "PricingRuleType" ADD VALUE 'EVENING_SURCHARGE';
+ALTER TYPE "PricingRuleType" ADD VALUE 'SHORT_NOTICE_SURCHARGE';
+ALTER TYPE "PricingRuleType" ADD VALUE 'SOIL_LEVEL_MULTIPLIER';
+ALTER TYPE "PricingRuleType" ADD VALUE 'OFF_PEAK_DISCOUNT';
+
+-- AlterTable
+ALTER TABLE "PricingRule" ADD COLUMN     "endMinute" INTEGER,
+ADD COLUMN     "exclusive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "maxLeadTimeHours" INTEGER,
+ADD COLUMN     "postalCodePrefixes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "soilLevel" "SoilLevel",
+ADD COLUMN     "startMinute" INTEGER,
+ADD COLUMN     "validFrom" TIMESTAMP(3),
+ADD COLUMN     "validUntil" TIMESTAMP(3),
+ADD COLUMN     "weekdays" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "pricingBreakdown" JSONB;
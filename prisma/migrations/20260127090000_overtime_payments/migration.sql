@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "BookingAssignment" ADD COLUMN     "overtimePaidAt" TIMESTAMP(3),
+ADD COLUMN     "overtimePaymentReference" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingAssignment_overtimePaymentReference_key" ON "BookingAssignment"("overtimePaymentReference");
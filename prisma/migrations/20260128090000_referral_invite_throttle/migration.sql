@@ -0,0 +1,10 @@
+-- DropIndex
+DROP INDEX "ReferralInvite_referrerId_idx";
+
+-- AlterTable
+ALTER TABLE "ReferralInvite" ADD COLUMN     "lastSentAt" TIMESTAMP(3);
+
+UPDATE "ReferralInvite" SET "lastSentAt" = "createdAt" WHERE "status" = 'INVITED';
+
+-- CreateIndex
+CREATE INDEX "ReferralInvite_referrerId_lastSentAt_idx" ON "ReferralInvite"("referrerId", "lastSentAt");
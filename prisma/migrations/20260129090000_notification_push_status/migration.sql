@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "pushDeliveryStatus" "NotificationDeliveryStatus",
+ADD COLUMN     "pushErrorCode" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ProviderProfile" ADD COLUMN     "distanceMaxKm" DOUBLE PRECISION;
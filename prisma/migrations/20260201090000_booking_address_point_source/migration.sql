@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "GeoPointSource" AS ENUM ('CLIENT', 'POSTAL_CENTROID');
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "addressPointSource" "GeoPointSource";
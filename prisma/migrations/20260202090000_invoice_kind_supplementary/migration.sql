@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "InvoiceKind" ADD VALUE 'SUPPLEMENTARY';
@@ -0,0 +1,2 @@
+-- Overtime invoices supplement the booking invoice; refunds are credited against the booking invoice only.
+UPDATE "Invoice" SET "kind" = 'SUPPLEMENTARY' WHERE "sourceReference" LIKE 'overtime:%';
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "cancellationSettlement" JSONB,
+ADD COLUMN "cancellationSettlementDueAt" TIMESTAMP(3),
+ADD COLUMN "cancellationSettlementAttempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Booking_cancellationSettlementDueAt_idx" ON "Booking"("cancellationSettlementDueAt");
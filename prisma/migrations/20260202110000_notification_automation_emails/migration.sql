@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "NotificationAutomationEmail" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "jobId" TEXT NOT NULL,
+    "recipientId" TEXT NOT NULL,
+
+    CONSTRAINT "NotificationAutomationEmail_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationAutomationEmail_jobId_recipientId_key" ON "NotificationAutomationEmail"("jobId", "recipientId");
+
+-- AddForeignKey
+ALTER TABLE "NotificationAutomationEmail" ADD CONSTRAINT "NotificationAutomationEmail_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "NotificationAutomationJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
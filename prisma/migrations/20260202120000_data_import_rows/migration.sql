@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "DataImportRow" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "jobId" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+
+    CONSTRAINT "DataImportRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DataImportRow_jobId_rowNumber_key" ON "DataImportRow"("jobId", "rowNumber");
+
+-- AddForeignKey
+ALTER TABLE "DataImportRow" ADD CONSTRAINT "DataImportRow_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "DataImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
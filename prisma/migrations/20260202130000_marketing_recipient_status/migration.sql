@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "MarketingCampaignRecipientStatus" AS ENUM ('PENDING', 'ENQUEUED');
+
+-- AlterTable
+ALTER TABLE "MarketingCampaignRecipient" ADD COLUMN "status" "MarketingCampaignRecipientStatus" NOT NULL DEFAULT 'PENDING';
+
+-- Recipients recorded so far were emailed in the same run.
+UPDATE "MarketingCampaignRecipient" SET "status" = 'ENQUEUED';
+
+-- CreateIndex
+CREATE INDEX "MarketingCampaignRecipient_campaignId_status_idx" ON "MarketingCampaignRecipient"("campaignId", "status");
@@ -0,0 +1,16 @@
+-- Open bookings with add-ons were booked without the add-on time; extend their slot by it.
+UPDATE "Booking" AS b
+SET "endAt" = b."endAt" + make_interval(mins => a."minutes"),
+    "durationHours" = CASE
+      WHEN b."durationHours" IS NULL THEN NULL
+      ELSE ROUND(b."durationHours" + a."minutes" / 60.0, 2)
+    END
+FROM (
+  SELECT "id", SUM(COALESCE(("line"->>'extraMinutes')::int, 0))::int AS "minutes"
+  FROM "Booking", jsonb_array_elements("addons") AS "line"
+  WHERE jsonb_typeof("addons") = 'array'
+  GROUP BY "id"
+) AS a
+WHERE b."id" = a."id"
+  AND a."minutes" > 0
+  AND b."status" IN ('DRAFT', 'PENDING_PROVIDER', 'PENDING_CLIENT', 'CONFIRMED', 'IN_PROGRESS');
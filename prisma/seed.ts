@@ -229,6 +229,7 @@ async function upsertUsers(prisma: PrismaClient) {
         preferredLocale: user.preferredLocale,
         roles: user.roles,
         hashedPassword,
+        emailVerifiedAt: new Date(),
       },
     });
 
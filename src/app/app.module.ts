@@ -22,6 +22,8 @@ import { FollowUpModule } from './follow-up/follow-up.module';
 import { IdentityModule } from './identity/identity.module';
 import { ComplianceModule } from './compliance/compliance.module';
 import { SecurityModule } from './security/security.module';
+import { ReviewsModule } from './reviews/reviews.module';
+import { CompaniesModule } from './companies/companies.module';
 
 @Module({
   imports: [
@@ -46,6 +48,8 @@ import { SecurityModule } from './security/security.module';
     IdentityModule,
     ComplianceModule,
     SecurityModule,
+    ReviewsModule,
+    CompaniesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,153 @@
+import { HttpStatus } from '@nestjs/common';
+import { SystemApiKeyStatus, UserRole } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ApiKeysService } from './api-keys.service';
+
+type StoredKey = {
+  id: string;
+  prefix: string;
+  tokenHash: string;
+  status: SystemApiKeyStatus;
+  ownerId: string | null;
+  rateLimitPerDay: number | null;
+  usageWindowStart: Date | null;
+  usageCount: number;
+  revokedAt?: Date;
+  rotatedAt?: Date;
+};
+
+describe('ApiKeysService', () => {
+  let key: StoredKey | null;
+  let service: ApiKeysService;
+
+  beforeEach(() => {
+    key = null;
+    const prisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'company_1', isActive: true, roles: [UserRole.COMPANY] }),
+      },
+      systemApiKey: {
+        create: jest.fn(async ({ data }) => {
+          key = {
+            id: 'key_1',
+            prefix: data.prefix,
+            tokenHash: data.tokenHash,
+            status: SystemApiKeyStatus.ACTIVE,
+            ownerId: data.owner.connect.id,
+            rateLimitPerDay: data.rateLimitPerDay,
+            usageWindowStart: null,
+            usageCount: 0,
+          };
+          return key;
+        }),
+        findUnique: jest.fn(async ({ where }: { where: { id?: string; prefix?: string } }) =>
+          key && (where.id === key.id || where.prefix === key.prefix) ? key : null
+        ),
+        update: jest.fn(async ({ data }) => {
+          key = { ...(key as StoredKey), ...data };
+          return key;
+        }),
+        // Applies the conditional updates used to consume the daily quota.
+        updateMany: jest.fn(async ({ where, data }) => {
+          const current = key as StoredKey;
+          if (where.OR) {
+            const windowStart: Date = where.OR[1].usageWindowStart.lt;
+            if (current.usageWindowStart && current.usageWindowStart >= windowStart) {
+              return { count: 0 };
+            }
+            key = { ...current, usageWindowStart: data.usageWindowStart, usageCount: data.usageCount };
+            return { count: 1 };
+          }
+          if (where.usageCount && current.usageCount >= where.usageCount.lt) {
+            return { count: 0 };
+          }
+          key = { ...current, usageCount: current.usageCount + data.usageCount.increment };
+          return { count: 1 };
+        }),
+      },
+    };
+    service = new ApiKeysService(prisma as unknown as PrismaService);
+  });
+
+  it('returns the secret once and stores only its hash', async () => {
+    const { record, secret } = await service.issue({ name: 'ERP', ownerId: 'company_1', scopes: ['Bookings'] });
+
+    expect(secret).toMatch(new RegExp(`^sbk_${record.prefix}_[A-Za-z0-9_-]{32}$`));
+    expect(key?.tokenHash).toBe(createHash('sha256').update(secret).digest('hex'));
+    expect(key?.tokenHash).not.toContain(secret);
+    await expect(service.authenticate(secret)).resolves.toMatchObject({ id: 'key_1', ownerId: 'company_1' });
+  });
+
+  it('rejects malformed and unknown tokens', async () => {
+    const { record } = await service.issue({ name: 'ERP', ownerId: 'company_1', scopes: [] });
+
+    await expect(service.authenticate('not-a-key')).rejects.toThrow('API_KEY_INVALID');
+    await expect(service.authenticate(`sbk_${record.prefix}_${'a'.repeat(32)}`)).rejects.toThrow('API_KEY_INVALID');
+  });
+
+  it('invalidates the previous secret on rotation', async () => {
+    const issued = await service.issue({ name: 'ERP', ownerId: 'company_1', scopes: [] });
+    const rotated = await service.rotate('key_1');
+
+    expect(rotated.secret).not.toBe(issued.secret);
+    await expect(service.authenticate(issued.secret)).rejects.toThrow('API_KEY_INVALID');
+    await expect(service.authenticate(rotated.secret)).resolves.toMatchObject({ id: 'key_1' });
+  });
+
+  it('refuses revoked keys and does not rotate them', async () => {
+    const { secret } = await service.issue({ name: 'ERP', ownerId: 'company_1', scopes: [] });
+    await service.revoke('key_1');
+
+    await expect(service.authenticate(secret)).rejects.toThrow('API_KEY_REVOKED');
+    await expect(service.rotate('key_1')).rejects.toThrow('API_KEY_REVOKED');
+  });
+
+  it('refuses paused keys until they are reactivated', async () => {
+    const { secret } = await service.issue({ name: 'ERP', ownerId: 'company_1', scopes: [] });
+
+    await service.update('key_1', { status: SystemApiKeyStatus.PAUSED });
+    await expect(service.authenticate(secret)).rejects.toThrow('API_KEY_PAUSED');
+
+    await service.update('key_1', { status: SystemApiKeyStatus.ACTIVE });
+    await expect(service.authenticate(secret)).resolves.toMatchObject({ id: 'key_1' });
+  });
+
+  it('enforces the daily quota and resets it on a new day', async () => {
+    const { secret } = await service.issue({ name: 'ERP', ownerId: 'company_1', scopes: [], rateLimitPerDay: 2 });
+
+    await service.authenticate(secret);
+    await service.authenticate(secret);
+    await expect(service.authenticate(secret)).rejects.toMatchObject({
+      message: 'API_KEY_RATE_LIMITED',
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+
+    (key as StoredKey).usageWindowStart = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    await expect(service.authenticate(secret)).resolves.toMatchObject({ id: 'key_1' });
+    expect(key?.usageCount).toBe(1);
+  });
+
+  it('refuses every call of a key with a daily limit of zero, including the first of a day', async () => {
+    const { secret } = await service.issue({ name: 'ERP', ownerId: 'company_1', scopes: [], rateLimitPerDay: 0 });
+
+    await expect(service.authenticate(secret)).rejects.toThrow('API_KEY_RATE_LIMITED');
+    (key as StoredKey).usageWindowStart = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    await expect(service.authenticate(secret)).rejects.toThrow('API_KEY_RATE_LIMITED');
+    expect(key?.usageCount).toBe(0);
+  });
+
+  it('only issues keys to active client or company accounts', async () => {
+    const prisma = (service as unknown as { prisma: { user: { findUnique: jest.Mock } } }).prisma;
+
+    prisma.user.findUnique.mockResolvedValueOnce({ id: 'provider_1', isActive: true, roles: [UserRole.PROVIDER] });
+    await expect(service.issue({ name: 'ERP', ownerId: 'provider_1', scopes: [] })).rejects.toThrow(
+      'API_KEY_OWNER_INVALID'
+    );
+
+    prisma.user.findUnique.mockResolvedValueOnce(null);
+    await expect(service.issue({ name: 'ERP', ownerId: 'missing', scopes: [] })).rejects.toThrow(
+      'API_KEY_OWNER_NOT_FOUND'
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { SystemApiKeyStatus, UserRole, type SystemApiKey } from '@prisma/client';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { DateTime } from 'luxon';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const API_KEY_TOKEN_PREFIX = 'sbk';
+const API_KEY_TOKEN_PATTERN = /^sbk_([a-f0-9]{12})_([A-Za-z0-9_-]{32})$/;
+const RATE_LIMIT_ZONE = 'Europe/Berlin';
+
+export interface IssueApiKeyInput {
+  name: string;
+  description?: string | null;
+  ownerId: string;
+  scopes: string[];
+  rateLimitPerDay?: number | null;
+}
+
+export interface UpdateApiKeyInput {
+  name?: string;
+  description?: string | null;
+  scopes?: string[];
+  rateLimitPerDay?: number | null;
+  status?: SystemApiKeyStatus;
+}
+
+export interface IssuedApiKey {
+  record: SystemApiKey;
+  secret: string;
+}
+
+@Injectable()
+export class ApiKeysService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** The plain secret is only returned here; the database keeps its SHA-256 hash. */
+  async issue(input: IssueApiKeyInput): Promise<IssuedApiKey> {
+    const owner = await this.prisma.user.findUnique({
+      where: { id: input.ownerId },
+      select: { id: true, isActive: true, roles: true },
+    });
+    if (!owner || !owner.isActive) {
+      throw new NotFoundException('API_KEY_OWNER_NOT_FOUND');
+    }
+    if (!owner.roles.some((role) => role === UserRole.COMPANY || role === UserRole.CLIENT)) {
+      throw new BadRequestException('API_KEY_OWNER_INVALID');
+    }
+
+    const { prefix, secret, tokenHash } = this.generateToken();
+    const record = await this.prisma.systemApiKey.create({
+      data: {
+        name: input.name.trim(),
+        description: input.description ?? null,
+        prefix,
+        tokenHash,
+        scopes: this.normalizeScopes(input.scopes),
+        rateLimitPerDay: input.rateLimitPerDay ?? null,
+        owner: { connect: { id: owner.id } },
+      },
+    });
+    return { record, secret };
+  }
+
+  async rotate(id: string): Promise<IssuedApiKey> {
+    const existing = await this.getOrThrow(id);
+    if (existing.status === SystemApiKeyStatus.REVOKED) {
+      throw new BadRequestException('API_KEY_REVOKED');
+    }
+    const { prefix, secret, tokenHash } = this.generateToken();
+    const record = await this.prisma.systemApiKey.update({
+      where: { id },
+      data: { prefix, tokenHash, rotatedAt: new Date() },
+    });
+    return { record, secret };
+  }
+
+  async revoke(id: string): Promise<SystemApiKey> {
+    const existing = await this.getOrThrow(id);
+    if (existing.status === SystemApiKeyStatus.REVOKED) {
+      return existing;
+    }
+    return this.prisma.systemApiKey.update({
+      where: { id },
+      data: { status: SystemApiKeyStatus.REVOKED, revokedAt: new Date() },
+    });
+  }
+
+  async update(id: string, input: UpdateApiKeyInput): Promise<SystemApiKey> {
+    const existing = await this.getOrThrow(id);
+    if (existing.status === SystemApiKeyStatus.REVOKED) {
+      throw new BadRequestException('API_KEY_REVOKED');
+    }
+    if (input.status === SystemApiKeyStatus.REVOKED) {
+      return this.revoke(id);
+    }
+    return this.prisma.systemApiKey.update({
+      where: { id },
+      data: {
+        name: input.name?.trim(),
+        description: input.description,
+        scopes: input.scopes ? this.normalizeScopes(input.scopes) : undefined,
+        rateLimitPerDay: input.rateLimitPerDay,
+        status: input.status,
+      },
+    });
+  }
+
+  /**
+   * Resolves a presented token to its active key and consumes one request from the daily quota.
+   * Quotas reset at midnight Berlin time; keys without `rateLimitPerDay` are unlimited.
+   */
+  async authenticate(token: string): Promise<SystemApiKey & { ownerId: string }> {
+    const match = API_KEY_TOKEN_PATTERN.exec(token.trim());
+    if (!match) {
+      throw new UnauthorizedException('API_KEY_INVALID');
+    }
+    const record = await this.prisma.systemApiKey.findUnique({ where: { prefix: match[1] } });
+    if (!record || !this.matchesHash(token.trim(), record.tokenHash)) {
+      throw new UnauthorizedException('API_KEY_INVALID');
+    }
+    if (record.status !== SystemApiKeyStatus.ACTIVE) {
+      throw new UnauthorizedException(
+        record.status === SystemApiKeyStatus.REVOKED ? 'API_KEY_REVOKED' : 'API_KEY_PAUSED'
+      );
+    }
+    if (!record.ownerId) {
+      throw new UnauthorizedException('API_KEY_OWNER_NOT_FOUND');
+    }
+
+    await this.consumeQuota(record);
+    return { ...record, ownerId: record.ownerId };
+  }
+
+  private async consumeQuota(record: SystemApiKey) {
+    const now = new Date();
+    const windowStart = DateTime.fromJSDate(now).setZone(RATE_LIMIT_ZONE).startOf('day').toJSDate();
+    // Starting a new day counts this request too, so it needs the same room under the limit.
+    if (record.rateLimitPerDay !== null && record.rateLimitPerDay < 1) {
+      throw new HttpException('API_KEY_RATE_LIMITED', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    const reset = await this.prisma.systemApiKey.updateMany({
+      where: {
+        id: record.id,
+        OR: [{ usageWindowStart: null }, { usageWindowStart: { lt: windowStart } }],
+      },
+      data: { usageWindowStart: windowStart, usageCount: 1, lastUsedAt: now },
+    });
+    if (reset.count) {
+      return;
+    }
+
+    const consumed = await this.prisma.systemApiKey.updateMany({
+      where: {
+        id: record.id,
+        ...(record.rateLimitPerDay !== null ? { usageCount: { lt: record.rateLimitPerDay } } : {}),
+      },
+      data: { usageCount: { increment: 1 }, lastUsedAt: now },
+    });
+    if (!consumed.count) {
+      throw new HttpException('API_KEY_RATE_LIMITED', HttpStatus.TOO_MANY_REQUESTS);
+    }
+  }
+
+  private async getOrThrow(id: string) {
+    const record = await this.prisma.systemApiKey.findUnique({ where: { id } });
+    if (!record) {
+      throw new NotFoundException('API_KEY_NOT_FOUND');
+    }
+    return record;
+  }
+
+  private generateToken() {
+    const prefix = randomBytes(6).toString('hex');
+    const secret = `${API_KEY_TOKEN_PREFIX}_${prefix}_${randomBytes(24).toString('base64url')}`;
+    return { prefix, secret, tokenHash: this.hash(secret) };
+  }
+
+  private hash(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private matchesHash(token: string, expectedHash: string) {
+    const provided = Buffer.from(this.hash(token), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  }
+
+  private normalizeScopes(scopes: string[]) {
+    return Array.from(new Set(scopes.map((scope) => scope.trim().toLowerCase()).filter(Boolean)));
+  }
+}
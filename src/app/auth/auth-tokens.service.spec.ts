@@ -0,0 +1,83 @@
+import { AuthTokenPurpose } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthTokensService } from './auth-tokens.service';
+
+type StoredToken = {
+  id: string;
+  userId: string;
+  purpose: AuthTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+};
+
+describe('AuthTokensService', () => {
+  let tokens: StoredToken[];
+  let service: AuthTokensService;
+
+  beforeEach(() => {
+    tokens = [];
+    const prisma = {
+      $transaction: jest.fn(async (operations: Array<Promise<unknown>>) => Promise.all(operations)),
+      authToken: {
+        create: jest.fn(async ({ data }) => {
+          const token = { id: `token_${tokens.length + 1}`, usedAt: null, ...data };
+          tokens.push(token);
+          return token;
+        }),
+        findUnique: jest.fn(async ({ where }) => tokens.find((token) => token.tokenHash === where.tokenHash) ?? null),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const matches = tokens.filter(
+            (token) =>
+              (!where.id || token.id === where.id) &&
+              (!where.userId || token.userId === where.userId) &&
+              (!where.purpose || token.purpose === where.purpose) &&
+              token.usedAt === null
+          );
+          matches.forEach((token) => Object.assign(token, data));
+          return { count: matches.length };
+        }),
+      },
+    };
+    service = new AuthTokensService(prisma as unknown as PrismaService);
+  });
+
+  it('lets a token be used only once', async () => {
+    const token = await service.issue({ userId: 'user_1', purpose: AuthTokenPurpose.PASSWORD_RESET, ttlMs: 60_000 });
+
+    expect(tokens[0].tokenHash).not.toBe(token);
+    await expect(service.consume(token, AuthTokenPurpose.PASSWORD_RESET)).resolves.toBe('user_1');
+    await expect(service.consume(token, AuthTokenPurpose.PASSWORD_RESET)).resolves.toBeNull();
+  });
+
+  it('lets only one of two concurrent submissions succeed', async () => {
+    const token = await service.issue({ userId: 'user_1', purpose: AuthTokenPurpose.PASSWORD_RESET, ttlMs: 60_000 });
+
+    const results = await Promise.all([
+      service.consume(token, AuthTokenPurpose.PASSWORD_RESET),
+      service.consume(token, AuthTokenPurpose.PASSWORD_RESET),
+    ]);
+    expect(results.filter(Boolean)).toEqual(['user_1']);
+  });
+
+  it('rejects expired tokens and tokens issued for another purpose', async () => {
+    const expired = await service.issue({ userId: 'user_1', purpose: AuthTokenPurpose.PASSWORD_RESET, ttlMs: -1 });
+    const verification = await service.issue({
+      userId: 'user_1',
+      purpose: AuthTokenPurpose.EMAIL_VERIFICATION,
+      ttlMs: 60_000,
+    });
+
+    await expect(service.consume(expired, AuthTokenPurpose.PASSWORD_RESET)).resolves.toBeNull();
+    await expect(service.consume(verification, AuthTokenPurpose.PASSWORD_RESET)).resolves.toBeNull();
+    await expect(service.consume(verification, AuthTokenPurpose.EMAIL_VERIFICATION)).resolves.toBe('user_1');
+  });
+
+  it('invalidates the previous unused token when a new one is issued', async () => {
+    const first = await service.issue({ userId: 'user_1', purpose: AuthTokenPurpose.PASSWORD_RESET, ttlMs: 60_000 });
+    const second = await service.issue({ userId: 'user_1', purpose: AuthTokenPurpose.PASSWORD_RESET, ttlMs: 60_000 });
+
+    await expect(service.consume(first, AuthTokenPurpose.PASSWORD_RESET)).resolves.toBeNull();
+    await expect(service.consume(second, AuthTokenPurpose.PASSWORD_RESET)).resolves.toBe('user_1');
+  });
+});
@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import { AuthTokenPurpose } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+
+interface IssueAuthTokenParams {
+  userId: string;
+  purpose: AuthTokenPurpose;
+  ttlMs: number;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+@Injectable()
+export class AuthTokensService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Issues a new token and invalidates any unused one of the same purpose. */
+  async issue({ userId, purpose, ttlMs, ipAddress, userAgent }: IssueAuthTokenParams) {
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+    await this.prisma.$transaction([
+      this.prisma.authToken.updateMany({
+        where: { userId, purpose, usedAt: null },
+        data: { usedAt: now },
+      }),
+      this.prisma.authToken.create({
+        data: {
+          userId,
+          purpose,
+          tokenHash: this.hash(token),
+          expiresAt: new Date(now.getTime() + ttlMs),
+          ipAddress: ipAddress ?? null,
+          userAgent: userAgent ?? null,
+        },
+      }),
+    ]);
+    return token;
+  }
+
+  /**
+   * Marks the token as used and returns its owner. The conditional update makes concurrent
+   * submissions of the same link fail instead of both succeeding.
+   */
+  async consume(token: string, purpose: AuthTokenPurpose): Promise<string | null> {
+    const record = await this.find(token, purpose);
+    if (!record) {
+      return null;
+    }
+
+    const updated = await this.prisma.authToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return updated.count ? record.userId : null;
+  }
+
+  /** Looks up a valid token without using it, for flows that span several requests. */
+  async find(token: string, purpose: AuthTokenPurpose) {
+    const record = await this.prisma.authToken.findUnique({ where: { tokenHash: this.hash(token) } });
+    if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt <= new Date()) {
+      return null;
+    }
+    return record;
+  }
+
+  /** Counts a failed attempt against the token and burns it once `maxAttempts` is reached. */
+  async registerFailure(tokenId: string, maxAttempts: number) {
+    const record = await this.prisma.authToken.update({
+      where: { id: tokenId },
+      data: { attempts: { increment: 1 } },
+    });
+    if (record.attempts >= maxAttempts) {
+      await this.prisma.authToken.updateMany({
+        where: { id: tokenId, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+    }
+  }
+
+  private hash(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,11 +1,31 @@
-import { Body, Controller, Post, Req } from '@nestjs/common';
+import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
 import type { Request } from 'express';
+import type { User } from '@saubio/models';
 import { AuthService } from './auth.service';
-import { AppleOAuthDto, GoogleOAuthDto, LoginDto, RefreshTokenDto, RegisterDto } from './dto';
+import { TwoFactorService } from './two-factor.service';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AccessTokenGuard } from './guards/access-token.guard';
+import {
+  AppleOAuthDto,
+  ConfirmTwoFactorChallengeDto,
+  ForgotPasswordDto,
+  GoogleOAuthDto,
+  LoginDto,
+  RefreshTokenDto,
+  RegisterDto,
+  ResetPasswordDto,
+  TwoFactorChallengeDto,
+  TwoFactorCodeDto,
+  VerifyEmailDto,
+  VerifyTwoFactorChallengeDto,
+} from './dto';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactor: TwoFactorService
+  ) {}
 
   @Post('register')
   register(@Body() payload: RegisterDto, @Req() request: Request) {
@@ -27,6 +47,72 @@ export class AuthController {
     return this.authService.logout(payload);
   }
 
+  @Post('password/forgot')
+  forgotPassword(@Body() payload: ForgotPasswordDto, @Req() request: Request) {
+    return this.authService.requestPasswordReset(payload, request);
+  }
+
+  @Post('password/reset')
+  resetPassword(@Body() payload: ResetPasswordDto, @Req() request: Request) {
+    return this.authService.resetPassword(payload, request);
+  }
+
+  @Post('email/verify')
+  verifyEmail(@Body() payload: VerifyEmailDto, @Req() request: Request) {
+    return this.authService.verifyEmail(payload, request);
+  }
+
+  @Post('email/resend-verification')
+  @UseGuards(AccessTokenGuard)
+  resendVerification(@CurrentUser() user: User, @Req() request: Request) {
+    return this.authService.resendVerificationEmail(user, request);
+  }
+
+  @Post('2fa/challenge/verify')
+  verifyTwoFactorChallenge(@Body() payload: VerifyTwoFactorChallengeDto, @Req() request: Request) {
+    return this.authService.verifyTwoFactorChallenge(payload, request);
+  }
+
+  @Post('2fa/challenge/setup')
+  startTwoFactorChallengeSetup(@Body() payload: TwoFactorChallengeDto, @Req() request: Request) {
+    return this.authService.startTwoFactorChallengeSetup(payload, request);
+  }
+
+  @Post('2fa/challenge/setup/confirm')
+  confirmTwoFactorChallengeSetup(@Body() payload: ConfirmTwoFactorChallengeDto, @Req() request: Request) {
+    return this.authService.confirmTwoFactorChallengeSetup(payload, request);
+  }
+
+  @Get('2fa/status')
+  @UseGuards(AccessTokenGuard)
+  twoFactorStatus(@CurrentUser() user: User) {
+    return this.twoFactor.getStatus(user);
+  }
+
+  @Post('2fa/setup')
+  @UseGuards(AccessTokenGuard)
+  startTwoFactorSetup(@CurrentUser() user: User) {
+    return this.twoFactor.startEnrollment(user);
+  }
+
+  @Post('2fa/setup/confirm')
+  @UseGuards(AccessTokenGuard)
+  confirmTwoFactorSetup(@CurrentUser() user: User, @Body() payload: TwoFactorCodeDto) {
+    return this.twoFactor.confirmEnrollment(user, payload.code);
+  }
+
+  @Post('2fa/recovery-codes')
+  @UseGuards(AccessTokenGuard)
+  regenerateRecoveryCodes(@CurrentUser() user: User, @Body() payload: TwoFactorCodeDto) {
+    return this.twoFactor.regenerateRecoveryCodes(user, payload.code);
+  }
+
+  @Post('2fa/disable')
+  @UseGuards(AccessTokenGuard)
+  disableTwoFactor(@CurrentUser() user: User, @Body() payload: TwoFactorCodeDto) {
+    return this.twoFactor.disable(user, payload.code);
+  }
+
   @Post('oauth/google')
   googleLogin(@Body() payload: GoogleOAuthDto, @Req() request: Request) {
     return this.authService.loginWithGoogle(payload, request);
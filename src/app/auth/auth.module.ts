@@ -5,16 +5,22 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { UsersModule } from '../users/users.module';
 import { RefreshTokensService } from './refresh-tokens.service';
+import { AuthTokensService } from './auth-tokens.service';
+import { TwoFactorService } from './two-factor.service';
 import { AccessTokenGuard } from './guards/access-token.guard';
 import { RolesGuard } from './guards/roles.guard';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { ApiKeysService } from './api-keys.service';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { SecurityModule } from '../security/security.module';
+import { MarketingModule } from '../marketing/marketing.module';
 
 @Module({
   imports: [
     UsersModule,
     forwardRef(() => NotificationsModule),
     forwardRef(() => SecurityModule),
+    forwardRef(() => MarketingModule),
     JwtModule.registerAsync({
       inject: [ConfigService],
       useFactory: (config: ConfigService): JwtModuleOptions => {
@@ -29,7 +35,16 @@ import { SecurityModule } from '../security/security.module';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, RefreshTokensService, AccessTokenGuard, RolesGuard],
-  exports: [AuthService, AccessTokenGuard, RolesGuard, JwtModule, UsersModule],
+  providers: [
+    AuthService,
+    RefreshTokensService,
+    AuthTokensService,
+    TwoFactorService,
+    AccessTokenGuard,
+    RolesGuard,
+    ApiKeysService,
+    ApiKeyGuard,
+  ],
+  exports: [AuthService, AccessTokenGuard, RolesGuard, ApiKeysService, ApiKeyGuard, JwtModule, UsersModule],
 })
 export class AuthModule {}
@@ -1,12 +1,16 @@
-import { UnauthorizedException } from '@nestjs/common';
+import { HttpStatus, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
 import { AuthService } from './auth.service';
 import { UsersService } from '../users/users.service';
-import { User } from '@saubio/models';
+import { AuthResponse, User } from '@saubio/models';
 import { RefreshTokensService } from './refresh-tokens.service';
 import { EmailQueueService } from '../notifications/email-queue.service';
+import { SecurityService } from '../security/security.service';
+import { AuthTokensService } from './auth-tokens.service';
+import { TwoFactorService } from './two-factor.service';
+import { ReferralService } from '../marketing/referral.service';
 
 const mockRequest: any = {
   headers: { 'user-agent': 'jest' },
@@ -20,6 +24,8 @@ describe('AuthService', () => {
   let configService: jest.Mocked<ConfigService>;
   let refreshTokensService: jest.Mocked<RefreshTokensService>;
   let emailQueue: jest.Mocked<EmailQueueService>;
+  let security: jest.Mocked<SecurityService>;
+  let authTokens: jest.Mocked<AuthTokensService>;
 
   const user: User = {
     id: 'user_1',
@@ -72,9 +78,31 @@ describe('AuthService', () => {
 
     emailQueue = {
       enqueue: jest.fn(),
+      triggerImmediateProcessing: jest.fn(),
     } as unknown as jest.Mocked<EmailQueueService>;
 
-    authService = new AuthService(usersService, jwtService, configService, refreshTokensService, emailQueue);
+    security = {
+      recordLoginAttempt: jest.fn(),
+      recordSecurityLog: jest.fn(),
+      countRecentLoginAttempts: jest.fn().mockResolvedValue(0),
+    } as unknown as jest.Mocked<SecurityService>;
+
+    authTokens = {
+      issue: jest.fn().mockResolvedValue('reset-token'),
+      consume: jest.fn(),
+    } as unknown as jest.Mocked<AuthTokensService>;
+
+    authService = new AuthService(
+      usersService,
+      jwtService,
+      configService,
+      refreshTokensService,
+      emailQueue,
+      security,
+      authTokens,
+      { getLoginRequirement: jest.fn().mockResolvedValue('none') } as unknown as TwoFactorService,
+      { attributeSignup: jest.fn() } as unknown as ReferralService
+    );
   });
 
   it('registers a new user and returns tokens', async () => {
@@ -84,7 +112,7 @@ describe('AuthService', () => {
     jwtService.signAsync.mockResolvedValueOnce('refresh-token');
     jwtService.decode.mockReturnValue({ exp: Math.floor(Date.now() / 1000) + 60 });
 
-    const result = await authService.register(
+    const result = (await authService.register(
       {
         email: 'test@example.com',
         password: 'password123',
@@ -94,7 +122,7 @@ describe('AuthService', () => {
         preferredLocale: 'de',
       },
       mockRequest
-    );
+    )) as AuthResponse;
 
     expect(usersService.create).toHaveBeenCalledWith(
       expect.objectContaining({ email: 'test@example.com' }),
@@ -137,7 +165,7 @@ describe('AuthService', () => {
     jwtService.signAsync.mockResolvedValueOnce('refresh-token');
     jwtService.decode.mockReturnValue({ exp: Math.floor(Date.now() / 1000) + 60 });
 
-    const result = await authService.login({ email: user.email, password: 'password123' }, mockRequest);
+    const result = (await authService.login({ email: user.email, password: 'password123' }, mockRequest)) as AuthResponse;
     expect(refreshTokensService.create).toHaveBeenCalled();
     expect(refreshTokensService.enforceLimit).toHaveBeenCalledWith(user.id, expect.any(Number));
     expect(result.tokens.accessToken).toBe('access-token');
@@ -175,4 +203,120 @@ describe('AuthService', () => {
     expect(refreshTokensService.enforceLimit).toHaveBeenCalledWith(user.id, expect.any(Number));
     expect(result.tokens.refreshToken).toBe('new-refresh');
   });
+
+  describe('requestPasswordReset', () => {
+    beforeEach(() => {
+      usersService.findByEmailWithSensitiveData.mockResolvedValue({
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        preferredLocale: 'de',
+        isActive: true,
+      } as any);
+    });
+
+    it('issues a reset token and records the request for throttling', async () => {
+      await expect(
+        authService.requestPasswordReset({ email: 'Test@Example.com' }, mockRequest)
+      ).resolves.toEqual({ success: true });
+
+      expect(authTokens.issue).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: user.id, ipAddress: '127.0.0.1' })
+      );
+      expect(emailQueue.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ to: user.email, template: 'auth.password_reset' })
+      );
+      expect(security.recordLoginAttempt).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'test@example.com',
+          provider: 'password_reset_request',
+          ipAddress: '127.0.0.1',
+        })
+      );
+    });
+
+    it('throttles repeated requests for the same address', async () => {
+      security.countRecentLoginAttempts.mockImplementation(async ({ email }) => (email ? 3 : 0));
+
+      await expect(
+        authService.requestPasswordReset({ email: user.email }, mockRequest)
+      ).rejects.toMatchObject({ message: 'PASSWORD_RESET_RATE_LIMITED', status: HttpStatus.TOO_MANY_REQUESTS });
+      expect(usersService.findByEmailWithSensitiveData).not.toHaveBeenCalled();
+      expect(authTokens.issue).not.toHaveBeenCalled();
+    });
+
+    it('throttles requests for many addresses from one IP', async () => {
+      security.countRecentLoginAttempts.mockImplementation(async ({ ipAddress }) => (ipAddress ? 10 : 0));
+
+      await expect(
+        authService.requestPasswordReset({ email: 'other@example.com' }, mockRequest)
+      ).rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+      expect(security.countRecentLoginAttempts).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'password_reset_request', ipAddress: '127.0.0.1' })
+      );
+      expect(emailQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('counts requests for unknown addresses without revealing them', async () => {
+      usersService.findByEmailWithSensitiveData.mockResolvedValue(null);
+
+      await expect(
+        authService.requestPasswordReset({ email: 'nobody@example.com' }, mockRequest)
+      ).resolves.toEqual({ success: true });
+      expect(security.recordLoginAttempt).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'nobody@example.com', success: false })
+      );
+      expect(authTokens.issue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('rejects a token that was already used or expired', async () => {
+      authTokens.consume.mockResolvedValue(null);
+
+      await expect(
+        authService.resetPassword({ token: 'used-token', password: 'password456' }, mockRequest)
+      ).rejects.toThrow('PASSWORD_RESET_TOKEN_INVALID');
+      expect(refreshTokensService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithGoogle', () => {
+    let getPayload: jest.Mock;
+
+    beforeEach(() => {
+      configService.get.mockImplementation((key: string) =>
+        key === 'app.googleClientId' ? 'google-client' : undefined
+      );
+      getPayload = jest.fn();
+      (authService as unknown as { googleClient: unknown }).googleClient = {
+        verifyIdToken: jest.fn().mockResolvedValue({ getPayload }),
+      };
+      (usersService as unknown as { markEmailVerified: jest.Mock }).markEmailVerified = jest.fn(async () => user);
+    });
+
+    it('refuses an address Google has not verified instead of linking it to an account', async () => {
+      getPayload.mockReturnValue({ email: user.email, email_verified: false });
+      usersService.findByEmail.mockResolvedValue({ ...user, emailVerifiedAt: undefined });
+
+      await expect(authService.loginWithGoogle({ idToken: 'id-token' }, mockRequest)).rejects.toThrow(
+        'GOOGLE_AUTH_FAILED'
+      );
+      expect(usersService.findByEmail).not.toHaveBeenCalled();
+      expect(usersService.create).not.toHaveBeenCalled();
+    });
+
+    it('signs into the account of a verified address', async () => {
+      getPayload.mockReturnValue({ email: user.email, email_verified: true });
+      usersService.findByEmail.mockResolvedValue(user);
+      jwtService.signAsync.mockResolvedValueOnce('access-token');
+      jwtService.signAsync.mockResolvedValueOnce('refresh-token');
+      jwtService.decode.mockReturnValue({ exp: Math.floor(Date.now() / 1000) + 60 });
+
+      const result = (await authService.loginWithGoogle({ idToken: 'id-token' }, mockRequest)) as AuthResponse;
+
+      expect(result.tokens.accessToken).toBe('access-token');
+      expect(usersService.create).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,4 +1,13 @@
-import { Inject, Injectable, Logger, UnauthorizedException, forwardRef } from '@nestjs/common';
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  forwardRef,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService, JwtSignOptions } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
@@ -6,13 +15,29 @@ import { randomUUID } from 'crypto';
 import type { Request } from 'express';
 import { OAuth2Client } from 'google-auth-library';
 import appleSignin from 'apple-signin-auth';
+import { AuthTokenPurpose, SecurityLogCategory, SecurityLogLevel } from '@prisma/client';
 import { UsersService } from '../users/users.service';
-import { AppleOAuthDto, GoogleOAuthDto, LoginDto, RefreshTokenDto, RegisterDto } from './dto';
+import {
+  AppleOAuthDto,
+  ConfirmTwoFactorChallengeDto,
+  ForgotPasswordDto,
+  GoogleOAuthDto,
+  LoginDto,
+  RefreshTokenDto,
+  RegisterDto,
+  ResetPasswordDto,
+  TwoFactorChallengeDto,
+  VerifyEmailDto,
+  VerifyTwoFactorChallengeDto,
+} from './dto';
 import { User } from '@saubio/models';
 import { RefreshTokensService } from './refresh-tokens.service';
+import { AuthTokensService } from './auth-tokens.service';
+import { TwoFactorService } from './two-factor.service';
 import { EmailQueueService } from '../notifications/email-queue.service';
 import type { AppEnvironmentConfig } from '../config/configuration';
 import { SecurityService } from '../security/security.service';
+import { ReferralService } from '../marketing/referral.service';
 
 interface AuthTokenPayload {
   sub: string;
@@ -27,6 +52,14 @@ interface IssueContext {
   request?: Request;
 }
 
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const PASSWORD_RESET_THROTTLE_WINDOW_MS = 60 * 60 * 1000;
+const PASSWORD_RESET_MAX_PER_EMAIL = 3;
+const PASSWORD_RESET_MAX_PER_IP = 10;
+const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000;
+const TWO_FACTOR_CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
 @Injectable()
 export class AuthService {
   private readonly maxRefreshTokens: number;
@@ -41,6 +74,10 @@ export class AuthService {
     private readonly emailQueue: EmailQueueService,
     @Inject(forwardRef(() => SecurityService))
     private readonly security: SecurityService,
+    private readonly authTokens: AuthTokensService,
+    private readonly twoFactor: TwoFactorService,
+    @Inject(forwardRef(() => ReferralService))
+    private readonly referrals: ReferralService,
   ) {
     const configured = Number(this.configService.get<number>('app.maxRefreshTokens'));
     this.maxRefreshTokens = Number.isFinite(configured) && configured > 0 ? configured : 5;
@@ -68,11 +105,17 @@ export class AuthService {
       hashedPassword,
     );
 
+    await this.referrals.attributeSignup(user, payload.referralCode, {
+      ipAddress: this.extractIp(request),
+      userAgent: request?.headers['user-agent'] as string | undefined,
+    });
+
     if (user.roles.includes('client') || user.roles.includes('company')) {
       await this.sendClientWelcomeEmail(user);
     }
+    await this.sendVerificationEmail(user, request);
 
-    return this.issueTokens(user, { request });
+    return this.completeLogin(user, request);
   }
 
   async login({ email, password }: LoginDto, request?: Request) {
@@ -122,7 +165,7 @@ export class AuthService {
       userAgent,
     });
 
-    return this.issueTokens(user, { request });
+    return this.completeLogin(user, request);
   }
 
   async refresh(payload: RefreshTokenDto, request?: Request) {
@@ -179,6 +222,174 @@ export class AuthService {
     return { success: true };
   }
 
+  /**
+   * Requests are throttled per address and per client IP before the account is looked up, so the
+   * limits behave the same for known and unknown addresses.
+   */
+  async requestPasswordReset({ email }: ForgotPasswordDto, request?: Request) {
+    const sanitizedEmail = email.toLowerCase();
+    const ipAddress = this.extractIp(request);
+    const since = new Date(Date.now() - PASSWORD_RESET_THROTTLE_WINDOW_MS);
+    const [byEmail, byIp] = await Promise.all([
+      this.security.countRecentLoginAttempts({ provider: 'password_reset_request', since, email: sanitizedEmail }),
+      ipAddress
+        ? this.security.countRecentLoginAttempts({ provider: 'password_reset_request', since, ipAddress })
+        : 0,
+    ]);
+    if (byEmail >= PASSWORD_RESET_MAX_PER_EMAIL || byIp >= PASSWORD_RESET_MAX_PER_IP) {
+      await this.recordAuthEvent('PASSWORD_RESET_RATE_LIMITED', SecurityLogLevel.WARN, {
+        email: sanitizedEmail,
+        request,
+      });
+      throw new HttpException('PASSWORD_RESET_RATE_LIMITED', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    const record = await this.usersService.findByEmailWithSensitiveData(sanitizedEmail);
+    await this.security.recordLoginAttempt({
+      email: sanitizedEmail,
+      userId: record?.id,
+      success: Boolean(record?.isActive),
+      reason: 'PASSWORD_RESET_REQUESTED',
+      provider: 'password_reset_request',
+      ipAddress,
+      userAgent: request?.headers['user-agent'] as string | undefined,
+    });
+
+    // The response never reveals whether the address belongs to an account.
+    if (!record || !record.isActive) {
+      await this.recordAuthEvent('PASSWORD_RESET_UNKNOWN_ACCOUNT', SecurityLogLevel.WARN, {
+        email: sanitizedEmail,
+        request,
+      });
+      return { success: true };
+    }
+
+    const token = await this.authTokens.issue({
+      userId: record.id,
+      purpose: AuthTokenPurpose.PASSWORD_RESET,
+      ttlMs: PASSWORD_RESET_TTL_MS,
+      ipAddress,
+      userAgent: request?.headers['user-agent'] as string | undefined,
+    });
+    await this.sendAuthEmail(record.email, 'auth.password_reset', {
+      firstName: record.firstName,
+      locale: record.preferredLocale,
+      actionUrl: this.buildAppLink('/reset-password', token),
+      expiresInMinutes: PASSWORD_RESET_TTL_MS / 60_000,
+    });
+    await this.recordAuthEvent('PASSWORD_RESET_REQUESTED', SecurityLogLevel.INFO, {
+      email: record.email,
+      userId: record.id,
+      request,
+    });
+
+    return { success: true };
+  }
+
+  async resetPassword({ token, password }: ResetPasswordDto, request?: Request) {
+    const userId = await this.authTokens.consume(token, AuthTokenPurpose.PASSWORD_RESET);
+    if (!userId) {
+      await this.security.recordLoginAttempt({
+        email: 'unknown@password-reset',
+        success: false,
+        reason: 'PASSWORD_RESET_TOKEN_INVALID',
+        provider: 'password_reset',
+        ipAddress: this.extractIp(request),
+        userAgent: request?.headers['user-agent'] as string | undefined,
+      });
+      await this.recordAuthEvent('PASSWORD_RESET_TOKEN_INVALID', SecurityLogLevel.WARN, { request });
+      throw new BadRequestException('PASSWORD_RESET_TOKEN_INVALID');
+    }
+
+    const user = await this.usersService.findOne(userId);
+    await this.usersService.updatePassword(user.id, await bcrypt.hash(password, 12));
+    await this.refreshTokensService.revokeAllForUser(user.id);
+    if (!user.emailVerifiedAt) {
+      // Opening the reset link proves ownership of the mailbox as well.
+      await this.usersService.markEmailVerified(user.id);
+    }
+
+    await this.security.recordLoginAttempt({
+      email: user.email,
+      userId: user.id,
+      userRole: this.pickPrimaryRole(user.roles),
+      success: true,
+      reason: 'PASSWORD_RESET',
+      provider: 'password_reset',
+      ipAddress: this.extractIp(request),
+      userAgent: request?.headers['user-agent'] as string | undefined,
+    });
+    await this.recordAuthEvent('PASSWORD_RESET_COMPLETED', SecurityLogLevel.INFO, {
+      email: user.email,
+      userId: user.id,
+      request,
+    });
+
+    return { success: true };
+  }
+
+  async verifyEmail({ token }: VerifyEmailDto, request?: Request) {
+    const userId = await this.authTokens.consume(token, AuthTokenPurpose.EMAIL_VERIFICATION);
+    if (!userId) {
+      await this.recordAuthEvent('EMAIL_VERIFICATION_TOKEN_INVALID', SecurityLogLevel.WARN, { request });
+      throw new BadRequestException('EMAIL_VERIFICATION_TOKEN_INVALID');
+    }
+
+    const user = await this.usersService.markEmailVerified(userId);
+    await this.recordAuthEvent('EMAIL_VERIFIED', SecurityLogLevel.INFO, {
+      email: user.email,
+      userId: user.id,
+      request,
+    });
+
+    return { success: true, user };
+  }
+
+  async resendVerificationEmail(user: User, request?: Request) {
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('EMAIL_ALREADY_VERIFIED');
+    }
+    await this.sendVerificationEmail(user, request);
+    return { success: true };
+  }
+
+  async verifyTwoFactorChallenge(payload: VerifyTwoFactorChallengeDto, request?: Request) {
+    const { record, user } = await this.resolveTwoFactorChallenge(payload.challengeToken, request);
+    if (!payload.code && !payload.recoveryCode) {
+      throw new BadRequestException('TWO_FACTOR_CODE_REQUIRED');
+    }
+
+    const valid = await this.twoFactor.verify(user, { code: payload.code, recoveryCode: payload.recoveryCode });
+    if (!valid) {
+      await this.authTokens.registerFailure(record.id, TWO_FACTOR_MAX_ATTEMPTS);
+      await this.security.recordLoginAttempt({
+        email: user.email,
+        userId: user.id,
+        userRole: this.pickPrimaryRole(user.roles),
+        success: false,
+        reason: 'TWO_FACTOR_CODE_INVALID',
+        provider: 'totp',
+        ipAddress: this.extractIp(request),
+        userAgent: request?.headers['user-agent'] as string | undefined,
+      });
+      throw new UnauthorizedException('TWO_FACTOR_CODE_INVALID');
+    }
+
+    return this.finishTwoFactorChallenge(payload.challengeToken, user, request);
+  }
+
+  async startTwoFactorChallengeSetup(payload: TwoFactorChallengeDto, request?: Request) {
+    const { user } = await this.resolveTwoFactorChallenge(payload.challengeToken, request);
+    return this.twoFactor.startEnrollment(user);
+  }
+
+  async confirmTwoFactorChallengeSetup(payload: ConfirmTwoFactorChallengeDto, request?: Request) {
+    const { user } = await this.resolveTwoFactorChallenge(payload.challengeToken, request);
+    const { recoveryCodes } = await this.twoFactor.confirmEnrollment(user, payload.code);
+    const response = await this.finishTwoFactorChallenge(payload.challengeToken, user, request);
+    return { ...response, recoveryCodes };
+  }
+
   async loginWithGoogle(payload: GoogleOAuthDto, request?: Request) {
     const googleClientId = this.configService.get<string>('app.googleClientId');
     if (!googleClientId) {
@@ -200,22 +411,23 @@ export class AuthService {
       attemptedEmail = googlePayload.email;
       const profile = {
         email: googlePayload.email,
+        emailVerified: googlePayload.email_verified === true,
         firstName: googlePayload.given_name ?? googlePayload.email.split('@')[0],
         lastName: googlePayload.family_name ?? undefined,
         preferredLocale: this.normalizeLocale(googlePayload.locale),
       };
-      const tokens = await this.handleOAuthLogin(profile, request);
+      const user = await this.handleOAuthLogin(profile);
       await this.security.recordLoginAttempt({
         email: profile.email,
-        userId: tokens.user.id,
-        userRole: this.pickPrimaryRole(tokens.user.roles),
+        userId: user.id,
+        userRole: this.pickPrimaryRole(user.roles),
         success: true,
         reason: 'GOOGLE_OAUTH',
         provider: 'google',
         ipAddress: this.extractIp(request),
         userAgent: request?.headers['user-agent'] as string | undefined,
       });
-      return tokens;
+      return await this.completeLogin(user, request);
     } catch (error) {
       if (attemptedEmail || payload?.idToken) {
         await this.security.recordLoginAttempt({
@@ -250,22 +462,23 @@ export class AuthService {
       }
       const profile = {
         email,
+        emailVerified: applePayload.email_verified === true || applePayload.email_verified === 'true',
         firstName: applePayload?.given_name ?? email.split('@')[0],
         lastName: applePayload?.family_name ?? undefined,
         preferredLocale: undefined,
       };
-      const tokens = await this.handleOAuthLogin(profile, request);
+      const user = await this.handleOAuthLogin(profile);
       await this.security.recordLoginAttempt({
         email,
-        userId: tokens.user.id,
-        userRole: this.pickPrimaryRole(tokens.user.roles),
+        userId: user.id,
+        userRole: this.pickPrimaryRole(user.roles),
         success: true,
         reason: 'APPLE_OAUTH',
         provider: 'apple',
         ipAddress: this.extractIp(request),
         userAgent: request?.headers['user-agent'] as string | undefined,
       });
-      return tokens;
+      return await this.completeLogin(user, request);
     } catch (error) {
       await this.security.recordLoginAttempt({
         email: payload.email ?? 'unknown@apple',
@@ -280,6 +493,64 @@ export class AuthService {
     }
   }
 
+  /**
+   * Accounts with a second factor, or whose role requires one, receive a short-lived challenge
+   * instead of tokens; the session is only issued once the challenge has been completed.
+   */
+  private async completeLogin(user: User, request?: Request) {
+    const requirement = await this.twoFactor.getLoginRequirement(user);
+    if (requirement === 'none') {
+      return this.issueTokens(user, { request });
+    }
+
+    const challengeToken = await this.authTokens.issue({
+      userId: user.id,
+      purpose: AuthTokenPurpose.TWO_FACTOR_CHALLENGE,
+      ttlMs: TWO_FACTOR_CHALLENGE_TTL_MS,
+      ipAddress: this.extractIp(request),
+      userAgent: request?.headers['user-agent'] as string | undefined,
+    });
+    await this.recordAuthEvent(
+      requirement === 'setup' ? 'TWO_FACTOR_SETUP_REQUIRED' : 'TWO_FACTOR_CHALLENGE_ISSUED',
+      SecurityLogLevel.INFO,
+      { email: user.email, userId: user.id, request }
+    );
+
+    return {
+      status: requirement === 'setup' ? 'two_factor_setup_required' : 'two_factor_required',
+      challengeToken,
+      expiresAt: new Date(Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS).toISOString(),
+    } as const;
+  }
+
+  private async resolveTwoFactorChallenge(challengeToken: string, request?: Request) {
+    const record = await this.authTokens.find(challengeToken, AuthTokenPurpose.TWO_FACTOR_CHALLENGE);
+    if (!record) {
+      await this.recordAuthEvent('TWO_FACTOR_CHALLENGE_INVALID', SecurityLogLevel.WARN, { request });
+      throw new UnauthorizedException('TWO_FACTOR_CHALLENGE_INVALID');
+    }
+    const user = await this.usersService.findOne(record.userId);
+    return { record, user };
+  }
+
+  private async finishTwoFactorChallenge(challengeToken: string, user: User, request?: Request) {
+    const userId = await this.authTokens.consume(challengeToken, AuthTokenPurpose.TWO_FACTOR_CHALLENGE);
+    if (userId !== user.id) {
+      throw new UnauthorizedException('TWO_FACTOR_CHALLENGE_INVALID');
+    }
+    await this.security.recordLoginAttempt({
+      email: user.email,
+      userId: user.id,
+      userRole: this.pickPrimaryRole(user.roles),
+      success: true,
+      reason: 'TWO_FACTOR_VERIFIED',
+      provider: 'totp',
+      ipAddress: this.extractIp(request),
+      userAgent: request?.headers['user-agent'] as string | undefined,
+    });
+    return this.issueTokens(user, { request });
+  }
+
   private async issueTokens(user: User, context: IssueContext = {}) {
     const { accessToken, refreshToken, refreshTokenId, refreshExpiresAt } = await this.generateTokens(user);
 
@@ -359,15 +630,73 @@ export class AuthService {
     }
   }
 
-  private async handleOAuthLogin(
-    profile: {
-      email: string;
-      firstName?: string;
-      lastName?: string;
-      preferredLocale?: string;
-    },
-    request?: Request
+  private async sendVerificationEmail(user: User, request?: Request) {
+    const token = await this.authTokens.issue({
+      userId: user.id,
+      purpose: AuthTokenPurpose.EMAIL_VERIFICATION,
+      ttlMs: EMAIL_VERIFICATION_TTL_MS,
+      ipAddress: this.extractIp(request),
+      userAgent: request?.headers['user-agent'] as string | undefined,
+    });
+    await this.sendAuthEmail(user.email, 'auth.email_verification', {
+      firstName: user.firstName,
+      locale: user.preferredLocale,
+      actionUrl: this.buildAppLink('/verify-email', token),
+      expiresInHours: EMAIL_VERIFICATION_TTL_MS / 3_600_000,
+    });
+    await this.recordAuthEvent('EMAIL_VERIFICATION_REQUESTED', SecurityLogLevel.INFO, {
+      email: user.email,
+      userId: user.id,
+      request,
+    });
+  }
+
+  private async sendAuthEmail(to: string, template: string, payload: Record<string, unknown>) {
+    try {
+      await this.emailQueue.enqueue({ to, template, payload });
+      void this.emailQueue.triggerImmediateProcessing();
+    } catch (error) {
+      this.logger.warn(
+        `Unable to enqueue ${template} email for ${to}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  private buildAppLink(path: string, token: string) {
+    const appUrl =
+      this.configService.get('app.appUrl' as keyof AppEnvironmentConfig) ?? 'http://localhost:3000';
+    return `${appUrl.replace(/\/+$/, '')}${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  private async recordAuthEvent(
+    message: string,
+    level: SecurityLogLevel,
+    context: { email?: string; userId?: string; request?: Request }
   ) {
+    await this.security.recordSecurityLog({
+      category: SecurityLogCategory.AUTH,
+      level,
+      message,
+      actorId: context.userId,
+      actorEmail: context.email,
+      metadata: {
+        ipAddress: this.extractIp(context.request),
+        userAgent: context.request?.headers['user-agent'] as string | undefined,
+      },
+    });
+  }
+
+  private async handleOAuthLogin(profile: {
+    email: string;
+    emailVerified: boolean;
+    firstName?: string;
+    lastName?: string;
+    preferredLocale?: string;
+  }) {
+    // An unverified address could belong to someone else, so it must not create or sign into an account.
+    if (!profile.emailVerified) {
+      throw new UnauthorizedException('OAUTH_EMAIL_NOT_VERIFIED');
+    }
     let user = await this.usersService.findByEmail(profile.email);
     if (!user) {
       const firstName = profile.firstName?.trim() || profile.email.split('@')[0];
@@ -386,7 +715,10 @@ export class AuthService {
       );
       await this.sendClientWelcomeEmail(user);
     }
-    return this.issueTokens(user, { request });
+    if (!user.emailVerifiedAt) {
+      user = await this.usersService.markEmailVerified(user.id);
+    }
+    return user;
   }
 
   private normalizeLocale(locale?: string | null): 'de' | 'en' | 'fr' | undefined {
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+export const API_KEY_SCOPES = ['bookings:read', 'bookings:write'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) => SetMetadata(API_KEY_SCOPES_KEY, scopes);
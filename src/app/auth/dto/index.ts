@@ -3,3 +3,8 @@ export * from './register.dto';
 export * from './refresh-token.dto';
 export * from './google-oauth.dto';
 export * from './apple-oauth.dto';
+export * from './forgot-password.dto';
+export * from './reset-password.dto';
+export * from './verify-email.dto';
+export * from './two-factor-code.dto';
+export * from './two-factor-challenge.dto';
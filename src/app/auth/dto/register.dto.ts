@@ -1,4 +1,4 @@
-import { IsArray, IsEmail, IsOptional, IsPhoneNumber, IsString, MinLength } from 'class-validator';
+import { IsArray, IsEmail, IsOptional, IsPhoneNumber, IsString, MaxLength, MinLength } from 'class-validator';
 import { UserRole } from '@saubio/models';
 
 export class RegisterDto {
@@ -24,4 +24,9 @@ export class RegisterDto {
 
   @IsString()
   preferredLocale!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  referralCode?: string;
 }
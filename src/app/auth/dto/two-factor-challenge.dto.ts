@@ -0,0 +1,24 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class TwoFactorChallengeDto {
+  @IsString()
+  challengeToken!: string;
+}
+
+export class VerifyTwoFactorChallengeDto extends TwoFactorChallengeDto {
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{6}$/)
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  recoveryCode?: string;
+}
+
+export class ConfirmTwoFactorChallengeDto extends TwoFactorChallengeDto {
+  @IsString()
+  @Matches(/^\d{6}$/)
+  code!: string;
+}
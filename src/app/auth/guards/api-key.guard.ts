@@ -0,0 +1,58 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UsersService } from '../../users/users.service';
+import { ApiKeysService } from '../api-keys.service';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scopes.decorator';
+import type { AuthenticatedRequest } from '../types/authenticated-request';
+import { AccessTokenGuard } from './access-token.guard';
+
+const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Authenticates partner integrations through the `X-Api-Key` header and acts as the key owner.
+ * Requests without the header fall back to the regular access token, so a controller guarded
+ * with `ApiKeyGuard` serves both partners and signed-in users. Scopes only apply to API keys.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeysService,
+    private readonly usersService: UsersService,
+    private readonly accessTokenGuard: AccessTokenGuard
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const header = request.headers[API_KEY_HEADER];
+    const token = Array.isArray(header) ? header[0] : header;
+
+    if (!token) {
+      return this.accessTokenGuard.canActivate(context);
+    }
+
+    const apiKey = await this.apiKeys.authenticate(token);
+    const requiredScopes =
+      this.reflector.getAllAndOverride<string[]>(API_KEY_SCOPES_KEY, [context.getHandler(), context.getClass()]) ?? [];
+    const missingScope = requiredScopes.find((scope) => !apiKey.scopes.includes(scope));
+    if (missingScope) {
+      throw new ForbiddenException('API_KEY_SCOPE_MISSING');
+    }
+
+    const owner = await this.usersService.findOne(apiKey.ownerId).catch(() => null);
+    if (!owner || !owner.isActive) {
+      throw new UnauthorizedException('API_KEY_OWNER_NOT_FOUND');
+    }
+
+    request.user = { id: owner.id, roles: owner.roles };
+    request.authUser = owner;
+    request.apiKey = { id: apiKey.id, prefix: apiKey.prefix, scopes: apiKey.scopes };
+    return true;
+  }
+}
@@ -0,0 +1,22 @@
+import { base32Encode, buildOtpauthUri, generateTotpCode, totpStep, verifyTotpCode } from './totp';
+
+// RFC 6238 appendix B seed for SHA-1.
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('matches the RFC 6238 reference values', () => {
+    expect(generateTotpCode(RFC_SECRET, totpStep(59_000), 8)).toBe('94287082');
+    expect(generateTotpCode(RFC_SECRET, totpStep(1_111_111_109_000), 8)).toBe('07081804');
+    expect(generateTotpCode(RFC_SECRET, totpStep(20_000_000_000_000), 8)).toBe('65353130');
+  });
+
+  it('accepts drift of one step and refuses replayed steps', () => {
+    const at = 1_700_000_000_000;
+    const previous = generateTotpCode(RFC_SECRET, totpStep(at) - 1);
+
+    expect(verifyTotpCode(RFC_SECRET, previous, { at })).toBe(totpStep(at) - 1);
+    expect(verifyTotpCode(RFC_SECRET, previous, { at, minStep: totpStep(at) - 1 })).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abc123', { at })).toBeNull();
+    expect(buildOtpauthUri(RFC_SECRET, 'ops@saubio.de')).toContain('otpauth://totp/Saubio%3Aops%40saubio.de?secret=');
+  });
+});
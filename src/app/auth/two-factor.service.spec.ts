@@ -0,0 +1,85 @@
+import { ConfigService } from '@nestjs/config';
+import type { User } from '@saubio/models';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SecurityService } from '../security/security.service';
+import { TwoFactorService } from './two-factor.service';
+
+const hash = (code: string) => createHash('sha256').update(code.replace(/-/g, '')).digest('hex');
+
+describe('TwoFactorService', () => {
+  const user = { id: 'user_1', email: 'ops@saubio.de', roles: ['employee'] } as User;
+  let record: { id: string; enabledAt: Date; secret: string; lastUsedStep: number | null; recoveryCodes: string[] };
+  let config: Record<string, string | undefined>;
+  let service: TwoFactorService;
+
+  beforeEach(() => {
+    record = {
+      id: 'tf_1',
+      enabledAt: new Date('2026-01-01T00:00:00Z'),
+      secret: '',
+      lastUsedStep: null,
+      recoveryCodes: [hash('aaaaa-11111'), hash('bbbbb-22222'), hash('ccccc-33333')],
+    };
+    config = { 'app.twoFactorEncryptionKey': 'two-factor-key-0123456789' };
+
+    // Reads see the row as it was; the conditional update is checked against the row at write time.
+    const prisma = {
+      userTwoFactor: {
+        findUnique: jest.fn(async () => ({ ...record, recoveryCodes: [...record.recoveryCodes] })),
+        updateMany: jest.fn(
+          async ({
+            where,
+            data,
+          }: {
+            where: { recoveryCodes: { has: string; equals: string[] } };
+            data: { recoveryCodes: string[] };
+          }) => {
+            await Promise.resolve();
+            const current = record.recoveryCodes;
+            const matches =
+              current.includes(where.recoveryCodes.has) &&
+              current.length === where.recoveryCodes.equals.length &&
+              current.every((value, index) => value === where.recoveryCodes.equals[index]);
+            if (!matches) {
+              return { count: 0 };
+            }
+            record.recoveryCodes = data.recoveryCodes;
+            return { count: 1 };
+          }
+        ),
+      },
+    };
+    service = new TwoFactorService(
+      prisma as unknown as PrismaService,
+      { get: jest.fn((key: string) => config[key]) } as unknown as ConfigService,
+      { recordSecurityLog: jest.fn() } as unknown as SecurityService
+    );
+  });
+
+  it('accepts a recovery code only once across concurrent logins', async () => {
+    const results = await Promise.all([
+      service.verify(user, { recoveryCode: 'AAAAA-11111' }),
+      service.verify(user, { recoveryCode: 'aaaaa11111' }),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(record.recoveryCodes).toEqual([hash('bbbbb-22222'), hash('ccccc-33333')]);
+  });
+
+  it('keeps both codes consumed when two different codes are used at the same time', async () => {
+    const results = await Promise.all([
+      service.verify(user, { recoveryCode: 'aaaaa-11111' }),
+      service.verify(user, { recoveryCode: 'bbbbb-22222' }),
+    ]);
+
+    expect(results).toEqual([true, true]);
+    expect(record.recoveryCodes).toEqual([hash('ccccc-33333')]);
+  });
+
+  it('refuses to handle secrets without a dedicated encryption key', async () => {
+    config = { 'app.jwtAccessSecret': 'jwt-access-secret-0123456789' };
+
+    await expect(service.verify(user, { code: '123456' })).rejects.toThrow('TWO_FACTOR_ENCRYPTION_KEY_MISSING');
+  });
+});
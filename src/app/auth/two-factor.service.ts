@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SecurityLogCategory, SecurityLogLevel } from '@prisma/client';
+import type { User, UserRole } from '@saubio/models';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SecurityService } from '../security/security.service';
+import { buildOtpauthUri, generateTotpSecret, verifyTotpCode } from './totp';
+
+export const TWO_FACTOR_REQUIRED_ROLES: readonly UserRole[] = ['admin', 'employee', 'provider'];
+
+const RECOVERY_CODE_COUNT = 10;
+
+export type TwoFactorLoginRequirement = 'none' | 'verify' | 'setup';
+
+export interface TwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    @Inject(forwardRef(() => SecurityService))
+    private readonly security: SecurityService,
+  ) {}
+
+  isRequiredFor(roles: readonly UserRole[]) {
+    return roles.some((role) => TWO_FACTOR_REQUIRED_ROLES.includes(role));
+  }
+
+  async getLoginRequirement(user: User): Promise<TwoFactorLoginRequirement> {
+    const record = await this.prisma.userTwoFactor.findUnique({
+      where: { userId: user.id },
+      select: { enabledAt: true },
+    });
+    if (record?.enabledAt) {
+      return 'verify';
+    }
+    return this.isRequiredFor(user.roles) ? 'setup' : 'none';
+  }
+
+  async getStatus(user: User) {
+    const record = await this.prisma.userTwoFactor.findUnique({ where: { userId: user.id } });
+    return {
+      enabled: Boolean(record?.enabledAt),
+      required: this.isRequiredFor(user.roles),
+      enabledAt: record?.enabledAt?.toISOString(),
+      recoveryCodesRemaining: record?.enabledAt ? record.recoveryCodes.length : 0,
+    };
+  }
+
+  /** Starting again before confirmation replaces the pending secret. */
+  async startEnrollment(user: User) {
+    const existing = await this.prisma.userTwoFactor.findUnique({ where: { userId: user.id } });
+    if (existing?.enabledAt) {
+      throw new ConflictException('TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.userTwoFactor.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, secret: this.encrypt(secret) },
+      update: { secret: this.encrypt(secret), lastUsedStep: null, recoveryCodes: [] },
+    });
+    await this.log('TWO_FACTOR_ENROLLMENT_STARTED', SecurityLogLevel.INFO, user);
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email) };
+  }
+
+  async confirmEnrollment(user: User, code: string) {
+    const record = await this.prisma.userTwoFactor.findUnique({ where: { userId: user.id } });
+    if (!record) {
+      throw new BadRequestException('TWO_FACTOR_ENROLLMENT_NOT_STARTED');
+    }
+    if (record.enabledAt) {
+      throw new ConflictException('TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const step = verifyTotpCode(this.decrypt(record.secret), code);
+    if (step === null) {
+      await this.log('TWO_FACTOR_ENROLLMENT_CODE_INVALID', SecurityLogLevel.WARN, user);
+      throw new BadRequestException('TWO_FACTOR_CODE_INVALID');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.userTwoFactor.update({
+      where: { id: record.id },
+      data: {
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        recoveryCodes: recoveryCodes.map((value) => this.hashRecoveryCode(value)),
+      },
+    });
+    await this.log('TWO_FACTOR_ENABLED', SecurityLogLevel.INFO, user);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Checks an authenticator code or a recovery code. TOTP steps can only be used once and
+   * recovery codes are removed as soon as they have been accepted.
+   */
+  async verify(user: User, credentials: TwoFactorCredentials): Promise<boolean> {
+    const record = await this.prisma.userTwoFactor.findUnique({ where: { userId: user.id } });
+    if (!record?.enabledAt) {
+      return false;
+    }
+
+    if (credentials.code) {
+      const step = verifyTotpCode(this.decrypt(record.secret), credentials.code, {
+        minStep: record.lastUsedStep ?? undefined,
+      });
+      if (step === null) {
+        return false;
+      }
+      const updated = await this.prisma.userTwoFactor.updateMany({
+        where: {
+          id: record.id,
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+        },
+        data: { lastUsedStep: step },
+      });
+      return updated.count > 0;
+    }
+
+    if (credentials.recoveryCode) {
+      return this.consumeRecoveryCode(user, record.id, record.recoveryCodes, credentials.recoveryCode);
+    }
+
+    return false;
+  }
+
+  async regenerateRecoveryCodes(user: User, code: string) {
+    await this.assertValidCode(user, code);
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.userTwoFactor.update({
+      where: { userId: user.id },
+      data: { recoveryCodes: recoveryCodes.map((value) => this.hashRecoveryCode(value)) },
+    });
+    await this.log('TWO_FACTOR_RECOVERY_CODES_REGENERATED', SecurityLogLevel.INFO, user);
+    return { recoveryCodes };
+  }
+
+  async disable(user: User, code: string) {
+    if (this.isRequiredFor(user.roles)) {
+      throw new ForbiddenException('TWO_FACTOR_REQUIRED_FOR_ROLE');
+    }
+    await this.assertValidCode(user, code);
+    await this.prisma.userTwoFactor.delete({ where: { userId: user.id } });
+    await this.log('TWO_FACTOR_DISABLED', SecurityLogLevel.WARN, user);
+    return { success: true };
+  }
+
+  private async assertValidCode(user: User, code: string) {
+    const record = await this.prisma.userTwoFactor.findUnique({
+      where: { userId: user.id },
+      select: { enabledAt: true },
+    });
+    if (!record?.enabledAt) {
+      throw new BadRequestException('TWO_FACTOR_NOT_ENABLED');
+    }
+    if (!(await this.verify(user, { code }))) {
+      await this.log('TWO_FACTOR_CODE_INVALID', SecurityLogLevel.WARN, user);
+      throw new BadRequestException('TWO_FACTOR_CODE_INVALID');
+    }
+  }
+
+  /**
+   * The update only applies to the list of codes it was computed from, so two concurrent logins can neither use
+   * the same code twice nor bring back a code the other one just consumed.
+   */
+  private async consumeRecoveryCode(user: User, recordId: string, recoveryCodes: string[], recoveryCode: string) {
+    const hashed = this.hashRecoveryCode(recoveryCode);
+    let codes = recoveryCodes;
+    for (let attempt = 0; attempt < RECOVERY_CODE_COUNT && codes.includes(hashed); attempt += 1) {
+      const remaining = codes.filter((value) => value !== hashed);
+      const consumed = await this.prisma.userTwoFactor.updateMany({
+        where: { id: recordId, recoveryCodes: { has: hashed, equals: codes } },
+        data: { recoveryCodes: remaining },
+      });
+      if (consumed.count === 1) {
+        await this.log('TWO_FACTOR_RECOVERY_CODE_USED', SecurityLogLevel.WARN, user, { remaining: remaining.length });
+        return true;
+      }
+      const current = await this.prisma.userTwoFactor.findUnique({
+        where: { id: recordId },
+        select: { recoveryCodes: true },
+      });
+      codes = current?.recoveryCodes ?? [];
+    }
+    return false;
+  }
+
+  private generateRecoveryCodes() {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const value = randomBytes(5).toString('hex');
+      return `${value.slice(0, 5)}-${value.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(value: string) {
+    const normalized = value.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /** Secrets are stored with AES-256-GCM as `iv.tag.ciphertext`. */
+  private encrypt(secret: string) {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+  }
+
+  private decrypt(value: string) {
+    const [iv, tag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  private encryptionKey() {
+    const configured = this.configService.get<string>('app.twoFactorEncryptionKey');
+    if (!configured) {
+      throw new Error('TWO_FACTOR_ENCRYPTION_KEY_MISSING');
+    }
+    return createHash('sha256').update(configured).digest();
+  }
+
+  private async log(message: string, level: SecurityLogLevel, user: User, metadata?: Record<string, unknown>) {
+    await this.security.recordSecurityLog({
+      category: SecurityLogCategory.AUTH,
+      level,
+      message,
+      actorId: user.id,
+      actorEmail: user.email,
+      metadata,
+    });
+  }
+}
@@ -7,4 +7,9 @@ export interface AuthenticatedRequest extends Request {
     id: string;
     roles: User['roles'];
   };
+  apiKey?: {
+    id: string;
+    prefix: string;
+    scopes: string[];
+  };
 }
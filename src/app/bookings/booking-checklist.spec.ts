@@ -0,0 +1,42 @@
+import { buildServiceChecklist } from './booking-checklist';
+
+describe('buildServiceChecklist', () => {
+  it('lists the tasks included in the booked service', () => {
+    const checklist = buildServiceChecklist('windows', null);
+    expect(checklist[0]).toEqual({ label: 'Fenster innen & außen reinigen', source: 'service' });
+    expect(checklist.every((item) => item.source === 'service')).toBe(true);
+  });
+
+  it('appends client wishes without repeating service tasks', () => {
+    const checklist = buildServiceChecklist('residential', {
+      wishes: ['  Backofen reinigen ', 'staub wischen', 42, ''],
+    });
+    expect(checklist.filter((item) => item.source === 'client_wish')).toEqual([
+      { label: 'Backofen reinigen', source: 'client_wish' },
+    ]);
+    expect(checklist.filter((item) => item.label.toLowerCase() === 'staub wischen')).toHaveLength(1);
+  });
+
+  it('lists booked add-ons between service tasks and client wishes', () => {
+    const checklist = buildServiceChecklist('residential', { wishes: ['Pflanzen gießen'] }, [
+      { id: 'oven', title: 'Backofen reinigen', priceCents: 2500, extraMinutes: 30 },
+      { title: 'ohne id' },
+    ]);
+    expect(checklist.map((item) => item.source)).toEqual([
+      'service',
+      'service',
+      'service',
+      'service',
+      'service',
+      'addon',
+      'client_wish',
+    ]);
+    expect(checklist[5]).toEqual({ label: 'Backofen reinigen', source: 'addon' });
+  });
+
+  it('returns only wishes for services outside the catalogue', () => {
+    expect(buildServiceChecklist('unknown', { wishes: ['Pflanzen gießen'] })).toEqual([
+      { label: 'Pflanzen gießen', source: 'client_wish' },
+    ]);
+  });
+});
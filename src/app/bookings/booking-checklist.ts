@@ -0,0 +1,50 @@
+import { SERVICE_CATALOG } from '@saubio/models';
+import { parseAddonLines } from '../pricing/service-addons';
+
+export type ChecklistItemSource = 'service' | 'addon' | 'client_wish';
+
+export interface ChecklistTemplateItem {
+  label: string;
+  source: ChecklistItemSource;
+}
+
+const MAX_CHECKLIST_ITEMS = 30;
+const MAX_LABEL_LENGTH = 200;
+
+/**
+ * Tasks a provider ticks off during the mission: what the booked service includes per the service catalogue,
+ * then the add-ons the client paid for, followed by the client's own wishes from the booking preferences.
+ */
+export function buildServiceChecklist(
+  service: string,
+  cleaningPreferences: unknown,
+  addons?: unknown
+): ChecklistTemplateItem[] {
+  const catalogEntry = SERVICE_CATALOG.find((entry) => entry.id === service);
+  const rawWishes =
+    typeof cleaningPreferences === 'object' && cleaningPreferences !== null
+      ? (cleaningPreferences as { wishes?: unknown }).wishes
+      : undefined;
+  const wishes = Array.isArray(rawWishes)
+    ? rawWishes.filter((wish): wish is string => typeof wish === 'string')
+    : [];
+
+  const items: ChecklistTemplateItem[] = [
+    ...(catalogEntry?.includedOptions ?? []).map((label) => ({ label, source: 'service' as const })),
+    ...parseAddonLines(addons).map((addon) => ({ label: addon.title, source: 'addon' as const })),
+    ...wishes.map((label) => ({ label, source: 'client_wish' as const })),
+  ];
+
+  const seen = new Set<string>();
+  return items
+    .map((item) => ({ ...item, label: item.label.trim().slice(0, MAX_LABEL_LENGTH) }))
+    .filter((item) => {
+      const key = item.label.toLowerCase();
+      if (!item.label || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_CHECKLIST_ITEMS);
+}
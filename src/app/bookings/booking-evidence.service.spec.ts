@@ -0,0 +1,70 @@
+import type { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BookingEvidenceService } from './booking-evidence.service';
+
+describe('BookingEvidenceService dispute snapshots', () => {
+  const inlinePhoto = `data:image/jpeg;base64,${'A'.repeat(4_000_000)}`;
+  let documents: Array<{ id: string; url: string }>;
+  let service: BookingEvidenceService;
+
+  beforeEach(() => {
+    documents = [{ id: 'document_1', url: inlinePhoto }];
+    const prisma = {
+      document: {
+        findMany: jest.fn(async ({ where }) => documents.filter((document) => where.id.in.includes(document.id))),
+      },
+    };
+    service = new BookingEvidenceService(prisma as unknown as PrismaService);
+    jest.spyOn(service, 'buildEvidence').mockResolvedValue({
+      bookingId: 'booking_1',
+      checklist: [],
+      photos: [
+        {
+          id: 'document_1',
+          phase: 'before',
+          url: inlinePhoto,
+          providerId: 'provider_1',
+          uploadedAt: '2026-03-02T09:00:00.000Z',
+        },
+      ],
+      timeTracking: [],
+      capturedAt: '2026-03-03T10:00:00.000Z',
+    });
+  });
+
+  it('stores photo fingerprints instead of their content', async () => {
+    const snapshot = await service.snapshotEvidence('booking_1');
+
+    expect(JSON.stringify(snapshot).length).toBeLessThan(1000);
+    expect(snapshot.photos).toEqual([
+      expect.objectContaining({
+        id: 'document_1',
+        sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+        sizeBytes: 4_000_023,
+      }),
+    ]);
+  });
+
+  it('resolves the URLs when read and flags photos replaced or removed since', async () => {
+    const snapshot = await service.snapshotEvidence('booking_1');
+
+    const resolved = await service.resolveSnapshot(snapshot);
+    expect(resolved.photos[0]).toMatchObject({ url: inlinePhoto, changedSinceCapture: false });
+
+    documents[0].url = 'https://cdn.example.com/other.jpg';
+    await expect(service.resolveSnapshot(snapshot)).resolves.toMatchObject({
+      photos: [{ url: 'https://cdn.example.com/other.jpg', changedSinceCapture: true }],
+    });
+
+    documents = [];
+    await expect(service.resolveSnapshot(snapshot)).resolves.toMatchObject({
+      photos: [{ url: '', changedSinceCapture: true }],
+    });
+  });
+
+  it('returns disputes stored with photo URLs unchanged', async () => {
+    const legacy = await service.buildEvidence('booking_1');
+
+    await expect(service.resolveSnapshot(legacy as unknown as Prisma.JsonValue)).resolves.toEqual(legacy);
+  });
+});
@@ -0,0 +1,287 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { BookingStatus as PrismaBookingStatus, DocumentType, Prisma } from '@prisma/client';
+import type { Booking as PrismaBooking, BookingChecklistItem } from '@prisma/client';
+import type {
+  BookingChecklistEntry,
+  BookingEvidence,
+  BookingEvidencePhoto,
+  BookingPhotoPhase,
+  User,
+} from '@saubio/models';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BookingMapper, type BookingWithRelations } from './booking.mapper';
+import { buildServiceChecklist } from './booking-checklist';
+import { UpdateChecklistItemDto, UploadMissionPhotoDto } from './dto/booking-evidence.dto';
+
+const MAX_PHOTOS_PER_PHASE = 20;
+const MAX_INLINE_PHOTO_LENGTH = 5_000_000;
+
+/** Plain-data copy of a model type; object literal types are accepted where Prisma expects a JSON value. */
+type JsonOf<T> = T extends string | number | boolean | null | undefined
+  ? T
+  : T extends Array<infer Item>
+    ? JsonOf<Item>[]
+    : { [Key in keyof T]: JsonOf<T[Key]> };
+
+/** A photo in a dispute snapshot: the document it refers to and a fingerprint of its content, never the content. */
+export type BookingEvidencePhotoSnapshot = Omit<BookingEvidencePhoto, 'url' | 'changedSinceCapture'> & {
+  sha256: string;
+  sizeBytes: number;
+};
+
+export type BookingEvidenceSnapshot = JsonOf<
+  Omit<BookingEvidence, 'photos'> & { photos: BookingEvidencePhotoSnapshot[] }
+>;
+
+/**
+ * Checklist and before/after photos documented by providers during a mission. Evidence photos are booking
+ * documents flagged with `metadata.evidence`, which keeps them out of the regular booking attachments.
+ */
+@Injectable()
+export class BookingEvidenceService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** The provider's view; the checklist is derived from the service catalogue the first time it is opened. */
+  async getForProvider(user: User, bookingId: string): Promise<BookingEvidence> {
+    const { booking } = await this.loadForProvider(user, bookingId);
+    await this.ensureChecklist(booking);
+    return this.buildEvidence(bookingId);
+  }
+
+  async updateChecklistItem(
+    user: User,
+    bookingId: string,
+    itemId: string,
+    payload: UpdateChecklistItemDto
+  ): Promise<BookingEvidence> {
+    const { booking, providerId } = await this.loadForProvider(user, bookingId);
+    if (booking.status !== PrismaBookingStatus.IN_PROGRESS) {
+      throw new BadRequestException('BOOKING_NOT_IN_PROGRESS');
+    }
+
+    const result = await this.prisma.bookingChecklistItem.updateMany({
+      where: { id: itemId, bookingId },
+      data: {
+        completed: payload.completed,
+        completedAt: payload.completed ? new Date() : null,
+        completedById: payload.completed ? providerId : null,
+        ...(payload.note !== undefined ? { note: payload.note.trim() || null } : {}),
+      },
+    });
+    if (!result.count) {
+      throw new NotFoundException('CHECKLIST_ITEM_NOT_FOUND');
+    }
+    return this.buildEvidence(bookingId);
+  }
+
+  async uploadPhoto(user: User, bookingId: string, payload: UploadMissionPhotoDto): Promise<BookingEvidence> {
+    const { booking, providerId } = await this.loadForProvider(user, bookingId);
+    if (booking.status !== PrismaBookingStatus.IN_PROGRESS) {
+      throw new BadRequestException('BOOKING_NOT_IN_PROGRESS');
+    }
+
+    const source = payload.fileData?.trim() ?? '';
+    const inline = source.startsWith('data:');
+    if (!inline && !/^https?:\/\//i.test(source)) {
+      throw new BadRequestException('MISSION_PHOTO_INVALID_SOURCE');
+    }
+    if (inline && source.length > MAX_INLINE_PHOTO_LENGTH) {
+      throw new BadRequestException('MISSION_PHOTO_TOO_LARGE');
+    }
+
+    const type = payload.phase === 'before' ? DocumentType.PHOTO_BEFORE : DocumentType.PHOTO_AFTER;
+    const existing = await this.prisma.document.count({
+      where: { bookingId, type, metadata: { path: ['evidence'], equals: payload.phase } },
+    });
+    if (existing >= MAX_PHOTOS_PER_PHASE) {
+      throw new BadRequestException('MISSION_PHOTO_LIMIT_REACHED');
+    }
+
+    const document = await this.prisma.document.create({
+      data: {
+        type,
+        url: source,
+        name: payload.fileName?.trim() || `mission-${payload.phase}-${Date.now()}`,
+        metadata: {
+          inline,
+          evidence: payload.phase,
+          providerId,
+          uploadedVia: 'provider_mission',
+        } as Prisma.JsonObject,
+        booking: { connect: { id: bookingId } },
+        uploadedBy: { connect: { id: user.id } },
+      },
+    });
+    await this.prisma.bookingAudit.create({
+      data: {
+        booking: { connect: { id: bookingId } },
+        actor: { connect: { id: user.id } },
+        action: 'attachment_uploaded',
+        metadata: { evidence: payload.phase, documentId: document.id, providerId },
+      },
+    });
+    return this.buildEvidence(bookingId);
+  }
+
+  /** Clients see the evidence once the booking is completed (or disputed); staff and providers at any time. */
+  assertVisibleTo(user: User, booking: Pick<PrismaBooking, 'status'>) {
+    const privileged = user.roles.some((role) => role === 'admin' || role === 'employee' || role === 'provider');
+    if (
+      !privileged &&
+      booking.status !== PrismaBookingStatus.COMPLETED &&
+      booking.status !== PrismaBookingStatus.DISPUTED
+    ) {
+      throw new ForbiddenException('BOOKING_EVIDENCE_NOT_AVAILABLE');
+    }
+  }
+
+  async buildEvidence(bookingId: string): Promise<BookingEvidence> {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        assignments: true,
+        auditLog: true,
+        attachments: true,
+        fallbackTeamCandidate: { include: { members: true } },
+        checklistItems: { orderBy: { position: 'asc' } },
+      },
+    });
+    if (!booking) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+
+    return {
+      bookingId,
+      checklist: booking.checklistItems.map((item) => this.toChecklistEntry(item)),
+      photos: booking.attachments
+        .filter((document) => BookingMapper.isEvidenceDocument(document))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map((document) => {
+          const metadata = BookingMapper.normalizeMetadata(document.metadata);
+          return {
+            id: document.id,
+            phase: metadata?.evidence as BookingPhotoPhase,
+            url: document.url,
+            name: document.name ?? undefined,
+            providerId: typeof metadata?.providerId === 'string' ? metadata.providerId : null,
+            uploadedAt: document.createdAt.toISOString(),
+          };
+        }),
+      timeTracking: BookingMapper.buildTimeTracking(booking as BookingWithRelations),
+      capturedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Evidence as stored on a dispute. Photos can be inline data URLs of several megabytes, so only their document ids
+   * and fingerprints are kept; `resolveSnapshot` brings the URLs back when the dispute is read.
+   */
+  async snapshotEvidence(bookingId: string): Promise<BookingEvidenceSnapshot> {
+    const evidence = await this.buildEvidence(bookingId);
+    return {
+      ...evidence,
+      photos: evidence.photos.map(({ url, ...photo }) => ({
+        ...photo,
+        sha256: this.fingerprint(url),
+        sizeBytes: Buffer.byteLength(url),
+      })),
+    };
+  }
+
+  /** Photos removed or replaced since the snapshot are flagged instead of silently showing the new content. */
+  async resolveSnapshot(snapshot: Prisma.JsonValue): Promise<BookingEvidence> {
+    const evidence = snapshot as unknown as Omit<BookingEvidence, 'photos'> & {
+      photos: Array<BookingEvidencePhotoSnapshot | BookingEvidencePhoto>;
+    };
+    const snapshotted = evidence.photos.filter(
+      (photo): photo is BookingEvidencePhotoSnapshot => 'sha256' in photo && typeof photo.sha256 === 'string'
+    );
+    const documents = snapshotted.length
+      ? await this.prisma.document.findMany({
+          where: { id: { in: snapshotted.map((photo) => photo.id) } },
+          select: { id: true, url: true },
+        })
+      : [];
+    const urls = new Map(documents.map((document) => [document.id, document.url]));
+
+    return {
+      ...evidence,
+      photos: evidence.photos.map((photo) => {
+        // Disputes opened before snapshots existed still carry the URL itself.
+        if (!('sha256' in photo)) {
+          return photo;
+        }
+        const url = urls.get(photo.id) ?? '';
+        return {
+          id: photo.id,
+          phase: photo.phase,
+          url,
+          name: photo.name,
+          providerId: photo.providerId,
+          uploadedAt: photo.uploadedAt,
+          changedSinceCapture: !url || this.fingerprint(url) !== photo.sha256,
+        };
+      }),
+    };
+  }
+
+  private fingerprint(url: string) {
+    return createHash('sha256').update(url).digest('hex');
+  }
+
+  private async ensureChecklist(booking: PrismaBooking) {
+    const count = await this.prisma.bookingChecklistItem.count({ where: { bookingId: booking.id } });
+    if (count) {
+      return;
+    }
+    const items = buildServiceChecklist(booking.service, booking.cleaningPreferences, booking.addons);
+    if (!items.length) {
+      return;
+    }
+    // Two devices opening the checklist at once would race; the unique position makes the second insert a no-op.
+    await this.prisma.bookingChecklistItem.createMany({
+      data: items.map((item, index) => ({
+        bookingId: booking.id,
+        position: index + 1,
+        label: item.label,
+        source: item.source,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  private async loadForProvider(user: User, bookingId: string) {
+    const profile = await this.prisma.providerProfile.findUnique({
+      where: { userId: user.id },
+      select: { id: true },
+    });
+    if (!profile) {
+      throw new NotFoundException('PROVIDER_PROFILE_NOT_FOUND');
+    }
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: { assignments: { select: { providerId: true } } },
+    });
+    if (!booking) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+    if (!booking.assignments.some((assignment) => assignment.providerId === profile.id)) {
+      throw new ForbiddenException('BOOKING_FORBIDDEN');
+    }
+    return { booking, providerId: profile.id };
+  }
+
+  private toChecklistEntry(item: BookingChecklistItem): BookingChecklistEntry {
+    return {
+      id: item.id,
+      position: item.position,
+      label: item.label,
+      source: item.source === 'client_wish' || item.source === 'addon' ? item.source : 'service',
+      completed: item.completed,
+      completedAt: item.completedAt?.toISOString() ?? null,
+      completedByProviderId: item.completedById ?? null,
+      note: item.note ?? null,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { ProviderType } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BookingMatchingCriteria, BookingMatchingService } from './booking-matching.service';
+
+describe('BookingMatchingService', () => {
+  // Wednesday morning in Potsdam, about 27 km from the providers' zone in Berlin Mitte.
+  const criteria: BookingMatchingCriteria = {
+    service: 'residential',
+    ecoPreference: 'standard',
+    startAt: new Date('2026-03-11T08:00:00Z'),
+    endAt: new Date('2026-03-11T11:00:00Z'),
+    city: 'Potsdam',
+    latitude: 52.3906,
+    longitude: 13.0645,
+  };
+  const provider = (id: string, distanceMaxKm: number | null) => ({
+    id,
+    providerType: ProviderType.FREELANCER,
+    serviceAreas: [],
+    serviceZones: [{ name: 'Mitte', postalCode: '10115', latitude: 52.52, longitude: 13.405, radiusKm: 5 }],
+    offersEco: false,
+    distanceMaxKm,
+    hourlyRateCents: 2500,
+    ratingAverage: 4.8,
+    ratingCount: 12,
+    availabilitySlots: [{ weekday: 3, startMinutes: 8 * 60, endMinutes: 18 * 60, timezone: 'Europe/Berlin' }],
+    timeOffPeriods: [],
+  });
+  let service: BookingMatchingService;
+
+  beforeEach(() => {
+    const prisma = {
+      providerProfile: {
+        findMany: jest.fn(async ({ where }: { where: { id?: { in: string[] } } }) =>
+          [provider('travels_far', 35), provider('platform_default', null), provider('stays_close', 10)].filter(
+            (entry) => !where.id || where.id.in.includes(entry.id)
+          )
+        ),
+      },
+      matchingConfig: { findFirst: jest.fn().mockResolvedValue({ distanceMaxKm: 30 }) },
+      bookingAssignment: { findMany: jest.fn().mockResolvedValue([]), groupBy: jest.fn().mockResolvedValue([]) },
+    };
+    service = new BookingMatchingService(prisma as unknown as PrismaService);
+  });
+
+  it('filters providers by their own travel radius rather than the zone radius', async () => {
+    await expect(service.ensureProvidersEligible(['travels_far'], criteria)).resolves.toBeUndefined();
+    await expect(service.ensureProvidersEligible(['platform_default'], criteria)).resolves.toBeUndefined();
+    await expect(service.ensureProvidersEligible(['stays_close'], criteria)).rejects.toThrow(
+      'PROVIDERS_NOT_ELIGIBLE'
+    );
+  });
+});
@@ -4,6 +4,12 @@ import { BookingStatus as PrismaBookingStatus, ProviderType } from '@prisma/clie
 import { EcoPreference, ServiceCategory } from '@saubio/models';
 import { PrismaService } from '../../prisma/prisma.service';
 import { DateTime } from 'luxon';
+import {
+  haversineDistanceKm,
+  resolveGeoPoint,
+  type GeoPoint,
+  type ResolvedGeoPoint,
+} from '../geocoding/postal-code-centroids';
 
 export interface BookingMatchingCriteria {
   service: ServiceCategory;
@@ -11,6 +17,10 @@ export interface BookingMatchingCriteria {
   startAt: Date;
   endAt: Date;
   city?: string;
+  postalCode?: string;
+  countryCode?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   excludeBookingId?: string;
   clientId?: string;
   priceCeilingCents?: number;
@@ -23,8 +33,10 @@ interface ProviderCandidate {
   serviceAreas: string[];
   serviceZones: Array<{
     name: string;
+    postalCode?: string | null;
     city?: string | null;
     district?: string | null;
+    countryCode?: string | null;
     latitude?: number | null;
     longitude?: number | null;
     radiusKm?: number | null;
@@ -229,7 +241,7 @@ export class BookingMatchingService {
             assignmentsTotal: 0,
             clientAssignments: 0,
           };
-        const distanceKm = this.computeDistanceKm(candidate, criteria.city, config.distanceMaxKm);
+        const distanceKm = this.computeDistanceKm(candidate, criteria, config.distanceMaxKm);
         const distanceScore = 1 - Math.min(distanceKm / config.distanceMaxKm, 1);
         const ratingScore = Math.max(
           0,
@@ -512,9 +524,17 @@ export class BookingMatchingService {
 
   private computeDistanceKm(
     candidate: ProviderCandidate,
-    city?: string,
+    criteria: BookingMatchingCriteria,
     maxDistance = DEFAULT_DISTANCE_MAX_KM
   ): number {
+    const origin = this.resolveCriteriaPoint(criteria);
+    if (origin) {
+      const distances = this.measureZoneDistances(candidate.serviceZones ?? [], origin);
+      if (distances.length) {
+        return Math.min(...distances);
+      }
+    }
+    const city = criteria.city;
     if (!city) {
       return 0;
     }
@@ -535,6 +555,17 @@ export class BookingMatchingService {
     return maxDistance;
   }
 
+  private resolveCriteriaPoint(criteria: BookingMatchingCriteria): GeoPoint | null {
+    return resolveGeoPoint(criteria.latitude, criteria.longitude, criteria.postalCode, criteria.countryCode);
+  }
+
+  private measureZoneDistances(zones: ProviderCandidate['serviceZones'], origin: GeoPoint): number[] {
+    return zones
+      .map((zone) => resolveGeoPoint(zone.latitude, zone.longitude, zone.postalCode, zone.countryCode))
+      .filter((point): point is ResolvedGeoPoint => Boolean(point))
+      .map((point) => Math.round(haversineDistanceKm(origin, point) * 10) / 10);
+  }
+
   async ensureTeamEligible(
     teamId: string,
     criteria: BookingMatchingCriteria,
@@ -647,14 +678,17 @@ export class BookingMatchingService {
         serviceZones: {
           select: {
             name: true,
+            postalCode: true,
             city: true,
             district: true,
+            countryCode: true,
             latitude: true,
             longitude: true,
             radiusKm: true,
           },
         },
         offersEco: true,
+        distanceMaxKm: true,
         hourlyRateCents: true,
         ratingAverage: true,
         ratingCount: true,
@@ -685,11 +719,20 @@ export class BookingMatchingService {
     }
 
     const city = criteria.city?.toLowerCase().trim();
+    const origin = this.resolveCriteriaPoint(criteria);
+    const { distanceMaxKm } = await this.getMatchingConfig();
     const filteredByArea = providerRows.filter((provider) => {
+      const zones = provider.serviceZones ?? [];
+      if (origin && zones.length) {
+        const distances = this.measureZoneDistances(zones, origin);
+        if (distances.length) {
+          // Providers set how far they travel; the zones only say where they start from.
+          return Math.min(...distances) <= (provider.distanceMaxKm ?? distanceMaxKm);
+        }
+      }
       if (!city) {
         return true;
       }
-      const zones = provider.serviceZones ?? [];
       if (zones.length) {
         return zones.some((zone) =>
           [zone.city, zone.district, zone.name]
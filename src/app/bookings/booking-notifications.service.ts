@@ -1,8 +1,10 @@
 import { Injectable } from '@nestjs/common';
-import { NotificationType, UserRole } from '@prisma/client';
+import { NotificationAutomationEvent, NotificationType, UserRole } from '@prisma/client';
+import type { BookingStatus } from '@saubio/models';
 import type { BookingWithRelations } from './booking.mapper';
 import { PrismaService } from '../../prisma/prisma.service';
 import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationAutomationService } from '../notifications/notification-automation.service';
 
 @Injectable()
 export class BookingNotificationsService {
@@ -11,7 +13,8 @@ export class BookingNotificationsService {
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly notifications: NotificationsService
+    private readonly notifications: NotificationsService,
+    private readonly automation: NotificationAutomationService
   ) {}
 
   async notifyParticipants(options: {
@@ -95,6 +98,28 @@ export class BookingNotificationsService {
       // ensure parent emit receives booking context
       // contextClientId is handled within notifyParticipants
     });
+
+    await this.automation.trigger(NotificationAutomationEvent.MATCHING_PROGRESS, {
+      bookingId: options.booking.id,
+      payload: { matching: { stage: stage ?? null, status: status ?? null } },
+      dedupeKey: resolvedDedupeKey ? `${options.booking.id}:${resolvedDedupeKey}` : undefined,
+    });
+  }
+
+  async triggerBookingAutomation(
+    event: NotificationAutomationEvent,
+    bookingId: string,
+    payload?: Record<string, unknown>
+  ) {
+    await this.automation.trigger(event, { bookingId, payload });
+  }
+
+  async triggerStatusAutomation(bookingId: string, status: BookingStatus) {
+    if (status === 'confirmed') {
+      await this.automation.trigger(NotificationAutomationEvent.BOOKING_CONFIRMED, { bookingId });
+    } else if (status === 'completed') {
+      await this.automation.trigger(NotificationAutomationEvent.BOOKING_COMPLETED, { bookingId });
+    }
   }
 
   private async getProviderUserIds(providerProfileIds: string[]): Promise<string[]> {
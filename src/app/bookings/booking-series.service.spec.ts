@@ -0,0 +1,36 @@
+import { CleaningFrequency } from '@prisma/client';
+import { resolveSeriesOccurrenceStart } from './booking-series.service';
+
+describe('resolveSeriesOccurrenceStart', () => {
+  const base = {
+    anchorStartAt: new Date('2026-03-20T08:00:00.000Z'),
+    anchorIndex: 0,
+    timezone: 'Europe/Berlin',
+  };
+
+  it('keeps the local start time across the DST switch for weekly series', () => {
+    const next = resolveSeriesOccurrenceStart({ ...base, frequency: CleaningFrequency.WEEKLY }, 2);
+    expect(next.toISOString()).toBe('2026-04-03T07:00:00.000Z');
+  });
+
+  it('steps two weeks per index for biweekly series', () => {
+    const next = resolveSeriesOccurrenceStart(
+      { ...base, anchorStartAt: new Date('2026-06-01T08:00:00.000Z'), frequency: CleaningFrequency.BIWEEKLY },
+      1
+    );
+    expect(next.toISOString()).toBe('2026-06-15T08:00:00.000Z');
+  });
+
+  it('computes monthly occurrences relative to a moved anchor', () => {
+    const next = resolveSeriesOccurrenceStart(
+      {
+        ...base,
+        anchorStartAt: new Date('2026-01-31T09:00:00.000Z'),
+        anchorIndex: 3,
+        frequency: CleaningFrequency.MONTHLY,
+      },
+      4
+    );
+    expect(next.toISOString()).toBe('2026-02-28T09:00:00.000Z');
+  });
+});
@@ -0,0 +1,560 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import {
+  BookingSeriesStatus,
+  BookingStatus as PrismaBookingStatus,
+  BookingMode as PrismaBookingMode,
+  CleaningFrequency as PrismaCleaningFrequency,
+  NotificationType,
+  Prisma,
+  BookingSeries as PrismaBookingSeries,
+} from '@prisma/client';
+import type { BookingRequest, BookingSeries, User } from '@saubio/models';
+import { DateTime } from 'luxon';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PricingService } from '../pricing/pricing.service';
+import { parseAddonLines, withoutAddonEnd, withoutAddonHours } from '../pricing/service-addons';
+import { BookingMatchingService } from './booking-matching.service';
+import { BookingMapper, type BookingWithRelations } from './booking.mapper';
+import { BookingNotificationsService } from './booking-notifications.service';
+import { BookingsService } from './bookings.service';
+import { EndBookingSeriesDto, SkipBookingOccurrenceDto, UpdateBookingSeriesDto } from './dto';
+
+const ACTIVATED_OCCURRENCE_STATUSES: PrismaBookingStatus[] = [
+  PrismaBookingStatus.CONFIRMED,
+  PrismaBookingStatus.IN_PROGRESS,
+  PrismaBookingStatus.COMPLETED,
+];
+
+const MUTABLE_OCCURRENCE_STATUSES: PrismaBookingStatus[] = [
+  PrismaBookingStatus.DRAFT,
+  PrismaBookingStatus.PENDING_PROVIDER,
+  PrismaBookingStatus.PENDING_CLIENT,
+  PrismaBookingStatus.CONFIRMED,
+];
+
+const BOOKING_RELATION_INCLUDE = {
+  assignments: true,
+  auditLog: true,
+  attachments: true,
+  fallbackTeamCandidate: { include: { members: true } },
+} as const;
+
+type SeriesSchedule = Pick<PrismaBookingSeries, 'frequency' | 'anchorStartAt' | 'anchorIndex' | 'timezone'>;
+
+export function resolveSeriesOccurrenceStart(series: SeriesSchedule, index: number): Date {
+  const anchor = DateTime.fromJSDate(series.anchorStartAt, { zone: series.timezone || 'Europe/Berlin' });
+  const offset = index - series.anchorIndex;
+  switch (series.frequency) {
+    case PrismaCleaningFrequency.BIWEEKLY:
+      return anchor.plus({ weeks: offset * 2 }).toJSDate();
+    case PrismaCleaningFrequency.MONTHLY:
+      return anchor.plus({ months: offset }).toJSDate();
+    case PrismaCleaningFrequency.WEEKLY:
+    default:
+      return anchor.plus({ weeks: offset }).toJSDate();
+  }
+}
+
+@Injectable()
+export class BookingSeriesService {
+  private readonly logger = new Logger(BookingSeriesService.name);
+  private static readonly MAX_SERIES_PER_RUN = 25;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly bookings: BookingsService,
+    private readonly matching: BookingMatchingService,
+    private readonly bookingNotifications: BookingNotificationsService,
+    private readonly pricingEngine: PricingService
+  ) {}
+
+  @Cron('20 * * * *')
+  async materializeUpcomingOccurrences() {
+    const series = await this.prisma.bookingSeries.findMany({
+      where: {
+        status: BookingSeriesStatus.ACTIVE,
+        occurrences: { some: { status: { in: ACTIVATED_OCCURRENCE_STATUSES } } },
+      },
+      orderBy: { lastMaterializedAt: { sort: 'asc', nulls: 'first' } },
+      take: BookingSeriesService.MAX_SERIES_PER_RUN,
+    });
+
+    for (const entry of series) {
+      try {
+        await this.materializeSeries(entry);
+      } catch (error) {
+        this.logger.warn(
+          `Series materialization failed for series ${entry.id}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+  }
+
+  async getSeries(seriesId: string, user: User): Promise<BookingSeries> {
+    const series = await this.prisma.bookingSeries.findUnique({
+      where: { id: seriesId },
+      include: {
+        occurrences: {
+          orderBy: { seriesIndex: 'asc' },
+          include: { assignments: true },
+        },
+      },
+    });
+
+    if (!series) {
+      throw new NotFoundException('BOOKING_SERIES_NOT_FOUND');
+    }
+
+    const anchor = series.occurrences[0];
+    if (anchor) {
+      await this.bookings.findOne(anchor.id, user);
+    } else if (!this.isElevated(user) && series.clientId !== user.id) {
+      throw new ForbiddenException('BOOKING_FORBIDDEN');
+    }
+
+    return {
+      id: series.id,
+      createdAt: series.createdAt.toISOString(),
+      updatedAt: series.updatedAt.toISOString(),
+      clientId: series.clientId ?? null,
+      frequency: BookingMapper.toDomainFrequency(series.frequency) as BookingSeries['frequency'],
+      status: series.status === BookingSeriesStatus.ENDED ? 'ended' : 'active',
+      anchorStartAt: series.anchorStartAt.toISOString(),
+      durationMinutes: series.durationMinutes,
+      timezone: series.timezone,
+      horizonOccurrences: series.horizonOccurrences,
+      lastMaterializedAt: series.lastMaterializedAt?.toISOString() ?? null,
+      endedAt: series.endedAt?.toISOString() ?? null,
+      endReason: series.endReason ?? null,
+      occurrences: series.occurrences.map((occurrence) => ({
+        bookingId: occurrence.id,
+        index: occurrence.seriesIndex ?? 0,
+        startAt: occurrence.startAt.toISOString(),
+        endAt: occurrence.endAt.toISOString(),
+        status: BookingMapper.toDomainStatus(occurrence.status),
+        providerIds: occurrence.assignments.map((assignment) => assignment.providerId),
+      })),
+    };
+  }
+
+  async skipOccurrence(bookingId: string, user: User, payload?: SkipBookingOccurrenceDto): Promise<BookingRequest> {
+    await this.bookings.findOne(bookingId, user);
+    const existing = await this.findOccurrence(bookingId);
+
+    if (!MUTABLE_OCCURRENCE_STATUSES.includes(existing.status) || existing.startAt <= new Date()) {
+      throw new BadRequestException('BOOKING_OCCURRENCE_NOT_SKIPPABLE');
+    }
+
+    const updated = (await this.prisma.booking.update({
+      where: { id: existing.id },
+      data: {
+        status: PrismaBookingStatus.CANCELLED,
+        auditLog: {
+          create: {
+            actor: { connect: { id: user.id } },
+            action: 'status_changed',
+            metadata: {
+              from: BookingMapper.toDomainStatus(existing.status),
+              to: 'cancelled',
+              reason: payload?.reason ?? 'series_occurrence_skipped',
+              seriesId: existing.seriesId,
+              seriesIndex: existing.seriesIndex,
+            },
+          },
+        },
+      },
+      include: BOOKING_RELATION_INCLUDE,
+    })) as BookingWithRelations;
+
+    await this.bookingNotifications.notifyParticipants({
+      booking: updated,
+      type: NotificationType.BOOKING_CANCELLATION,
+      payload: {
+        event: 'series_occurrence_skipped',
+        seriesId: existing.seriesId,
+        reason: payload?.reason ?? null,
+        actorId: user.id,
+      },
+    });
+
+    return BookingMapper.toDomain(updated);
+  }
+
+  async updateFromOccurrence(
+    bookingId: string,
+    payload: UpdateBookingSeriesDto,
+    user: User
+  ): Promise<BookingRequest> {
+    await this.bookings.findOne(bookingId, user);
+    const existing = await this.findOccurrence(bookingId);
+    if (!MUTABLE_OCCURRENCE_STATUSES.includes(existing.status)) {
+      throw new BadRequestException('BOOKING_OCCURRENCE_NOT_EDITABLE');
+    }
+    const series = await this.prisma.bookingSeries.findUnique({ where: { id: existing.seriesId! } });
+    if (!series) {
+      throw new NotFoundException('BOOKING_SERIES_NOT_FOUND');
+    }
+    if (series.status === BookingSeriesStatus.ENDED) {
+      throw new BadRequestException('BOOKING_SERIES_ENDED');
+    }
+
+    const updated = await this.bookings.update(bookingId, payload, user);
+    const anchorStartAt = new Date(updated.startAt);
+    const durationMinutes = Math.max(
+      1,
+      Math.round((Date.parse(updated.endAt) - Date.parse(updated.startAt)) / 60_000)
+    );
+
+    const nextSeries = await this.prisma.bookingSeries.update({
+      where: { id: series.id },
+      data: {
+        anchorStartAt,
+        anchorIndex: existing.seriesIndex ?? 0,
+        durationMinutes,
+      },
+    });
+
+    const following = await this.prisma.booking.findMany({
+      where: {
+        seriesId: series.id,
+        seriesIndex: { gt: existing.seriesIndex ?? 0 },
+        status: { in: MUTABLE_OCCURRENCE_STATUSES },
+        startAt: { gt: new Date() },
+      },
+      orderBy: { seriesIndex: 'asc' },
+      select: { id: true, seriesIndex: true },
+    });
+
+    for (const occurrence of following) {
+      const startAt = resolveSeriesOccurrenceStart(nextSeries, occurrence.seriesIndex ?? 0);
+      // The series duration includes the add-on time, which the update adds back on top of the requested end.
+      const endAt = withoutAddonEnd(new Date(startAt.getTime() + durationMinutes * 60_000), updated.addons ?? []);
+      try {
+        await this.bookings.update(
+          occurrence.id,
+          { ...payload, startAt: startAt.toISOString(), endAt: endAt.toISOString() },
+          user
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Series update skipped occurrence ${occurrence.id} of series ${series.id}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    return updated;
+  }
+
+  async endSeries(seriesId: string, user: User, payload?: EndBookingSeriesDto): Promise<BookingSeries> {
+    const series = await this.prisma.bookingSeries.findUnique({ where: { id: seriesId } });
+    if (!series) {
+      throw new NotFoundException('BOOKING_SERIES_NOT_FOUND');
+    }
+    if (!this.isElevated(user) && series.clientId !== user.id) {
+      throw new ForbiddenException('BOOKING_FORBIDDEN');
+    }
+    if (series.status === BookingSeriesStatus.ENDED) {
+      return this.getSeries(seriesId, user);
+    }
+
+    const now = new Date();
+    const reason = payload?.reason ?? (this.isElevated(user) ? 'admin_ended' : 'client_ended');
+    const cancelled = await this.prisma.$transaction(async (tx) => {
+      await tx.bookingSeries.update({
+        where: { id: seriesId },
+        data: {
+          status: BookingSeriesStatus.ENDED,
+          endedAt: now,
+          endedById: user.id,
+          endReason: reason,
+        },
+      });
+
+      const upcoming = await tx.booking.findMany({
+        where: {
+          seriesId,
+          status: { in: MUTABLE_OCCURRENCE_STATUSES },
+          startAt: { gt: now },
+        },
+        select: { id: true, status: true },
+      });
+
+      const results: BookingWithRelations[] = [];
+      for (const occurrence of upcoming) {
+        const updated = await tx.booking.update({
+          where: { id: occurrence.id },
+          data: {
+            status: PrismaBookingStatus.CANCELLED,
+            auditLog: {
+              create: {
+                actor: { connect: { id: user.id } },
+                action: 'status_changed',
+                metadata: {
+                  from: BookingMapper.toDomainStatus(occurrence.status),
+                  to: 'cancelled',
+                  reason: 'series_ended',
+                  seriesId,
+                },
+              },
+            },
+          },
+          include: BOOKING_RELATION_INCLUDE,
+        });
+        results.push(updated as BookingWithRelations);
+      }
+      return results;
+    });
+
+    for (const booking of cancelled) {
+      await this.bookingNotifications.notifyParticipants({
+        booking,
+        type: NotificationType.BOOKING_CANCELLATION,
+        payload: {
+          event: 'series_ended',
+          seriesId,
+          reason,
+          actorId: user.id,
+        },
+      });
+    }
+
+    return this.getSeries(seriesId, user);
+  }
+
+  private async materializeSeries(series: PrismaBookingSeries) {
+    const occurrences = (await this.prisma.booking.findMany({
+      where: { seriesId: series.id },
+      orderBy: { seriesIndex: 'asc' },
+      include: BOOKING_RELATION_INCLUDE,
+    })) as BookingWithRelations[];
+
+    const source = [...occurrences]
+      .reverse()
+      .find((occurrence) => occurrence.status !== PrismaBookingStatus.CANCELLED);
+    if (!source) {
+      return;
+    }
+
+    const now = new Date();
+    let upcoming = occurrences.filter(
+      (occurrence) => occurrence.startAt > now && occurrence.status !== PrismaBookingStatus.CANCELLED
+    ).length;
+    let index = occurrences.reduce((max, occurrence) => Math.max(max, occurrence.seriesIndex ?? 0), 0) + 1;
+    const maxIndex = index + series.horizonOccurrences * 4;
+
+    while (upcoming < series.horizonOccurrences && index < maxIndex) {
+      const startAt = resolveSeriesOccurrenceStart(series, index);
+      if (startAt > now) {
+        await this.createOccurrence(series, source, index, startAt);
+        upcoming += 1;
+      }
+      index += 1;
+    }
+
+    await this.prisma.bookingSeries.update({
+      where: { id: series.id },
+      data: { lastMaterializedAt: now },
+    });
+  }
+
+  private async createOccurrence(
+    series: PrismaBookingSeries,
+    source: BookingWithRelations,
+    index: number,
+    startAt: Date
+  ) {
+    const endAt = new Date(startAt.getTime() + series.durationMinutes * 60_000);
+    const service = BookingMapper.toDomainService(source.service);
+    const ecoPreference = BookingMapper.toDomainEcoPreference(source.ecoPreference);
+    const requiredProviders = source.requiredProviders ?? 1;
+    const addons = parseAddonLines(source.addons);
+
+    const pricing = await this.pricingEngine.calculateQuote({
+      surfacesSquareMeters: this.bookings.resolveSurfaceForPricing({
+        surfacesSquareMeters: source.surfacesSquareMeters !== null ? Number(source.surfacesSquareMeters) : null,
+        durationHours:
+          source.durationHours !== null ? withoutAddonHours(Number(source.durationHours), addons) : null,
+        recommendedHours:
+          source.recommendedHours !== null ? withoutAddonHours(Number(source.recommendedHours), addons) : null,
+      }),
+      ecoPreference,
+      clientId: source.clientId ?? undefined,
+      service,
+      addons: addons.map((addon) => addon.id),
+      countryCode: source.addressCountryCode,
+      companyId: source.companyId,
+      providerIds: source.assignments.map((assignment) => assignment.providerId),
+      startAt,
+      postalCode: source.addressPostalCode,
+      soilLevel: BookingMapper.toDomainSoilLevel(source.soilLevel),
+    });
+
+    let providerIds = source.assignments.map((assignment) => assignment.providerId);
+    if (providerIds.length) {
+      try {
+        await this.matching.ensureProvidersEligible(providerIds, {
+          service,
+          ecoPreference,
+          startAt,
+          endAt,
+          city: source.addressCity,
+          postalCode: source.addressPostalCode,
+          latitude: source.addressLatitude,
+          longitude: source.addressLongitude,
+          clientId: source.clientId ?? undefined,
+          priceCeilingCents: pricing.subtotalCents,
+          requiredProviders,
+        });
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) {
+          throw error;
+        }
+        providerIds = [];
+      }
+    }
+
+    const providersRetained = providerIds.length > 0;
+    const teamId = providersRetained ? source.assignedTeamId : null;
+    const status = providersRetained ? PrismaBookingStatus.PENDING_CLIENT : PrismaBookingStatus.PENDING_PROVIDER;
+
+    const created = (await this.prisma.booking.create({
+      data: {
+        client: source.clientId ? { connect: { id: source.clientId } } : undefined,
+        company: source.companyId ? { connect: { id: source.companyId } } : undefined,
+        costCentre: source.costCentre,
+        series: { connect: { id: series.id } },
+        seriesIndex: index,
+        service: source.service,
+        surfacesSquareMeters: source.surfacesSquareMeters,
+        durationHours: source.durationHours,
+        recommendedHours: source.recommendedHours,
+        addons: pricing.addons.length ? (pricing.addons as unknown as Prisma.InputJsonArray) : undefined,
+        durationManuallyAdjusted: source.durationManuallyAdjusted,
+        startAt,
+        endAt,
+        frequency: source.frequency,
+        mode: providersRetained ? source.mode : PrismaBookingMode.SMART_MATCH,
+        ecoPreference: source.ecoPreference,
+        addressStreetLine1: source.addressStreetLine1,
+        addressStreetLine2: source.addressStreetLine2,
+        addressPostalCode: source.addressPostalCode,
+        addressCity: source.addressCity,
+        addressCountryCode: source.addressCountryCode,
+        addressAccessNotes: source.addressAccessNotes,
+        addressLatitude: source.addressLatitude,
+        addressLongitude: source.addressLongitude,
+        addressPointSource: source.addressPointSource,
+        billingStreetLine1: source.billingStreetLine1,
+        billingStreetLine2: source.billingStreetLine2,
+        billingPostalCode: source.billingPostalCode,
+        billingCity: source.billingCity,
+        billingCountryCode: source.billingCountryCode,
+        billingAccessNotes: source.billingAccessNotes,
+        contactFirstName: source.contactFirstName,
+        contactLastName: source.contactLastName,
+        contactCompany: source.contactCompany,
+        contactPhone: source.contactPhone,
+        contactStreetLine1: source.contactStreetLine1,
+        contactStreetLine2: source.contactStreetLine2,
+        contactPostalCode: source.contactPostalCode,
+        contactCity: source.contactCity,
+        contactCountryCode: source.contactCountryCode,
+        contactAccessNotes: source.contactAccessNotes,
+        onsiteContactFirstName: source.onsiteContactFirstName,
+        onsiteContactLastName: source.onsiteContactLastName,
+        onsiteContactPhone: source.onsiteContactPhone,
+        status,
+        pricingSubtotalCents: pricing.subtotalCents,
+        pricingEcoCents: pricing.ecoSurchargeCents,
+        pricingLoyaltyCents: pricing.loyaltyCreditsCents,
+        pricingExtrasCents: pricing.extrasCents,
+        pricingTaxCents: pricing.taxCents,
+        taxRule: pricing.taxRule,
+        taxRateBps: pricing.taxRateBps,
+        pricingBreakdown: pricing.breakdown as unknown as Prisma.InputJsonObject,
+        pricingCurrency: pricing.currency,
+        pricingTotalCents: pricing.totalCents,
+        notes: source.notes,
+        providerNotes: source.providerNotes,
+        requiredProviders,
+        preferredTeam: source.preferredTeamId ? { connect: { id: source.preferredTeamId } } : undefined,
+        assignedTeam: teamId ? { connect: { id: teamId } } : undefined,
+        assignments: providersRetained
+          ? {
+              create: providerIds.map((providerId) => ({
+                provider: { connect: { id: providerId } },
+                team: teamId ? { connect: { id: teamId } } : undefined,
+              })),
+            }
+          : undefined,
+        auditLog: {
+          create: {
+            action: 'created',
+            metadata: {
+              status: BookingMapper.toDomainStatus(status),
+              providerIds,
+              teamId,
+              seriesId: series.id,
+              seriesIndex: index,
+              sourceBookingId: source.id,
+              providersRetained,
+            },
+          },
+        },
+        leadTimeDays: Math.max(0, Math.floor((startAt.getTime() - Date.now()) / (1000 * 60 * 60 * 24))),
+        soilLevel: source.soilLevel ?? undefined,
+        cleaningPreferences: (source.cleaningPreferences ?? undefined) as Prisma.InputJsonValue | undefined,
+        upholsteryDetails: (source.upholsteryDetails ?? undefined) as Prisma.InputJsonValue | undefined,
+        additionalInstructions: source.additionalInstructions ?? undefined,
+      },
+      include: BOOKING_RELATION_INCLUDE,
+    })) as BookingWithRelations;
+
+    await this.bookingNotifications.notifyParticipants({
+      booking: created,
+      type: providersRetained ? NotificationType.BOOKING_ASSIGNMENT : NotificationType.BOOKING_STATUS,
+      payload: {
+        event: 'series_occurrence_created',
+        seriesId: series.id,
+        seriesIndex: index,
+        status: BookingMapper.toDomainStatus(status),
+        providerIds,
+      },
+      providerTargets: providerIds,
+      dedupeKey: `series:${series.id}:${index}`,
+    });
+
+    this.logger.log(
+      `[Series] Created occurrence booking=${created.id} series=${series.id} index=${index} providersRetained=${providersRetained}`
+    );
+  }
+
+  private async findOccurrence(bookingId: string) {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: { id: true, seriesId: true, seriesIndex: true, status: true, startAt: true },
+    });
+    if (!booking) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+    if (!booking.seriesId) {
+      throw new BadRequestException('BOOKING_NOT_IN_SERIES');
+    }
+    return booking;
+  }
+
+  private isElevated(user: User) {
+    return user.roles.includes('admin') || user.roles.includes('employee');
+  }
+}
@@ -0,0 +1,69 @@
+import { GeoPointSource } from '@prisma/client';
+import {
+  checkInReference,
+  computeOvertimeAmountCents,
+  computeOvertimeMinutes,
+  computePlannedMinutes,
+  computeWorkedMinutes,
+  distanceFromAddressMeters,
+  isWithinCheckInTolerance,
+} from './booking-time-tracking';
+
+describe('booking time tracking', () => {
+  it('measures the check-in distance from the booking address', () => {
+    const address = { latitude: 52.52, longitude: 13.405 };
+    expect(distanceFromAddressMeters(address, { latitude: 52.52, longitude: 13.405 })).toBe(0);
+    expect(distanceFromAddressMeters(address, { latitude: 52.521, longitude: 13.405 })).toBe(111);
+    expect(distanceFromAddressMeters(address, undefined)).toBeNull();
+    expect(distanceFromAddressMeters({ latitude: null, longitude: null }, address)).toBeNull();
+  });
+
+  it('measures only against coordinates the client sent, not postal-code centroids', () => {
+    const booking = { addressLatitude: 52.53, addressLongitude: 13.39 };
+    const atTheDoor = { latitude: 52.551, longitude: 13.41 };
+
+    expect(
+      distanceFromAddressMeters(checkInReference({ ...booking, addressPointSource: GeoPointSource.CLIENT }), atTheDoor)
+    ).toBe(2699);
+    expect(
+      distanceFromAddressMeters(
+        checkInReference({ ...booking, addressPointSource: GeoPointSource.POSTAL_CENTROID }),
+        atTheDoor
+      )
+    ).toBeNull();
+    expect(distanceFromAddressMeters(checkInReference({ ...booking, addressPointSource: null }), atTheDoor)).toBeNull();
+  });
+
+  it('flags only known distances beyond the tolerance', () => {
+    expect(isWithinCheckInTolerance(120)).toBe(true);
+    expect(isWithinCheckInTolerance(null)).toBe(true);
+    expect(isWithinCheckInTolerance(850)).toBe(false);
+  });
+
+  it('compares worked time with the booked duration', () => {
+    const startAt = new Date('2026-01-21T09:00:00.000Z');
+    const endAt = new Date('2026-01-21T12:00:00.000Z');
+    expect(computePlannedMinutes({ durationHours: 2.5, startAt, endAt })).toBe(150);
+    expect(computePlannedMinutes({ durationHours: null, startAt, endAt })).toBe(180);
+    expect(computeWorkedMinutes(startAt, new Date('2026-01-21T11:47:30.000Z'))).toBe(168);
+  });
+
+  it('counts overtime in full quarter hours', () => {
+    expect(computeOvertimeMinutes(160, 150)).toBe(0);
+    expect(computeOvertimeMinutes(165, 150)).toBe(15);
+    expect(computeOvertimeMinutes(194, 150)).toBe(30);
+    expect(computeOvertimeMinutes(120, 150)).toBe(0);
+  });
+
+  it('prices overtime at the booking rate per provider', () => {
+    expect(
+      computeOvertimeAmountCents({ overtimeMinutes: 30, plannedMinutes: 180, servicePriceCents: 9000, requiredProviders: 1 })
+    ).toBe(1500);
+    expect(
+      computeOvertimeAmountCents({ overtimeMinutes: 30, plannedMinutes: 180, servicePriceCents: 9000, requiredProviders: 2 })
+    ).toBe(750);
+    expect(
+      computeOvertimeAmountCents({ overtimeMinutes: 0, plannedMinutes: 180, servicePriceCents: 9000, requiredProviders: 1 })
+    ).toBe(0);
+  });
+});
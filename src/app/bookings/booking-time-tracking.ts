@@ -0,0 +1,80 @@
+import { GeoPointSource } from '@prisma/client';
+import { haversineDistanceKm, type GeoPoint } from '../geocoding/postal-code-centroids';
+
+/** Phone GPS indoors is often off by a block or two, so check-ins further away are flagged, not refused. */
+export const CHECK_IN_TOLERANCE_METERS = 300;
+export const OVERTIME_BLOCK_MINUTES = 15;
+
+type Position = { latitude?: number | null; longitude?: number | null };
+
+/**
+ * The point check-ins are measured against. A postal-code centroid can be kilometres from the door, so bookings
+ * without coordinates sent by the client (including those stored before the source was recorded) measure nothing.
+ */
+export function checkInReference(booking: {
+  addressLatitude: number | null;
+  addressLongitude: number | null;
+  addressPointSource: GeoPointSource | null;
+}): Position {
+  return booking.addressPointSource === GeoPointSource.CLIENT
+    ? { latitude: booking.addressLatitude, longitude: booking.addressLongitude }
+    : { latitude: null, longitude: null };
+}
+
+export function distanceFromAddressMeters(address: Position, position: Position | undefined): number | null {
+  const origin = toGeoPoint(address);
+  const target = position ? toGeoPoint(position) : null;
+  if (!origin || !target) {
+    return null;
+  }
+  return Math.round(haversineDistanceKm(origin, target) * 1000);
+}
+
+/** Unknown distances (no address coordinates or no position sent) are not held against the provider. */
+export function isWithinCheckInTolerance(distanceMeters: number | null | undefined) {
+  return distanceMeters === null || distanceMeters === undefined || distanceMeters <= CHECK_IN_TOLERANCE_METERS;
+}
+
+export function computeWorkedMinutes(checkInAt: Date, checkOutAt: Date) {
+  return Math.max(0, Math.round((checkOutAt.getTime() - checkInAt.getTime()) / 60_000));
+}
+
+/** Booked time per provider: the agreed duration, or the booked slot when no duration was stored. */
+export function computePlannedMinutes(booking: { durationHours?: number | null; startAt: Date; endAt: Date }) {
+  if (typeof booking.durationHours === 'number' && booking.durationHours > 0) {
+    return Math.round(booking.durationHours * 60);
+  }
+  return Math.max(0, Math.round((booking.endAt.getTime() - booking.startAt.getTime()) / 60_000));
+}
+
+/** Only full quarter hours beyond the booked time count, which also leaves a grace period for wrapping up. */
+export function computeOvertimeMinutes(workedMinutes: number, plannedMinutes: number) {
+  const excess = workedMinutes - plannedMinutes;
+  if (excess < OVERTIME_BLOCK_MINUTES) {
+    return 0;
+  }
+  return Math.floor(excess / OVERTIME_BLOCK_MINUTES) * OVERTIME_BLOCK_MINUTES;
+}
+
+/**
+ * Net price of the overtime at the booking's own rate: the service price (before VAT and loyalty credits)
+ * spread over the booked minutes of every provider on the job.
+ */
+export function computeOvertimeAmountCents(params: {
+  overtimeMinutes: number;
+  plannedMinutes: number;
+  servicePriceCents: number;
+  requiredProviders: number;
+}) {
+  const providerMinutes = params.plannedMinutes * Math.max(1, params.requiredProviders);
+  if (params.overtimeMinutes <= 0 || providerMinutes <= 0 || params.servicePriceCents <= 0) {
+    return 0;
+  }
+  return Math.round((params.servicePriceCents / providerMinutes) * params.overtimeMinutes);
+}
+
+function toGeoPoint(position: Position): GeoPoint | null {
+  return typeof position.latitude === 'number' && typeof position.longitude === 'number'
+    ? { latitude: position.latitude, longitude: position.longitude }
+    : null;
+}
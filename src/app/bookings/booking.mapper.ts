@@ -7,6 +7,12 @@ import type {
   BookingStatus,
   BookingAuditEntry,
   CleaningSoilLevel,
+  BookingOvertimeStatus,
+  BookingTimeEntry,
+  CancellationInitiator,
+  PricingAdjustment,
+  PricingBreakdown,
+  TaxRuleCode,
 } from '@saubio/models';
 import {
   Booking as PrismaBooking,
@@ -21,6 +27,8 @@ import {
   User as PrismaUser,
   SoilLevel as PrismaSoilLevel,
 } from '@prisma/client';
+import { computePlannedMinutes, isWithinCheckInTolerance } from './booking-time-tracking';
+import { parseAddonLines } from '../pricing/service-addons';
 
 type BookingAuditEntity = {
   id: string;
@@ -46,12 +54,17 @@ export class BookingMapper {
       updatedAt: entity.updatedAt.toISOString(),
       clientId: entity.clientId ?? null,
       companyId: entity.companyId ?? undefined,
+      costCentre: entity.costCentre ?? undefined,
       address: {
         streetLine1: entity.addressStreetLine1,
         streetLine2: entity.addressStreetLine2 ?? undefined,
         postalCode: entity.addressPostalCode,
         city: entity.addressCity,
         countryCode: entity.addressCountryCode,
+        coordinates:
+          entity.addressLatitude !== null && entity.addressLongitude !== null
+            ? { latitude: entity.addressLatitude, longitude: entity.addressLongitude }
+            : undefined,
         accessNotes: entity.addressAccessNotes ?? undefined,
       },
       billingAddress: BookingMapper.buildAddress(
@@ -95,6 +108,7 @@ export class BookingMapper {
           ? Number(entity.recommendedHours)
           : undefined,
       durationManuallyAdjusted: entity.durationManuallyAdjusted ?? undefined,
+      addons: parseAddonLines(entity.addons),
       startAt: entity.startAt.toISOString(),
       endAt: entity.endAt.toISOString(),
       frequency: BookingMapper.toDomainFrequency(entity.frequency),
@@ -104,14 +118,17 @@ export class BookingMapper {
       preferredTeamId: entity.preferredTeamId ?? undefined,
       assignedTeamId: entity.assignedTeamId ?? undefined,
       providerIds: entity.assignments.map((assignment) => assignment.providerId),
-      attachments: (entity.attachments ?? []).map((attachment) => ({
-        id: attachment.id,
-        type: attachment.type.toLowerCase() as BookingRequest['attachments'][number]['type'],
-        url: attachment.url,
-        uploadedAt: attachment.createdAt.toISOString(),
-        name: attachment.name ?? undefined,
-        metadata: typeof attachment.metadata === 'object' && attachment.metadata !== null ? (attachment.metadata as Record<string, unknown>) : undefined,
-      })),
+      // Mission evidence has its own endpoint with its own visibility rules.
+      attachments: (entity.attachments ?? [])
+        .filter((attachment) => !BookingMapper.isEvidenceDocument(attachment))
+        .map((attachment) => ({
+          id: attachment.id,
+          type: attachment.type.toLowerCase() as BookingRequest['attachments'][number]['type'],
+          url: attachment.url,
+          uploadedAt: attachment.createdAt.toISOString(),
+          name: attachment.name ?? undefined,
+          metadata: typeof attachment.metadata === 'object' && attachment.metadata !== null ? (attachment.metadata as Record<string, unknown>) : undefined,
+        })),
       notes: entity.notes ?? undefined,
       opsNotes: entity.opsNotes ?? undefined,
       providerNotes: entity.providerNotes ?? undefined,
@@ -124,8 +141,11 @@ export class BookingMapper {
         loyaltyCreditsCents: entity.pricingLoyaltyCents ?? 0,
         extrasCents: entity.pricingExtrasCents,
         taxCents: entity.pricingTaxCents,
+        taxRule: (entity.taxRule as TaxRuleCode | null) ?? null,
+        taxRateBps: entity.taxRateBps ?? null,
         currency: entity.pricingCurrency as 'EUR',
         totalCents: entity.pricingTotalCents,
+        breakdown: BookingMapper.buildPricingBreakdown(entity.pricingBreakdown),
       },
       auditLog: entity.auditLog.map((entry) => ({
         timestamp: entry.createdAt.toISOString(),
@@ -133,6 +153,7 @@ export class BookingMapper {
         action: BookingMapper.toDomainAuditAction(entry.action),
         metadata: BookingMapper.normalizeMetadata(entry.metadata),
       })),
+      timeTracking: BookingMapper.buildTimeTracking(entity),
       matchingRetryCount: entity.matchingRetryCount ?? 0,
       fallbackRequestedAt: entity.fallbackRequestedAt ? entity.fallbackRequestedAt.toISOString() : null,
       fallbackEscalatedAt: entity.fallbackEscalatedAt ? entity.fallbackEscalatedAt.toISOString() : null,
@@ -147,11 +168,48 @@ export class BookingMapper {
       leadTimeDays: entity.leadTimeDays ?? undefined,
       shortNotice: entity.shortNotice ?? undefined,
       shortNoticeDepositCents: entity.shortNoticeDepositCents ?? undefined,
+      cancelledAt: entity.cancelledAt ? entity.cancelledAt.toISOString() : null,
+      cancellationFeeCents: entity.cancellationFeeCents ?? null,
+      cancellationInitiator: (entity.cancellationInitiator as CancellationInitiator | null) ?? null,
       couponCode: entity.couponCode ?? undefined,
       servicePreferences: BookingMapper.buildServicePreferences(entity),
+      seriesId: entity.seriesId ?? null,
+      seriesIndex: entity.seriesIndex ?? null,
     };
   }
 
+  static buildTimeTracking(entity: BookingWithRelations): BookingTimeEntry[] {
+    const plannedMinutes = computePlannedMinutes({
+      durationHours: entity.durationHours !== null ? Number(entity.durationHours) : null,
+      startAt: entity.startAt,
+      endAt: entity.endAt,
+    });
+    return entity.assignments
+      .filter((assignment) => assignment.checkInAt)
+      .map((assignment) => ({
+        assignmentId: assignment.id,
+        providerId: assignment.providerId,
+        checkInAt: assignment.checkInAt?.toISOString() ?? null,
+        checkOutAt: assignment.checkOutAt?.toISOString() ?? null,
+        checkInDistanceMeters: assignment.checkInDistanceMeters ?? null,
+        checkOutDistanceMeters: assignment.checkOutDistanceMeters ?? null,
+        withinTolerance:
+          isWithinCheckInTolerance(assignment.checkInDistanceMeters) &&
+          isWithinCheckInTolerance(assignment.checkOutDistanceMeters),
+        plannedMinutes,
+        workedMinutes: assignment.workedMinutes ?? null,
+        overtime: assignment.overtimeStatus
+          ? {
+              minutes: assignment.overtimeMinutes ?? 0,
+              amountCents: assignment.overtimeAmountCents ?? 0,
+              status: assignment.overtimeStatus.toLowerCase() as BookingOvertimeStatus,
+              respondedAt: assignment.overtimeRespondedAt?.toISOString() ?? null,
+              paidAt: assignment.overtimePaidAt?.toISOString() ?? null,
+            }
+          : null,
+      }));
+  }
+
   private static buildAddress(
     streetLine1?: string | null,
     streetLine2?: string | null,
@@ -256,7 +314,18 @@ export class BookingMapper {
     };
   }
 
-  private static toDomainSoilLevel(level?: PrismaSoilLevel | null): CleaningSoilLevel | undefined {
+  private static buildPricingBreakdown(value: PrismaBooking['pricingBreakdown']): PricingBreakdown | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return null;
+    }
+    const raw = value as { baseSubtotalCents?: unknown; adjustments?: unknown };
+    return {
+      baseSubtotalCents: Number(raw.baseSubtotalCents) || 0,
+      adjustments: Array.isArray(raw.adjustments) ? (raw.adjustments as unknown as PricingAdjustment[]) : [],
+    };
+  }
+
+  static toDomainSoilLevel(level?: PrismaSoilLevel | null): CleaningSoilLevel | undefined {
     switch (level) {
       case PrismaSoilLevel.LIGHT:
         return 'light';
@@ -401,6 +470,10 @@ export class BookingMapper {
       'customer_notified',
       'invoice_generated',
       'payment_captured',
+      'provider_checked_in',
+      'provider_checked_out',
+      'overtime_approved',
+      'overtime_declined',
     ];
 
     if (allowed.includes(action as BookingAuditEntry['action'])) {
@@ -410,6 +483,11 @@ export class BookingMapper {
     return 'updated';
   }
 
+  static isEvidenceDocument(document: Pick<Document, 'metadata'>) {
+    const metadata = BookingMapper.normalizeMetadata(document.metadata);
+    return metadata?.evidence === 'before' || metadata?.evidence === 'after';
+  }
+
   static normalizeMetadata(metadata: unknown): Record<string, unknown> | undefined {
     if (!metadata) {
       return undefined;
@@ -6,10 +6,14 @@ import {
   ConfirmBookingLocksDto,
   CreateBookingDto,
   CreateBookingLockDto,
+  EndBookingSeriesDto,
   ListBookingsQueryDto,
   ProviderSearchDto,
   ReleaseBookingLocksDto,
+  RespondOvertimeDto,
+  SkipBookingOccurrenceDto,
   UpdateBookingDto,
+  UpdateBookingSeriesDto,
 } from './dto';
 import { AccessTokenGuard } from '../auth/guards/access-token.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
@@ -17,13 +21,15 @@ import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import type { User } from '@saubio/models';
 import { BookingLocksService } from './booking-locks.service';
+import { BookingSeriesService } from './booking-series.service';
 
 @Controller('bookings')
 @UseGuards(AccessTokenGuard, RolesGuard)
 export class BookingsController {
   constructor(
     private readonly bookingsService: BookingsService,
-    private readonly bookingLocksService: BookingLocksService
+    private readonly bookingLocksService: BookingLocksService,
+    private readonly bookingSeriesService: BookingSeriesService
   ) {}
 
   @Get()
@@ -38,12 +44,34 @@ export class BookingsController {
     return this.bookingsService.listProviderSuggestions(filters, user);
   }
 
+  @Get('series/:seriesId')
+  @Roles('client', 'company', 'employee', 'admin')
+  findSeries(@Param('seriesId') seriesId: string, @CurrentUser() user: User) {
+    return this.bookingSeriesService.getSeries(seriesId, user);
+  }
+
+  @Post('series/:seriesId/end')
+  @Roles('client', 'company', 'employee', 'admin')
+  endSeries(
+    @Param('seriesId') seriesId: string,
+    @Body() payload: EndBookingSeriesDto | undefined,
+    @CurrentUser() user: User
+  ) {
+    return this.bookingSeriesService.endSeries(seriesId, user, payload);
+  }
+
   @Get(':id')
   @Roles('client', 'company', 'provider', 'employee', 'admin')
   findOne(@Param('id') id: string, @CurrentUser() user: User) {
     return this.bookingsService.findOne(id, user);
   }
 
+  @Get(':id/evidence')
+  @Roles('client', 'company', 'provider', 'employee', 'admin')
+  getEvidence(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.bookingsService.getEvidence(id, user);
+  }
+
   @Post()
   @Roles('client', 'company', 'employee', 'admin')
   create(@Body() payload: CreateBookingDto, @CurrentUser() user: User) {
@@ -66,6 +94,12 @@ export class BookingsController {
     return this.bookingsService.update(id, payload, user);
   }
 
+  @Get(':id/cancellation-preview')
+  @Roles('client', 'company', 'employee', 'admin')
+  cancellationPreview(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.bookingsService.getCancellationPreview(id, user);
+  }
+
   @Post(':id/cancel')
   @Roles('client', 'company', 'employee', 'admin')
   cancel(
@@ -76,6 +110,37 @@ export class BookingsController {
     return this.bookingsService.cancel(id, user, payload);
   }
 
+  @Post(':id/overtime/:assignmentId')
+  @Roles('client', 'company', 'employee', 'admin')
+  respondToOvertime(
+    @Param('id') id: string,
+    @Param('assignmentId') assignmentId: string,
+    @Body() payload: RespondOvertimeDto,
+    @CurrentUser() user: User
+  ) {
+    return this.bookingsService.respondToOvertime(id, assignmentId, payload.approved, user);
+  }
+
+  @Post(':id/series/skip')
+  @Roles('client', 'company', 'employee', 'admin')
+  skipOccurrence(
+    @Param('id') id: string,
+    @Body() payload: SkipBookingOccurrenceDto | undefined,
+    @CurrentUser() user: User
+  ) {
+    return this.bookingSeriesService.skipOccurrence(id, user, payload);
+  }
+
+  @Patch(':id/series')
+  @Roles('client', 'company', 'employee', 'admin')
+  updateSeries(
+    @Param('id') id: string,
+    @Body() payload: UpdateBookingSeriesDto,
+    @CurrentUser() user: User
+  ) {
+    return this.bookingSeriesService.updateFromOccurrence(id, payload, user);
+  }
+
   @Post(':id/fallback/assign')
   @Roles('employee', 'admin')
   assignFallbackTeam(@Param('id') id: string, @CurrentUser() user: User) {
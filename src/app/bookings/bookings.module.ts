@@ -8,21 +8,45 @@ import { BookingNotificationsService } from './booking-notifications.service';
 import { PaymentsModule } from '../payments/payments.module';
 import { MatchingController } from './matching.controller';
 import { BookingDraftsController } from './booking-drafts.controller';
+import { PartnerBookingsController } from './partner-bookings.controller';
 import { BookingLocksService } from './booking-locks.service';
+import { BookingSeriesService } from './booking-series.service';
 import { TeamPlanningService } from './team-planning.service';
+import { BookingEvidenceService } from './booking-evidence.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
 import { PricingModule } from '../pricing/pricing.module';
 import { MarketingModule } from '../marketing/marketing.module';
+import { CompaniesModule } from '../companies/companies.module';
+import { TaxModule } from '../tax/tax.module';
 
 @Module({
-  imports: [AuthModule, NotificationsModule, forwardRef(() => PaymentsModule), PricingModule, MarketingModule],
-  controllers: [BookingsController, MatchingController, BookingDraftsController],
+  imports: [
+    AuthModule,
+    NotificationsModule,
+    forwardRef(() => PaymentsModule),
+    PricingModule,
+    MarketingModule,
+    CompaniesModule,
+    TaxModule,
+  ],
+  controllers: [BookingsController, MatchingController, BookingDraftsController, PartnerBookingsController],
   providers: [
     BookingsService,
     BookingMatchingService,
     BookingNotificationsService,
     BookingLocksService,
+    BookingSeriesService,
+    TeamPlanningService,
+    BookingEvidenceService,
+    CancellationPolicyService,
+  ],
+  exports: [
+    BookingNotificationsService,
     TeamPlanningService,
+    BookingsService,
+    BookingMatchingService,
+    BookingEvidenceService,
+    CancellationPolicyService,
   ],
-  exports: [BookingNotificationsService, TeamPlanningService, BookingsService, BookingMatchingService],
 })
 export class BookingsModule {}
@@ -10,10 +10,15 @@ import {
 } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
 import {
+  BookingEvidence,
   BookingMode,
+  BookingOvertimeResponse,
+  CancellationInitiator,
+  CancellationPreview,
   BookingRequest,
   BookingStatus,
   CleaningFrequency,
+  CleaningSoilLevel,
   EcoPreference,
   ProviderSuggestion,
   ServiceCategory,
@@ -26,7 +31,9 @@ import {
   BookingTeamLockStatus,
   BookingInvitationStatus,
   DocumentType,
+  NotificationAutomationEvent,
   NotificationType,
+  OvertimeRequestStatus,
   Prisma,
   BookingStatus as PrismaBookingStatus,
   BookingMode as PrismaBookingMode,
@@ -45,10 +52,24 @@ import {
 import { BookingMatchingService, BookingMatchingCriteria } from './booking-matching.service';
 import { BookingMapper, type BookingWithRelations } from './booking.mapper';
 import { BookingNotificationsService } from './booking-notifications.service';
-import { PaymentsService } from '../payments/payments.service';
+import { BookingEvidenceService } from './booking-evidence.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { PaymentsService, pendingCancellationSettlement } from '../payments/payments.service';
 import { NotificationsService } from '../notifications/notifications.service';
 import { PricingService } from '../pricing/pricing.service';
+import {
+  parseAddonLines,
+  withAddonEnd,
+  withAddonHours,
+  withoutAddonEnd,
+  withoutAddonHours,
+} from '../pricing/service-addons';
+import { computeTaxCents, DEFAULT_VAT_RATE_BPS } from '../tax/tax-rules';
+import { TaxService } from '../tax/tax.service';
 import { PromoCodeService, type PromoCodeEvaluation } from '../marketing/promo-code.service';
+import { ReferralService } from '../marketing/referral.service';
+import { CompaniesService } from '../companies/companies.service';
+import { resolveGeoPoint } from '../geocoding/postal-code-centroids';
 
 type BookingCreationResponse = BookingRequest & {
   paymentIntentClientSecret?: string;
@@ -80,6 +101,7 @@ export class BookingsService {
   private readonly logger = new Logger(BookingsService.name);
   private static readonly MAX_MATCHING_RETRY_ATTEMPTS = 3;
   private static readonly SHORT_NOTICE_WINDOW_DAYS = 2;
+  private static readonly SERIES_FREQUENCIES: CleaningFrequency[] = ['weekly', 'biweekly', 'monthly'];
 
   constructor(
     private readonly prisma: PrismaService,
@@ -89,7 +111,12 @@ export class BookingsService {
     private readonly payments: PaymentsService,
     private readonly notifications: NotificationsService,
     private readonly pricingEngine: PricingService,
-    private readonly promoCodes: PromoCodeService
+    private readonly promoCodes: PromoCodeService,
+    private readonly companies: CompaniesService,
+    private readonly referrals: ReferralService,
+    private readonly bookingEvidence: BookingEvidenceService,
+    private readonly cancellationPolicies: CancellationPolicyService,
+    private readonly tax: TaxService
   ) {}
 
   @Cron('*/5 * * * *')
@@ -344,6 +371,45 @@ export class BookingsService {
     return BookingMapper.toDomain(booking);
   }
 
+  async getEvidence(id: string, user: User): Promise<BookingEvidence> {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id },
+      include: { assignments: true },
+    });
+
+    if (!booking) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+
+    await this.assertBookingAccess(user, booking);
+    this.bookingEvidence.assertVisibleTo(user, booking);
+
+    return this.bookingEvidence.buildEvidence(id);
+  }
+
+  /** The fee the caller would be charged for cancelling now, so it can be shown before confirming. */
+  async getCancellationPreview(id: string, user: User): Promise<CancellationPreview> {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id },
+      include: { assignments: true },
+    });
+
+    if (!booking) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+
+    await this.assertBookingAccess(user, booking);
+    if (!(await this.canCancelBooking(user, booking, false))) {
+      throw new ForbiddenException('BOOKING_FORBIDDEN');
+    }
+    this.assertCancellable(user, booking);
+
+    const quote = await this.cancellationPolicies.quote(booking, {
+      initiator: this.resolveCancellationInitiator(user, booking, false),
+    });
+    return quote.preview;
+  }
+
   async listProviderSuggestions(filters: ProviderSearchDto, user: User): Promise<ProviderSuggestion[]> {
     if (!this.isClient(user) && !this.isCompany(user) && !this.isElevated(user)) {
       throw new ForbiddenException('BOOKING_FORBIDDEN');
@@ -360,6 +426,7 @@ export class BookingsService {
       startAt: filters.startAt,
       endAt: filters.endAt,
       city: filters.city,
+      postalCode: filters.postalCode,
       clientId: this.isClient(user) || this.isCompany(user) ? user.id : undefined,
       requiredProviders: 1,
     });
@@ -462,16 +529,26 @@ export class BookingsService {
   }
 
   async create(payload: CreateBookingDto, user: User): Promise<BookingCreationResponse> {
+    this.assertEmailVerified(user);
     const clientId = this.resolveClientId(payload.clientId, user);
-    return this.createBookingRecord(payload, {
-      actorUser: user,
-      clientId,
-    });
+    let costCentre: string | null = null;
+    if (payload.companyId) {
+      await this.companies.assertPermission(payload.companyId, user, 'bookings.create');
+      costCentre = await this.companies.resolveCostCentre(payload.companyId, payload.costCentre);
+    }
+    return this.createBookingRecord(
+      { ...payload, costCentre: costCentre ?? undefined },
+      {
+        actorUser: user,
+        clientId,
+      }
+    );
   }
 
   async createGuestDraft(payload: CreateGuestBookingDto): Promise<BookingCreationResponse> {
     const { guestToken, ...bookingPayload } = payload;
-    return this.createBookingRecord(bookingPayload as CreateBookingDto, {
+    // Company bookings need an authenticated member; guests can never book on a company account.
+    return this.createBookingRecord({ ...bookingPayload, companyId: undefined, costCentre: undefined } as CreateBookingDto, {
       actorUser: null,
       clientId: null,
       guestToken,
@@ -479,6 +556,7 @@ export class BookingsService {
   }
 
   async claimGuestBooking(id: string, guestToken: string, user: User): Promise<BookingRequest> {
+    this.assertEmailVerified(user);
     const booking = await this.prisma.booking.findUnique({
       where: { id },
       include: {
@@ -540,18 +618,45 @@ export class BookingsService {
       recommendedHours: payload.recommendedHours,
     });
 
-    const pricing = await this.calculatePricing({
+    const leadTimeDays = this.calculateLeadTimeDays(payload.startAt);
+    const autoShortNotice = payload.frequency === 'last_minute';
+    const isShortNotice =
+      (payload.shortNotice ?? autoShortNotice) || leadTimeDays <= BookingsService.SHORT_NOTICE_WINDOW_DAYS;
+
+    const pricingInput = {
       surfacesSquareMeters: pricingSurface,
       ecoPreference: payload.ecoPreference,
       clientId: clientId ?? undefined,
-    });
-
+      service: payload.service,
+      addons: payload.addons,
+      countryCode: payload.address.countryCode,
+      companyId: payload.companyId,
+      providerIds: payload.providerIds,
+      startAt: payload.startAt,
+      postalCode: payload.address.postalCode,
+      soilLevel: payload.servicePreferences?.soilLevel,
+      shortNotice: isShortNotice,
+    };
+    let pricing = await this.calculatePricing(pricingInput);
+    // The requested end covers the cleaning itself; the booked slot also covers the add-on work.
+    const bookedEndAt = withAddonEnd(new Date(payload.endAt), pricing.addons);
+
+    const addressPoint = resolveGeoPoint(
+      payload.address.latitude,
+      payload.address.longitude,
+      payload.address.postalCode,
+      payload.address.countryCode
+    );
     const matchingCriteria = this.buildMatchingCriteria({
       service: payload.service,
       ecoPreference: payload.ecoPreference,
       startAt: payload.startAt,
-      endAt: payload.endAt,
+      endAt: bookedEndAt,
       city: payload.address.city,
+      postalCode: payload.address.postalCode,
+      countryCode: payload.address.countryCode,
+      latitude: addressPoint?.latitude,
+      longitude: addressPoint?.longitude,
       clientId: clientId ?? undefined,
       priceCeilingCents: pricing.subtotalCents,
       requiredProviders: payload.requiredProviders ?? 1,
@@ -561,7 +666,7 @@ export class BookingsService {
       city: payload.address.city,
       postalCode: payload.address.postalCode,
       startAt: payload.startAt,
-      endAt: payload.endAt,
+      endAt: bookedEndAt.toISOString(),
       ecoPreference: payload.ecoPreference,
     });
 
@@ -573,10 +678,6 @@ export class BookingsService {
       });
     }
 
-    const leadTimeDays = this.calculateLeadTimeDays(payload.startAt);
-    const autoShortNotice = payload.frequency === 'last_minute';
-    const isShortNotice =
-      (payload.shortNotice ?? autoShortNotice) || leadTimeDays <= BookingsService.SHORT_NOTICE_WINDOW_DAYS;
     const normalizedMode: BookingMode = isShortNotice ? 'smart_match' : payload.mode;
     const allowImmediateShortNoticeDispatch = actorUser ? this.isElevated(actorUser) : false;
     const assignmentInput: CreateBookingDto = {
@@ -588,6 +689,11 @@ export class BookingsService {
       ? { providerIds: [], requiredProviders: assignmentInput.requiredProviders ?? 1 }
       : await this.buildAssignmentPlan(assignmentInput, matchingCriteria);
     const normalizedProviderIds = assignmentPlan.providerIds;
+    // Matching may pick other providers than requested and the VAT depends on them (§19 UStG), so the quote is
+    // resolved again before the booking and its payment are created from it.
+    if (!this.hasSameProviders(normalizedProviderIds, payload.providerIds ?? [])) {
+      pricing = await this.calculatePricing({ ...pricingInput, providerIds: normalizedProviderIds });
+    }
     const initialStatus: BookingStatus =
       isShortNotice && !allowImmediateShortNoticeDispatch
         ? 'draft'
@@ -626,19 +732,37 @@ export class BookingsService {
       } startAt=${payload.startAt}`
     );
 
+    const startsSeries = Boolean(clientId) && BookingsService.SERIES_FREQUENCIES.includes(normalizedFrequency);
+
     const booking = (await this.prisma.$transaction(async (tx) => {
+      const series = startsSeries
+        ? await tx.bookingSeries.create({
+            data: {
+              client: { connect: { id: clientId! } },
+              frequency: BookingMapper.toPrismaFrequency(normalizedFrequency),
+              anchorStartAt: new Date(payload.startAt),
+              anchorIndex: 0,
+              durationMinutes: Math.round((bookedEndAt.getTime() - Date.parse(payload.startAt)) / 60_000),
+            },
+          })
+        : null;
+
       const created = await tx.booking.create({
         data: {
           client: clientId ? { connect: { id: clientId } } : undefined,
+          series: series ? { connect: { id: series.id } } : undefined,
+          seriesIndex: series ? 0 : undefined,
           guestToken: options.guestToken ?? null,
           company: payload.companyId ? { connect: { id: payload.companyId } } : undefined,
+          costCentre: payload.companyId ? payload.costCentre ?? null : null,
           service: payload.service,
           surfacesSquareMeters: payload.surfacesSquareMeters ?? null,
-          durationHours: payload.durationHours ?? null,
-          recommendedHours: payload.recommendedHours ?? null,
+          durationHours: withAddonHours(payload.durationHours, pricing.addons),
+          recommendedHours: withAddonHours(payload.recommendedHours, pricing.addons),
+          addons: pricing.addons.length ? (pricing.addons as unknown as Prisma.InputJsonArray) : undefined,
           durationManuallyAdjusted: payload.durationManuallyAdjusted ?? false,
           startAt: new Date(payload.startAt),
-          endAt: new Date(payload.endAt),
+          endAt: bookedEndAt,
           frequency: BookingMapper.toPrismaFrequency(normalizedFrequency),
           mode: BookingMapper.toPrismaMode(normalizedMode),
           ecoPreference: BookingMapper.toPrismaEcoPreference(payload.ecoPreference),
@@ -648,6 +772,9 @@ export class BookingsService {
           addressCity: payload.address.city,
           addressCountryCode: payload.address.countryCode,
           addressAccessNotes: payload.address.accessNotes,
+          addressLatitude: addressPoint?.latitude ?? null,
+          addressLongitude: addressPoint?.longitude ?? null,
+          addressPointSource: addressPoint?.source ?? null,
           billingStreetLine1: billingAddress?.streetLine1,
           billingStreetLine2: billingAddress?.streetLine2,
           billingPostalCode: billingAddress?.postalCode,
@@ -673,6 +800,9 @@ export class BookingsService {
           pricingLoyaltyCents: pricing.loyaltyCreditsCents,
           pricingExtrasCents: pricing.extrasCents,
           pricingTaxCents: pricing.taxCents,
+          taxRule: pricing.taxRule,
+          taxRateBps: pricing.taxRateBps,
+          pricingBreakdown: pricing.breakdown as unknown as Prisma.InputJsonObject,
           pricingCurrency: pricing.currency,
           pricingTotalCents: pricing.totalCents,
           notes: payload.notes,
@@ -743,6 +873,8 @@ export class BookingsService {
       return created;
     })) as BookingWithRelations;
 
+    await this.referrals.attributeFirstBooking(booking);
+
     let paymentSecrets:
       | {
           paymentIntentClientSecret?: string | null;
@@ -823,6 +955,15 @@ export class BookingsService {
       );
     }
 
+    await this.bookingNotifications.triggerBookingAutomation(NotificationAutomationEvent.BOOKING_CREATED, booking.id);
+    if (normalizedMode === 'smart_match' && !isShortNotice) {
+      await this.bookingNotifications.triggerBookingAutomation(
+        NotificationAutomationEvent.SMART_MATCH_TRIGGERED,
+        booking.id,
+        { smartMatch: { source: 'booking_created', providerCount: normalizedProviderIds.length } }
+      );
+    }
+
     if (isShortNotice && allowImmediateShortNoticeDispatch) {
       await this.handleShortNoticeWorkflow({
         booking: bookingWithRelations,
@@ -875,8 +1016,10 @@ export class BookingsService {
 
       await this.assertBookingAccess(user, existing, { allowProvider: false });
 
+      const currentAddons = parseAddonLines(existing.addons);
       const nextStartAtIso = payload.startAt ?? existing.startAt.toISOString();
-      const nextEndAtIso = payload.endAt ?? existing.endAt.toISOString();
+      // Stored end and hours include the add-ons; keep the base so they are not counted twice.
+      const nextEndAtIso = payload.endAt ?? withoutAddonEnd(existing.endAt, currentAddons).toISOString();
       const chronologyError = this.validateChronology(nextStartAtIso, nextEndAtIso);
       if (chronologyError) {
         throw new BadRequestException(chronologyError);
@@ -890,11 +1033,11 @@ export class BookingsService {
           : undefined;
       const currentDurationHours =
         existing.durationHours !== null && existing.durationHours !== undefined
-          ? Number(existing.durationHours)
+          ? withoutAddonHours(Number(existing.durationHours), currentAddons) ?? undefined
           : undefined;
       const currentRecommendedHours =
         existing.recommendedHours !== null && existing.recommendedHours !== undefined
-          ? Number(existing.recommendedHours)
+          ? withoutAddonHours(Number(existing.recommendedHours), currentAddons) ?? undefined
           : undefined;
       const nextSurfaces =
         payload.surfacesSquareMeters !== undefined ? payload.surfacesSquareMeters : currentSurfaces;
@@ -902,11 +1045,28 @@ export class BookingsService {
         payload.durationHours !== undefined ? payload.durationHours : currentDurationHours;
       const nextRecommendedHours =
         payload.recommendedHours !== undefined ? payload.recommendedHours : currentRecommendedHours;
+      const nextAddons = payload.addons ?? currentAddons.map((addon) => addon.id);
+      // Lead time counts from when the booking was made, not from when it is rescheduled.
+      const nextLeadTimeDays =
+        payload.startAt !== undefined
+          ? this.calculateLeadTimeDays(payload.startAt, existing.createdAt)
+          : existing.leadTimeDays;
+      const nextShortNotice =
+        payload.startAt !== undefined
+          ? nextLeadTimeDays !== null && nextLeadTimeDays <= BookingsService.SHORT_NOTICE_WINDOW_DAYS
+          : existing.shortNotice;
       const shouldReprice =
         payload.surfacesSquareMeters !== undefined ||
         payload.ecoPreference !== undefined ||
         payload.durationHours !== undefined ||
-        payload.recommendedHours !== undefined;
+        payload.recommendedHours !== undefined ||
+        payload.addons !== undefined ||
+        payload.startAt !== undefined ||
+        payload.address?.postalCode !== undefined ||
+        payload.servicePreferences?.soilLevel !== undefined ||
+        payload.address?.countryCode !== undefined ||
+        (this.isElevated(user) && (payload.companyId !== undefined || payload.providerIds !== undefined)) ||
+        (payload.service !== undefined && nextAddons.length > 0);
       const pricing = shouldReprice
         ? await this.calculatePricing({
             surfacesSquareMeters: this.resolveSurfaceForPricing({
@@ -916,15 +1076,48 @@ export class BookingsService {
             }),
             ecoPreference: nextEcoPreference,
             clientId: existing.clientId,
+            service: payload.service ?? BookingMapper.toDomainService(existing.service),
+            addons: nextAddons,
+            countryCode: payload.address?.countryCode ?? existing.addressCountryCode,
+            companyId: (this.isElevated(user) ? payload.companyId : undefined) ?? existing.companyId,
+            providerIds:
+              (this.isElevated(user) ? payload.providerIds : undefined) ??
+              existing.assignments.map((assignment) => assignment.providerId),
+            startAt: nextStartAtIso,
+            postalCode: payload.address?.postalCode ?? existing.addressPostalCode,
+            soilLevel:
+              payload.servicePreferences !== undefined
+                ? payload.servicePreferences?.soilLevel
+                : BookingMapper.toDomainSoilLevel(existing.soilLevel),
+            shortNotice: nextShortNotice,
+            now: existing.createdAt,
           })
         : null;
-
+      const bookedEndAt = withAddonEnd(new Date(nextEndAtIso), pricing?.addons ?? currentAddons);
+
+      const nextAddressPoint = payload.address
+        ? resolveGeoPoint(
+            payload.address.latitude,
+            payload.address.longitude,
+            payload.address.postalCode ?? existing.addressPostalCode,
+            payload.address.countryCode ?? existing.addressCountryCode
+          )
+        : resolveGeoPoint(
+            existing.addressLatitude,
+            existing.addressLongitude,
+            existing.addressPostalCode,
+            existing.addressCountryCode
+          );
       const matchingCriteria = this.buildMatchingCriteria({
         service: payload.service ?? BookingMapper.toDomainService(existing.service),
         ecoPreference: nextEcoPreference,
         startAt: nextStartAtIso,
-        endAt: nextEndAtIso,
+        endAt: bookedEndAt,
         city: payload.address?.city ?? existing.addressCity,
+        postalCode: payload.address?.postalCode ?? existing.addressPostalCode,
+        countryCode: payload.address?.countryCode ?? existing.addressCountryCode,
+        latitude: nextAddressPoint?.latitude,
+        longitude: nextAddressPoint?.longitude,
         excludeBookingId: existing.id,
         clientId: existing.clientId,
         priceCeilingCents: pricing?.subtotalCents ?? existing.pricingSubtotalCents,
@@ -1053,12 +1246,21 @@ export class BookingsService {
               : undefined,
           service: payload.service ?? undefined,
           surfacesSquareMeters: payload.surfacesSquareMeters ?? undefined,
-          durationHours: payload.durationHours ?? undefined,
-          recommendedHours: payload.recommendedHours ?? undefined,
+          durationHours: pricing
+            ? withAddonHours(nextDurationHours, pricing.addons) ?? undefined
+            : payload.durationHours ?? undefined,
+          recommendedHours: pricing
+            ? withAddonHours(nextRecommendedHours, pricing.addons) ?? undefined
+            : payload.recommendedHours ?? undefined,
+          addons: pricing
+            ? pricing.addons.length
+              ? (pricing.addons as unknown as Prisma.InputJsonArray)
+              : Prisma.DbNull
+            : undefined,
           durationManuallyAdjusted:
             payload.durationManuallyAdjusted !== undefined ? payload.durationManuallyAdjusted : undefined,
           startAt: payload.startAt ? new Date(payload.startAt) : undefined,
-          endAt: payload.endAt ? new Date(payload.endAt) : undefined,
+          endAt: payload.endAt || pricing ? bookedEndAt : undefined,
           frequency: normalizedFrequencyUpdate
             ? BookingMapper.toPrismaFrequency(normalizedFrequencyUpdate)
             : undefined,
@@ -1070,6 +1272,9 @@ export class BookingsService {
           addressCity: payload.address?.city,
           addressCountryCode: payload.address?.countryCode,
           addressAccessNotes: payload.address?.accessNotes,
+          addressLatitude: payload.address ? nextAddressPoint?.latitude ?? null : undefined,
+          addressLongitude: payload.address ? nextAddressPoint?.longitude ?? null : undefined,
+          addressPointSource: payload.address ? nextAddressPoint?.source ?? null : undefined,
           billingStreetLine1: billingAddressUpdate ? billingAddressUpdate.streetLine1 : undefined,
           billingStreetLine2: billingAddressUpdate ? billingAddressUpdate.streetLine2 : undefined,
           billingPostalCode: billingAddressUpdate ? billingAddressUpdate.postalCode : undefined,
@@ -1112,11 +1317,16 @@ export class BookingsService {
           additionalInstructions:
             servicePreferencesUpdate !== undefined ? additionalInstructionsUpdate ?? null : undefined,
           status: sanitizedStatus ? BookingMapper.toPrismaStatus(sanitizedStatus) : undefined,
+          shortNotice: payload.startAt !== undefined ? nextShortNotice : undefined,
+          leadTimeDays: payload.startAt !== undefined ? nextLeadTimeDays : undefined,
           pricingSubtotalCents: pricing ? pricing.subtotalCents : undefined,
           pricingEcoCents: pricing ? pricing.ecoSurchargeCents : undefined,
           pricingLoyaltyCents: pricing ? pricing.loyaltyCreditsCents : undefined,
           pricingExtrasCents: pricing ? pricing.extrasCents : undefined,
           pricingTaxCents: pricing ? pricing.taxCents : undefined,
+          taxRule: pricing ? pricing.taxRule : undefined,
+          taxRateBps: pricing ? pricing.taxRateBps : undefined,
+          pricingBreakdown: pricing ? (pricing.breakdown as unknown as Prisma.InputJsonObject) : undefined,
           pricingCurrency: pricing ? pricing.currency : undefined,
           pricingTotalCents: pricing ? pricing.totalCents : undefined,
           notes: payload.notes,
@@ -1205,6 +1415,7 @@ export class BookingsService {
     const bookingWithRelations = updated;
 
     if (statusChangedTo) {
+      await this.bookingNotifications.triggerStatusAutomation(id, statusChangedTo);
       await this.bookingNotifications.notifyParticipants({
         booking: bookingWithRelations,
         type:
@@ -1300,6 +1511,8 @@ export class BookingsService {
       return BookingMapper.toDomain(existing);
     }
 
+    this.assertCancellable(user, existing);
+
     const reason =
       payload?.reason ??
       (this.isElevated(user)
@@ -1308,10 +1521,27 @@ export class BookingsService {
         ? 'company_cancelled'
         : 'client_cancelled');
 
+    const initiator = this.resolveCancellationInitiator(user, existing, options.allowProvider ?? false);
+    const quote = await this.cancellationPolicies.quote(existing, {
+      initiator,
+      providerId: initiator === 'provider' ? (await this.getProviderProfileId(user.id)) ?? undefined : undefined,
+      waiveFee: this.isElevated(user) && payload?.waiveFee === true,
+    });
+    const feeCents = initiator === 'provider' ? 0 : quote.preview.feeCents;
+
     const updated = await this.prisma.booking.update({
       where: { id },
       data: {
         status: BookingMapper.toPrismaStatus('cancelled'),
+        cancelledAt: new Date(),
+        cancellationFeeCents: feeCents,
+        cancellationInitiator: initiator,
+        ...pendingCancellationSettlement({
+          feeCents,
+          providerLines: quote.providerLines,
+          reason,
+          requestedById: user.id,
+        }),
         auditLog: {
           create: {
             actor: { connect: { id: user.id } },
@@ -1320,6 +1550,9 @@ export class BookingsService {
               from: BookingMapper.toDomainStatus(existing.status),
               to: 'cancelled',
               reason,
+              initiator,
+              feeCents,
+              policyId: quote.preview.policyId,
             },
           },
         },
@@ -1334,6 +1567,8 @@ export class BookingsService {
 
     const bookingWithRelations = updated as BookingWithRelations;
 
+    await this.payments.settlePendingCancellation(id);
+
     await this.bookingNotifications.notifyParticipants({
       booking: bookingWithRelations,
       type: NotificationType.BOOKING_CANCELLATION,
@@ -1341,12 +1576,136 @@ export class BookingsService {
         event: this.isProvider(user) ? 'provider_cancelled' : 'cancelled',
         reason,
         actorId: user.id,
+        feeCents,
       },
     });
 
     return BookingMapper.toDomain(bookingWithRelations);
   }
 
+  /**
+   * Lets the client settle an overtime request raised at check-out. Approval adds it to the booking price and
+   * charges it as a separate payment; approving again retries a charge that was never paid.
+   */
+  async respondToOvertime(
+    id: string,
+    assignmentId: string,
+    approved: boolean,
+    user: User
+  ): Promise<BookingOvertimeResponse> {
+    const existing = await this.prisma.booking.findUnique({
+      where: { id },
+      include: { assignments: true },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+
+    await this.assertBookingAccess(user, existing, { allowProvider: false });
+
+    const assignment = existing.assignments.find((entry) => entry.id === assignmentId);
+    if (!assignment?.overtimeStatus) {
+      throw new NotFoundException('OVERTIME_NOT_FOUND');
+    }
+
+    const amountCents = assignment.overtimeAmountCents ?? 0;
+    const taxCents = approved ? computeTaxCents(amountCents, existing.taxRateBps ?? DEFAULT_VAT_RATE_BPS) : 0;
+    if (approved && assignment.overtimeStatus === OvertimeRequestStatus.APPROVED && !assignment.overtimePaidAt) {
+      const checkoutUrl = await this.chargeOvertime(id, assignment, amountCents, taxCents);
+      return { ...(await this.findOne(id, user)), checkoutUrl };
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Claiming the pending request guards against double charges when the client answers twice.
+      const claim = await tx.bookingAssignment.updateMany({
+        where: { id: assignmentId, overtimeStatus: OvertimeRequestStatus.PENDING },
+        data: {
+          overtimeStatus: approved ? OvertimeRequestStatus.APPROVED : OvertimeRequestStatus.DECLINED,
+          overtimeRespondedAt: new Date(),
+        },
+      });
+      if (!claim.count) {
+        throw new ConflictException('OVERTIME_ALREADY_ANSWERED');
+      }
+      return tx.booking.update({
+        where: { id },
+        data: {
+          ...(approved
+            ? {
+                pricingExtrasCents: { increment: amountCents },
+                pricingTaxCents: { increment: taxCents },
+                pricingTotalCents: { increment: amountCents + taxCents },
+              }
+            : {}),
+          auditLog: {
+            create: {
+              actor: { connect: { id: user.id } },
+              action: approved ? 'overtime_approved' : 'overtime_declined',
+              metadata: {
+                assignmentId,
+                providerId: assignment.providerId,
+                minutes: assignment.overtimeMinutes,
+                amountCents,
+                taxCents,
+              },
+            },
+          },
+        },
+        include: {
+          assignments: true,
+          auditLog: true,
+          attachments: true,
+          fallbackTeamCandidate: { include: { members: true } },
+        },
+      });
+    });
+
+    const checkoutUrl = approved ? await this.chargeOvertime(id, assignment, amountCents, taxCents) : null;
+
+    await this.bookingNotifications.notifyParticipants({
+      booking: updated as BookingWithRelations,
+      type: NotificationType.BOOKING_STATUS,
+      includeClient: false,
+      providerTargets: [assignment.providerId],
+      payload: {
+        event: approved ? 'overtime_approved' : 'overtime_declined',
+        assignmentId,
+        overtimeMinutes: assignment.overtimeMinutes,
+        actorId: user.id,
+      },
+    });
+
+    return { ...BookingMapper.toDomain(updated as BookingWithRelations), checkoutUrl };
+  }
+
+  /** A failed charge leaves the overtime approved but unpaid, so the client can retry it. */
+  private async chargeOvertime(
+    bookingId: string,
+    assignment: BookingAssignment,
+    netCents: number,
+    taxCents: number
+  ): Promise<string | null> {
+    try {
+      const charge = await this.payments.createOvertimePayment({
+        bookingId,
+        assignmentId: assignment.id,
+        providerId: assignment.providerId,
+        netCents,
+        taxCents,
+      });
+      return charge?.checkoutUrl ?? null;
+    } catch (error) {
+      this.logger.error(
+        `Overtime charge failed for booking ${bookingId} assignment ${assignment.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return null;
+    }
+  }
+
+  /** Charges the cancellation fee (or refunds in full) and books the providers' compensation or penalty. */
   async assignFallbackTeam(id: string, user: User): Promise<BookingRequest> {
     if (!this.isElevated(user)) {
       throw new ForbiddenException('BOOKING_FORBIDDEN');
@@ -1380,6 +1739,7 @@ export class BookingsService {
       throw new BadRequestException('FALLBACK_TEAM_EMPTY');
     }
 
+    let taxChanged = false;
     const updated = (await this.prisma.$transaction(async (tx) => {
       await tx.bookingAssignment.deleteMany({ where: { bookingId: booking.id } });
       await tx.bookingAssignment.createMany({
@@ -1389,6 +1749,7 @@ export class BookingsService {
           teamId: booking.fallbackTeamCandidateId,
         })),
       });
+      taxChanged = await this.refreshAssignedTax(tx, booking.id);
 
       return tx.booking.update({
         where: { id: booking.id },
@@ -1418,6 +1779,9 @@ export class BookingsService {
         },
       });
     })) as BookingWithRelations;
+    if (taxChanged) {
+      await this.payments.syncBookingPaymentAmount(booking.id);
+    }
 
     const contextKey = this.buildMatchingContextKey({
       service: BookingMapper.toDomainService(booking.service),
@@ -1558,6 +1922,13 @@ export class BookingsService {
     return Boolean(owns || member);
   }
 
+  /** Staff book on behalf of clients; everyone else must have confirmed their e-mail address first. */
+  private assertEmailVerified(user: User) {
+    if (!this.isElevated(user) && !user.emailVerifiedAt) {
+      throw new ForbiddenException('EMAIL_NOT_VERIFIED');
+    }
+  }
+
   private resolveClientId(requestedClientId: string | undefined, user: User): string {
     if (requestedClientId && (this.isElevated(user) || this.isCompany(user))) {
       return requestedClientId;
@@ -1571,14 +1942,18 @@ export class BookingsService {
     booking: PrismaBooking & { assignments: BookingAssignment[] },
     allowProvider: boolean
   ): Promise<boolean> {
-    const providerAssigned = (booking.assignments ?? []).length > 0;
-
     if (this.isElevated(user)) {
       return true;
     }
 
-    if (booking.clientId === user.id || (this.isCompany(user) && booking.companyId)) {
-      return !providerAssigned;
+    // Company bookings are cancelled on behalf of the company, so the member permission applies
+    // to the person who booked as well. Once providers are assigned the cancellation policy fee applies.
+    if (booking.companyId) {
+      if (await this.companies.hasPermission(booking.companyId, user, 'bookings.cancel')) {
+        return true;
+      }
+    } else if (booking.clientId === user.id) {
+      return true;
     }
 
     if (allowProvider && this.isProvider(user)) {
@@ -1594,6 +1969,30 @@ export class BookingsService {
     return false;
   }
 
+  /** Clients can no longer cancel once the mission has started; staff can still step in. */
+  private assertCancellable(user: User, booking: Pick<PrismaBooking, 'status'>) {
+    if (
+      !this.isElevated(user) &&
+      (booking.status === PrismaBookingStatus.IN_PROGRESS || booking.status === PrismaBookingStatus.COMPLETED)
+    ) {
+      throw new BadRequestException('BOOKING_NOT_CANCELLABLE');
+    }
+  }
+
+  private resolveCancellationInitiator(
+    user: User,
+    booking: Pick<PrismaBooking, 'companyId'>,
+    allowProvider: boolean
+  ): CancellationInitiator {
+    if (this.isElevated(user)) {
+      return 'staff';
+    }
+    if (allowProvider && this.isProvider(user)) {
+      return 'provider';
+    }
+    return booking.companyId ? 'company' : 'client';
+  }
+
   private resolveInitialStatus(payload: { mode: BookingMode; providerIds?: string[] }): BookingStatus {
     const providers = payload.providerIds ?? [];
 
@@ -1608,15 +2007,35 @@ export class BookingsService {
     surfacesSquareMeters: number;
     ecoPreference: EcoPreference;
     clientId?: string;
+    service?: ServiceCategory;
+    addons?: string[];
+    countryCode?: string | null;
+    companyId?: string | null;
+    providerIds?: string[];
+    startAt?: string;
+    postalCode?: string | null;
+    soilLevel?: CleaningSoilLevel | null;
+    shortNotice?: boolean;
+    now?: Date;
   }) {
     return this.pricingEngine.calculateQuote({
       surfacesSquareMeters: payload.surfacesSquareMeters,
       ecoPreference: payload.ecoPreference,
       clientId: payload.clientId,
+      service: payload.service,
+      addons: payload.addons,
+      countryCode: payload.countryCode,
+      companyId: payload.companyId,
+      providerIds: payload.providerIds,
+      startAt: payload.startAt,
+      postalCode: payload.postalCode,
+      soilLevel: payload.soilLevel,
+      shortNotice: payload.shortNotice,
+      now: payload.now,
     });
   }
 
-  private resolveSurfaceForPricing(payload: {
+  resolveSurfaceForPricing(payload: {
     surfacesSquareMeters?: number | null;
     durationHours?: number | null;
     recommendedHours?: number | null;
@@ -1634,6 +2053,54 @@ export class BookingsService {
     return 50;
   }
 
+  /**
+   * Whether §19 UStG applies depends on who does the job, so the VAT of a booking is resolved again once
+   * matching assigns its providers. Only the tax changes; the net amounts stay as quoted. Returns whether the
+   * total changed, in which case the caller brings the payment in line after the transaction.
+   */
+  private async refreshAssignedTax(tx: Prisma.TransactionClient, bookingId: string): Promise<boolean> {
+    const booking = await tx.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      select: {
+        service: true,
+        addressCountryCode: true,
+        companyId: true,
+        pricingSubtotalCents: true,
+        pricingEcoCents: true,
+        pricingExtrasCents: true,
+        pricingLoyaltyCents: true,
+        taxRule: true,
+        taxRateBps: true,
+        assignments: { select: { providerId: true } },
+      },
+    });
+    const appliedTax = await this.tax.resolveForBooking({
+      countryCode: booking.addressCountryCode,
+      service: BookingMapper.toDomainService(booking.service),
+      companyId: booking.companyId,
+      providerIds: booking.assignments.map((assignment) => assignment.providerId),
+    });
+    if (appliedTax.rule === booking.taxRule && appliedTax.rateBps === booking.taxRateBps) {
+      return false;
+    }
+    const taxableBase = booking.pricingSubtotalCents + booking.pricingEcoCents + booking.pricingExtrasCents;
+    const taxCents = computeTaxCents(taxableBase, appliedTax.rateBps);
+    await tx.booking.update({
+      where: { id: bookingId },
+      data: {
+        taxRule: appliedTax.rule,
+        taxRateBps: appliedTax.rateBps,
+        pricingTaxCents: taxCents,
+        pricingTotalCents: taxableBase - booking.pricingLoyaltyCents + taxCents,
+      },
+    });
+    return true;
+  }
+
+  private hasSameProviders(left: string[], right: string[]) {
+    return left.length === right.length && left.every((providerId) => right.includes(providerId));
+  }
+
   private estimateSurfaceFromHours(hours: number) {
     const normalized = Math.min(Math.max(hours, 2), 12);
     if (normalized <= 2) {
@@ -1751,6 +2218,10 @@ export class BookingsService {
       startAt: booking.startAt,
       endAt: booking.endAt,
       city: booking.addressCity,
+      postalCode: booking.addressPostalCode,
+      countryCode: booking.addressCountryCode,
+      latitude: booking.addressLatitude,
+      longitude: booking.addressLongitude,
       excludeBookingId: booking.id,
       clientId: booking.clientId,
       priceCeilingCents: booking.pricingSubtotalCents,
@@ -1763,6 +2234,7 @@ export class BookingsService {
       return;
     }
 
+    let taxChanged = false;
     const updated = (await this.prisma.$transaction(async (tx) => {
       await tx.bookingAssignment.deleteMany({ where: { bookingId: booking.id } });
       await tx.bookingAssignment.createMany({
@@ -1772,6 +2244,7 @@ export class BookingsService {
           teamId: plan.teamId ?? null,
         })),
       });
+      taxChanged = await this.refreshAssignedTax(tx, booking.id);
       return tx.booking.update({
         where: { id: booking.id },
         data: {
@@ -1790,6 +2263,9 @@ export class BookingsService {
         },
       });
     })) as BookingWithRelations;
+    if (taxChanged) {
+      await this.payments.syncBookingPaymentAmount(booking.id);
+    }
 
     const contextKey = this.buildMatchingContextKey({
       service: BookingMapper.toDomainService(updated.service),
@@ -1832,6 +2308,12 @@ export class BookingsService {
       },
     });
 
+    await this.bookingNotifications.triggerBookingAutomation(
+      NotificationAutomationEvent.SMART_MATCH_TRIGGERED,
+      updated.id,
+      { smartMatch: { source: 'retry', providerCount: plan.providerIds.length } }
+    );
+
     await this.emitMatchingProgress(updated.clientId, {
       stage: 'booking',
       status: 'completed',
@@ -1881,6 +2363,10 @@ export class BookingsService {
       startAt: booking.startAt,
       endAt: booking.endAt,
       city: booking.addressCity,
+      postalCode: booking.addressPostalCode,
+      countryCode: booking.addressCountryCode,
+      latitude: booking.addressLatitude,
+      longitude: booking.addressLongitude,
       excludeBookingId: booking.id,
       clientId: booking.clientId,
       priceCeilingCents: booking.pricingSubtotalCents,
@@ -1978,6 +2464,7 @@ export class BookingsService {
       return;
     }
 
+    let taxChanged = false;
     const updated = (await this.prisma.$transaction(async (tx) => {
       await tx.bookingAssignment.deleteMany({ where: { bookingId: booking.id } });
       await tx.bookingAssignment.createMany({
@@ -1987,6 +2474,7 @@ export class BookingsService {
           teamId: plan.teamId ?? null,
         })),
       });
+      taxChanged = await this.refreshAssignedTax(tx, booking.id);
 
       return tx.booking.update({
         where: { id: booking.id },
@@ -2006,6 +2494,9 @@ export class BookingsService {
         },
       });
     })) as BookingWithRelations;
+    if (taxChanged) {
+      await this.payments.syncBookingPaymentAmount(booking.id);
+    }
 
     const contextKey = this.buildMatchingContextKey({
       service: BookingMapper.toDomainService(updated.service),
@@ -2177,6 +2668,10 @@ export class BookingsService {
     startAt: string | Date;
     endAt: string | Date;
     city?: string;
+    postalCode?: string;
+    countryCode?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
     excludeBookingId?: string;
     clientId?: string;
     priceCeilingCents?: number;
@@ -2188,6 +2683,10 @@ export class BookingsService {
       startAt: typeof payload.startAt === 'string' ? new Date(payload.startAt) : payload.startAt,
       endAt: typeof payload.endAt === 'string' ? new Date(payload.endAt) : payload.endAt,
       city: payload.city,
+      postalCode: payload.postalCode,
+      countryCode: payload.countryCode,
+      latitude: payload.latitude,
+      longitude: payload.longitude,
       excludeBookingId: payload.excludeBookingId,
       clientId: payload.clientId,
       priceCeilingCents: payload.priceCeilingCents,
@@ -2195,13 +2694,12 @@ export class BookingsService {
     };
   }
 
-  private calculateLeadTimeDays(startAtIso: string): number {
+  private calculateLeadTimeDays(startAtIso: string, bookedAt = new Date()): number {
     const start = Date.parse(startAtIso);
     if (Number.isNaN(start)) {
       return 0;
     }
-    const now = Date.now();
-    const diff = start - now;
+    const diff = start - bookedAt.getTime();
     if (diff <= 0) {
       return 0;
     }
@@ -2347,6 +2845,10 @@ export class BookingsService {
       startAt: booking.startAt,
       endAt: booking.endAt,
       city: booking.addressCity ?? undefined,
+      postalCode: booking.addressPostalCode ?? undefined,
+      countryCode: booking.addressCountryCode,
+      latitude: booking.addressLatitude,
+      longitude: booking.addressLongitude,
       clientId: booking.clientId ?? undefined,
       priceCeilingCents: booking.pricingSubtotalCents ?? undefined,
       requiredProviders: booking.requiredProviders ?? undefined,
@@ -2409,6 +2911,10 @@ export class BookingsService {
         matchingContextKey: contextKey,
         attachmentCount: refreshed.attachments.length,
       });
+      await this.bookingNotifications.triggerStatusAutomation(
+        booking.id,
+        BookingMapper.toDomainStatus(refreshed.status)
+      );
       this.logger.log(
         `[Checkout] Notifications dispatched AFTER payment confirmation booking=${booking.id}`
       );
@@ -2455,6 +2961,12 @@ export class BookingsService {
       skipDuplicates: true,
     });
 
+    await this.bookingNotifications.triggerBookingAutomation(
+      NotificationAutomationEvent.SMART_MATCH_TRIGGERED,
+      params.booking.id,
+      { smartMatch: { source: 'short_notice', providerCount: providerIds.length } }
+    );
+
     if (params.actorId) {
       await this.bookingNotifications.notifyMatchingProgress({
         booking: params.booking,
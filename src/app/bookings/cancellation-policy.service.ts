@@ -0,0 +1,186 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { CancellationPolicyScope as PrismaCancellationPolicyScope, Prisma } from '@prisma/client';
+import type { Booking as PrismaBooking, CancellationPolicy } from '@prisma/client';
+import type {
+  CancellationInitiator,
+  CancellationPolicyRecord,
+  CancellationPolicyScope,
+  CancellationPreview,
+} from '@saubio/models';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  computeCancellationFee,
+  defaultCancellationScope,
+  DEFAULT_CANCELLATION_TIERS,
+  DEFAULT_PROVIDER_COMPENSATION_BPS,
+  parseCancellationTiers,
+  selectCancellationPolicy,
+  splitAmount,
+} from './cancellation-policy';
+import { CreateCancellationPolicyDto, UpdateCancellationPolicyDto } from './dto/cancellation-policy.dto';
+
+type CancellableBooking = Pick<
+  PrismaBooking,
+  'id' | 'startAt' | 'pricingTotalCents' | 'pricingCurrency' | 'shortNotice' | 'companyId'
+> & { assignments: { providerId: string }[] };
+
+export interface CancellationQuote {
+  preview: CancellationPreview;
+  /** Compensation for the assigned providers, or the penalty withheld from the cancelling provider. */
+  providerLines: { providerId: string; amountCents: number }[];
+}
+
+const DEFAULT_POLICY_NAMES: Record<PrismaCancellationPolicyScope, string> = {
+  STANDARD: 'Standard',
+  SHORT_NOTICE: 'Kurzfristige Buchung',
+  COMPANY: 'Firmenvertrag',
+  PROVIDER: 'Stornierung durch Dienstleister',
+};
+
+/**
+ * Cancellation fees. Clients pay a share of the booking total depending on how close to the start they cancel,
+ * most of which goes to the providers who kept the slot free; providers who cancel have a penalty withheld
+ * from their next payout while the client is refunded in full.
+ */
+@Injectable()
+export class CancellationPolicyService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async listPolicies(): Promise<CancellationPolicyRecord[]> {
+    const policies = await this.prisma.cancellationPolicy.findMany({
+      orderBy: [{ scope: 'asc' }, { updatedAt: 'desc' }],
+    });
+    return policies.map((policy) => this.toRecord(policy));
+  }
+
+  async createPolicy(payload: CreateCancellationPolicyDto): Promise<CancellationPolicyRecord> {
+    const scope = this.toPrismaScope(payload.scope);
+    this.assertCompanyScope(scope, payload.companyId);
+    const policy = await this.prisma.cancellationPolicy.create({
+      data: {
+        name: payload.name.trim(),
+        scope,
+        companyId: payload.companyId ?? null,
+        tiers: parseCancellationTiers(payload.tiers) as unknown as Prisma.JsonArray,
+        providerCompensationBps: payload.providerCompensationBps ?? DEFAULT_PROVIDER_COMPENSATION_BPS,
+        isActive: payload.isActive ?? true,
+      },
+    });
+    return this.toRecord(policy);
+  }
+
+  async updatePolicy(id: string, payload: UpdateCancellationPolicyDto): Promise<CancellationPolicyRecord> {
+    const existing = await this.prisma.cancellationPolicy.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('CANCELLATION_POLICY_NOT_FOUND');
+    }
+    const scope = payload.scope ? this.toPrismaScope(payload.scope) : existing.scope;
+    const companyId = payload.companyId !== undefined ? payload.companyId || null : existing.companyId;
+    this.assertCompanyScope(scope, companyId);
+
+    const policy = await this.prisma.cancellationPolicy.update({
+      where: { id },
+      data: {
+        ...(payload.name !== undefined ? { name: payload.name.trim() } : {}),
+        scope,
+        companyId,
+        ...(payload.tiers !== undefined
+          ? { tiers: parseCancellationTiers(payload.tiers) as unknown as Prisma.JsonArray }
+          : {}),
+        ...(payload.providerCompensationBps !== undefined
+          ? { providerCompensationBps: payload.providerCompensationBps }
+          : {}),
+        ...(payload.isActive !== undefined ? { isActive: payload.isActive } : {}),
+      },
+    });
+    return this.toRecord(policy);
+  }
+
+  /**
+   * What cancelling the booking now costs. Client cancellations are free while no provider is assigned, since
+   * nobody has kept the slot free yet; staff cancel on the client's behalf unless they waive the fee.
+   */
+  async quote(
+    booking: CancellableBooking,
+    options: { initiator: CancellationInitiator; providerId?: string; waiveFee?: boolean; now?: Date }
+  ): Promise<CancellationQuote> {
+    const actor = options.initiator === 'provider' ? 'provider' : 'client';
+    const context = { actor, companyId: booking.companyId, shortNotice: booking.shortNotice } as const;
+    const policies = await this.prisma.cancellationPolicy.findMany({
+      where: {
+        isActive: true,
+        OR: [{ companyId: null }, ...(booking.companyId ? [{ companyId: booking.companyId }] : [])],
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+    const policy = selectCancellationPolicy(policies, context);
+    const scope = policy?.scope ?? defaultCancellationScope(context);
+    const providerIds = Array.from(new Set(booking.assignments.map((assignment) => assignment.providerId)));
+    const chargeable = !options.waiveFee && (actor === 'provider' || providerIds.length > 0);
+
+    const fee = computeCancellationFee({
+      tiers: chargeable ? (policy ? parseCancellationTiers(policy.tiers) : DEFAULT_CANCELLATION_TIERS[scope]) : [],
+      startAt: booking.startAt,
+      now: options.now ?? new Date(),
+      totalCents: booking.pricingTotalCents,
+      providerCompensationBps: policy?.providerCompensationBps ?? DEFAULT_PROVIDER_COMPENSATION_BPS,
+    });
+
+    const preview: CancellationPreview = {
+      bookingId: booking.id,
+      initiator: options.initiator,
+      policyId: policy?.id ?? null,
+      policyName: policy?.name ?? DEFAULT_POLICY_NAMES[scope],
+      scope: this.toDomainScope(scope),
+      hoursUntilStart: fee.hoursUntilStart,
+      freeUntilHours: fee.freeUntilHours,
+      feeBps: fee.feeBps,
+      feeCents: fee.feeCents,
+      refundCents: fee.refundCents,
+      currency: booking.pricingCurrency ?? 'EUR',
+    };
+
+    if (actor === 'provider') {
+      // The client never pays for a provider cancellation; the fee is the provider's penalty.
+      return {
+        preview: { ...preview, refundCents: Math.max(0, booking.pricingTotalCents) },
+        providerLines:
+          options.providerId && fee.feeCents > 0
+            ? [{ providerId: options.providerId, amountCents: -fee.feeCents }]
+            : [],
+      };
+    }
+    return {
+      preview,
+      providerLines: splitAmount(fee.providerCompensationCents, providerIds).filter((line) => line.amountCents > 0),
+    };
+  }
+
+  private assertCompanyScope(scope: PrismaCancellationPolicyScope, companyId?: string | null) {
+    if (companyId && scope !== PrismaCancellationPolicyScope.COMPANY) {
+      throw new BadRequestException('CANCELLATION_POLICY_COMPANY_SCOPE_REQUIRED');
+    }
+  }
+
+  private toPrismaScope(scope: CancellationPolicyScope): PrismaCancellationPolicyScope {
+    return scope.toUpperCase() as PrismaCancellationPolicyScope;
+  }
+
+  private toDomainScope(scope: PrismaCancellationPolicyScope): CancellationPolicyScope {
+    return scope.toLowerCase() as CancellationPolicyScope;
+  }
+
+  private toRecord(policy: CancellationPolicy): CancellationPolicyRecord {
+    return {
+      id: policy.id,
+      name: policy.name,
+      scope: this.toDomainScope(policy.scope),
+      companyId: policy.companyId,
+      tiers: parseCancellationTiers(policy.tiers),
+      providerCompensationBps: policy.providerCompensationBps,
+      isActive: policy.isActive,
+      createdAt: policy.createdAt.toISOString(),
+      updatedAt: policy.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { CancellationPolicyScope } from '@prisma/client';
+import {
+  computeCancellationFee,
+  defaultCancellationScope,
+  parseCancellationTiers,
+  selectCancellationPolicy,
+  splitAmount,
+} from './cancellation-policy';
+
+describe('cancellation policy', () => {
+  const startAt = new Date('2026-01-23T10:00:00.000Z');
+  const hoursBefore = (hours: number) => new Date(startAt.getTime() - hours * 60 * 60 * 1000);
+  const tiers = [
+    { withinHours: 6, feeBps: 5000 },
+    { withinHours: 24, feeBps: 2500 },
+  ];
+
+  it('charges the fee of the latest tier the cancellation falls into', () => {
+    const quote = (hours: number) =>
+      computeCancellationFee({ tiers, startAt, now: hoursBefore(hours), totalCents: 10000, providerCompensationBps: 7000 });
+
+    expect(quote(30)).toMatchObject({ feeBps: 0, feeCents: 0, refundCents: 10000, freeUntilHours: 24 });
+    expect(quote(10)).toMatchObject({ hoursUntilStart: 10, feeBps: 2500, feeCents: 2500, refundCents: 7500 });
+    expect(quote(2)).toMatchObject({ feeBps: 5000, feeCents: 5000, providerCompensationCents: 3500 });
+    expect(quote(-1)).toMatchObject({ feeBps: 5000 });
+  });
+
+  it('is always free without tiers', () => {
+    expect(
+      computeCancellationFee({ tiers: [], startAt, now: hoursBefore(1), totalCents: 10000, providerCompensationBps: 7000 })
+    ).toMatchObject({ feeCents: 0, refundCents: 10000, freeUntilHours: null });
+  });
+
+  it('ignores malformed tiers and caps fees at the full amount', () => {
+    expect(
+      parseCancellationTiers([{ withinHours: 2, feeBps: 15000 }, { withinHours: 'soon' }, { withinHours: 0, feeBps: 100 }])
+    ).toEqual([{ withinHours: 2, feeBps: 10000 }]);
+    expect(parseCancellationTiers(null)).toEqual([]);
+  });
+
+  it('prefers company contracts, then short-notice rules, then the standard policy', () => {
+    const policies = [
+      { id: 'standard', scope: CancellationPolicyScope.STANDARD, companyId: null },
+      { id: 'short', scope: CancellationPolicyScope.SHORT_NOTICE, companyId: null },
+      { id: 'company-generic', scope: CancellationPolicyScope.COMPANY, companyId: null },
+      { id: 'company-acme', scope: CancellationPolicyScope.COMPANY, companyId: 'acme' },
+      { id: 'provider', scope: CancellationPolicyScope.PROVIDER, companyId: null },
+    ];
+
+    expect(selectCancellationPolicy(policies, { actor: 'client', companyId: 'acme' })?.id).toBe('company-acme');
+    expect(selectCancellationPolicy(policies, { actor: 'client', companyId: 'other' })?.id).toBe('company-generic');
+    expect(selectCancellationPolicy(policies, { actor: 'client', shortNotice: true })?.id).toBe('short');
+    expect(selectCancellationPolicy(policies, { actor: 'client' })?.id).toBe('standard');
+    expect(selectCancellationPolicy(policies, { actor: 'provider', companyId: 'acme' })?.id).toBe('provider');
+    expect(selectCancellationPolicy([], { actor: 'client' })).toBeNull();
+    expect(defaultCancellationScope({ actor: 'client', shortNotice: true })).toBe(CancellationPolicyScope.SHORT_NOTICE);
+  });
+
+  it('splits amounts across providers without losing cents', () => {
+    expect(splitAmount(1001, ['a', 'b'])).toEqual([
+      { providerId: 'a', amountCents: 501 },
+      { providerId: 'b', amountCents: 500 },
+    ]);
+    expect(splitAmount(-1001, ['a', 'b']).reduce((sum, line) => sum + line.amountCents, 0)).toBe(-1001);
+    expect(splitAmount(500, [])).toEqual([]);
+  });
+});
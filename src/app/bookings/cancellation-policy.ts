@@ -0,0 +1,150 @@
+import { CancellationPolicyScope } from '@prisma/client';
+import type { CancellationFeeTier } from '@saubio/models';
+
+const HOUR_MS = 60 * 60 * 1000;
+const FULL_FEE_BPS = 10_000;
+
+/** Used until staff configure a policy for the scope. */
+export const DEFAULT_CANCELLATION_TIERS: Record<CancellationPolicyScope, CancellationFeeTier[]> = {
+  STANDARD: [
+    { withinHours: 24, feeBps: 2500 },
+    { withinHours: 6, feeBps: 5000 },
+  ],
+  SHORT_NOTICE: [
+    { withinHours: 12, feeBps: 5000 },
+    { withinHours: 3, feeBps: 10000 },
+  ],
+  COMPANY: [
+    { withinHours: 48, feeBps: 2500 },
+    { withinHours: 24, feeBps: 5000 },
+  ],
+  // Provider-initiated cancellations: a penalty on the booking total, withheld from the provider's next payout.
+  PROVIDER: [
+    { withinHours: 24, feeBps: 1000 },
+    { withinHours: 6, feeBps: 2500 },
+  ],
+};
+
+export const DEFAULT_PROVIDER_COMPENSATION_BPS = 7000;
+
+export type CancellationActor = 'client' | 'provider';
+
+export interface CancellationFeeQuote {
+  hoursUntilStart: number;
+  /** Cancelling is free until this many hours before the start; null when it is always free. */
+  freeUntilHours: number | null;
+  feeBps: number;
+  feeCents: number;
+  refundCents: number;
+  providerCompensationCents: number;
+}
+
+/** Drops malformed tiers from the stored JSON and orders them from the earliest to the latest one. */
+export function parseCancellationTiers(value: unknown): CancellationFeeTier[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter(
+      (tier): tier is CancellationFeeTier =>
+        typeof tier === 'object' &&
+        tier !== null &&
+        typeof (tier as CancellationFeeTier).withinHours === 'number' &&
+        typeof (tier as CancellationFeeTier).feeBps === 'number' &&
+        (tier as CancellationFeeTier).withinHours > 0
+    )
+    .map((tier) => ({
+      withinHours: tier.withinHours,
+      feeBps: Math.min(FULL_FEE_BPS, Math.max(0, Math.round(tier.feeBps))),
+    }))
+    .sort((a, b) => b.withinHours - a.withinHours);
+}
+
+/**
+ * Picks the policy for a cancellation. Clients of a company get the company's own contract terms, then the
+ * generic company terms; other clients get the short-notice or the standard policy. Returns null when nothing
+ * is configured, in which case the built-in defaults apply.
+ */
+export function selectCancellationPolicy<T extends { scope: CancellationPolicyScope; companyId: string | null }>(
+  policies: T[],
+  context: { actor: CancellationActor; companyId?: string | null; shortNotice?: boolean | null }
+): T | null {
+  if (context.actor === 'provider') {
+    return policies.find((policy) => policy.scope === CancellationPolicyScope.PROVIDER) ?? null;
+  }
+  const candidates: Array<(policy: T) => boolean> = [];
+  if (context.companyId) {
+    candidates.push(
+      (policy) => policy.scope === CancellationPolicyScope.COMPANY && policy.companyId === context.companyId,
+      (policy) => policy.scope === CancellationPolicyScope.COMPANY && !policy.companyId
+    );
+  }
+  if (context.shortNotice) {
+    candidates.push((policy) => policy.scope === CancellationPolicyScope.SHORT_NOTICE);
+  }
+  candidates.push((policy) => policy.scope === CancellationPolicyScope.STANDARD);
+
+  for (const matches of candidates) {
+    const policy = policies.find(matches);
+    if (policy) {
+      return policy;
+    }
+  }
+  return null;
+}
+
+/** The scope whose built-in tiers apply when no policy is configured. */
+export function defaultCancellationScope(context: {
+  actor: CancellationActor;
+  companyId?: string | null;
+  shortNotice?: boolean | null;
+}): CancellationPolicyScope {
+  if (context.actor === 'provider') {
+    return CancellationPolicyScope.PROVIDER;
+  }
+  if (context.companyId) {
+    return CancellationPolicyScope.COMPANY;
+  }
+  return context.shortNotice ? CancellationPolicyScope.SHORT_NOTICE : CancellationPolicyScope.STANDARD;
+}
+
+/**
+ * The fee of the latest tier the cancellation falls into: with tiers at 24h and 6h, cancelling 10 hours
+ * ahead costs the 24h fee and cancelling 2 hours ahead (or after the start) the 6h fee.
+ */
+export function computeCancellationFee(params: {
+  tiers: CancellationFeeTier[];
+  startAt: Date;
+  now: Date;
+  totalCents: number;
+  providerCompensationBps: number;
+}): CancellationFeeQuote {
+  const hoursUntilStart = Math.round(((params.startAt.getTime() - params.now.getTime()) / HOUR_MS) * 10) / 10;
+  const tiers = parseCancellationTiers(params.tiers);
+  const applicable = tiers.filter((tier) => hoursUntilStart < tier.withinHours);
+  const feeBps = applicable.length ? applicable[applicable.length - 1].feeBps : 0;
+  const totalCents = Math.max(0, params.totalCents);
+  const feeCents = Math.round((totalCents * feeBps) / FULL_FEE_BPS);
+
+  return {
+    hoursUntilStart,
+    freeUntilHours: tiers.length ? tiers[0].withinHours : null,
+    feeBps,
+    feeCents,
+    refundCents: totalCents - feeCents,
+    providerCompensationCents: Math.round((feeCents * Math.max(0, params.providerCompensationBps)) / FULL_FEE_BPS),
+  };
+}
+
+/** Splits an amount evenly across providers, handing the rounding remainder to the first ones. */
+export function splitAmount(amountCents: number, providerIds: string[]) {
+  if (!providerIds.length) {
+    return [];
+  }
+  const base = Math.trunc(amountCents / providerIds.length);
+  const remainder = amountCents - base * providerIds.length;
+  return providerIds.map((providerId, index) => ({
+    providerId,
+    amountCents: base + (index < Math.abs(remainder) ? Math.sign(remainder) : 0),
+  }));
+}
@@ -0,0 +1,25 @@
+import { IsBoolean, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import type { BookingPhotoPhase } from '@saubio/models';
+
+export class UpdateChecklistItemDto {
+  @IsBoolean()
+  completed!: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class UploadMissionPhotoDto {
+  @IsIn(['before', 'after'])
+  phase!: BookingPhotoPhase;
+
+  @IsString()
+  fileData!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  fileName?: string;
+}
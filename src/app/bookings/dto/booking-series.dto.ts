@@ -0,0 +1,29 @@
+import { PickType } from '@nestjs/mapped-types';
+import { IsOptional, IsString } from 'class-validator';
+import { UpdateBookingDto } from './update-booking.dto';
+
+export class UpdateBookingSeriesDto extends PickType(UpdateBookingDto, [
+  'startAt',
+  'endAt',
+  'surfacesSquareMeters',
+  'durationHours',
+  'recommendedHours',
+  'durationManuallyAdjusted',
+  'ecoPreference',
+  'onsiteContact',
+  'servicePreferences',
+  'notes',
+  'providerNotes',
+] as const) {}
+
+export class SkipBookingOccurrenceDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class EndBookingSeriesDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
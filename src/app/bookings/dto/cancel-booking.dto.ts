@@ -1,7 +1,12 @@
-import { IsOptional, IsString } from 'class-validator';
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
 
 export class CancelBookingDto {
   @IsOptional()
   @IsString()
   reason?: string;
+
+  /** Staff only: cancel without charging the client the policy fee. */
+  @IsOptional()
+  @IsBoolean()
+  waiveFee?: boolean;
 }
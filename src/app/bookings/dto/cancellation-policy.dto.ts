@@ -0,0 +1,59 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import type { CancellationPolicyScope } from '@saubio/models';
+
+const CANCELLATION_POLICY_SCOPES: CancellationPolicyScope[] = ['standard', 'short_notice', 'company', 'provider'];
+
+export class CancellationFeeTierDto {
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  withinHours!: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  feeBps!: number;
+}
+
+export class CreateCancellationPolicyDto {
+  @IsString()
+  name!: string;
+
+  @IsIn(CANCELLATION_POLICY_SCOPES)
+  scope!: CancellationPolicyScope;
+
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => CancellationFeeTierDto)
+  tiers!: CancellationFeeTierDto[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  providerCompensationBps?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateCancellationPolicyDto extends PartialType(CreateCancellationPolicyDto) {}
@@ -1,14 +1,19 @@
 import { Type } from 'class-transformer';
 import {
+  ArrayMaxSize,
+  ArrayUnique,
   IsArray,
   IsBoolean,
   IsDateString,
   IsIn,
+  IsLatitude,
+  IsLongitude,
   IsNumber,
   IsObject,
   IsOptional,
   IsString,
   Max,
+  MaxLength,
   Min,
   ValidateNested,
 } from 'class-validator';
@@ -17,6 +22,8 @@ import {
   BookingMode,
   CleaningFrequency,
   EcoPreference,
+  SERVICE_ADDON_IDS,
+  ServiceAddonId,
   ServiceCategory,
 } from '@saubio/models';
 
@@ -69,6 +76,14 @@ export class BookingAddressDto implements Omit<Address, 'coordinates'> {
   @IsOptional()
   @IsString()
   accessNotes?: string;
+
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
 }
 
 export class BookingContactDto {
@@ -128,6 +143,11 @@ export class CreateBookingDto {
   @IsString()
   companyId?: string;
 
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  costCentre?: string;
+
   @ValidateNested()
   @Type(() => BookingAddressDto)
   address!: BookingAddressDto;
@@ -176,6 +196,13 @@ export class CreateBookingDto {
   @IsBoolean()
   durationManuallyAdjusted?: boolean;
 
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @ArrayMaxSize(SERVICE_ADDON_IDS.length)
+  @IsIn(SERVICE_ADDON_IDS, { each: true })
+  addons?: ServiceAddonId[];
+
   @IsDateString()
   startAt!: string;
 
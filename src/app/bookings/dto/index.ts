@@ -5,3 +5,6 @@ export * from './provider-search.dto';
 export * from './matching-score-preview.dto';
 export * from './list-bookings-query.dto';
 export * from './create-lock.dto';
+export * from './booking-series.dto';
+export * from './respond-overtime.dto';
+export * from './booking-evidence.dto';
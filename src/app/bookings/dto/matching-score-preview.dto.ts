@@ -30,6 +30,10 @@ export class MatchingScorePreviewDto {
   @IsOptional()
   city?: string;
 
+  @IsString()
+  @IsOptional()
+  postalCode?: string;
+
   @Type(() => Number)
   @IsInt()
   @Min(1)
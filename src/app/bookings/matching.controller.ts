@@ -23,6 +23,7 @@ export class MatchingController {
       startAt,
       endAt,
       city: payload.city,
+      postalCode: payload.postalCode,
       clientId: user.id,
       priceCeilingCents: payload.priceCeilingCents,
       requiredProviders: payload.requiredProviders ?? 1,
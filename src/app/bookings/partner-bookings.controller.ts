@@ -0,0 +1,34 @@
+import { Body, Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import type { User } from '@saubio/models';
+import { BookingsService } from './bookings.service';
+import { CreateBookingDto, ListBookingsQueryDto } from './dto';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ApiKeyScopes } from '../auth/decorators/api-key-scopes.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('partner/bookings')
+@UseGuards(ApiKeyGuard, RolesGuard)
+@Roles('client', 'company')
+export class PartnerBookingsController {
+  constructor(private readonly bookingsService: BookingsService) {}
+
+  @Get()
+  @ApiKeyScopes('bookings:read')
+  findAll(@CurrentUser() user: User, @Query() filters: ListBookingsQueryDto) {
+    return this.bookingsService.findAll(user, filters);
+  }
+
+  @Get(':id')
+  @ApiKeyScopes('bookings:read')
+  findOne(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.bookingsService.findOne(id, user);
+  }
+
+  @Post()
+  @ApiKeyScopes('bookings:write')
+  create(@Body() payload: CreateBookingDto, @CurrentUser() user: User) {
+    return this.bookingsService.create(payload, user);
+  }
+}
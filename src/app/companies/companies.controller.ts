@@ -0,0 +1,88 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, UseGuards } from '@nestjs/common';
+import type { User } from '@saubio/models';
+import { AccessTokenGuard } from '../auth/guards/access-token.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CompaniesService } from './companies.service';
+import { CreateCompanyDto } from './dto/create-company.dto';
+import { UpdateCompanyDto } from './dto/update-company.dto';
+import { InviteCompanyMemberDto } from './dto/invite-company-member.dto';
+import { UpdateCompanyMemberDto } from './dto/update-company-member.dto';
+import { AcceptCompanyInvitationDto } from './dto/accept-company-invitation.dto';
+
+@Controller('companies')
+@UseGuards(AccessTokenGuard, RolesGuard)
+@Roles('client', 'company', 'employee', 'admin')
+export class CompaniesController {
+  constructor(private readonly companies: CompaniesService) {}
+
+  @Post()
+  create(@Body() payload: CreateCompanyDto, @CurrentUser() user: User) {
+    return this.companies.create(user, payload);
+  }
+
+  @Get()
+  list(@CurrentUser() user: User) {
+    return this.companies.listForUser(user);
+  }
+
+  @Post('invitations/accept')
+  acceptInvitation(@Body() payload: AcceptCompanyInvitationDto, @CurrentUser() user: User) {
+    return this.companies.acceptInvitation(user, payload.token);
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.companies.get(id, user);
+  }
+
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() payload: UpdateCompanyDto, @CurrentUser() user: User) {
+    return this.companies.update(id, user, payload);
+  }
+
+  @Get(':id/members')
+  listMembers(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.companies.listMembers(id, user);
+  }
+
+  @Patch(':id/members/:memberId')
+  updateMember(
+    @Param('id') id: string,
+    @Param('memberId') memberId: string,
+    @Body() payload: UpdateCompanyMemberDto,
+    @CurrentUser() user: User
+  ) {
+    return this.companies.updateMember(id, memberId, user, payload);
+  }
+
+  @Delete(':id/members/:memberId')
+  removeMember(@Param('id') id: string, @Param('memberId') memberId: string, @CurrentUser() user: User) {
+    return this.companies.removeMember(id, memberId, user);
+  }
+
+  @Get(':id/invitations')
+  listInvitations(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.companies.listInvitations(id, user);
+  }
+
+  @Post(':id/invitations')
+  invite(@Param('id') id: string, @Body() payload: InviteCompanyMemberDto, @CurrentUser() user: User) {
+    return this.companies.invite(id, user, payload);
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  revokeInvitation(
+    @Param('id') id: string,
+    @Param('invitationId') invitationId: string,
+    @CurrentUser() user: User
+  ) {
+    return this.companies.revokeInvitation(id, invitationId, user);
+  }
+
+  @Get(':id/invoices')
+  listInvoices(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.companies.listInvoices(id, user);
+  }
+}
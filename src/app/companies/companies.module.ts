@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { InvoiceModule } from '../payments/invoice/invoice.module';
+import { CompaniesController } from './companies.controller';
+import { CompaniesService } from './companies.service';
+import { CompanyBillingService } from './company-billing.service';
+
+@Module({
+  imports: [PrismaModule, AuthModule, NotificationsModule, InvoiceModule],
+  controllers: [CompaniesController],
+  providers: [CompaniesService, CompanyBillingService],
+  exports: [CompaniesService],
+})
+export class CompaniesModule {}
@@ -0,0 +1,118 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { User } from '@saubio/models';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailQueueService } from '../notifications/email-queue.service';
+import { CompaniesService } from './companies.service';
+
+describe('CompaniesService permissions', () => {
+  let service: CompaniesService;
+  let members: Record<string, { id: string; role: string; permissions: string[] }>;
+  let prisma: {
+    company: { count: jest.Mock; findUnique: jest.Mock };
+    companyMember: { findUnique: jest.Mock; findFirst: jest.Mock; update: jest.Mock; delete: jest.Mock };
+    invoice: { findMany: jest.Mock };
+  };
+
+  const user = (id: string, roles: User['roles'] = ['company']): User => ({
+    id,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    email: `${id}@example.com`,
+    firstName: 'Test',
+    lastName: 'User',
+    roles,
+    preferredLocale: 'de',
+    isActive: true,
+  });
+
+  beforeEach(() => {
+    members = {
+      owner: { id: 'member_owner', role: 'owner', permissions: [] },
+      admin: { id: 'member_admin', role: 'admin', permissions: [] },
+      booker: { id: 'member_booker', role: 'booker', permissions: [] },
+      viewer: { id: 'member_viewer', role: 'viewer', permissions: [] },
+      auditor: { id: 'member_auditor', role: 'viewer', permissions: ['billing.view'] },
+    };
+    prisma = {
+      company: {
+        count: jest.fn().mockResolvedValue(1),
+        findUnique: jest.fn().mockResolvedValue({ id: 'company_1' }),
+      },
+      companyMember: {
+        findUnique: jest.fn(
+          async ({ where }: { where: { companyId_userId: { userId: string } } }) =>
+            members[where.companyId_userId.userId] ?? null
+        ),
+        findFirst: jest.fn(async ({ where }: { where: { id: string } }) =>
+          Object.values(members).find((member) => member.id === where.id) ?? null
+        ),
+        update: jest.fn(),
+        delete: jest.fn().mockResolvedValue({}),
+      },
+      invoice: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+
+    service = new CompaniesService(
+      prisma as unknown as PrismaService,
+      { get: jest.fn() } as unknown as ConfigService,
+      { enqueue: jest.fn(), triggerImmediateProcessing: jest.fn() } as unknown as EmailQueueService
+    );
+  });
+
+  it.each([
+    ['owner', true, true, true],
+    ['admin', true, true, true],
+    ['booker', true, false, false],
+    ['viewer', false, false, false],
+    ['auditor', false, true, false],
+  ])('checks the %s member against bookings, billing and member management', async (id, book, bill, manage) => {
+    await expect(service.hasPermission('company_1', user(id), 'bookings.create')).resolves.toBe(book);
+    await expect(service.hasPermission('company_1', user(id), 'billing.view')).resolves.toBe(bill);
+    await expect(service.hasPermission('company_1', user(id), 'members.manage')).resolves.toBe(manage);
+
+    const listing = service.listInvoices('company_1', user(id));
+    if (bill) {
+      await expect(listing).resolves.toEqual([]);
+    } else {
+      await expect(listing).rejects.toBeInstanceOf(ForbiddenException);
+    }
+
+    const removal = service.removeMember('company_1', 'member_viewer', user(id));
+    if (manage) {
+      await expect(removal).resolves.toEqual({ success: true });
+    } else {
+      await expect(removal).rejects.toThrow('COMPANY_PERMISSION_REQUIRED');
+    }
+  });
+
+  it('hides companies from non-members', async () => {
+    await expect(service.hasPermission('company_1', user('stranger'), 'bookings.create')).resolves.toBe(false);
+    await expect(service.assertPermission('company_1', user('stranger'), 'bookings.create')).rejects.toBeInstanceOf(
+      NotFoundException
+    );
+    await expect(service.listInvoices('company_1', user('stranger'))).rejects.toThrow('COMPANY_NOT_FOUND');
+  });
+
+  it('never lets members change or remove the owner', async () => {
+    await expect(service.removeMember('company_1', 'member_owner', user('admin'))).rejects.toThrow(
+      'COMPANY_OWNER_IMMUTABLE'
+    );
+    await expect(
+      service.updateMember('company_1', 'member_owner', user('admin'), { role: 'viewer' })
+    ).rejects.toThrow('COMPANY_OWNER_IMMUTABLE');
+    expect(prisma.companyMember.delete).not.toHaveBeenCalled();
+    expect(prisma.companyMember.update).not.toHaveBeenCalled();
+  });
+
+  it('lets staff act on behalf of existing companies only', async () => {
+    const employee = user('employee_1', ['employee']);
+    await expect(service.assertPermission('company_1', employee, 'bookings.create')).resolves.toBeUndefined();
+    await expect(service.hasPermission('company_1', employee, 'members.manage')).resolves.toBe(true);
+
+    prisma.company.count.mockResolvedValue(0);
+    await expect(service.assertPermission('missing', employee, 'bookings.create')).rejects.toThrow(
+      'COMPANY_NOT_FOUND'
+    );
+  });
+});
@@ -0,0 +1,506 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CompanyBillingMode as PrismaCompanyBillingMode,
+  Prisma,
+  UserRole as PrismaUserRole,
+  type Company as PrismaCompany,
+  type CompanyInvitation as PrismaCompanyInvitation,
+  type CompanyMember as PrismaCompanyMember,
+  type Invoice as PrismaInvoice,
+} from '@prisma/client';
+import type {
+  Company,
+  CompanyBillingMode,
+  CompanyInvitation,
+  CompanyInvoice,
+  CompanyMember,
+  CompanyMemberRole,
+  CompanyPermission,
+  User,
+} from '@saubio/models';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { EmailQueueService } from '../notifications/email-queue.service';
+import { hasCompanyPermission, resolveCompanyPermissions } from './company-permissions';
+import { validateVatNumber } from './vat-number';
+import { CreateCompanyDto } from './dto/create-company.dto';
+import { UpdateCompanyDto } from './dto/update-company.dto';
+import { InviteCompanyMemberDto } from './dto/invite-company-member.dto';
+import { UpdateCompanyMemberDto } from './dto/update-company-member.dto';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type CompanyMemberWithUser = PrismaCompanyMember & {
+  user: { email: string; firstName: string | null; lastName: string | null };
+};
+
+@Injectable()
+export class CompaniesService {
+  private readonly logger = new Logger(CompaniesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly emailQueue: EmailQueueService
+  ) {}
+
+  async create(user: User, payload: CreateCompanyDto): Promise<Company> {
+    const vat = this.resolveVatNumber(payload.vatNumber, payload.address.countryCode);
+
+    const company = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.company.create({
+        data: {
+          name: payload.name.trim(),
+          vatNumber: vat.vatNumber,
+          vatNumberValidatedAt: vat.validatedAt,
+          legalForm: payload.legalForm ?? null,
+          billingEmail: payload.billingEmail.toLowerCase(),
+          billingMode: this.toPrismaBillingMode(payload.billingMode) ?? PrismaCompanyBillingMode.PER_BOOKING,
+          costCentres: this.normalizeCostCentres(payload.costCentres) ?? [],
+          phone: payload.phone ?? null,
+          streetLine1: payload.address.streetLine1,
+          streetLine2: payload.address.streetLine2 ?? null,
+          postalCode: payload.address.postalCode,
+          city: payload.address.city,
+          countryCode: payload.address.countryCode.toUpperCase(),
+          locales: payload.locales?.length ? payload.locales : undefined,
+          owner: { connect: { id: user.id } },
+          members: { create: { userId: user.id, role: 'owner', permissions: [] } },
+        },
+      });
+      await this.grantCompanyRole(tx, user.id);
+      return created;
+    });
+
+    return this.mapCompany(company);
+  }
+
+  async listForUser(user: User): Promise<Company[]> {
+    const companies = await this.prisma.company.findMany({
+      where: { members: { some: { userId: user.id } } },
+      orderBy: { name: 'asc' },
+    });
+    return companies.map((company) => this.mapCompany(company));
+  }
+
+  async get(companyId: string, user: User): Promise<Company & { role: CompanyMemberRole; permissions: CompanyPermission[] }> {
+    const member = await this.requireMember(companyId, user);
+    const company = await this.prisma.company.findUniqueOrThrow({ where: { id: companyId } });
+    return {
+      ...this.mapCompany(company),
+      role: member.role as CompanyMemberRole,
+      permissions: resolveCompanyPermissions(member),
+    };
+  }
+
+  async update(companyId: string, user: User, payload: UpdateCompanyDto): Promise<Company> {
+    await this.requirePermission(companyId, user, 'company.manage');
+    const existing = await this.prisma.company.findUniqueOrThrow({ where: { id: companyId } });
+
+    const countryCode = payload.address?.countryCode?.toUpperCase() ?? existing.countryCode;
+    const vatChanged =
+      payload.vatNumber !== undefined || (payload.address?.countryCode && countryCode !== existing.countryCode);
+    const vat = vatChanged ? this.resolveVatNumber(payload.vatNumber ?? existing.vatNumber ?? undefined, countryCode) : null;
+
+    const data: Prisma.CompanyUpdateInput = {
+      name: payload.name?.trim(),
+      legalForm: payload.legalForm,
+      billingEmail: payload.billingEmail?.toLowerCase(),
+      billingMode: this.toPrismaBillingMode(payload.billingMode),
+      costCentres: this.normalizeCostCentres(payload.costCentres),
+      phone: payload.phone,
+      locales: payload.locales,
+      ...(vat ? { vatNumber: vat.vatNumber, vatNumberValidatedAt: vat.validatedAt } : {}),
+      ...(payload.address
+        ? {
+            streetLine1: payload.address.streetLine1,
+            streetLine2: payload.address.streetLine2 ?? null,
+            postalCode: payload.address.postalCode,
+            city: payload.address.city,
+            countryCode,
+          }
+        : {}),
+    };
+
+    const updated = await this.prisma.company.update({ where: { id: companyId }, data });
+    return this.mapCompany(updated);
+  }
+
+  async listMembers(companyId: string, user: User): Promise<CompanyMember[]> {
+    await this.requireMember(companyId, user);
+    const members = await this.prisma.companyMember.findMany({
+      where: { companyId },
+      include: { user: { select: { email: true, firstName: true, lastName: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return members.map((member) => this.mapMember(member));
+  }
+
+  async updateMember(
+    companyId: string,
+    memberId: string,
+    user: User,
+    payload: UpdateCompanyMemberDto
+  ): Promise<CompanyMember> {
+    await this.requirePermission(companyId, user, 'members.manage');
+    const member = await this.findMemberOrThrow(companyId, memberId);
+    if (member.role === 'owner') {
+      throw new ForbiddenException('COMPANY_OWNER_IMMUTABLE');
+    }
+
+    const updated = await this.prisma.companyMember.update({
+      where: { id: member.id },
+      data: { role: payload.role, permissions: payload.permissions },
+      include: { user: { select: { email: true, firstName: true, lastName: true } } },
+    });
+    return this.mapMember(updated);
+  }
+
+  async removeMember(companyId: string, memberId: string, user: User) {
+    await this.requirePermission(companyId, user, 'members.manage');
+    const member = await this.findMemberOrThrow(companyId, memberId);
+    if (member.role === 'owner') {
+      throw new ForbiddenException('COMPANY_OWNER_IMMUTABLE');
+    }
+    await this.prisma.companyMember.delete({ where: { id: member.id } });
+    return { success: true };
+  }
+
+  async invite(companyId: string, user: User, payload: InviteCompanyMemberDto): Promise<CompanyInvitation> {
+    await this.requirePermission(companyId, user, 'members.manage');
+    const email = payload.email.toLowerCase();
+
+    const existingMember = await this.prisma.companyMember.findFirst({
+      where: { companyId, user: { email } },
+      select: { id: true },
+    });
+    if (existingMember) {
+      throw new ConflictException('COMPANY_MEMBER_EXISTS');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const [, invitation] = await this.prisma.$transaction([
+      this.prisma.companyInvitation.updateMany({
+        where: { companyId, email, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+      this.prisma.companyInvitation.create({
+        data: {
+          company: { connect: { id: companyId } },
+          email,
+          role: payload.role,
+          permissions: payload.permissions ?? [],
+          tokenHash: this.hashToken(token),
+          invitedBy: { connect: { id: user.id } },
+          expiresAt: new Date(now.getTime() + INVITATION_TTL_MS),
+        },
+        include: { company: { select: { name: true, locales: true } } },
+      }),
+    ]);
+
+    await this.sendInvitationEmail(invitation, token, user);
+    return this.mapInvitation(invitation);
+  }
+
+  async listInvitations(companyId: string, user: User): Promise<CompanyInvitation[]> {
+    await this.requirePermission(companyId, user, 'members.manage');
+    const invitations = await this.prisma.companyInvitation.findMany({
+      where: { companyId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return invitations.map((invitation) => this.mapInvitation(invitation));
+  }
+
+  async revokeInvitation(companyId: string, invitationId: string, user: User): Promise<CompanyInvitation> {
+    await this.requirePermission(companyId, user, 'members.manage');
+    const invitation = await this.prisma.companyInvitation.findFirst({ where: { id: invitationId, companyId } });
+    if (!invitation) {
+      throw new NotFoundException('COMPANY_INVITATION_NOT_FOUND');
+    }
+    if (invitation.acceptedAt || invitation.revokedAt) {
+      return this.mapInvitation(invitation);
+    }
+    const updated = await this.prisma.companyInvitation.update({
+      where: { id: invitation.id },
+      data: { revokedAt: new Date() },
+    });
+    return this.mapInvitation(updated);
+  }
+
+  /** Invitations are bound to the invited address; accepting one from another account is refused. */
+  async acceptInvitation(user: User, token: string): Promise<Company> {
+    const invitation = await this.prisma.companyInvitation.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { company: true },
+    });
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt <= new Date()) {
+      throw new BadRequestException('COMPANY_INVITATION_INVALID');
+    }
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new ForbiddenException('COMPANY_INVITATION_EMAIL_MISMATCH');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const accepted = await tx.companyInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+      if (!accepted.count) {
+        throw new BadRequestException('COMPANY_INVITATION_INVALID');
+      }
+      await tx.companyMember.upsert({
+        where: { companyId_userId: { companyId: invitation.companyId, userId: user.id } },
+        create: {
+          companyId: invitation.companyId,
+          userId: user.id,
+          role: invitation.role,
+          permissions: invitation.permissions,
+        },
+        update: { role: invitation.role, permissions: invitation.permissions },
+      });
+      await this.grantCompanyRole(tx, user.id);
+    });
+
+    return this.mapCompany(invitation.company);
+  }
+
+  async listInvoices(companyId: string, user: User): Promise<CompanyInvoice[]> {
+    await this.requirePermission(companyId, user, 'billing.view');
+    const invoices = await this.prisma.invoice.findMany({
+      where: { companyId, periodStart: { not: null } },
+      include: { document: { select: { url: true } }, _count: { select: { companyBookings: true } } },
+      orderBy: { periodStart: 'desc' },
+    });
+    return invoices.map((invoice) => this.mapInvoice(invoice));
+  }
+
+  /** Used by the booking flow; staff act on behalf of companies and bypass member permissions. */
+  async assertPermission(companyId: string, user: User, permission: CompanyPermission) {
+    if (this.isElevated(user)) {
+      const exists = await this.prisma.company.count({ where: { id: companyId } });
+      if (!exists) {
+        throw new NotFoundException('COMPANY_NOT_FOUND');
+      }
+      return;
+    }
+    await this.requirePermission(companyId, user, permission);
+  }
+
+  async hasPermission(companyId: string, user: User, permission: CompanyPermission) {
+    if (this.isElevated(user)) {
+      return true;
+    }
+    const member = await this.prisma.companyMember.findUnique({
+      where: { companyId_userId: { companyId, userId: user.id } },
+    });
+    return hasCompanyPermission(member, permission);
+  }
+
+  /** Companies that maintain a list of cost centres only accept bookings tagged with one of them. */
+  async resolveCostCentre(companyId: string, costCentre?: string | null) {
+    const value = costCentre?.trim();
+    if (!value) {
+      return null;
+    }
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+      select: { costCentres: true },
+    });
+    if (company?.costCentres.length && !company.costCentres.includes(value)) {
+      throw new BadRequestException('COMPANY_COST_CENTRE_UNKNOWN');
+    }
+    return value;
+  }
+
+  private async requireMember(companyId: string, user: User) {
+    const member = await this.prisma.companyMember.findUnique({
+      where: { companyId_userId: { companyId, userId: user.id } },
+    });
+    if (!member) {
+      if (this.isElevated(user)) {
+        const company = await this.prisma.company.findUnique({ where: { id: companyId }, select: { id: true } });
+        if (company) {
+          return { role: 'admin', permissions: [] as string[] };
+        }
+      }
+      throw new NotFoundException('COMPANY_NOT_FOUND');
+    }
+    return member;
+  }
+
+  private async requirePermission(companyId: string, user: User, permission: CompanyPermission) {
+    const member = await this.requireMember(companyId, user);
+    if (!hasCompanyPermission(member, permission)) {
+      throw new ForbiddenException('COMPANY_PERMISSION_REQUIRED');
+    }
+    return member;
+  }
+
+  private async findMemberOrThrow(companyId: string, memberId: string) {
+    const member = await this.prisma.companyMember.findFirst({ where: { id: memberId, companyId } });
+    if (!member) {
+      throw new NotFoundException('COMPANY_MEMBER_NOT_FOUND');
+    }
+    return member;
+  }
+
+  private async grantCompanyRole(tx: Prisma.TransactionClient, userId: string) {
+    const account = await tx.user.findUnique({ where: { id: userId }, select: { roles: true } });
+    if (account && !account.roles.includes(PrismaUserRole.COMPANY)) {
+      await tx.user.update({ where: { id: userId }, data: { roles: { push: PrismaUserRole.COMPANY } } });
+    }
+  }
+
+  private resolveVatNumber(value: string | undefined, countryCode: string) {
+    if (!value?.trim()) {
+      return { vatNumber: null, validatedAt: null };
+    }
+    const result = validateVatNumber(value, countryCode);
+    if (result.error) {
+      throw new BadRequestException(result.error);
+    }
+    return { vatNumber: result.normalized, validatedAt: new Date() };
+  }
+
+  private normalizeCostCentres(values?: string[]) {
+    if (!values) {
+      return undefined;
+    }
+    return Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)));
+  }
+
+  private async sendInvitationEmail(
+    invitation: PrismaCompanyInvitation & { company: { name: string; locales: string[] } },
+    token: string,
+    inviter: User
+  ) {
+    const appUrl =
+      this.configService.get('app.appUrl' as keyof AppEnvironmentConfig) ?? 'http://localhost:3000';
+    try {
+      await this.emailQueue.enqueue({
+        to: invitation.email,
+        template: 'company.invitation',
+        payload: {
+          companyName: invitation.company.name,
+          inviterName: `${inviter.firstName ?? ''} ${inviter.lastName ?? ''}`.trim() || inviter.email,
+          locale: invitation.company.locales[0],
+          actionUrl: `${appUrl.replace(/\/+$/, '')}/company/invitations/accept?token=${encodeURIComponent(token)}`,
+          expiresInDays: INVITATION_TTL_MS / 86_400_000,
+        },
+      });
+      void this.emailQueue.triggerImmediateProcessing();
+    } catch (error) {
+      this.logger.warn(
+        `Unable to enqueue company invitation for ${invitation.email}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private hashToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private isElevated(user: User) {
+    return user.roles.includes('admin') || user.roles.includes('employee');
+  }
+
+  private toPrismaBillingMode(mode?: CompanyBillingMode) {
+    if (!mode) {
+      return undefined;
+    }
+    return mode === 'consolidated' ? PrismaCompanyBillingMode.CONSOLIDATED : PrismaCompanyBillingMode.PER_BOOKING;
+  }
+
+  private mapCompany(company: PrismaCompany): Company {
+    return {
+      id: company.id,
+      createdAt: company.createdAt.toISOString(),
+      updatedAt: company.updatedAt.toISOString(),
+      name: company.name,
+      vatNumber: company.vatNumber ?? undefined,
+      vatNumberValidatedAt: company.vatNumberValidatedAt?.toISOString(),
+      legalForm: company.legalForm ?? undefined,
+      billingEmail: company.billingEmail,
+      billingMode: company.billingMode === PrismaCompanyBillingMode.CONSOLIDATED ? 'consolidated' : 'per_booking',
+      costCentres: company.costCentres,
+      phone: company.phone ?? undefined,
+      address: {
+        streetLine1: company.streetLine1,
+        streetLine2: company.streetLine2 ?? undefined,
+        postalCode: company.postalCode,
+        city: company.city,
+        countryCode: company.countryCode,
+      },
+      locales: company.locales,
+      ecoPolicy: company.ecoPolicy ?? undefined,
+    };
+  }
+
+  private mapMember(member: CompanyMemberWithUser): CompanyMember {
+    return {
+      id: member.id,
+      createdAt: member.createdAt.toISOString(),
+      updatedAt: member.updatedAt.toISOString(),
+      companyId: member.companyId,
+      userId: member.userId,
+      email: member.user.email,
+      firstName: member.user.firstName ?? undefined,
+      lastName: member.user.lastName ?? undefined,
+      role: member.role as CompanyMemberRole,
+      permissions: resolveCompanyPermissions(member),
+    };
+  }
+
+  private mapInvitation(invitation: PrismaCompanyInvitation): CompanyInvitation {
+    const status = invitation.acceptedAt
+      ? 'accepted'
+      : invitation.revokedAt
+        ? 'revoked'
+        : invitation.expiresAt <= new Date()
+          ? 'expired'
+          : 'pending';
+    return {
+      id: invitation.id,
+      createdAt: invitation.createdAt.toISOString(),
+      updatedAt: invitation.updatedAt.toISOString(),
+      companyId: invitation.companyId,
+      email: invitation.email,
+      role: invitation.role as CompanyMemberRole,
+      permissions: invitation.permissions as CompanyPermission[],
+      status,
+      expiresAt: invitation.expiresAt.toISOString(),
+      acceptedAt: invitation.acceptedAt?.toISOString(),
+    };
+  }
+
+  private mapInvoice(
+    invoice: PrismaInvoice & { document: { url: string } | null; _count: { companyBookings: number } }
+  ): CompanyInvoice {
+    return {
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      issuedAt: invoice.issuedAt.toISOString(),
+      periodStart: invoice.periodStart!.toISOString(),
+      periodEnd: invoice.periodEnd!.toISOString(),
+      status: invoice.status,
+      currency: invoice.currency,
+      subtotalCents: invoice.subtotalCents,
+      taxCents: invoice.taxCents,
+      totalCents: invoice.totalCents,
+      bookingCount: invoice._count.companyBookings,
+      documentUrl: invoice.document?.url,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { previousBillingPeriod } from './company-billing.service';
+
+describe('previousBillingPeriod', () => {
+  it('uses Berlin month boundaries', () => {
+    // 06:00 on 1 March in Berlin.
+    expect(previousBillingPeriod(new Date('2026-03-01T05:00:00Z'))).toEqual({
+      periodStart: new Date('2026-01-31T23:00:00Z'),
+      periodEnd: new Date('2026-02-28T23:00:00Z'),
+    });
+  });
+
+  it('keeps bookings shortly after midnight on the 1st in the new month across DST', () => {
+    // 00:30 on 1 April in Berlin is still 31 March in UTC.
+    expect(previousBillingPeriod(new Date('2026-03-31T22:30:00Z'))).toEqual({
+      periodStart: new Date('2026-02-28T23:00:00Z'),
+      periodEnd: new Date('2026-03-31T22:00:00Z'),
+    });
+  });
+});
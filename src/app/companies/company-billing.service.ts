@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { CompanyBillingMode } from '@prisma/client';
+import { DateTime } from 'luxon';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailQueueService } from '../notifications/email-queue.service';
+import { InvoiceService } from '../payments/invoice/invoice.service';
+
+const BILLING_TIMEZONE = 'Europe/Berlin';
+
+/** The calendar month before `now`, with boundaries at midnight Berlin time. */
+export function previousBillingPeriod(now: Date) {
+  const currentMonth = DateTime.fromJSDate(now).setZone(BILLING_TIMEZONE).startOf('month');
+  return {
+    periodStart: currentMonth.minus({ months: 1 }).toJSDate(),
+    periodEnd: currentMonth.toJSDate(),
+  };
+}
+
+@Injectable()
+export class CompanyBillingService {
+  private readonly logger = new Logger(CompanyBillingService.name);
+  private isProcessing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly invoices: InvoiceService,
+    private readonly emailQueue: EmailQueueService
+  ) {}
+
+  /** Runs on the first of the month for the previous calendar month in Berlin time. */
+  @Cron('0 6 1 * *', { timeZone: BILLING_TIMEZONE })
+  async issueMonthlyInvoices() {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+    try {
+      const { periodStart, periodEnd } = previousBillingPeriod(new Date());
+      const companies = await this.prisma.company.findMany({
+        where: { billingMode: CompanyBillingMode.CONSOLIDATED },
+        select: { id: true },
+      });
+
+      for (const company of companies) {
+        try {
+          await this.issueInvoice(company.id, periodStart, periodEnd);
+        } catch (error) {
+          this.logger.warn(
+            `Unable to issue consolidated invoice for company ${company.id}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async issueInvoice(companyId: string, periodStart: Date, periodEnd: Date) {
+    const creditNotes = await this.invoices.creditCompanyRefunds({ companyId, periodStart, periodEnd });
+    if (creditNotes.length) {
+      this.logger.log(`Credited ${creditNotes.length} refund(s) for company ${companyId}`);
+    }
+
+    const alreadyIssued = await this.prisma.invoice.count({ where: { companyId, periodStart } });
+    if (alreadyIssued) {
+      return;
+    }
+    const result = await this.invoices.generateCompanyInvoice({ companyId, periodStart, periodEnd });
+    if (!result) {
+      return;
+    }
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+      select: { name: true, billingEmail: true, locales: true },
+    });
+    if (!company) {
+      return;
+    }
+
+    await this.emailQueue.enqueue({
+      to: company.billingEmail,
+      template: 'company.invoice.generated',
+      payload: {
+        companyName: company.name,
+        locale: company.locales[0],
+        invoiceNumber: result.invoice.invoiceNumber,
+        amountCents: result.invoice.totalCents,
+        currency: result.invoice.currency,
+        periodStart: periodStart.toISOString(),
+        documentUrl: result.document?.url ?? null,
+      },
+    });
+    void this.emailQueue.triggerImmediateProcessing();
+  }
+}
@@ -0,0 +1,29 @@
+import type { CompanyPermission } from '@saubio/models';
+import { COMPANY_PERMISSIONS, hasCompanyPermission, resolveCompanyPermissions } from './company-permissions';
+
+describe('company-permissions', () => {
+  const matrix: Record<string, CompanyPermission[]> = {
+    owner: COMPANY_PERMISSIONS,
+    admin: COMPANY_PERMISSIONS,
+    booker: ['bookings.create', 'bookings.cancel'],
+    viewer: [],
+  };
+
+  it.each(Object.entries(matrix))('grants the %s role its default permissions only', (role, expected) => {
+    for (const permission of COMPANY_PERMISSIONS) {
+      expect(hasCompanyPermission({ role, permissions: [] }, permission)).toBe(expected.includes(permission));
+    }
+  });
+
+  it('adds individually granted permissions and drops unknown ones', () => {
+    expect(
+      resolveCompanyPermissions({ role: 'booker', permissions: ['billing.view', 'billing.pay', 'bookings.create'] })
+    ).toEqual(['bookings.create', 'bookings.cancel', 'billing.view']);
+  });
+
+  it('treats unknown roles as viewers and missing members as unauthorised', () => {
+    expect(resolveCompanyPermissions({ role: 'superuser', permissions: [] })).toEqual([]);
+    expect(hasCompanyPermission(null, 'bookings.create')).toBe(false);
+    expect(hasCompanyPermission(undefined, 'billing.view')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import type { CompanyMemberRole, CompanyPermission } from '@saubio/models';
+
+export const COMPANY_MEMBER_ROLES: CompanyMemberRole[] = ['owner', 'admin', 'booker', 'viewer'];
+
+export const COMPANY_PERMISSIONS: CompanyPermission[] = [
+  'bookings.create',
+  'bookings.cancel',
+  'members.manage',
+  'company.manage',
+  'billing.view',
+];
+
+const ROLE_PERMISSIONS: Record<CompanyMemberRole, CompanyPermission[]> = {
+  owner: COMPANY_PERMISSIONS,
+  admin: COMPANY_PERMISSIONS,
+  booker: ['bookings.create', 'bookings.cancel'],
+  viewer: [],
+};
+
+/** A member holds the defaults of their role plus any permission granted to them individually. */
+export function resolveCompanyPermissions(member: { role: string; permissions: string[] }): CompanyPermission[] {
+  const role = COMPANY_MEMBER_ROLES.includes(member.role as CompanyMemberRole)
+    ? (member.role as CompanyMemberRole)
+    : 'viewer';
+  const granted = member.permissions.filter((permission): permission is CompanyPermission =>
+    COMPANY_PERMISSIONS.includes(permission as CompanyPermission)
+  );
+  return Array.from(new Set([...ROLE_PERMISSIONS[role], ...granted]));
+}
+
+export function hasCompanyPermission(
+  member: { role: string; permissions: string[] } | null | undefined,
+  permission: CompanyPermission
+) {
+  return Boolean(member && resolveCompanyPermissions(member).includes(permission));
+}
@@ -0,0 +1,82 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEmail,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import type { Address, CompanyBillingMode } from '@saubio/models';
+
+export const COMPANY_BILLING_MODES: CompanyBillingMode[] = ['per_booking', 'consolidated'];
+
+export class CompanyAddressDto implements Omit<Address, 'coordinates' | 'accessNotes'> {
+  @IsString()
+  @IsNotEmpty()
+  streetLine1!: string;
+
+  @IsOptional()
+  @IsString()
+  streetLine2?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  postalCode!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  city!: string;
+
+  @IsString()
+  @Length(2, 2)
+  countryCode!: string;
+}
+
+export class CreateCompanyDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  vatNumber?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  legalForm?: string;
+
+  @IsEmail()
+  billingEmail!: string;
+
+  @IsOptional()
+  @IsIn(COMPANY_BILLING_MODES)
+  billingMode?: CompanyBillingMode;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  @MaxLength(64, { each: true })
+  costCentres?: string[];
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @ValidateNested()
+  @Type(() => CompanyAddressDto)
+  address!: CompanyAddressDto;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  locales?: string[];
+}
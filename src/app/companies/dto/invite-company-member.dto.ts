@@ -0,0 +1,20 @@
+import { ArrayUnique, IsArray, IsEmail, IsIn, IsOptional } from 'class-validator';
+import type { CompanyMemberRole, CompanyPermission } from '@saubio/models';
+import { COMPANY_PERMISSIONS } from '../company-permissions';
+
+export const ASSIGNABLE_COMPANY_ROLES: CompanyMemberRole[] = ['admin', 'booker', 'viewer'];
+
+export class InviteCompanyMemberDto {
+  @IsEmail()
+  email!: string;
+
+  @IsIn(ASSIGNABLE_COMPANY_ROLES)
+  role!: CompanyMemberRole;
+
+  /** Extra permissions on top of the role defaults. */
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(COMPANY_PERMISSIONS, { each: true })
+  permissions?: CompanyPermission[];
+}
@@ -0,0 +1,16 @@
+import { ArrayUnique, IsArray, IsIn, IsOptional } from 'class-validator';
+import type { CompanyMemberRole, CompanyPermission } from '@saubio/models';
+import { COMPANY_PERMISSIONS } from '../company-permissions';
+import { ASSIGNABLE_COMPANY_ROLES } from './invite-company-member.dto';
+
+export class UpdateCompanyMemberDto {
+  @IsOptional()
+  @IsIn(ASSIGNABLE_COMPANY_ROLES)
+  role?: CompanyMemberRole;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(COMPANY_PERMISSIONS, { each: true })
+  permissions?: CompanyPermission[];
+}
@@ -0,0 +1,18 @@
+import { validateVatNumber } from './vat-number';
+
+describe('validateVatNumber', () => {
+  it('normalizes and accepts a German number with a valid check digit', () => {
+    expect(validateVatNumber('de 136 695 976', 'DE')).toEqual({ normalized: 'DE136695976', error: null });
+  });
+
+  it('rejects a wrong German check digit', () => {
+    expect(validateVatNumber('DE136695975').error).toBe('VAT_NUMBER_CHECKSUM_INVALID');
+  });
+
+  it('checks the national format and the company country', () => {
+    expect(validateVatNumber('NL123456789B01', 'NL')).toEqual({ normalized: 'NL123456789B01', error: null });
+    expect(validateVatNumber('EL123456789', 'GR')).toEqual({ normalized: 'EL123456789', error: null });
+    expect(validateVatNumber('FR123', 'FR').error).toBe('VAT_NUMBER_FORMAT_INVALID');
+    expect(validateVatNumber('ATU12345678', 'DE').error).toBe('VAT_NUMBER_COUNTRY_MISMATCH');
+  });
+});
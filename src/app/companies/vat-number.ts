@@ -0,0 +1,75 @@
+/**
+ * Offline validation of EU VAT identification numbers: country prefix, national format and, for
+ * German numbers, the ISO 7064 MOD 11,10 check digit used by the Bundeszentralamt für Steuern.
+ */
+const VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^\d[A-Z0-9+*]\d{5}[A-W][A-I]?$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+export type VatNumberError = 'VAT_NUMBER_FORMAT_INVALID' | 'VAT_NUMBER_COUNTRY_MISMATCH' | 'VAT_NUMBER_CHECKSUM_INVALID';
+
+export interface VatNumberValidation {
+  normalized: string;
+  error: VatNumberError | null;
+}
+
+export function normalizeVatNumber(value: string) {
+  return value.toUpperCase().replace(/[\s.\-]/g, '');
+}
+
+export function validateVatNumber(value: string, countryCode?: string): VatNumberValidation {
+  const normalized = normalizeVatNumber(value);
+  const prefix = normalized.slice(0, 2);
+  const format = VAT_FORMATS[prefix];
+  if (!format || !format.test(normalized.slice(2))) {
+    return { normalized, error: 'VAT_NUMBER_FORMAT_INVALID' };
+  }
+  // Greece issues VAT numbers with the EL prefix while its ISO country code is GR.
+  const expectedPrefix = countryCode?.toUpperCase() === 'GR' ? 'EL' : countryCode?.toUpperCase();
+  if (expectedPrefix && expectedPrefix !== prefix) {
+    return { normalized, error: 'VAT_NUMBER_COUNTRY_MISMATCH' };
+  }
+  if (prefix === 'DE' && !hasValidGermanCheckDigit(normalized.slice(2))) {
+    return { normalized, error: 'VAT_NUMBER_CHECKSUM_INVALID' };
+  }
+  return { normalized, error: null };
+}
+
+function hasValidGermanCheckDigit(digits: string) {
+  let product = 10;
+  for (let index = 0; index < 8; index += 1) {
+    let sum = (Number(digits[index]) + product) % 10;
+    if (sum === 0) {
+      sum = 10;
+    }
+    product = (2 * sum) % 11;
+  }
+  const checkDigit = (11 - product) % 10;
+  return checkDigit === Number(digits[8]);
+}
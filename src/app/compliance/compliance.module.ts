@@ -5,12 +5,13 @@ import { NotificationsModule } from '../notifications/notifications.module';
 import { AppConfigModule } from '../config/app-config.module';
 import { GdprController } from './gdpr.controller';
 import { GdprService } from './gdpr.service';
+import { GdprErasureService } from './gdpr-erasure.service';
 import { ConsentsController } from './consents.controller';
 import { ConsentsService } from './consents.service';
 
 @Module({
   imports: [AuthModule, PrismaModule, NotificationsModule, AppConfigModule],
   controllers: [GdprController, ConsentsController],
-  providers: [GdprService, ConsentsService],
+  providers: [GdprService, GdprErasureService, ConsentsService],
 })
 export class ComplianceModule {}
@@ -0,0 +1,192 @@
+import { ConfigService } from '@nestjs/config';
+import type { GdprRequest, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { hashedSuppressionEmail } from '../notifications/email-delivery-events';
+import { GdprErasureService } from './gdpr-erasure.service';
+import { anonymisedEmail, verifyErasureReport } from './gdpr-erasure';
+
+type ModelMock = Record<string, jest.Mock>;
+
+/** Every model method resolves to an empty result unless a test overrides it. */
+function createPrismaMock(overrides: Record<string, ModelMock>) {
+  const models = new Map<string, ModelMock>();
+  const model = (name: string) => {
+    if (!models.has(name)) {
+      const methods: ModelMock = { ...overrides[name] };
+      models.set(
+        name,
+        new Proxy(methods, {
+          get: (target, method: string) =>
+            (target[method] ??= jest.fn(async () =>
+              method === 'findMany' ? [] : method === 'count' ? 0 : { count: 1 }
+            )),
+        })
+      );
+    }
+    return models.get(name)!;
+  };
+  const client: Record<string, unknown> = new Proxy(
+    {},
+    {
+      get: (_target, name: string) =>
+        name === '$transaction' ? (callback: (tx: unknown) => Promise<unknown>) => callback(client) : model(name),
+    }
+  );
+  return { client, model };
+}
+
+describe('GdprErasureService', () => {
+  const actor = { id: 'admin_1', label: 'Admin' };
+  let request: GdprRequest;
+  let audits: Array<{ action: string; metadata: Prisma.JsonValue }>;
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let service: GdprErasureService;
+
+  beforeEach(() => {
+    request = { id: 'req_1', userId: 'usr_1', userEmail: 'jane@example.com', metadata: null } as GdprRequest;
+    audits = [];
+    prisma = createPrismaMock({
+      user: {
+        findUnique: jest.fn(async () => ({
+          id: 'usr_1',
+          email: 'jane@example.com',
+          phone: '+4915112345678',
+          providerProfile: null,
+          clientProfile: { id: 'client_1' },
+        })),
+      },
+      gdprRequest: {
+        findUniqueOrThrow: jest.fn(async () => ({ metadata: request.metadata })),
+        update: jest.fn(async ({ data }: { data: { metadata: Prisma.JsonValue } }) => {
+          request = { ...request, metadata: data.metadata };
+          return request;
+        }),
+      },
+      gdprRequestAudit: {
+        findFirst: jest.fn(async () => audits.find((audit) => audit.action === 'erasure_report') ?? null),
+        create: jest.fn(async ({ data }: { data: { action: string; metadata: Prisma.JsonValue } }) => {
+          audits.push({ action: data.action, metadata: data.metadata });
+          return data;
+        }),
+      },
+      invoice: { count: jest.fn(async () => 2) },
+      payment: { count: jest.fn(async () => 3) },
+    });
+    service = new GdprErasureService(
+      prisma.client as unknown as PrismaService,
+      { get: jest.fn(() => 'report-secret-0123456789') } as unknown as ConfigService<AppEnvironmentConfig>
+    );
+  });
+
+  it('resumes a failed erasure with the remaining steps and keeps invoices and payments', async () => {
+    prisma.model('supportMessage').updateMany = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValue({ count: 1 });
+
+    await expect(service.run(request, actor)).rejects.toThrow('connection reset');
+    expect(service.completedSteps(request.metadata)).toEqual(['sessions', 'notifications', 'profiles', 'bookings']);
+    expect(prisma.model('payment').updateMany).not.toHaveBeenCalled();
+    expect(prisma.model('user').updateMany).not.toHaveBeenCalled();
+
+    const report = await service.run(request, actor);
+
+    expect(prisma.model('refreshToken').deleteMany).toHaveBeenCalledTimes(1);
+    expect(prisma.model('booking').updateMany).toHaveBeenCalledTimes(1);
+    expect(report.steps.map((step) => step.step)).toEqual([
+      'sessions',
+      'notifications',
+      'profiles',
+      'bookings',
+      'messages',
+      'documents',
+      'payments',
+      'marketing',
+      'email_deliveries',
+      'company_invitations',
+      'webhooks',
+      'account',
+    ]);
+    expect(report.retained).toEqual({ invoices: 2, payments: 3, payouts: 0 });
+    for (const retained of ['invoice', 'payment']) {
+      expect(prisma.model(retained).delete).not.toHaveBeenCalled();
+      expect(prisma.model(retained).deleteMany).not.toHaveBeenCalled();
+    }
+    expect(prisma.model('payment').updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { billingName: null, billingEmail: null, paymentMethodSnapshot: expect.anything() },
+      })
+    );
+
+    const stored = audits.find((audit) => audit.action === 'erasure_report')!.metadata as {
+      report: Parameters<typeof verifyErasureReport>[0];
+      signature: string;
+    };
+    expect(verifyErasureReport(stored.report, stored.signature, 'report-secret-0123456789')).toBe(true);
+  });
+
+  it('returns the stored report once the erasure is complete', async () => {
+    const first = await service.run(request, actor);
+    const calls = prisma.model('refreshToken').deleteMany.mock.calls.length;
+
+    await expect(service.run(request, actor)).resolves.toEqual(first);
+    expect(prisma.model('refreshToken').deleteMany).toHaveBeenCalledTimes(calls);
+  });
+
+  it('refuses to run without a report secret', async () => {
+    const unsigned = new GdprErasureService(
+      prisma.client as unknown as PrismaService,
+      { get: jest.fn(() => undefined) } as unknown as ConfigService<AppEnvironmentConfig>
+    );
+
+    await expect(unsigned.run(request, actor)).rejects.toThrow('GDPR_REPORT_SECRET_NOT_CONFIGURED');
+    expect(prisma.model('refreshToken').deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('anonymises the recipient of e-mail delivery events', async () => {
+    await service.run(request, actor);
+
+    expect(prisma.model('emailDeliveryEvent').updateMany).toHaveBeenCalledWith({
+      where: { recipient: { equals: 'jane@example.com', mode: 'insensitive' } },
+      data: { recipient: anonymisedEmail('usr_1') },
+    });
+  });
+
+  it('keeps an e-mail suppression only as a hash of the address', async () => {
+    const suppressions = prisma.model('emailSuppression');
+    suppressions.findUnique = jest.fn(async ({ where }: { where: { email: string } }) =>
+      where.email === 'jane@example.com' ? { id: 'suppression_1' } : null
+    );
+
+    await service.run(request, actor);
+
+    expect(suppressions.update).toHaveBeenCalledWith({
+      where: { id: 'suppression_1' },
+      data: { email: hashedSuppressionEmail('jane@example.com'), details: null },
+    });
+    expect(suppressions.delete).not.toHaveBeenCalled();
+  });
+
+  it('deletes company invitations sent to the address', async () => {
+    await service.run(request, actor);
+
+    expect(prisma.model('companyInvitation').deleteMany).toHaveBeenCalledWith({
+      where: { email: { equals: 'jane@example.com', mode: 'insensitive' } },
+    });
+  });
+
+  it('clears the payloads of webhook logs about the user, including SMS status callbacks', async () => {
+    await service.run(request, actor);
+
+    const [{ where, data }] = prisma.model('webhookEventLog').updateMany.mock.calls[0];
+    expect(where.OR).toEqual(
+      expect.arrayContaining([
+        { userId: 'usr_1' },
+        { booking: { clientId: 'usr_1' } },
+        { provider: 'twilio', payload: { path: ['To'], equals: '+4915112345678' } },
+      ])
+    );
+    expect(data).toEqual({ headers: expect.anything(), payload: expect.anything() });
+  });
+});
@@ -0,0 +1,542 @@
+import { Injectable, InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { DocumentType, Prisma } from '@prisma/client';
+import type { GdprRequest } from '@prisma/client';
+import type { AdminGdprErasureReport, GdprErasureReport } from '@saubio/models';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { hashedSuppressionEmail, normalizeEmailAddress } from '../notifications/email-delivery-events';
+import {
+  anonymisedEmail,
+  ERASED_NAME,
+  ERASED_TEXT,
+  ERASURE_REPORT_ALGORITHM,
+  hashIdentifier,
+  signErasureReport,
+  verifyErasureReport,
+} from './gdpr-erasure';
+
+type ActorContext = { id: string; label: string };
+
+type ErasureSubject = {
+  userId: string;
+  email: string;
+  phone: string | null;
+  providerProfileId: string | null;
+  clientProfileId: string | null;
+};
+
+type ErasureStep = {
+  name: string;
+  run: (tx: Prisma.TransactionClient, subject: ErasureSubject) => Promise<number>;
+};
+
+type ErasureProgress = {
+  subjectEmailHash?: string;
+  steps?: Record<string, { affected: number; completedAt: string }>;
+};
+
+/** Documents kept for statutory retention: invoices, credit notes and payout statements. */
+const RETAINED_DOCUMENT_CATEGORIES = new Set(['client_invoice', 'credit_note', 'company_invoice', 'payout_statement']);
+
+/**
+ * Erasure of a user's personal data for a GDPR deletion request. Every step runs in its own transaction together
+ * with the progress stored in `GdprRequest.metadata.erasure`, so a failed run resumes with the remaining steps.
+ * Invoices and payments must be kept for tax law; they are anonymised rather than deleted. The user row itself
+ * stays (payments and invoices reference it) but no longer identifies anyone, and is anonymised last because the
+ * earlier steps match records by e-mail address.
+ */
+@Injectable()
+export class GdprErasureService {
+  private readonly logger = new Logger(GdprErasureService.name);
+
+  private readonly steps: ErasureStep[] = [
+    { name: 'sessions', run: (tx, subject) => this.eraseSessions(tx, subject) },
+    { name: 'notifications', run: (tx, subject) => this.eraseNotifications(tx, subject) },
+    { name: 'profiles', run: (tx, subject) => this.eraseProfiles(tx, subject) },
+    { name: 'bookings', run: (tx, subject) => this.eraseBookingContacts(tx, subject) },
+    { name: 'messages', run: (tx, subject) => this.eraseMessages(tx, subject) },
+    { name: 'documents', run: (tx, subject) => this.eraseDocuments(tx, subject) },
+    { name: 'payments', run: (tx, subject) => this.anonymisePayments(tx, subject) },
+    { name: 'marketing', run: (tx, subject) => this.eraseMarketing(tx, subject) },
+    { name: 'email_deliveries', run: (tx, subject) => this.eraseEmailDeliveries(tx, subject) },
+    { name: 'company_invitations', run: (tx, subject) => this.eraseCompanyInvitations(tx, subject) },
+    { name: 'webhooks', run: (tx, subject) => this.eraseWebhookPayloads(tx, subject) },
+    { name: 'account', run: (tx, subject) => this.anonymiseAccount(tx, subject) },
+  ];
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService<AppEnvironmentConfig>
+  ) {}
+
+  /** Runs the remaining steps and stores the signed report; calling it again after completion is a no-op. */
+  async run(request: GdprRequest, actor: ActorContext): Promise<GdprErasureReport> {
+    const secret = this.reportSecret();
+    const existing = await this.findReport(request.id);
+    if (existing) {
+      return existing.report;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: request.userId },
+      select: {
+        id: true,
+        email: true,
+        phone: true,
+        providerProfile: { select: { id: true } },
+        clientProfile: { select: { id: true } },
+      },
+    });
+    if (!user) {
+      throw new NotFoundException('USER_NOT_FOUND');
+    }
+
+    const progress = this.readProgress(request.metadata);
+    // On a resumed run the account may already be anonymised; the address on the request is the original one.
+    const subject: ErasureSubject = {
+      userId: user.id,
+      email: request.userEmail,
+      phone: user.phone,
+      providerProfileId: user.providerProfile?.id ?? null,
+      clientProfileId: user.clientProfile?.id ?? null,
+    };
+    const subjectEmailHash = progress.subjectEmailHash ?? hashIdentifier(subject.email);
+    const completed = { ...(progress.steps ?? {}) };
+
+    for (const step of this.steps) {
+      if (completed[step.name]) {
+        continue;
+      }
+      if (step.name === 'documents') {
+        await this.removeStoredFiles(subject);
+      }
+      completed[step.name] = await this.prisma.$transaction(async (tx) => {
+        const affected = await step.run(tx, subject);
+        const entry = { affected, completedAt: new Date().toISOString() };
+        const current = await tx.gdprRequest.findUniqueOrThrow({
+          where: { id: request.id },
+          select: { metadata: true },
+        });
+        await tx.gdprRequest.update({
+          where: { id: request.id },
+          data: {
+            metadata: this.withProgress(current.metadata, {
+              subjectEmailHash,
+              steps: { ...completed, [step.name]: entry },
+            }),
+            auditLogs: {
+              create: {
+                action: 'erasure_step',
+                actorId: actor.id,
+                actorLabel: actor.label,
+                metadata: { step: step.name, affected },
+              },
+            },
+          },
+        });
+        return entry;
+      });
+      this.logger.log(`GDPR request ${request.id}: erasure step ${step.name} done (${completed[step.name].affected})`);
+    }
+
+    const [invoices, payments, payouts] = await Promise.all([
+      this.prisma.invoice.count({
+        where: { OR: [{ booking: { clientId: subject.userId } }, { payment: { clientId: subject.userId } }] },
+      }),
+      this.prisma.payment.count({ where: { clientId: subject.userId } }),
+      subject.providerProfileId
+        ? this.prisma.providerPayout.count({ where: { providerId: subject.providerProfileId } })
+        : Promise.resolve(0),
+    ]);
+    const report: GdprErasureReport = {
+      requestId: request.id,
+      subjectId: subject.userId,
+      subjectEmailHash,
+      steps: this.steps.map((step) => ({ step: step.name, ...completed[step.name] })),
+      retained: { invoices, payments, payouts },
+      executedBy: actor.label,
+      completedAt: new Date().toISOString(),
+    };
+    await this.prisma.gdprRequestAudit.create({
+      data: {
+        request: { connect: { id: request.id } },
+        action: 'erasure_report',
+        actor: { connect: { id: actor.id } },
+        actorLabel: actor.label,
+        metadata: {
+          report: report as unknown as Prisma.JsonObject,
+          algorithm: ERASURE_REPORT_ALGORITHM,
+          signature: signErasureReport(report, secret),
+        },
+      },
+    });
+    return report;
+  }
+
+  async getReport(requestId: string): Promise<AdminGdprErasureReport> {
+    const stored = await this.findReport(requestId);
+    if (!stored) {
+      throw new NotFoundException('GDPR_ERASURE_REPORT_NOT_FOUND');
+    }
+    return {
+      ...stored,
+      signatureValid: verifyErasureReport(stored.report, stored.signature, this.reportSecret()),
+    };
+  }
+
+  completedSteps(metadata: Prisma.JsonValue | null): string[] {
+    return Object.keys(this.readProgress(metadata).steps ?? {});
+  }
+
+  private async eraseSessions(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const results = await Promise.all([
+      tx.refreshToken.deleteMany({ where: { userId: subject.userId } }),
+      tx.authToken.deleteMany({ where: { userId: subject.userId } }),
+      tx.pushSubscription.deleteMany({ where: { userId: subject.userId } }),
+      tx.userTwoFactor.deleteMany({ where: { userId: subject.userId } }),
+      tx.loginAttempt.deleteMany({
+        where: { OR: [{ userId: subject.userId }, { email: { equals: subject.email, mode: 'insensitive' } }] },
+      }),
+    ]);
+    return this.sum(results);
+  }
+
+  private async eraseNotifications(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const results = await Promise.all([
+      tx.notification.deleteMany({ where: { userId: subject.userId } }),
+      tx.notificationPreference.deleteMany({ where: { userId: subject.userId } }),
+      tx.userPreference.deleteMany({ where: { userId: subject.userId } }),
+      tx.smsMessage.deleteMany({ where: { userId: subject.userId } }),
+      // Delivery events reference queued e-mails, so those are blanked rather than deleted.
+      tx.emailQueue.updateMany({
+        where: { to: { equals: subject.email, mode: 'insensitive' } },
+        data: { to: anonymisedEmail(subject.userId), payload: {} },
+      }),
+    ]);
+    return this.sum(results);
+  }
+
+  private async eraseProfiles(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const results = [await tx.userProfileAudit.deleteMany({ where: { userId: subject.userId } })];
+    if (subject.clientProfileId) {
+      results.push(
+        await tx.clientAddress.deleteMany({ where: { profileId: subject.clientProfileId } }),
+        await tx.clientProfile.updateMany({
+          where: { id: subject.clientProfileId },
+          data: { favouriteProviders: [], defaultPaymentMethodId: null },
+        })
+      );
+    }
+    if (subject.providerProfileId) {
+      results.push(
+        await tx.providerProfile.updateMany({
+          where: { id: subject.providerProfileId },
+          data: {
+            bio: null,
+            gender: null,
+            birthDate: null,
+            birthCity: null,
+            birthCountry: null,
+            nationality: null,
+            addressStreetLine1: null,
+            addressStreetLine2: null,
+            addressPostalCode: null,
+            addressCity: null,
+            addressRegion: null,
+            payoutAccountHolder: null,
+            payoutIbanMasked: null,
+            payoutIbanCountry: null,
+            payoutBankName: null,
+            payoutLast4: null,
+            pendingPhoneNumber: null,
+            phoneVerificationCode: null,
+            phoneVerificationExpiresAt: null,
+            identityVerificationNotes: null,
+            onfidoApplicantId: null,
+            onfidoWorkflowRunId: null,
+            onfidoCheckId: null,
+            onfidoReportIds: [],
+            payoutReady: false,
+          },
+        }),
+        await tx.providerAvailabilitySlot.deleteMany({ where: { providerId: subject.providerProfileId } }),
+        await tx.providerTimeOff.deleteMany({ where: { providerId: subject.providerProfileId } })
+      );
+    }
+    return this.sum(results);
+  }
+
+  /** The service address keeps postcode and city (place of supply on the retained invoices); the rest goes. */
+  private async eraseBookingContacts(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const result = await tx.booking.updateMany({
+      where: { clientId: subject.userId },
+      data: {
+        contactFirstName: null,
+        contactLastName: null,
+        contactCompany: null,
+        contactPhone: null,
+        contactStreetLine1: null,
+        contactStreetLine2: null,
+        contactPostalCode: null,
+        contactCity: null,
+        contactCountryCode: null,
+        contactAccessNotes: null,
+        onsiteContactFirstName: null,
+        onsiteContactLastName: null,
+        onsiteContactPhone: null,
+        addressStreetLine1: ERASED_TEXT,
+        addressStreetLine2: null,
+        addressAccessNotes: null,
+        addressLatitude: null,
+        addressLongitude: null,
+        addressPointSource: null,
+        billingStreetLine1: null,
+        billingStreetLine2: null,
+        billingAccessNotes: null,
+        notes: null,
+        additionalInstructions: null,
+        cleaningPreferences: Prisma.DbNull,
+        guestToken: null,
+      },
+    });
+    return result.count;
+  }
+
+  private async eraseMessages(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const results = await Promise.all([
+      tx.supportMessage.updateMany({ where: { authorId: subject.userId }, data: { content: ERASED_TEXT } }),
+      tx.supportTicket.updateMany({
+        where: { requesterId: subject.userId },
+        data: { subject: ERASED_TEXT, description: ERASED_TEXT },
+      }),
+      tx.disputeMessage.updateMany({
+        where: { authorId: subject.userId },
+        data: { message: ERASED_TEXT, attachments: Prisma.DbNull },
+      }),
+      tx.review.updateMany({ where: { authorId: subject.userId }, data: { comment: null } }),
+    ]);
+    return this.sum(results);
+  }
+
+  /**
+   * Uploaded files and identity documents are blanked; the rows stay because reviews and identity audit logs
+   * reference them. Mission photos stay with the booking they document.
+   */
+  private async eraseDocuments(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const documents = await this.findErasableDocuments(tx, subject);
+    const erasedAt = new Date().toISOString();
+    for (const document of documents) {
+      await tx.document.update({
+        where: { id: document.id },
+        data: { url: '', name: null, reviewNotes: null, metadata: { erased: true, erasedAt } },
+      });
+    }
+    const exports = await tx.gdprRequest.updateMany({
+      where: { userId: subject.userId, exportPath: { not: null } },
+      data: { exportPath: null, exportReadyAt: null, exportExpiresAt: null },
+    });
+    return documents.length + exports.count;
+  }
+
+  private async anonymisePayments(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const results = await Promise.all([
+      tx.payment.updateMany({
+        where: { clientId: subject.userId },
+        data: { billingName: null, billingEmail: null, paymentMethodSnapshot: Prisma.DbNull },
+      }),
+      tx.paymentMandate.updateMany({
+        where: { clientId: subject.userId },
+        data: { customerIp: null, customerUserAgent: null, fingerprint: null, metadata: Prisma.DbNull },
+      }),
+    ]);
+    return this.sum(results);
+  }
+
+  /** Consent records stay as proof of what was agreed, without the device details. */
+  private async eraseMarketing(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const results = await Promise.all([
+      tx.referralInvite.updateMany({
+        where: {
+          OR: [{ referredUserId: subject.userId }, { referredEmail: { equals: subject.email, mode: 'insensitive' } }],
+        },
+        data: { referredEmail: anonymisedEmail(subject.userId) },
+      }),
+      tx.marketingCampaignRecipient.updateMany({
+        where: { userId: subject.userId },
+        data: { email: anonymisedEmail(subject.userId) },
+      }),
+      tx.userConsentHistory.updateMany({
+        where: { userId: subject.userId },
+        data: { ipAddress: null, userAgent: null },
+      }),
+    ]);
+    return this.sum(results);
+  }
+
+  /** Suppressions stay as a hash of the address, so a bounce or an opt-out still applies if it comes back. */
+  private async eraseEmailDeliveries(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const events = await tx.emailDeliveryEvent.updateMany({
+      where: { recipient: { equals: subject.email, mode: 'insensitive' } },
+      data: { recipient: anonymisedEmail(subject.userId) },
+    });
+    const email = normalizeEmailAddress(subject.email);
+    const hashed = hashedSuppressionEmail(subject.email);
+    const suppression = await tx.emailSuppression.findUnique({ where: { email }, select: { id: true } });
+    if (!suppression) {
+      return events.count;
+    }
+    const kept = await tx.emailSuppression.findUnique({ where: { email: hashed }, select: { id: true } });
+    if (kept) {
+      await tx.emailSuppression.delete({ where: { id: suppression.id } });
+    } else {
+      await tx.emailSuppression.update({ where: { id: suppression.id }, data: { email: hashed, details: null } });
+    }
+    return events.count + 1;
+  }
+
+  private async eraseCompanyInvitations(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const result = await tx.companyInvitation.deleteMany({
+      where: { email: { equals: subject.email, mode: 'insensitive' } },
+    });
+    return result.count;
+  }
+
+  /** Webhook logs stay for operations; the payloads and headers they carry (phone numbers, SMS status) go. */
+  private async eraseWebhookPayloads(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const result = await tx.webhookEventLog.updateMany({
+      where: {
+        OR: [
+          { userId: subject.userId },
+          { booking: { clientId: subject.userId } },
+          { payment: { clientId: subject.userId } },
+          ...(subject.providerProfileId ? [{ providerProfileId: subject.providerProfileId }] : []),
+          ...(subject.phone ? [{ provider: 'twilio', payload: { path: ['To'], equals: subject.phone } }] : []),
+        ],
+      },
+      data: { headers: Prisma.DbNull, payload: Prisma.DbNull },
+    });
+    return result.count;
+  }
+
+  private async anonymiseAccount(tx: Prisma.TransactionClient, subject: ErasureSubject) {
+    const email = anonymisedEmail(subject.userId);
+    const [user, requests] = await Promise.all([
+      tx.user.updateMany({
+        where: { id: subject.userId },
+        data: {
+          email,
+          firstName: ERASED_NAME,
+          lastName: '',
+          phone: null,
+          hashedPassword: null,
+          emailVerifiedAt: null,
+          referralCode: null,
+          isActive: false,
+        },
+      }),
+      tx.gdprRequest.updateMany({ where: { userId: subject.userId }, data: { userEmail: email } }),
+    ]);
+    return user.count + requests.count;
+  }
+
+  /** Files cannot be part of the transaction; removing them first keeps a retried step from leaving any behind. */
+  private async removeStoredFiles(subject: ErasureSubject) {
+    const documents = await this.findErasableDocuments(this.prisma, subject);
+    const exports = await this.prisma.gdprRequest.findMany({
+      where: { userId: subject.userId, exportPath: { not: null } },
+      select: { exportPath: true },
+    });
+    const paths = [
+      ...documents.map((document) => this.storedFilePath(document.metadata)),
+      ...exports.map((request) => request.exportPath),
+    ].filter((path): path is string => Boolean(path));
+
+    for (const path of paths) {
+      try {
+        await fs.unlink(path);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async findErasableDocuments(client: Prisma.TransactionClient, subject: ErasureSubject) {
+    const documents = await client.document.findMany({
+      where: {
+        OR: [
+          { uploadedById: subject.userId },
+          ...(subject.providerProfileId ? [{ providerId: subject.providerProfileId }] : []),
+        ],
+        type: { not: DocumentType.INVOICE },
+        providerPayoutId: null,
+        invoice: { is: null },
+      },
+      select: { id: true, metadata: true },
+    });
+    return documents.filter((document) => {
+      const metadata = this.asRecord(document.metadata);
+      return (
+        !metadata.erased &&
+        !metadata.evidence &&
+        !(typeof metadata.category === 'string' && RETAINED_DOCUMENT_CATEGORIES.has(metadata.category))
+      );
+    });
+  }
+
+  /** Only files inside the generated storage folder are removed, whatever the metadata says. */
+  private storedFilePath(metadata: Prisma.JsonValue | null) {
+    const filePath = this.asRecord(metadata).filePath;
+    if (typeof filePath !== 'string') {
+      return null;
+    }
+    const root = join(process.cwd(), 'generated');
+    const resolved = resolve(filePath);
+    return resolved.startsWith(`${root}/`) ? resolved : null;
+  }
+
+  private async findReport(requestId: string) {
+    const entry = await this.prisma.gdprRequestAudit.findFirst({
+      where: { requestId, action: 'erasure_report' },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!entry) {
+      return null;
+    }
+    const metadata = this.asRecord(entry.metadata);
+    return {
+      report: metadata.report as unknown as GdprErasureReport,
+      algorithm: typeof metadata.algorithm === 'string' ? metadata.algorithm : ERASURE_REPORT_ALGORITHM,
+      signature: typeof metadata.signature === 'string' ? metadata.signature : '',
+    };
+  }
+
+  private readProgress(metadata: Prisma.JsonValue | null): ErasureProgress {
+    const erasure = this.asRecord(metadata).erasure;
+    return erasure && typeof erasure === 'object' && !Array.isArray(erasure) ? (erasure as ErasureProgress) : {};
+  }
+
+  private withProgress(metadata: Prisma.JsonValue | null, progress: ErasureProgress): Prisma.JsonObject {
+    return { ...this.asRecord(metadata), erasure: progress as unknown as Prisma.JsonObject } as Prisma.JsonObject;
+  }
+
+  private asRecord(value: Prisma.JsonValue | null): Record<string, Prisma.JsonValue> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, Prisma.JsonValue>) : {};
+  }
+
+  private sum(results: { count: number }[]) {
+    return results.reduce((total, result) => total + result.count, 0);
+  }
+
+  private reportSecret() {
+    const secret = this.configService.get('app.gdprReportSecret' as keyof AppEnvironmentConfig);
+    if (typeof secret !== 'string' || !secret) {
+      throw new InternalServerErrorException('GDPR_REPORT_SECRET_NOT_CONFIGURED');
+    }
+    return secret;
+  }
+}
@@ -0,0 +1,36 @@
+import {
+  anonymisedEmail,
+  canonicalJson,
+  hashIdentifier,
+  signErasureReport,
+  verifyErasureReport,
+} from './gdpr-erasure';
+
+describe('gdpr erasure', () => {
+  const report = {
+    requestId: 'req_1',
+    steps: [{ step: 'sessions', affected: 3 }],
+    retained: { invoices: 2, payments: 2 },
+  };
+
+  it('serialises reports independently of key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: null, e: 'x' }], c: undefined } })).toBe(
+      '{"a":{"d":[2,{"e":"x","f":null}]},"b":1}'
+    );
+  });
+
+  it('signs reports and detects tampering', () => {
+    const signature = signErasureReport(report, 'secret');
+    const reordered = { retained: { payments: 2, invoices: 2 }, steps: report.steps, requestId: 'req_1' };
+
+    expect(verifyErasureReport(reordered, signature, 'secret')).toBe(true);
+    expect(verifyErasureReport({ ...report, retained: { invoices: 0, payments: 2 } }, signature, 'secret')).toBe(false);
+    expect(verifyErasureReport(report, signature, 'other-secret')).toBe(false);
+    expect(verifyErasureReport(report, 'not-a-signature', 'secret')).toBe(false);
+  });
+
+  it('hashes identifiers case-insensitively and anonymises addresses per user', () => {
+    expect(hashIdentifier(' Jane@Example.com ')).toBe(hashIdentifier('jane@example.com'));
+    expect(anonymisedEmail('usr_1')).toBe('erased+usr_1@erased.invalid');
+  });
+});
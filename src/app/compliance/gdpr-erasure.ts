@@ -0,0 +1,39 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+
+export const ERASED_NAME = 'Gelöscht';
+export const ERASED_TEXT = '[gelöscht]';
+export const ERASURE_REPORT_ALGORITHM = 'HMAC-SHA256';
+
+/** Keeps `User.email` unique and clearly non-deliverable after erasure. */
+export function anonymisedEmail(userId: string) {
+  return `erased+${userId}@erased.invalid`;
+}
+
+/** Lets the data protection officer check a report against an address without the report storing it. */
+export function hashIdentifier(value: string) {
+  return createHash('sha256').update(value.trim().toLowerCase()).digest('hex');
+}
+
+/** JSON with object keys sorted at every level, so the signature does not depend on key order. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((entry) => canonicalJson(entry === undefined ? null : entry)).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function signErasureReport(report: unknown, secret: string) {
+  return createHmac('sha256', secret).update(canonicalJson(report)).digest('hex');
+}
+
+export function verifyErasureReport(report: unknown, signature: string, secret: string) {
+  const expected = Buffer.from(signErasureReport(report, secret), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
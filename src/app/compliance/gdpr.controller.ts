@@ -42,6 +42,11 @@ export class GdprController {
     return new StreamableFile(stream);
   }
 
+  @Get(':id/erasure-report')
+  erasureReport(@Param('id') id: string) {
+    return this.gdpr.getErasureReport(id);
+  }
+
   @Post(':id/confirm-delete')
   confirmDeletion(
     @Param('id') id: string,
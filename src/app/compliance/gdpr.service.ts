@@ -3,7 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { createReadStream, existsSync, promises as fs } from 'node:fs';
 import { join } from 'node:path';
 import { v4 as uuid } from 'uuid';
-import type { AdminPaginatedResponse, AdminGdprRequest, UserRole } from '@saubio/models';
+import type { AdminPaginatedResponse, AdminGdprErasureReport, AdminGdprRequest, UserRole } from '@saubio/models';
 import {
   GdprRequestStatus,
   GdprRequestType,
@@ -19,6 +19,7 @@ import { ListGdprRequestsDto } from './dto/list-gdpr-requests.dto';
 import { RejectGdprRequestDto } from './dto/reject-gdpr-request.dto';
 import { ConfirmGdprDeletionDto } from './dto/confirm-gdpr-deletion.dto';
 import { NotificationsService } from '../notifications/notifications.service';
+import { GdprErasureService } from './gdpr-erasure.service';
 
 type ActorContext = { id: string; label: string };
 
@@ -29,7 +30,8 @@ export class GdprService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
-    private readonly notifications: NotificationsService
+    private readonly notifications: NotificationsService,
+    private readonly erasure: GdprErasureService
   ) {
     const root = this.configService.get<string>('app.tmpDir' as never) ?? join(process.cwd(), 'tmp');
     this.exportDir = join(root, 'gdpr-exports');
@@ -152,6 +154,12 @@ export class GdprService {
       throw new BadRequestException('GDPR_REQUEST_REJECTED');
     }
 
+    // A failed erasure leaves the request open; confirming again resumes where it stopped.
+    const isErasure = request.type === GdprRequestType.DELETION;
+    if (isErasure) {
+      await this.erasure.run(request, actor);
+    }
+
     const updated = await this.prisma.gdprRequest.update({
       where: { id },
       data: {
@@ -170,11 +178,22 @@ export class GdprService {
       include: { user: true, startedBy: true, processedBy: true, rejectedBy: true },
     });
 
-    await this.notifyUser(updated, 'completed', dto.notes);
+    // After an erasure there is nobody left to notify; the account no longer has an address or sessions.
+    if (!isErasure) {
+      await this.notifyUser(updated, 'completed', dto.notes);
+    }
 
     return this.mapRequest(updated);
   }
 
+  async getErasureReport(id: string): Promise<AdminGdprErasureReport> {
+    const request = await this.prisma.gdprRequest.findUnique({ where: { id }, select: { type: true } });
+    if (!request || request.type !== GdprRequestType.DELETION) {
+      throw new NotFoundException('GDPR_REQUEST_NOT_FOUND');
+    }
+    return this.erasure.getReport(id);
+  }
+
   async rejectRequest(id: string, dto: RejectGdprRequestDto, actor: ActorContext): Promise<AdminGdprRequest> {
     const request = await this.prisma.gdprRequest.findUnique({ where: { id }, include: { user: true } });
     if (!request) {
@@ -249,6 +268,8 @@ export class GdprService {
       exportReadyAt: request.exportReadyAt ? request.exportReadyAt.toISOString() : undefined,
       exportExpiresAt: request.exportExpiresAt ? request.exportExpiresAt.toISOString() : undefined,
       exportAvailable: Boolean(request.exportPath && request.exportReadyAt && (!request.exportExpiresAt || request.exportExpiresAt > new Date())),
+      erasureCompletedSteps:
+        request.type === GdprRequestType.DELETION ? this.erasure.completedSteps(request.metadata) : undefined,
     };
   }
 
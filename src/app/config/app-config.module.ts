@@ -17,10 +17,21 @@ import configuration from './configuration';
         JWT_REFRESH_SECRET: Joi.string().min(16).optional(),
         JWT_ACCESS_EXPIRES_IN: Joi.string().optional(),
         JWT_REFRESH_EXPIRES_IN: Joi.string().optional(),
+        TWO_FACTOR_ENCRYPTION_KEY: Joi.string().min(16).optional(),
+        GDPR_REPORT_SECRET: Joi.string().min(16).optional(),
         APP_URL: Joi.string().uri().optional(),
         PAYPAL_CLIENT_ID: Joi.string().optional(),
         PAYPAL_CLIENT_SECRET: Joi.string().optional(),
         ENABLE_SWAGGER: Joi.boolean().optional(),
+        EMAIL_WEBHOOK_SECRET: Joi.string().min(16).allow('', null).optional(),
+        EMAIL_TRACKING_ENABLED: Joi.boolean().optional(),
+        EMAIL_TRACKING_SECRET: Joi.string().min(16).allow('', null).optional(),
+        VAPID_PUBLIC_KEY: Joi.string().allow('', null).optional(),
+        VAPID_PRIVATE_KEY: Joi.string().allow('', null).optional(),
+        VAPID_SUBJECT: Joi.string().optional(),
+        FCM_PROJECT_ID: Joi.string().allow('', null).optional(),
+        FCM_CLIENT_EMAIL: Joi.string().allow('', null).optional(),
+        FCM_PRIVATE_KEY: Joi.string().allow('', null).optional(),
         ONFIDO_API_TOKEN: Joi.string().allow('', null).optional(),
         ONFIDO_REGION: Joi.string().valid('eu', 'us').optional(),
         ONFIDO_WEBHOOK_TOKEN: Joi.string().allow('', null).optional(),
@@ -7,6 +7,8 @@ export interface AppEnvironmentConfig {
   jwtRefreshSecret?: string;
   jwtAccessExpiresIn?: string;
   jwtRefreshExpiresIn?: string;
+  twoFactorEncryptionKey?: string;
+  gdprReportSecret?: string;
   appUrl?: string;
   apiPublicUrl?: string;
   paypalClientId?: string;
@@ -19,6 +21,15 @@ export interface AppEnvironmentConfig {
   smtpUser?: string;
   smtpPass?: string;
   smtpFrom?: string;
+  emailWebhookSecret?: string;
+  emailTrackingEnabled?: boolean;
+  emailTrackingSecret?: string;
+  vapidPublicKey?: string;
+  vapidPrivateKey?: string;
+  vapidSubject?: string;
+  fcmProjectId?: string;
+  fcmClientEmail?: string;
+  fcmPrivateKey?: string;
   enableSwagger: boolean;
   twilioAccountSid?: string;
   twilioAuthToken?: string;
@@ -49,6 +60,8 @@ export default registerAs('app', (): AppEnvironmentConfig => ({
   jwtRefreshSecret: process.env.JWT_REFRESH_SECRET ?? process.env.JWT_SECRET,
   jwtAccessExpiresIn: process.env.JWT_ACCESS_EXPIRES_IN ?? '1h',
   jwtRefreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN ?? '8h',
+  twoFactorEncryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY,
+  gdprReportSecret: process.env.GDPR_REPORT_SECRET,
   appUrl: process.env.APP_URL ?? 'http://localhost:4200',
   apiPublicUrl: process.env.PUBLIC_API_URL ?? process.env.API_URL,
   paypalClientId: process.env.PAYPAL_CLIENT_ID,
@@ -67,6 +80,15 @@ export default registerAs('app', (): AppEnvironmentConfig => ({
   smtpUser: process.env.SMTP_USER,
   smtpPass: process.env.SMTP_PASS,
   smtpFrom: process.env.SMTP_FROM ?? process.env.SMTP_USER,
+  emailWebhookSecret: process.env.EMAIL_WEBHOOK_SECRET,
+  emailTrackingEnabled: ['1', 'true', 'yes', 'on'].includes((process.env.EMAIL_TRACKING_ENABLED ?? '').toLowerCase()),
+  emailTrackingSecret: process.env.EMAIL_TRACKING_SECRET,
+  vapidPublicKey: process.env.VAPID_PUBLIC_KEY,
+  vapidPrivateKey: process.env.VAPID_PRIVATE_KEY,
+  vapidSubject: process.env.VAPID_SUBJECT ?? 'mailto:support@saubio.de',
+  fcmProjectId: process.env.FCM_PROJECT_ID,
+  fcmClientEmail: process.env.FCM_CLIENT_EMAIL,
+  fcmPrivateKey: process.env.FCM_PRIVATE_KEY?.split('\\n').join('\n'),
   enableSwagger: process.env.ENABLE_SWAGGER !== 'false',
   twilioAccountSid: process.env.TWILIO_ACCOUNT_SID,
   twilioAuthToken: process.env.TWILIO_AUTH_TOKEN,
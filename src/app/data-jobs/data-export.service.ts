@@ -0,0 +1,273 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  DataExportType,
+  DataJobFormat,
+  DataJobStatus,
+  DocumentType,
+  Prisma,
+  type DataExportJob,
+} from '@prisma/client';
+import { promises as fs } from 'node:fs';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DocumentStorageService } from '../documents/document-storage.service';
+import { EXPORT_SOURCES, type ExportParameters } from './data-export.sources';
+import { EXPORT_FILE_TYPES, createExportWriter } from './data-export.writers';
+
+export interface CreateDataExportInput {
+  label: string;
+  type: DataExportType;
+  format: DataJobFormat;
+  parameters?: ExportParameters;
+  requestedById: string;
+}
+
+const PAGE_SIZE = 500;
+const STALE_JOB_MS = 5 * 60 * 1000;
+const MAX_JOB_ATTEMPTS = 3;
+const DOWNLOAD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DOWNLOAD_ROLES = ['employee', 'admin'];
+
+@Injectable()
+export class DataExportService {
+  private readonly logger = new Logger(DataExportService.name);
+  private isProcessing = false;
+  private isPurging = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly documentStorage: DocumentStorageService
+  ) {}
+
+  async requestExport(input: CreateDataExportInput): Promise<DataExportJob> {
+    const source = EXPORT_SOURCES[input.type];
+    if (!source) {
+      throw new BadRequestException('EXPORT_TYPE_NOT_SUPPORTED');
+    }
+    const parameters = this.normalizeParameters(input.parameters);
+    if (parameters.status && source.statuses && !source.statuses.includes(parameters.status.toUpperCase())) {
+      throw new BadRequestException('EXPORT_STATUS_INVALID');
+    }
+    if (parameters.from && parameters.to && new Date(parameters.from) > new Date(parameters.to)) {
+      throw new BadRequestException('EXPORT_RANGE_INVALID');
+    }
+
+    return this.prisma.dataExportJob.create({
+      data: {
+        label: input.label.trim(),
+        type: input.type,
+        format: input.format,
+        parameters: parameters as Prisma.JsonObject,
+        requestedBy: { connect: { id: input.requestedById } },
+      },
+    });
+  }
+
+  async retryJob(id: string): Promise<DataExportJob> {
+    const job = await this.prisma.dataExportJob.findUnique({ where: { id } });
+    if (!job) {
+      throw new NotFoundException('EXPORT_JOB_NOT_FOUND');
+    }
+    if (job.status !== DataJobStatus.FAILED) {
+      throw new BadRequestException('EXPORT_JOB_NOT_RETRYABLE');
+    }
+    return this.prisma.dataExportJob.update({
+      where: { id },
+      data: { status: DataJobStatus.PENDING, attempts: 0, errorMessage: null, completedAt: null },
+    });
+  }
+
+  /**
+   * Exports are written from scratch on every attempt, so a job whose worker stopped sending
+   * heartbeats is simply claimed again and restarted.
+   */
+  @Cron('* * * * *')
+  async processJobs() {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+    try {
+      const staleBefore = new Date(Date.now() - STALE_JOB_MS);
+      const jobs = await this.prisma.dataExportJob.findMany({
+        where: {
+          OR: [
+            { status: DataJobStatus.PENDING },
+            { status: DataJobStatus.PROCESSING, heartbeatAt: { lt: staleBefore } },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+        take: 5,
+        select: { id: true },
+      });
+      for (const job of jobs) {
+        await this.runJob(job.id, staleBefore);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /** Removes expired export files together with the document that served them. */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredExports() {
+    if (this.isPurging) {
+      return;
+    }
+    this.isPurging = true;
+    try {
+      const jobs = await this.prisma.dataExportJob.findMany({
+        where: { status: DataJobStatus.COMPLETED, expiresAt: { lt: new Date() }, purgedAt: null },
+        include: { document: { select: { id: true, metadata: true } } },
+        take: 100,
+      });
+      for (const job of jobs) {
+        try {
+          const filePath = this.readFilePath(job.document?.metadata ?? null);
+          if (filePath) {
+            await fs.rm(filePath, { force: true });
+          }
+          await this.prisma.$transaction([
+            this.prisma.dataExportJob.update({
+              where: { id: job.id },
+              data: { fileUrl: null, documentId: null, purgedAt: new Date() },
+            }),
+            ...(job.document ? [this.prisma.document.delete({ where: { id: job.document.id } })] : []),
+          ]);
+        } catch (error) {
+          this.logger.warn(
+            `Failed to purge export ${job.id}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    } finally {
+      this.isPurging = false;
+    }
+  }
+
+  private async runJob(jobId: string, staleBefore: Date) {
+    const claimed = await this.prisma.dataExportJob.updateMany({
+      where: {
+        id: jobId,
+        OR: [
+          { status: DataJobStatus.PENDING },
+          { status: DataJobStatus.PROCESSING, heartbeatAt: { lt: staleBefore } },
+        ],
+      },
+      data: {
+        status: DataJobStatus.PROCESSING,
+        startedAt: new Date(),
+        heartbeatAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+    if (!claimed.count) {
+      return;
+    }
+
+    const job = await this.prisma.dataExportJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      return;
+    }
+    if (job.attempts > MAX_JOB_ATTEMPTS) {
+      await this.failJob(job.id, 'EXPORT_MAX_ATTEMPTS_REACHED');
+      return;
+    }
+
+    try {
+      await this.executeJob(job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Export job ${job.id} failed: ${message}`);
+      await this.failJob(job.id, message);
+    }
+  }
+
+  private async executeJob(job: DataExportJob) {
+    const source = EXPORT_SOURCES[job.type];
+    if (!source) {
+      throw new Error('EXPORT_TYPE_NOT_SUPPORTED');
+    }
+    const parameters = this.normalizeParameters(job.parameters);
+    const { extension, mimeType } = EXPORT_FILE_TYPES[job.format];
+    const filePath = this.documentStorage.resolveFilePath('exports', `${job.id}.${extension}`);
+
+    const writer = await createExportWriter(job.format, filePath, source.columns);
+    let recordCount = 0;
+    try {
+      let cursor: string | null = null;
+      do {
+        const page = await source.fetchPage(this.prisma, parameters, cursor, PAGE_SIZE);
+        await writer.write(page.rows);
+        recordCount += page.rows.length;
+        cursor = page.nextCursor;
+        await this.prisma.dataExportJob.update({
+          where: { id: job.id },
+          data: { recordCount, heartbeatAt: new Date() },
+        });
+      } while (cursor);
+    } finally {
+      await writer.close();
+    }
+
+    const expiresAt = new Date(Date.now() + DOWNLOAD_TTL_MS);
+    const document = await this.documentStorage.register({
+      filePath,
+      name: `${this.slugify(job.label) || job.type.toLowerCase()}-${job.id}.${extension}`,
+      type: DocumentType.OTHER,
+      uploadedById: job.requestedById ?? undefined,
+      metadata: {
+        category: 'data_export',
+        exportJobId: job.id,
+        mimeType,
+        expiresAt: expiresAt.toISOString(),
+        allowedRoles: DOWNLOAD_ROLES,
+      },
+    });
+
+    await this.prisma.dataExportJob.update({
+      where: { id: job.id },
+      data: {
+        status: DataJobStatus.COMPLETED,
+        recordCount,
+        fileUrl: document.url,
+        documentId: document.id,
+        expiresAt,
+        completedAt: new Date(),
+        heartbeatAt: null,
+      },
+    });
+  }
+
+  private async failJob(jobId: string, message: string) {
+    await this.prisma.dataExportJob.update({
+      where: { id: jobId },
+      data: { status: DataJobStatus.FAILED, errorMessage: message, completedAt: new Date(), heartbeatAt: null },
+    });
+  }
+
+  private normalizeParameters(value: unknown): ExportParameters {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return {};
+    }
+    const record = value as Record<string, unknown>;
+    const pick = (key: keyof ExportParameters) =>
+      typeof record[key] === 'string' && (record[key] as string).trim() ? (record[key] as string).trim() : undefined;
+    return { from: pick('from'), to: pick('to'), status: pick('status') };
+  }
+
+  private readFilePath(metadata: Prisma.JsonValue | null) {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      return null;
+    }
+    const filePath = (metadata as Record<string, unknown>)['filePath'];
+    return typeof filePath === 'string' ? filePath : null;
+  }
+
+  private slugify(value: string) {
+    return value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
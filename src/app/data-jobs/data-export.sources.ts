@@ -0,0 +1,313 @@
+import {
+  BookingStatus,
+  DataExportType,
+  DisputeStatus,
+  PaymentStatus,
+  UserRole,
+  type PrismaClient,
+} from '@prisma/client';
+
+export interface ExportParameters {
+  from?: string;
+  to?: string;
+  status?: string;
+}
+
+export type ExportRow = Record<string, string | number | boolean | null>;
+
+export interface ExportPage {
+  rows: ExportRow[];
+  nextCursor: string | null;
+}
+
+export interface ExportSource {
+  columns: string[];
+  statuses?: string[];
+  fetchPage(prisma: PrismaClient, parameters: ExportParameters, cursor: string | null, take: number): Promise<ExportPage>;
+}
+
+/**
+ * Every source pages through its table by primary key so workers never hold more than one page
+ * in memory, whatever the size of the export.
+ */
+export const EXPORT_SOURCES: Partial<Record<DataExportType, ExportSource>> = {
+  [DataExportType.BOOKINGS]: {
+    statuses: Object.values(BookingStatus),
+    columns: [
+      'id',
+      'createdAt',
+      'startAt',
+      'endAt',
+      'status',
+      'service',
+      'frequency',
+      'mode',
+      'clientId',
+      'companyId',
+      'addressPostalCode',
+      'addressCity',
+      'pricingSubtotalCents',
+      'pricingTaxCents',
+      'pricingTotalCents',
+      'pricingCurrency',
+    ],
+    async fetchPage(prisma, parameters, cursor, take) {
+      const records = await prisma.booking.findMany({
+        where: {
+          startAt: dateRange(parameters),
+          status: enumValue(BookingStatus, parameters.status),
+        },
+        orderBy: { id: 'asc' },
+        take,
+        ...cursorArgs(cursor),
+      });
+      return toPage(records, take, (booking) => ({
+        id: booking.id,
+        createdAt: booking.createdAt.toISOString(),
+        startAt: booking.startAt.toISOString(),
+        endAt: booking.endAt.toISOString(),
+        status: booking.status,
+        service: booking.service,
+        frequency: booking.frequency,
+        mode: booking.mode,
+        clientId: booking.clientId,
+        companyId: booking.companyId,
+        addressPostalCode: booking.addressPostalCode,
+        addressCity: booking.addressCity,
+        pricingSubtotalCents: booking.pricingSubtotalCents,
+        pricingTaxCents: booking.pricingTaxCents,
+        pricingTotalCents: booking.pricingTotalCents,
+        pricingCurrency: booking.pricingCurrency,
+      }));
+    },
+  },
+  [DataExportType.PAYMENTS]: {
+    statuses: Object.values(PaymentStatus),
+    columns: [
+      'id',
+      'createdAt',
+      'bookingId',
+      'clientId',
+      'status',
+      'provider',
+      'method',
+      'amountCents',
+      'platformFeeCents',
+      'refundedAmountCents',
+      'currency',
+      'externalReference',
+      'capturedAt',
+      'refundedAt',
+    ],
+    async fetchPage(prisma, parameters, cursor, take) {
+      const records = await prisma.payment.findMany({
+        where: {
+          createdAt: dateRange(parameters),
+          status: enumValue(PaymentStatus, parameters.status),
+        },
+        orderBy: { id: 'asc' },
+        take,
+        ...cursorArgs(cursor),
+      });
+      return toPage(records, take, (payment) => ({
+        id: payment.id,
+        createdAt: payment.createdAt.toISOString(),
+        bookingId: payment.bookingId,
+        clientId: payment.clientId,
+        status: payment.status,
+        provider: payment.provider,
+        method: payment.method,
+        amountCents: payment.amountCents,
+        platformFeeCents: payment.platformFeeCents,
+        refundedAmountCents: payment.refundedAmountCents,
+        currency: payment.currency,
+        externalReference: payment.externalReference,
+        capturedAt: payment.capturedAt?.toISOString() ?? null,
+        refundedAt: payment.refundedAt?.toISOString() ?? null,
+      }));
+    },
+  },
+  [DataExportType.PROVIDERS]: {
+    columns: [
+      'id',
+      'createdAt',
+      'email',
+      'firstName',
+      'lastName',
+      'providerType',
+      'onboardingStatus',
+      'hourlyRateCents',
+      'ratingAverage',
+      'ratingCount',
+      'serviceAreas',
+      'serviceCategories',
+      'payoutReady',
+    ],
+    async fetchPage(prisma, parameters, cursor, take) {
+      const records = await prisma.providerProfile.findMany({
+        where: {
+          createdAt: dateRange(parameters),
+          onboardingStatus: parameters.status ? parameters.status : undefined,
+        },
+        include: { user: { select: { email: true, firstName: true, lastName: true } } },
+        orderBy: { id: 'asc' },
+        take,
+        ...cursorArgs(cursor),
+      });
+      return toPage(records, take, (provider) => ({
+        id: provider.id,
+        createdAt: provider.createdAt.toISOString(),
+        email: provider.user.email,
+        firstName: provider.user.firstName,
+        lastName: provider.user.lastName,
+        providerType: provider.providerType,
+        onboardingStatus: provider.onboardingStatus,
+        hourlyRateCents: provider.hourlyRateCents,
+        ratingAverage: provider.ratingAverage,
+        ratingCount: provider.ratingCount,
+        serviceAreas: provider.serviceAreas.join('|'),
+        serviceCategories: provider.serviceCategories.join('|'),
+        payoutReady: provider.payoutReady,
+      }));
+    },
+  },
+  [DataExportType.CLIENTS]: {
+    statuses: ['ACTIVE', 'INACTIVE'],
+    columns: ['id', 'createdAt', 'email', 'firstName', 'lastName', 'phone', 'roles', 'preferredLocale', 'isActive'],
+    async fetchPage(prisma, parameters, cursor, take) {
+      const records = await prisma.user.findMany({
+        where: {
+          createdAt: dateRange(parameters),
+          roles: { hasSome: [UserRole.CLIENT, UserRole.COMPANY] },
+          isActive: parameters.status ? parameters.status.toLowerCase() === 'active' : undefined,
+        },
+        orderBy: { id: 'asc' },
+        take,
+        ...cursorArgs(cursor),
+      });
+      return toPage(records, take, (user) => ({
+        id: user.id,
+        createdAt: user.createdAt.toISOString(),
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        phone: user.phone,
+        roles: user.roles.join('|'),
+        preferredLocale: user.preferredLocale,
+        isActive: user.isActive,
+      }));
+    },
+  },
+  [DataExportType.DISPUTES]: {
+    statuses: Object.values(DisputeStatus),
+    columns: [
+      'id',
+      'createdAt',
+      'bookingId',
+      'paymentId',
+      'status',
+      'reason',
+      'refundAmountCents',
+      'refundCurrency',
+      'refundProcessedAt',
+      'resolvedAt',
+    ],
+    async fetchPage(prisma, parameters, cursor, take) {
+      const records = await prisma.dispute.findMany({
+        where: {
+          createdAt: dateRange(parameters),
+          status: enumValue(DisputeStatus, parameters.status),
+        },
+        orderBy: { id: 'asc' },
+        take,
+        ...cursorArgs(cursor),
+      });
+      return toPage(records, take, (dispute) => ({
+        id: dispute.id,
+        createdAt: dispute.createdAt.toISOString(),
+        bookingId: dispute.bookingId,
+        paymentId: dispute.paymentId,
+        status: dispute.status,
+        reason: dispute.reason,
+        refundAmountCents: dispute.refundAmountCents,
+        refundCurrency: dispute.refundCurrency,
+        refundProcessedAt: dispute.refundProcessedAt?.toISOString() ?? null,
+        resolvedAt: dispute.resolvedAt?.toISOString() ?? null,
+      }));
+    },
+  },
+  [DataExportType.FINANCE]: {
+    columns: [
+      'invoiceNumber',
+      'kind',
+      'issuedAt',
+      'status',
+      'bookingId',
+      'paymentId',
+      'subtotalCents',
+      'ecoSurchargeCents',
+      'extrasCents',
+      'loyaltyCreditsCents',
+      'taxCents',
+      'totalCents',
+      'currency',
+      'creditReason',
+    ],
+    async fetchPage(prisma, parameters, cursor, take) {
+      const records = await prisma.invoice.findMany({
+        where: {
+          issuedAt: dateRange(parameters),
+          status: parameters.status ? parameters.status : undefined,
+        },
+        orderBy: { id: 'asc' },
+        take,
+        ...cursorArgs(cursor),
+      });
+      return toPage(records, take, (invoice) => ({
+        invoiceNumber: invoice.invoiceNumber,
+        kind: invoice.kind,
+        issuedAt: invoice.issuedAt.toISOString(),
+        status: invoice.status,
+        bookingId: invoice.bookingId,
+        paymentId: invoice.paymentId,
+        subtotalCents: invoice.subtotalCents,
+        ecoSurchargeCents: invoice.ecoSurchargeCents,
+        extrasCents: invoice.extrasCents,
+        loyaltyCreditsCents: invoice.loyaltyCreditsCents,
+        taxCents: invoice.taxCents,
+        totalCents: invoice.totalCents,
+        currency: invoice.currency,
+        creditReason: invoice.creditReason,
+      }));
+    },
+  },
+};
+
+function dateRange(parameters: ExportParameters) {
+  if (!parameters.from && !parameters.to) {
+    return undefined;
+  }
+  return {
+    gte: parameters.from ? new Date(parameters.from) : undefined,
+    lte: parameters.to ? new Date(parameters.to) : undefined,
+  };
+}
+
+function enumValue<T extends Record<string, string>>(values: T, input?: string): T[keyof T] | undefined {
+  if (!input) {
+    return undefined;
+  }
+  const normalized = input.toUpperCase();
+  return (Object.values(values) as string[]).includes(normalized) ? (normalized as T[keyof T]) : undefined;
+}
+
+function cursorArgs(cursor: string | null): { cursor?: { id: string }; skip?: number } {
+  return cursor ? { cursor: { id: cursor }, skip: 1 } : {};
+}
+
+function toPage<T extends { id: string }>(records: T[], take: number, map: (record: T) => ExportRow): ExportPage {
+  return {
+    rows: records.map(map),
+    nextCursor: records.length === take ? records[records.length - 1].id : null,
+  };
+}
@@ -0,0 +1,47 @@
+import { DataJobFormat } from '@prisma/client';
+import { existsSync, mkdtempSync, promises as fs, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createExportWriter } from './data-export.writers';
+
+describe('createExportWriter', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'saubio-export-'));
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('writes semicolon separated CSV with escaped cells', async () => {
+    const filePath = join(dir, 'export.csv');
+    const writer = await createExportWriter(DataJobFormat.CSV, filePath, ['id', 'label', 'amount']);
+    await writer.write([{ id: 'a', label: 'Mitte; "Nord"', amount: 1200 }]);
+    await writer.write([{ id: 'b', label: null, amount: 0 }]);
+    await writer.close();
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(
+      '\uFEFFid;label;amount\na;"Mitte; ""Nord""";1200\nb;;0\n'
+    );
+  });
+
+  it('keeps text cells that look like formulas from being evaluated', async () => {
+    const filePath = join(dir, 'formulas.csv');
+    const writer = await createExportWriter(DataJobFormat.CSV, filePath, ['id', 'label', 'amount']);
+    await writer.write([{ id: '=HYPERLINK("x")', label: '@SUM(A1)', amount: -1200 }]);
+    await writer.write([{ id: '+49 30', label: '-1', amount: 0 }]);
+    await writer.close();
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(
+      '\uFEFFid;label;amount\n"\'=HYPERLINK(""x"")";\'@SUM(A1);-1200\n\'+49 30;\'-1;0\n'
+    );
+  });
+
+  it('packs XLSX exports into a zip archive and removes the temporary sheet', async () => {
+    const filePath = join(dir, 'export.xlsx');
+    const writer = await createExportWriter(DataJobFormat.XLSX, filePath, ['id', 'label']);
+    await writer.write([{ id: 'a', label: 'Küche & Bad' }]);
+    await writer.close();
+
+    const content = await fs.readFile(filePath);
+    expect(content.subarray(0, 4).toString('hex')).toBe('504b0304');
+    expect(content.toString('utf-8')).toContain('Küche &amp; Bad');
+    expect(existsSync(`${filePath}.sheet.xml`)).toBe(false);
+  });
+});
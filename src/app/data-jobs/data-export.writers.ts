@@ -0,0 +1,280 @@
+import { DataJobFormat } from '@prisma/client';
+import { once } from 'node:events';
+import { createReadStream, createWriteStream, promises as fs, type WriteStream } from 'node:fs';
+import { crc32 } from 'node:zlib';
+import type { ExportRow } from './data-export.sources';
+
+export interface ExportWriter {
+  write(rows: ExportRow[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+export const EXPORT_FILE_TYPES: Record<DataJobFormat, { extension: string; mimeType: string }> = {
+  [DataJobFormat.CSV]: { extension: 'csv', mimeType: 'text/csv' },
+  [DataJobFormat.JSON]: { extension: 'json', mimeType: 'application/json' },
+  [DataJobFormat.XLSX]: {
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+};
+
+export async function createExportWriter(
+  format: DataJobFormat,
+  filePath: string,
+  columns: string[]
+): Promise<ExportWriter> {
+  switch (format) {
+    case DataJobFormat.JSON:
+      return new JsonExportWriter(filePath).open();
+    case DataJobFormat.XLSX:
+      return new XlsxExportWriter(filePath, columns).open();
+    default:
+      return new CsvExportWriter(filePath, columns).open();
+  }
+}
+
+abstract class StreamExportWriter implements ExportWriter {
+  protected stream!: WriteStream;
+
+  constructor(protected readonly filePath: string) {}
+
+  abstract write(rows: ExportRow[]): Promise<void>;
+  abstract close(): Promise<void>;
+
+  protected async push(chunk: string) {
+    if (!this.stream.write(chunk)) {
+      await once(this.stream, 'drain');
+    }
+  }
+
+  protected async end(chunk = '') {
+    this.stream.end(chunk);
+    await once(this.stream, 'finish');
+  }
+}
+
+class CsvExportWriter extends StreamExportWriter {
+  constructor(filePath: string, private readonly columns: string[]) {
+    super(filePath);
+  }
+
+  async open() {
+    this.stream = createWriteStream(this.filePath, 'utf-8');
+    // The BOM makes Excel pick UTF-8 when finance opens the file directly.
+    await this.push(`\uFEFF${this.columns.join(';')}\n`);
+    return this;
+  }
+
+  async write(rows: ExportRow[]) {
+    for (const row of rows) {
+      await this.push(`${this.columns.map((column) => this.escape(row[column])).join(';')}\n`);
+    }
+  }
+
+  close() {
+    return this.end();
+  }
+
+  private escape(value: ExportRow[string] | undefined) {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    // Spreadsheets run text starting with a formula character; the quote keeps it text. Numbers stay numbers.
+    const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+    return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+class JsonExportWriter extends StreamExportWriter {
+  private first = true;
+
+  async open() {
+    this.stream = createWriteStream(this.filePath, 'utf-8');
+    await this.push('[');
+    return this;
+  }
+
+  async write(rows: ExportRow[]) {
+    for (const row of rows) {
+      await this.push(`${this.first ? '' : ','}\n${JSON.stringify(row)}`);
+      this.first = false;
+    }
+  }
+
+  close() {
+    return this.end('\n]\n');
+  }
+}
+
+/**
+ * Streams rows into the worksheet XML on disk, then packs the workbook into an uncompressed
+ * (stored) zip archive, which every spreadsheet application reads as a regular .xlsx file.
+ */
+class XlsxExportWriter extends StreamExportWriter {
+  private readonly sheetPath: string;
+  private rowIndex = 1;
+
+  constructor(filePath: string, private readonly columns: string[]) {
+    super(filePath);
+    this.sheetPath = `${filePath}.sheet.xml`;
+  }
+
+  async open() {
+    this.stream = createWriteStream(this.sheetPath, 'utf-8');
+    await this.push(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>'
+    );
+    await this.writeRow(this.columns);
+    return this;
+  }
+
+  async write(rows: ExportRow[]) {
+    for (const row of rows) {
+      await this.writeRow(this.columns.map((column) => row[column] ?? null));
+    }
+  }
+
+  async close() {
+    await this.end('</sheetData></worksheet>');
+    try {
+      await writeStoredZip(this.filePath, [
+        { name: '[Content_Types].xml', data: Buffer.from(XLSX_CONTENT_TYPES) },
+        { name: '_rels/.rels', data: Buffer.from(XLSX_ROOT_RELS) },
+        { name: 'xl/workbook.xml', data: Buffer.from(XLSX_WORKBOOK) },
+        { name: 'xl/_rels/workbook.xml.rels', data: Buffer.from(XLSX_WORKBOOK_RELS) },
+        { name: 'xl/worksheets/sheet1.xml', path: this.sheetPath },
+      ]);
+    } finally {
+      await fs.rm(this.sheetPath, { force: true });
+    }
+  }
+
+  private async writeRow(values: Array<string | number | boolean | null>) {
+    const cells = values
+      .map((value) => {
+        if (value === null || value === undefined || value === '') {
+          return '<c/>';
+        }
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          return `<c><v>${value}</v></c>`;
+        }
+        return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+      })
+      .join('');
+    await this.push(`<row r="${this.rowIndex}">${cells}</row>`);
+    this.rowIndex += 1;
+  }
+}
+
+type ZipEntry = { name: string; data?: Buffer; path?: string };
+
+async function writeStoredZip(targetPath: string, entries: ZipEntry[]) {
+  const output = createWriteStream(targetPath);
+  const write = async (chunk: Buffer) => {
+    if (!output.write(chunk)) {
+      await once(output, 'drain');
+    }
+  };
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    let checksum = 0;
+    let size = 0;
+    if (entry.data) {
+      checksum = crc32(entry.data);
+      size = entry.data.length;
+    } else if (entry.path) {
+      for await (const chunk of createReadStream(entry.path)) {
+        checksum = crc32(chunk as Buffer, checksum);
+        size += (chunk as Buffer).length;
+      }
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(0, 8);
+    local.writeUInt32LE(0, 10);
+    local.writeUInt32LE(checksum >>> 0, 14);
+    local.writeUInt32LE(size, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    await write(local);
+    await write(name);
+    if (entry.data) {
+      await write(entry.data);
+    } else if (entry.path) {
+      for await (const chunk of createReadStream(entry.path)) {
+        await write(chunk as Buffer);
+      }
+    }
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt32LE(0, 12);
+    header.writeUInt32LE(checksum >>> 0, 16);
+    header.writeUInt32LE(size, 20);
+    header.writeUInt32LE(size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+    offset += local.length + name.length + size;
+  }
+
+  const centralDirectory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  await write(centralDirectory);
+  output.end(end);
+  await once(output, 'finish');
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0 documents.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+const XLSX_CONTENT_TYPES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '</Types>';
+
+const XLSX_ROOT_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const XLSX_WORKBOOK =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  '<sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets></workbook>';
+
+const XLSX_WORKBOOK_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '</Relationships>';
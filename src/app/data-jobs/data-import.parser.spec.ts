@@ -0,0 +1,24 @@
+import { DataJobFormat } from '@prisma/client';
+import { ImportFileError, parseImportFile } from './data-import.parser';
+
+describe('parseImportFile', () => {
+  it('parses quoted CSV cells, dotted headers and JSON arrays', () => {
+    const content = [
+      'providerEmail;name;address.city;languages',
+      'team@clean.de;"Mitte; Nord";Berlin;["de","en"]',
+      '',
+      'solo@clean.de;"Say ""hi""";;',
+    ].join('\r\n');
+
+    expect(parseImportFile(content, DataJobFormat.CSV)).toEqual([
+      { providerEmail: 'team@clean.de', name: 'Mitte; Nord', address: { city: 'Berlin' }, languages: ['de', 'en'] },
+      { providerEmail: 'solo@clean.de', name: 'Say "hi"' },
+    ]);
+  });
+
+  it('accepts JSON arrays and rejects malformed files', () => {
+    expect(parseImportFile('{"rows":[{"email":"a@b.de"}]}', DataJobFormat.JSON)).toEqual([{ email: 'a@b.de' }]);
+    expect(() => parseImportFile('[1, 2]', DataJobFormat.JSON)).toThrow(ImportFileError);
+    expect(() => parseImportFile('name\n"open', DataJobFormat.CSV)).toThrow('IMPORT_FILE_UNTERMINATED_QUOTE');
+  });
+});
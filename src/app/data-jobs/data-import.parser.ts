@@ -0,0 +1,132 @@
+import { DataJobFormat } from '@prisma/client';
+
+export type ImportRow = Record<string, unknown>;
+
+export class ImportFileError extends Error {}
+
+/**
+ * Parses an uploaded import file into plain row objects. CSV headers may use dotted paths
+ * (`address.city`) to build nested objects, and cells starting with `[` or `{` are read as JSON
+ * so arrays such as `["de","fr"]` survive the round trip. Empty cells are omitted.
+ */
+export function parseImportFile(content: string, format: DataJobFormat): ImportRow[] {
+  const source = content.replace(/^\uFEFF/, '');
+  if (format === DataJobFormat.JSON) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(source);
+    } catch {
+      throw new ImportFileError('IMPORT_FILE_INVALID_JSON');
+    }
+    const rows = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed['rows']) ? parsed['rows'] : null;
+    if (!rows || rows.some((row) => !isRecord(row))) {
+      throw new ImportFileError('IMPORT_FILE_INVALID_JSON');
+    }
+    return rows as ImportRow[];
+  }
+
+  const records = parseCsv(source);
+  if (!records.length) {
+    return [];
+  }
+  const [header, ...lines] = records;
+  const columns = header.map((column) => column.trim());
+  if (!columns.some(Boolean)) {
+    throw new ImportFileError('IMPORT_FILE_MISSING_HEADER');
+  }
+
+  return lines
+    .filter((cells) => cells.some((cell) => cell.trim().length))
+    .map((cells) => {
+      const row: ImportRow = {};
+      columns.forEach((column, index) => {
+        const value = cells[index]?.trim();
+        if (!column || value === undefined || value === '') {
+          return;
+        }
+        assignPath(row, column, parseCell(value));
+      });
+      return row;
+    });
+}
+
+function parseCsv(source: string): string[][] {
+  const delimiter = detectDelimiter(source);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"' && !field.length) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') {
+        index += 1;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ImportFileError('IMPORT_FILE_UNTERMINATED_QUOTE');
+  }
+  if (field.length || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+/** Spreadsheets exported with a German locale separate columns with `;`. */
+function detectDelimiter(source: string): string {
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+}
+
+function parseCell(value: string): unknown {
+  if (value.startsWith('[') || value.startsWith('{')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+function assignPath(target: ImportRow, path: string, value: unknown) {
+  const segments = path.split('.');
+  let cursor: ImportRow = target;
+  segments.slice(0, -1).forEach((segment) => {
+    if (!isRecord(cursor[segment])) {
+      cursor[segment] = {};
+    }
+    cursor = cursor[segment] as ImportRow;
+  });
+  cursor[segments[segments.length - 1]] = value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
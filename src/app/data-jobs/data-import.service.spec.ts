@@ -0,0 +1,94 @@
+import { ConfigService } from '@nestjs/config';
+import { DataImportEntity, DataJobFormat, DataJobStatus, Prisma } from '@prisma/client';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BookingsService } from '../bookings/bookings.service';
+import { ProviderOnboardingService } from '../provider-onboarding/provider-onboarding.service';
+import { UsersService } from '../users/users.service';
+import { DataImportService } from './data-import.service';
+
+describe('DataImportService', () => {
+  let dir: string;
+  let job: Record<string, unknown>;
+  let claimedRows: Set<number>;
+  let prisma: {
+    dataImportJob: { findMany: jest.Mock; updateMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock };
+    dataImportRow: { create: jest.Mock };
+    providerProfile: { findFirst: jest.Mock };
+    providerServiceZone: { create: jest.Mock };
+  };
+  let service: DataImportService;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'data-import-'));
+    const sourcePath = join(dir, 'job_1-source.csv');
+    writeFileSync(sourcePath, 'providerEmail;name\nsolo@clean.de;Mitte\nsolo@clean.de;Pankow\n', 'utf-8');
+    // Stopped by a crash after writing row 1 but before advancing the cursor.
+    job = {
+      id: 'job_1',
+      entity: DataImportEntity.ZONES,
+      format: DataJobFormat.CSV,
+      status: DataJobStatus.PROCESSING,
+      dryRun: false,
+      attempts: 1,
+      processedCount: 0,
+      successCount: 0,
+      errorCount: 0,
+      sourcePath,
+      reportPath: join(dir, 'job_1-report.csv'),
+      createdById: null,
+      startedAt: new Date(),
+    };
+    writeFileSync(job.reportPath as string, 'row,field,message\n', 'utf-8');
+    claimedRows = new Set([1]);
+    prisma = {
+      dataImportJob: {
+        findMany: jest.fn(async () => [{ id: 'job_1' }]),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+        findUnique: jest.fn(async () => ({ ...job, attempts: (job.attempts as number) + 1 })),
+        update: jest.fn(async ({ data }) => Object.assign(job, data)),
+      },
+      dataImportRow: {
+        create: jest.fn(async ({ data }) => {
+          if (claimedRows.has(data.rowNumber)) {
+            throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+              code: 'P2002',
+              clientVersion: 'test',
+            });
+          }
+          claimedRows.add(data.rowNumber);
+          return { id: `row_${data.rowNumber}` };
+        }),
+      },
+      providerProfile: { findFirst: jest.fn().mockResolvedValue({ id: 'provider_1' }) },
+      providerServiceZone: { create: jest.fn() },
+    };
+    service = new DataImportService(
+      prisma as unknown as PrismaService,
+      { get: jest.fn(() => dir) } as unknown as ConfigService,
+      {} as UsersService,
+      {} as BookingsService,
+      {} as ProviderOnboardingService
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('does not write a row again when a job resumes after a crash', async () => {
+    await service.processJobs();
+
+    expect(prisma.providerServiceZone.create).toHaveBeenCalledTimes(1);
+    expect(prisma.providerServiceZone.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ name: 'Pankow' }),
+    });
+    expect(readFileSync(job.reportPath as string, 'utf-8')).toContain('1,,IMPORT_ROW_INTERRUPTED\n');
+    expect(prisma.dataImportJob.update).toHaveBeenLastCalledWith({
+      where: { id: 'job_1' },
+      data: expect.objectContaining({ status: DataJobStatus.COMPLETED }),
+    });
+  });
+});
@@ -0,0 +1,401 @@
+import { BadRequestException, HttpException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import {
+  DataImportEntity,
+  DataJobFormat,
+  DataJobStatus,
+  Prisma,
+  ProviderOnboardingStatus,
+  type DataImportJob,
+} from '@prisma/client';
+import type { User } from '@saubio/models';
+import { plainToInstance, type ClassConstructor } from 'class-transformer';
+import { validate, type ValidationError } from 'class-validator';
+import { createReadStream, existsSync, promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BookingsService } from '../bookings/bookings.service';
+import { ProviderOnboardingService } from '../provider-onboarding/provider-onboarding.service';
+import { CreateProviderOnboardingDto } from '../provider-onboarding/dto/create-provider-onboarding.dto';
+import { CreateUserDto } from '../users/dto/create-user.dto';
+import { UsersService } from '../users/users.service';
+import { ImportBookingRowDto, ImportProviderZoneRowDto } from './dto/import-rows.dto';
+import { ImportFileError, parseImportFile, type ImportRow } from './data-import.parser';
+
+export interface CreateDataImportInput {
+  label: string;
+  entity: DataImportEntity;
+  format: DataJobFormat;
+  content: string;
+  fileName?: string;
+  dryRun?: boolean;
+  createdById: string;
+}
+
+type RowIssue = { field: string; message: string };
+
+const SUPPORTED_ENTITIES: DataImportEntity[] = [
+  DataImportEntity.USERS,
+  DataImportEntity.PROVIDERS,
+  DataImportEntity.BOOKINGS,
+  DataImportEntity.ZONES,
+];
+const IMPORTABLE_USER_ROLES = ['client', 'company'];
+const MAX_SOURCE_BYTES = 5_000_000;
+const STALE_JOB_MS = 5 * 60 * 1000;
+const MAX_JOB_ATTEMPTS = 3;
+const REPORT_HEADER = 'row,field,message\n';
+
+@Injectable()
+export class DataImportService {
+  private readonly logger = new Logger(DataImportService.name);
+  private readonly storageDir: string;
+  private isProcessing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly usersService: UsersService,
+    private readonly bookingsService: BookingsService,
+    private readonly providerOnboarding: ProviderOnboardingService
+  ) {
+    const root = this.configService.get<string>('app.tmpDir' as never) ?? join(process.cwd(), 'tmp');
+    this.storageDir = join(root, 'data-imports');
+  }
+
+  /** Stores the uploaded file and queues the job; rows are only counted here, not validated. */
+  async createJob(input: CreateDataImportInput): Promise<DataImportJob> {
+    if (!SUPPORTED_ENTITIES.includes(input.entity)) {
+      throw new BadRequestException('IMPORT_ENTITY_NOT_SUPPORTED');
+    }
+    if (input.format === DataJobFormat.XLSX) {
+      throw new BadRequestException('IMPORT_FORMAT_NOT_SUPPORTED');
+    }
+    const content = this.decodeContent(input.content);
+    if (Buffer.byteLength(content, 'utf-8') > MAX_SOURCE_BYTES) {
+      throw new BadRequestException('IMPORT_FILE_TOO_LARGE');
+    }
+
+    let rows: ImportRow[];
+    try {
+      rows = parseImportFile(content, input.format);
+    } catch (error) {
+      throw new BadRequestException(error instanceof ImportFileError ? error.message : 'IMPORT_FILE_INVALID');
+    }
+    if (!rows.length) {
+      throw new BadRequestException('IMPORT_FILE_EMPTY');
+    }
+
+    const job = await this.prisma.dataImportJob.create({
+      data: {
+        label: input.label.trim(),
+        entity: input.entity,
+        format: input.format,
+        dryRun: input.dryRun ?? false,
+        totalCount: rows.length,
+        sourceFilename: input.fileName ?? null,
+        createdBy: { connect: { id: input.createdById } },
+      },
+    });
+
+    await fs.mkdir(this.storageDir, { recursive: true });
+    const extension = input.format === DataJobFormat.JSON ? 'json' : 'csv';
+    const sourcePath = join(this.storageDir, `${job.id}-source.${extension}`);
+    await fs.writeFile(sourcePath, content, 'utf-8');
+    return this.prisma.dataImportJob.update({ where: { id: job.id }, data: { sourcePath } });
+  }
+
+  async retryJob(id: string): Promise<DataImportJob> {
+    const job = await this.prisma.dataImportJob.findUnique({ where: { id } });
+    if (!job) {
+      throw new NotFoundException('IMPORT_JOB_NOT_FOUND');
+    }
+    if (job.status !== DataJobStatus.FAILED) {
+      throw new BadRequestException('IMPORT_JOB_NOT_RETRYABLE');
+    }
+    return this.prisma.dataImportJob.update({
+      where: { id },
+      data: { status: DataJobStatus.PENDING, attempts: 0, errorMessage: null, completedAt: null },
+    });
+  }
+
+  async getReportStream(id: string) {
+    const job = await this.prisma.dataImportJob.findUnique({ where: { id } });
+    if (!job) {
+      throw new NotFoundException('IMPORT_JOB_NOT_FOUND');
+    }
+    if (!job.reportPath || !existsSync(job.reportPath)) {
+      throw new NotFoundException('IMPORT_REPORT_NOT_AVAILABLE');
+    }
+    return { stream: createReadStream(job.reportPath), fileName: `${job.id}-report.csv` };
+  }
+
+  /**
+   * Picks up queued jobs and jobs whose worker stopped sending heartbeats (crash or redeploy).
+   * Progress is persisted after every row, so a resumed job continues at `processedCount`; rows are claimed
+   * before they are written, so one written just before a crash is reported rather than imported twice.
+   */
+  @Cron('* * * * *')
+  async processJobs() {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+    try {
+      const staleBefore = new Date(Date.now() - STALE_JOB_MS);
+      const jobs = await this.prisma.dataImportJob.findMany({
+        where: {
+          OR: [
+            { status: DataJobStatus.PENDING },
+            { status: DataJobStatus.PROCESSING, heartbeatAt: { lt: staleBefore } },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+        take: 5,
+        select: { id: true },
+      });
+      for (const job of jobs) {
+        await this.runJob(job.id, staleBefore);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async runJob(jobId: string, staleBefore: Date) {
+    const now = new Date();
+    const claimed = await this.prisma.dataImportJob.updateMany({
+      where: {
+        id: jobId,
+        OR: [
+          { status: DataJobStatus.PENDING },
+          { status: DataJobStatus.PROCESSING, heartbeatAt: { lt: staleBefore } },
+        ],
+      },
+      data: { status: DataJobStatus.PROCESSING, heartbeatAt: now, attempts: { increment: 1 } },
+    });
+    if (!claimed.count) {
+      return;
+    }
+
+    const job = await this.prisma.dataImportJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      return;
+    }
+    if (job.attempts > MAX_JOB_ATTEMPTS) {
+      await this.failJob(job.id, 'IMPORT_MAX_ATTEMPTS_REACHED');
+      return;
+    }
+
+    try {
+      await this.executeJob(job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Import job ${job.id} failed: ${message}`);
+      await this.failJob(job.id, message);
+    }
+  }
+
+  private async executeJob(job: DataImportJob) {
+    if (!job.sourcePath || !existsSync(job.sourcePath)) {
+      throw new Error('IMPORT_SOURCE_MISSING');
+    }
+    const rows = parseImportFile(await fs.readFile(job.sourcePath, 'utf-8'), job.format);
+    const actor = job.createdById ? await this.usersService.findOne(job.createdById) : null;
+    if (job.entity === DataImportEntity.BOOKINGS && !actor) {
+      throw new Error('IMPORT_ACTOR_MISSING');
+    }
+
+    const reportPath = job.reportPath ?? join(this.storageDir, `${job.id}-report.csv`);
+    if (!job.reportPath || job.processedCount === 0) {
+      await fs.mkdir(this.storageDir, { recursive: true });
+      await fs.writeFile(reportPath, REPORT_HEADER, 'utf-8');
+    }
+    await this.prisma.dataImportJob.update({
+      where: { id: job.id },
+      data: { reportPath, totalCount: rows.length, startedAt: job.startedAt ?? new Date() },
+    });
+
+    for (let index = job.processedCount; index < rows.length; index += 1) {
+      let issues: RowIssue[];
+      if (!(await this.claimRow(job.id, index + 1))) {
+        // An earlier run stopped between writing this row and advancing the cursor.
+        issues = [{ field: '', message: 'IMPORT_ROW_INTERRUPTED' }];
+      } else {
+        try {
+          issues = await this.importRow(job, rows[index], actor);
+        } catch (error) {
+          issues = [{ field: '', message: this.describeError(error) }];
+        }
+      }
+      if (issues.length) {
+        await fs.appendFile(
+          reportPath,
+          issues.map((issue) => this.toReportLine(index + 1, issue)).join(''),
+          'utf-8'
+        );
+      }
+      await this.prisma.dataImportJob.update({
+        where: { id: job.id },
+        data: {
+          processedCount: index + 1,
+          successCount: issues.length ? undefined : { increment: 1 },
+          errorCount: issues.length ? { increment: 1 } : undefined,
+          heartbeatAt: new Date(),
+        },
+      });
+    }
+
+    await this.prisma.dataImportJob.update({
+      where: { id: job.id },
+      data: { status: DataJobStatus.COMPLETED, completedAt: new Date(), heartbeatAt: null },
+    });
+  }
+
+  /** False when the row was already claimed by an earlier run of the job, which may have written it. */
+  private async claimRow(jobId: string, rowNumber: number): Promise<boolean> {
+    try {
+      await this.prisma.dataImportRow.create({ data: { job: { connect: { id: jobId } }, rowNumber } });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /** Validates one row and, outside dry-run mode, writes it. Returns the problems found. */
+  private async importRow(job: DataImportJob, row: ImportRow, actor: User | null): Promise<RowIssue[]> {
+    switch (job.entity) {
+      case DataImportEntity.USERS: {
+        const { dto, issues } = await this.validateRow(CreateUserDto, row);
+        if (!dto) {
+          return issues;
+        }
+        const forbiddenRole = dto.roles.find((role) => !IMPORTABLE_USER_ROLES.includes(role));
+        if (forbiddenRole) {
+          return [{ field: 'roles', message: `ROLE_NOT_IMPORTABLE:${forbiddenRole}` }];
+        }
+        if (await this.usersService.findByEmail(dto.email)) {
+          return [{ field: 'email', message: 'USER_ALREADY_EXISTS' }];
+        }
+        if (!job.dryRun) {
+          await this.usersService.create(dto);
+        }
+        return [];
+      }
+      case DataImportEntity.PROVIDERS: {
+        const { dto, issues } = await this.validateRow(CreateProviderOnboardingDto, row);
+        if (!dto) {
+          return issues;
+        }
+        const existing = await this.prisma.providerProfile.findFirst({
+          where: { user: { email: dto.email.toLowerCase() } },
+          select: { id: true },
+        });
+        if (existing) {
+          return [{ field: 'email', message: 'PROVIDER_ALREADY_EXISTS' }];
+        }
+        if (!job.dryRun) {
+          const request = await this.providerOnboarding.create(dto);
+          await this.providerOnboarding.update(request.id, {
+            status: ProviderOnboardingStatus.APPROVED,
+            reviewer: `import:${job.id}`,
+          });
+        }
+        return [];
+      }
+      case DataImportEntity.BOOKINGS: {
+        const { dto, issues } = await this.validateRow(ImportBookingRowDto, row);
+        if (!dto) {
+          return issues;
+        }
+        const { clientEmail, ...payload } = dto;
+        if (!payload.clientId && clientEmail) {
+          const client = await this.usersService.findByEmail(clientEmail);
+          if (!client) {
+            return [{ field: 'clientEmail', message: 'CLIENT_NOT_FOUND' }];
+          }
+          payload.clientId = client.id;
+        }
+        if (!payload.clientId) {
+          return [{ field: 'clientId', message: 'CLIENT_REQUIRED' }];
+        }
+        if (!job.dryRun) {
+          await this.bookingsService.create(payload, actor as User);
+        }
+        return [];
+      }
+      case DataImportEntity.ZONES: {
+        const { dto, issues } = await this.validateRow(ImportProviderZoneRowDto, row);
+        if (!dto) {
+          return issues;
+        }
+        const { providerEmail, ...zone } = dto;
+        const provider = await this.prisma.providerProfile.findFirst({
+          where: { user: { email: providerEmail.toLowerCase() } },
+          select: { id: true },
+        });
+        if (!provider) {
+          return [{ field: 'providerEmail', message: 'PROVIDER_NOT_FOUND' }];
+        }
+        if (!job.dryRun) {
+          await this.prisma.providerServiceZone.create({
+            data: { ...zone, provider: { connect: { id: provider.id } } },
+          });
+        }
+        return [];
+      }
+      default:
+        return [{ field: '', message: 'IMPORT_ENTITY_NOT_SUPPORTED' }];
+    }
+  }
+
+  /** Mirrors the global ValidationPipe so imported rows obey the same rules as API payloads. */
+  private async validateRow<T extends object>(
+    dtoClass: ClassConstructor<T>,
+    row: ImportRow
+  ): Promise<{ dto: T | null; issues: RowIssue[] }> {
+    const dto = plainToInstance(dtoClass, row, { enableImplicitConversion: true });
+    const errors = await validate(dto, { whitelist: true, forbidUnknownValues: false });
+    if (!errors.length) {
+      return { dto, issues: [] };
+    }
+    return { dto: null, issues: this.flattenErrors(errors) };
+  }
+
+  private flattenErrors(errors: ValidationError[], parentPath = ''): RowIssue[] {
+    return errors.flatMap((error) => {
+      const field = parentPath ? `${parentPath}.${error.property}` : error.property;
+      const own = Object.values(error.constraints ?? {}).map((message) => ({ field, message }));
+      return [...own, ...this.flattenErrors(error.children ?? [], field)];
+    });
+  }
+
+  private async failJob(jobId: string, message: string) {
+    await this.prisma.dataImportJob.update({
+      where: { id: jobId },
+      data: { status: DataJobStatus.FAILED, errorMessage: message, completedAt: new Date(), heartbeatAt: null },
+    });
+  }
+
+  private decodeContent(content: string) {
+    const match = /^data:[^;,]*;base64,([\s\S]*)$/.exec(content.trim());
+    return match ? Buffer.from(match[1], 'base64').toString('utf-8') : content;
+  }
+
+  private describeError(error: unknown) {
+    if (error instanceof HttpException) {
+      const response = error.getResponse();
+      return typeof response === 'string' ? response : error.message;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private toReportLine(row: number, issue: RowIssue) {
+    const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+    return `${row},${escape(issue.field)},${escape(issue.message)}\n`;
+  }
+}
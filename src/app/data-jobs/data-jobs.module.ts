@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AppConfigModule } from '../config/app-config.module';
+import { UsersModule } from '../users/users.module';
+import { BookingsModule } from '../bookings/bookings.module';
+import { ProviderOnboardingModule } from '../provider-onboarding/provider-onboarding.module';
+import { DocumentsModule } from '../documents/documents.module';
+import { DataExportService } from './data-export.service';
+import { DataImportService } from './data-import.service';
+
+@Module({
+  imports: [PrismaModule, AppConfigModule, UsersModule, BookingsModule, ProviderOnboardingModule, DocumentsModule],
+  providers: [DataImportService, DataExportService],
+  exports: [DataImportService, DataExportService],
+})
+export class DataJobsModule {}
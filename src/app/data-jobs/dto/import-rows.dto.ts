@@ -0,0 +1,14 @@
+import { IsEmail, IsOptional } from 'class-validator';
+import { CreateBookingDto } from '../../bookings/dto';
+import { ProviderServiceZoneDto } from '../../provider/dto/update-provider-profile.dto';
+
+export class ImportBookingRowDto extends CreateBookingDto {
+  @IsOptional()
+  @IsEmail()
+  clientEmail?: string;
+}
+
+export class ImportProviderZoneRowDto extends ProviderServiceZoneDto {
+  @IsEmail()
+  providerEmail!: string;
+}
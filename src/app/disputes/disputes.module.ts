@@ -4,9 +4,11 @@ import { DisputesService } from './disputes.service';
 import { DisputesController } from './disputes.controller';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { AuthModule } from '../auth/auth.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { BookingsModule } from '../bookings/bookings.module';
 
 @Module({
-  imports: [PrismaModule, NotificationsModule, AuthModule],
+  imports: [PrismaModule, NotificationsModule, AuthModule, PaymentsModule, BookingsModule],
   controllers: [DisputesController],
   providers: [DisputesService],
   exports: [DisputesService],
@@ -11,20 +11,25 @@ import {
   DisputeParticipantRole as PrismaDisputeParticipantRole,
   DisputeStatus as PrismaDisputeStatus,
   NotificationType,
+  PaymentRefundSource,
 } from '@prisma/client';
-import type { DisputeRecord, DisputeStatus, DisputeParticipantRole, User } from '@saubio/models';
+import type { BookingEvidence, DisputeRecord, DisputeStatus, DisputeParticipantRole, User } from '@saubio/models';
 import { PrismaService } from '../../prisma/prisma.service';
 import { CreateDisputeDto } from './dto/create-dispute.dto';
 import { AddDisputeMessageDto } from './dto/add-dispute-message.dto';
 import { AssignDisputeDto } from './dto/assign-dispute.dto';
 import { UpdateDisputeStatusDto } from './dto/update-dispute-status.dto';
 import { NotificationsService } from '../notifications/notifications.service';
+import { PaymentsService } from '../payments/payments.service';
+import { BookingEvidenceService } from '../bookings/booking-evidence.service';
 
 @Injectable()
 export class DisputesService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly notifications: NotificationsService
+    private readonly notifications: NotificationsService,
+    private readonly payments: PaymentsService,
+    private readonly bookingEvidence: BookingEvidenceService
   ) {}
 
   async createDispute(user: User, payload: CreateDisputeDto): Promise<DisputeRecord> {
@@ -46,6 +51,9 @@ export class DisputesService {
       throw new ConflictException('DISPUTE_ALREADY_OPEN');
     }
 
+    // Snapshot what the provider documented so later edits cannot change what the dispute is judged on.
+    const evidence = await this.bookingEvidence.snapshotEvidence(booking.id);
+
     const dispute = await this.prisma.dispute.create({
       data: {
         booking: { connect: { id: booking.id } },
@@ -54,6 +62,7 @@ export class DisputesService {
         reason: payload.reason,
         description: payload.description ?? null,
         openedBy: { connect: { id: user.id } },
+        evidence,
         messages: payload.initialMessage
           ? {
               create: [
@@ -71,7 +80,7 @@ export class DisputesService {
 
     await this.notifyAdmins(dispute.id, 'Nouveau litige client');
 
-    return this.mapDispute(dispute);
+    return this.mapWithEvidence(dispute);
   }
 
   async listForUser(user: User): Promise<DisputeRecord[]> {
@@ -80,7 +89,7 @@ export class DisputesService {
       orderBy: { createdAt: 'desc' },
       include: this.baseInclude,
     });
-    return disputes.map((record) => this.mapDispute(record));
+    return disputes.map((record) => this.mapDispute(record, null));
   }
 
   async getForUser(disputeId: string, user: User): Promise<DisputeRecord> {
@@ -91,7 +100,7 @@ export class DisputesService {
     if (!dispute) {
       throw new NotFoundException('DISPUTE_NOT_FOUND');
     }
-    return this.mapDispute(dispute);
+    return this.mapWithEvidence(dispute);
   }
 
   async addMessageAsClient(disputeId: string, user: User, payload: AddDisputeMessageDto): Promise<DisputeRecord> {
@@ -116,7 +125,7 @@ export class DisputesService {
       include: this.baseInclude,
       take: 200,
     });
-    return disputes.map((record) => this.mapDispute(record));
+    return disputes.map((record) => this.mapDispute(record, null));
   }
 
   async getById(disputeId: string): Promise<DisputeRecord> {
@@ -127,7 +136,7 @@ export class DisputesService {
     if (!dispute) {
       throw new NotFoundException('DISPUTE_NOT_FOUND');
     }
-    return this.mapDispute(dispute);
+    return this.mapWithEvidence(dispute);
   }
 
   async assignDispute(disputeId: string, payload: AssignDisputeDto, reviewer: User): Promise<DisputeRecord> {
@@ -137,7 +146,7 @@ export class DisputesService {
       data: { assignedTo: { connect: { id: assigneeId } } },
       include: this.baseInclude,
     });
-    return this.mapDispute(dispute);
+    return this.mapWithEvidence(dispute);
   }
 
   async updateStatus(disputeId: string, payload: UpdateDisputeStatusDto, reviewer: User): Promise<DisputeRecord> {
@@ -148,6 +157,25 @@ export class DisputesService {
       nextStatus === PrismaDisputeStatus.RESOLVED ||
       nextStatus === PrismaDisputeStatus.REJECTED;
 
+    if (nextStatus === PrismaDisputeStatus.REFUNDED && (payload.refundAmountCents ?? 0) > 0) {
+      const existing = await this.prisma.dispute.findUnique({
+        where: { id: disputeId },
+        select: { id: true, bookingId: true, paymentId: true },
+      });
+      if (!existing) {
+        throw new NotFoundException('DISPUTE_NOT_FOUND');
+      }
+      await this.payments.refundPayment({
+        paymentId: existing.paymentId,
+        bookingId: existing.bookingId,
+        amountCents: payload.refundAmountCents,
+        reason: payload.resolution ?? 'dispute_refund',
+        source: PaymentRefundSource.DISPUTE,
+        sourceReference: `dispute:${existing.id}`,
+        requestedById: reviewer.id,
+      });
+    }
+
     const dispute = await this.prisma.dispute.update({
       where: { id: disputeId },
       data: {
@@ -166,7 +194,7 @@ export class DisputesService {
       include: this.baseInclude,
     });
 
-    return this.mapDispute(dispute);
+    return this.mapWithEvidence(dispute);
   }
 
   async addAdminMessage(disputeId: string, reviewer: User, payload: AddDisputeMessageDto): Promise<DisputeRecord> {
@@ -191,7 +219,16 @@ export class DisputesService {
     }
   }
 
-  private mapDispute(record: PrismaDispute & { messages: PrismaDisputeMessage[] }): DisputeRecord {
+  /** Lists leave the evidence out; resolving it loads every photo of every dispute. */
+  private async mapWithEvidence(record: PrismaDispute & { messages: PrismaDisputeMessage[] }) {
+    const evidence = record.evidence ? await this.bookingEvidence.resolveSnapshot(record.evidence) : null;
+    return this.mapDispute(record, evidence);
+  }
+
+  private mapDispute(
+    record: PrismaDispute & { messages: PrismaDisputeMessage[] },
+    evidence: BookingEvidence | null
+  ): DisputeRecord {
     return {
       id: record.id,
       createdAt: record.createdAt.toISOString(),
@@ -209,6 +246,7 @@ export class DisputesService {
       refundProcessedAt: record.refundProcessedAt ? record.refundProcessedAt.toISOString() : undefined,
       resolvedAt: record.resolvedAt ? record.resolvedAt.toISOString() : undefined,
       adminNotes: record.adminNotes ?? undefined,
+      evidence,
       messages: record.messages.map((message) => ({
         id: message.id,
         createdAt: message.createdAt.toISOString(),
@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DocumentType, Prisma, type Document } from '@prisma/client';
+import { existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+
+export interface RegisterStoredDocumentInput {
+  filePath: string;
+  name: string;
+  type: DocumentType;
+  metadata?: Record<string, unknown>;
+  bookingId?: string;
+  providerId?: string;
+  payoutId?: string;
+  uploadedById?: string;
+}
+
+/**
+ * Generated files live under `generated/<folder>` and are exposed through
+ * `GET /documents/:id/download`, which resolves `metadata.filePath`.
+ */
+@Injectable()
+export class DocumentStorageService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService<AppEnvironmentConfig>
+  ) {}
+
+  resolveFilePath(folder: string, fileName: string) {
+    const dir = join(process.cwd(), 'generated', folder);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    return join(dir, fileName);
+  }
+
+  async register(input: RegisterStoredDocumentInput): Promise<Document> {
+    const metadata: Prisma.JsonObject = {
+      generated: true,
+      filePath: input.filePath,
+      ...((input.metadata ?? {}) as Prisma.JsonObject),
+    };
+
+    const created = await this.prisma.document.create({
+      data: {
+        type: input.type,
+        url: input.filePath,
+        name: input.name,
+        metadata,
+        booking: input.bookingId ? { connect: { id: input.bookingId } } : undefined,
+        provider: input.providerId ? { connect: { id: input.providerId } } : undefined,
+        providerPayout: input.payoutId ? { connect: { id: input.payoutId } } : undefined,
+        uploadedBy: input.uploadedById ? { connect: { id: input.uploadedById } } : undefined,
+      },
+    });
+
+    return this.prisma.document.update({
+      where: { id: created.id },
+      data: { url: this.downloadUrl(created.id) },
+    });
+  }
+
+  downloadUrl(documentId: string) {
+    const apiEnv =
+      process.env.API_BASE_URL ?? process.env.SAUBIO_API_BASE_URL ?? process.env.NEXT_PUBLIC_API_BASE_URL;
+    const defaultBase = `http://localhost:${this.configService.get('app.port' as keyof AppEnvironmentConfig) ?? 3001}`;
+    const baseUrl = (apiEnv ?? defaultBase).replace(/\/+$/, '');
+    const normalizedApiBase = /\/api$/.test(baseUrl) ? baseUrl : `${baseUrl}/api`;
+    return `${normalizedApiBase}/documents/${documentId}/download`;
+  }
+}
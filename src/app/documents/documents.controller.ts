@@ -1,4 +1,13 @@
-import { Controller, Get, Param, UseGuards, NotFoundException, ForbiddenException, StreamableFile } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Param,
+  UseGuards,
+  NotFoundException,
+  ForbiddenException,
+  GoneException,
+  StreamableFile,
+} from '@nestjs/common';
 import { createReadStream, existsSync } from 'fs';
 import { extname } from 'path';
 import { Prisma } from '@prisma/client';
@@ -8,6 +17,7 @@ import { AccessTokenGuard } from '../auth/guards/access-token.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { hasCompanyPermission } from '../companies/company-permissions';
 
 @Controller('documents')
 @UseGuards(AccessTokenGuard, RolesGuard)
@@ -22,6 +32,7 @@ export class DocumentsController {
       include: {
         booking: { select: { clientId: true, companyId: true } },
         provider: { select: { userId: true } },
+        invoice: { select: { companyId: true } },
       },
     });
 
@@ -29,10 +40,14 @@ export class DocumentsController {
       throw new NotFoundException('DOCUMENT_NOT_FOUND');
     }
 
-    if (!this.canAccessDocument(document, user)) {
+    if (!(await this.canAccessDocument(document, user)) || !this.satisfiesRestrictions(document.metadata, user)) {
       throw new ForbiddenException('DOCUMENT_FORBIDDEN');
     }
 
+    if (this.isExpired(document.metadata)) {
+      throw new GoneException('DOCUMENT_EXPIRED');
+    }
+
     const filePath = this.resolveFilePath(document.metadata, document.url);
     if (!filePath || !existsSync(filePath)) {
       throw new NotFoundException('DOCUMENT_FILE_NOT_FOUND');
@@ -46,10 +61,11 @@ export class DocumentsController {
     });
   }
 
-  private canAccessDocument(
+  private async canAccessDocument(
     document: {
       booking: { clientId: string | null; companyId: string | null } | null;
       provider: { userId: string } | null;
+      invoice: { companyId: string | null } | null;
     },
     user: User
   ) {
@@ -63,9 +79,35 @@ export class DocumentsController {
     if (document.provider?.userId && document.provider.userId === user.id) {
       return true;
     }
+    if (document.invoice?.companyId && user.companies?.includes(document.invoice.companyId)) {
+      const member = await this.prisma.companyMember.findUnique({
+        where: { companyId_userId: { companyId: document.invoice.companyId, userId: user.id } },
+      });
+      return hasCompanyPermission(member, 'billing.view');
+    }
     return false;
   }
 
+  /** Generated files such as data exports may narrow access to `metadata.allowedRoles`. */
+  private satisfiesRestrictions(metadata: Prisma.JsonValue | null, user: User) {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      return true;
+    }
+    const allowedRoles = (metadata as Record<string, unknown>)['allowedRoles'];
+    if (!Array.isArray(allowedRoles)) {
+      return true;
+    }
+    return (user.roles ?? []).some((role) => allowedRoles.includes(role));
+  }
+
+  private isExpired(metadata: Prisma.JsonValue | null) {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      return false;
+    }
+    const expiresAt = (metadata as Record<string, unknown>)['expiresAt'];
+    return typeof expiresAt === 'string' && new Date(expiresAt).getTime() <= Date.now();
+  }
+
   private resolveFilePath(metadata: Prisma.JsonValue | null, fallback: string) {
     if (metadata && typeof metadata === 'object') {
       const meta = metadata as Record<string, unknown>;
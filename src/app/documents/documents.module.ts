@@ -1,10 +1,14 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
+import { AppConfigModule } from '../config/app-config.module';
 import { DocumentsController } from './documents.controller';
+import { DocumentStorageService } from './document-storage.service';
 
 @Module({
-  imports: [PrismaModule, AuthModule],
+  imports: [PrismaModule, AuthModule, AppConfigModule],
   controllers: [DocumentsController],
+  providers: [DocumentStorageService],
+  exports: [DocumentStorageService],
 })
 export class DocumentsModule {}
@@ -13,7 +13,7 @@ import { ProviderController } from '../provider/provider.controller';
 import { ProviderService } from '../provider/provider.service';
 import { BookingNotificationsService } from '../bookings/booking-notifications.service';
 import { PaymentsService } from '../payments/payments.service';
-import { SmsService } from '../provider/sms.service';
+import { SmsService } from '../notifications/sms.service';
 import { ConfigService } from '@nestjs/config';
 
 const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip;
@@ -0,0 +1,37 @@
+import { Body, Controller, Get, Param, Patch, Post, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import type { CancellationPolicyRecord } from '@saubio/models';
+import { AccessTokenGuard } from '../auth/guards/access-token.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CancellationPolicyService } from '../bookings/cancellation-policy.service';
+import {
+  CreateCancellationPolicyDto,
+  UpdateCancellationPolicyDto,
+} from '../bookings/dto/cancellation-policy.dto';
+
+@ApiTags('employee')
+@Controller('employee/cancellation-policies')
+@UseGuards(AccessTokenGuard, RolesGuard)
+@Roles('employee', 'admin')
+export class EmployeeCancellationPoliciesController {
+  constructor(private readonly cancellationPolicies: CancellationPolicyService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Conditions d’annulation configurées' })
+  list(): Promise<CancellationPolicyRecord[]> {
+    return this.cancellationPolicies.listPolicies();
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Créer une condition d’annulation' })
+  create(@Body() payload: CreateCancellationPolicyDto): Promise<CancellationPolicyRecord> {
+    return this.cancellationPolicies.createPolicy(payload);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Modifier ou désactiver une condition d’annulation' })
+  update(@Param('id') id: string, @Body() payload: UpdateCancellationPolicyDto): Promise<CancellationPolicyRecord> {
+    return this.cancellationPolicies.updatePolicy(id, payload);
+  }
+}
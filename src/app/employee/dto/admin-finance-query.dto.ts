@@ -12,6 +12,7 @@ const PAYMENT_STATUSES = [
   'refunded',
   'failed',
   'disputed',
+  'cancelled',
 ] as const;
 
 const PAYMENT_METHODS = ['card', 'sepa', 'paypal'] as const;
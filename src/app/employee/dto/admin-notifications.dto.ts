@@ -1,4 +1,4 @@
-import { IsEnum, IsNumberString, IsOptional, IsString, Max, Min } from 'class-validator';
+import { IsEmail, IsEnum, IsNumberString, IsObject, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
 import { NotificationAutomationAudience, NotificationAutomationEvent, NotificationChannel, NotificationDeliveryStatus, NotificationTemplateStatus, NotificationType } from '@prisma/client';
 
 const LOG_SORTABLE_STATUSES = [
@@ -9,7 +9,7 @@ const LOG_SORTABLE_STATUSES = [
   NotificationDeliveryStatus.BOUNCED,
 ];
 
-const NOTIFICATION_CHANNELS = [NotificationChannel.IN_APP, NotificationChannel.EMAIL, NotificationChannel.PUSH] as const;
+const NOTIFICATION_CHANNELS = [NotificationChannel.IN_APP, NotificationChannel.EMAIL, NotificationChannel.PUSH, NotificationChannel.SMS] as const;
 
 export class NotificationLogQueryDto {
   @IsOptional()
@@ -97,6 +97,26 @@ export class NotificationAutomationRuleUpdateDto {
   @IsString()
   templateId?: string | null;
 
+  @IsOptional()
+  @IsObject()
+  conditions?: Record<string, unknown> | null;
+
   @IsOptional()
   isActive?: boolean;
 }
+
+export class EmailSuppressionQueryDto {
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
+
+export class CreateEmailSuppressionDto {
+  @IsEmail()
+  email!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  details?: string;
+}
@@ -1,5 +1,21 @@
-import { IsEnum, IsNumberString, IsOptional, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
 import { WebhookDeliveryStatus } from '@prisma/client';
+import { API_KEY_SCOPES } from '../../auth/decorators/api-key-scopes.decorator';
 
 export class SystemWebhookLogsQueryDto {
   @IsOptional()
@@ -79,6 +95,57 @@ export class SystemApiKeysQueryDto {
   search?: string;
 }
 
+export class CreateSystemApiKeyDto {
+  @IsString()
+  @MaxLength(120)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @IsString()
+  ownerId!: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes!: string[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  rateLimitPerDay?: number;
+}
+
+export class UpdateSystemApiKeyDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes?: string[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  rateLimitPerDay?: number | null;
+
+  @IsOptional()
+  @IsEnum(SystemApiKeyStatusDto)
+  status?: SystemApiKeyStatusDto;
+}
+
 export enum SystemDataJobStatusDto {
   PENDING = 'PENDING',
   PROCESSING = 'PROCESSING',
@@ -118,6 +185,36 @@ export class SystemImportJobsQueryDto {
   search?: string;
 }
 
+export enum SystemDataJobFormatDto {
+  CSV = 'CSV',
+  JSON = 'JSON',
+}
+
+export class CreateSystemImportJobDto {
+  @IsString()
+  @MaxLength(120)
+  label!: string;
+
+  @IsEnum(SystemImportEntityDto)
+  entity!: SystemImportEntityDto;
+
+  @IsEnum(SystemDataJobFormatDto)
+  format!: SystemDataJobFormatDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  fileName?: string;
+
+  /** Raw file content or a base64 data URL. */
+  @IsString()
+  content!: string;
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
 export enum SystemExportTypeDto {
   BOOKINGS = 'BOOKINGS',
   PAYMENTS = 'PAYMENTS',
@@ -128,6 +225,44 @@ export enum SystemExportTypeDto {
   OTHER = 'OTHER',
 }
 
+export enum SystemExportFormatDto {
+  CSV = 'CSV',
+  JSON = 'JSON',
+  XLSX = 'XLSX',
+}
+
+export class SystemExportParametersDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  status?: string;
+}
+
+export class CreateSystemExportJobDto {
+  @IsString()
+  @MaxLength(120)
+  label!: string;
+
+  @IsEnum(SystemExportTypeDto)
+  type!: SystemExportTypeDto;
+
+  @IsEnum(SystemExportFormatDto)
+  format!: SystemExportFormatDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SystemExportParametersDto)
+  parameters?: SystemExportParametersDto;
+}
+
 export class SystemExportJobsQueryDto {
   @IsOptional()
   @IsNumberString()
@@ -0,0 +1,123 @@
+import { PartialType } from '@nestjs/mapped-types';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { PricingRuleAudience, PricingRuleType } from '@prisma/client';
+import type { CleaningSoilLevel } from '@saubio/models';
+
+const PRICING_RULE_TYPES = Object.values(PricingRuleType);
+const PRICING_RULE_AUDIENCES = Object.values(PricingRuleAudience);
+const SOIL_LEVELS: CleaningSoilLevel[] = ['light', 'normal', 'strong', 'extreme'];
+
+export class CreatePricingRuleDto {
+  @IsString()
+  @Matches(/^[A-Z0-9_]{2,64}$/, { message: 'invalid_rule_code' })
+  code!: string;
+
+  @IsIn(PRICING_RULE_TYPES)
+  type!: PricingRuleType;
+
+  @IsOptional()
+  @IsIn(PRICING_RULE_AUDIENCES)
+  audience?: PricingRuleAudience;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsInt()
+  amountCents?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(-10000)
+  @Max(10000)
+  percentageBps?: number;
+
+  @IsOptional()
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  @Min(0)
+  @Max(10)
+  multiplier?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minSquareMeters?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxSquareMeters?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @Matches(/^[0-9]{1,5}$/, { each: true, message: 'invalid_postal_code_prefix' })
+  postalCodePrefixes?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(7, { each: true })
+  weekdays?: number[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(1440)
+  startMinute?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(1440)
+  endMinute?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  maxLeadTimeHours?: number;
+
+  @IsOptional()
+  @IsIn(SOIL_LEVELS)
+  soilLevel?: CleaningSoilLevel;
+
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  exclusive?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  priority?: number;
+}
+
+export class UpdatePricingRuleDto extends PartialType(CreatePricingRuleDto) {}
@@ -19,6 +19,7 @@ import { BookingsModule } from '../bookings/bookings.module';
 import { DisputesModule } from '../disputes/disputes.module';
 import { EmployeeDisputesController } from './disputes.controller';
 import { EmployeeBookingsController } from './bookings.controller';
+import { EmployeeCancellationPoliciesController } from './cancellation-policies.controller';
 import { EmployeeBookingsService } from './bookings.service';
 import { EmployeeFinanceController } from './finance.controller';
 import { EmployeeFinanceService } from './finance.service';
@@ -39,11 +40,15 @@ import { EmployeeSupportCenterService } from './support-center.service';
 import { EmployeeNotificationsController } from './notifications.controller';
 import { EmployeeNotificationsService } from './notifications.service';
 import { SystemModule } from '../system/system.module';
+import { DataJobsModule } from '../data-jobs/data-jobs.module';
+import { ReviewsModule } from '../reviews/reviews.module';
 import { EmployeeSystemController } from './system.controller';
 import { EmployeeSystemService } from './system.service';
 import { EmployeeAnalyticsController } from './analytics.controller';
 import { EmployeeAnalyticsService } from './analytics.service';
 import { SecurityModule } from '../security/security.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
@@ -56,6 +61,10 @@ import { SecurityModule } from '../security/security.module';
     MarketingModule,
     SystemModule,
     SecurityModule,
+    PaymentsModule,
+    DataJobsModule,
+    ReviewsModule,
+    NotificationsModule,
   ],
   controllers: [
     EmployeeDashboardController,
@@ -69,6 +78,7 @@ import { SecurityModule } from '../security/security.module';
     EmployeeProviderTeamsController,
     EmployeeDisputesController,
     EmployeeBookingsController,
+    EmployeeCancellationPoliciesController,
     EmployeeFinanceController,
     EmployeeServicesController,
     EmployeeZonesController,
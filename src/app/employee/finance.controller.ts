@@ -1,8 +1,9 @@
-import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
 import { AccessTokenGuard } from '../auth/guards/access-token.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import type {
   AdminFinanceCommissionsResponse,
   AdminFinanceExportsResponse,
@@ -12,6 +13,8 @@ import type {
   AdminFinanceSettingsResponse,
   AdminFinanceInvoicesResponse,
   AdminPaginatedResponse,
+  PaymentRefundRecord,
+  User,
 } from '@saubio/models';
 import { EmployeeFinanceService } from './finance.service';
 import {
@@ -21,6 +24,7 @@ import {
   FinanceRangeQueryDto,
   FinanceInvoicesQueryDto,
 } from './dto/admin-finance-query.dto';
+import { FinanceRefundPaymentDto } from './dto/admin-finance-refund.dto';
 
 @ApiTags('employee')
 @Controller('employee/finance')
@@ -42,6 +46,22 @@ export class EmployeeFinanceController {
     return this.financeService.listPayments(query);
   }
 
+  @Get('payments/:id/refunds')
+  @ApiOperation({ summary: 'List refunds issued for a payment' })
+  async listRefunds(@Param('id') id: string): Promise<PaymentRefundRecord[]> {
+    return this.financeService.listRefunds(id);
+  }
+
+  @Post('payments/:id/refunds')
+  @ApiOperation({ summary: 'Refund a client payment (full or partial)' })
+  async refundPayment(
+    @Param('id') id: string,
+    @Body() payload: FinanceRefundPaymentDto,
+    @CurrentUser() user: User
+  ): Promise<PaymentRefundRecord> {
+    return this.financeService.refundPayment(id, payload, user);
+  }
+
   @Get('payouts')
   @ApiOperation({ summary: 'List provider payouts' })
   async listPayouts(@Query() query: FinancePayoutsQueryDto): Promise<AdminPaginatedResponse<AdminFinancePayoutItem>> {
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import {
+  PaymentRefundSource,
   PaymentStatus as PrismaPaymentStatus,
   PaymentMethod as PrismaPaymentMethod,
   ProviderPayoutStatus as PrismaProviderPayoutStatus,
@@ -18,8 +19,10 @@ import type {
   AdminFinanceStatementRecord,
   AdminPaginatedResponse,
   PaymentMethod,
+  PaymentRefundRecord,
   PaymentStatus,
   ProviderPayoutStatus,
+  User,
 } from '@saubio/models';
 import { PrismaService } from '../../prisma/prisma.service';
 import type { AppEnvironmentConfig } from '../config/configuration';
@@ -30,6 +33,8 @@ import {
   FinanceRangeQueryDto,
   FinanceInvoicesQueryDto,
 } from './dto/admin-finance-query.dto';
+import { FinanceRefundPaymentDto } from './dto/admin-finance-refund.dto';
+import { PaymentsService } from '../payments/payments.service';
 
 type PaymentWithRelations = Prisma.PaymentGetPayload<{ include: { client: true; booking: true } }>;
 type ProviderPayoutWithRelations = Prisma.ProviderPayoutGetPayload<{
@@ -44,6 +49,7 @@ export class EmployeeFinanceService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
+    private readonly payments: PaymentsService,
   ) {}
 
   private resolveRange(query: FinanceRangeQueryDto) {
@@ -82,6 +88,7 @@ export class EmployeeFinanceService {
       provider: record.provider,
       externalReference: record.externalReference ?? null,
       metadataPurpose: undefined,
+      refundedAmountCents: record.refundedAmountCents,
       service: record.booking?.service ?? undefined,
       city: record.booking?.addressCity ?? undefined,
       postalCode: record.booking?.addressPostalCode ?? undefined,
@@ -384,6 +391,20 @@ export class EmployeeFinanceService {
     return this.paginate(payments.map((payment) => this.formatPaymentRecord(payment)), total, page, pageSize);
   }
 
+  async listRefunds(paymentId: string): Promise<PaymentRefundRecord[]> {
+    return this.payments.listPaymentRefunds(paymentId);
+  }
+
+  async refundPayment(paymentId: string, payload: FinanceRefundPaymentDto, user: User): Promise<PaymentRefundRecord> {
+    return this.payments.refundPayment({
+      paymentId,
+      amountCents: payload.amountCents,
+      reason: payload.reason ?? 'admin_refund',
+      source: PaymentRefundSource.ADMIN,
+      requestedById: user.id,
+    });
+  }
+
   async listPayouts(query: FinancePayoutsQueryDto): Promise<AdminPaginatedResponse<AdminFinancePayoutItem>> {
     const { from, to } = this.resolveRange(query);
     const page = Math.max(Number(query.page) || 1, 1);
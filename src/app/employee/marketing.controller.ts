@@ -2,8 +2,11 @@ import { Body, Controller, Get, Param, Patch, Post, Query, UseGuards } from '@ne
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
 import type {
   AdminMarketingCampaign,
+  AdminMarketingCampaignDetail,
   AdminMarketingLandingPagesResponse,
   AdminMarketingOverviewResponse,
+  AdminMarketingSegment,
+  AdminMarketingSegmentPreview,
   AdminMarketingSettingsResponse,
   AdminPaginatedResponse,
   AdminPromoCodeDetail,
@@ -27,13 +30,19 @@ import {
   ReferralListQueryDto,
 } from './dto/admin-marketing.dto';
 import { EmployeeMarketingService } from './marketing.service';
+import { MarketingCampaignsService } from '../marketing/marketing-campaigns.service';
+import { MarketingSegmentDto } from '../marketing/dto/marketing-segment.dto';
+import { MarketingCampaignDto, ScheduleMarketingCampaignDto } from '../marketing/dto/marketing-campaign.dto';
 
 @ApiTags('employee')
 @Controller('employee/marketing')
 @UseGuards(AccessTokenGuard, RolesGuard)
 @Roles('employee', 'admin')
 export class EmployeeMarketingController {
-  constructor(private readonly marketingService: EmployeeMarketingService) {}
+  constructor(
+    private readonly marketingService: EmployeeMarketingService,
+    private readonly campaignsService: MarketingCampaignsService
+  ) {}
 
   @Get('overview')
   @ApiOperation({ summary: 'Marketing KPIs' })
@@ -49,6 +58,72 @@ export class EmployeeMarketingController {
     return this.marketingService.listCampaigns(query);
   }
 
+  @Post('campaigns')
+  @ApiOperation({ summary: 'Create marketing campaign' })
+  async createCampaign(
+    @Body() dto: MarketingCampaignDto,
+    @CurrentUser() user: User
+  ): Promise<AdminMarketingCampaignDetail> {
+    return this.campaignsService.createCampaign(dto, user);
+  }
+
+  @Get('campaigns/:id')
+  @ApiOperation({ summary: 'Marketing campaign details' })
+  async campaignDetail(@Param('id') id: string): Promise<AdminMarketingCampaignDetail> {
+    return this.campaignsService.getCampaign(id);
+  }
+
+  @Patch('campaigns/:id')
+  @ApiOperation({ summary: 'Update draft or paused campaign' })
+  async updateCampaign(
+    @Param('id') id: string,
+    @Body() dto: MarketingCampaignDto
+  ): Promise<AdminMarketingCampaignDetail> {
+    return this.campaignsService.updateCampaign(id, dto);
+  }
+
+  @Post('campaigns/:id/schedule')
+  @ApiOperation({ summary: 'Schedule campaign sending' })
+  async scheduleCampaign(
+    @Param('id') id: string,
+    @Body() dto: ScheduleMarketingCampaignDto
+  ): Promise<AdminMarketingCampaignDetail> {
+    return this.campaignsService.scheduleCampaign(id, dto);
+  }
+
+  @Post('campaigns/:id/pause')
+  @ApiOperation({ summary: 'Pause scheduled campaign' })
+  async pauseCampaign(@Param('id') id: string): Promise<AdminMarketingCampaignDetail> {
+    return this.campaignsService.pauseCampaign(id);
+  }
+
+  @Get('segments')
+  @ApiOperation({ summary: 'Saved audience segments' })
+  async segments(): Promise<AdminMarketingSegment[]> {
+    return this.campaignsService.listSegments();
+  }
+
+  @Post('segments')
+  @ApiOperation({ summary: 'Create audience segment' })
+  async createSegment(
+    @Body() dto: MarketingSegmentDto,
+    @CurrentUser() user: User
+  ): Promise<AdminMarketingSegment> {
+    return this.campaignsService.createSegment(dto, user);
+  }
+
+  @Patch('segments/:id')
+  @ApiOperation({ summary: 'Update audience segment' })
+  async updateSegment(@Param('id') id: string, @Body() dto: MarketingSegmentDto): Promise<AdminMarketingSegment> {
+    return this.campaignsService.updateSegment(id, dto);
+  }
+
+  @Get('segments/:id/preview')
+  @ApiOperation({ summary: 'Audience size of a segment' })
+  async previewSegment(@Param('id') id: string): Promise<AdminMarketingSegmentPreview> {
+    return this.campaignsService.previewSegment(id);
+  }
+
   @Get('promo-codes')
   @ApiOperation({ summary: 'List promo codes' })
   async listPromoCodes(
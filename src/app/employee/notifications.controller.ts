@@ -1,16 +1,22 @@
-import { Controller, Get, Param, Patch, Query, Body, UseGuards } from '@nestjs/common';
+import { Controller, Delete, Get, Param, Patch, Post, Query, Body, UseGuards } from '@nestjs/common';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
 import type {
+  AdminEmailSuppression,
   AdminNotificationAutomationRule,
   AdminNotificationLogItem,
   AdminNotificationTemplate,
   AdminPaginatedResponse,
+  User,
 } from '@saubio/models';
 import { AccessTokenGuard } from '../auth/guards/access-token.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { EmployeeNotificationsService } from './notifications.service';
+import { EmailDeliveryService } from '../notifications/email-delivery.service';
 import {
+  CreateEmailSuppressionDto,
+  EmailSuppressionQueryDto,
   NotificationAutomationRuleUpdateDto,
   NotificationLogQueryDto,
   NotificationTemplateUpdateDto,
@@ -21,7 +27,10 @@ import {
 @UseGuards(AccessTokenGuard, RolesGuard)
 @Roles('employee', 'admin')
 export class EmployeeNotificationsController {
-  constructor(private readonly notifications: EmployeeNotificationsService) {}
+  constructor(
+    private readonly notifications: EmployeeNotificationsService,
+    private readonly emailDelivery: EmailDeliveryService
+  ) {}
 
   @Get('logs')
   @ApiOperation({ summary: 'Liste des notifications envoyées' })
@@ -71,4 +80,25 @@ export class EmployeeNotificationsController {
   ): Promise<AdminNotificationAutomationRule> {
     return this.notifications.updateAutomationRule(id, dto);
   }
+
+  @Get('email-suppressions')
+  @ApiOperation({ summary: 'Liste des adresses email bloquées' })
+  listEmailSuppressions(@Query() query: EmailSuppressionQueryDto): Promise<AdminEmailSuppression[]> {
+    return this.emailDelivery.listSuppressions(query.search);
+  }
+
+  @Post('email-suppressions')
+  @ApiOperation({ summary: 'Bloquer une adresse email' })
+  addEmailSuppression(
+    @Body() dto: CreateEmailSuppressionDto,
+    @CurrentUser() user: User
+  ): Promise<AdminEmailSuppression> {
+    return this.emailDelivery.addSuppression(dto.email, dto.details, user.id);
+  }
+
+  @Delete('email-suppressions/:email')
+  @ApiOperation({ summary: 'Débloquer une adresse email' })
+  removeEmailSuppression(@Param('email') email: string) {
+    return this.emailDelivery.removeSuppression(email);
+  }
 }
@@ -6,8 +6,9 @@ import type {
   AdminNotificationTemplate,
   AdminPaginatedResponse,
 } from '@saubio/models';
-import type { Prisma, NotificationTemplate, NotificationAutomationRule } from '@prisma/client';
+import type { NotificationTemplate, NotificationAutomationRule } from '@prisma/client';
 import {
+  Prisma,
   NotificationAutomationAudience,
   NotificationAutomationEvent,
   NotificationChannel,
@@ -175,6 +176,12 @@ export class EmployeeNotificationsService {
         delaySeconds: dto.delaySeconds === undefined ? undefined : dto.delaySeconds,
         isActive: dto.isActive ?? undefined,
         templateId: dto.templateId === undefined ? undefined : dto.templateId,
+        conditions:
+          dto.conditions === undefined
+            ? undefined
+            : dto.conditions === null
+            ? Prisma.DbNull
+            : (dto.conditions as Prisma.InputJsonValue),
       },
       include: { template: true },
     });
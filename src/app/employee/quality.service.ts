@@ -24,6 +24,7 @@ import type {
   ServiceCategory,
 } from '@saubio/models';
 import { PrismaService } from '../../prisma/prisma.service';
+import { ReviewsService } from '../reviews/reviews.service';
 import {
   QualityIncidentQueryDto,
   QualityIncidentUpdateDto,
@@ -75,7 +76,10 @@ type ReviewWithRelations = Prisma.ReviewGetPayload<{
 
 @Injectable()
 export class EmployeeQualityService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reviews: ReviewsService
+  ) {}
 
   async getOverview(query: QualityRangeQueryDto): Promise<AdminQualityOverviewResponse> {
     const now = new Date();
@@ -333,6 +337,10 @@ export class EmployeeQualityService {
       include: this.reviewInclude(),
     });
 
+    if (updated.status !== review.status) {
+      await this.reviews.recomputeProviderRating(updated.targetProviderId);
+    }
+
     return {
       ...this.mapReview(updated),
       moderationNotes: updated.moderationNotes ?? null,
@@ -880,6 +888,13 @@ export class EmployeeQualityService {
       comment: review.comment ?? null,
       status: REVIEW_STATUS_MAP[review.status],
       ecoCompliance: review.ecoCompliance,
+      criteria: {
+        punctuality: review.punctualityScore ?? undefined,
+        quality: review.qualityScore ?? undefined,
+        communication: review.communicationScore ?? undefined,
+      },
+      providerReply: review.providerReply ?? null,
+      providerRepliedAt: review.providerRepliedAt?.toISOString() ?? null,
       createdAt: review.createdAt.toISOString(),
       booking: {
         id: review.booking.id,
@@ -1,4 +1,4 @@
-import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, Param, Patch, Post, Query, UseGuards } from '@nestjs/common';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
 import { AccessTokenGuard } from '../auth/guards/access-token.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
@@ -7,6 +7,7 @@ import type {
   AdminServiceCatalogResponse,
   AdminServiceOptionsResponse,
   AdminServicePricingMatrixResponse,
+  AdminServicePricingRuleItem,
   AdminServicePricingRulesResponse,
   AdminServicePreviewResponse,
   AdminServiceHabilitationsResponse,
@@ -14,6 +15,7 @@ import type {
 } from '@saubio/models';
 import { EmployeeServicesService } from './services.service';
 import { ServicePreviewQueryDto } from './dto/service-preview.dto';
+import { CreatePricingRuleDto, UpdatePricingRuleDto } from './dto/pricing-rule.dto';
 
 @ApiTags('employee')
 @Controller('employee/services')
@@ -47,6 +49,21 @@ export class EmployeeServicesController {
     return this.servicesService.getPricingRules();
   }
 
+  @Post('pricing/rules')
+  @ApiOperation({ summary: 'Créer une règle de pricing' })
+  async createPricingRule(@Body() payload: CreatePricingRuleDto): Promise<AdminServicePricingRuleItem> {
+    return this.servicesService.createPricingRule(payload);
+  }
+
+  @Patch('pricing/rules/:id')
+  @ApiOperation({ summary: 'Modifier une règle de pricing' })
+  async updatePricingRule(
+    @Param('id') id: string,
+    @Body() payload: UpdatePricingRuleDto
+  ): Promise<AdminServicePricingRuleItem> {
+    return this.servicesService.updatePricingRule(id, payload);
+  }
+
   @Get('preview')
   @ApiOperation({ summary: 'Aperçu côté client (estimation locale)' })
   async preview(@Query() query: ServicePreviewQueryDto): Promise<AdminServicePreviewResponse> {
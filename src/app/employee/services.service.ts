@@ -1,13 +1,16 @@
-import { BadRequestException, Injectable } from '@nestjs/common';
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, type PricingRule, type SoilLevel } from '@prisma/client';
 import {
   SERVICE_CATALOG,
   type AdminServiceCatalogResponse,
   type AdminServiceOptionsResponse,
   type AdminServicePricingMatrixResponse,
+  type AdminServicePricingRuleItem,
   type AdminServicePricingRulesResponse,
   type AdminServicePreviewResponse,
   type AdminServiceHabilitationsResponse,
   type AdminServiceLogsResponse,
+  type CleaningSoilLevel,
   type DocumentReference,
   type DocumentReviewStatus,
   type DocumentType,
@@ -15,7 +18,9 @@ import {
 } from '@saubio/models';
 import { PrismaService } from '../../prisma/prisma.service';
 import { PricingService } from '../pricing/pricing.service';
+import { addonsForService, priceServiceAddons } from '../pricing/service-addons';
 import type { ServicePreviewQueryDto } from './dto/service-preview.dto';
+import type { CreatePricingRuleDto, UpdatePricingRuleDto } from './dto/pricing-rule.dto';
 
 type ProviderRateStats = {
   total: number;
@@ -144,7 +149,7 @@ export class EmployeeServicesService {
   }
 
   async getPricingMatrix(): Promise<AdminServicePricingMatrixResponse> {
-    const [providers, bookings] = await Promise.all([
+    const [providers, bookings, pricingConfig] = await Promise.all([
       this.prisma.providerProfile.findMany({
         select: {
           id: true,
@@ -160,6 +165,7 @@ export class EmployeeServicesService {
         _count: { _all: true },
         _max: { updatedAt: true },
       }),
+      this.pricingService.getPublicConfig(),
     ]);
 
     const providerStats = new Map<string, ProviderRateStats>();
@@ -221,6 +227,10 @@ export class EmployeeServicesService {
         avgDurationHours: bookingInfo?.avgDuration ?? null,
         bookingsCount: bookingInfo?.count ?? 0,
         lastUpdatedAt: bookingInfo?.updatedAt ?? null,
+        addons: priceServiceAddons(
+          addonsForService(service.id).map((addon) => addon.id),
+          pricingConfig.addonPricesCents
+        ),
       };
     });
 
@@ -232,23 +242,141 @@ export class EmployeeServicesService {
       orderBy: [{ priority: 'asc' }, { updatedAt: 'desc' }],
     });
 
+    return { rules: rules.map((rule) => this.toPricingRuleItem(rule)) };
+  }
+
+  async createPricingRule(payload: CreatePricingRuleDto): Promise<AdminServicePricingRuleItem> {
+    this.assertPricingRuleWindows(payload);
+    try {
+      const rule = await this.prisma.pricingRule.create({
+        data: {
+          code: payload.code,
+          type: payload.type,
+          audience: payload.audience,
+          description: payload.description ?? null,
+          amountCents: payload.amountCents ?? null,
+          percentageBps: payload.percentageBps ?? null,
+          multiplier: payload.multiplier ?? null,
+          minSquareMeters: payload.minSquareMeters ?? null,
+          maxSquareMeters: payload.maxSquareMeters ?? null,
+          postalCodePrefixes: payload.postalCodePrefixes ?? [],
+          weekdays: payload.weekdays ?? [],
+          startMinute: payload.startMinute ?? null,
+          endMinute: payload.endMinute ?? null,
+          maxLeadTimeHours: payload.maxLeadTimeHours ?? null,
+          soilLevel: payload.soilLevel ? (payload.soilLevel.toUpperCase() as SoilLevel) : null,
+          validFrom: payload.validFrom ? new Date(payload.validFrom) : null,
+          validUntil: payload.validUntil ? new Date(payload.validUntil) : null,
+          exclusive: payload.exclusive ?? false,
+          isActive: payload.isActive ?? true,
+          priority: payload.priority,
+        },
+      });
+      this.pricingService.invalidateRuleCache();
+      return this.toPricingRuleItem(rule);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('PRICING_RULE_CODE_TAKEN');
+      }
+      throw error;
+    }
+  }
+
+  async updatePricingRule(id: string, payload: UpdatePricingRuleDto): Promise<AdminServicePricingRuleItem> {
+    const existing = await this.prisma.pricingRule.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('PRICING_RULE_NOT_FOUND');
+    }
+    const pick = <T>(value: T | null | undefined, current: T | null) => (value !== undefined ? value ?? null : current);
+    this.assertPricingRuleWindows({
+      startMinute: pick(payload.startMinute, existing.startMinute),
+      endMinute: pick(payload.endMinute, existing.endMinute),
+      validFrom: payload.validFrom !== undefined ? payload.validFrom : existing.validFrom?.toISOString(),
+      validUntil: payload.validUntil !== undefined ? payload.validUntil : existing.validUntil?.toISOString(),
+    });
+
+    try {
+      const rule = await this.prisma.pricingRule.update({
+        where: { id },
+        data: {
+          code: payload.code,
+          type: payload.type,
+          audience: payload.audience,
+          description: pick(payload.description, existing.description),
+          amountCents: pick(payload.amountCents, existing.amountCents),
+          percentageBps: pick(payload.percentageBps, existing.percentageBps),
+          multiplier: pick(payload.multiplier, existing.multiplier),
+          minSquareMeters: pick(payload.minSquareMeters, existing.minSquareMeters),
+          maxSquareMeters: pick(payload.maxSquareMeters, existing.maxSquareMeters),
+          postalCodePrefixes: payload.postalCodePrefixes ?? undefined,
+          weekdays: payload.weekdays ?? undefined,
+          startMinute: pick(payload.startMinute, existing.startMinute),
+          endMinute: pick(payload.endMinute, existing.endMinute),
+          maxLeadTimeHours: pick(payload.maxLeadTimeHours, existing.maxLeadTimeHours),
+          soilLevel:
+            payload.soilLevel !== undefined
+              ? payload.soilLevel
+                ? (payload.soilLevel.toUpperCase() as SoilLevel)
+                : null
+              : undefined,
+          validFrom: payload.validFrom !== undefined ? (payload.validFrom ? new Date(payload.validFrom) : null) : undefined,
+          validUntil:
+            payload.validUntil !== undefined ? (payload.validUntil ? new Date(payload.validUntil) : null) : undefined,
+          exclusive: payload.exclusive ?? undefined,
+          isActive: payload.isActive ?? undefined,
+          priority: payload.priority ?? undefined,
+        },
+      });
+      this.pricingService.invalidateRuleCache();
+      return this.toPricingRuleItem(rule);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('PRICING_RULE_CODE_TAKEN');
+      }
+      throw error;
+    }
+  }
+
+  /** A time window needs both ends, and a validity window must not end before it starts. */
+  private assertPricingRuleWindows(payload: {
+    startMinute?: number | null;
+    endMinute?: number | null;
+    validFrom?: string | null;
+    validUntil?: string | null;
+  }) {
+    if ((payload.startMinute ?? null) === null !== ((payload.endMinute ?? null) === null)) {
+      throw new BadRequestException('PRICING_RULE_TIME_WINDOW_INCOMPLETE');
+    }
+    if (payload.validFrom && payload.validUntil && Date.parse(payload.validUntil) <= Date.parse(payload.validFrom)) {
+      throw new BadRequestException('PRICING_RULE_VALIDITY_INVALID');
+    }
+  }
+
+  private toPricingRuleItem(rule: PricingRule): AdminServicePricingRuleItem {
     return {
-      rules: rules.map((rule) => ({
-        id: rule.id,
-        code: rule.code,
-        type: rule.type,
-        audience: rule.audience,
-        description: rule.description,
-        amountCents: rule.amountCents ?? null,
-        percentageBps: rule.percentageBps ?? null,
-        multiplier: rule.multiplier ?? null,
-        minSquareMeters: rule.minSquareMeters ?? null,
-        maxSquareMeters: rule.maxSquareMeters ?? null,
-        isActive: rule.isActive,
-        priority: rule.priority,
-        createdAt: rule.createdAt.toISOString(),
-        updatedAt: rule.updatedAt.toISOString(),
-      })),
+      id: rule.id,
+      code: rule.code,
+      type: rule.type,
+      audience: rule.audience,
+      description: rule.description,
+      amountCents: rule.amountCents ?? null,
+      percentageBps: rule.percentageBps ?? null,
+      multiplier: rule.multiplier ?? null,
+      minSquareMeters: rule.minSquareMeters ?? null,
+      maxSquareMeters: rule.maxSquareMeters ?? null,
+      postalCodePrefixes: rule.postalCodePrefixes,
+      weekdays: rule.weekdays,
+      startMinute: rule.startMinute ?? null,
+      endMinute: rule.endMinute ?? null,
+      maxLeadTimeHours: rule.maxLeadTimeHours ?? null,
+      soilLevel: rule.soilLevel ? (rule.soilLevel.toLowerCase() as CleaningSoilLevel) : null,
+      validFrom: rule.validFrom?.toISOString() ?? null,
+      validUntil: rule.validUntil?.toISOString() ?? null,
+      exclusive: rule.exclusive,
+      isActive: rule.isActive,
+      priority: rule.priority,
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString(),
     };
   }
 
@@ -438,6 +438,7 @@ export class EmployeeSmartMatchingService {
         startAt: start.toJSDate(),
         endAt: end.toJSDate(),
         city: city ?? undefined,
+        postalCode: payload.postalCode ?? undefined,
         requiredProviders: payload.requiredProviders ?? 1,
       },
       25
@@ -1,8 +1,13 @@
-import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, Param, Patch, Post, Query, Res, StreamableFile, UseGuards } from '@nestjs/common';
+import type { Response } from 'express';
 import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
 import type {
   AdminPaginatedResponse,
+  AdminSystemApiKeyItem,
+  AdminSystemApiKeySecretResponse,
+  AdminSystemExportJobItem,
   AdminSystemHealthResponse,
+  AdminSystemImportJobItem,
   AdminSystemInfoResponse,
   AdminSystemIntegrationsResponse,
   AdminWebhookLogDetail,
@@ -11,12 +16,18 @@ import type {
 import { AccessTokenGuard } from '../auth/guards/access-token.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { User } from '@saubio/models';
 import { EmployeeSystemService } from './system.service';
 import {
+  CreateSystemApiKeyDto,
+  CreateSystemExportJobDto,
+  CreateSystemImportJobDto,
   SystemApiKeysQueryDto,
   SystemExportJobsQueryDto,
   SystemImportJobsQueryDto,
   SystemWebhookLogsQueryDto,
+  UpdateSystemApiKeyDto,
 } from './dto/admin-system.dto';
 
 @ApiTags('employee')
@@ -45,18 +56,100 @@ export class EmployeeSystemController {
     return this.systemService.listApiKeys(query);
   }
 
+  @Post('api-keys')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Émettre une clé API partenaire (secret affiché une seule fois)' })
+  createApiKey(@Body() payload: CreateSystemApiKeyDto): Promise<AdminSystemApiKeySecretResponse> {
+    return this.systemService.createApiKey(payload);
+  }
+
+  @Patch('api-keys/:id')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Mettre à jour les scopes, quotas ou le statut d\'une clé API' })
+  updateApiKey(@Param('id') id: string, @Body() payload: UpdateSystemApiKeyDto): Promise<AdminSystemApiKeyItem> {
+    return this.systemService.updateApiKey(id, payload);
+  }
+
+  @Post('api-keys/:id/rotate')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Régénérer le secret d\'une clé API' })
+  rotateApiKey(@Param('id') id: string): Promise<AdminSystemApiKeySecretResponse> {
+    return this.systemService.rotateApiKey(id);
+  }
+
+  @Post('api-keys/:id/revoke')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Révoquer définitivement une clé API' })
+  revokeApiKey(@Param('id') id: string): Promise<AdminSystemApiKeyItem> {
+    return this.systemService.revokeApiKey(id);
+  }
+
   @Get('imports')
   @ApiOperation({ summary: 'Historique des imports de données' })
   listImportJobs(@Query() query: SystemImportJobsQueryDto) {
     return this.systemService.listImportJobs(query);
   }
 
+  @Post('imports')
+  @ApiOperation({ summary: 'Importer un fichier CSV/JSON (traitement en arrière-plan, mode simulation possible)' })
+  createImportJob(
+    @Body() payload: CreateSystemImportJobDto,
+    @CurrentUser() user: User
+  ): Promise<AdminSystemImportJobItem> {
+    return this.systemService.createImportJob(payload, user.id);
+  }
+
+  @Get('imports/:id')
+  @ApiOperation({ summary: 'Progression d\'un import de données' })
+  getImportJob(@Param('id') id: string): Promise<AdminSystemImportJobItem> {
+    return this.systemService.getImportJob(id);
+  }
+
+  @Post('imports/:id/retry')
+  @ApiOperation({ summary: 'Relancer un import échoué à partir de la dernière ligne traitée' })
+  retryImportJob(@Param('id') id: string): Promise<AdminSystemImportJobItem> {
+    return this.systemService.retryImportJob(id);
+  }
+
+  @Get('imports/:id/report')
+  @ApiOperation({ summary: 'Télécharger le rapport d\'erreurs ligne par ligne' })
+  async downloadImportReport(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response
+  ): Promise<StreamableFile> {
+    const { stream, fileName } = await this.systemService.getImportReport(id);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('Content-Type', 'text/csv');
+    return new StreamableFile(stream);
+  }
+
   @Get('exports')
   @ApiOperation({ summary: 'Exports de données générés pour la BI/compliance' })
   listExportJobs(@Query() query: SystemExportJobsQueryDto) {
     return this.systemService.listExportJobs(query);
   }
 
+  @Post('exports')
+  @ApiOperation({ summary: 'Demander un export CSV/JSON/XLSX (généré en arrière-plan, lien de téléchargement expirant)' })
+  createExportJob(
+    @Body() payload: CreateSystemExportJobDto,
+    @CurrentUser() user: User
+  ): Promise<AdminSystemExportJobItem> {
+    return this.systemService.createExportJob(payload, user.id);
+  }
+
+  @Get('exports/:id')
+  @ApiOperation({ summary: 'Statut d\'un export de données' })
+  getExportJob(@Param('id') id: string): Promise<AdminSystemExportJobItem> {
+    return this.systemService.getExportJob(id);
+  }
+
+  @Post('exports/:id/retry')
+  @ApiOperation({ summary: 'Relancer un export échoué' })
+  retryExportJob(@Param('id') id: string): Promise<AdminSystemExportJobItem> {
+    return this.systemService.retryExportJob(id);
+  }
+
   @Get('webhooks')
   @ApiOperation({ summary: 'Historique des webhooks entrants' })
   listWebhooks(
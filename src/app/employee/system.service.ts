@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import type {
   AdminPaginatedResponse,
   AdminSystemApiKeyItem,
+  AdminSystemApiKeySecretResponse,
   AdminSystemExportJobItem,
   AdminSystemHealthResponse,
   AdminSystemImportJobItem,
@@ -10,17 +11,30 @@ import type {
   AdminWebhookLogDetail,
   AdminWebhookLogItem,
 } from '@saubio/models';
+import { DataExportType, DataImportEntity, DataJobFormat, SystemApiKeyStatus } from '@prisma/client';
 import { SystemObservabilityService, WebhookLogListParams } from '../system/system-observability.service';
+import { ApiKeysService } from '../auth/api-keys.service';
+import { DataExportService } from '../data-jobs/data-export.service';
+import { DataImportService } from '../data-jobs/data-import.service';
 import {
+  CreateSystemApiKeyDto,
+  CreateSystemExportJobDto,
+  CreateSystemImportJobDto,
   SystemApiKeysQueryDto,
   SystemExportJobsQueryDto,
   SystemImportJobsQueryDto,
   SystemWebhookLogsQueryDto,
+  UpdateSystemApiKeyDto,
 } from './dto/admin-system.dto';
 
 @Injectable()
 export class EmployeeSystemService {
-  constructor(private readonly observability: SystemObservabilityService) {}
+  constructor(
+    private readonly observability: SystemObservabilityService,
+    private readonly apiKeys: ApiKeysService,
+    private readonly dataImports: DataImportService,
+    private readonly dataExports: DataExportService
+  ) {}
 
   getHealthOverview(): Promise<AdminSystemHealthResponse> {
     return this.observability.getHealthOverview();
@@ -66,14 +80,83 @@ export class EmployeeSystemService {
     return this.observability.listApiKeys(this.mapPagedQuery(query));
   }
 
+  async createApiKey(payload: CreateSystemApiKeyDto): Promise<AdminSystemApiKeySecretResponse> {
+    const { record, secret } = await this.apiKeys.issue(payload);
+    return { apiKey: await this.observability.getApiKey(record.id), secret };
+  }
+
+  async rotateApiKey(id: string): Promise<AdminSystemApiKeySecretResponse> {
+    const { record, secret } = await this.apiKeys.rotate(id);
+    return { apiKey: await this.observability.getApiKey(record.id), secret };
+  }
+
+  async updateApiKey(id: string, payload: UpdateSystemApiKeyDto): Promise<AdminSystemApiKeyItem> {
+    await this.apiKeys.update(id, {
+      ...payload,
+      status: payload.status ? SystemApiKeyStatus[payload.status] : undefined,
+    });
+    return this.observability.getApiKey(id);
+  }
+
+  async revokeApiKey(id: string): Promise<AdminSystemApiKeyItem> {
+    await this.apiKeys.revoke(id);
+    return this.observability.getApiKey(id);
+  }
+
   listImportJobs(query: SystemImportJobsQueryDto): Promise<AdminPaginatedResponse<AdminSystemImportJobItem>> {
     return this.observability.listImportJobs(this.mapPagedQuery(query));
   }
 
+  async createImportJob(payload: CreateSystemImportJobDto, createdById: string): Promise<AdminSystemImportJobItem> {
+    const job = await this.dataImports.createJob({
+      label: payload.label,
+      entity: DataImportEntity[payload.entity],
+      format: DataJobFormat[payload.format],
+      fileName: payload.fileName,
+      content: payload.content,
+      dryRun: payload.dryRun,
+      createdById,
+    });
+    return this.observability.getImportJob(job.id);
+  }
+
+  getImportJob(id: string): Promise<AdminSystemImportJobItem> {
+    return this.observability.getImportJob(id);
+  }
+
+  async retryImportJob(id: string): Promise<AdminSystemImportJobItem> {
+    await this.dataImports.retryJob(id);
+    return this.observability.getImportJob(id);
+  }
+
+  getImportReport(id: string) {
+    return this.dataImports.getReportStream(id);
+  }
+
   listExportJobs(query: SystemExportJobsQueryDto): Promise<AdminPaginatedResponse<AdminSystemExportJobItem>> {
     return this.observability.listExportJobs(this.mapPagedQuery(query));
   }
 
+  async createExportJob(payload: CreateSystemExportJobDto, requestedById: string): Promise<AdminSystemExportJobItem> {
+    const job = await this.dataExports.requestExport({
+      label: payload.label,
+      type: DataExportType[payload.type],
+      format: DataJobFormat[payload.format],
+      parameters: payload.parameters,
+      requestedById,
+    });
+    return this.observability.getExportJob(job.id);
+  }
+
+  getExportJob(id: string): Promise<AdminSystemExportJobItem> {
+    return this.observability.getExportJob(id);
+  }
+
+  async retryExportJob(id: string): Promise<AdminSystemExportJobItem> {
+    await this.dataExports.retryJob(id);
+    return this.observability.getExportJob(id);
+  }
+
   private mapPagedQuery<T extends { page?: string; pageSize?: string }>(query: T) {
     const toNumber = (value?: string) => {
       if (value === undefined || value === null) return undefined;
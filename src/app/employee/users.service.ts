@@ -16,6 +16,7 @@ import type {
   PaymentMethod,
 } from '@saubio/models';
 import { PrismaService } from '../../prisma/prisma.service';
+import { EmailDeliveryService } from '../notifications/email-delivery.service';
 
 interface ListQueryParams {
   page?: number;
@@ -29,7 +30,10 @@ export class EmployeeUsersService {
   private static readonly MAX_RECENT_USERS = 10;
   private static readonly OVERVIEW_WEEKS = 6;
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emailDelivery: EmailDeliveryService
+  ) {}
 
   private formatUserName(user: { firstName?: string | null; lastName?: string | null; email: string }) {
     const fullName = `${user.firstName ?? ''} ${user.lastName ?? ''}`.trim();
@@ -255,7 +259,7 @@ export class EmployeeUsersService {
       throw new NotFoundException('CLIENT_NOT_FOUND');
     }
 
-    const [bookings, payments, totals, totalBookingsCount] = await Promise.all([
+    const [bookings, payments, totals, totalBookingsCount, emailDelivery] = await Promise.all([
       this.prisma.booking.findMany({
         where: { clientId: id },
         orderBy: { startAt: 'desc' },
@@ -290,6 +294,7 @@ export class EmployeeUsersService {
         _sum: { amountCents: true },
       }),
       this.prisma.booking.count({ where: { clientId: id } }),
+      this.emailDelivery.getRecipientHistory(user.email),
     ]);
 
     return {
@@ -338,6 +343,7 @@ export class EmployeeUsersService {
       })),
       totalSpentCents: totals._sum.amountCents ?? 0,
       totalBookings: totalBookingsCount,
+      emailDelivery,
     };
   }
 
@@ -476,9 +482,12 @@ export class EmployeeUsersService {
       throw new NotFoundException('PROVIDER_NOT_FOUND');
     }
 
-    const assignments = await this.prisma.bookingAssignment.count({
-      where: { providerId: id, booking: { status: BookingStatus.COMPLETED } },
-    });
+    const [assignments, emailDelivery] = await Promise.all([
+      this.prisma.bookingAssignment.count({
+        where: { providerId: id, booking: { status: BookingStatus.COMPLETED } },
+      }),
+      this.emailDelivery.getRecipientHistory(provider.user.email),
+    ]);
 
     return {
       id: provider.id,
@@ -510,6 +519,7 @@ export class EmployeeUsersService {
         city: provider.addressCity ?? null,
         region: provider.addressRegion ?? null,
       },
+      emailDelivery,
     };
   }
 
@@ -197,6 +197,7 @@ export class EmployeeZonesService {
         startAt,
         endAt,
         city: city ?? undefined,
+        postalCode: payload.postalCode ?? undefined,
       },
       20
     );
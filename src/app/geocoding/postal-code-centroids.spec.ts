@@ -0,0 +1,44 @@
+import { GeoPointSource } from '@prisma/client';
+import { findPostalCentroid, haversineDistanceKm, resolveGeoPoint } from './postal-code-centroids';
+
+describe('postal code centroids', () => {
+  it('prefers the three-digit Berlin/Brandenburg prefix over the region', () => {
+    expect(findPostalCentroid('10115', 'DE')).toEqual({ latitude: 52.53, longitude: 13.39 });
+    expect(findPostalCentroid('14467', 'DE')).toEqual({ latitude: 52.4, longitude: 13.06 });
+    expect(findPostalCentroid('80331', 'DE')).toEqual({ latitude: 48.14, longitude: 11.57 });
+    expect(findPostalCentroid('', 'DE')).toBeNull();
+  });
+
+  it('has no centroid for postal codes of other countries', () => {
+    // Vienna and Zurich use four-digit codes that share prefixes with German regions.
+    expect(findPostalCentroid('1010', 'AT')).toBeNull();
+    expect(findPostalCentroid('8001', 'ch')).toBeNull();
+    expect(findPostalCentroid('80331', null)).toEqual({ latitude: 48.14, longitude: 11.57 });
+    expect(resolveGeoPoint(null, null, '1010', 'AT')).toBeNull();
+    expect(resolveGeoPoint(48.21, 16.37, '1010', 'AT')).toMatchObject({ latitude: 48.21, longitude: 16.37 });
+  });
+
+  it('uses explicit coordinates before the postal centroid and says which one it used', () => {
+    expect(resolveGeoPoint(52.1, 13.2, '80331', 'DE')).toEqual({
+      latitude: 52.1,
+      longitude: 13.2,
+      source: GeoPointSource.CLIENT,
+    });
+    expect(resolveGeoPoint(null, null, '80331', 'DE')).toEqual({
+      latitude: 48.14,
+      longitude: 11.57,
+      source: GeoPointSource.POSTAL_CENTROID,
+    });
+  });
+
+  it('computes great-circle distances in kilometres', () => {
+    const berlin = findPostalCentroid('10115', 'DE')!;
+    const potsdam = findPostalCentroid('14467', 'DE')!;
+    const munich = findPostalCentroid('80331', 'DE')!;
+    expect(haversineDistanceKm(berlin, berlin)).toBe(0);
+    expect(haversineDistanceKm(berlin, potsdam)).toBeGreaterThan(24);
+    expect(haversineDistanceKm(berlin, potsdam)).toBeLessThan(28);
+    expect(Math.round(haversineDistanceKm(berlin, munich))).toBeGreaterThan(490);
+    expect(Math.round(haversineDistanceKm(berlin, munich))).toBeLessThan(510);
+  });
+});
@@ -0,0 +1,190 @@
+import { GeoPointSource } from '@prisma/client';
+
+export type GeoPoint = {
+  latitude: number;
+  longitude: number;
+};
+
+export type ResolvedGeoPoint = GeoPoint & { source: GeoPointSource };
+
+const EARTH_RADIUS_KM = 6371;
+
+// Approximate centroids per postal region. Three-digit prefixes refine the Berlin/Brandenburg
+// area where zones sit close together; every other code falls back to its two-digit region.
+const POSTAL_PREFIX_CENTROIDS: Record<string, GeoPoint> = {
+  '01': { latitude: 51.05, longitude: 13.74 },
+  '02': { latitude: 51.18, longitude: 14.42 },
+  '03': { latitude: 51.76, longitude: 14.33 },
+  '04': { latitude: 51.34, longitude: 12.37 },
+  '06': { latitude: 51.48, longitude: 11.97 },
+  '07': { latitude: 50.88, longitude: 11.85 },
+  '08': { latitude: 50.72, longitude: 12.49 },
+  '09': { latitude: 50.83, longitude: 12.92 },
+  '10': { latitude: 52.52, longitude: 13.4 },
+  '101': { latitude: 52.53, longitude: 13.39 },
+  '102': { latitude: 52.51, longitude: 13.43 },
+  '103': { latitude: 52.51, longitude: 13.49 },
+  '104': { latitude: 52.54, longitude: 13.42 },
+  '105': { latitude: 52.53, longitude: 13.34 },
+  '106': { latitude: 52.51, longitude: 13.3 },
+  '107': { latitude: 52.49, longitude: 13.33 },
+  '108': { latitude: 52.49, longitude: 13.35 },
+  '109': { latitude: 52.49, longitude: 13.4 },
+  '12': { latitude: 52.46, longitude: 13.45 },
+  '120': { latitude: 52.47, longitude: 13.43 },
+  '121': { latitude: 52.45, longitude: 13.39 },
+  '122': { latitude: 52.45, longitude: 13.33 },
+  '123': { latitude: 52.42, longitude: 13.44 },
+  '124': { latitude: 52.46, longitude: 13.55 },
+  '125': { latitude: 52.43, longitude: 13.58 },
+  '126': { latitude: 52.53, longitude: 13.58 },
+  '13': { latitude: 52.57, longitude: 13.33 },
+  '130': { latitude: 52.56, longitude: 13.35 },
+  '131': { latitude: 52.58, longitude: 13.41 },
+  '133': { latitude: 52.54, longitude: 13.2 },
+  '134': { latitude: 52.59, longitude: 13.28 },
+  '135': { latitude: 52.54, longitude: 13.17 },
+  '14': { latitude: 52.4, longitude: 13.06 },
+  '140': { latitude: 52.44, longitude: 13.26 },
+  '141': { latitude: 52.42, longitude: 13.2 },
+  '144': { latitude: 52.4, longitude: 13.06 },
+  '145': { latitude: 52.4, longitude: 13.22 },
+  '146': { latitude: 52.6, longitude: 12.95 },
+  '147': { latitude: 52.41, longitude: 12.55 },
+  '148': { latitude: 52.14, longitude: 12.59 },
+  '149': { latitude: 52.0, longitude: 13.1 },
+  '15': { latitude: 52.34, longitude: 14.55 },
+  '152': { latitude: 52.34, longitude: 14.55 },
+  '153': { latitude: 52.58, longitude: 13.88 },
+  '155': { latitude: 52.36, longitude: 14.06 },
+  '157': { latitude: 52.3, longitude: 13.63 },
+  '158': { latitude: 52.22, longitude: 13.45 },
+  '159': { latitude: 51.94, longitude: 13.9 },
+  '16': { latitude: 52.85, longitude: 13.5 },
+  '162': { latitude: 52.83, longitude: 13.82 },
+  '165': { latitude: 52.75, longitude: 13.24 },
+  '167': { latitude: 52.64, longitude: 13.2 },
+  '168': { latitude: 52.92, longitude: 12.8 },
+  '169': { latitude: 53.16, longitude: 12.49 },
+  '17': { latitude: 53.56, longitude: 13.26 },
+  '18': { latitude: 54.09, longitude: 12.1 },
+  '19': { latitude: 53.63, longitude: 11.41 },
+  '20': { latitude: 53.55, longitude: 10.0 },
+  '21': { latitude: 53.4, longitude: 10.15 },
+  '22': { latitude: 53.63, longitude: 9.95 },
+  '23': { latitude: 53.87, longitude: 10.69 },
+  '24': { latitude: 54.32, longitude: 10.12 },
+  '25': { latitude: 54.2, longitude: 9.1 },
+  '26': { latitude: 53.14, longitude: 8.21 },
+  '27': { latitude: 53.3, longitude: 8.8 },
+  '28': { latitude: 53.08, longitude: 8.8 },
+  '29': { latitude: 52.62, longitude: 10.08 },
+  '30': { latitude: 52.37, longitude: 9.74 },
+  '31': { latitude: 52.15, longitude: 9.95 },
+  '32': { latitude: 52.11, longitude: 8.67 },
+  '33': { latitude: 51.9, longitude: 8.6 },
+  '34': { latitude: 51.31, longitude: 9.48 },
+  '35': { latitude: 50.6, longitude: 8.7 },
+  '36': { latitude: 50.55, longitude: 9.68 },
+  '37': { latitude: 51.53, longitude: 9.93 },
+  '38': { latitude: 52.27, longitude: 10.52 },
+  '39': { latitude: 52.13, longitude: 11.63 },
+  '40': { latitude: 51.23, longitude: 6.78 },
+  '41': { latitude: 51.19, longitude: 6.44 },
+  '42': { latitude: 51.26, longitude: 7.15 },
+  '44': { latitude: 51.51, longitude: 7.47 },
+  '45': { latitude: 51.46, longitude: 7.01 },
+  '46': { latitude: 51.55, longitude: 6.85 },
+  '47': { latitude: 51.4, longitude: 6.65 },
+  '48': { latitude: 51.96, longitude: 7.63 },
+  '49': { latitude: 52.28, longitude: 8.05 },
+  '50': { latitude: 50.93, longitude: 6.85 },
+  '51': { latitude: 50.95, longitude: 7.05 },
+  '52': { latitude: 50.78, longitude: 6.08 },
+  '53': { latitude: 50.73, longitude: 7.1 },
+  '54': { latitude: 49.75, longitude: 6.64 },
+  '55': { latitude: 49.9, longitude: 7.95 },
+  '56': { latitude: 50.36, longitude: 7.59 },
+  '57': { latitude: 50.87, longitude: 8.02 },
+  '58': { latitude: 51.36, longitude: 7.47 },
+  '59': { latitude: 51.62, longitude: 7.95 },
+  '60': { latitude: 50.11, longitude: 8.68 },
+  '61': { latitude: 50.25, longitude: 8.65 },
+  '63': { latitude: 50.05, longitude: 9.0 },
+  '64': { latitude: 49.87, longitude: 8.65 },
+  '65': { latitude: 50.08, longitude: 8.24 },
+  '66': { latitude: 49.24, longitude: 7.0 },
+  '67': { latitude: 49.45, longitude: 8.1 },
+  '68': { latitude: 49.49, longitude: 8.47 },
+  '69': { latitude: 49.4, longitude: 8.69 },
+  '70': { latitude: 48.78, longitude: 9.18 },
+  '71': { latitude: 48.8, longitude: 9.05 },
+  '72': { latitude: 48.5, longitude: 9.05 },
+  '73': { latitude: 48.72, longitude: 9.55 },
+  '74': { latitude: 49.14, longitude: 9.22 },
+  '75': { latitude: 48.89, longitude: 8.7 },
+  '76': { latitude: 49.01, longitude: 8.4 },
+  '77': { latitude: 48.47, longitude: 7.94 },
+  '78': { latitude: 47.95, longitude: 8.7 },
+  '79': { latitude: 47.99, longitude: 7.84 },
+  '80': { latitude: 48.14, longitude: 11.57 },
+  '81': { latitude: 48.12, longitude: 11.6 },
+  '82': { latitude: 47.95, longitude: 11.3 },
+  '83': { latitude: 47.86, longitude: 12.12 },
+  '84': { latitude: 48.54, longitude: 12.15 },
+  '85': { latitude: 48.55, longitude: 11.55 },
+  '86': { latitude: 48.37, longitude: 10.9 },
+  '87': { latitude: 47.73, longitude: 10.31 },
+  '88': { latitude: 47.78, longitude: 9.61 },
+  '89': { latitude: 48.4, longitude: 9.99 },
+  '90': { latitude: 49.45, longitude: 11.08 },
+  '91': { latitude: 49.45, longitude: 10.7 },
+  '92': { latitude: 49.55, longitude: 12.0 },
+  '93': { latitude: 49.01, longitude: 12.1 },
+  '94': { latitude: 48.75, longitude: 13.1 },
+  '95': { latitude: 50.05, longitude: 11.8 },
+  '96': { latitude: 50.0, longitude: 10.95 },
+  '97': { latitude: 49.79, longitude: 9.95 },
+  '98': { latitude: 50.61, longitude: 10.69 },
+  '99': { latitude: 50.98, longitude: 11.03 },
+};
+
+/** The table covers German postal regions only; addresses without a country are taken as German. */
+const CENTROID_COUNTRY = 'DE';
+
+export function findPostalCentroid(
+  input: string | null | undefined,
+  countryCode: string | null | undefined
+): GeoPoint | null {
+  if (!input || (countryCode && countryCode.trim().toUpperCase() !== CENTROID_COUNTRY)) {
+    return null;
+  }
+  const normalized = input.replace(/\D/g, '').slice(0, 5);
+  if (normalized.length < 2) {
+    return null;
+  }
+  return POSTAL_PREFIX_CENTROIDS[normalized.slice(0, 3)] ?? POSTAL_PREFIX_CENTROIDS[normalized.slice(0, 2)] ?? null;
+}
+
+export function resolveGeoPoint(
+  latitude: number | null | undefined,
+  longitude: number | null | undefined,
+  postalCode: string | null | undefined,
+  countryCode: string | null | undefined
+): ResolvedGeoPoint | null {
+  if (typeof latitude === 'number' && typeof longitude === 'number') {
+    return { latitude, longitude, source: GeoPointSource.CLIENT };
+  }
+  const centroid = findPostalCentroid(postalCode, countryCode);
+  return centroid ? { ...centroid, source: GeoPointSource.POSTAL_CENTROID } : null;
+}
+
+export function haversineDistanceKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const deltaLat = toRadians(to.latitude - from.latitude);
+  const deltaLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { postalCityMap, type PostalCityInfo } from './postal-code-map';
+import { findPostalCentroid, type GeoPoint } from './postal-code-centroids';
 
 export type PostalCodeLookupResult = PostalCityInfo & {
   postalCode: string;
@@ -27,6 +28,11 @@ export class PostalCodeService {
     };
   }
 
+  centroid(postalCode: string | null | undefined, countryCode: string | null | undefined): GeoPoint | null {
+    const normalizedPostal = this.normalizePostalCode(postalCode);
+    return normalizedPostal ? findPostalCentroid(normalizedPostal, countryCode) : null;
+  }
+
   normalizePostalCode(input: string | null | undefined): string | null {
     if (!input) {
       return null;
@@ -0,0 +1,16 @@
+import { ArrayMaxSize, ArrayMinSize, ArrayUnique, IsArray, IsEmail, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateReferralInvitesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ArrayUnique()
+  @IsEmail({}, { each: true })
+  emails!: string[];
+
+  /** Personal note shown above the invitation text. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  message?: string;
+}
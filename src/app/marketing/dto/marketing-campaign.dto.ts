@@ -0,0 +1,54 @@
+import { IsIn, IsISO8601, IsNotEmpty, IsOptional, IsString, IsUrl, MaxLength } from 'class-validator';
+
+const CAMPAIGN_CHANNELS = ['email', 'push', 'in_app', 'sms'] as const;
+
+export class MarketingCampaignDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name!: string;
+
+  @IsIn(CAMPAIGN_CHANNELS)
+  channel!: (typeof CAMPAIGN_CHANNELS)[number];
+
+  @IsOptional()
+  @IsString()
+  segmentId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  subject?: string;
+
+  /** Plain text; blank lines separate paragraphs. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(20000)
+  content?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  ctaLabel?: string;
+
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  ctaUrl?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class ScheduleMarketingCampaignDto {
+  /** Omit to send on the next dispatcher run. */
+  @IsOptional()
+  @IsISO8601()
+  scheduledAt?: string;
+}
+
+export class UnsubscribeMarketingDto {
+  @IsString()
+  @IsNotEmpty()
+  token!: string;
+}
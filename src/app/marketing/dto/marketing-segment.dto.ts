@@ -0,0 +1,79 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import type { MarketingSegmentCriteria } from '@saubio/models';
+import { SEGMENT_ROLES } from '../marketing-segment';
+
+export class MarketingSegmentCriteriaDto implements MarketingSegmentCriteria {
+  @IsOptional()
+  @IsArray()
+  @IsIn(SEGMENT_ROLES, { each: true })
+  roles?: MarketingSegmentCriteria['roles'];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @Matches(/^\d{1,5}$/, { each: true })
+  postalCodes?: string[];
+
+  @IsOptional()
+  @IsISO8601()
+  lastBookingAfter?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  lastBookingBefore?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minBookings?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxBookings?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  bookingWindowDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  marketingConsent?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  locales?: string[];
+}
+
+export class MarketingSegmentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ValidateNested()
+  @Type(() => MarketingSegmentCriteriaDto)
+  criteria!: MarketingSegmentCriteriaDto;
+}
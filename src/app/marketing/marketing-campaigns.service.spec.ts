@@ -0,0 +1,129 @@
+import { ConfigService } from '@nestjs/config';
+import { MarketingCampaignRecipientStatus, MarketingCampaignStatus } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailQueueService } from '../notifications/email-queue.service';
+import { MarketingCampaignsService } from './marketing-campaigns.service';
+
+describe('MarketingCampaignsService', () => {
+  const campaign = {
+    id: 'campaign_1',
+    status: MarketingCampaignStatus.RUNNING,
+    subject: 'Frühjahrsputz',
+    content: 'Jetzt buchen',
+    revenueCents: 12_000,
+    segment: { criteria: {} },
+  };
+  let recipients: Array<{
+    id: string;
+    userId: string;
+    email: string;
+    token: string;
+    status: MarketingCampaignRecipientStatus;
+  }>;
+  let prisma: {
+    marketingCampaign: { findMany: jest.Mock; updateMany: jest.Mock; update: jest.Mock; findUnique: jest.Mock };
+    marketingCampaignRecipient: { createMany: jest.Mock; findMany: jest.Mock; update: jest.Mock; count: jest.Mock };
+    user: { findMany: jest.Mock };
+  };
+  let emailQueue: { enqueue: jest.Mock; triggerImmediateProcessing: jest.Mock };
+  let service: MarketingCampaignsService;
+
+  beforeEach(() => {
+    // The interrupted run emailed the first client and recorded the second without queueing her email.
+    recipients = [
+      {
+        id: 'recipient_1',
+        userId: 'client_1',
+        email: 'anna@example.com',
+        token: 'token_1',
+        status: MarketingCampaignRecipientStatus.ENQUEUED,
+      },
+      {
+        id: 'recipient_2',
+        userId: 'client_2',
+        email: 'ben@example.com',
+        token: 'token_2',
+        status: MarketingCampaignRecipientStatus.PENDING,
+      },
+    ];
+    prisma = {
+      marketingCampaign: {
+        findMany: jest.fn().mockResolvedValue([campaign]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn(),
+        findUnique: jest.fn().mockResolvedValue(null),
+      },
+      marketingCampaignRecipient: {
+        createMany: jest.fn(async ({ data }: { data: Array<{ userId: string; email: string; token: string }> }) => {
+          const fresh = data.filter((entry) => !recipients.some((existing) => existing.userId === entry.userId));
+          recipients.push(
+            ...fresh.map((entry, index) => ({
+              ...entry,
+              id: `recipient_new_${index}`,
+              status: MarketingCampaignRecipientStatus.PENDING,
+            }))
+          );
+          return { count: fresh.length };
+        }),
+        findMany: jest.fn(async ({ where }) =>
+          recipients.filter(
+            (recipient) => where.userId.in.includes(recipient.userId) && recipient.status === where.status
+          )
+        ),
+        update: jest.fn(async ({ where, data }) => {
+          const recipient = recipients.find((entry) => entry.id === where.id);
+          return Object.assign(recipient ?? {}, data);
+        }),
+        count: jest.fn(async ({ where }) => recipients.filter((recipient) => recipient.status === where.status).length),
+      },
+      user: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'client_1', email: 'anna@example.com', firstName: 'Anna', preferredLocale: 'de' },
+          { id: 'client_2', email: 'ben@example.com', firstName: 'Ben', preferredLocale: 'de' },
+          { id: 'client_3', email: 'carla@example.com', firstName: 'Carla', preferredLocale: 'de' },
+        ]),
+      },
+    };
+    emailQueue = { enqueue: jest.fn(), triggerImmediateProcessing: jest.fn() };
+    service = new MarketingCampaignsService(
+      prisma as unknown as PrismaService,
+      { get: jest.fn(() => 'https://saubio.de') } as unknown as ConfigService,
+      emailQueue as unknown as EmailQueueService
+    );
+  });
+
+  it('resumes a run that stopped sending heartbeats without emailing anyone twice', async () => {
+    // Frozen so the claim rebuilds exactly the filter the lookup used.
+    jest.useFakeTimers({ now: new Date('2026-03-02T09:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      await service.dispatchScheduledCampaigns();
+    } finally {
+      jest.useRealTimers();
+    }
+
+    const [{ where }] = prisma.marketingCampaign.findMany.mock.calls[0];
+    expect(where.OR).toContainEqual({
+      status: MarketingCampaignStatus.RUNNING,
+      updatedAt: { lt: expect.any(Date) },
+    });
+    expect(prisma.marketingCampaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 'campaign_1', OR: where.OR },
+      data: { status: MarketingCampaignStatus.RUNNING },
+    });
+    expect(emailQueue.enqueue.mock.calls.map(([email]) => email.to)).toEqual(['ben@example.com', 'carla@example.com']);
+    expect(recipients.every((recipient) => recipient.status === MarketingCampaignRecipientStatus.ENQUEUED)).toBe(true);
+    expect(prisma.marketingCampaign.update).toHaveBeenLastCalledWith({
+      where: { id: 'campaign_1' },
+      data: { status: MarketingCampaignStatus.COMPLETED, completedAt: expect.any(Date), sendCount: 3 },
+    });
+  });
+
+  it('leaves the campaign alone when another worker claimed it first', async () => {
+    prisma.marketingCampaign.updateMany.mockResolvedValue({ count: 0 });
+
+    await service.dispatchScheduledCampaigns();
+
+    expect(prisma.user.findMany).not.toHaveBeenCalled();
+    expect(prisma.marketingCampaign.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,567 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import {
+  MarketingCampaignChannel as PrismaMarketingCampaignChannel,
+  MarketingCampaignRecipientStatus,
+  MarketingCampaignStatus as PrismaMarketingCampaignStatus,
+  Prisma,
+  type MarketingCampaign as PrismaMarketingCampaign,
+  type MarketingSegment as PrismaMarketingSegment,
+} from '@prisma/client';
+import type {
+  AdminMarketingCampaign,
+  AdminMarketingCampaignDetail,
+  AdminMarketingSegment,
+  AdminMarketingSegmentPreview,
+  MarketingSegmentCriteria,
+  User,
+} from '@saubio/models';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { EmailQueueService } from '../notifications/email-queue.service';
+import {
+  SEGMENT_IGNORED_BOOKING_STATUSES,
+  bookingFrequencySince,
+  buildSegmentUserWhere,
+  hasBookingFrequencyFilter,
+  matchesBookingFrequency,
+} from './marketing-segment';
+import { MarketingSegmentDto } from './dto/marketing-segment.dto';
+import { MarketingCampaignDto, ScheduleMarketingCampaignDto } from './dto/marketing-campaign.dto';
+
+const SEND_BATCH_SIZE = 500;
+const CONVERSION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const STALE_RUN_MS = 15 * 60 * 1000;
+const EDITABLE_STATUSES: PrismaMarketingCampaignStatus[] = [
+  PrismaMarketingCampaignStatus.DRAFT,
+  PrismaMarketingCampaignStatus.PAUSED,
+];
+
+interface AudienceMember {
+  id: string;
+  email: string;
+  firstName: string;
+  preferredLocale: string;
+}
+
+interface ConversionPayment {
+  bookingId: string;
+  clientId: string;
+  amountCents: number;
+}
+
+/**
+ * Segments, scheduling and tracking for marketing campaigns. Recipients get a personal token that
+ * identifies them in open/click tracking and in the unsubscribe link, and only clients with a
+ * marketing consent are ever emailed, whatever the segment says.
+ */
+@Injectable()
+export class MarketingCampaignsService {
+  private readonly logger = new Logger(MarketingCampaignsService.name);
+  private isProcessing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly emailQueue: EmailQueueService
+  ) {}
+
+  async listSegments(): Promise<AdminMarketingSegment[]> {
+    const segments = await this.prisma.marketingSegment.findMany({ orderBy: { name: 'asc' } });
+    return segments.map((segment) => this.mapSegment(segment));
+  }
+
+  async createSegment(payload: MarketingSegmentDto, user: User): Promise<AdminMarketingSegment> {
+    const segment = await this.prisma.marketingSegment.create({
+      data: {
+        name: payload.name.trim(),
+        description: payload.description ?? null,
+        criteria: this.toCriteriaJson(payload.criteria),
+        createdBy: { connect: { id: user.id } },
+      },
+    });
+    return this.mapSegment(segment);
+  }
+
+  async updateSegment(id: string, payload: MarketingSegmentDto): Promise<AdminMarketingSegment> {
+    await this.requireSegment(id);
+    const segment = await this.prisma.marketingSegment.update({
+      where: { id },
+      data: {
+        name: payload.name.trim(),
+        description: payload.description ?? null,
+        criteria: this.toCriteriaJson(payload.criteria),
+      },
+    });
+    return this.mapSegment(segment);
+  }
+
+  async previewSegment(id: string): Promise<AdminMarketingSegmentPreview> {
+    const segment = await this.requireSegment(id);
+    const criteria = segment.criteria as MarketingSegmentCriteria;
+    const audience = await this.resolveAudience(criteria);
+    const reachable = await this.resolveReachableAudience(criteria);
+    return { audienceSize: audience.length, reachable: reachable.length };
+  }
+
+  async getCampaign(id: string): Promise<AdminMarketingCampaignDetail> {
+    return this.mapCampaign(await this.requireCampaign(id));
+  }
+
+  async createCampaign(payload: MarketingCampaignDto, user: User): Promise<AdminMarketingCampaignDetail> {
+    const segment = payload.segmentId ? await this.requireSegment(payload.segmentId) : null;
+    const campaign = await this.prisma.marketingCampaign.create({
+      data: {
+        ...this.toCampaignData(payload),
+        channel: payload.channel.toUpperCase() as PrismaMarketingCampaignChannel,
+        targetAudience: segment?.name ?? null,
+        segment: segment ? { connect: { id: segment.id } } : undefined,
+        createdBy: { connect: { id: user.id } },
+      },
+    });
+    return this.mapCampaign(campaign);
+  }
+
+  async updateCampaign(id: string, payload: MarketingCampaignDto): Promise<AdminMarketingCampaignDetail> {
+    const campaign = await this.requireCampaign(id);
+    this.assertEditable(campaign);
+    const segment = payload.segmentId ? await this.requireSegment(payload.segmentId) : null;
+    const updated = await this.prisma.marketingCampaign.update({
+      where: { id },
+      data: {
+        ...this.toCampaignData(payload),
+        channel: payload.channel.toUpperCase() as PrismaMarketingCampaignChannel,
+        targetAudience: segment?.name ?? null,
+        segment: segment ? { connect: { id: segment.id } } : { disconnect: true },
+      },
+    });
+    return this.mapCampaign(updated);
+  }
+
+  async scheduleCampaign(id: string, payload: ScheduleMarketingCampaignDto): Promise<AdminMarketingCampaignDetail> {
+    const campaign = await this.requireCampaign(id);
+    this.assertEditable(campaign);
+    if (campaign.channel !== PrismaMarketingCampaignChannel.EMAIL) {
+      throw new BadRequestException('CAMPAIGN_CHANNEL_NOT_SUPPORTED');
+    }
+    if (!campaign.segmentId) {
+      throw new BadRequestException('CAMPAIGN_SEGMENT_REQUIRED');
+    }
+    if (!campaign.subject?.trim() || !campaign.content?.trim()) {
+      throw new BadRequestException('CAMPAIGN_CONTENT_REQUIRED');
+    }
+    const scheduledAt = payload.scheduledAt ? new Date(payload.scheduledAt) : new Date();
+
+    const updated = await this.prisma.marketingCampaign.update({
+      where: { id },
+      data: { status: PrismaMarketingCampaignStatus.SCHEDULED, scheduledAt },
+    });
+    return this.mapCampaign(updated);
+  }
+
+  async pauseCampaign(id: string): Promise<AdminMarketingCampaignDetail> {
+    const campaign = await this.requireCampaign(id);
+    if (campaign.status !== PrismaMarketingCampaignStatus.SCHEDULED) {
+      throw new ConflictException('CAMPAIGN_NOT_SCHEDULED');
+    }
+    const updated = await this.prisma.marketingCampaign.update({
+      where: { id },
+      data: { status: PrismaMarketingCampaignStatus.PAUSED },
+    });
+    return this.mapCampaign(updated);
+  }
+
+  /**
+   * Runs touch the campaign after every batch; a run that stopped doing so (the process died) is
+   * claimed again and resumes with the recipients it had not reached yet.
+   */
+  @Cron('*/5 * * * *')
+  async dispatchScheduledCampaigns() {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+    try {
+      const staleBefore = new Date(Date.now() - STALE_RUN_MS);
+      const due = await this.prisma.marketingCampaign.findMany({
+        where: this.dispatchableWhere(staleBefore),
+        include: { segment: true },
+        orderBy: { scheduledAt: 'asc' },
+        take: 5,
+      });
+      for (const campaign of due) {
+        try {
+          await this.sendCampaign(campaign, staleBefore);
+        } catch (error) {
+          this.logger.warn(
+            `Unable to send campaign ${campaign.id}: ${error instanceof Error ? error.message : String(error)}`
+          );
+          await this.prisma.marketingCampaign.updateMany({
+            where: { id: campaign.id, status: PrismaMarketingCampaignStatus.RUNNING },
+            data: { status: PrismaMarketingCampaignStatus.PAUSED },
+          });
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  async trackOpen(token: string) {
+    const recipient = await this.prisma.marketingCampaignRecipient.findUnique({ where: { token } });
+    if (!recipient || recipient.openedAt) {
+      return;
+    }
+    const opened = await this.prisma.marketingCampaignRecipient.updateMany({
+      where: { id: recipient.id, openedAt: null },
+      data: { openedAt: new Date() },
+    });
+    if (opened.count) {
+      await this.incrementMetrics(recipient.campaignId, { openCount: { increment: 1 } });
+    }
+  }
+
+  /** Returns where the click should land. A click also counts as an open for clients blocking images. */
+  async trackClick(token: string): Promise<string> {
+    const recipient = await this.prisma.marketingCampaignRecipient.findUnique({
+      where: { token },
+      include: { campaign: { select: { ctaUrl: true } } },
+    });
+    if (!recipient) {
+      return this.appUrl();
+    }
+
+    const now = new Date();
+    const clicked = await this.prisma.marketingCampaignRecipient.updateMany({
+      where: { id: recipient.id, clickedAt: null },
+      data: { clickedAt: now, openedAt: recipient.openedAt ?? now },
+    });
+    if (clicked.count) {
+      await this.incrementMetrics(recipient.campaignId, {
+        clickCount: { increment: 1 },
+        ...(recipient.openedAt ? {} : { openCount: { increment: 1 } }),
+      });
+    } else {
+      // Later clicks still refresh the attribution window.
+      await this.prisma.marketingCampaignRecipient.update({ where: { id: recipient.id }, data: { clickedAt: now } });
+    }
+    return recipient.campaign.ctaUrl ?? this.appUrl();
+  }
+
+  async unsubscribe(token: string) {
+    const recipient = await this.prisma.marketingCampaignRecipient.findUnique({
+      where: { token },
+      include: { campaign: { select: { name: true } } },
+    });
+    if (!recipient) {
+      throw new NotFoundException('UNSUBSCRIBE_TOKEN_INVALID');
+    }
+
+    const now = new Date();
+    await this.prisma.$transaction(async (tx) => {
+      await tx.marketingCampaignRecipient.updateMany({
+        where: { id: recipient.id, unsubscribedAt: null },
+        data: { unsubscribedAt: now },
+      });
+      const consent = await tx.userConsent.upsert({
+        where: { userId: recipient.userId },
+        update: { consentMarketing: false, capturedAt: now, source: 'campaign', channel: 'email' },
+        create: {
+          userId: recipient.userId,
+          consentMarketing: false,
+          source: 'campaign',
+          channel: 'email',
+          capturedAt: now,
+          firstCapturedAt: now,
+        },
+      });
+      await tx.userConsentHistory.create({
+        data: {
+          consentId: consent.id,
+          userId: recipient.userId,
+          actorId: recipient.userId,
+          actorLabel: 'unsubscribe_link',
+          consentMarketing: false,
+          consentStats: consent.consentStats,
+          consentPreferences: consent.consentPreferences,
+          consentNecessary: consent.consentNecessary,
+          source: 'campaign',
+          channel: 'email',
+          capturedAt: now,
+          notes: `Désinscription depuis la campagne « ${recipient.campaign.name} »`,
+        },
+      });
+    });
+    return { success: true };
+  }
+
+  /** Attributes a paid booking to the campaign the client last clicked within the past week. */
+  async recordConversion(payment: ConversionPayment) {
+    try {
+      const recipient = await this.prisma.marketingCampaignRecipient.findFirst({
+        where: {
+          userId: payment.clientId,
+          clickedAt: { gte: new Date(Date.now() - CONVERSION_WINDOW_MS) },
+          convertedAt: null,
+        },
+        orderBy: { clickedAt: 'desc' },
+      });
+      if (!recipient) {
+        return;
+      }
+      const converted = await this.prisma.marketingCampaignRecipient.updateMany({
+        where: { id: recipient.id, convertedAt: null },
+        data: { convertedAt: new Date(), bookingId: payment.bookingId },
+      });
+      if (converted.count) {
+        await this.incrementMetrics(recipient.campaignId, {
+          conversionCount: { increment: 1 },
+          revenueCents: { increment: payment.amountCents },
+        });
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Unable to record campaign conversion for booking ${payment.bookingId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private async sendCampaign(
+    campaign: PrismaMarketingCampaign & { segment: PrismaMarketingSegment | null },
+    staleBefore: Date
+  ) {
+    const claimed = await this.prisma.marketingCampaign.updateMany({
+      where: { id: campaign.id, ...this.dispatchableWhere(staleBefore) },
+      data: { status: PrismaMarketingCampaignStatus.RUNNING },
+    });
+    if (!claimed.count) {
+      return;
+    }
+
+    const audience = await this.resolveReachableAudience((campaign.segment?.criteria ?? {}) as MarketingSegmentCriteria);
+
+    const countRecipients = () =>
+      this.prisma.marketingCampaignRecipient.count({
+        where: { campaignId: campaign.id, status: MarketingCampaignRecipientStatus.ENQUEUED },
+      });
+    for (let index = 0; index < audience.length; index += SEND_BATCH_SIZE) {
+      await this.sendBatch(campaign, audience.slice(index, index + SEND_BATCH_SIZE));
+      // Doubles as the heartbeat that keeps the run from being reclaimed.
+      await this.prisma.marketingCampaign.update({
+        where: { id: campaign.id },
+        data: { sendCount: await countRecipients() },
+      });
+    }
+
+    const sendCount = await countRecipients();
+    await this.prisma.marketingCampaign.update({
+      where: { id: campaign.id },
+      data: {
+        status: PrismaMarketingCampaignStatus.COMPLETED,
+        completedAt: new Date(),
+        sendCount,
+      },
+    });
+    await this.refreshRates(campaign.id);
+    this.logger.log(`Campaign ${campaign.id} queued for ${sendCount} recipients`);
+  }
+
+  /**
+   * Recipients are recorded as pending and marked enqueued once their email is queued, so a run interrupted
+   * halfway emails the pending ones on resume and nobody who was already reached.
+   */
+  private async sendBatch(campaign: PrismaMarketingCampaign, members: AudienceMember[]) {
+    await this.prisma.marketingCampaignRecipient.createMany({
+      data: members.map((member) => ({
+        campaignId: campaign.id,
+        userId: member.id,
+        email: member.email,
+        token: randomBytes(24).toString('base64url'),
+      })),
+      skipDuplicates: true,
+    });
+    const pending = await this.prisma.marketingCampaignRecipient.findMany({
+      where: {
+        campaignId: campaign.id,
+        userId: { in: members.map((member) => member.id) },
+        status: MarketingCampaignRecipientStatus.PENDING,
+      },
+      select: { id: true, userId: true, token: true, email: true },
+    });
+    const byId = new Map(members.map((member) => [member.id, member]));
+
+    for (const recipient of pending) {
+      const member = byId.get(recipient.userId);
+      await this.emailQueue.enqueue({
+        to: recipient.email,
+        template: 'marketing.campaign',
+        payload: {
+          subject: campaign.subject,
+          content: campaign.content,
+          ctaLabel: campaign.ctaLabel,
+          ctaUrl: campaign.ctaUrl ? this.trackingUrl('click', recipient.token) : undefined,
+          openPixelUrl: this.trackingUrl('open', recipient.token),
+          unsubscribeUrl: `${this.appUrl()}/unsubscribe?token=${encodeURIComponent(recipient.token)}`,
+          firstName: member?.firstName,
+          locale: member?.preferredLocale,
+        },
+      });
+      await this.prisma.marketingCampaignRecipient.update({
+        where: { id: recipient.id },
+        data: { status: MarketingCampaignRecipientStatus.ENQUEUED },
+      });
+    }
+    void this.emailQueue.triggerImmediateProcessing();
+  }
+
+  private dispatchableWhere(staleBefore: Date): Prisma.MarketingCampaignWhereInput {
+    return {
+      OR: [
+        { status: PrismaMarketingCampaignStatus.SCHEDULED, scheduledAt: { lte: new Date() } },
+        { status: PrismaMarketingCampaignStatus.RUNNING, updatedAt: { lt: staleBefore } },
+      ],
+    };
+  }
+
+  /** The segment restricted to clients who agreed to marketing messages. */
+  private async resolveReachableAudience(criteria: MarketingSegmentCriteria) {
+    return criteria.marketingConsent === false ? [] : this.resolveAudience({ ...criteria, marketingConsent: true });
+  }
+
+  private async resolveAudience(criteria: MarketingSegmentCriteria): Promise<AudienceMember[]> {
+    const users = await this.prisma.user.findMany({
+      where: buildSegmentUserWhere(criteria),
+      select: { id: true, email: true, firstName: true, preferredLocale: true },
+    });
+    if (!hasBookingFrequencyFilter(criteria) || !users.length) {
+      return users;
+    }
+
+    const counts = await this.prisma.booking.groupBy({
+      by: ['clientId'],
+      where: {
+        clientId: { in: users.map((user) => user.id) },
+        status: { notIn: SEGMENT_IGNORED_BOOKING_STATUSES },
+        startAt: { gte: bookingFrequencySince(criteria) },
+      },
+      _count: { _all: true },
+    });
+    const countByClient = new Map(counts.map((entry) => [entry.clientId, entry._count._all]));
+    return users.filter((user) => matchesBookingFrequency(criteria, countByClient.get(user.id) ?? 0));
+  }
+
+  private async incrementMetrics(campaignId: string, data: Prisma.MarketingCampaignUpdateInput) {
+    await this.prisma.marketingCampaign.update({ where: { id: campaignId }, data });
+    await this.refreshRates(campaignId);
+  }
+
+  /** Rates are stored as fractions of `sendCount`, like the figures imported from the old tool. */
+  private async refreshRates(campaignId: string) {
+    const campaign = await this.prisma.marketingCampaign.findUnique({ where: { id: campaignId } });
+    if (!campaign?.sendCount) {
+      return;
+    }
+    await this.prisma.marketingCampaign.update({
+      where: { id: campaignId },
+      data: {
+        openRate: campaign.openCount / campaign.sendCount,
+        clickRate: campaign.clickCount / campaign.sendCount,
+        conversionRate: campaign.conversionCount / campaign.sendCount,
+      },
+    });
+  }
+
+  private assertEditable(campaign: PrismaMarketingCampaign) {
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new ConflictException('CAMPAIGN_NOT_EDITABLE');
+    }
+  }
+
+  private async requireCampaign(id: string) {
+    const campaign = await this.prisma.marketingCampaign.findUnique({ where: { id } });
+    if (!campaign) {
+      throw new NotFoundException('CAMPAIGN_NOT_FOUND');
+    }
+    return campaign;
+  }
+
+  private async requireSegment(id: string) {
+    const segment = await this.prisma.marketingSegment.findUnique({ where: { id } });
+    if (!segment) {
+      throw new NotFoundException('SEGMENT_NOT_FOUND');
+    }
+    return segment;
+  }
+
+  private toCampaignData(payload: MarketingCampaignDto) {
+    return {
+      name: payload.name.trim(),
+      subject: payload.subject ?? null,
+      content: payload.content ?? null,
+      ctaLabel: payload.ctaLabel ?? null,
+      ctaUrl: payload.ctaUrl ?? null,
+      notes: payload.notes ?? null,
+    };
+  }
+
+  private toCriteriaJson(criteria: MarketingSegmentCriteria): Prisma.InputJsonObject {
+    return JSON.parse(JSON.stringify(criteria)) as Prisma.InputJsonObject;
+  }
+
+  private trackingUrl(kind: 'open' | 'click', token: string) {
+    const apiBase = this.configService.get('app.apiPublicUrl' as keyof AppEnvironmentConfig);
+    const base =
+      typeof apiBase === 'string' && apiBase.trim().length
+        ? apiBase.trim().replace(/\/+$/, '')
+        : `${this.appUrl()}/api`;
+    return `${base}/marketing/track/${kind}/${encodeURIComponent(token)}`;
+  }
+
+  private appUrl() {
+    const url = this.configService.get('app.appUrl' as keyof AppEnvironmentConfig) ?? 'http://localhost:3000';
+    return url.replace(/\/+$/, '');
+  }
+
+  private mapSegment(segment: PrismaMarketingSegment): AdminMarketingSegment {
+    return {
+      id: segment.id,
+      name: segment.name,
+      description: segment.description ?? null,
+      criteria: segment.criteria as MarketingSegmentCriteria,
+      createdAt: segment.createdAt.toISOString(),
+      updatedAt: segment.updatedAt.toISOString(),
+    };
+  }
+
+  private mapCampaign(record: PrismaMarketingCampaign): AdminMarketingCampaignDetail {
+    return {
+      id: record.id,
+      name: record.name,
+      channel: record.channel.toLowerCase() as AdminMarketingCampaign['channel'],
+      status: record.status.toLowerCase() as AdminMarketingCampaign['status'],
+      targetAudience: record.targetAudience ?? null,
+      scheduledAt: record.scheduledAt ? record.scheduledAt.toISOString() : null,
+      completedAt: record.completedAt ? record.completedAt.toISOString() : null,
+      sendCount: record.sendCount,
+      openRate: record.openRate ?? null,
+      clickRate: record.clickRate ?? null,
+      conversionRate: record.conversionRate ?? null,
+      revenueCents: record.revenueCents ?? null,
+      notes: record.notes ?? null,
+      segmentId: record.segmentId ?? null,
+      subject: record.subject ?? null,
+      content: record.content ?? null,
+      ctaLabel: record.ctaLabel ?? null,
+      ctaUrl: record.ctaUrl ?? null,
+      openCount: record.openCount,
+      clickCount: record.clickCount,
+      conversionCount: record.conversionCount,
+      createdAt: record.createdAt.toISOString(),
+      updatedAt: record.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  bookingFrequencySince,
+  buildSegmentUserWhere,
+  hasBookingFrequencyFilter,
+  matchesBookingFrequency,
+} from './marketing-segment';
+
+describe('marketing-segment', () => {
+  it('defaults to active clients', () => {
+    expect(buildSegmentUserWhere({})).toEqual({
+      AND: [{ isActive: true }, { roles: { hasSome: ['CLIENT'] } }],
+    });
+  });
+
+  it('combines postal codes, last booking and consent filters', () => {
+    const where = buildSegmentUserWhere({
+      roles: ['client', 'company'],
+      postalCodes: ['10', '20095'],
+      lastBookingBefore: '2026-01-01T00:00:00.000Z',
+      marketingConsent: false,
+    });
+    const conditions = where.AND as Array<Record<string, unknown>>;
+
+    expect(conditions[1]).toEqual({ roles: { hasSome: ['CLIENT', 'COMPANY'] } });
+    expect(conditions[2]).toMatchObject({
+      bookings: { some: { OR: [{ addressPostalCode: { startsWith: '10' } }, { addressPostalCode: { startsWith: '20095' } }] } },
+    });
+    expect(conditions[3]).toMatchObject({
+      bookings: { none: { startAt: { gte: new Date('2026-01-01T00:00:00.000Z') } } },
+    });
+    expect(conditions[4]).toEqual({
+      OR: [{ consent: { is: null } }, { consent: { is: { consentMarketing: false } } }],
+    });
+  });
+
+  it('filters on booking frequency within the window', () => {
+    const criteria = { minBookings: 2, maxBookings: 5, bookingWindowDays: 30 };
+
+    expect(hasBookingFrequencyFilter(criteria)).toBe(true);
+    expect(hasBookingFrequencyFilter({})).toBe(false);
+    expect(matchesBookingFrequency(criteria, 1)).toBe(false);
+    expect(matchesBookingFrequency(criteria, 3)).toBe(true);
+    expect(matchesBookingFrequency(criteria, 6)).toBe(false);
+    expect(bookingFrequencySince(criteria, new Date('2026-03-31T00:00:00.000Z'))).toEqual(
+      new Date('2026-03-01T00:00:00.000Z')
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { BookingStatus, Prisma, UserRole } from '@prisma/client';
+import type { MarketingSegmentCriteria } from '@saubio/models';
+
+export const SEGMENT_ROLES: NonNullable<MarketingSegmentCriteria['roles']> = ['client', 'company'];
+
+export const SEGMENT_IGNORED_BOOKING_STATUSES: BookingStatus[] = [BookingStatus.DRAFT, BookingStatus.CANCELLED];
+const DEFAULT_BOOKING_WINDOW_DAYS = 365;
+
+/**
+ * Translates the criteria into a user filter. Booking frequency cannot be expressed as a Prisma
+ * relation filter and is applied afterwards with {@link matchesBookingFrequency}.
+ */
+export function buildSegmentUserWhere(criteria: MarketingSegmentCriteria): Prisma.UserWhereInput {
+  const roles = criteria.roles?.length ? criteria.roles : ['client'];
+  const conditions: Prisma.UserWhereInput[] = [
+    { isActive: true },
+    { roles: { hasSome: roles.map((role) => role.toUpperCase() as UserRole) } },
+  ];
+  const activeBooking: Prisma.BookingWhereInput = { status: { notIn: SEGMENT_IGNORED_BOOKING_STATUSES } };
+
+  if (criteria.postalCodes?.length) {
+    conditions.push({
+      bookings: {
+        some: {
+          ...activeBooking,
+          OR: criteria.postalCodes.map((code) => ({ addressPostalCode: { startsWith: code.trim() } })),
+        },
+      },
+    });
+  }
+  if (criteria.lastBookingAfter) {
+    conditions.push({
+      bookings: { some: { ...activeBooking, startAt: { gte: new Date(criteria.lastBookingAfter) } } },
+    });
+  }
+  if (criteria.lastBookingBefore) {
+    conditions.push({
+      bookings: {
+        some: activeBooking,
+        none: { ...activeBooking, startAt: { gte: new Date(criteria.lastBookingBefore) } },
+      },
+    });
+  }
+  if (criteria.marketingConsent === true) {
+    conditions.push({ consent: { is: { consentMarketing: true } } });
+  } else if (criteria.marketingConsent === false) {
+    conditions.push({ OR: [{ consent: { is: null } }, { consent: { is: { consentMarketing: false } } }] });
+  }
+  if (criteria.locales?.length) {
+    conditions.push({ preferredLocale: { in: criteria.locales } });
+  }
+
+  return { AND: conditions };
+}
+
+export function hasBookingFrequencyFilter(criteria: MarketingSegmentCriteria) {
+  return criteria.minBookings !== undefined || criteria.maxBookings !== undefined;
+}
+
+export function bookingFrequencySince(criteria: MarketingSegmentCriteria, now = new Date()) {
+  const days = criteria.bookingWindowDays ?? DEFAULT_BOOKING_WINDOW_DAYS;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+export function matchesBookingFrequency(criteria: MarketingSegmentCriteria, bookingCount: number) {
+  if (criteria.minBookings !== undefined && bookingCount < criteria.minBookings) {
+    return false;
+  }
+  return criteria.maxBookings === undefined || bookingCount <= criteria.maxBookings;
+}
@@ -0,0 +1,31 @@
+import { Body, Controller, Get, Param, Post, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { MarketingCampaignsService } from './marketing-campaigns.service';
+import { UnsubscribeMarketingDto } from './dto/marketing-campaign.dto';
+
+// 1×1 transparent GIF.
+const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/** Public endpoints reached from campaign emails; the recipient token is the only credential. */
+@Controller('marketing')
+export class MarketingTrackingController {
+  constructor(private readonly campaigns: MarketingCampaignsService) {}
+
+  @Get('track/open/:token')
+  async open(@Param('token') token: string, @Res() res: Response) {
+    await this.campaigns.trackOpen(token);
+    res.setHeader('Content-Type', 'image/gif');
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(TRACKING_PIXEL);
+  }
+
+  @Get('track/click/:token')
+  async click(@Param('token') token: string, @Res() res: Response) {
+    res.redirect(302, await this.campaigns.trackClick(token));
+  }
+
+  @Post('unsubscribe')
+  unsubscribe(@Body() payload: UnsubscribeMarketingDto) {
+    return this.campaigns.unsubscribe(payload.token);
+  }
+}
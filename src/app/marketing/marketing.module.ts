@@ -1,8 +1,18 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PricingModule } from '../pricing/pricing.module';
 import { PromoCodeService } from './promo-code.service';
+import { ReferralService } from './referral.service';
+import { ReferralsController } from './referrals.controller';
+import { MarketingCampaignsService } from './marketing-campaigns.service';
+import { MarketingTrackingController } from './marketing-tracking.controller';
 
 @Module({
-  providers: [PromoCodeService],
-  exports: [PromoCodeService],
+  imports: [PrismaModule, forwardRef(() => AuthModule), forwardRef(() => NotificationsModule), forwardRef(() => PricingModule)],
+  controllers: [ReferralsController, MarketingTrackingController],
+  providers: [PromoCodeService, ReferralService, MarketingCampaignsService],
+  exports: [PromoCodeService, ReferralService, MarketingCampaignsService],
 })
 export class MarketingModule {}
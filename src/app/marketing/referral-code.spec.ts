@@ -0,0 +1,24 @@
+import { addressFingerprint, generateReferralCode, normalizeReferralCode } from './referral-code';
+
+describe('referral-code', () => {
+  it('generates readable codes prefixed with the first name', () => {
+    const code = generateReferralCode('Jürgen');
+
+    expect(code).toHaveLength(8);
+    expect(code.startsWith('JURG')).toBe(true);
+    expect(code.slice(4)).toMatch(/^[ABCDEFGHJKMNPQRSTUVWXYZ2-9]{4}$/);
+    expect(generateReferralCode()).toMatch(/^[A-Z2-9]{8}$/);
+  });
+
+  it('normalizes typed codes and rejects anything else', () => {
+    expect(normalizeReferralCode(' anna-k7p2 ')).toBe('ANNAK7P2');
+    expect(normalizeReferralCode('abc')).toBeNull();
+    expect(normalizeReferralCode('ANNA;DROP')).toBeNull();
+    expect(normalizeReferralCode(undefined)).toBeNull();
+  });
+
+  it('matches the same street written differently', () => {
+    expect(addressFingerprint('Müllerstraße 12', '10115')).toBe(addressFingerprint('Mullerstr. 12', '10 115'));
+    expect(addressFingerprint('Müllerstraße 12', '10115')).not.toBe(addressFingerprint('Müllerstraße 14', '10115'));
+  });
+});
@@ -0,0 +1,37 @@
+import { randomInt } from 'crypto';
+
+// No 0/O or 1/I/L so codes survive being read out or typed from a flyer.
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const REFERRAL_CODE_LENGTH = 8;
+
+/** Builds a shareable code, prefixed with up to four letters of the first name when available. */
+export function generateReferralCode(firstName?: string | null): string {
+  const prefix = (firstName ?? '')
+    .normalize('NFD')
+    .replace(/[^a-zA-Z]/g, '')
+    .toUpperCase()
+    .slice(0, 4);
+  let suffix = '';
+  for (let index = 0; index < REFERRAL_CODE_LENGTH - prefix.length; index += 1) {
+    suffix += REFERRAL_CODE_ALPHABET[randomInt(REFERRAL_CODE_ALPHABET.length)];
+  }
+  return `${prefix}${suffix}`;
+}
+
+/** Returns the canonical form of a typed code, or null when it cannot be a referral code. */
+export function normalizeReferralCode(value?: string | null): string | null {
+  const normalized = (value ?? '').toUpperCase().replace(/[\s-]+/g, '');
+  return /^[A-Z0-9]{6,16}$/.test(normalized) ? normalized : null;
+}
+
+/** Street and postal code reduced to a comparable key, used to spot self-referrals at one address. */
+export function addressFingerprint(streetLine1: string, postalCode: string): string {
+  const street = streetLine1
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/strasse/g, 'str')
+    .replace(/[^a-z0-9]/g, '');
+  return `${postalCode.replace(/\s+/g, '').toUpperCase()}:${street}`;
+}
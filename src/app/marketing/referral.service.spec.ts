@@ -0,0 +1,170 @@
+import { ConfigService } from '@nestjs/config';
+import { BookingStatus, ReferralStatus, type ReferralInvite } from '@prisma/client';
+import type { User } from '@saubio/models';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailQueueService } from '../notifications/email-queue.service';
+import { PricingService } from '../pricing/pricing.service';
+import { ReferralService } from './referral.service';
+
+describe('ReferralService invites', () => {
+  let service: ReferralService;
+  let invites: ReferralInvite[];
+  let emailQueue: { enqueue: jest.Mock; triggerImmediateProcessing: jest.Mock };
+
+  const referrer: User = {
+    id: 'user_1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    email: 'anna@example.com',
+    firstName: 'Anna',
+    lastName: 'Schmidt',
+    roles: ['client'],
+    preferredLocale: 'de',
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    invites = [];
+    const prisma = {
+      marketingSetting: { findUnique: jest.fn().mockResolvedValue({ referralEnabled: true }) },
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ referralCode: 'ANNA42' }),
+        findMany: jest.fn(async ({ where }: { where: { email: { in: string[] } } }) =>
+          where.email.in.filter((email) => email === 'known@example.com').map((email) => ({ email }))
+        ),
+      },
+      referralInvite: {
+        findFirst: jest.fn(async ({ where }: { where: { referredEmail: string } }) =>
+          invites.filter((invite) => invite.referredEmail === where.referredEmail).pop() ?? null
+        ),
+        count: jest.fn(async ({ where }: { where: { lastSentAt: { gte: Date } } }) =>
+          invites.filter((invite) => invite.lastSentAt && invite.lastSentAt >= where.lastSentAt.gte).length
+        ),
+        create: jest.fn(async ({ data }: { data: Partial<ReferralInvite> }) => {
+          const invite = {
+            id: `invite_${invites.length + 1}`,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            referralCode: data.referralCode,
+            status: ReferralStatus.INVITED,
+            referrerId: referrer.id,
+            referredEmail: data.referredEmail,
+            referredUserId: null,
+            bookingId: null,
+            rewardReferrerCents: data.rewardReferrerCents,
+            rewardReferredCents: data.rewardReferredCents,
+            rewardedAt: null,
+            lastSentAt: data.lastSentAt,
+            fraudReason: null,
+            notes: null,
+          } as ReferralInvite;
+          invites.push(invite);
+          return invite;
+        }),
+        update: jest.fn(async ({ where, data }: { where: { id: string }; data: Partial<ReferralInvite> }) =>
+          Object.assign(invites.find((invite) => invite.id === where.id)!, data)
+        ),
+      },
+    };
+    emailQueue = { enqueue: jest.fn(), triggerImmediateProcessing: jest.fn() };
+
+    service = new ReferralService(
+      prisma as unknown as PrismaService,
+      { get: jest.fn() } as unknown as ConfigService,
+      emailQueue as unknown as EmailQueueService,
+      {
+        getPublicConfig: jest.fn().mockResolvedValue({
+          referralReferrerRewardCents: 1000,
+          referralReferredRewardCents: 1000,
+        }),
+      } as unknown as PricingService
+    );
+  });
+
+  it('answers the same for registered and unknown addresses but only emails the unknown ones', async () => {
+    const result = await service.invite(referrer, { emails: ['known@example.com', 'new@example.com'] });
+
+    expect(result.map((invite) => [invite.email, invite.status])).toEqual([
+      ['known@example.com', 'invited'],
+      ['new@example.com', 'invited'],
+    ]);
+    expect(emailQueue.enqueue).toHaveBeenCalledTimes(1);
+    expect(emailQueue.enqueue).toHaveBeenCalledWith(expect.objectContaining({ to: 'new@example.com' }));
+  });
+
+  it('does not resend within a day and caps invites per referrer per day', async () => {
+    await service.invite(referrer, { emails: ['new@example.com'] });
+    await service.invite(referrer, { emails: ['new@example.com'] });
+    expect(emailQueue.enqueue).toHaveBeenCalledTimes(1);
+
+    await service.invite(referrer, { emails: Array.from({ length: 10 }, (_, index) => `friend${index}@example.com`) });
+    await expect(
+      service.invite(referrer, { emails: Array.from({ length: 10 }, (_, index) => `late${index}@example.com`) })
+    ).rejects.toThrow('REFERRAL_INVITE_LIMIT_REACHED');
+    expect(invites).toHaveLength(11);
+  });
+});
+
+describe('ReferralService rewards', () => {
+  const payment = {
+    id: 'payment_1',
+    bookingId: 'booking_1',
+    clientId: 'user_2',
+    externalCustomerId: null,
+    externalPaymentMethodId: null,
+    externalMandateId: null,
+  };
+  let findInvite: jest.Mock;
+  let creditLoyaltyPoints: jest.Mock;
+  let service: ReferralService;
+
+  beforeEach(() => {
+    findInvite = jest.fn().mockResolvedValue({
+      id: 'invite_1',
+      referrerId: 'user_1',
+      referredUserId: 'user_2',
+      rewardReferrerCents: 1000,
+      rewardReferredCents: 500,
+      fraudReason: null,
+    });
+    creditLoyaltyPoints = jest.fn();
+    const prisma = {
+      referralInvite: { findFirst: findInvite, updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      paymentMandate: { findMany: jest.fn().mockResolvedValue([]) },
+      $transaction: jest.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(prisma)),
+    };
+    service = new ReferralService(
+      prisma as unknown as PrismaService,
+      { get: jest.fn() } as unknown as ConfigService,
+      {} as EmailQueueService,
+      {
+        getPublicConfig: jest.fn().mockResolvedValue({ loyaltyValuePerPointCents: 10 }),
+        creditLoyaltyPoints,
+      } as unknown as PricingService
+    );
+  });
+
+  it('ties both credits to the referred payment so a refund reverses them', async () => {
+    await service.rewardForPayment(payment);
+
+    expect(creditLoyaltyPoints).toHaveBeenCalledTimes(2);
+    expect(creditLoyaltyPoints.mock.calls.map(([credit]) => [credit.clientId, credit.points])).toEqual([
+      ['user_1', 100],
+      ['user_2', 50],
+    ]);
+    for (const [credit] of creditLoyaltyPoints.mock.calls) {
+      expect(credit).toMatchObject({ bookingId: 'booking_1', paymentId: 'payment_1' });
+    }
+  });
+
+  it('does not reward the fee captured on a cancelled booking', async () => {
+    findInvite.mockResolvedValue(null);
+
+    await service.rewardForPayment(payment);
+
+    expect(findInvite.mock.calls[0][0].where.booking).toEqual({
+      status: { notIn: [BookingStatus.DRAFT, BookingStatus.CANCELLED] },
+    });
+    expect(creditLoyaltyPoints).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,513 @@
+import { ForbiddenException, HttpException, HttpStatus, Inject, Injectable, Logger, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BookingStatus as PrismaBookingStatus,
+  Prisma,
+  ReferralStatus as PrismaReferralStatus,
+  type ReferralInvite as PrismaReferralInvite,
+} from '@prisma/client';
+import type { ReferralInviteSummary, ReferralOverviewResponse, ReferralStatus, User } from '@saubio/models';
+import { DateTime } from 'luxon';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { EmailQueueService } from '../notifications/email-queue.service';
+import { PricingService } from '../pricing/pricing.service';
+import { addressFingerprint, generateReferralCode, normalizeReferralCode } from './referral-code';
+import { CreateReferralInvitesDto } from './dto/create-referral-invites.dto';
+
+const DEVICE_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+const INVITES_PER_DAY = 20;
+const INVITE_RESEND_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+const INVITE_LIMIT_ZONE = 'Europe/Berlin';
+const INACTIVE_BOOKING_STATUSES: PrismaBookingStatus[] = [PrismaBookingStatus.DRAFT, PrismaBookingStatus.CANCELLED];
+
+export type ReferralFraudReason = 'SHARED_DEVICE' | 'SHARED_ADDRESS' | 'SHARED_PAYMENT_METHOD';
+
+interface SignupContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+interface ReferralBooking {
+  id: string;
+  clientId: string | null;
+  addressStreetLine1: string;
+  addressPostalCode: string;
+}
+
+interface ReferralPayment {
+  id: string;
+  bookingId: string;
+  clientId: string;
+  externalCustomerId: string | null;
+  externalPaymentMethodId: string | null;
+  externalMandateId: string | null;
+}
+
+/**
+ * Invites move INVITED → SIGNED_UP → BOOKED → REWARDED. Attribution never blocks signup or
+ * booking: a suspected self-referral is only flagged with `fraudReason`, which stops the reward
+ * and leaves the invite for marketing to review.
+ */
+@Injectable()
+export class ReferralService {
+  private readonly logger = new Logger(ReferralService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly emailQueue: EmailQueueService,
+    @Inject(forwardRef(() => PricingService))
+    private readonly pricing: PricingService
+  ) {}
+
+  async getOverview(user: User): Promise<ReferralOverviewResponse> {
+    const [code, enabled, config, invites] = await Promise.all([
+      this.ensureCode(user),
+      this.isEnabled(),
+      this.pricing.getPublicConfig(),
+      this.prisma.referralInvite.findMany({
+        where: { referrerId: user.id },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      }),
+    ]);
+
+    return {
+      enabled,
+      code,
+      shareUrl: this.buildShareUrl(code),
+      rewardReferrerCents: config.referralReferrerRewardCents,
+      rewardReferredCents: config.referralReferredRewardCents,
+      totalRewardedCents: invites
+        .filter((invite) => invite.rewardedAt)
+        .reduce((total, invite) => total + invite.rewardReferrerCents, 0),
+      invites: invites.map((invite) => this.mapInvite(invite)),
+    };
+  }
+
+  /**
+   * Every address gets the same answer, so the response never reveals who already has an account; those
+   * addresses are simply not emailed. Each address is emailed at most once a day and counts towards the
+   * referrer's daily invite limit.
+   */
+  async invite(user: User, payload: CreateReferralInvitesDto): Promise<ReferralInviteSummary[]> {
+    if (!(await this.isEnabled())) {
+      throw new ForbiddenException('REFERRAL_PROGRAM_DISABLED');
+    }
+
+    const code = await this.ensureCode(user);
+    const config = await this.pricing.getPublicConfig();
+    const emails = Array.from(new Set(payload.emails.map((email) => email.trim().toLowerCase()))).filter(
+      (email) => email !== user.email.toLowerCase()
+    );
+    const now = new Date();
+
+    const targets: Array<{ email: string; existing: PrismaReferralInvite | null; send: boolean }> = [];
+    for (const email of emails) {
+      const existing = await this.prisma.referralInvite.findFirst({
+        where: { referrerId: user.id, referredEmail: email },
+        orderBy: { createdAt: 'desc' },
+      });
+      const send =
+        !existing ||
+        (existing.status === PrismaReferralStatus.INVITED &&
+          (!existing.lastSentAt || now.getTime() - existing.lastSentAt.getTime() >= INVITE_RESEND_COOLDOWN_MS));
+      targets.push({ email, existing, send });
+    }
+
+    const sending = targets.filter((target) => target.send).length;
+    if (sending) {
+      const windowStart = DateTime.fromJSDate(now).setZone(INVITE_LIMIT_ZONE).startOf('day').toJSDate();
+      const sentToday = await this.prisma.referralInvite.count({
+        where: { referrerId: user.id, lastSentAt: { gte: windowStart } },
+      });
+      if (sentToday + sending > INVITES_PER_DAY) {
+        throw new HttpException('REFERRAL_INVITE_LIMIT_REACHED', HttpStatus.TOO_MANY_REQUESTS);
+      }
+    }
+
+    const registered = await this.prisma.user.findMany({
+      where: { email: { in: emails, mode: 'insensitive' } },
+      select: { email: true },
+    });
+    const registeredEmails = new Set(registered.map((entry) => entry.email.toLowerCase()));
+
+    const invites: PrismaReferralInvite[] = [];
+    for (const { email, existing, send } of targets) {
+      if (!send) {
+        invites.push(existing as PrismaReferralInvite);
+        continue;
+      }
+      const invite = existing
+        ? await this.prisma.referralInvite.update({ where: { id: existing.id }, data: { lastSentAt: now } })
+        : await this.prisma.referralInvite.create({
+            data: {
+              referralCode: code,
+              referrer: { connect: { id: user.id } },
+              referredEmail: email,
+              rewardReferrerCents: config.referralReferrerRewardCents,
+              rewardReferredCents: config.referralReferredRewardCents,
+              lastSentAt: now,
+            },
+          });
+      if (!registeredEmails.has(email)) {
+        await this.sendInviteEmail(invite, user, config.referralReferredRewardCents, payload.message);
+      }
+      invites.push(invite);
+    }
+
+    return invites.map((invite) => this.mapInvite(invite));
+  }
+
+  /**
+   * Links a new account to the referrer behind `code`. Called from registration, so failures are
+   * logged rather than thrown.
+   */
+  async attributeSignup(user: { id: string; email: string }, code: string | undefined, context: SignupContext = {}) {
+    const normalized = normalizeReferralCode(code);
+    if (!normalized) {
+      return;
+    }
+
+    try {
+      if (!(await this.isEnabled())) {
+        return;
+      }
+      const referrer = await this.prisma.user.findUnique({
+        where: { referralCode: normalized },
+        select: { id: true },
+      });
+      if (!referrer || referrer.id === user.id) {
+        return;
+      }
+
+      const fraudReason = await this.detectSharedDevice(referrer.id, context);
+      const invite = await this.prisma.referralInvite.findFirst({
+        where: {
+          referrerId: referrer.id,
+          referredEmail: { equals: user.email, mode: 'insensitive' },
+          referredUserId: null,
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (invite) {
+        await this.prisma.referralInvite.update({
+          where: { id: invite.id },
+          data: {
+            status: PrismaReferralStatus.SIGNED_UP,
+            referredUser: { connect: { id: user.id } },
+            fraudReason,
+          },
+        });
+      } else {
+        const config = await this.pricing.getPublicConfig();
+        await this.prisma.referralInvite.create({
+          data: {
+            referralCode: normalized,
+            status: PrismaReferralStatus.SIGNED_UP,
+            referrer: { connect: { id: referrer.id } },
+            referredEmail: user.email.toLowerCase(),
+            referredUser: { connect: { id: user.id } },
+            rewardReferrerCents: config.referralReferrerRewardCents,
+            rewardReferredCents: config.referralReferredRewardCents,
+            fraudReason,
+          },
+        });
+      }
+      this.warnOnFraud(fraudReason, user.id);
+    } catch (error) {
+      this.logger.warn(
+        `Unable to attribute referral ${normalized} to user ${user.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Only the first booking of a referred client counts towards the reward. A draft or cancelled
+   * booking that was attributed earlier gives way to the next one.
+   */
+  async attributeFirstBooking(booking: ReferralBooking) {
+    if (!booking.clientId) {
+      return;
+    }
+
+    try {
+      const invite = await this.prisma.referralInvite.findFirst({
+        where: {
+          referredUserId: booking.clientId,
+          status: { in: [PrismaReferralStatus.SIGNED_UP, PrismaReferralStatus.BOOKED] },
+          rewardedAt: null,
+        },
+        include: { booking: { select: { id: true, status: true } } },
+      });
+      if (!invite || (invite.booking && !INACTIVE_BOOKING_STATUSES.includes(invite.booking.status))) {
+        return;
+      }
+      const earlierBookings = await this.prisma.booking.count({
+        where: {
+          clientId: booking.clientId,
+          id: { not: booking.id },
+          status: { notIn: INACTIVE_BOOKING_STATUSES },
+        },
+      });
+      if (earlierBookings > 0) {
+        return;
+      }
+
+      const fraudReason = invite.fraudReason ?? (await this.detectSharedAddress(invite.referrerId, booking));
+      await this.prisma.referralInvite.update({
+        where: { id: invite.id },
+        data: {
+          status: PrismaReferralStatus.BOOKED,
+          booking: { connect: { id: booking.id } },
+          fraudReason,
+        },
+      });
+      if (!invite.fraudReason) {
+        this.warnOnFraud(fraudReason, booking.clientId);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Unable to attribute booking ${booking.id} to a referral: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /** Credits both sides once the referred booking has been paid. Safe to call for every capture. */
+  async rewardForPayment(payment: ReferralPayment) {
+    try {
+      // A cancellation fee captured on a cancelled booking is not a completed referral.
+      const invite = await this.prisma.referralInvite.findFirst({
+        where: {
+          bookingId: payment.bookingId,
+          status: PrismaReferralStatus.BOOKED,
+          rewardedAt: null,
+          booking: { status: { notIn: INACTIVE_BOOKING_STATUSES } },
+        },
+      });
+      if (!invite?.referredUserId) {
+        return;
+      }
+
+      const fraudReason = invite.fraudReason ?? (await this.detectSharedPaymentMethod(invite.referrerId, payment));
+      if (fraudReason) {
+        if (!invite.fraudReason) {
+          await this.prisma.referralInvite.update({ where: { id: invite.id }, data: { fraudReason } });
+          this.warnOnFraud(fraudReason, payment.clientId);
+        }
+        return;
+      }
+
+      const config = await this.pricing.getPublicConfig();
+      const pointValue = config.loyaltyValuePerPointCents;
+      if (!pointValue) {
+        return;
+      }
+
+      const referredUserId = invite.referredUserId;
+      await this.prisma.$transaction(async (tx) => {
+        const claimed = await tx.referralInvite.updateMany({
+          where: { id: invite.id, status: PrismaReferralStatus.BOOKED, rewardedAt: null },
+          data: { status: PrismaReferralStatus.REWARDED, rewardedAt: new Date() },
+        });
+        if (!claimed.count) {
+          return;
+        }
+        const rewards: Array<{ clientId: string; cents: number; role: 'referrer' | 'referred' }> = [
+          { clientId: invite.referrerId, cents: invite.rewardReferrerCents, role: 'referrer' },
+          { clientId: referredUserId, cents: invite.rewardReferredCents, role: 'referred' },
+        ];
+        // Both credits point at the referred payment so a refund of it claws them back.
+        for (const reward of rewards) {
+          await this.pricing.creditLoyaltyPoints(
+            {
+              clientId: reward.clientId,
+              points: Math.floor(reward.cents / pointValue),
+              bookingId: payment.bookingId,
+              paymentId: payment.id,
+              metadata: {
+                source: 'referral',
+                role: reward.role,
+                referralInviteId: invite.id,
+                rewardCents: reward.cents,
+              },
+            },
+            tx
+          );
+        }
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Unable to reward referral for payment ${payment.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private async ensureCode(user: Pick<User, 'id' | 'firstName'>) {
+    const existing = await this.prisma.user.findUnique({
+      where: { id: user.id },
+      select: { referralCode: true },
+    });
+    if (existing?.referralCode) {
+      return existing.referralCode;
+    }
+
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      const code = generateReferralCode(attempt < 3 ? user.firstName : null);
+      try {
+        const updated = await this.prisma.user.update({
+          where: { id: user.id },
+          data: { referralCode: code },
+          select: { referralCode: true },
+        });
+        return updated.referralCode as string;
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+      }
+    }
+    throw new Error('REFERRAL_CODE_GENERATION_FAILED');
+  }
+
+  private async isEnabled() {
+    const settings = await this.prisma.marketingSetting.findUnique({
+      where: { id: 1 },
+      select: { referralEnabled: true },
+    });
+    return settings?.referralEnabled ?? false;
+  }
+
+  /** Same IP and user agent as a recent session of the referrer. */
+  private async detectSharedDevice(referrerId: string, context: SignupContext): Promise<ReferralFraudReason | null> {
+    if (!context.ipAddress || !context.userAgent) {
+      return null;
+    }
+    const since = new Date(Date.now() - DEVICE_LOOKBACK_MS);
+    const [sessions, logins] = await Promise.all([
+      this.prisma.refreshToken.count({
+        where: { userId: referrerId, createdAt: { gte: since }, ipAddress: context.ipAddress, userAgent: context.userAgent },
+      }),
+      this.prisma.loginAttempt.count({
+        where: {
+          userId: referrerId,
+          success: true,
+          createdAt: { gte: since },
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      }),
+    ]);
+    return sessions + logins > 0 ? 'SHARED_DEVICE' : null;
+  }
+
+  private async detectSharedAddress(referrerId: string, booking: ReferralBooking): Promise<ReferralFraudReason | null> {
+    const target = addressFingerprint(booking.addressStreetLine1, booking.addressPostalCode);
+    const referrerBookings = await this.prisma.booking.findMany({
+      where: { clientId: referrerId, addressPostalCode: booking.addressPostalCode },
+      select: { addressStreetLine1: true, addressPostalCode: true },
+      take: 50,
+    });
+    return referrerBookings.some(
+      (entry) => addressFingerprint(entry.addressStreetLine1, entry.addressPostalCode) === target
+    )
+      ? 'SHARED_ADDRESS'
+      : null;
+  }
+
+  /** Compares the provider references of the payment and the mandate fingerprints of both clients. */
+  private async detectSharedPaymentMethod(
+    referrerId: string,
+    payment: ReferralPayment
+  ): Promise<ReferralFraudReason | null> {
+    const references = [payment.externalCustomerId, payment.externalPaymentMethodId, payment.externalMandateId].filter(
+      (value): value is string => Boolean(value)
+    );
+    if (references.length) {
+      const shared = await this.prisma.payment.count({
+        where: {
+          clientId: referrerId,
+          OR: [
+            ...(payment.externalCustomerId ? [{ externalCustomerId: payment.externalCustomerId }] : []),
+            ...(payment.externalPaymentMethodId ? [{ externalPaymentMethodId: payment.externalPaymentMethodId }] : []),
+            ...(payment.externalMandateId ? [{ externalMandateId: payment.externalMandateId }] : []),
+          ],
+        },
+      });
+      if (shared > 0) {
+        return 'SHARED_PAYMENT_METHOD';
+      }
+    }
+
+    const fingerprints = await this.prisma.paymentMandate.findMany({
+      where: { clientId: payment.clientId, fingerprint: { not: null } },
+      select: { fingerprint: true },
+    });
+    if (!fingerprints.length) {
+      return null;
+    }
+    const sharedMandates = await this.prisma.paymentMandate.count({
+      where: {
+        clientId: referrerId,
+        fingerprint: { in: fingerprints.map((entry) => entry.fingerprint as string) },
+      },
+    });
+    return sharedMandates > 0 ? 'SHARED_PAYMENT_METHOD' : null;
+  }
+
+  private warnOnFraud(reason: string | null, userId: string) {
+    if (reason) {
+      this.logger.warn(`Referral for user ${userId} flagged: ${reason}`);
+    }
+  }
+
+  private async sendInviteEmail(invite: PrismaReferralInvite, referrer: User, rewardCents: number, message?: string) {
+    try {
+      await this.emailQueue.enqueue({
+        to: invite.referredEmail,
+        template: 'marketing.referral_invite',
+        payload: {
+          referrerName: `${referrer.firstName ?? ''} ${referrer.lastName ?? ''}`.trim() || referrer.email,
+          locale: referrer.preferredLocale,
+          code: invite.referralCode,
+          actionUrl: this.buildShareUrl(invite.referralCode),
+          amountCents: rewardCents,
+          currency: 'EUR',
+          message: message?.trim() || undefined,
+        },
+      });
+      void this.emailQueue.triggerImmediateProcessing();
+    } catch (error) {
+      this.logger.warn(
+        `Unable to enqueue referral invite for ${invite.referredEmail}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private buildShareUrl(code: string) {
+    const appUrl =
+      this.configService.get('app.appUrl' as keyof AppEnvironmentConfig) ?? 'http://localhost:3000';
+    return `${appUrl.replace(/\/+$/, '')}/register?ref=${encodeURIComponent(code)}`;
+  }
+
+  private mapInvite(invite: PrismaReferralInvite): ReferralInviteSummary {
+    return {
+      id: invite.id,
+      email: invite.referredEmail,
+      status: invite.status.toLowerCase() as ReferralStatus,
+      rewardReferrerCents: invite.rewardReferrerCents,
+      rewardedAt: invite.rewardedAt?.toISOString() ?? null,
+      createdAt: invite.createdAt.toISOString(),
+    };
+  }
+}
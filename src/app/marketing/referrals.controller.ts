@@ -0,0 +1,25 @@
+import { Body, Controller, Get, Post, UseGuards } from '@nestjs/common';
+import type { User } from '@saubio/models';
+import { AccessTokenGuard } from '../auth/guards/access-token.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ReferralService } from './referral.service';
+import { CreateReferralInvitesDto } from './dto/create-referral-invites.dto';
+
+@Controller('referrals')
+@UseGuards(AccessTokenGuard, RolesGuard)
+@Roles('client', 'company')
+export class ReferralsController {
+  constructor(private readonly referrals: ReferralService) {}
+
+  @Get('me')
+  overview(@CurrentUser() user: User) {
+    return this.referrals.getOverview(user);
+  }
+
+  @Post('invites')
+  invite(@Body() payload: CreateReferralInvitesDto, @CurrentUser() user: User) {
+    return this.referrals.invite(user, payload);
+  }
+}
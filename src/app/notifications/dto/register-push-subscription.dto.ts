@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsOptional, IsString, MaxLength, ValidateNested } from 'class-validator';
+import { PushPlatform } from '@prisma/client';
+
+export class PushSubscriptionKeysDto {
+  @IsString()
+  @MaxLength(200)
+  p256dh!: string;
+
+  @IsString()
+  @MaxLength(100)
+  auth!: string;
+}
+
+export class RegisterPushSubscriptionDto {
+  @IsEnum(PushPlatform)
+  platform!: PushPlatform;
+
+  /** Web Push endpoint URL, or the FCM registration token for native apps. */
+  @IsString()
+  @MaxLength(2048)
+  endpoint!: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PushSubscriptionKeysDto)
+  keys?: PushSubscriptionKeysDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  userAgent?: string;
+}
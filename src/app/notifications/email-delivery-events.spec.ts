@@ -0,0 +1,58 @@
+import { EmailDeliveryEventType, EmailSuppressionReason } from '@prisma/client';
+import { classifyBounce, parseEmailDeliveryEvents, suppressionReasonFor } from './email-delivery-events';
+
+describe('email-delivery-events', () => {
+  const now = new Date('2026-01-18T09:00:00.000Z');
+
+  it('parses provider-style batches and DSN reports', () => {
+    const events = parseEmailDeliveryEvents(
+      {
+        events: [
+          { event: 'delivered', recipient: 'Anna@Example.com', emailId: 'email-1', timestamp: 1768726800 },
+          {
+            action: 'failed',
+            finalRecipient: 'rfc822;gone@example.com',
+            diagnosticCode: 'smtp; 550 5.1.1 user unknown',
+          },
+          { event: 'unknown', recipient: 'x@example.com' },
+          { event: 'open' },
+        ],
+      },
+      now
+    );
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      type: EmailDeliveryEventType.DELIVERED,
+      recipient: 'anna@example.com',
+      emailId: 'email-1',
+      occurredAt: new Date('2026-01-18T09:00:00.000Z'),
+    });
+    expect(events[1]).toMatchObject({
+      type: EmailDeliveryEventType.BOUNCED,
+      recipient: 'gone@example.com',
+      bounceType: 'hard',
+      status: '5.1.1',
+      occurredAt: now,
+    });
+  });
+
+  it('classifies bounces from the status code unless the provider says otherwise', () => {
+    expect(classifyBounce('5.2.2')).toBe('hard');
+    expect(classifyBounce('4.2.2')).toBe('soft');
+    expect(classifyBounce(null)).toBe('soft');
+    expect(classifyBounce('4.4.7', 'permanent')).toBe('hard');
+  });
+
+  it('suppresses on hard bounces, complaints and repeated soft bounces', () => {
+    const bounce = EmailDeliveryEventType.BOUNCED;
+
+    expect(suppressionReasonFor({ type: bounce, bounceType: 'hard' }, 0)).toBe(EmailSuppressionReason.HARD_BOUNCE);
+    expect(suppressionReasonFor({ type: EmailDeliveryEventType.COMPLAINED, bounceType: null }, 0)).toBe(
+      EmailSuppressionReason.COMPLAINT
+    );
+    expect(suppressionReasonFor({ type: bounce, bounceType: 'soft' }, 2)).toBeNull();
+    expect(suppressionReasonFor({ type: bounce, bounceType: 'soft' }, 3)).toBe(EmailSuppressionReason.SOFT_BOUNCE);
+    expect(suppressionReasonFor({ type: EmailDeliveryEventType.OPENED, bounceType: null }, 5)).toBeNull();
+  });
+});
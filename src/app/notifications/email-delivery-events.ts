@@ -0,0 +1,147 @@
+import { EmailDeliveryEventType, EmailSuppressionReason } from '@prisma/client';
+import { createHash } from 'crypto';
+
+export type EmailBounceType = 'hard' | 'soft';
+
+export interface EmailDeliveryEventInput {
+  type: EmailDeliveryEventType;
+  recipient: string;
+  emailId: string | null;
+  occurredAt: Date;
+  bounceType: EmailBounceType | null;
+  status: string | null;
+  reason: string | null;
+}
+
+export const SOFT_BOUNCE_SUPPRESSION_THRESHOLD = 3;
+export const SOFT_BOUNCE_WINDOW_DAYS = 7;
+export const SOFT_BOUNCE_SUPPRESSION_DAYS = 30;
+
+const EVENT_ALIASES: Record<string, EmailDeliveryEventType> = {
+  delivered: EmailDeliveryEventType.DELIVERED,
+  delivery: EmailDeliveryEventType.DELIVERED,
+  deferred: EmailDeliveryEventType.DEFERRED,
+  delayed: EmailDeliveryEventType.DEFERRED,
+  bounce: EmailDeliveryEventType.BOUNCED,
+  bounced: EmailDeliveryEventType.BOUNCED,
+  failed: EmailDeliveryEventType.BOUNCED,
+  dropped: EmailDeliveryEventType.BOUNCED,
+  complaint: EmailDeliveryEventType.COMPLAINED,
+  complained: EmailDeliveryEventType.COMPLAINED,
+  spamreport: EmailDeliveryEventType.COMPLAINED,
+  open: EmailDeliveryEventType.OPENED,
+  opened: EmailDeliveryEventType.OPENED,
+  click: EmailDeliveryEventType.CLICKED,
+  clicked: EmailDeliveryEventType.CLICKED,
+};
+
+const DSN_STATUS_PATTERN = /\b([245])\.\d{1,3}\.\d{1,3}\b/;
+
+/**
+ * Normalizes a webhook body into delivery events. Accepts a single event, an array, or `{ events: [...] }`;
+ * each event uses either a provider-style `event`/`type` name or the DSN `action` field
+ * (`delivered`, `delayed`, `failed`) with an enhanced status code. Unknown entries are dropped.
+ */
+export function parseEmailDeliveryEvents(body: unknown, now = new Date()): EmailDeliveryEventInput[] {
+  const entries = Array.isArray(body)
+    ? body
+    : isRecord(body) && Array.isArray(body.events)
+      ? body.events
+      : [body];
+
+  return entries
+    .map((entry) => parseEntry(entry, now))
+    .filter((event): event is EmailDeliveryEventInput => event !== null);
+}
+
+/** DSN class 5 is permanent; an explicit bounce type from the provider wins over the status code. */
+export function classifyBounce(status: string | null, bounceType?: string | null): EmailBounceType {
+  const explicit = bounceType?.toLowerCase();
+  if (explicit === 'hard' || explicit === 'permanent') {
+    return 'hard';
+  }
+  if (explicit === 'soft' || explicit === 'transient') {
+    return 'soft';
+  }
+  return status?.startsWith('5') ? 'hard' : 'soft';
+}
+
+/** Returns the suppression reason an event triggers, or null when the address can still be mailed. */
+export function suppressionReasonFor(
+  event: Pick<EmailDeliveryEventInput, 'type' | 'bounceType'>,
+  recentSoftBounces: number
+): EmailSuppressionReason | null {
+  if (event.type === EmailDeliveryEventType.COMPLAINED) {
+    return EmailSuppressionReason.COMPLAINT;
+  }
+  if (event.type !== EmailDeliveryEventType.BOUNCED) {
+    return null;
+  }
+  if (event.bounceType === 'hard') {
+    return EmailSuppressionReason.HARD_BOUNCE;
+  }
+  return recentSoftBounces >= SOFT_BOUNCE_SUPPRESSION_THRESHOLD ? EmailSuppressionReason.SOFT_BOUNCE : null;
+}
+
+export function normalizeEmailAddress(value: string) {
+  return value.trim().toLowerCase();
+}
+
+/** Key a suppression is kept under once its address was erased, so the opt-out outlives the address. */
+export function hashedSuppressionEmail(value: string) {
+  return `sha256:${createHash('sha256').update(normalizeEmailAddress(value)).digest('hex')}`;
+}
+
+function parseEntry(entry: unknown, now: Date): EmailDeliveryEventInput | null {
+  if (!isRecord(entry)) {
+    return null;
+  }
+  const name = stringField(entry, 'event', 'type', 'action');
+  const type = name ? EVENT_ALIASES[name.toLowerCase()] : undefined;
+  const recipient = stringField(entry, 'recipient', 'email', 'to', 'finalRecipient');
+  if (!type || !recipient || !recipient.includes('@')) {
+    return null;
+  }
+
+  const reason = stringField(entry, 'reason', 'diagnostic', 'diagnosticCode', 'description');
+  const statusMatch = (stringField(entry, 'status') ?? reason ?? '').match(DSN_STATUS_PATTERN);
+  const status = statusMatch ? statusMatch[0] : null;
+
+  return {
+    type,
+    recipient: normalizeEmailAddress(recipient.replace(/^rfc822;/i, '')),
+    emailId: stringField(entry, 'emailId', 'email_id', 'messageId'),
+    occurredAt: parseTimestamp(entry.timestamp ?? entry.occurredAt, now),
+    bounceType: type === EmailDeliveryEventType.BOUNCED ? classifyBounce(status, stringField(entry, 'bounceType')) : null,
+    status,
+    reason: reason ? reason.slice(0, 500) : null,
+  };
+}
+
+function parseTimestamp(value: unknown, fallback: Date) {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // Providers send either unix seconds or milliseconds.
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+  if (typeof value === 'string') {
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+  return fallback;
+}
+
+function stringField(entry: Record<string, unknown>, ...keys: string[]) {
+  for (const key of keys) {
+    const value = entry[key];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
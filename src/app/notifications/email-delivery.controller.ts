@@ -0,0 +1,44 @@
+import { Body, Controller, Get, Headers, HttpCode, Param, Post, Query, Req, Res } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { EmailDeliveryService } from './email-delivery.service';
+
+type RawBodyRequest = Request & { rawBody?: Buffer };
+
+// 1×1 transparent GIF.
+const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/** Public endpoints for the mail provider's event webhook and the optional open/click tracking links. */
+@ApiTags('notifications')
+@Controller('notifications/email')
+export class EmailDeliveryController {
+  constructor(private readonly delivery: EmailDeliveryService) {}
+
+  @Post('events')
+  @HttpCode(200)
+  ingestEvents(
+    @Body() body: unknown,
+    @Headers('x-email-signature') signature: string | undefined,
+    @Req() req: RawBodyRequest
+  ) {
+    return this.delivery.ingestEvents(body, signature, req.rawBody);
+  }
+
+  @Get('open/:emailId/:signature')
+  async open(@Param('emailId') emailId: string, @Param('signature') signature: string, @Res() res: Response) {
+    await this.delivery.trackOpen(emailId, signature);
+    res.setHeader('Content-Type', 'image/gif');
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(TRACKING_PIXEL);
+  }
+
+  @Get('click/:emailId/:signature')
+  async click(
+    @Param('emailId') emailId: string,
+    @Param('signature') signature: string,
+    @Query('url') url: string,
+    @Res() res: Response
+  ) {
+    res.redirect(302, await this.delivery.trackClick(emailId, signature, url));
+  }
+}
@@ -0,0 +1,314 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EmailDeliveryEventType, EmailSuppressionReason, Prisma } from '@prisma/client';
+import type { EmailSuppression } from '@prisma/client';
+import type {
+  AdminEmailDeliveryHistory,
+  AdminEmailSuppression,
+  EmailDeliveryEventType as DomainEmailDeliveryEventType,
+  EmailDeliveryStatus,
+  EmailSuppressionReason as DomainEmailSuppressionReason,
+} from '@saubio/models';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import {
+  EmailDeliveryEventInput,
+  hashedSuppressionEmail,
+  normalizeEmailAddress,
+  parseEmailDeliveryEvents,
+  SOFT_BOUNCE_SUPPRESSION_DAYS,
+  SOFT_BOUNCE_WINDOW_DAYS,
+  suppressionReasonFor,
+} from './email-delivery-events';
+import { addEmailTracking, verifyEmailTracking } from './email-tracking';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_LIMIT = 20;
+
+@Injectable()
+export class EmailDeliveryService {
+  private readonly logger = new Logger(EmailDeliveryService.name);
+  private readonly webhookSecret?: string;
+  private readonly trackingSecret?: string;
+  private readonly trackingEnabled: boolean;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService<AppEnvironmentConfig>
+  ) {
+    this.webhookSecret =
+      (this.configService.get('app.emailWebhookSecret' as keyof AppEnvironmentConfig) as string | undefined) ||
+      undefined;
+    // Tracking links are signed with their own key; without it no link is issued or accepted.
+    this.trackingSecret =
+      (this.configService.get('app.emailTrackingSecret' as keyof AppEnvironmentConfig) as string | undefined) ||
+      undefined;
+    const trackingRequested =
+      this.configService.get('app.emailTrackingEnabled' as keyof AppEnvironmentConfig) === true;
+    if (trackingRequested && !this.trackingSecret) {
+      this.logger.warn('EMAIL_TRACKING_ENABLED is set without EMAIL_TRACKING_SECRET; email tracking stays off.');
+    }
+    this.trackingEnabled = trackingRequested && Boolean(this.trackingSecret);
+  }
+
+  /** Also matches suppressions kept as a hash after a GDPR erasure. */
+  async findActiveSuppression(email: string) {
+    const suppression = await this.prisma.emailSuppression.findFirst({
+      where: {
+        email: { in: [normalizeEmailAddress(email), hashedSuppressionEmail(email)] },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+    return suppression ?? null;
+  }
+
+  /**
+   * Ingests events reported by the mail provider or an SMTP DSN relay. The body must be signed with
+   * `EMAIL_WEBHOOK_SECRET` (HMAC-SHA256, hex, optionally prefixed with `sha256=`).
+   */
+  async ingestEvents(body: unknown, signature: string | undefined, rawBody?: Buffer) {
+    if (!this.webhookSecret) {
+      throw new UnauthorizedException('EMAIL_WEBHOOK_NOT_CONFIGURED');
+    }
+    const payload = rawBody ?? Buffer.from(typeof body === 'string' ? body : JSON.stringify(body ?? {}), 'utf8');
+    if (!signature || !this.verifySignature(signature, payload)) {
+      throw new UnauthorizedException('EMAIL_WEBHOOK_SIGNATURE_INVALID');
+    }
+
+    let parsed: unknown = body;
+    if (typeof body === 'string' || Buffer.isBuffer(body)) {
+      try {
+        parsed = JSON.parse(body.toString());
+      } catch {
+        throw new BadRequestException('EMAIL_WEBHOOK_PAYLOAD_INVALID');
+      }
+    }
+
+    const events = parseEmailDeliveryEvents(parsed);
+    let suppressed = 0;
+    for (const event of events) {
+      try {
+        if (await this.recordEvent(event)) {
+          suppressed += 1;
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Unable to record ${event.type} event for ${event.recipient}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+    return { received: events.length, suppressed };
+  }
+
+  async trackOpen(emailId: string, signature: string) {
+    if (!this.trackingSecret || !verifyEmailTracking(this.trackingSecret, emailId, signature)) {
+      return;
+    }
+    await this.recordTrackingEvent(emailId, EmailDeliveryEventType.OPENED);
+  }
+
+  /** Returns the original link; the signature ties it to the email so the endpoint is not an open redirect. */
+  async trackClick(emailId: string, signature: string, url: string) {
+    if (!this.trackingSecret || !url || !verifyEmailTracking(this.trackingSecret, emailId, signature, url)) {
+      throw new NotFoundException('EMAIL_TRACKING_LINK_INVALID');
+    }
+    await this.recordTrackingEvent(emailId, EmailDeliveryEventType.CLICKED);
+    return url;
+  }
+
+  /** Adds the open pixel and click redirects to rendered HTML when tracking is enabled. */
+  decorateHtml(emailId: string, html: string) {
+    if (!this.trackingEnabled || !this.trackingSecret) {
+      return html;
+    }
+    return addEmailTracking(html, { apiBaseUrl: this.resolveApiBaseUrl(), emailId, secret: this.trackingSecret });
+  }
+
+  async listSuppressions(search?: string): Promise<AdminEmailSuppression[]> {
+    const term = search?.trim();
+    const suppressions = await this.prisma.emailSuppression.findMany({
+      where: term ? { email: { contains: term.toLowerCase() } } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+    return suppressions.map((suppression) => this.mapSuppression(suppression));
+  }
+
+  async addSuppression(
+    email: string,
+    details: string | undefined,
+    createdById: string
+  ): Promise<AdminEmailSuppression> {
+    const normalized = normalizeEmailAddress(email);
+    const suppression = await this.prisma.emailSuppression.upsert({
+      where: { email: normalized },
+      create: { email: normalized, reason: EmailSuppressionReason.MANUAL, details, createdById },
+      update: { reason: EmailSuppressionReason.MANUAL, details, expiresAt: null, createdById },
+    });
+    return this.mapSuppression(suppression);
+  }
+
+  async removeSuppression(email: string) {
+    const result = await this.prisma.emailSuppression.deleteMany({
+      where: { email: { in: [normalizeEmailAddress(email), hashedSuppressionEmail(email)] } },
+    });
+    if (!result.count) {
+      throw new NotFoundException('EMAIL_SUPPRESSION_NOT_FOUND');
+    }
+    return { success: true };
+  }
+
+  async getRecipientHistory(email: string): Promise<AdminEmailDeliveryHistory> {
+    const [suppression, emails] = await Promise.all([
+      this.findActiveSuppression(email),
+      this.prisma.emailQueue.findMany({
+        where: { to: { equals: email.trim(), mode: 'insensitive' } },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_LIMIT,
+        include: { events: { orderBy: { occurredAt: 'asc' } } },
+      }),
+    ]);
+
+    return {
+      suppression: suppression ? this.mapSuppression(suppression) : null,
+      emails: emails.map((entry) => ({
+        id: entry.id,
+        template: entry.template,
+        status: entry.status.toLowerCase() as EmailDeliveryStatus,
+        createdAt: entry.createdAt.toISOString(),
+        sentAt: entry.sentAt?.toISOString() ?? null,
+        deliveredAt: entry.deliveredAt?.toISOString() ?? null,
+        bouncedAt: entry.bouncedAt?.toISOString() ?? null,
+        openedAt: entry.openedAt?.toISOString() ?? null,
+        clickedAt: entry.clickedAt?.toISOString() ?? null,
+        error: entry.error ?? null,
+        events: entry.events.map((event) => ({
+          id: event.id,
+          type: event.type.toLowerCase() as DomainEmailDeliveryEventType,
+          bounceType: event.bounceType ?? null,
+          status: event.status ?? null,
+          reason: event.reason ?? null,
+          occurredAt: event.occurredAt.toISOString(),
+        })),
+      })),
+    };
+  }
+
+  /** Stores the event, stamps the queued email and returns true when the recipient got suppressed. */
+  private async recordEvent(event: EmailDeliveryEventInput) {
+    const email = event.emailId
+      ? await this.prisma.emailQueue.findUnique({ where: { id: event.emailId }, select: { id: true } })
+      : null;
+
+    await this.prisma.emailDeliveryEvent.create({
+      data: {
+        emailId: email?.id ?? null,
+        recipient: event.recipient,
+        type: event.type,
+        bounceType: event.bounceType,
+        status: event.status,
+        reason: event.reason,
+        occurredAt: event.occurredAt,
+      },
+    });
+    if (email) {
+      await this.stampEmail(email.id, event.type, event.occurredAt);
+    }
+
+    const recentSoftBounces =
+      event.type === EmailDeliveryEventType.BOUNCED && event.bounceType === 'soft'
+        ? await this.prisma.emailDeliveryEvent.count({
+            where: {
+              recipient: event.recipient,
+              type: EmailDeliveryEventType.BOUNCED,
+              bounceType: 'soft',
+              occurredAt: { gte: new Date(event.occurredAt.getTime() - SOFT_BOUNCE_WINDOW_DAYS * DAY_MS) },
+            },
+          })
+        : 0;
+    const reason = suppressionReasonFor(event, recentSoftBounces);
+    if (!reason) {
+      return false;
+    }
+
+    const existing = await this.prisma.emailSuppression.findUnique({ where: { email: event.recipient } });
+    if (existing?.reason === EmailSuppressionReason.MANUAL && !existing.expiresAt) {
+      return false;
+    }
+    const expiresAt =
+      reason === EmailSuppressionReason.SOFT_BOUNCE
+        ? new Date(event.occurredAt.getTime() + SOFT_BOUNCE_SUPPRESSION_DAYS * DAY_MS)
+        : null;
+    const details = [event.status, event.reason].filter(Boolean).join(' ') || null;
+    await this.prisma.emailSuppression.upsert({
+      where: { email: event.recipient },
+      create: { email: event.recipient, reason, details, expiresAt },
+      update: { reason, details, expiresAt },
+    });
+    this.logger.log(`Suppressed ${event.recipient} after ${reason.toLowerCase()}`);
+    return true;
+  }
+
+  private async recordTrackingEvent(emailId: string, type: EmailDeliveryEventType) {
+    const email = await this.prisma.emailQueue.findUnique({ where: { id: emailId }, select: { id: true, to: true } });
+    if (!email) {
+      return;
+    }
+    const occurredAt = new Date();
+    await this.prisma.emailDeliveryEvent.create({
+      data: { emailId: email.id, recipient: normalizeEmailAddress(email.to), type, occurredAt },
+    });
+    await this.stampEmail(email.id, type, occurredAt);
+  }
+
+  /** Keeps the first occurrence of each milestone on the queue row; repeated opens only add events. */
+  private async stampEmail(emailId: string, type: EmailDeliveryEventType, occurredAt: Date) {
+    const field = (
+      {
+        [EmailDeliveryEventType.DELIVERED]: 'deliveredAt',
+        [EmailDeliveryEventType.BOUNCED]: 'bouncedAt',
+        [EmailDeliveryEventType.OPENED]: 'openedAt',
+        [EmailDeliveryEventType.CLICKED]: 'clickedAt',
+      } as Partial<Record<EmailDeliveryEventType, 'deliveredAt' | 'bouncedAt' | 'openedAt' | 'clickedAt'>>
+    )[type];
+    if (!field) {
+      return;
+    }
+    await this.prisma.emailQueue.updateMany({
+      where: { id: emailId, [field]: null } as Prisma.EmailQueueWhereInput,
+      data: { [field]: occurredAt },
+    });
+  }
+
+  private verifySignature(signature: string, payload: Buffer) {
+    const trimmed = signature.trim();
+    const provided = Buffer.from(trimmed.startsWith('sha256=') ? trimmed : `sha256=${trimmed}`, 'utf8');
+    const expected = Buffer.from(
+      `sha256=${createHmac('sha256', this.webhookSecret as string).update(payload).digest('hex')}`,
+      'utf8'
+    );
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  }
+
+  private resolveApiBaseUrl() {
+    const apiUrl = this.configService.get('app.apiPublicUrl' as keyof AppEnvironmentConfig) as string | undefined;
+    const appUrl =
+      (this.configService.get('app.appUrl' as keyof AppEnvironmentConfig) as string | undefined) ??
+      'http://localhost:3000';
+    return (apiUrl ?? `${appUrl}/api`).replace(/\/$/, '');
+  }
+
+  private mapSuppression(suppression: EmailSuppression): AdminEmailSuppression {
+    return {
+      id: suppression.id,
+      email: suppression.email,
+      reason: suppression.reason.toLowerCase() as DomainEmailSuppressionReason,
+      details: suppression.details ?? null,
+      expiresAt: suppression.expiresAt?.toISOString() ?? null,
+      createdAt: suppression.createdAt.toISOString(),
+    };
+  }
+}
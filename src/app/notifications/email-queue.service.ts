@@ -6,6 +6,7 @@ import nodemailer from 'nodemailer';
 import { PrismaService } from '../../prisma/prisma.service';
 import type { AppEnvironmentConfig } from '../config/configuration';
 import { renderEmailTemplate } from './email-templates';
+import { EmailDeliveryService } from './email-delivery.service';
 
 interface EnqueueEmailOptions {
   to: string;
@@ -16,7 +17,7 @@ interface EnqueueEmailOptions {
 
 interface EmailDispatcherAdapter {
   sendEmail:
-    | ((options: { to: string; template: string; payload: Record<string, unknown> }) => Promise<void>)
+    | ((options: { id: string; to: string; template: string; payload: Record<string, unknown> }) => Promise<void>)
     | null;
 }
 
@@ -28,21 +29,22 @@ export class EmailQueueService {
 
   constructor(
     private readonly prisma: PrismaService,
-    configService: ConfigService<AppEnvironmentConfig>
+    configService: ConfigService<AppEnvironmentConfig>,
+    private readonly delivery: EmailDeliveryService
   ) {
     const providerUrl = configService.get('app.emailProviderUrl' as keyof AppEnvironmentConfig);
     const providerToken = configService.get('app.emailProviderToken' as keyof AppEnvironmentConfig);
 
     if (providerUrl) {
       this.dispatcher = {
-        sendEmail: async ({ to, template, payload }) => {
+        sendEmail: async ({ id, to, template, payload }) => {
           const response = await fetch(String(providerUrl), {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
               ...(providerToken ? { Authorization: `Bearer ${providerToken}` } : {}),
             },
-            body: JSON.stringify({ to, template, payload }),
+            body: JSON.stringify({ emailId: id, to, template, payload }),
           });
           if (!response.ok) {
             const message = await response.text();
@@ -70,7 +72,7 @@ export class EmailQueueService {
         });
 
         this.dispatcher = {
-          sendEmail: async ({ to, template, payload }) => {
+          sendEmail: async ({ id, to, template, payload }) => {
             const rendered = renderEmailTemplate(template, payload);
             if (!rendered) {
               throw new Error(`EMAIL_TEMPLATE_NOT_IMPLEMENTED:${template}`);
@@ -81,7 +83,9 @@ export class EmailQueueService {
               to,
               subject: rendered.subject,
               text: rendered.text,
-              html: rendered.html,
+              html: this.delivery.decorateHtml(id, rendered.html),
+              // Echoed back in DSN reports so delivery events can be matched to the queued email.
+              headers: { 'X-Saubio-Email-Id': id },
             });
           },
         };
@@ -95,12 +99,16 @@ export class EmailQueueService {
 
   async enqueue(options: EnqueueEmailOptions) {
     try {
+      const suppression = await this.delivery.findActiveSuppression(options.to);
       await this.prisma.emailQueue.create({
         data: {
           to: options.to,
           template: options.template,
           payload: options.payload as Prisma.JsonValue,
           scheduledAt: options.scheduledAt,
+          ...(suppression
+            ? { status: EmailQueueStatus.SUPPRESSED, error: `EMAIL_SUPPRESSED:${suppression.reason}` }
+            : {}),
         },
       });
     } catch (error) {
@@ -149,7 +157,17 @@ export class EmailQueueService {
             throw new Error('EMAIL_DISPATCHER_NOT_CONFIGURED');
           }
 
+          const suppression = await this.delivery.findActiveSuppression(email.to);
+          if (suppression) {
+            await this.prisma.emailQueue.update({
+              where: { id: email.id },
+              data: { status: EmailQueueStatus.SUPPRESSED, error: `EMAIL_SUPPRESSED:${suppression.reason}` },
+            });
+            continue;
+          }
+
           await this.dispatcher.sendEmail({
+            id: email.id,
             to: email.to,
             template: email.template,
             payload: email.payload as Record<string, unknown>,
@@ -0,0 +1,44 @@
+import { renderEmailTemplate } from './email-templates';
+
+describe('email-templates', () => {
+  it('escapes the referrer name and message in referral invites', () => {
+    const rendered = renderEmailTemplate('marketing.referral_invite', {
+      locale: 'en',
+      actionUrl: 'https://saubio.de/register?ref=ABC123',
+      code: 'ABC123',
+      referrerName: '<a href="https://evil.example">Support</a>',
+      message: 'Click <b>here</b> & "win"',
+    });
+
+    expect(rendered?.html).not.toContain('<a href="https://evil.example">');
+    expect(rendered?.html).toContain('&lt;a href=&quot;https://evil.example&quot;&gt;Support&lt;/a&gt;');
+    expect(rendered?.html).toContain('Click &lt;b&gt;here&lt;/b&gt; &amp; &quot;win&quot;');
+    expect(rendered?.text).toContain('<a href="https://evil.example">Support</a> books cleaning');
+  });
+
+  it('escapes the company and inviter names in company invitations', () => {
+    const rendered = renderEmailTemplate('company.invitation', {
+      locale: 'de',
+      actionUrl: 'https://saubio.de/company/invitations/token',
+      companyName: 'Acme <img src=x onerror=alert(1)>',
+      inviterName: '<script>alert(1)</script>',
+    });
+
+    expect(rendered?.html).not.toMatch(/<script|<img/);
+    expect(rendered?.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; lädt Sie ein');
+    expect(rendered?.html).toContain('für Acme &lt;img src=x onerror=alert(1)&gt; zu buchen');
+  });
+
+  it('escapes the first name and the open pixel URL in campaigns', () => {
+    const rendered = renderEmailTemplate('marketing.campaign', {
+      subject: 'Spring cleaning',
+      content: 'Ten percent off this week.',
+      firstName: '<b>Anna</b>',
+      unsubscribeUrl: 'https://saubio.de/unsubscribe/token',
+      openPixelUrl: 'https://saubio.de/t/open?c=1&r=2" onload="alert(1)',
+    });
+
+    expect(rendered?.html).toContain('&lt;b&gt;Anna&lt;/b&gt;');
+    expect(rendered?.html).toContain('<img src="https://saubio.de/t/open?c=1&amp;r=2&quot; onload=&quot;alert(1)"');
+  });
+});
@@ -16,6 +16,14 @@ const templateRenderers: Record<string, TemplateRenderer> = {
   'booking.short_notice.confirmed': renderShortNoticeConfirmed,
   'billing.invoice.generated': renderInvoiceGenerated,
   'booking.payment.confirmed': renderPaymentConfirmed,
+  'notification.automation': renderAutomationEmail,
+  'notification.digest': renderNotificationDigest,
+  'auth.password_reset': (payload) => renderAuthLinkEmail(payload, 'passwordReset'),
+  'auth.email_verification': (payload) => renderAuthLinkEmail(payload, 'emailVerification'),
+  'company.invitation': renderCompanyInvitation,
+  'company.invoice.generated': renderCompanyInvoiceGenerated,
+  'marketing.referral_invite': renderReferralInvite,
+  'marketing.campaign': renderMarketingCampaign,
 };
 
 export function renderEmailTemplate(template: string, payload: Record<string, unknown>) {
@@ -98,10 +106,38 @@ function formatMoney(payload: Record<string, unknown>) {
   }
 }
 
-function paragraphsToHtml(text: string) {
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Names, messages and links in the payloads are user-controlled, so every paragraph is escaped before it becomes
+ * HTML. Only the links a renderer passes in are turned into anchors (which click tracking then rewrites); URLs typed
+ * into free text stay plain text.
+ */
+function paragraphsToHtml(text: string, links: Array<string | null | undefined> = []) {
+  const web = links.filter((link): link is string => Boolean(link && /^https?:\/\//i.test(link)));
+  const anchors = Array.from(new Set(web))
+    .map(escapeHtml)
+    .sort((a, b) => b.length - a.length);
+  const pattern = anchors.length
+    ? new RegExp(anchors.map((link) => link.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'g')
+    : null;
   return text
     .split('\n\n')
-    .map((paragraph) => `<p>${paragraph.replace(/\n/g, '<br />')}</p>`)
+    .map((paragraph) => {
+      const escaped = escapeHtml(paragraph);
+      const linked = pattern ? escaped.replace(pattern, (link) => `<a href="${link}">${link}</a>`) : escaped;
+      return `<p>${linked.replace(/\n/g, '<br />')}</p>`;
+    })
     .join('');
 }
 
@@ -119,7 +155,7 @@ function renderClientWelcome(payload: Record<string, unknown>): RenderedEmailTem
   ];
 
   const text = paragraphs.join('\n\n');
-  const html = paragraphsToHtml(text);
+  const html = paragraphsToHtml(text, [dashboardUrl]);
   return { subject, text, html };
 }
 
@@ -204,7 +240,7 @@ function renderShortNoticeConfirmed(payload: Record<string, unknown>): RenderedE
   ].filter(Boolean) as string[];
 
   const text = paragraphs.join('\n\n');
-  const html = paragraphsToHtml(text);
+  const html = paragraphsToHtml(text, [invoiceUrl]);
   return { subject, text, html };
 }
 
@@ -231,7 +267,7 @@ function renderInvoiceGenerated(payload: Record<string, unknown>): RenderedEmail
   ];
 
   const text = paragraphs.join('\n\n');
-  const html = paragraphsToHtml(text);
+  const html = paragraphsToHtml(text, [invoiceUrl]);
   return { subject, text, html };
 }
 
@@ -259,3 +295,406 @@ function renderPaymentConfirmed(payload: Record<string, unknown>): RenderedEmail
   const html = paragraphsToHtml(text);
   return { subject, text, html };
 }
+
+function renderAutomationEmail(payload: Record<string, unknown>): RenderedEmailTemplate | null {
+  const subject = stringValue(payload.subject) ?? stringValue(payload.title);
+  const body = stringValue(payload.body);
+  if (!subject || !body) {
+    return null;
+  }
+  const text = [body, '— Équipe Saubio'].join('\n\n');
+  const html = paragraphsToHtml(text);
+  return { subject, text, html };
+}
+
+type DigestCopy = {
+  subject: Record<'daily' | 'weekly', string>;
+  greeting: (name: string) => string;
+  intro: (total: number) => string;
+  cta: (url: string) => string;
+  signature: string;
+  types: Record<string, string>;
+};
+
+const DIGEST_COPY: Record<'fr' | 'de' | 'en', DigestCopy> = {
+  fr: {
+    subject: { daily: 'Votre résumé quotidien Saubio', weekly: 'Votre résumé hebdomadaire Saubio' },
+    greeting: (name) => `Bonjour ${name},`,
+    intro: (total) => `Vous avez ${total} notification(s) non lue(s) :`,
+    cta: (url) => `Retrouvez le détail dans votre espace : ${url}`,
+    signature: '— Équipe Saubio',
+    types: {
+      BOOKING_STATUS: 'Réservations',
+      BOOKING_ASSIGNMENT: 'Affectations',
+      BOOKING_CANCELLATION: 'Annulations',
+      BILLING: 'Facturation',
+      SUPPORT_UPDATE: 'Support',
+      MATCHING_PROGRESS: 'Recherche de prestataire',
+      IDENTITY_VERIFICATION: 'Vérification d’identité',
+      COMPLIANCE: 'Conformité',
+    },
+  },
+  de: {
+    subject: { daily: 'Ihre tägliche Saubio-Zusammenfassung', weekly: 'Ihre wöchentliche Saubio-Zusammenfassung' },
+    greeting: (name) => `Hallo ${name},`,
+    intro: (total) => `Sie haben ${total} ungelesene Benachrichtigung(en):`,
+    cta: (url) => `Alle Details finden Sie in Ihrem Konto: ${url}`,
+    signature: '— Ihr Saubio-Team',
+    types: {
+      BOOKING_STATUS: 'Buchungen',
+      BOOKING_ASSIGNMENT: 'Zuweisungen',
+      BOOKING_CANCELLATION: 'Stornierungen',
+      BILLING: 'Abrechnung',
+      SUPPORT_UPDATE: 'Support',
+      MATCHING_PROGRESS: 'Anbietersuche',
+      IDENTITY_VERIFICATION: 'Identitätsprüfung',
+      COMPLIANCE: 'Compliance',
+    },
+  },
+  en: {
+    subject: { daily: 'Your daily Saubio summary', weekly: 'Your weekly Saubio summary' },
+    greeting: (name) => `Hello ${name},`,
+    intro: (total) => `You have ${total} unread notification(s):`,
+    cta: (url) => `See the details in your account: ${url}`,
+    signature: '— The Saubio team',
+    types: {
+      BOOKING_STATUS: 'Bookings',
+      BOOKING_ASSIGNMENT: 'Assignments',
+      BOOKING_CANCELLATION: 'Cancellations',
+      BILLING: 'Billing',
+      SUPPORT_UPDATE: 'Support',
+      MATCHING_PROGRESS: 'Provider matching',
+      IDENTITY_VERIFICATION: 'Identity verification',
+      COMPLIANCE: 'Compliance',
+    },
+  },
+};
+
+function renderNotificationDigest(payload: Record<string, unknown>): RenderedEmailTemplate | null {
+  const groups = Array.isArray(payload.groups) ? (payload.groups as Array<Record<string, unknown>>) : [];
+  if (!groups.length) {
+    return null;
+  }
+  const locale = (stringValue(payload.locale) ?? 'fr').slice(0, 2).toLowerCase();
+  const copy = DIGEST_COPY[locale as keyof typeof DIGEST_COPY] ?? DIGEST_COPY.fr;
+  const frequency = payload.frequency === 'daily' ? 'daily' : 'weekly';
+  const firstName = stringValue(payload.firstName) ?? 'Saubio';
+  const appUrl = stringValue(payload.appUrl) ?? 'http://localhost:4200';
+  const total = typeof payload.total === 'number' ? payload.total : groups.length;
+
+  const sections = groups.map((group) => {
+    const type = stringValue(group.type) ?? '';
+    const items = Array.isArray(group.items) ? group.items.filter((item) => typeof item === 'string') : [];
+    const heading = `${copy.types[type] ?? type} (${typeof group.count === 'number' ? group.count : items.length})`;
+    return [heading, ...items.map((item) => `- ${item}`)].join('\n');
+  });
+
+  const paragraphs = [
+    copy.greeting(firstName),
+    copy.intro(total),
+    ...sections,
+    copy.cta(appUrl),
+    copy.signature,
+  ];
+  const text = paragraphs.join('\n\n');
+  const html = paragraphsToHtml(text, [appUrl]);
+  return { subject: copy.subject[frequency], text, html };
+}
+
+type AuthLinkEmailKind = 'passwordReset' | 'emailVerification';
+
+interface AuthLinkEmailCopy {
+  subject: string;
+  intro: string;
+  cta: (url: string) => string;
+  expiry: (payload: Record<string, unknown>) => string;
+  ignore: string;
+}
+
+const AUTH_LINK_COPY: Record<
+  'fr' | 'de' | 'en',
+  { greeting: (name: string) => string; signature: string } & Record<AuthLinkEmailKind, AuthLinkEmailCopy>
+> = {
+  fr: {
+    greeting: (name) => `Bonjour ${name},`,
+    signature: '— Équipe Saubio',
+    passwordReset: {
+      subject: 'Réinitialisation de votre mot de passe Saubio',
+      intro: 'Nous avons reçu une demande de réinitialisation du mot de passe de votre compte.',
+      cta: (url) => `Choisissez un nouveau mot de passe ici : ${url}`,
+      expiry: (payload) => `Ce lien est valable ${numberOr(payload.expiresInMinutes, 60)} minutes et ne peut servir qu’une fois.`,
+      ignore: 'Si vous n’êtes pas à l’origine de cette demande, ignorez cet e-mail : votre mot de passe reste inchangé.',
+    },
+    emailVerification: {
+      subject: 'Confirmez votre adresse e-mail Saubio',
+      intro: 'Merci de confirmer votre adresse e-mail pour pouvoir réserver vos prestations.',
+      cta: (url) => `Confirmer mon adresse : ${url}`,
+      expiry: (payload) => `Ce lien est valable ${numberOr(payload.expiresInHours, 48)} heures.`,
+      ignore: 'Si vous n’avez pas créé de compte Saubio, vous pouvez ignorer cet e-mail.',
+    },
+  },
+  de: {
+    greeting: (name) => `Hallo ${name},`,
+    signature: '— Ihr Saubio-Team',
+    passwordReset: {
+      subject: 'Ihr Saubio-Passwort zurücksetzen',
+      intro: 'Wir haben eine Anfrage zum Zurücksetzen des Passworts für Ihr Konto erhalten.',
+      cta: (url) => `Neues Passwort festlegen: ${url}`,
+      expiry: (payload) => `Der Link ist ${numberOr(payload.expiresInMinutes, 60)} Minuten gültig und kann nur einmal verwendet werden.`,
+      ignore: 'Falls Sie diese Anfrage nicht gestellt haben, ignorieren Sie diese E-Mail – Ihr Passwort bleibt unverändert.',
+    },
+    emailVerification: {
+      subject: 'Bestätigen Sie Ihre E-Mail-Adresse bei Saubio',
+      intro: 'Bitte bestätigen Sie Ihre E-Mail-Adresse, damit Sie Leistungen buchen können.',
+      cta: (url) => `Adresse bestätigen: ${url}`,
+      expiry: (payload) => `Der Link ist ${numberOr(payload.expiresInHours, 48)} Stunden gültig.`,
+      ignore: 'Falls Sie kein Saubio-Konto angelegt haben, können Sie diese E-Mail ignorieren.',
+    },
+  },
+  en: {
+    greeting: (name) => `Hello ${name},`,
+    signature: '— The Saubio team',
+    passwordReset: {
+      subject: 'Reset your Saubio password',
+      intro: 'We received a request to reset the password of your account.',
+      cta: (url) => `Choose a new password here: ${url}`,
+      expiry: (payload) => `This link is valid for ${numberOr(payload.expiresInMinutes, 60)} minutes and can only be used once.`,
+      ignore: 'If you did not request this, ignore this email – your password stays unchanged.',
+    },
+    emailVerification: {
+      subject: 'Confirm your Saubio email address',
+      intro: 'Please confirm your email address so you can book services.',
+      cta: (url) => `Confirm my address: ${url}`,
+      expiry: (payload) => `This link is valid for ${numberOr(payload.expiresInHours, 48)} hours.`,
+      ignore: 'If you did not create a Saubio account, you can ignore this email.',
+    },
+  },
+};
+
+function renderAuthLinkEmail(payload: Record<string, unknown>, kind: AuthLinkEmailKind): RenderedEmailTemplate | null {
+  const actionUrl = stringValue(payload.actionUrl);
+  if (!actionUrl) {
+    return null;
+  }
+  const locale = (stringValue(payload.locale) ?? 'fr').slice(0, 2).toLowerCase();
+  const copy = AUTH_LINK_COPY[locale as keyof typeof AUTH_LINK_COPY] ?? AUTH_LINK_COPY.fr;
+  const section = copy[kind];
+
+  const paragraphs = [
+    copy.greeting(stringValue(payload.firstName) ?? 'Saubio'),
+    section.intro,
+    section.cta(actionUrl),
+    section.expiry(payload),
+    section.ignore,
+    copy.signature,
+  ];
+  const text = paragraphs.join('\n\n');
+  const html = paragraphsToHtml(text, [actionUrl]);
+  return { subject: section.subject, text, html };
+}
+
+function numberOr(value: unknown, fallback: number) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+const COMPANY_COPY: Record<
+  'fr' | 'de' | 'en',
+  {
+    greeting: string;
+    signature: string;
+    invitationSubject: (company: string) => string;
+    invitationIntro: (inviter: string, company: string) => string;
+    invitationCta: (url: string) => string;
+    invitationExpiry: (days: number) => string;
+    invoiceSubject: (invoiceNumber: string) => string;
+    invoiceIntro: (company: string, period: string, amount: string) => string;
+    invoiceDownload: (url: string) => string;
+    invoiceFallback: string;
+  }
+> = {
+  fr: {
+    greeting: 'Bonjour,',
+    signature: '— Équipe Saubio',
+    invitationSubject: (company) => `Invitation à rejoindre ${company} sur Saubio`,
+    invitationIntro: (inviter, company) => `${inviter} vous invite à réserver des prestations pour ${company} sur Saubio.`,
+    invitationCta: (url) => `Accepter l’invitation : ${url}`,
+    invitationExpiry: (days) => `L’invitation est valable ${days} jours. Connectez-vous ou créez un compte avec cette adresse e-mail pour l’accepter.`,
+    invoiceSubject: (invoiceNumber) => `Votre facture mensuelle ${invoiceNumber}`,
+    invoiceIntro: (company, period, amount) => `La facture récapitulative de ${company} pour ${period} est disponible (${amount}).`,
+    invoiceDownload: (url) => `Téléchargez-la ici : ${url}`,
+    invoiceFallback: 'Elle est disponible depuis votre espace entreprise.',
+  },
+  de: {
+    greeting: 'Guten Tag,',
+    signature: '— Ihr Saubio-Team',
+    invitationSubject: (company) => `Einladung zu ${company} bei Saubio`,
+    invitationIntro: (inviter, company) => `${inviter} lädt Sie ein, bei Saubio Leistungen für ${company} zu buchen.`,
+    invitationCta: (url) => `Einladung annehmen: ${url}`,
+    invitationExpiry: (days) => `Die Einladung ist ${days} Tage gültig. Melden Sie sich mit dieser E-Mail-Adresse an oder registrieren Sie sich, um sie anzunehmen.`,
+    invoiceSubject: (invoiceNumber) => `Ihre Sammelrechnung ${invoiceNumber}`,
+    invoiceIntro: (company, period, amount) => `Die Sammelrechnung für ${company} für ${period} liegt vor (${amount}).`,
+    invoiceDownload: (url) => `Hier herunterladen: ${url}`,
+    invoiceFallback: 'Sie finden sie in Ihrem Unternehmensbereich.',
+  },
+  en: {
+    greeting: 'Hello,',
+    signature: '— The Saubio team',
+    invitationSubject: (company) => `Invitation to join ${company} on Saubio`,
+    invitationIntro: (inviter, company) => `${inviter} invited you to book services for ${company} on Saubio.`,
+    invitationCta: (url) => `Accept the invitation: ${url}`,
+    invitationExpiry: (days) => `The invitation is valid for ${days} days. Sign in or create an account with this email address to accept it.`,
+    invoiceSubject: (invoiceNumber) => `Your monthly invoice ${invoiceNumber}`,
+    invoiceIntro: (company, period, amount) => `The consolidated invoice of ${company} for ${period} is ready (${amount}).`,
+    invoiceDownload: (url) => `Download it here: ${url}`,
+    invoiceFallback: 'It is available in your company area.',
+  },
+};
+
+function companyCopy(payload: Record<string, unknown>) {
+  const locale = (stringValue(payload.locale) ?? 'de').slice(0, 2).toLowerCase();
+  return COMPANY_COPY[locale as keyof typeof COMPANY_COPY] ?? COMPANY_COPY.de;
+}
+
+function renderCompanyInvitation(payload: Record<string, unknown>): RenderedEmailTemplate | null {
+  const actionUrl = stringValue(payload.actionUrl);
+  const companyName = stringValue(payload.companyName);
+  if (!actionUrl || !companyName) {
+    return null;
+  }
+  const copy = companyCopy(payload);
+  const paragraphs = [
+    copy.greeting,
+    copy.invitationIntro(stringValue(payload.inviterName) ?? 'Saubio', companyName),
+    copy.invitationCta(actionUrl),
+    copy.invitationExpiry(numberOr(payload.expiresInDays, 7)),
+    copy.signature,
+  ];
+  const text = paragraphs.join('\n\n');
+  return { subject: copy.invitationSubject(companyName), text, html: paragraphsToHtml(text, [actionUrl]) };
+}
+
+function renderCompanyInvoiceGenerated(payload: Record<string, unknown>): RenderedEmailTemplate | null {
+  const invoiceNumber = stringValue(payload.invoiceNumber);
+  if (!invoiceNumber) {
+    return null;
+  }
+  const copy = companyCopy(payload);
+  const periodStart = stringValue(payload.periodStart);
+  const period = periodStart ? periodStart.slice(0, 7) : '';
+  const documentUrl = stringValue(payload.documentUrl);
+  const paragraphs = [
+    copy.greeting,
+    copy.invoiceIntro(stringValue(payload.companyName) ?? 'Saubio', period, formatMoney(payload) ?? ''),
+    documentUrl ? copy.invoiceDownload(documentUrl) : copy.invoiceFallback,
+    copy.signature,
+  ];
+  const text = paragraphs.join('\n\n');
+  return { subject: copy.invoiceSubject(invoiceNumber), text, html: paragraphsToHtml(text, [documentUrl]) };
+}
+
+const REFERRAL_COPY: Record<
+  'fr' | 'de' | 'en',
+  {
+    greeting: string;
+    signature: string;
+    subject: (referrer: string) => string;
+    intro: (referrer: string) => string;
+    reward: (amount: string) => string;
+    cta: (url: string, code: string) => string;
+  }
+> = {
+  fr: {
+    greeting: 'Bonjour,',
+    signature: '— Équipe Saubio',
+    subject: (referrer) => `${referrer} vous invite sur Saubio`,
+    intro: (referrer) => `${referrer} utilise Saubio pour le ménage et pense que le service vous plaira aussi.`,
+    reward: (amount) => `Après votre première prestation payée, vous recevez tous les deux ${amount} en points fidélité.`,
+    cta: (url, code) => `Créez votre compte ici : ${url} (code de parrainage ${code})`,
+  },
+  de: {
+    greeting: 'Hallo,',
+    signature: '— Ihr Saubio-Team',
+    subject: (referrer) => `${referrer} lädt Sie zu Saubio ein`,
+    intro: (referrer) => `${referrer} bucht Reinigungen über Saubio und denkt, dass es Ihnen auch gefallen wird.`,
+    reward: (amount) => `Nach Ihrer ersten bezahlten Buchung erhalten Sie beide ${amount} als Treuepunkte.`,
+    cta: (url, code) => `Hier registrieren: ${url} (Empfehlungscode ${code})`,
+  },
+  en: {
+    greeting: 'Hello,',
+    signature: '— The Saubio team',
+    subject: (referrer) => `${referrer} invited you to Saubio`,
+    intro: (referrer) => `${referrer} books cleaning through Saubio and thinks you will like it too.`,
+    reward: (amount) => `Once your first booking is paid, you both receive ${amount} in loyalty points.`,
+    cta: (url, code) => `Create your account here: ${url} (referral code ${code})`,
+  },
+};
+
+function renderReferralInvite(payload: Record<string, unknown>): RenderedEmailTemplate | null {
+  const actionUrl = stringValue(payload.actionUrl);
+  const code = stringValue(payload.code);
+  if (!actionUrl || !code) {
+    return null;
+  }
+  const locale = (stringValue(payload.locale) ?? 'de').slice(0, 2).toLowerCase();
+  const copy = REFERRAL_COPY[locale as keyof typeof REFERRAL_COPY] ?? REFERRAL_COPY.de;
+  const referrer = stringValue(payload.referrerName) ?? 'Saubio';
+  const amount = formatMoney(payload);
+  const message = stringValue(payload.message)?.trim();
+  const paragraphs = [
+    copy.greeting,
+    copy.intro(referrer),
+    ...(message ? [`« ${message} »`] : []),
+    ...(amount ? [copy.reward(amount)] : []),
+    copy.cta(actionUrl, code),
+    copy.signature,
+  ];
+  const text = paragraphs.join('\n\n');
+  return { subject: copy.subject(referrer), text, html: paragraphsToHtml(text, [actionUrl]) };
+}
+
+const CAMPAIGN_FOOTER_COPY: Record<
+  'fr' | 'de' | 'en',
+  {
+    greeting: (name: string) => string;
+    cta: (label: string, url: string) => string;
+    unsubscribe: (url: string) => string;
+  }
+> = {
+  fr: {
+    greeting: (name) => `Bonjour ${name},`,
+    cta: (label, url) => `${label} : ${url}`,
+    unsubscribe: (url) => `Vous ne souhaitez plus recevoir nos offres ? Se désinscrire : ${url}`,
+  },
+  de: {
+    greeting: (name) => `Hallo ${name},`,
+    cta: (label, url) => `${label}: ${url}`,
+    unsubscribe: (url) => `Sie möchten keine Angebote mehr erhalten? Hier abmelden: ${url}`,
+  },
+  en: {
+    greeting: (name) => `Hello ${name},`,
+    cta: (label, url) => `${label}: ${url}`,
+    unsubscribe: (url) => `Don't want these emails anymore? Unsubscribe: ${url}`,
+  },
+};
+
+function renderMarketingCampaign(payload: Record<string, unknown>): RenderedEmailTemplate | null {
+  const subject = stringValue(payload.subject);
+  const content = stringValue(payload.content);
+  const unsubscribeUrl = stringValue(payload.unsubscribeUrl);
+  if (!subject || !content || !unsubscribeUrl) {
+    return null;
+  }
+  const locale = (stringValue(payload.locale) ?? 'de').slice(0, 2).toLowerCase();
+  const copy = CAMPAIGN_FOOTER_COPY[locale as keyof typeof CAMPAIGN_FOOTER_COPY] ?? CAMPAIGN_FOOTER_COPY.de;
+  const ctaUrl = stringValue(payload.ctaUrl);
+  const paragraphs = [
+    copy.greeting(stringValue(payload.firstName) ?? 'Saubio'),
+    content.replace(/[<>]/g, '').trim(),
+    ...(ctaUrl ? [copy.cta(stringValue(payload.ctaLabel) ?? 'Saubio', ctaUrl)] : []),
+    copy.unsubscribe(unsubscribeUrl),
+  ];
+  const text = paragraphs.join('\n\n');
+  const openPixelUrl = stringValue(payload.openPixelUrl);
+  const pixel = openPixelUrl ? `<img src="${escapeHtml(openPixelUrl)}" width="1" height="1" alt="" />` : '';
+  return { subject, text, html: `${paragraphsToHtml(text, [ctaUrl, unsubscribeUrl])}${pixel}` };
+}
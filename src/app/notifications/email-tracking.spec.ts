@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { EmailDeliveryService } from './email-delivery.service';
+import { renderEmailTemplate } from './email-templates';
+import { addEmailTracking, signEmailTracking, verifyEmailTracking } from './email-tracking';
+
+describe('email-tracking', () => {
+  const options = { apiBaseUrl: 'https://api.saubio.de/api', emailId: 'email-1', secret: 'tracking-secret' };
+
+  it('rewrites external links and appends the open pixel', () => {
+    const html = addEmailTracking(
+      '<body><a href="https://saubio.de/bookings?id=1&amp;tab=2">Open</a><a href="https://api.saubio.de/api/marketing/track/click/t">CTA</a></body>',
+      options
+    );
+    const signature = signEmailTracking('tracking-secret', 'email-1', 'https://saubio.de/bookings?id=1&tab=2');
+
+    expect(html).toContain(
+      `href="https://api.saubio.de/api/notifications/email/click/email-1/${signature}?url=${encodeURIComponent(
+        'https://saubio.de/bookings?id=1&tab=2'
+      )}"`
+    );
+    expect(html).toContain('href="https://api.saubio.de/api/marketing/track/click/t"');
+    expect(html).toMatch(/<img src="https:\/\/api\.saubio\.de\/api\/notifications\/email\/open\/email-1\/[\w-]+"[^>]*\/><\/body>$/);
+  });
+
+  it('binds click signatures to the target url', () => {
+    const signature = signEmailTracking('tracking-secret', 'email-1', 'https://saubio.de');
+
+    expect(verifyEmailTracking('tracking-secret', 'email-1', signature, 'https://saubio.de')).toBe(true);
+    expect(verifyEmailTracking('tracking-secret', 'email-1', signature, 'https://evil.example')).toBe(false);
+    expect(verifyEmailTracking('tracking-secret', 'email-2', signature, 'https://saubio.de')).toBe(false);
+  });
+
+  it('tracks the links of a rendered template but not URLs typed into free text', () => {
+    const rendered = renderEmailTemplate('marketing.referral_invite', {
+      locale: 'en',
+      actionUrl: 'https://saubio.de/register?ref=ANNA42',
+      code: 'ANNA42',
+      referrerName: 'Anna',
+      message: 'See https://evil.example',
+    });
+    const html = addEmailTracking(rendered!.html, options);
+    const signature = signEmailTracking('tracking-secret', 'email-1', 'https://saubio.de/register?ref=ANNA42');
+
+    expect(html).toContain(
+      `<a href="https://api.saubio.de/api/notifications/email/click/email-1/${signature}?url=${encodeURIComponent(
+        'https://saubio.de/register?ref=ANNA42'
+      )}">https://saubio.de/register?ref=ANNA42</a>`
+    );
+    expect(html).not.toContain('href="https://evil.example');
+  });
+
+  it('stays off without a dedicated tracking secret', async () => {
+    const config = (values: Record<string, unknown>) =>
+      ({ get: jest.fn((key: string) => values[key]) }) as unknown as ConfigService<AppEnvironmentConfig>;
+    const prisma = {} as PrismaService;
+
+    const withoutSecret = new EmailDeliveryService(
+      prisma,
+      config({ 'app.emailTrackingEnabled': true, 'app.emailWebhookSecret': 'webhook-secret-0123456789' })
+    );
+    expect(withoutSecret.decorateHtml('email-1', '<p>Hi</p>')).toBe('<p>Hi</p>');
+    const forged = signEmailTracking('webhook-secret-0123456789', 'email-1', 'https://x.de');
+    await expect(withoutSecret.trackClick('email-1', forged, 'https://x.de')).rejects.toThrow(
+      'EMAIL_TRACKING_LINK_INVALID'
+    );
+
+    const withSecret = new EmailDeliveryService(
+      prisma,
+      config({ 'app.emailTrackingEnabled': true, 'app.emailTrackingSecret': 'tracking-secret' })
+    );
+    expect(withSecret.decorateHtml('email-1', '<p>Hi</p>')).toContain('/notifications/email/open/email-1/');
+  });
+});
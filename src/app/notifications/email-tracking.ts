@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** Signs the email id (and the target URL for clicks) so tracking links cannot be forged or turned into open redirects. */
+export function signEmailTracking(secret: string, emailId: string, url?: string) {
+  return createHmac('sha256', secret)
+    .update(url ? `${emailId}|${url}` : emailId)
+    .digest('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function verifyEmailTracking(secret: string, emailId: string, signature: string, url?: string) {
+  const expected = Buffer.from(signEmailTracking(secret, emailId, url), 'utf8');
+  const provided = Buffer.from(signature, 'utf8');
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Rewrites absolute http(s) links through the click endpoint and appends the open pixel. Links that already
+ * point at the API (campaign tracking, unsubscribe) are left alone.
+ */
+export function addEmailTracking(
+  html: string,
+  options: { apiBaseUrl: string; emailId: string; secret: string }
+): string {
+  const { apiBaseUrl, emailId, secret } = options;
+  const baseUrl = `${apiBaseUrl}/notifications/email`;
+  const withLinks = html.replace(/href="(https?:\/\/[^"]+)"/gi, (match, url: string) => {
+    const target = decodeHtmlAttribute(url);
+    if (target.startsWith(apiBaseUrl)) {
+      return match;
+    }
+    const signature = signEmailTracking(secret, emailId, target);
+    const tracked = `${baseUrl}/click/${emailId}/${signature}?url=${encodeURIComponent(target)}`;
+    return `href="${tracked}"`;
+  });
+  const pixel = `<img src="${baseUrl}/open/${emailId}/${signEmailTracking(secret, emailId)}" width="1" height="1" alt="" style="display:none" />`;
+  return withLinks.includes('</body>') ? withLinks.replace('</body>', `${pixel}</body>`) : `${withLinks}${pixel}`;
+}
+
+function decodeHtmlAttribute(value: string) {
+  return value.replace(/&amp;/g, '&');
+}
@@ -0,0 +1,36 @@
+import { evaluateAutomationConditions, renderAutomationContent } from './notification-automation.rules';
+
+describe('notification automation rules', () => {
+  const context = {
+    event: 'booking_confirmed',
+    booking: { service: 'office', city: 'Berlin', totalCents: 12900, shortNotice: false },
+  };
+
+  it('matches scalar, operator and combined conditions', () => {
+    expect(evaluateAutomationConditions(null, context)).toBe(true);
+    expect(evaluateAutomationConditions({ 'booking.service': 'OFFICE' }, context)).toBe(true);
+    expect(evaluateAutomationConditions({ 'booking.totalCents': { gte: 10000, lt: 20000 } }, context)).toBe(true);
+    expect(evaluateAutomationConditions({ 'booking.city': { in: ['Hamburg', 'München'] } }, context)).toBe(false);
+    expect(
+      evaluateAutomationConditions(
+        { any: [{ 'booking.shortNotice': true }, { 'booking.city': 'berlin' }], not: { 'booking.service': 'windows' } },
+        context
+      )
+    ).toBe(true);
+    expect(evaluateAutomationConditions({ 'payment.status': { exists: true } }, context)).toBe(false);
+  });
+
+  it('renders localized template content with placeholders', () => {
+    const metadata = {
+      title: 'Booking {{booking.service}}',
+      body: 'See you in {{booking.city}}',
+      translations: { fr: { title: 'Réservation {{ booking.service }}' } },
+    };
+    expect(renderAutomationContent(metadata, 'fr', context, { title: 'x', body: 'y' })).toEqual({
+      title: 'Réservation office',
+      body: 'See you in Berlin',
+      subject: 'Réservation office',
+    });
+    expect(renderAutomationContent(null, null, context, { title: 'Fallback', body: '' }).title).toBe('Fallback');
+  });
+});
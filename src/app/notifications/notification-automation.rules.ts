@@ -0,0 +1,185 @@
+export type AutomationContext = Record<string, unknown>;
+
+export interface RenderedAutomationContent {
+  title: string;
+  body: string;
+  subject: string;
+}
+
+type ComparisonOperator = 'eq' | 'ne' | 'in' | 'nin' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'contains';
+
+const COMPARISON_OPERATORS = new Set<ComparisonOperator>([
+  'eq',
+  'ne',
+  'in',
+  'nin',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'exists',
+  'contains',
+]);
+
+const PLACEHOLDER_PATTERN = /{{\s*([\w.]+)\s*}}/g;
+
+export function resolveContextPath(context: AutomationContext, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, segment) => {
+    if (current && typeof current === 'object' && segment in (current as Record<string, unknown>)) {
+      return (current as Record<string, unknown>)[segment];
+    }
+    return undefined;
+  }, context);
+}
+
+/**
+ * Conditions are a JSON object keyed by context path (`booking.service`, `payment.amountCents`).
+ * A scalar value means equality, an object maps operators to operands, and `all` / `any` / `not`
+ * combine nested condition objects. Empty or missing conditions always match.
+ */
+export function evaluateAutomationConditions(conditions: unknown, context: AutomationContext): boolean {
+  if (conditions === null || conditions === undefined) {
+    return true;
+  }
+  if (typeof conditions !== 'object' || Array.isArray(conditions)) {
+    return false;
+  }
+
+  return Object.entries(conditions as Record<string, unknown>).every(([key, expected]) => {
+    if (key === 'all') {
+      return Array.isArray(expected) && expected.every((entry) => evaluateAutomationConditions(entry, context));
+    }
+    if (key === 'any') {
+      return Array.isArray(expected) && expected.some((entry) => evaluateAutomationConditions(entry, context));
+    }
+    if (key === 'not') {
+      return !evaluateAutomationConditions(expected, context);
+    }
+    return matchesExpectation(resolveContextPath(context, key), expected);
+  });
+}
+
+export function renderAutomationTemplate(
+  source: string | null | undefined,
+  context: AutomationContext
+): string {
+  if (!source) {
+    return '';
+  }
+  return source.replace(PLACEHOLDER_PATTERN, (_match, path: string) => {
+    const value = resolveContextPath(context, path);
+    if (value === null || value === undefined) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Template metadata carries `title`, `body` and `subject`, optionally overridden per locale under
+ * `translations`. Missing fields fall back to the provided defaults.
+ */
+export function renderAutomationContent(
+  metadata: unknown,
+  locale: string | null | undefined,
+  context: AutomationContext,
+  fallback: { title: string; body: string }
+): RenderedAutomationContent {
+  const base = isRecord(metadata) ? metadata : {};
+  const translations = isRecord(base['translations']) ? base['translations'] : {};
+  const localized = locale && isRecord(translations[locale]) ? (translations[locale] as Record<string, unknown>) : {};
+  const pick = (field: string, defaultValue: string) => {
+    const value = localized[field] ?? base[field];
+    return typeof value === 'string' && value.length ? value : defaultValue;
+  };
+
+  const title = renderAutomationTemplate(pick('title', fallback.title), context);
+  const body = renderAutomationTemplate(pick('body', fallback.body), context);
+  const subject = renderAutomationTemplate(pick('subject', title), context);
+  return { title, body, subject };
+}
+
+function matchesExpectation(actual: unknown, expected: unknown): boolean {
+  if (isRecord(expected) && Object.keys(expected).every((key) => COMPARISON_OPERATORS.has(key as ComparisonOperator))) {
+    return Object.entries(expected).every(([operator, operand]) =>
+      compare(actual, operator as ComparisonOperator, operand)
+    );
+  }
+  return compare(actual, 'eq', expected);
+}
+
+function compare(actual: unknown, operator: ComparisonOperator, operand: unknown): boolean {
+  switch (operator) {
+    case 'eq':
+      return normalize(actual) === normalize(operand);
+    case 'ne':
+      return normalize(actual) !== normalize(operand);
+    case 'in':
+      return Array.isArray(operand) && operand.some((entry) => normalize(entry) === normalize(actual));
+    case 'nin':
+      return Array.isArray(operand) && !operand.some((entry) => normalize(entry) === normalize(actual));
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return compareOrdered(actual, operator, operand);
+    case 'exists':
+      return (actual !== null && actual !== undefined) === Boolean(operand);
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some((entry) => normalize(entry) === normalize(operand));
+      }
+      return typeof actual === 'string' && typeof operand === 'string'
+        ? actual.toLowerCase().includes(operand.toLowerCase())
+        : false;
+    default:
+      return false;
+  }
+}
+
+function compareOrdered(actual: unknown, operator: 'gt' | 'gte' | 'lt' | 'lte', operand: unknown): boolean {
+  const left = toComparable(actual);
+  const right = toComparable(operand);
+  if (left === null || right === null) {
+    return false;
+  }
+  switch (operator) {
+    case 'gt':
+      return left > right;
+    case 'gte':
+      return left >= right;
+    case 'lt':
+      return left < right;
+    default:
+      return left <= right;
+  }
+}
+
+function toComparable(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'string' && value.trim().length) {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) {
+      return numeric;
+    }
+    const timestamp = Date.parse(value);
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }
+  return null;
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'string' ? value.toLowerCase() : value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
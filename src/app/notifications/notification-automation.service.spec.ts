@@ -0,0 +1,142 @@
+import {
+  NotificationAutomationAudience,
+  NotificationAutomationEvent,
+  NotificationAutomationJobStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailQueueService } from './email-queue.service';
+import { NotificationAutomationService } from './notification-automation.service';
+import { NotificationsService } from './notifications.service';
+
+describe('NotificationAutomationService', () => {
+  let job: { id: string; attempts: number; status: NotificationAutomationJobStatus; updatedAt: Date };
+  let prisma: {
+    notificationAutomationJob: { findMany: jest.Mock; updateMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock };
+    notificationAutomationEmail: { create: jest.Mock };
+    user: { findMany: jest.Mock };
+  };
+  let channels: string[];
+  let emailed: Set<string>;
+  let notifications: { emit: jest.Mock };
+  let emailQueue: { enqueue: jest.Mock };
+  let service: NotificationAutomationService;
+
+  beforeEach(() => {
+    // Claimed twenty minutes ago by a worker that never came back.
+    job = {
+      id: 'job_1',
+      attempts: 1,
+      status: NotificationAutomationJobStatus.PROCESSING,
+      updatedAt: new Date(Date.now() - 20 * 60 * 1000),
+    };
+    channels = ['IN_APP'];
+    emailed = new Set();
+    prisma = {
+      notificationAutomationJob: {
+        findMany: jest.fn(async () => [{ id: job.id }]),
+        updateMany: jest.fn(async ({ data }: { data: { attempts: { increment: number } } }) => {
+          job.attempts += data.attempts.increment;
+          return { count: 1 };
+        }),
+        findUnique: jest.fn(async () => ({
+          ...job,
+          event: NotificationAutomationEvent.MATCHING_PROGRESS,
+          bookingId: null,
+          paymentId: null,
+          context: {},
+          rule: {
+            key: 'ops_matching',
+            name: 'Matching update',
+            description: 'Matching is running',
+            isActive: true,
+            conditions: null,
+            channels,
+            audience: NotificationAutomationAudience.ADMIN,
+            template: null,
+          },
+        })),
+        update: jest.fn(),
+      },
+      notificationAutomationEmail: {
+        create: jest.fn(async ({ data }) => {
+          const key = `${data.job.connect.id}:${data.recipientId}`;
+          if (emailed.has(key)) {
+            throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+              code: 'P2002',
+              clientVersion: 'test',
+            });
+          }
+          emailed.add(key);
+          return { id: key };
+        }),
+      },
+      user: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ id: 'admin_1', email: 'ops@saubio.de', notificationPreference: null }]),
+      },
+    };
+    notifications = { emit: jest.fn() };
+    emailQueue = { enqueue: jest.fn() };
+    service = new NotificationAutomationService(
+      prisma as unknown as PrismaService,
+      notifications as unknown as NotificationsService,
+      emailQueue as unknown as EmailQueueService
+    );
+  });
+
+  it('reclaims jobs left in processing by a crashed worker', async () => {
+    await service.processDueJobs();
+
+    const [{ where }] = prisma.notificationAutomationJob.findMany.mock.calls[0];
+    expect(where.OR).toContainEqual({
+      status: NotificationAutomationJobStatus.PROCESSING,
+      updatedAt: { lt: expect.any(Date) },
+    });
+    expect(where.OR[1].updatedAt.lt.getTime()).toBeGreaterThan(job.updatedAt.getTime());
+    expect(notifications.emit).toHaveBeenCalledWith(expect.objectContaining({ userIds: ['admin_1'] }));
+    expect(prisma.notificationAutomationJob.update).toHaveBeenCalledWith({
+      where: { id: 'job_1' },
+      data: expect.objectContaining({ status: NotificationAutomationJobStatus.SENT }),
+    });
+  });
+
+  it('fails reclaimed jobs that already used up their attempts', async () => {
+    job.attempts = 3;
+
+    await service.processDueJobs();
+
+    expect(notifications.emit).not.toHaveBeenCalled();
+    expect(prisma.notificationAutomationJob.update).toHaveBeenCalledWith({
+      where: { id: 'job_1' },
+      data: expect.objectContaining({
+        status: NotificationAutomationJobStatus.FAILED,
+        lastError: 'AUTOMATION_MAX_ATTEMPTS_REACHED',
+      }),
+    });
+  });
+
+  it('does not email recipients again when a partly dispatched job is retried', async () => {
+    channels = ['EMAIL', 'IN_APP'];
+    prisma.user.findMany.mockResolvedValue([
+      { id: 'admin_1', email: 'ops@saubio.de', notificationPreference: null },
+      { id: 'admin_2', email: 'support@saubio.de', notificationPreference: null },
+    ]);
+    notifications.emit.mockRejectedValueOnce(new Error('push gateway down'));
+
+    await service.processDueJobs();
+    expect(prisma.notificationAutomationJob.update).toHaveBeenLastCalledWith({
+      where: { id: 'job_1' },
+      data: expect.objectContaining({ status: NotificationAutomationJobStatus.PENDING }),
+    });
+
+    await service.processDueJobs();
+
+    expect(emailQueue.enqueue.mock.calls.map(([email]) => email.to)).toEqual(['ops@saubio.de', 'support@saubio.de']);
+    expect(prisma.notificationAutomationJob.update).toHaveBeenLastCalledWith({
+      where: { id: 'job_1' },
+      data: expect.objectContaining({ status: NotificationAutomationJobStatus.SENT }),
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import {
+  NotificationAutomationAudience,
+  NotificationAutomationEvent,
+  NotificationAutomationJobStatus,
+  NotificationChannel,
+  NotificationTemplateStatus,
+  NotificationType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from './notifications.service';
+import { EmailQueueService } from './email-queue.service';
+import {
+  evaluateAutomationConditions,
+  renderAutomationContent,
+  type AutomationContext,
+} from './notification-automation.rules';
+
+type AutomationTrigger = {
+  bookingId?: string | null;
+  paymentId?: string | null;
+  payload?: Record<string, unknown>;
+  dedupeKey?: string;
+};
+
+type AutomationJobWithRule = Prisma.NotificationAutomationJobGetPayload<{
+  include: { rule: { include: { template: true } } };
+}>;
+
+const AUTOMATION_NOTIFICATION_TYPES: Record<NotificationAutomationEvent, NotificationType> = {
+  [NotificationAutomationEvent.BOOKING_CREATED]: NotificationType.BOOKING_STATUS,
+  [NotificationAutomationEvent.BOOKING_CONFIRMED]: NotificationType.BOOKING_STATUS,
+  [NotificationAutomationEvent.BOOKING_COMPLETED]: NotificationType.BOOKING_STATUS,
+  [NotificationAutomationEvent.PAYMENT_FAILED]: NotificationType.BILLING,
+  [NotificationAutomationEvent.MATCHING_PROGRESS]: NotificationType.MATCHING_PROGRESS,
+  [NotificationAutomationEvent.SMART_MATCH_TRIGGERED]: NotificationType.MATCHING_PROGRESS,
+};
+
+const MAX_JOB_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+const STALE_JOB_MS = 10 * 60 * 1000;
+const DEFAULT_LOCALE = 'fr';
+
+@Injectable()
+export class NotificationAutomationService {
+  private readonly logger = new Logger(NotificationAutomationService.name);
+  private isProcessing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notifications: NotificationsService,
+    private readonly emailQueue: EmailQueueService
+  ) {}
+
+  /**
+   * Schedules one job per active rule listening on the event. Jobs without a delay run right away;
+   * delayed jobs are persisted and picked up by the scheduler, so restarts do not drop them.
+   */
+  async trigger(event: NotificationAutomationEvent, trigger: AutomationTrigger) {
+    try {
+      const rules = await this.prisma.notificationAutomationRule.findMany({
+        where: { event, isActive: true },
+        select: { id: true, delaySeconds: true },
+      });
+      if (!rules.length) {
+        return;
+      }
+
+      const now = Date.now();
+      const dedupeKey = trigger.dedupeKey ?? this.defaultDedupeKey(event, trigger);
+      const context = JSON.parse(JSON.stringify(trigger.payload ?? {})) as Prisma.InputJsonValue;
+      const immediateJobIds: string[] = [];
+
+      for (const rule of rules) {
+        const delayMs = Math.max(0, rule.delaySeconds ?? 0) * 1000;
+        try {
+          const job = await this.prisma.notificationAutomationJob.create({
+            data: {
+              rule: { connect: { id: rule.id } },
+              event,
+              runAt: new Date(now + delayMs),
+              dedupeKey,
+              bookingId: trigger.bookingId ?? null,
+              paymentId: trigger.paymentId ?? null,
+              context,
+            },
+          });
+          if (!delayMs) {
+            immediateJobIds.push(job.id);
+          }
+        } catch (error) {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      for (const jobId of immediateJobIds) {
+        await this.processJob(jobId);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Unable to schedule automation ${event}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Also picks up jobs left in PROCESSING by a worker that died mid-dispatch; they count as an
+   * attempt like any other failure.
+   */
+  @Cron('* * * * *')
+  async processDueJobs() {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+    try {
+      const due = await this.prisma.notificationAutomationJob.findMany({
+        where: this.claimableWhere(),
+        orderBy: { runAt: 'asc' },
+        take: 50,
+        select: { id: true },
+      });
+      for (const job of due) {
+        await this.processJob(job.id);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async processJob(jobId: string) {
+    const claimed = await this.prisma.notificationAutomationJob.updateMany({
+      where: { id: jobId, ...this.claimableWhere() },
+      data: { status: NotificationAutomationJobStatus.PROCESSING, attempts: { increment: 1 } },
+    });
+    if (!claimed.count) {
+      return;
+    }
+
+    const job = await this.prisma.notificationAutomationJob.findUnique({
+      where: { id: jobId },
+      include: { rule: { include: { template: true } } },
+    });
+    if (!job) {
+      return;
+    }
+    if (job.attempts > MAX_JOB_ATTEMPTS) {
+      await this.prisma.notificationAutomationJob.update({
+        where: { id: job.id },
+        data: {
+          status: NotificationAutomationJobStatus.FAILED,
+          processedAt: new Date(),
+          lastError: 'AUTOMATION_MAX_ATTEMPTS_REACHED',
+        },
+      });
+      return;
+    }
+
+    try {
+      const skippedReason = await this.dispatch(job);
+      await this.prisma.notificationAutomationJob.update({
+        where: { id: job.id },
+        data: {
+          status: skippedReason ? NotificationAutomationJobStatus.SKIPPED : NotificationAutomationJobStatus.SENT,
+          processedAt: new Date(),
+          lastError: skippedReason,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = job.attempts >= MAX_JOB_ATTEMPTS;
+      this.logger.warn(`Automation job ${job.id} (${job.rule.key}) failed: ${message}`);
+      await this.prisma.notificationAutomationJob.update({
+        where: { id: job.id },
+        data: {
+          status: exhausted ? NotificationAutomationJobStatus.FAILED : NotificationAutomationJobStatus.PENDING,
+          runAt: exhausted ? undefined : new Date(Date.now() + RETRY_DELAY_MS),
+          processedAt: exhausted ? new Date() : undefined,
+          lastError: message,
+        },
+      });
+    }
+  }
+
+  /** Due pending jobs, and claimed jobs whose worker has not finished them in time. */
+  private claimableWhere(): Prisma.NotificationAutomationJobWhereInput {
+    const now = Date.now();
+    return {
+      OR: [
+        { status: NotificationAutomationJobStatus.PENDING, runAt: { lte: new Date(now) } },
+        { status: NotificationAutomationJobStatus.PROCESSING, updatedAt: { lt: new Date(now - STALE_JOB_MS) } },
+      ],
+    };
+  }
+
+  /** Returns a skip reason, or null once every configured channel has been dispatched. */
+  private async dispatch(job: AutomationJobWithRule): Promise<string | null> {
+    const { rule } = job;
+    if (!rule.isActive) {
+      return 'rule_inactive';
+    }
+    const template = rule.template;
+    if (template && template.status !== NotificationTemplateStatus.ACTIVE) {
+      return 'template_inactive';
+    }
+
+    const context = await this.buildContext(job);
+    if (!evaluateAutomationConditions(rule.conditions, context)) {
+      return 'conditions_not_met';
+    }
+
+    const channels = template
+      ? rule.channels.filter((channel) => template.activeChannels.includes(channel))
+      : rule.channels;
+    if (!channels.length) {
+      return 'no_active_channel';
+    }
+
+    const recipients = await this.resolveRecipients(rule.audience, context);
+    if (!recipients.length) {
+      return 'no_recipients';
+    }
+
+    const type = AUTOMATION_NOTIFICATION_TYPES[job.event];
+    const templateKey = template?.key ?? rule.key;
+    const fallback = { title: rule.name, body: rule.description ?? '' };
+    const recipientsByLocale = new Map<string, typeof recipients>();
+    for (const recipient of recipients) {
+      const locale =
+        recipient.language && (!template?.locales.length || template.locales.includes(recipient.language))
+          ? recipient.language
+          : template?.locales[0] ?? DEFAULT_LOCALE;
+      recipientsByLocale.set(locale, [...(recipientsByLocale.get(locale) ?? []), recipient]);
+    }
+
+    for (const [locale, group] of recipientsByLocale) {
+      const content = renderAutomationContent(template?.metadata, locale, context, fallback);
+      for (const channel of channels) {
+        if (channel === NotificationChannel.EMAIL) {
+          for (const recipient of group) {
+            if (!(await this.claimEmailRecipient(job.id, recipient.id))) {
+              continue;
+            }
+            await this.emailQueue.enqueue({
+              to: recipient.email,
+              template: 'notification.automation',
+              payload: {
+                templateKey,
+                ruleKey: rule.key,
+                bookingId: job.bookingId,
+                subject: content.subject,
+                title: content.title,
+                body: content.body,
+              },
+            });
+          }
+          continue;
+        }
+        await this.notifications.emit({
+          userIds: group.map((recipient) => recipient.id),
+          type,
+          channel,
+          templateKey,
+          bookingId: job.bookingId ?? undefined,
+          payload: {
+            event: `automation.${job.event.toLowerCase()}`,
+            ruleKey: rule.key,
+            title: content.title,
+            body: content.body,
+            ...(job.bookingId ? { bookingId: job.bookingId } : {}),
+          },
+          dedupeKey: `automation:${job.id}:${channel}`,
+        });
+      }
+    }
+
+    return null;
+  }
+
+  /** Records the email for the job and recipient; false when an earlier attempt of the job already sent it. */
+  private async claimEmailRecipient(jobId: string, recipientId: string): Promise<boolean> {
+    try {
+      await this.prisma.notificationAutomationEmail.create({ data: { job: { connect: { id: jobId } }, recipientId } });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+    private async buildContext(job: AutomationJobWithRule): Promise<AutomationContext> {
+    const context: AutomationContext = {
+      ...((job.context ?? {}) as Record<string, unknown>),
+      event: job.event.toLowerCase(),
+    };
+
+    const payment = job.paymentId
+      ? await this.prisma.payment.findUnique({
+          where: { id: job.paymentId },
+          select: { id: true, bookingId: true, status: true, amountCents: true, currency: true, method: true },
+        })
+      : null;
+    if (payment) {
+      context['payment'] = {
+        id: payment.id,
+        status: payment.status.toLowerCase(),
+        amountCents: payment.amountCents,
+        currency: payment.currency,
+        method: payment.method?.toLowerCase() ?? null,
+      };
+    }
+
+    const bookingId = job.bookingId ?? payment?.bookingId ?? null;
+    const booking = bookingId
+      ? await this.prisma.booking.findUnique({
+          where: { id: bookingId },
+          include: { assignments: { select: { providerId: true } } },
+        })
+      : null;
+    if (booking) {
+      context['booking'] = {
+        id: booking.id,
+        clientId: booking.clientId,
+        status: booking.status.toLowerCase(),
+        mode: booking.mode.toLowerCase(),
+        service: booking.service.toLowerCase(),
+        city: booking.addressCity,
+        postalCode: booking.addressPostalCode,
+        startAt: booking.startAt.toISOString(),
+        endAt: booking.endAt.toISOString(),
+        shortNotice: booking.shortNotice,
+        totalCents: booking.pricingTotalCents,
+        currency: booking.pricingCurrency,
+        requiredProviders: booking.requiredProviders,
+        providerIds: booking.assignments.map((assignment) => assignment.providerId),
+      };
+    }
+
+    return context;
+  }
+
+  private async resolveRecipients(audience: NotificationAutomationAudience, context: AutomationContext) {
+    const booking = (context['booking'] ?? null) as { clientId?: string | null; providerIds?: string[] } | null;
+    let where: Prisma.UserWhereInput | null = null;
+
+    switch (audience) {
+      case NotificationAutomationAudience.CLIENT:
+        where = booking?.clientId ? { id: booking.clientId } : null;
+        break;
+      case NotificationAutomationAudience.PROVIDER:
+        where = booking?.providerIds?.length ? { providerProfile: { id: { in: booking.providerIds } } } : null;
+        break;
+      case NotificationAutomationAudience.ADMIN:
+        where = { roles: { hasSome: [UserRole.ADMIN, UserRole.EMPLOYEE] } };
+        break;
+    }
+    if (!where) {
+      return [];
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: { ...where, isActive: true },
+      select: { id: true, email: true, notificationPreference: { select: { language: true } } },
+    });
+    return users.map((user) => ({
+      id: user.id,
+      email: user.email,
+      language: user.notificationPreference?.language ?? null,
+    }));
+  }
+
+  private defaultDedupeKey(event: NotificationAutomationEvent, trigger: AutomationTrigger): string | null {
+    switch (event) {
+      case NotificationAutomationEvent.BOOKING_CREATED:
+      case NotificationAutomationEvent.BOOKING_CONFIRMED:
+      case NotificationAutomationEvent.BOOKING_COMPLETED:
+        return trigger.bookingId ? `${event}:${trigger.bookingId}` : null;
+      default:
+        return null;
+    }
+  }
+}
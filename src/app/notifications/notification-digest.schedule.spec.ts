@@ -0,0 +1,25 @@
+import { NotificationType } from '@prisma/client';
+import { groupDigestNotifications, isWithinQuietHours } from './notification-digest.schedule';
+
+describe('notification digest schedule', () => {
+  // Wednesday 2026-01-14, 09:30 in Berlin.
+  const now = new Date('2026-01-14T08:30:00Z');
+
+  it('honours quiet hours', () => {
+    expect(isWithinQuietHours(now, '22:00', '10:00')).toBe(true);
+    expect(isWithinQuietHours(now, '12:00', '14:00')).toBe(false);
+    expect(isWithinQuietHours(now, null, '10:00')).toBe(false);
+  });
+
+  it('groups notifications by type with the latest summaries first', () => {
+    const groups = groupDigestNotifications([
+      { id: 'n1', type: NotificationType.BILLING, createdAt: new Date('2026-01-10'), payload: { title: 'Invoice' } },
+      { id: 'n2', type: NotificationType.BOOKING_STATUS, createdAt: new Date('2026-01-11'), payload: { event: 'a' } },
+      { id: 'n3', type: NotificationType.BOOKING_STATUS, createdAt: new Date('2026-01-12'), payload: { event: 'b' } },
+    ]);
+    expect(groups).toEqual([
+      { type: NotificationType.BOOKING_STATUS, count: 2, items: ['b', 'a'] },
+      { type: NotificationType.BILLING, count: 1, items: ['Invoice'] },
+    ]);
+  });
+});
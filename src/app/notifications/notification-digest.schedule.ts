@@ -0,0 +1,93 @@
+import { DigestFrequency, NotificationType } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+export const DIGEST_TIMEZONE = 'Europe/Berlin';
+export const DIGEST_SEND_HOUR = 8;
+
+const MAX_ITEMS_PER_GROUP = 3;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export interface DigestNotificationInput {
+  id: string;
+  type: NotificationType;
+  createdAt: Date;
+  payload: unknown;
+}
+
+export interface DigestGroup {
+  type: NotificationType;
+  count: number;
+  items: string[];
+}
+
+/**
+ * Quiet hours are stored as local "HH:mm" bounds; a window whose end is before its start spans
+ * midnight (22:00 → 07:00). Missing or malformed bounds disable the window.
+ */
+export function isWithinQuietHours(
+  now: Date,
+  start: string | null | undefined,
+  end: string | null | undefined,
+  zone = DIGEST_TIMEZONE
+): boolean {
+  const startMinutes = parseMinutes(start);
+  const endMinutes = parseMinutes(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) {
+    return false;
+  }
+  const local = DateTime.fromJSDate(now).setZone(zone);
+  const minutes = local.hour * 60 + local.minute;
+  return startMinutes < endMinutes
+    ? minutes >= startMinutes && minutes < endMinutes
+    : minutes >= startMinutes || minutes < endMinutes;
+}
+
+/**
+ * Start of the digest period `now` falls in; a digest is due when none was sent since. Daily digests go out
+ * once per local day, weekly digests once per ISO week (starting Monday), both from the configured send hour
+ * onwards. Null before the send hour and for users who opted out.
+ */
+export function digestPeriodStart(frequency: DigestFrequency, now: Date, zone = DIGEST_TIMEZONE): Date | null {
+  if (frequency === DigestFrequency.NEVER) {
+    return null;
+  }
+  const local = DateTime.fromJSDate(now).setZone(zone);
+  if (local.hour < DIGEST_SEND_HOUR) {
+    return null;
+  }
+  return local.startOf(frequency === DigestFrequency.DAILY ? 'day' : 'week').toJSDate();
+}
+
+export function groupDigestNotifications(notifications: DigestNotificationInput[]): DigestGroup[] {
+  const groups = new Map<NotificationType, DigestGroup>();
+  const sorted = [...notifications].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  for (const notification of sorted) {
+    const group = groups.get(notification.type) ?? { type: notification.type, count: 0, items: [] };
+    group.count += 1;
+    const summary = summarizeNotification(notification.payload);
+    if (summary && group.items.length < MAX_ITEMS_PER_GROUP) {
+      group.items.push(summary);
+    }
+    groups.set(notification.type, group);
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+}
+
+function summarizeNotification(payload: unknown): string | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return null;
+  }
+  const record = payload as Record<string, unknown>;
+  for (const key of ['title', 'message', 'body', 'event']) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim().length) {
+      return value.trim();
+    }
+  }
+  return null;
+}
+
+function parseMinutes(value: string | null | undefined): number | null {
+  const match = value ? TIME_PATTERN.exec(value) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
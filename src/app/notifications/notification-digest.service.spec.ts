@@ -0,0 +1,119 @@
+import { ConfigService } from '@nestjs/config';
+import { DigestFrequency } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { EmailQueueService } from './email-queue.service';
+import { NotificationDigestService } from './notification-digest.service';
+
+describe('NotificationDigestService', () => {
+  // Wednesday 2026-01-14, 09:30 in Berlin.
+  const now = new Date('2026-01-14T08:30:00Z');
+  let prisma: {
+    userPreference: { findMany: jest.Mock; update: jest.Mock };
+    user: { findUnique: jest.Mock };
+    notification: { findMany: jest.Mock; updateMany: jest.Mock };
+  };
+  let service: NotificationDigestService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+    // A full batch of users in their quiet hours sorts before the one user who can get a digest now.
+    const preferences = Array.from({ length: 201 }, (_, index) => ({
+      userId: `user_${String(index).padStart(3, '0')}`,
+      digestFrequency: DigestFrequency.DAILY,
+      quietHoursStart: index < 200 ? '22:00' : null,
+      quietHoursEnd: index < 200 ? '10:00' : null,
+    }));
+    prisma = {
+      userPreference: {
+        findMany: jest.fn(async ({ where, take }: { where: { userId?: { gt: string } }; take: number }) =>
+          preferences.filter((preference) => !where.userId || preference.userId > where.userId.gt).slice(0, take)
+        ),
+        update: jest.fn(),
+      },
+      user: { findUnique: jest.fn().mockResolvedValue({ email: 'anna@example.com', firstName: 'Anna' }) },
+      notification: { findMany: jest.fn().mockResolvedValue([]), updateMany: jest.fn() },
+    };
+    service = new NotificationDigestService(
+      prisma as unknown as PrismaService,
+      { enqueue: jest.fn() } as unknown as EmailQueueService,
+      { get: jest.fn() } as unknown as ConfigService<AppEnvironmentConfig>
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('only loads users whose digest is due and pages past those in quiet hours', async () => {
+    await service.sendDueDigests();
+
+    const [[first], [second]] = prisma.userPreference.findMany.mock.calls;
+    expect(first.where.OR).toEqual([
+      {
+        digestFrequency: DigestFrequency.DAILY,
+        OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: new Date('2026-01-13T23:00:00Z') } }],
+      },
+      {
+        digestFrequency: DigestFrequency.WEEKLY,
+        OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: new Date('2026-01-11T23:00:00Z') } }],
+      },
+    ]);
+    expect(second.where.userId).toEqual({ gt: 'user_199' });
+    expect(prisma.userPreference.update).toHaveBeenCalledTimes(1);
+    expect(prisma.userPreference.update).toHaveBeenCalledWith({
+      where: { userId: 'user_200' },
+      data: { lastDigestSentAt: now },
+    });
+  });
+
+  it('selects daily digests not sent today and weekly digests not sent this week', async () => {
+    type DueClause = {
+      digestFrequency: DigestFrequency;
+      OR: Array<{ lastDigestSentAt: null | { lt: Date } }>;
+    };
+    const candidates = [
+      { userId: 'daily_never_sent', digestFrequency: DigestFrequency.DAILY, lastDigestSentAt: null },
+      { userId: 'daily_yesterday', digestFrequency: DigestFrequency.DAILY, lastDigestSentAt: '2026-01-13T08:00:00Z' },
+      { userId: 'daily_today', digestFrequency: DigestFrequency.DAILY, lastDigestSentAt: '2026-01-14T07:05:00Z' },
+      { userId: 'never', digestFrequency: DigestFrequency.NEVER, lastDigestSentAt: null },
+      { userId: 'weekly_last_week', digestFrequency: DigestFrequency.WEEKLY, lastDigestSentAt: '2026-01-09T07:05:00Z' },
+      { userId: 'weekly_monday', digestFrequency: DigestFrequency.WEEKLY, lastDigestSentAt: '2026-01-12T07:05:00Z' },
+    ].map((candidate) => ({
+      ...candidate,
+      lastDigestSentAt: candidate.lastDigestSentAt ? new Date(candidate.lastDigestSentAt) : null,
+      quietHoursStart: null,
+      quietHoursEnd: null,
+    }));
+    // Applies the due filter the way the database would.
+    prisma.userPreference.findMany.mockImplementation(async ({ where }: { where: { OR: DueClause[] } }) =>
+      candidates.filter((candidate) =>
+        where.OR.some(
+          (clause) =>
+            clause.digestFrequency === candidate.digestFrequency &&
+            clause.OR.some(({ lastDigestSentAt }) =>
+              lastDigestSentAt === null
+                ? candidate.lastDigestSentAt === null
+                : candidate.lastDigestSentAt !== null && candidate.lastDigestSentAt < lastDigestSentAt.lt
+            )
+        )
+      )
+    );
+
+    await service.sendDueDigests();
+
+    expect(prisma.userPreference.update.mock.calls.map(([{ where }]) => where.userId)).toEqual([
+      'daily_never_sent',
+      'daily_yesterday',
+      'weekly_last_week',
+    ]);
+  });
+
+  it('does not query before the send hour', async () => {
+    jest.setSystemTime(new Date('2026-01-14T05:00:00Z'));
+
+    await service.sendDueDigests();
+
+    expect(prisma.userPreference.findMany).not.toHaveBeenCalled();
+  });
+});
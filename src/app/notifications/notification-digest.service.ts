@@ -0,0 +1,144 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { DigestFrequency, NotificationChannel, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { EmailQueueService } from './email-queue.service';
+import { digestPeriodStart, groupDigestNotifications, isWithinQuietHours } from './notification-digest.schedule';
+
+const DIGEST_BATCH_SIZE = 200;
+const MAX_NOTIFICATIONS_PER_DIGEST = 100;
+
+@Injectable()
+export class NotificationDigestService {
+  private readonly logger = new Logger(NotificationDigestService.name);
+  private isProcessing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emailQueue: EmailQueueService,
+    private readonly configService: ConfigService<AppEnvironmentConfig>
+  ) {}
+
+  @Cron('5 * * * *')
+  async sendDueDigests() {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+    try {
+      const now = new Date();
+      const due = this.dueDigestWhere(now);
+      if (!due.length) {
+        return;
+      }
+
+      // Users in their quiet hours stay due, so paging walks past them instead of retrying the same batch.
+      let cursor: string | undefined;
+      for (;;) {
+        const preferences = await this.prisma.userPreference.findMany({
+          where: { OR: due, user: { isActive: true }, ...(cursor ? { userId: { gt: cursor } } : {}) },
+          orderBy: { userId: 'asc' },
+          take: DIGEST_BATCH_SIZE,
+          select: {
+            userId: true,
+            digestFrequency: true,
+            quietHoursStart: true,
+            quietHoursEnd: true,
+          },
+        });
+
+        for (const preference of preferences) {
+          if (isWithinQuietHours(now, preference.quietHoursStart, preference.quietHoursEnd)) {
+            continue;
+          }
+          try {
+            await this.sendDigest(preference.userId, preference.digestFrequency, now);
+          } catch (error) {
+            this.logger.warn(
+              `Unable to send notification digest to ${preference.userId}: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+          }
+        }
+
+        if (preferences.length < DIGEST_BATCH_SIZE) {
+          break;
+        }
+        cursor = preferences[preferences.length - 1].userId;
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /** Preferences whose digest period started after the last digest went out. */
+  private dueDigestWhere(now: Date): Prisma.UserPreferenceWhereInput[] {
+    return [DigestFrequency.DAILY, DigestFrequency.WEEKLY].flatMap((frequency) => {
+      const periodStart = digestPeriodStart(frequency, now);
+      return periodStart
+        ? [
+            {
+              digestFrequency: frequency,
+              OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: periodStart } }],
+            },
+          ]
+        : [];
+    });
+  }
+
+  private async sendDigest(userId: string, frequency: DigestFrequency, now: Date) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        email: true,
+        firstName: true,
+        preferredLocale: true,
+        notificationPreference: { select: { language: true } },
+      },
+    });
+    if (!user) {
+      return;
+    }
+
+    const notifications = await this.prisma.notification.findMany({
+      where: {
+        userId,
+        channel: NotificationChannel.IN_APP,
+        readAt: null,
+        digestedAt: null,
+        createdAt: { lte: now },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_NOTIFICATIONS_PER_DIGEST,
+      select: { id: true, type: true, createdAt: true, payload: true },
+    });
+
+    if (notifications.length) {
+      const appUrl = this.configService.get('app.appUrl' as keyof AppEnvironmentConfig) ?? 'http://localhost:4200';
+      await this.emailQueue.enqueue({
+        to: user.email,
+        template: 'notification.digest',
+        payload: {
+          firstName: user.firstName,
+          locale: user.notificationPreference?.language ?? user.preferredLocale,
+          frequency: frequency.toLowerCase(),
+          total: notifications.length,
+          groups: groupDigestNotifications(notifications),
+          appUrl,
+        },
+      });
+      await this.prisma.notification.updateMany({
+        where: { id: { in: notifications.map((notification) => notification.id) }, digestedAt: null },
+        data: { digestedAt: now },
+      });
+    }
+
+    await this.prisma.userPreference.update({
+      where: { userId },
+      data: { lastDigestSentAt: now },
+    });
+  }
+}
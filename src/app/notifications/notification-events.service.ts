@@ -1,5 +1,5 @@
 import { Injectable, Logger, MessageEvent } from '@nestjs/common';
-import type { NotificationType } from '@prisma/client';
+import type { NotificationChannel, NotificationType } from '@prisma/client';
 import { Observable } from 'rxjs';
 
 export interface NotificationRealtimeEvent {
@@ -8,6 +8,7 @@ export interface NotificationRealtimeEvent {
   payload: Record<string, unknown>;
   createdAt: string;
   notificationId?: string;
+  channel?: NotificationChannel;
 }
 
 export interface NotificationAdapter {
@@ -1,6 +1,7 @@
 import {
   Body,
   Controller,
+  Delete,
   ForbiddenException,
   Get,
   MessageEvent,
@@ -17,6 +18,8 @@ import { NotificationsService } from './notifications.service';
 import { ListNotificationsDto } from './dto/list-notifications.dto';
 import { MarkManyNotificationsDto } from './dto/mark-many-notifications.dto';
 import { UpdateNotificationPreferencesDto } from './dto/update-preferences.dto';
+import { RegisterPushSubscriptionDto } from './dto/register-push-subscription.dto';
+import { PushNotificationsService } from './push-notifications.service';
 import { AccessTokenGuard } from '../auth/guards/access-token.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -28,7 +31,10 @@ import type { Observable } from 'rxjs';
 @Controller('notifications')
 @UseGuards(AccessTokenGuard, RolesGuard)
 export class NotificationsController {
-  constructor(private readonly notificationsService: NotificationsService) {}
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly pushNotifications: PushNotificationsService
+  ) {}
 
   @ApiOperation({ summary: 'List notifications for a user' })
   @ApiOkResponse({ description: 'Notifications fetched successfully.' })
@@ -110,6 +116,35 @@ export class NotificationsController {
     return this.notificationsService.updatePreferences(userId, payload);
   }
 
+  @ApiOperation({ summary: 'Push configuration (VAPID public key) for registering devices' })
+  @Get('push/config')
+  @Roles('client', 'provider', 'company', 'employee', 'admin')
+  getPushConfig() {
+    return this.pushNotifications.getConfig();
+  }
+
+  @ApiOperation({ summary: 'List push subscriptions of the current user' })
+  @Get('push/subscriptions')
+  @Roles('client', 'provider', 'company', 'employee', 'admin')
+  listPushSubscriptions(@CurrentUser() user: User) {
+    return this.pushNotifications.listSubscriptions(user.id);
+  }
+
+  @ApiOperation({ summary: 'Register a browser or device for push notifications' })
+  @ApiOkResponse({ description: 'Push subscription registered.' })
+  @Post('push/subscriptions')
+  @Roles('client', 'provider', 'company', 'employee', 'admin')
+  registerPushSubscription(@Body() payload: RegisterPushSubscriptionDto, @CurrentUser() user: User) {
+    return this.pushNotifications.register(user.id, payload);
+  }
+
+  @ApiOperation({ summary: 'Remove a push subscription of the current user' })
+  @Delete('push/subscriptions/:id')
+  @Roles('client', 'provider', 'company', 'employee', 'admin')
+  removePushSubscription(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.pushNotifications.unregister(user.id, id);
+  }
+
   @ApiOperation({ summary: 'Stream realtime notifications for the current user' })
   @Sse('stream')
   @Roles('client', 'provider', 'company', 'employee', 'admin')
@@ -7,11 +7,37 @@ import { AuthModule } from '../auth/auth.module';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { EmailQueueService } from './email-queue.service';
 import { AppConfigModule } from '../config/app-config.module';
+import { NotificationAutomationService } from './notification-automation.service';
+import { NotificationDigestService } from './notification-digest.service';
+import { EmailDeliveryService } from './email-delivery.service';
+import { EmailDeliveryController } from './email-delivery.controller';
+import { PushNotificationsService } from './push-notifications.service';
+import { SmsService } from './sms.service';
+import { SmsNotificationsService } from './sms-notifications.service';
+import { SmsStatusController } from './sms-status.controller';
+import { SystemModule } from '../system/system.module';
 
 @Module({
-  imports: [PrismaModule, forwardRef(() => AuthModule), AppConfigModule, ScheduleModule.forRoot()],
-  controllers: [NotificationsController],
-  providers: [NotificationsService, NotificationEventsService, EmailQueueService],
-  exports: [NotificationsService, NotificationEventsService, EmailQueueService],
+  imports: [PrismaModule, forwardRef(() => AuthModule), AppConfigModule, SystemModule, ScheduleModule.forRoot()],
+  controllers: [NotificationsController, EmailDeliveryController, SmsStatusController],
+  providers: [
+    NotificationsService,
+    NotificationEventsService,
+    EmailQueueService,
+    EmailDeliveryService,
+    PushNotificationsService,
+    SmsService,
+    SmsNotificationsService,
+    NotificationAutomationService,
+    NotificationDigestService,
+  ],
+  exports: [
+    NotificationsService,
+    NotificationEventsService,
+    EmailQueueService,
+    EmailDeliveryService,
+    SmsService,
+    NotificationAutomationService,
+  ],
 })
 export class NotificationsModule {}
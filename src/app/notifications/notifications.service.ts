@@ -153,7 +153,7 @@ export class NotificationsService {
     } as Prisma.JsonObject;
     const createdAtIso = new Date().toISOString();
 
-    await this.prisma.notification.createMany({
+    const created = await this.prisma.notification.createManyAndReturn({
       data: uniqueUserIds.map((userId) => ({
         userId,
         type: payload.type,
@@ -166,13 +166,16 @@ export class NotificationsService {
         contextClientId: payload.contextClientId,
         contextMetadata: payload.contextMetadata,
       })),
+      select: { id: true, userId: true },
     });
 
-    const events: NotificationRealtimeEvent[] = uniqueUserIds.map((userId) => ({
-      userId,
+    const events: NotificationRealtimeEvent[] = created.map((notification) => ({
+      userId: notification.userId,
       type: payload.type,
       payload: payload.payload,
       createdAt: createdAtIso,
+      notificationId: notification.id,
+      channel: payload.channel ?? NotificationChannel.IN_APP,
     }));
 
     await this.notificationEvents.broadcastBatch(events);
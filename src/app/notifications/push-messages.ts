@@ -0,0 +1,111 @@
+import { NotificationType } from '@prisma/client';
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  urgency: 'normal' | 'high';
+  data: Record<string, string>;
+}
+
+type PushCopy = Record<NotificationType, { title: string; body: string }> & {
+  events: Record<string, { title: string; body: string }>;
+};
+
+const PUSH_COPY: Record<'de' | 'fr' | 'en', PushCopy> = {
+  de: {
+    BOOKING_STATUS: { title: 'Buchung aktualisiert', body: 'Der Status deiner Buchung hat sich geändert.' },
+    BOOKING_ASSIGNMENT: { title: 'Neuer Einsatz', body: 'Dir wurde ein Einsatz zugewiesen.' },
+    BOOKING_CANCELLATION: { title: 'Buchung storniert', body: 'Eine Buchung wurde storniert.' },
+    BILLING: { title: 'Zahlungen', body: 'Es gibt Neuigkeiten zu deinen Zahlungen.' },
+    SUPPORT_UPDATE: { title: 'Support', body: 'Dein Support-Ticket wurde aktualisiert.' },
+    MATCHING_PROGRESS: { title: 'Suche läuft', body: 'Wir suchen die passende Reinigungskraft.' },
+    IDENTITY_VERIFICATION: { title: 'Identitätsprüfung', body: 'Deine Identitätsprüfung wurde aktualisiert.' },
+    COMPLIANCE: { title: 'Datenschutz', body: 'Deine Datenschutzanfrage wurde aktualisiert.' },
+    events: {
+      short_notice_invitation: {
+        title: 'Kurzfristige Anfrage',
+        body: 'Ein Kunde sucht kurzfristig Unterstützung. Jetzt annehmen, bevor es jemand anderes tut.',
+      },
+      overtime_requested: {
+        title: 'Mehrarbeit bestätigen',
+        body: 'Deine Reinigungskraft war länger vor Ort als gebucht. Bitte bestätige oder lehne die Mehrarbeit ab.',
+      },
+    },
+  },
+  fr: {
+    BOOKING_STATUS: { title: 'Réservation mise à jour', body: 'Le statut de votre réservation a changé.' },
+    BOOKING_ASSIGNMENT: { title: 'Nouvelle mission', body: 'Une mission vous a été attribuée.' },
+    BOOKING_CANCELLATION: { title: 'Réservation annulée', body: 'Une réservation a été annulée.' },
+    BILLING: { title: 'Paiements', body: 'Du nouveau concernant vos paiements.' },
+    SUPPORT_UPDATE: { title: 'Support', body: 'Votre ticket de support a été mis à jour.' },
+    MATCHING_PROGRESS: { title: 'Recherche en cours', body: 'Nous cherchons le prestataire idéal.' },
+    IDENTITY_VERIFICATION: { title: "Vérification d'identité", body: "Votre vérification d'identité a été mise à jour." },
+    COMPLIANCE: { title: 'Données personnelles', body: 'Votre demande RGPD a été mise à jour.' },
+    events: {
+      short_notice_invitation: {
+        title: 'Mission urgente',
+        body: "Un client cherche de l'aide rapidement. Acceptez avant qu'un autre prestataire ne le fasse.",
+      },
+      overtime_requested: {
+        title: 'Heures supplémentaires',
+        body: 'Votre prestataire est resté plus longtemps que prévu. Validez ou refusez les heures supplémentaires.',
+      },
+    },
+  },
+  en: {
+    BOOKING_STATUS: { title: 'Booking updated', body: 'The status of your booking has changed.' },
+    BOOKING_ASSIGNMENT: { title: 'New job', body: 'A job has been assigned to you.' },
+    BOOKING_CANCELLATION: { title: 'Booking cancelled', body: 'A booking has been cancelled.' },
+    BILLING: { title: 'Payments', body: 'There is an update about your payments.' },
+    SUPPORT_UPDATE: { title: 'Support', body: 'Your support ticket has been updated.' },
+    MATCHING_PROGRESS: { title: 'Searching', body: 'We are looking for the right cleaner.' },
+    IDENTITY_VERIFICATION: { title: 'Identity check', body: 'Your identity verification has been updated.' },
+    COMPLIANCE: { title: 'Privacy', body: 'Your privacy request has been updated.' },
+    events: {
+      short_notice_invitation: {
+        title: 'Short-notice request',
+        body: 'A client needs help soon. Accept it before someone else does.',
+      },
+      overtime_requested: {
+        title: 'Confirm overtime',
+        body: 'Your cleaner stayed longer than booked. Please approve or decline the overtime.',
+      },
+    },
+  },
+};
+
+const HIGH_URGENCY_TYPES: NotificationType[] = [NotificationType.BOOKING_ASSIGNMENT, NotificationType.BOOKING_CANCELLATION];
+
+/**
+ * Push notifications are displayed by the OS without the app, so the text is resolved server-side from the
+ * notification type (or a known `payload.event`). Only identifiers travel in `data` for deep links.
+ */
+export function buildPushMessage(
+  type: NotificationType,
+  payload: Record<string, unknown>,
+  locale: string | null | undefined,
+  notificationId?: string
+): PushMessage {
+  const language = (locale ?? 'de').slice(0, 2).toLowerCase();
+  const copy = PUSH_COPY[language as keyof typeof PUSH_COPY] ?? PUSH_COPY.de;
+  const event = typeof payload.event === 'string' ? payload.event : undefined;
+  const text = (event && copy.events[event]) || copy[type];
+
+  const data: Record<string, string> = { type: type.toLowerCase() };
+  if (event) {
+    data.event = event;
+  }
+  if (typeof payload.bookingId === 'string') {
+    data.bookingId = payload.bookingId;
+  }
+  if (notificationId) {
+    data.notificationId = notificationId;
+  }
+
+  return {
+    title: text.title,
+    body: text.body,
+    urgency: HIGH_URGENCY_TYPES.includes(type) ? 'high' : 'normal',
+    data,
+  };
+}
@@ -0,0 +1,122 @@
+import { ConfigService } from '@nestjs/config';
+import { NotificationChannel, NotificationDeliveryStatus, NotificationType, PushPlatform } from '@prisma/client';
+import { createECDH, randomBytes } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { NotificationAdapter, NotificationEventsService } from './notification-events.service';
+import { PushNotificationsService } from './push-notifications.service';
+import { base64UrlEncode } from './web-push';
+
+describe('PushNotificationsService', () => {
+  let adapter: NotificationAdapter;
+  let service: PushNotificationsService;
+  let prisma: {
+    user: { findUnique: jest.Mock };
+    pushSubscription: { update: jest.Mock; deleteMany: jest.Mock; upsert: jest.Mock };
+    notification: { update: jest.Mock };
+  };
+  let fetchMock: jest.SpyInstance;
+
+  const event = (channel: NotificationChannel) => ({
+    userId: 'user_1',
+    type: NotificationType.BOOKING_STATUS,
+    payload: { event: 'booking_confirmed', bookingId: 'booking_1' },
+    createdAt: '2026-03-10T09:00:00.000Z',
+    notificationId: 'notification_1',
+    channel,
+  });
+
+  beforeEach(() => {
+    const server = createECDH('prime256v1');
+    const publicKey = server.generateKeys();
+    const browser = createECDH('prime256v1');
+    const config: Record<string, string> = {
+      'app.vapidPublicKey': base64UrlEncode(publicKey),
+      'app.vapidPrivateKey': base64UrlEncode(server.getPrivateKey()),
+    };
+    prisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({
+          preferredLocale: 'de',
+          notificationPreference: null,
+          pushSubscriptions: [
+            {
+              id: 'sub_1',
+              platform: PushPlatform.WEB,
+              endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+              p256dh: base64UrlEncode(browser.generateKeys()),
+              auth: base64UrlEncode(randomBytes(16)),
+              failureCount: 0,
+            },
+          ],
+        }),
+      },
+      pushSubscription: { update: jest.fn(), deleteMany: jest.fn(), upsert: jest.fn() },
+      notification: { update: jest.fn() },
+    };
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 201 }));
+
+    service = new PushNotificationsService(
+      prisma as unknown as PrismaService,
+      {
+        registerAdapter: (registered: NotificationAdapter) => (adapter = registered),
+      } as unknown as NotificationEventsService,
+      { get: jest.fn((key: string) => config[key]) } as unknown as ConfigService<AppEnvironmentConfig>
+    );
+    service.onModuleInit();
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('delivers in the background with a timeout and keeps the in-app status untouched', async () => {
+    const recorded = new Promise((resolve) =>
+      prisma.notification.update.mockImplementation(async (args) => resolve(args))
+    );
+
+    expect(adapter.handle(event(NotificationChannel.IN_APP))).toBeUndefined();
+
+    await expect(recorded).resolves.toEqual({
+      where: { id: 'notification_1' },
+      data: { pushDeliveryStatus: NotificationDeliveryStatus.SENT, pushErrorCode: null },
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://fcm.googleapis.com/fcm/send/abc',
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it('records the outcome on notifications sent through the push channel', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 410 }));
+    const recorded = new Promise((resolve) =>
+      prisma.notification.update.mockImplementation(async (args) => resolve(args))
+    );
+
+    adapter.handle(event(NotificationChannel.PUSH));
+
+    await expect(recorded).resolves.toMatchObject({
+      data: { deliveryStatus: NotificationDeliveryStatus.FAILED, errorCode: 'PUSH_SUBSCRIPTION_EXPIRED' },
+    });
+    expect(prisma.pushSubscription.deleteMany).toHaveBeenCalledWith({ where: { id: 'sub_1' } });
+  });
+
+  it('does not push notifications meant for other channels', async () => {
+    adapter.handle(event(NotificationChannel.EMAIL));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses web subscriptions outside the known push services', async () => {
+    await expect(
+      service.register('user_1', {
+        platform: PushPlatform.WEB,
+        endpoint: 'https://169.254.169.254/latest/meta-data',
+        keys: { p256dh: 'key', auth: 'auth' },
+      })
+    ).rejects.toThrow('PUSH_SUBSCRIPTION_INVALID');
+    expect(prisma.pushSubscription.upsert).not.toHaveBeenCalled();
+  });
+});
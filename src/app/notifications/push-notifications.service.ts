@@ -0,0 +1,302 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotificationChannel, NotificationDeliveryStatus, PushPlatform } from '@prisma/client';
+import type { NotificationPreference, PushSubscription } from '@prisma/client';
+import type { PushConfigResponse, PushSubscriptionSummary } from '@saubio/models';
+import { JWT } from 'google-auth-library';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { NotificationEventsService, NotificationRealtimeEvent } from './notification-events.service';
+import { buildPushMessage, PushMessage } from './push-messages';
+import { buildVapidAuthorization, encryptWebPushPayload, isAllowedPushEndpoint, VapidKeys } from './web-push';
+import { RegisterPushSubscriptionDto } from './dto/register-push-subscription.dto';
+
+type PushOutcome = 'sent' | 'expired' | 'failed';
+
+const PUSH_TTL_SECONDS = 60 * 60;
+const PUSH_REQUEST_TIMEOUT_MS = 10_000;
+/** Push mirrors in-app notifications; notifications meant for e-mail or SMS only are not pushed. */
+const PUSHED_CHANNELS: NotificationChannel[] = [NotificationChannel.IN_APP, NotificationChannel.PUSH];
+const MAX_CONSECUTIVE_FAILURES = 10;
+const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+
+/**
+ * Delivers notifications to registered browsers (Web Push) and mobile devices (FCM). Registered as a
+ * {@link NotificationEventsService} adapter, so every emitted notification is considered for push. Delivery runs in
+ * the background so a slow push service never holds up the flow that emitted the notification.
+ */
+@Injectable()
+export class PushNotificationsService implements OnModuleInit {
+  private readonly logger = new Logger(PushNotificationsService.name);
+  private readonly vapid: VapidKeys | null;
+  private readonly fcmProjectId?: string;
+  private readonly fcmClient: JWT | null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationEvents: NotificationEventsService,
+    configService: ConfigService<AppEnvironmentConfig>
+  ) {
+    const publicKey = configService.get('app.vapidPublicKey' as keyof AppEnvironmentConfig) as string | undefined;
+    const privateKey = configService.get('app.vapidPrivateKey' as keyof AppEnvironmentConfig) as string | undefined;
+    const subject = configService.get('app.vapidSubject' as keyof AppEnvironmentConfig) as string | undefined;
+    this.vapid = publicKey && privateKey ? { publicKey, privateKey, subject: subject ?? 'mailto:support@saubio.de' } : null;
+
+    this.fcmProjectId = configService.get('app.fcmProjectId' as keyof AppEnvironmentConfig) as string | undefined;
+    const fcmClientEmail = configService.get('app.fcmClientEmail' as keyof AppEnvironmentConfig) as string | undefined;
+    const fcmPrivateKey = configService.get('app.fcmPrivateKey' as keyof AppEnvironmentConfig) as string | undefined;
+    this.fcmClient =
+      this.fcmProjectId && fcmClientEmail && fcmPrivateKey
+        ? new JWT({ email: fcmClientEmail, key: fcmPrivateKey, scopes: [FCM_SCOPE] })
+        : null;
+  }
+
+  onModuleInit() {
+    this.notificationEvents.registerAdapter({
+      name: 'push',
+      handle: (event) => {
+        void this.deliver(event).catch((error) =>
+          this.logger.warn(
+            `Push delivery for user ${event.userId} failed: ${error instanceof Error ? error.message : String(error)}`
+          )
+        );
+      },
+    });
+  }
+
+  getConfig(): PushConfigResponse {
+    return {
+      webPushEnabled: this.vapid !== null,
+      vapidPublicKey: this.vapid?.publicKey ?? null,
+      fcmEnabled: this.fcmClient !== null,
+    };
+  }
+
+  async listSubscriptions(userId: string): Promise<PushSubscriptionSummary[]> {
+    const subscriptions = await this.prisma.pushSubscription.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return subscriptions.map((subscription) => this.toSummary(subscription));
+  }
+
+  /**
+   * Registering a device opts the user into the push channel. An endpoint that was registered by another
+   * account on the same device moves to the current user.
+   */
+  async register(userId: string, dto: RegisterPushSubscriptionDto): Promise<PushSubscriptionSummary> {
+    if (dto.platform === PushPlatform.WEB) {
+      if (!isAllowedPushEndpoint(dto.endpoint) || !dto.keys?.p256dh || !dto.keys?.auth) {
+        throw new BadRequestException('PUSH_SUBSCRIPTION_INVALID');
+      }
+    }
+
+    const data = {
+      userId,
+      platform: dto.platform,
+      p256dh: dto.platform === PushPlatform.WEB ? dto.keys?.p256dh : null,
+      auth: dto.platform === PushPlatform.WEB ? dto.keys?.auth : null,
+      userAgent: dto.userAgent ?? null,
+      failureCount: 0,
+    };
+    const subscription = await this.prisma.pushSubscription.upsert({
+      where: { endpoint: dto.endpoint },
+      create: { ...data, endpoint: dto.endpoint },
+      update: data,
+    });
+
+    const preference = await this.prisma.notificationPreference.findUnique({ where: { userId } });
+    if (!preference) {
+      await this.prisma.notificationPreference.create({
+        data: { userId, channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH], mutedTypes: [] },
+      });
+    } else if (!preference.channels.includes(NotificationChannel.PUSH)) {
+      await this.prisma.notificationPreference.update({
+        where: { userId },
+        data: { channels: { push: NotificationChannel.PUSH } },
+      });
+    }
+    return this.toSummary(subscription);
+  }
+
+  async unregister(userId: string, id: string) {
+    const result = await this.prisma.pushSubscription.deleteMany({ where: { id, userId } });
+    if (!result.count) {
+      throw new NotFoundException('PUSH_SUBSCRIPTION_NOT_FOUND');
+    }
+    return { success: true };
+  }
+
+  private async deliver(event: NotificationRealtimeEvent) {
+    if (event.channel && !PUSHED_CHANNELS.includes(event.channel)) {
+      return;
+    }
+    const user = await this.prisma.user.findUnique({
+      where: { id: event.userId },
+      select: {
+        preferredLocale: true,
+        notificationPreference: true,
+        pushSubscriptions: true,
+      },
+    });
+    if (!user || !this.allowsPush(user.notificationPreference, event)) {
+      return;
+    }
+    // Subscriptions for a transport that is not configured here are kept for when it is.
+    const subscriptions = user.pushSubscriptions.filter((subscription) =>
+      subscription.platform === PushPlatform.WEB ? this.vapid !== null : this.fcmClient !== null
+    );
+    if (!subscriptions.length) {
+      return;
+    }
+
+    const message = buildPushMessage(
+      event.type,
+      event.payload,
+      user.notificationPreference?.language ?? user.preferredLocale,
+      event.notificationId
+    );
+    const outcomes = await Promise.all(
+      subscriptions.map((subscription) => this.sendToSubscription(subscription, message))
+    );
+    await this.recordDeliveryStatus(event, outcomes);
+  }
+
+  private allowsPush(preference: NotificationPreference | null, event: NotificationRealtimeEvent) {
+    if (!preference) {
+      return true;
+    }
+    return preference.channels.includes(NotificationChannel.PUSH) && !preference.mutedTypes.includes(event.type);
+  }
+
+  private async sendToSubscription(subscription: PushSubscription, message: PushMessage): Promise<PushOutcome> {
+    let outcome: PushOutcome;
+    try {
+      outcome =
+        subscription.platform === PushPlatform.WEB
+          ? await this.sendWebPush(subscription, message)
+          : await this.sendFcm(subscription, message);
+    } catch (error) {
+      this.logger.warn(
+        `Push delivery to subscription ${subscription.id} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      outcome = 'failed';
+    }
+
+    if (outcome === 'expired' || (outcome === 'failed' && subscription.failureCount + 1 >= MAX_CONSECUTIVE_FAILURES)) {
+      await this.prisma.pushSubscription.deleteMany({ where: { id: subscription.id } });
+    } else if (outcome === 'failed') {
+      await this.prisma.pushSubscription.update({
+        where: { id: subscription.id },
+        data: { failureCount: { increment: 1 } },
+      });
+    } else {
+      await this.prisma.pushSubscription.update({
+        where: { id: subscription.id },
+        data: { failureCount: 0, lastSuccessAt: new Date() },
+      });
+    }
+    return outcome;
+  }
+
+  private async sendWebPush(subscription: PushSubscription, message: PushMessage): Promise<PushOutcome> {
+    if (!isAllowedPushEndpoint(subscription.endpoint)) {
+      return 'expired';
+    }
+    if (!this.vapid || !subscription.p256dh || !subscription.auth) {
+      return 'failed';
+    }
+    const body = encryptWebPushPayload(
+      Buffer.from(JSON.stringify({ title: message.title, body: message.body, data: message.data })),
+      { p256dh: subscription.p256dh, auth: subscription.auth }
+    );
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: buildVapidAuthorization(subscription.endpoint, this.vapid),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(PUSH_TTL_SECONDS),
+        Urgency: message.urgency,
+      },
+      body,
+      signal: AbortSignal.timeout(PUSH_REQUEST_TIMEOUT_MS),
+    });
+    if (response.status === 404 || response.status === 410) {
+      return 'expired';
+    }
+    if (!response.ok) {
+      throw new Error(`Push service responded ${response.status}: ${(await response.text()) || 'Unknown error'}`);
+    }
+    return 'sent';
+  }
+
+  private async sendFcm(subscription: PushSubscription, message: PushMessage): Promise<PushOutcome> {
+    if (!this.fcmClient || !this.fcmProjectId) {
+      return 'failed';
+    }
+    const { token } = await this.fcmClient.getAccessToken();
+    const response = await fetch(`https://fcm.googleapis.com/v1/projects/${this.fcmProjectId}/messages:send`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        message: {
+          token: subscription.endpoint,
+          notification: { title: message.title, body: message.body },
+          data: message.data,
+          android: { priority: message.urgency === 'high' ? 'high' : 'normal', ttl: `${PUSH_TTL_SECONDS}s` },
+          apns: { headers: { 'apns-priority': message.urgency === 'high' ? '10' : '5' } },
+        },
+      }),
+      signal: AbortSignal.timeout(PUSH_REQUEST_TIMEOUT_MS),
+    });
+    if (response.ok) {
+      return 'sent';
+    }
+    const text = await response.text();
+    if (response.status === 404 || text.includes('UNREGISTERED')) {
+      return 'expired';
+    }
+    throw new Error(`FCM responded ${response.status}: ${text || 'Unknown error'}`);
+  }
+
+  /**
+   * Push notifications carry their own delivery status. For an in-app notification that is mirrored to push, the
+   * push outcome is kept apart so it does not overwrite the in-app status.
+   */
+  private async recordDeliveryStatus(event: NotificationRealtimeEvent, outcomes: PushOutcome[]) {
+    if (!event.notificationId) {
+      return;
+    }
+    const sent = outcomes.includes('sent');
+    const errorCode = sent
+      ? null
+      : outcomes.every((outcome) => outcome === 'expired')
+        ? 'PUSH_SUBSCRIPTION_EXPIRED'
+        : 'PUSH_DELIVERY_FAILED';
+    const status = sent ? NotificationDeliveryStatus.SENT : NotificationDeliveryStatus.FAILED;
+    await this.prisma.notification.update({
+      where: { id: event.notificationId },
+      data:
+        event.channel === NotificationChannel.PUSH
+          ? {
+              deliveryStatus: status,
+              errorCode,
+              errorMessage: sent ? null : `No push subscription accepted the notification (${outcomes.length} tried)`,
+            }
+          : { pushDeliveryStatus: status, pushErrorCode: errorCode },
+    });
+  }
+
+  private toSummary(subscription: PushSubscription): PushSubscriptionSummary {
+    return {
+      id: subscription.id,
+      platform: subscription.platform.toLowerCase() as PushSubscriptionSummary['platform'],
+      userAgent: subscription.userAgent ?? null,
+      createdAt: subscription.createdAt.toISOString(),
+      lastSuccessAt: subscription.lastSuccessAt?.toISOString() ?? null,
+    };
+  }
+}
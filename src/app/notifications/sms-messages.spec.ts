@@ -0,0 +1,28 @@
+import { isSmsRateLimited, renderSmsTemplate, SMS_TEMPLATES } from './sms-messages';
+
+describe('sms-messages', () => {
+  const startAt = '2026-01-21T08:30:00.000Z';
+
+  it('renders localized booking messages in Berlin time', () => {
+    expect(renderSmsTemplate(SMS_TEMPLATES.reminder, { locale: 'de', startAt, city: 'Berlin' })).toBe(
+      'Saubio: Erinnerung an deinen Termin Mi., 21.01., 09:30 in Berlin.'
+    );
+    expect(
+      renderSmsTemplate(SMS_TEMPLATES.providerOnTheWay, { locale: 'fr-FR', providerName: 'Anna', etaMinutes: 15 })
+    ).toBe('Saubio : Anna est en route, arrivée dans env. 15 min.');
+    expect(renderSmsTemplate(SMS_TEMPLATES.shortNoticeInvitation, { locale: 'en' })).toBeNull();
+  });
+
+  it('truncates long generic messages', () => {
+    const text = renderSmsTemplate(SMS_TEMPLATES.generic, { title: 'Update', body: 'x'.repeat(400) });
+
+    expect(text).toHaveLength(306);
+    expect(text?.endsWith('...')).toBe(true);
+  });
+
+  it('limits messages per hour and per day', () => {
+    expect(isSmsRateLimited(2, 9)).toBe(false);
+    expect(isSmsRateLimited(3, 3)).toBe(true);
+    expect(isSmsRateLimited(0, 10)).toBe(true);
+  });
+});
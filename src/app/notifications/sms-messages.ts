@@ -0,0 +1,103 @@
+export const SMS_TEMPLATES = {
+  shortNoticeInvitation: 'booking.short_notice_invitation',
+  reminder: 'booking.reminder',
+  providerOnTheWay: 'booking.provider_on_the_way',
+  generic: 'notification.generic',
+} as const;
+
+export type SmsTemplate = (typeof SMS_TEMPLATES)[keyof typeof SMS_TEMPLATES];
+
+/** Notification events that are worth an SMS; everything else stays in-app, push or email. */
+export const SMS_EVENT_TEMPLATES: Record<string, SmsTemplate> = {
+  short_notice_invitation: SMS_TEMPLATES.shortNoticeInvitation,
+  booking_reminder: SMS_TEMPLATES.reminder,
+  provider_on_the_way: SMS_TEMPLATES.providerOnTheWay,
+};
+
+export const SMS_RATE_LIMITS = { perHour: 3, perDay: 10 };
+
+// Two GSM-7 segments; longer texts are cut rather than billed as extra segments.
+const MAX_SMS_LENGTH = 306;
+const TIME_ZONE = 'Europe/Berlin';
+
+interface SmsPayload {
+  locale?: string | null;
+  startAt?: Date | string | null;
+  city?: string | null;
+  providerName?: string | null;
+  etaMinutes?: number | null;
+  title?: string | null;
+  body?: string | null;
+}
+
+const SMS_COPY = {
+  de: {
+    dateLocale: 'de-DE',
+    shortNoticeInvitation: (when: string, city: string) =>
+      `Saubio: Kurzfristige Anfrage ${when}${city ? ` in ${city}` : ''}. Jetzt in der App annehmen.`,
+    reminder: (when: string, city: string) =>
+      `Saubio: Erinnerung an deinen Termin ${when}${city ? ` in ${city}` : ''}.`,
+    providerOnTheWay: (name: string, eta: number | null) =>
+      `Saubio: ${name || 'Deine Reinigungskraft'} ist unterwegs${eta ? ` und in ca. ${eta} Min. bei dir` : ''}.`,
+  },
+  fr: {
+    dateLocale: 'fr-FR',
+    shortNoticeInvitation: (when: string, city: string) =>
+      `Saubio : mission urgente ${when}${city ? ` à ${city}` : ''}. Acceptez-la dans l'app.`,
+    reminder: (when: string, city: string) => `Saubio : rappel de votre rendez-vous ${when}${city ? ` à ${city}` : ''}.`,
+    providerOnTheWay: (name: string, eta: number | null) =>
+      `Saubio : ${name || 'Votre prestataire'} est en route${eta ? `, arrivée dans env. ${eta} min` : ''}.`,
+  },
+  en: {
+    dateLocale: 'en-GB',
+    shortNoticeInvitation: (when: string, city: string) =>
+      `Saubio: short-notice request ${when}${city ? ` in ${city}` : ''}. Accept it in the app.`,
+    reminder: (when: string, city: string) => `Saubio: reminder of your appointment ${when}${city ? ` in ${city}` : ''}.`,
+    providerOnTheWay: (name: string, eta: number | null) =>
+      `Saubio: ${name || 'Your cleaner'} is on the way${eta ? ` and arrives in about ${eta} min` : ''}.`,
+  },
+};
+
+/** Renders the SMS text for a template, or null when the payload lacks what the template needs. */
+export function renderSmsTemplate(template: string, payload: SmsPayload): string | null {
+  const locale = (payload.locale ?? 'de').slice(0, 2).toLowerCase();
+  const copy = SMS_COPY[locale as keyof typeof SMS_COPY] ?? SMS_COPY.de;
+  const city = payload.city?.trim() ?? '';
+
+  let text: string | null = null;
+  switch (template) {
+    case SMS_TEMPLATES.shortNoticeInvitation:
+      text = payload.startAt ? copy.shortNoticeInvitation(formatWhen(payload.startAt, copy.dateLocale), city) : null;
+      break;
+    case SMS_TEMPLATES.reminder:
+      text = payload.startAt ? copy.reminder(formatWhen(payload.startAt, copy.dateLocale), city) : null;
+      break;
+    case SMS_TEMPLATES.providerOnTheWay:
+      text = copy.providerOnTheWay(payload.providerName?.trim() ?? '', payload.etaMinutes ?? null);
+      break;
+    case SMS_TEMPLATES.generic: {
+      const parts = [payload.title?.trim(), payload.body?.trim()].filter(Boolean);
+      text = parts.length ? `Saubio: ${parts.join(' - ')}` : null;
+      break;
+    }
+  }
+  if (!text) {
+    return null;
+  }
+  return text.length > MAX_SMS_LENGTH ? `${text.slice(0, MAX_SMS_LENGTH - 3)}...` : text;
+}
+
+export function isSmsRateLimited(sentLastHour: number, sentLastDay: number) {
+  return sentLastHour >= SMS_RATE_LIMITS.perHour || sentLastDay >= SMS_RATE_LIMITS.perDay;
+}
+
+function formatWhen(value: Date | string, dateLocale: string) {
+  return new Date(value).toLocaleString(dateLocale, {
+    timeZone: TIME_ZONE,
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,149 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotificationChannel, NotificationType, SmsMessageStatus, WebhookDeliveryStatus } from '@prisma/client';
+import twilio from 'twilio';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { SystemObservabilityService } from '../system/system-observability.service';
+import { NotificationAdapter, NotificationEventsService } from './notification-events.service';
+import { NotificationsService } from './notifications.service';
+import { SmsNotificationsService } from './sms-notifications.service';
+import { SmsService } from './sms.service';
+
+describe('SmsNotificationsService', () => {
+  const authToken = 'twilio-auth-token';
+  const callbackUrl = 'https://api.saubio.de/api/notifications/sms/status';
+  let adapter: NotificationAdapter;
+  let sms: SmsService;
+  let sendMessage: jest.SpyInstance;
+  let service: SmsNotificationsService;
+  let channels: NotificationChannel[];
+  let prisma: {
+    user: { findUnique: jest.Mock };
+    booking: { findUnique: jest.Mock };
+    smsMessage: { count: jest.Mock; create: jest.Mock; update: jest.Mock; findUnique: jest.Mock };
+  };
+  let observability: { recordWebhookEvent: jest.Mock; updateWebhookEvent: jest.Mock };
+
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+  const event = (payload: Record<string, unknown>, channel: NotificationChannel = NotificationChannel.IN_APP) => ({
+    userId: 'user_1',
+    type: NotificationType.BOOKING_STATUS,
+    payload,
+    createdAt: '2026-03-10T09:00:00.000Z',
+    channel,
+  });
+
+  beforeEach(() => {
+    const values: Record<string, unknown> = {
+      app: {
+        twilioAccountSid: `AC${'0'.repeat(32)}`,
+        twilioAuthToken: authToken,
+        twilioFromNumber: '+4930123456',
+      },
+      'app.apiPublicUrl': 'https://api.saubio.de/api',
+    };
+    const config = { get: jest.fn((key: string) => values[key]) } as unknown as ConfigService<AppEnvironmentConfig>;
+    sms = new SmsService(config);
+    sendMessage = jest.spyOn(sms, 'sendMessage').mockResolvedValue({ sid: 'SM1', status: 'queued' } as never);
+
+    channels = [NotificationChannel.IN_APP, NotificationChannel.SMS];
+    prisma = {
+      user: {
+        findUnique: jest.fn(async () => ({
+          phone: '+4915112345678',
+          preferredLocale: 'de',
+          notificationPreference: { channels, mutedTypes: [], language: 'de' },
+        })),
+      },
+      booking: {
+        findUnique: jest.fn().mockResolvedValue({ startAt: new Date('2026-01-21T08:30:00Z'), addressCity: 'Berlin' }),
+      },
+      smsMessage: {
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn().mockResolvedValue({ id: 'sms_1' }),
+        update: jest.fn(),
+        findUnique: jest.fn().mockResolvedValue({ id: 'sms_1', userId: 'user_1' }),
+      },
+    };
+    observability = {
+      recordWebhookEvent: jest.fn().mockResolvedValue({ id: 'log_1' }),
+      updateWebhookEvent: jest.fn(),
+    };
+
+    service = new SmsNotificationsService(
+      prisma as unknown as PrismaService,
+      sms,
+      {
+        registerAdapter: (registered: NotificationAdapter) => (adapter = registered),
+      } as unknown as NotificationEventsService,
+      {} as NotificationsService,
+      observability as unknown as SystemObservabilityService,
+      config
+    );
+    service.onModuleInit();
+  });
+
+  it('sends the template of SMS-worthy events in the background', async () => {
+    expect(adapter.handle(event({ event: 'booking_reminder', bookingId: 'booking_1' }))).toBeUndefined();
+    expect(sendMessage).not.toHaveBeenCalled();
+    await settle();
+
+    expect(sendMessage).toHaveBeenCalledWith(
+      '+4915112345678',
+      'Saubio: Erinnerung an deinen Termin Mi., 21.01., 09:30 in Berlin.',
+      callbackUrl
+    );
+    expect(prisma.smsMessage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ template: 'booking.reminder', bookingId: 'booking_1' }),
+    });
+  });
+
+  it('uses the generic template only for notifications sent through the SMS channel', async () => {
+    adapter.handle(event({ event: 'booking_confirmed', bookingId: 'booking_1' }));
+    await settle();
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+
+    adapter.handle(event({ title: 'Update', body: 'Neue Nachricht' }, NotificationChannel.SMS));
+    await settle();
+    expect(sendMessage).toHaveBeenCalledWith('+4915112345678', expect.stringContaining('Neue Nachricht'), callbackUrl);
+  });
+
+  it('skips users who did not opt into SMS', async () => {
+    channels = [NotificationChannel.IN_APP];
+    adapter.handle(event({ event: 'provider_on_the_way', providerName: 'Anna' }));
+    await settle();
+
+    expect(prisma.user.findUnique).toHaveBeenCalled();
+    expect(prisma.smsMessage.create).not.toHaveBeenCalled();
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('applies status callbacks that carry a valid Twilio signature', async () => {
+    const params = { MessageSid: 'SM1', MessageStatus: 'delivered' };
+    const signature = twilio.getExpectedTwilioSignature(authToken, callbackUrl, params);
+
+    await expect(service.handleStatusCallback(params, signature, {})).resolves.toEqual({ received: true });
+    expect(prisma.smsMessage.update).toHaveBeenCalledWith({
+      where: { id: 'sms_1' },
+      data: expect.objectContaining({ status: SmsMessageStatus.DELIVERED }),
+    });
+    expect(observability.updateWebhookEvent).toHaveBeenCalledWith(
+      'log_1',
+      expect.objectContaining({ status: WebhookDeliveryStatus.PROCESSED })
+    );
+  });
+
+  it('rejects status callbacks with a forged signature', async () => {
+    const params = { MessageSid: 'SM1', MessageStatus: 'delivered' };
+    const forged = twilio.getExpectedTwilioSignature('another-token', callbackUrl, params);
+
+    await expect(service.handleStatusCallback(params, forged, {})).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.handleStatusCallback(params, undefined, {})).rejects.toBeInstanceOf(ForbiddenException);
+    expect(prisma.smsMessage.update).not.toHaveBeenCalled();
+    expect(observability.updateWebhookEvent).toHaveBeenCalledWith(
+      'log_1',
+      expect.objectContaining({ status: WebhookDeliveryStatus.FAILED, errorMessage: 'SMS_CALLBACK_SIGNATURE_INVALID' })
+    );
+  });
+});
@@ -0,0 +1,254 @@
+import { ForbiddenException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  BookingStatus,
+  NotificationChannel,
+  NotificationType,
+  SmsMessageStatus,
+  WebhookDeliveryStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import type { AppEnvironmentConfig } from '../config/configuration';
+import { SystemObservabilityService } from '../system/system-observability.service';
+import { NotificationEventsService, NotificationRealtimeEvent } from './notification-events.service';
+import { NotificationsService } from './notifications.service';
+import { isSmsRateLimited, renderSmsTemplate, SMS_EVENT_TEMPLATES, SMS_TEMPLATES } from './sms-messages';
+import { SmsService } from './sms.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const REMINDER_LEAD_MS = 24 * HOUR_MS;
+
+const TWILIO_STATUSES: Record<string, SmsMessageStatus> = {
+  queued: SmsMessageStatus.QUEUED,
+  accepted: SmsMessageStatus.QUEUED,
+  sending: SmsMessageStatus.QUEUED,
+  sent: SmsMessageStatus.SENT,
+  delivered: SmsMessageStatus.DELIVERED,
+  undelivered: SmsMessageStatus.UNDELIVERED,
+  failed: SmsMessageStatus.FAILED,
+};
+
+/**
+ * SMS as a notification channel. Only a few time-critical events are sent by SMS, and only to users who
+ * added SMS to their notification channels and have a phone number. Sending runs in the background so the
+ * flow that emitted the notification never waits on Twilio.
+ */
+@Injectable()
+export class SmsNotificationsService implements OnModuleInit {
+  private readonly logger = new Logger(SmsNotificationsService.name);
+  private isProcessingReminders = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sms: SmsService,
+    private readonly notificationEvents: NotificationEventsService,
+    private readonly notifications: NotificationsService,
+    private readonly observability: SystemObservabilityService,
+    private readonly configService: ConfigService<AppEnvironmentConfig>
+  ) {}
+
+  onModuleInit() {
+    this.notificationEvents.registerAdapter({
+      name: 'sms',
+      handle: (event) => {
+        void this.deliver(event).catch((error) =>
+          this.logger.warn(
+            `SMS delivery for user ${event.userId} failed: ${error instanceof Error ? error.message : String(error)}`
+          )
+        );
+      },
+    });
+  }
+
+  /** Emits the day-before reminder for confirmed bookings; the dedupe key keeps overlapping runs from repeating it. */
+  @Cron(CronExpression.EVERY_HOUR)
+  async sendDayBeforeReminders() {
+    if (this.isProcessingReminders) {
+      return;
+    }
+    this.isProcessingReminders = true;
+    try {
+      const now = Date.now();
+      const bookings = await this.prisma.booking.findMany({
+        where: {
+          status: BookingStatus.CONFIRMED,
+          startAt: { gte: new Date(now + REMINDER_LEAD_MS), lt: new Date(now + REMINDER_LEAD_MS + HOUR_MS) },
+        },
+        select: {
+          id: true,
+          clientId: true,
+          assignments: { select: { provider: { select: { userId: true } } } },
+        },
+      });
+
+      for (const booking of bookings) {
+        try {
+          const userIds = [
+            ...(booking.clientId ? [booking.clientId] : []),
+            ...booking.assignments.map((assignment) => assignment.provider.userId),
+          ];
+          await this.notifications.emit({
+            userIds,
+            type: NotificationType.BOOKING_STATUS,
+            payload: { event: 'booking_reminder', bookingId: booking.id },
+            bookingId: booking.id,
+            contextClientId: booking.clientId ?? undefined,
+            dedupeKey: `booking_reminder:${booking.id}`,
+          });
+        } catch (error) {
+          this.logger.warn(
+            `Unable to send reminder for booking ${booking.id}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    } finally {
+      this.isProcessingReminders = false;
+    }
+  }
+
+  /** Records a Twilio status callback in the webhook log and mirrors the status on the message. */
+  async handleStatusCallback(
+    params: Record<string, string>,
+    signature: string | undefined,
+    headers: Record<string, string> | undefined
+  ) {
+    const signatureValid = this.sms.isValidCallback(signature, this.statusCallbackUrl(), params);
+    const sid = params.MessageSid ?? params.SmsSid;
+    const twilioStatus = (params.MessageStatus ?? params.SmsStatus ?? '').toLowerCase();
+    const log = await this.observability.recordWebhookEvent({
+      provider: 'twilio',
+      eventType: twilioStatus ? `sms.${twilioStatus}` : 'sms.status',
+      resourceId: sid ?? null,
+      headers,
+      payload: params,
+      signatureValid,
+    });
+
+    if (!signatureValid) {
+      await this.observability.updateWebhookEvent(log.id, {
+        status: WebhookDeliveryStatus.FAILED,
+        processedAt: new Date(),
+        errorMessage: 'SMS_CALLBACK_SIGNATURE_INVALID',
+      });
+      throw new ForbiddenException('SMS_CALLBACK_SIGNATURE_INVALID');
+    }
+
+    const status = TWILIO_STATUSES[twilioStatus];
+    const message = sid
+      ? await this.prisma.smsMessage.findUnique({ where: { providerMessageId: sid }, select: { id: true, userId: true } })
+      : null;
+    if (message && status) {
+      await this.prisma.smsMessage.update({
+        where: { id: message.id },
+        data: {
+          status,
+          errorCode: params.ErrorCode ?? null,
+          ...(status === SmsMessageStatus.DELIVERED ? { deliveredAt: new Date() } : {}),
+        },
+      });
+    }
+    await this.observability.updateWebhookEvent(log.id, {
+      status: message ? WebhookDeliveryStatus.PROCESSED : WebhookDeliveryStatus.IGNORED,
+      processedAt: new Date(),
+      userId: message?.userId ?? undefined,
+    });
+    return { received: true };
+  }
+
+  private async deliver(event: NotificationRealtimeEvent) {
+    const eventName = typeof event.payload.event === 'string' ? event.payload.event : undefined;
+    const template =
+      (eventName && SMS_EVENT_TEMPLATES[eventName]) ||
+      (event.channel === NotificationChannel.SMS ? SMS_TEMPLATES.generic : undefined);
+    if (!template || !this.sms.isEnabled()) {
+      return;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: event.userId },
+      select: { phone: true, preferredLocale: true, notificationPreference: true },
+    });
+    const preference = user?.notificationPreference;
+    if (
+      !user?.phone ||
+      !preference?.channels.includes(NotificationChannel.SMS) ||
+      preference.mutedTypes.includes(event.type)
+    ) {
+      return;
+    }
+
+    const bookingId = typeof event.payload.bookingId === 'string' ? event.payload.bookingId : null;
+    const booking = bookingId
+      ? await this.prisma.booking.findUnique({ where: { id: bookingId }, select: { startAt: true, addressCity: true } })
+      : null;
+    const body = renderSmsTemplate(template, {
+      locale: preference.language ?? user.preferredLocale,
+      startAt: booking?.startAt,
+      city: booking?.addressCity,
+      providerName: typeof event.payload.providerName === 'string' ? event.payload.providerName : null,
+      etaMinutes: typeof event.payload.etaMinutes === 'number' ? event.payload.etaMinutes : null,
+      title: typeof event.payload.title === 'string' ? event.payload.title : null,
+      body: typeof event.payload.body === 'string' ? event.payload.body : null,
+    });
+    if (!body) {
+      return;
+    }
+
+    await this.send({ userId: event.userId, to: user.phone, template, body, bookingId: booking ? bookingId : null });
+  }
+
+  private async send(input: { userId: string; to: string; template: string; body: string; bookingId: string | null }) {
+    const now = Date.now();
+    const counted = { userId: input.userId, status: { not: SmsMessageStatus.RATE_LIMITED } };
+    const [sentLastHour, sentLastDay] = await Promise.all([
+      this.prisma.smsMessage.count({ where: { ...counted, createdAt: { gte: new Date(now - HOUR_MS) } } }),
+      this.prisma.smsMessage.count({ where: { ...counted, createdAt: { gte: new Date(now - 24 * HOUR_MS) } } }),
+    ]);
+    const rateLimited = isSmsRateLimited(sentLastHour, sentLastDay);
+
+    const message = await this.prisma.smsMessage.create({
+      data: {
+        ...input,
+        status: rateLimited ? SmsMessageStatus.RATE_LIMITED : SmsMessageStatus.QUEUED,
+      },
+    });
+    if (rateLimited) {
+      this.logger.warn(`SMS ${input.template} to user ${input.userId} skipped: rate limit reached`);
+      return;
+    }
+
+    try {
+      const result = await this.sms.sendMessage(input.to, input.body, this.statusCallbackUrl());
+      await this.prisma.smsMessage.update({
+        where: { id: message.id },
+        data: {
+          providerMessageId: result.sid,
+          status: TWILIO_STATUSES[result.status] ?? SmsMessageStatus.QUEUED,
+          sentAt: new Date(),
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to send SMS ${input.template} to user ${input.userId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      await this.prisma.smsMessage.update({
+        where: { id: message.id },
+        data: {
+          status: SmsMessageStatus.FAILED,
+          errorCode: error instanceof Error ? error.message.slice(0, 200) : String(error),
+        },
+      });
+    }
+  }
+
+  private statusCallbackUrl() {
+    const apiBase = this.configService.get('app.apiPublicUrl' as keyof AppEnvironmentConfig);
+    const appUrl = this.configService.get('app.appUrl' as keyof AppEnvironmentConfig) ?? 'http://localhost:3000';
+    const base =
+      typeof apiBase === 'string' && apiBase.trim().length ? apiBase.trim().replace(/\/+$/, '') : `${appUrl}/api`;
+    return `${base}/notifications/sms/status`;
+  }
+}
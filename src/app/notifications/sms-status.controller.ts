@@ -0,0 +1,20 @@
+import { Body, Controller, Headers, HttpCode, Post } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { SmsNotificationsService } from './sms-notifications.service';
+
+/** Twilio delivery-status callback; authenticated by the `X-Twilio-Signature` header. */
+@ApiTags('notifications')
+@Controller('notifications/sms')
+export class SmsStatusController {
+  constructor(private readonly smsNotifications: SmsNotificationsService) {}
+
+  @Post('status')
+  @HttpCode(200)
+  status(
+    @Body() body: Record<string, string>,
+    @Headers('x-twilio-signature') signature: string | undefined,
+    @Headers() headers: Record<string, string>
+  ) {
+    return this.smsNotifications.handleStatusCallback(body ?? {}, signature, headers);
+  }
+}
@@ -3,9 +3,12 @@ import { ConfigService } from '@nestjs/config';
 import type { AppEnvironmentConfig } from '../config/configuration';
 import twilio, { Twilio } from 'twilio';
 
+const TWILIO_REQUEST_TIMEOUT_MS = 10_000;
+
 @Injectable()
 export class SmsService {
   private readonly client?: Twilio;
+  private readonly authToken?: string;
   private readonly fromNumber?: string;
   private readonly logger = new Logger(SmsService.name);
 
@@ -13,10 +16,11 @@ export class SmsService {
     const appConfig = this.configService.get<AppEnvironmentConfig>('app' as never);
     const accountSid = appConfig?.twilioAccountSid?.trim();
     const authToken = appConfig?.twilioAuthToken?.trim();
+    this.authToken = authToken;
     this.fromNumber = appConfig?.twilioFromNumber?.trim();
 
     if (accountSid && authToken) {
-      this.client = twilio(accountSid, authToken);
+      this.client = twilio(accountSid, authToken, { timeout: TWILIO_REQUEST_TIMEOUT_MS });
     } else {
       this.logger.warn('Twilio credentials missing. SMS verification is disabled.');
       this.client = undefined;
@@ -39,4 +43,27 @@ export class SmsService {
       body: `Votre code de vérification Saubio est ${code}`,
     });
   }
+
+  /** Sends a notification SMS; Twilio reports delivery to `statusCallback` when given. */
+  async sendMessage(phoneNumber: string, body: string, statusCallback?: string) {
+    if (!this.client || !this.fromNumber) {
+      throw new Error('SMS_DISABLED');
+    }
+
+    const message = await this.client.messages.create({
+      to: phoneNumber,
+      from: this.fromNumber,
+      body,
+      ...(statusCallback ? { statusCallback } : {}),
+    });
+    return { sid: message.sid, status: message.status };
+  }
+
+  /** Checks the `X-Twilio-Signature` of a status callback against the public URL it was posted to. */
+  isValidCallback(signature: string | undefined, url: string, params: Record<string, string>) {
+    if (!this.authToken || !signature) {
+      return false;
+    }
+    return twilio.validateRequest(this.authToken, signature, url, params);
+  }
 }
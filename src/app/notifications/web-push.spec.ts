@@ -0,0 +1,96 @@
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto';
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  buildVapidAuthorization,
+  encryptWebPushPayload,
+  isAllowedPushEndpoint,
+} from './web-push';
+
+describe('web-push', () => {
+  it('encrypts payloads the subscribed browser can decrypt', () => {
+    const browser = createECDH('prime256v1');
+    const browserPublicKey = browser.generateKeys();
+    const authSecret = randomBytes(16);
+
+    const body = encryptWebPushPayload(Buffer.from('{"title":"Neuer Einsatz"}'), {
+      p256dh: base64UrlEncode(browserPublicKey),
+      auth: base64UrlEncode(authSecret),
+    });
+
+    const salt = body.subarray(0, 16);
+    expect(body.readUInt32BE(16)).toBe(4096);
+    const keyLength = body.readUInt8(20);
+    const serverPublicKey = body.subarray(21, 21 + keyLength);
+    const record = body.subarray(21 + keyLength);
+
+    const sharedSecret = browser.computeSecret(serverPublicKey);
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browserPublicKey, serverPublicKey]);
+    const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+    const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+    const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+    decipher.setAuthTag(record.subarray(record.length - 16));
+    const plaintext = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+    expect(plaintext.subarray(0, -1).toString()).toBe('{"title":"Neuer Einsatz"}');
+    expect(plaintext[plaintext.length - 1]).toBe(2);
+  });
+
+  it('signs VAPID tokens for the push service origin', () => {
+    const server = createECDH('prime256v1');
+    const publicKey = server.generateKeys();
+    const privateKey = server.getPrivateKey();
+    const keys = {
+      publicKey: base64UrlEncode(publicKey),
+      privateKey: base64UrlEncode(Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey])),
+      subject: 'mailto:ops@saubio.de',
+    };
+
+    const header = buildVapidAuthorization(
+      'https://fcm.googleapis.com/fcm/send/abc',
+      keys,
+      new Date('2026-01-19T09:00:00.000Z')
+    );
+    const [, token, key] = header.match(/^vapid t=([^,]+), k=(.+)$/) ?? [];
+    const [encodedHeader, encodedClaims, signature] = token.split('.');
+
+    expect(key).toBe(keys.publicKey);
+    expect(JSON.parse(base64UrlDecode(encodedClaims).toString())).toEqual({
+      aud: 'https://fcm.googleapis.com',
+      exp: Math.floor(new Date('2026-01-19T21:00:00.000Z').getTime() / 1000),
+      sub: 'mailto:ops@saubio.de',
+    });
+    const verifier = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: base64UrlEncode(publicKey.subarray(1, 33)),
+        y: base64UrlEncode(publicKey.subarray(33, 65)),
+      },
+      format: 'jwk',
+    });
+    expect(
+      verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: verifier, dsaEncoding: 'ieee-p1363' },
+        base64UrlDecode(signature)
+      )
+    ).toBe(true);
+  });
+
+  it('accepts endpoints of the known push services only', () => {
+    expect(isAllowedPushEndpoint('https://fcm.googleapis.com/fcm/send/abc')).toBe(true);
+    expect(isAllowedPushEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc')).toBe(true);
+    expect(isAllowedPushEndpoint('https://web.push.apple.com/QGuQ')).toBe(true);
+    expect(isAllowedPushEndpoint('https://wns2-par02p.notify.windows.com/w/?token=abc')).toBe(true);
+
+    expect(isAllowedPushEndpoint('http://fcm.googleapis.com/fcm/send/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('https://fcm.googleapis.com:8443/fcm/send/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('https://fcm.googleapis.com.evil.example/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('https://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isAllowedPushEndpoint('https://user@fcm.googleapis.com/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('not a url')).toBe(false);
+  });
+});
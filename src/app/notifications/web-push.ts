@@ -0,0 +1,94 @@
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'crypto';
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key, base64url (65 bytes). */
+  publicKey: string;
+  /** P-256 private scalar, base64url (32 bytes). */
+  privateKey: string;
+  /** `mailto:` or https contact the push service can reach. */
+  subject: string;
+}
+
+const RECORD_SIZE = 4096;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+/** Push services of the major browsers (Chrome, Firefox, Safari, Edge) and their subdomains. */
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'push.services.mozilla.com', 'push.apple.com', 'notify.windows.com'];
+
+export function base64UrlEncode(value: Buffer | string) {
+  return Buffer.from(value).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string) {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+/** Only endpoints of a known push service are accepted, so subscriptions cannot make the server call other hosts. */
+export function isAllowedPushEndpoint(endpoint: string) {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) {
+    return false;
+  }
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+/** Builds the `Authorization` header (RFC 8292) scoped to the origin of the push service endpoint. */
+export function buildVapidAuthorization(endpoint: string, keys: VapidKeys, now = new Date()) {
+  const publicKey = base64UrlDecode(keys.publicKey);
+  const header = base64UrlEncode(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = base64UrlEncode(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+      sub: keys.subject,
+    })
+  );
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: base64UrlEncode(publicKey.subarray(1, 33)),
+      y: base64UrlEncode(publicKey.subarray(33, 65)),
+      d: keys.privateKey,
+    },
+    format: 'jwk',
+  });
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${keys.publicKey}`;
+}
+
+/**
+ * Encrypts a payload for a browser subscription using the `aes128gcm` content coding (RFC 8291). The result
+ * is the complete request body: salt, record size and the ephemeral public key followed by one record.
+ */
+export function encryptWebPushPayload(
+  payload: Buffer,
+  subscription: { p256dh: string; auth: string },
+  salt: Buffer = randomBytes(16)
+) {
+  const clientPublicKey = base64UrlDecode(subscription.p256dh);
+  const authSecret = base64UrlDecode(subscription.auth);
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record.
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext, cipher.getAuthTag()]);
+}
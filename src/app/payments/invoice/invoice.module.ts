@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../../../prisma/prisma.module';
 import { AppConfigModule } from '../../config/app-config.module';
+import { DocumentsModule } from '../../documents/documents.module';
 import { InvoiceService } from './invoice.service';
 
 @Module({
-  imports: [PrismaModule, AppConfigModule],
+  imports: [PrismaModule, AppConfigModule, DocumentsModule],
   providers: [InvoiceService],
   exports: [InvoiceService],
 })
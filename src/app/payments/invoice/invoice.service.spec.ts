@@ -0,0 +1,273 @@
+import { BookingStatus, InvoiceKind } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { DocumentStorageService } from '../../documents/document-storage.service';
+import { InvoiceService } from './invoice.service';
+
+jest.mock('fs', () => ({ ...jest.requireActual('fs'), writeFileSync: jest.fn() }));
+
+describe('InvoiceService', () => {
+  const booking = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    status: BookingStatus.COMPLETED,
+    startAt: new Date('2026-02-10T08:00:00Z'),
+    service: 'residential',
+    addressCity: 'Berlin',
+    costCentre: null,
+    pricingCurrency: 'EUR',
+    pricingSubtotalCents: 10_000,
+    pricingEcoCents: 0,
+    pricingLoyaltyCents: 0,
+    pricingExtrasCents: 0,
+    pricingTaxCents: 1900,
+    pricingTotalCents: 11_900,
+    taxRule: 'de_standard',
+    taxRateBps: 1900,
+    payments: [{ amountCents: 11_900, refunds: [] as Array<{ amountCents: number }> }],
+    assignments: [] as Array<{ overtimeAmountCents: number | null }>,
+    ...overrides,
+  });
+  let prisma: {
+    invoice: {
+      findUnique: jest.Mock;
+      findFirst: jest.Mock;
+      aggregate: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+    };
+    company: { findUnique: jest.Mock };
+    booking: { findUnique: jest.Mock; findMany: jest.Mock; updateMany: jest.Mock };
+    paymentRefund: { findMany: jest.Mock };
+    invoiceNumberSequence: { upsert: jest.Mock };
+    $queryRaw: jest.Mock;
+    $transaction: jest.Mock;
+  };
+  let service: InvoiceService;
+
+  beforeEach(() => {
+    prisma = {
+      invoice: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        aggregate: jest.fn().mockResolvedValue({ _sum: { totalCents: null } }),
+        create: jest.fn(async ({ data }) => ({ id: 'invoice_1', ...data })),
+        update: jest.fn(async ({ where }) => ({ id: where.id, document: { id: 'document_1' } })),
+      },
+      company: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'company_1',
+          name: 'Putzwerk GmbH',
+          streetLine1: 'Torstraße 1',
+          postalCode: '10119',
+          city: 'Berlin',
+          countryCode: 'DE',
+          vatNumber: null,
+          billingEmail: 'billing@putzwerk.de',
+        }),
+      },
+      booking: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn(async ({ where }) => ({ count: where.id.in.length })),
+      },
+      paymentRefund: { findMany: jest.fn().mockResolvedValue([]) },
+      invoiceNumberSequence: { upsert: jest.fn().mockResolvedValue({ lastNumber: 7 }) },
+      $queryRaw: jest.fn(),
+      $transaction: jest.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(prisma)),
+    };
+    const documentStorage = {
+      resolveFilePath: jest.fn((folder: string, fileName: string) => `${folder}/${fileName}`),
+      register: jest.fn(async () => ({ id: 'document_1' })),
+    };
+    service = new InvoiceService(
+      prisma as unknown as PrismaService,
+      documentStorage as unknown as DocumentStorageService
+    );
+  });
+
+  describe('generateCompanyInvoice', () => {
+    const period = {
+      companyId: 'company_1',
+      periodStart: new Date('2026-01-31T23:00:00Z'),
+      periodEnd: new Date('2026-02-28T23:00:00Z'),
+    };
+
+    it('bills what was collected net of refunds and only the fee of cancelled bookings', async () => {
+      prisma.booking.findMany.mockResolvedValue([
+        booking('partially_refunded', { payments: [{ amountCents: 11_900, refunds: [{ amountCents: 1190 }] }] }),
+        booking('cancelled', { status: BookingStatus.CANCELLED, payments: [{ amountCents: 2380, refunds: [] }] }),
+        booking('fully_refunded', { payments: [{ amountCents: 11_900, refunds: [{ amountCents: 11_900 }] }] }),
+      ]);
+
+      await service.generateCompanyInvoice(period);
+
+      expect(prisma.invoice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ subtotalCents: 11_000, taxCents: 2090, totalCents: 13_090 }),
+      });
+      expect(prisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['partially_refunded', 'cancelled'] }, companyInvoiceId: null },
+        data: { companyInvoiceId: 'invoice_1' },
+      });
+    });
+
+    it('only nets refunds that settled before the invoice was issued', async () => {
+      await service.generateCompanyInvoice(period);
+
+      const [{ include }] = prisma.booking.findMany.mock.calls[0];
+      expect(include.payments.select.refunds.where.ledgerAppliedAt).toEqual({ lte: expect.any(Date) });
+    });
+
+    it('adds paid overtime, which is charged as its own payment', async () => {
+      prisma.booking.findMany.mockResolvedValue([
+        booking('with_overtime', {
+          pricingExtrasCents: 2000,
+          pricingTaxCents: 2280,
+          pricingTotalCents: 14_280,
+          assignments: [{ overtimeAmountCents: 2000 }],
+        }),
+      ]);
+
+      await service.generateCompanyInvoice(period);
+
+      expect(prisma.invoice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ extrasCents: 2000, taxCents: 2280, totalCents: 14_280 }),
+      });
+    });
+
+    it('issues nothing when no booking collected any money', async () => {
+      prisma.booking.findMany.mockResolvedValue([
+        booking('fully_refunded', { payments: [{ amountCents: 11_900, refunds: [{ amountCents: 11_900 }] }] }),
+      ]);
+
+      await expect(service.generateCompanyInvoice(period)).resolves.toBeNull();
+      expect(prisma.invoice.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateCreditNote', () => {
+    const original = {
+      id: 'invoice_original',
+      invoiceNumber: 'SAU-2026-000001',
+      issuedAt: new Date('2026-02-10T10:00:00Z'),
+      companyId: null,
+      company: null,
+      booking: { client: { firstName: 'Lena', lastName: 'Vogel', email: 'lena@example.com' } },
+      currency: 'EUR',
+      subtotalCents: 10_000,
+      ecoSurchargeCents: 0,
+      loyaltyCreditsCents: 0,
+      extrasCents: 0,
+      taxCents: 1900,
+      totalCents: 11_900,
+      taxRule: 'de_standard',
+      taxRateBps: 1900,
+    };
+
+    beforeEach(() => {
+      prisma.invoice.findFirst.mockResolvedValue(original);
+    });
+
+    it('credits against the booking invoice rather than a supplementary overtime invoice', async () => {
+      await service.generateCreditNote({ bookingId: 'booking_1', amountCents: 1190, reason: 'goodwill' });
+
+      expect(prisma.invoice.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ kind: InvoiceKind.INVOICE }) })
+      );
+      expect(prisma.invoice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ kind: InvoiceKind.CREDIT_NOTE, totalCents: -1190 }),
+      });
+    });
+
+    it('never credits more than the original invoice across concurrent refunds', async () => {
+      const creditNotes: Array<{ totalCents: number }> = [];
+      prisma.invoice.aggregate.mockImplementation(async () => ({
+        _sum: { totalCents: creditNotes.reduce((sum, note) => sum + note.totalCents, 0) || null },
+      }));
+      prisma.invoice.create.mockImplementation(async ({ data }) => {
+        creditNotes.push(data);
+        return { id: `credit_${creditNotes.length}`, ...data };
+      });
+      // Emulates the row lock taken with SELECT ... FOR UPDATE: held until the transaction callback settles.
+      let rowLock = Promise.resolve();
+      prisma.$transaction.mockImplementation(async (callback: (tx: unknown) => Promise<unknown>) => {
+        let release: () => void = () => undefined;
+        const tx = {
+          ...prisma,
+          $queryRaw: jest.fn(async () => {
+            const previous = rowLock;
+            rowLock = new Promise<void>((resolve) => (release = resolve));
+            await previous;
+          }),
+        };
+        try {
+          return await callback(tx);
+        } finally {
+          release();
+        }
+      });
+
+      const results = await Promise.all([
+        service.generateCreditNote({ bookingId: 'booking_1', amountCents: 8000, reason: 'refund' }),
+        service.generateCreditNote({ bookingId: 'booking_1', amountCents: 8000, reason: 'refund' }),
+      ]);
+
+      expect(results.every(Boolean)).toBe(true);
+      expect(creditNotes.map((note) => note.totalCents)).toEqual([-8000, -3900]);
+    });
+
+    it('numbers credit notes by the Berlin year at the turn of the year', async () => {
+      jest.useFakeTimers({ now: new Date('2026-12-31T23:30:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        await service.generateCreditNote({ bookingId: 'booking_1', amountCents: 1190, reason: 'goodwill' });
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(prisma.invoiceNumberSequence.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { series_year: { series: 'SAU-ST', year: 2027 } } })
+      );
+      expect(prisma.invoice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ invoiceNumber: 'SAU-ST-2027-000007' }),
+      });
+    });
+  });
+
+  describe('creditCompanyRefunds', () => {
+    it('credits only refunds that settled after the booking was billed', async () => {
+      const billedAt = new Date('2026-02-01T05:00:00Z');
+      prisma.paymentRefund.findMany.mockResolvedValue([
+        {
+          id: 'refund_before',
+          amountCents: 1190,
+          reason: 'goodwill',
+          ledgerAppliedAt: new Date('2026-02-01T04:00:00Z'),
+          payment: { bookingId: 'booking_1', booking: { companyInvoice: { issuedAt: billedAt } } },
+        },
+        {
+          id: 'refund_after',
+          amountCents: 2380,
+          reason: 'dispute',
+          ledgerAppliedAt: new Date('2026-02-10T09:00:00Z'),
+          payment: { bookingId: 'booking_1', booking: { companyInvoice: { issuedAt: billedAt } } },
+        },
+      ]);
+      const generateCreditNote = jest
+        .spyOn(service, 'generateCreditNote')
+        .mockResolvedValue({ document: null, invoice: { id: 'credit_1' } as never });
+
+      const creditNotes = await service.creditCompanyRefunds({
+        companyId: 'company_1',
+        periodStart: new Date('2026-01-31T23:00:00Z'),
+        periodEnd: new Date('2026-02-28T23:00:00Z'),
+      });
+
+      expect(creditNotes).toHaveLength(1);
+      expect(generateCreditNote).toHaveBeenCalledTimes(1);
+      expect(generateCreditNote).toHaveBeenCalledWith({
+        bookingId: 'booking_1',
+        amountCents: 2380,
+        reason: 'dispute',
+        sourceReference: 'refund:refund_after',
+      });
+    });
+  });
+});
@@ -1,16 +1,27 @@
-import { Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Injectable, Logger } from '@nestjs/common';
+import { DateTime } from 'luxon';
 import PdfKit from 'pdfkit';
 import { PrismaService } from '../../../prisma/prisma.service';
-import { mkdirSync, existsSync, writeFileSync } from 'fs';
-import { join } from 'path';
-import type { AppEnvironmentConfig } from '../../config/configuration';
-import { DocumentType, Prisma, type Document, type Invoice, type Payment } from '@prisma/client';
+import { writeFileSync } from 'fs';
+import { DocumentStorageService } from '../../documents/document-storage.service';
+import {
+  BookingStatus,
+  CompanyBillingMode,
+  DocumentType,
+  InvoiceKind,
+  PaymentRefundStatus,
+  PaymentStatus,
+  Prisma,
+  type Document,
+  type Invoice,
+  type Payment,
+} from '@prisma/client';
 import {
   PLATFORM_COMMISSION_RATE,
   PLATFORM_COMMISSION_VAT_RATE as VAT_RATE,
   NET_PROVIDER_SHARE_FACTOR as NET_SHARE_FACTOR,
 } from '../payment.constants';
+import { computeTaxCents, describeTaxRule } from '../../tax/tax-rules';
 
 type StoredMission = {
   bookingId: string;
@@ -22,8 +33,39 @@ type StoredMission = {
   startAt?: string;
   endAt?: string;
   clientTotalCents?: number;
+  checkInAt?: string | null;
+  checkOutAt?: string | null;
+  workedMinutes?: number | null;
+  overtime?: boolean;
+};
+
+type InvoiceAmounts = Pick<
+  Invoice,
+  'subtotalCents' | 'ecoSurchargeCents' | 'loyaltyCreditsCents' | 'extrasCents' | 'taxCents' | 'totalCents'
+>;
+
+type CompanyInvoiceBooking = Prisma.BookingGetPayload<{
+  include: {
+    payments: { select: { amountCents: true; refunds: { select: { amountCents: true } } } };
+    assignments: { select: { overtimeAmountCents: true } };
+  };
+}>;
+
+type CompanyInvoiceLine = {
+  booking: CompanyInvoiceBooking;
+  amounts: InvoiceAmounts;
+  cancellationFee: boolean;
 };
 
+const INVOICE_SERIES = 'SAU';
+const BILLABLE_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.CAPTURED,
+  PaymentStatus.HELD,
+  PaymentStatus.RELEASED,
+];
+const CREDIT_NOTE_SERIES = 'SAU-ST';
+const INVOICE_TIMEZONE = 'Europe/Berlin';
+
 const COMPANY_INFO = {
   name: 'Saubio GmbH',
   street: 'Leipziger Platz 12',
@@ -36,6 +78,7 @@ const COMPANY_INFO = {
 
 @Injectable()
 export class InvoiceService {
+  private readonly logger = new Logger(InvoiceService.name);
   private readonly currencyFormatter = new Intl.NumberFormat('de-DE', {
     style: 'currency',
     currency: 'EUR',
@@ -48,7 +91,7 @@ export class InvoiceService {
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly configService: ConfigService<AppEnvironmentConfig>
+    private readonly documentStorage: DocumentStorageService
   ) {}
 
   async generateClientInvoice(params: { bookingId: string; paymentId: string }): Promise<{ document: Document | null; invoice: Invoice | null } | null> {
@@ -56,6 +99,7 @@ export class InvoiceService {
       where: { id: params.bookingId },
       include: {
         client: true,
+        company: { select: { billingMode: true, name: true, vatNumber: true } },
       },
     });
     const payment = await this.prisma.payment.findUnique({
@@ -65,9 +109,34 @@ export class InvoiceService {
     if (!booking || !payment) {
       return null;
     }
+    if (booking.company?.billingMode === CompanyBillingMode.CONSOLIDATED) {
+      this.logger.debug(`Booking ${booking.id} is billed on the monthly company invoice`);
+      return null;
+    }
 
-    const issueDate = payment.capturedAt ?? new Date();
-    const invoiceNumber = this.buildInvoiceNumber(payment.id, issueDate);
+    const numbered = await this.reserveClientInvoice({
+      bookingId: booking.id,
+      paymentId: payment.id,
+      issueDate: payment.capturedAt ?? new Date(),
+      currency: booking.pricingCurrency,
+      amounts: {
+        subtotalCents: booking.pricingSubtotalCents,
+        ecoSurchargeCents: booking.pricingEcoCents,
+        loyaltyCreditsCents: booking.pricingLoyaltyCents,
+        extrasCents: booking.pricingExtrasCents,
+        taxCents: booking.pricingTaxCents,
+        totalCents: booking.pricingTotalCents,
+      },
+      taxRule: booking.taxRule,
+      taxRateBps: booking.taxRateBps,
+    });
+    // An issued invoice is final; later price changes (overtime) get their own supplementary invoice.
+    if (numbered.documentId) {
+      const document = await this.prisma.document.findUnique({ where: { id: numbered.documentId } });
+      return { document, invoice: numbered };
+    }
+    const issueDate = numbered.issuedAt;
+    const invoiceNumber = numbered.invoiceNumber;
 
     const doc = new PdfKit({ size: 'A4', margin: 50 });
     const chunks: Buffer[] = [];
@@ -89,6 +158,12 @@ export class InvoiceService {
       .fontSize(10)
       .text(`${booking.client.firstName ?? ''} ${booking.client.lastName ?? ''}`.trim());
     doc.text(booking.client.email);
+    if (booking.company) {
+      doc.text(booking.company.name);
+      if (booking.company.vatNumber) {
+        doc.text(`USt-IdNr : ${booking.company.vatNumber}`);
+      }
+    }
     doc.moveDown();
     doc.fontSize(11).text('Mission', { underline: true });
     doc
@@ -104,27 +179,25 @@ export class InvoiceService {
 
     doc.moveDown();
     doc.fontSize(11).text('Montants (EUR)', { underline: true });
-    this.printAmountRow(doc, 'Montant HT', booking.pricingSubtotalCents);
-    if (booking.pricingEcoCents > 0) {
-      this.printAmountRow(doc, 'Supplément bio', booking.pricingEcoCents);
+    this.printAmountRow(doc, 'Montant HT', numbered.subtotalCents);
+    if (numbered.ecoSurchargeCents > 0) {
+      this.printAmountRow(doc, 'Supplément bio', numbered.ecoSurchargeCents);
     }
-    if (booking.pricingLoyaltyCents > 0) {
-      this.printAmountRow(doc, 'Crédit fidélité', -booking.pricingLoyaltyCents);
+    if (numbered.loyaltyCreditsCents > 0) {
+      this.printAmountRow(doc, 'Crédit fidélité', -numbered.loyaltyCreditsCents);
     }
-    if (booking.pricingExtrasCents > 0) {
-      this.printAmountRow(doc, 'Extras & options', booking.pricingExtrasCents);
+    if (numbered.extrasCents > 0) {
+      this.printAmountRow(doc, 'Extras & options', numbered.extrasCents);
     }
-    this.printAmountRow(doc, 'TVA (19%)', booking.pricingTaxCents);
-    this.printAmountRow(doc, 'Total TTC encaissé', booking.pricingTotalCents, true);
+    const tax = describeTaxRule(numbered.taxRule, numbered.taxRateBps);
+    this.printAmountRow(doc, tax.label, numbered.taxCents);
+    this.printAmountRow(doc, 'Total TTC encaissé', numbered.totalCents, true);
 
     doc.moveDown(0.5);
     doc
       .fontSize(9)
       .fillColor('#4b5563')
-      .text(
-        'Commission Saubio de 25% incluse dans le prix TTC. TVA allemande (19%) appliquée conformément au §1 UStG.',
-        { align: 'left' }
-      )
+      .text(`Commission Saubio de 25% incluse dans le prix TTC. ${tax.note}`, { align: 'left' })
       .text(
         'Les montants sont prélevés à l’acceptation du prestataire puis séquestrés jusqu’à confirmation du service.',
         { align: 'left' }
@@ -139,9 +212,10 @@ export class InvoiceService {
       invoiceNumber,
       paymentId: payment.id,
       issueDate: issueDate.toISOString(),
-      totalCents: booking.pricingTotalCents,
-      ecoSurchargeCents: booking.pricingEcoCents,
-      loyaltyCreditsCents: booking.pricingLoyaltyCents,
+      totalCents: numbered.totalCents,
+      ecoSurchargeCents: numbered.ecoSurchargeCents,
+      loyaltyCreditsCents: numbered.loyaltyCreditsCents,
+      taxRule: numbered.taxRule,
       paymentMethod: payment.method ?? null,
     };
     if (payment.externalMandateId) {
@@ -164,37 +238,9 @@ export class InvoiceService {
       metadata,
     });
 
-    const invoiceRecord = await this.prisma.invoice.upsert({
-      where: { paymentId: payment.id },
-      update: {
-        booking: { connect: { id: booking.id } },
-        invoiceNumber,
-        issuedAt: issueDate,
-        status: 'issued',
-        currency: booking.pricingCurrency,
-        subtotalCents: booking.pricingSubtotalCents,
-        ecoSurchargeCents: booking.pricingEcoCents,
-        loyaltyCreditsCents: booking.pricingLoyaltyCents,
-        extrasCents: booking.pricingExtrasCents,
-        taxCents: booking.pricingTaxCents,
-        totalCents: booking.pricingTotalCents,
-        document: { connect: { id: document.id } },
-      },
-      create: {
-        booking: { connect: { id: booking.id } },
-        payment: { connect: { id: payment.id } },
-        invoiceNumber,
-        issuedAt: issueDate,
-        status: 'issued',
-        currency: booking.pricingCurrency,
-        subtotalCents: booking.pricingSubtotalCents,
-        ecoSurchargeCents: booking.pricingEcoCents,
-        loyaltyCreditsCents: booking.pricingLoyaltyCents,
-        extrasCents: booking.pricingExtrasCents,
-        taxCents: booking.pricingTaxCents,
-        totalCents: booking.pricingTotalCents,
-        document: { connect: { id: document.id } },
-      },
+    const invoiceRecord = await this.prisma.invoice.update({
+      where: { id: numbered.id },
+      data: { document: { connect: { id: document.id } } },
       include: { document: true },
     });
 
@@ -204,6 +250,621 @@ export class InvoiceService {
     };
   }
 
+  /**
+   * Issues a supplementary invoice for approved overtime, which is charged as its own payment. It has its own
+   * number and amounts and refers to the booking's original invoice, which stays as issued. Consolidated company
+   * bookings that are not on a monthly invoice yet carry the overtime in their booking totals instead.
+   */
+  async generateOvertimeInvoice(params: {
+    bookingId: string;
+    assignmentId: string;
+    netCents: number;
+    taxCents: number;
+    paidAt: Date;
+  }): Promise<{ document: Document | null; invoice: Invoice | null } | null> {
+    const sourceReference = `overtime:${params.assignmentId}`;
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: params.bookingId },
+      include: {
+        client: true,
+        company: { select: { billingMode: true, name: true, vatNumber: true } },
+        invoices: {
+          where: { kind: InvoiceKind.INVOICE, paymentId: { not: null } },
+          select: { invoiceNumber: true },
+        },
+      },
+    });
+    if (!booking) {
+      return null;
+    }
+    if (booking.company?.billingMode === CompanyBillingMode.CONSOLIDATED && !booking.companyInvoiceId) {
+      this.logger.debug(`Overtime of booking ${booking.id} is billed on the monthly company invoice`);
+      return null;
+    }
+
+    let invoice = await this.prisma.invoice.findUnique({ where: { sourceReference } });
+    if (invoice?.documentId) {
+      const document = await this.prisma.document.findUnique({ where: { id: invoice.documentId } });
+      return { document, invoice };
+    }
+    if (!invoice) {
+      try {
+        invoice = await this.prisma.$transaction(async (tx) => {
+          const allocation = await this.allocateInvoiceNumber(tx, INVOICE_SERIES, params.paidAt);
+          return tx.invoice.create({
+            data: {
+              kind: InvoiceKind.SUPPLEMENTARY,
+              booking: { connect: { id: booking.id } },
+              invoiceNumber: allocation.invoiceNumber,
+              series: allocation.series,
+              sequenceYear: allocation.year,
+              sequenceNumber: allocation.number,
+              issuedAt: params.paidAt,
+              status: 'issued',
+              currency: booking.pricingCurrency,
+              subtotalCents: params.netCents,
+              taxCents: params.taxCents,
+              taxRule: booking.taxRule,
+              taxRateBps: booking.taxRateBps,
+              totalCents: params.netCents + params.taxCents,
+              sourceReference,
+            },
+          });
+        });
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+        invoice = await this.prisma.invoice.findUnique({ where: { sourceReference } });
+        if (!invoice) {
+          throw error;
+        }
+      }
+    }
+    const issued = invoice;
+    const originalInvoiceNumber = booking.invoices[0]?.invoiceNumber ?? null;
+
+    const doc = new PdfKit({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+
+    this.printHeader(doc, 'Facture complémentaire');
+    this.printCompanyBlock(doc);
+    doc.moveDown();
+    this.printKeyValue(doc, 'Facture n°', issued.invoiceNumber);
+    this.printKeyValue(doc, 'Date d’émission', this.formatDate(issued.issuedAt));
+    if (originalInvoiceNumber) {
+      this.printKeyValue(doc, 'Facture d’origine', originalInvoiceNumber);
+    }
+    doc.moveDown();
+    doc.fontSize(11).text('Client', { underline: true });
+    doc
+      .fontSize(10)
+      .text(`${booking.client.firstName ?? ''} ${booking.client.lastName ?? ''}`.trim());
+    doc.text(booking.client.email);
+    if (booking.company) {
+      doc.text(booking.company.name);
+      if (booking.company.vatNumber) {
+        doc.text(`USt-IdNr : ${booking.company.vatNumber}`);
+      }
+    }
+    doc.moveDown();
+    doc.fontSize(11).text('Mission', { underline: true });
+    doc
+      .fontSize(10)
+      .text(`Service : ${booking.service}`)
+      .text(`Adresse : ${booking.addressStreetLine1} · ${booking.addressPostalCode} ${booking.addressCity}`)
+      .text(`Créneau : ${this.formatDateTime(new Date(booking.startAt))} → ${this.formatDateTime(new Date(booking.endAt))}`);
+
+    doc.moveDown();
+    doc.fontSize(11).text('Montants (EUR)', { underline: true });
+    this.printAmountRow(doc, 'Heures supplémentaires HT', issued.subtotalCents);
+    const tax = describeTaxRule(issued.taxRule, issued.taxRateBps);
+    this.printAmountRow(doc, tax.label, issued.taxCents);
+    this.printAmountRow(doc, 'Total TTC encaissé', issued.totalCents, true);
+
+    doc.moveDown(0.5);
+    doc
+      .fontSize(9)
+      .fillColor('#4b5563')
+      .text(
+        originalInvoiceNumber
+          ? `Heures supplémentaires validées par le client, en complément de la facture ${originalInvoiceNumber}.`
+          : 'Heures supplémentaires validées par le client.',
+        { align: 'left' }
+      )
+      .text(tax.note, { align: 'left' })
+      .fillColor('black');
+
+    const bufferPromise = this.toBuffer(doc, chunks);
+    doc.end();
+    const buffer = await bufferPromise;
+
+    const document = await this.saveDocument({
+      buffer,
+      fileName: `invoice-overtime-${params.assignmentId}-${issued.issuedAt.getTime()}.pdf`,
+      displayName: `Facture-${issued.invoiceNumber}.pdf`,
+      bookingId: booking.id,
+      type: 'invoice',
+      category: 'client_invoice',
+      metadata: {
+        invoiceNumber: issued.invoiceNumber,
+        sourceReference,
+        originalInvoiceNumber,
+        issueDate: issued.issuedAt.toISOString(),
+        totalCents: issued.totalCents,
+        taxRule: issued.taxRule,
+      },
+    });
+
+    const updated = await this.prisma.invoice.update({
+      where: { id: issued.id },
+      data: { document: { connect: { id: document.id } } },
+      include: { document: true },
+    });
+    return { document: updated.document ?? document, invoice: updated };
+  }
+
+  async generateCreditNote(params: {
+    bookingId: string;
+    paymentId?: string | null;
+    amountCents?: number;
+    reason: string;
+    sourceReference?: string;
+  }): Promise<{ document: Document | null; invoice: Invoice | null } | null> {
+    if (params.sourceReference) {
+      const existing = await this.prisma.invoice.findUnique({
+        where: { sourceReference: params.sourceReference },
+        include: { document: true },
+      });
+      if (existing) {
+        return { document: existing.document ?? null, invoice: existing };
+      }
+    }
+
+    // Overtime is billed on supplementary invoices; refunds are credited against the booking invoice.
+    const original = await this.prisma.invoice.findFirst({
+      where: {
+        kind: InvoiceKind.INVOICE,
+        OR: [
+          { bookingId: params.bookingId, ...(params.paymentId ? { paymentId: params.paymentId } : {}) },
+          { companyBookings: { some: { id: params.bookingId } } },
+        ],
+      },
+      orderBy: { issuedAt: 'desc' },
+      include: {
+        booking: { include: { client: true } },
+        company: { select: { name: true, billingEmail: true } },
+      },
+    });
+    if (!original) {
+      this.logger.warn(`No invoice found to credit for booking ${params.bookingId}`);
+      return null;
+    }
+
+    // Consolidated company invoices can mix tax rules; the credited booking knows its own.
+    const creditedBooking = await this.prisma.booking.findUnique({
+      where: { id: params.bookingId },
+      select: { taxRule: true, taxRateBps: true },
+    });
+    const taxRule = creditedBooking?.taxRule ?? original.taxRule;
+    const taxRateBps = creditedBooking?.taxRule ? creditedBooking.taxRateBps : original.taxRateBps;
+    const issueDate = new Date();
+
+    let credited: { creditNote: Invoice; amounts: InvoiceAmounts } | null;
+    try {
+      credited = await this.prisma.$transaction(async (tx) => {
+        // Locking the original invoice serializes concurrent credit notes, so together they never exceed it.
+        await tx.$queryRaw`SELECT 1 FROM "Invoice" WHERE id = ${original.id} FOR UPDATE`;
+        const previous = await tx.invoice.aggregate({
+          where: { originalInvoiceId: original.id, kind: InvoiceKind.CREDIT_NOTE },
+          _sum: { totalCents: true },
+        });
+        const alreadyCredited = Math.abs(previous._sum.totalCents ?? 0);
+        const remaining = original.totalCents - alreadyCredited;
+        const amountCents = Math.min(params.amountCents ?? remaining, remaining);
+        if (amountCents <= 0) {
+          return null;
+        }
+
+        const amounts = this.prorateAmounts(original, amountCents);
+        const fullyCredited = alreadyCredited + amountCents >= original.totalCents;
+        const allocation = await this.allocateInvoiceNumber(tx, CREDIT_NOTE_SERIES, issueDate);
+        const creditNote = await tx.invoice.create({
+          data: {
+            kind: InvoiceKind.CREDIT_NOTE,
+            booking: { connect: { id: params.bookingId } },
+            company: original.companyId ? { connect: { id: original.companyId } } : undefined,
+            originalInvoice: { connect: { id: original.id } },
+            invoiceNumber: allocation.invoiceNumber,
+            series: allocation.series,
+            sequenceYear: allocation.year,
+            sequenceNumber: allocation.number,
+            issuedAt: issueDate,
+            status: 'issued',
+            currency: original.currency,
+            subtotalCents: -amounts.subtotalCents,
+            ecoSurchargeCents: -amounts.ecoSurchargeCents,
+            loyaltyCreditsCents: -amounts.loyaltyCreditsCents,
+            extrasCents: -amounts.extrasCents,
+            taxCents: -amounts.taxCents,
+            taxRule,
+            taxRateBps,
+            totalCents: -amounts.totalCents,
+            creditReason: params.reason,
+            sourceReference: params.sourceReference ?? null,
+          },
+        });
+        await tx.invoice.update({
+          where: { id: original.id },
+          data: { status: fullyCredited ? 'credited' : 'partially_credited' },
+        });
+        return { creditNote, amounts };
+      });
+    } catch (error) {
+      if (
+        params.sourceReference &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const existing = await this.prisma.invoice.findUnique({
+          where: { sourceReference: params.sourceReference },
+          include: { document: true },
+        });
+        return existing ? { document: existing.document ?? null, invoice: existing } : null;
+      }
+      throw error;
+    }
+    if (!credited) {
+      this.logger.warn(`Invoice ${original.invoiceNumber} is already fully credited`);
+      return null;
+    }
+    const { creditNote, amounts } = credited;
+
+    const doc = new PdfKit({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+
+    this.printHeader(doc, 'Avoir / Stornorechnung');
+    this.printCompanyBlock(doc);
+    doc.moveDown();
+    this.printKeyValue(doc, 'Avoir n°', creditNote.invoiceNumber);
+    this.printKeyValue(doc, 'Date d’émission', this.formatDate(issueDate));
+    this.printKeyValue(doc, 'Facture d’origine', original.invoiceNumber);
+    this.printKeyValue(doc, 'Date de la facture d’origine', this.formatDate(original.issuedAt));
+    this.printKeyValue(doc, 'Motif', params.reason);
+    doc.moveDown();
+    doc.fontSize(11).text('Client', { underline: true });
+    if (original.company) {
+      doc.fontSize(10).text(original.company.name).text(original.company.billingEmail);
+      this.printKeyValue(doc, 'Réservation', params.bookingId);
+    } else {
+      doc
+        .fontSize(10)
+        .text(`${original.booking?.client?.firstName ?? ''} ${original.booking?.client?.lastName ?? ''}`.trim());
+      if (original.booking?.client?.email) {
+        doc.text(original.booking.client.email);
+      }
+    }
+    doc.moveDown();
+    doc.fontSize(11).text('Montants crédités (EUR)', { underline: true });
+    this.printAmountRow(doc, 'Montant HT', -amounts.subtotalCents);
+    if (amounts.ecoSurchargeCents > 0) {
+      this.printAmountRow(doc, 'Supplément bio', -amounts.ecoSurchargeCents);
+    }
+    if (amounts.loyaltyCreditsCents > 0) {
+      this.printAmountRow(doc, 'Crédit fidélité', amounts.loyaltyCreditsCents);
+    }
+    if (amounts.extrasCents > 0) {
+      this.printAmountRow(doc, 'Extras & options', -amounts.extrasCents);
+    }
+    const tax = describeTaxRule(taxRule, taxRateBps);
+    this.printAmountRow(doc, tax.label, -amounts.taxCents);
+    this.printAmountRow(doc, 'Total TTC remboursé', -amounts.totalCents, true);
+
+    doc.moveDown(0.5);
+    doc
+      .fontSize(9)
+      .fillColor('#4b5563')
+      .text(
+        `Cet avoir corrige la facture ${original.invoiceNumber} conformément au §14 UStG et au §17 UStG (correction de la base imposable).`,
+        { align: 'left' }
+      )
+      .text(tax.note, { align: 'left' })
+      .fillColor('black');
+
+    const bufferPromise = this.toBuffer(doc, chunks);
+    doc.end();
+    const buffer = await bufferPromise;
+
+    const document = await this.saveDocument({
+      buffer,
+      fileName: `credit-note-${params.bookingId}-${issueDate.getTime()}.pdf`,
+      displayName: `Avoir-${creditNote.invoiceNumber}.pdf`,
+      bookingId: params.bookingId,
+      type: 'invoice',
+      category: 'credit_note',
+      metadata: {
+        invoiceNumber: creditNote.invoiceNumber,
+        originalInvoiceId: original.id,
+        originalInvoiceNumber: original.invoiceNumber,
+        issueDate: issueDate.toISOString(),
+        totalCents: -amounts.totalCents,
+        reason: params.reason,
+      },
+    });
+
+    const updated = await this.prisma.invoice.update({
+      where: { id: creditNote.id },
+      data: { document: { connect: { id: document.id } } },
+      include: { document: true },
+    });
+
+    return { document: updated.document ?? document, invoice: updated };
+  }
+
+  /**
+   * Bundles the paid bookings of a company for one billing period into a single invoice.
+   * Bookings are claimed through `companyInvoiceId` in the numbering transaction, so a booking
+   * can never end up on two invoices; running the same period again returns the existing one.
+   * Each booking is billed at what was actually collected: its payment net of refunds settled so
+   * far plus paid overtime. Cancelled bookings only appear with their cancellation fee.
+   */
+  async generateCompanyInvoice(params: {
+    companyId: string;
+    periodStart: Date;
+    periodEnd: Date;
+  }): Promise<{ document: Document | null; invoice: Invoice } | null> {
+    const existing = await this.prisma.invoice.findUnique({
+      where: { companyId_periodStart: { companyId: params.companyId, periodStart: params.periodStart } },
+      include: { document: true },
+    });
+    if (existing) {
+      return { document: existing.document ?? null, invoice: existing };
+    }
+
+    const company = await this.prisma.company.findUnique({ where: { id: params.companyId } });
+    if (!company) {
+      return null;
+    }
+
+    // Refunds settled after this moment are credited with the next monthly run instead.
+    const issueDate = new Date();
+    const bookings = await this.prisma.booking.findMany({
+      where: {
+        companyId: company.id,
+        companyInvoiceId: null,
+        invoices: { none: { kind: InvoiceKind.INVOICE } },
+        payments: {
+          some: {
+            status: { in: BILLABLE_PAYMENT_STATUSES },
+            capturedAt: { gte: params.periodStart, lt: params.periodEnd },
+          },
+        },
+      },
+      include: {
+        payments: {
+          select: {
+            amountCents: true,
+            refunds: {
+              where: { status: PaymentRefundStatus.REFUNDED, ledgerAppliedAt: { lte: issueDate } },
+              select: { amountCents: true },
+            },
+          },
+        },
+        assignments: {
+          where: { overtimePaidAt: { not: null } },
+          select: { overtimeAmountCents: true },
+        },
+      },
+      orderBy: { startAt: 'asc' },
+    });
+    const lines = bookings
+      .map((booking) => this.toCompanyInvoiceLine(booking))
+      .filter((line) => line.amounts.totalCents > 0);
+    if (!lines.length) {
+      return null;
+    }
+
+    const amounts = lines.reduce<InvoiceAmounts>(
+      (acc, line) => ({
+        subtotalCents: acc.subtotalCents + line.amounts.subtotalCents,
+        ecoSurchargeCents: acc.ecoSurchargeCents + line.amounts.ecoSurchargeCents,
+        loyaltyCreditsCents: acc.loyaltyCreditsCents + line.amounts.loyaltyCreditsCents,
+        extrasCents: acc.extrasCents + line.amounts.extrasCents,
+        taxCents: acc.taxCents + line.amounts.taxCents,
+        totalCents: acc.totalCents + line.amounts.totalCents,
+      }),
+      { subtotalCents: 0, ecoSurchargeCents: 0, loyaltyCreditsCents: 0, extrasCents: 0, taxCents: 0, totalCents: 0 }
+    );
+    const taxLines = this.groupTaxByRule(lines);
+    const singleTaxRule = taxLines.length === 1 ? taxLines[0] : null;
+    const bookingIds = lines.map((line) => line.booking.id);
+
+    let invoice: Invoice;
+    try {
+      invoice = await this.prisma.$transaction(async (tx) => {
+        const allocation = await this.allocateInvoiceNumber(tx, INVOICE_SERIES, issueDate);
+        const created = await tx.invoice.create({
+          data: {
+            kind: InvoiceKind.INVOICE,
+            company: { connect: { id: company.id } },
+            periodStart: params.periodStart,
+            periodEnd: params.periodEnd,
+            invoiceNumber: allocation.invoiceNumber,
+            series: allocation.series,
+            sequenceYear: allocation.year,
+            sequenceNumber: allocation.number,
+            issuedAt: issueDate,
+            status: 'issued',
+            currency: lines[0].booking.pricingCurrency,
+            ...amounts,
+            taxRule: singleTaxRule?.taxRule ?? null,
+            taxRateBps: singleTaxRule?.taxRateBps ?? null,
+          },
+        });
+        const claimed = await tx.booking.updateMany({
+          where: { id: { in: bookingIds }, companyInvoiceId: null },
+          data: { companyInvoiceId: created.id },
+        });
+        if (claimed.count !== bookingIds.length) {
+          throw new Error('COMPANY_INVOICE_BOOKINGS_CHANGED');
+        }
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const concurrent = await this.prisma.invoice.findUnique({
+          where: { companyId_periodStart: { companyId: company.id, periodStart: params.periodStart } },
+          include: { document: true },
+        });
+        if (concurrent) {
+          return { document: concurrent.document ?? null, invoice: concurrent };
+        }
+      }
+      throw error;
+    }
+
+    const doc = new PdfKit({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+
+    this.printHeader(doc, 'Sammelrechnung / Facture mensuelle');
+    this.printCompanyBlock(doc);
+    doc.moveDown();
+    this.printKeyValue(doc, 'Facture n°', invoice.invoiceNumber);
+    this.printKeyValue(doc, 'Date d’émission', this.formatDate(issueDate));
+    this.printKeyValue(
+      doc,
+      'Période',
+      `${this.formatDate(params.periodStart)} → ${this.formatDate(new Date(params.periodEnd.getTime() - 1))}`
+    );
+    doc.moveDown();
+    doc.fontSize(11).text('Client', { underline: true });
+    doc
+      .fontSize(10)
+      .text(company.name)
+      .text(company.streetLine1)
+      .text(`${company.postalCode} ${company.city}`)
+      .text(company.countryCode);
+    if (company.vatNumber) {
+      doc.text(`USt-IdNr : ${company.vatNumber}`);
+    }
+    doc.text(company.billingEmail);
+
+    doc.moveDown();
+    doc.fontSize(11).text('Prestations', { underline: true });
+    const byCostCentre = new Map<string, number>();
+    lines.forEach(({ booking, amounts: lineAmounts, cancellationFee }) => {
+      const costCentre = booking.costCentre ?? '—';
+      byCostCentre.set(costCentre, (byCostCentre.get(costCentre) ?? 0) + lineAmounts.totalCents);
+      doc
+        .fontSize(9)
+        .text(
+          `${this.formatDate(booking.startAt)} · ${booking.service} · ${booking.addressCity} · Kst. ${costCentre} · ${booking.id}`
+        );
+      this.printAmountRow(doc, cancellationFee ? 'Frais d’annulation TTC' : 'Total TTC', lineAmounts.totalCents);
+    });
+
+    if (byCostCentre.size > 1) {
+      doc.moveDown();
+      doc.fontSize(11).text('Centres de coûts', { underline: true });
+      byCostCentre.forEach((totalCents, costCentre) => this.printAmountRow(doc, costCentre, totalCents));
+    }
+
+    doc.moveDown();
+    doc.fontSize(11).text('Montants (EUR)', { underline: true });
+    this.printAmountRow(doc, 'Montant HT', amounts.subtotalCents);
+    if (amounts.ecoSurchargeCents > 0) {
+      this.printAmountRow(doc, 'Supplément bio', amounts.ecoSurchargeCents);
+    }
+    if (amounts.loyaltyCreditsCents > 0) {
+      this.printAmountRow(doc, 'Crédit fidélité', -amounts.loyaltyCreditsCents);
+    }
+    if (amounts.extrasCents > 0) {
+      this.printAmountRow(doc, 'Extras & options', amounts.extrasCents);
+    }
+    const taxNotes = new Set<string>();
+    taxLines.forEach((line) => {
+      const tax = describeTaxRule(line.taxRule, line.taxRateBps);
+      this.printAmountRow(doc, tax.label, line.taxCents);
+      taxNotes.add(tax.note);
+    });
+    this.printAmountRow(doc, 'Total TTC', amounts.totalCents, true);
+
+    doc.moveDown(0.5);
+    doc.fontSize(9).fillColor('#4b5563');
+    taxNotes.forEach((note) => doc.text(note, { align: 'left' }));
+    doc.fillColor('black');
+
+    const bufferPromise = this.toBuffer(doc, chunks);
+    doc.end();
+    const buffer = await bufferPromise;
+
+    const document = await this.saveDocument({
+      buffer,
+      fileName: `company-invoice-${company.id}-${issueDate.getTime()}.pdf`,
+      displayName: `Rechnung-${invoice.invoiceNumber}.pdf`,
+      type: 'invoice',
+      category: 'company_invoice',
+      metadata: {
+        invoiceNumber: invoice.invoiceNumber,
+        companyId: company.id,
+        periodStart: params.periodStart.toISOString(),
+        periodEnd: params.periodEnd.toISOString(),
+        bookingCount: lines.length,
+        totalCents: amounts.totalCents,
+      },
+    });
+
+    const updated = await this.prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { document: { connect: { id: document.id } } },
+      include: { document: true },
+    });
+
+    return { document: updated.document ?? document, invoice: updated };
+  }
+
+  /**
+   * Credits refunds that settled during a billing period on bookings already billed on an earlier
+   * monthly company invoice. Refunds settled before a booking was billed are netted into its line
+   * instead, so only those after the invoice's issue date are credited here.
+   */
+  async creditCompanyRefunds(params: { companyId: string; periodStart: Date; periodEnd: Date }) {
+    const refunds = await this.prisma.paymentRefund.findMany({
+      where: {
+        status: PaymentRefundStatus.REFUNDED,
+        ledgerAppliedAt: { gte: params.periodStart, lt: params.periodEnd },
+        payment: { booking: { companyId: params.companyId, companyInvoiceId: { not: null } } },
+      },
+      include: {
+        payment: {
+          select: { bookingId: true, booking: { select: { companyInvoice: { select: { issuedAt: true } } } } },
+        },
+      },
+      orderBy: { ledgerAppliedAt: 'asc' },
+    });
+
+    const creditNotes: Invoice[] = [];
+    for (const refund of refunds) {
+      const billedAt = refund.payment.booking.companyInvoice?.issuedAt;
+      if (!billedAt || !refund.ledgerAppliedAt || refund.ledgerAppliedAt <= billedAt) {
+        continue;
+      }
+      const result = await this.generateCreditNote({
+        bookingId: refund.payment.bookingId,
+        amountCents: refund.amountCents,
+        reason: refund.reason ?? 'refund',
+        sourceReference: `refund:${refund.id}`,
+      });
+      if (result?.invoice) {
+        creditNotes.push(result.invoice);
+      }
+    }
+    return creditNotes;
+  }
+
   async generateProviderStatement(params: { payoutId: string }): Promise<Document | null> {
     const payout = await this.prisma.providerPayout.findUnique({
       where: { id: params.payoutId },
@@ -248,10 +909,15 @@ export class InvoiceService {
       const breakdown = this.computeMissionBreakdown(mission);
       doc
         .fontSize(10)
-        .text(`${index + 1}. Booking ${mission.bookingId} · ${mission.service}`)
+        .text(
+          `${index + 1}. Booking ${mission.bookingId} · ${mission.service}${
+            mission.overtime ? ' · heures supplémentaires' : ''
+          }`
+        )
         .text(
           `${mission.city ?? 'Ville inconnue'} · ${mission.startAt ? this.formatDateTime(new Date(mission.startAt)) : '—'}`
         )
+        .text(this.formatOnSiteTime(mission))
         .text(
           `Brut client: ${this.formatCurrency(breakdown.grossCents)} | Commission (25%): ${this.formatCurrency(
             breakdown.commissionCents
@@ -319,54 +985,156 @@ export class InvoiceService {
     providerId?: string;
     payoutId?: string;
     type: 'invoice' | 'payout_statement';
-    category: 'client_invoice' | 'payout_statement';
+    category: 'client_invoice' | 'credit_note' | 'company_invoice' | 'payout_statement';
     metadata?: Record<string, unknown>;
   }): Promise<Document> {
-    const dir = join(process.cwd(), 'generated', 'invoices');
-    if (!existsSync(dir)) {
-      mkdirSync(dir, { recursive: true });
-    }
-
-    const filePath = join(dir, params.fileName);
+    const filePath = this.documentStorage.resolveFilePath('invoices', params.fileName);
     writeFileSync(filePath, params.buffer);
 
-    const metadata: Prisma.JsonObject = {
-      generated: true,
-      category: params.category,
+    return this.documentStorage.register({
       filePath,
-      ...(params.metadata ?? {}),
-    };
+      name: params.displayName ?? params.fileName,
+      type: params.type === 'invoice' ? DocumentType.INVOICE : DocumentType.OTHER,
+      metadata: { category: params.category, ...(params.metadata ?? {}) },
+      bookingId: params.bookingId,
+      providerId: params.providerId,
+      payoutId: params.payoutId,
+    });
+  }
 
-    const created = await this.prisma.document.create({
-      data: {
-        type: params.type === 'invoice' ? DocumentType.INVOICE : DocumentType.OTHER,
-        url: filePath,
-        name: params.displayName ?? params.fileName,
-        metadata,
-        booking: params.bookingId ? { connect: { id: params.bookingId } } : undefined,
-        provider: params.providerId ? { connect: { id: params.providerId } } : undefined,
-        providerPayout: params.payoutId ? { connect: { id: params.payoutId } } : undefined,
-      },
+  private async reserveClientInvoice(params: {
+    bookingId: string;
+    paymentId: string;
+    issueDate: Date;
+    currency: string;
+    amounts: InvoiceAmounts;
+    taxRule: string | null;
+    taxRateBps: number | null;
+  }): Promise<Invoice> {
+    const existing = await this.prisma.invoice.findUnique({ where: { paymentId: params.paymentId } });
+    if (existing) {
+      return existing;
+    }
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const allocation = await this.allocateInvoiceNumber(tx, INVOICE_SERIES, params.issueDate);
+        return tx.invoice.create({
+          data: {
+            kind: InvoiceKind.INVOICE,
+            booking: { connect: { id: params.bookingId } },
+            payment: { connect: { id: params.paymentId } },
+            invoiceNumber: allocation.invoiceNumber,
+            series: allocation.series,
+            sequenceYear: allocation.year,
+            sequenceNumber: allocation.number,
+            issuedAt: params.issueDate,
+            status: 'issued',
+            currency: params.currency,
+            ...params.amounts,
+            taxRule: params.taxRule,
+            taxRateBps: params.taxRateBps,
+          },
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const concurrent = await this.prisma.invoice.findUnique({ where: { paymentId: params.paymentId } });
+        if (concurrent) {
+          return concurrent;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Increments the per-series/per-year counter inside the caller's transaction. The row stays
+   * locked until commit, so concurrent allocations serialize and a rollback releases the number.
+   */
+  private async allocateInvoiceNumber(tx: Prisma.TransactionClient, series: string, issueDate: Date) {
+    // Sequences restart each calendar year in Germany, whatever time zone the server runs in.
+    const year = DateTime.fromJSDate(issueDate).setZone(INVOICE_TIMEZONE).year;
+    const sequence = await tx.invoiceNumberSequence.upsert({
+      where: { series_year: { series, year } },
+      create: { series, year, lastNumber: 1 },
+      update: { lastNumber: { increment: 1 } },
     });
+    return {
+      series,
+      year,
+      number: sequence.lastNumber,
+      invoiceNumber: `${series}-${year}-${String(sequence.lastNumber).padStart(6, '0')}`,
+    };
+  }
 
-    const apiEnv =
-      process.env.API_BASE_URL ?? process.env.SAUBIO_API_BASE_URL ?? process.env.NEXT_PUBLIC_API_BASE_URL;
-    const defaultBase = `http://localhost:${this.configService.get('app.port' as keyof AppEnvironmentConfig) ?? 3001}`;
-    const baseUrl = (apiEnv ?? defaultBase).replace(/\/+$/, '');
-    const normalizedApiBase = /\/api$/.test(baseUrl) ? baseUrl : `${baseUrl}/api`;
-    const downloadPath = `${normalizedApiBase}/documents/${created.id}/download`;
-
-    return this.prisma.document.update({
-      where: { id: created.id },
-      data: {
-        url: downloadPath,
+  /**
+   * What a consolidated invoice bills for one booking: the collected amount, with the booking's
+   * price components scaled down when less than the full price was collected.
+   */
+  private toCompanyInvoiceLine(booking: CompanyInvoiceBooking): CompanyInvoiceLine {
+    const cancellationFee = booking.status === BookingStatus.CANCELLED;
+    const paidCents = booking.payments.reduce(
+      (sum, payment) =>
+        sum + payment.amountCents - payment.refunds.reduce((refunded, refund) => refunded + refund.amountCents, 0),
+      0
+    );
+    const overtimeCents = cancellationFee
+      ? 0
+      : booking.assignments.reduce((sum, assignment) => {
+          const netCents = assignment.overtimeAmountCents ?? 0;
+          return sum + netCents + computeTaxCents(netCents, booking.taxRateBps ?? 0);
+        }, 0);
+    const collectedCents = Math.min(paidCents + overtimeCents, booking.pricingTotalCents);
+    const amounts = this.prorateAmounts(
+      {
+        subtotalCents: booking.pricingSubtotalCents,
+        ecoSurchargeCents: booking.pricingEcoCents,
+        loyaltyCreditsCents: booking.pricingLoyaltyCents,
+        extrasCents: booking.pricingExtrasCents,
+        taxCents: booking.pricingTaxCents,
+        totalCents: booking.pricingTotalCents,
       },
+      Math.max(0, collectedCents)
+    );
+    return { booking, amounts, cancellationFee };
+  }
+
+  /** One VAT row per tax rule, in the order the rules first appear on the invoice. */
+  private groupTaxByRule(invoiceLines: CompanyInvoiceLine[]) {
+    const lines = new Map<string, { taxRule: string | null; taxRateBps: number | null; taxCents: number }>();
+    invoiceLines.forEach(({ booking, amounts }) => {
+      const key = `${booking.taxRule ?? ''}:${booking.taxRateBps ?? ''}`;
+      const line = lines.get(key) ?? { taxRule: booking.taxRule, taxRateBps: booking.taxRateBps, taxCents: 0 };
+      line.taxCents += amounts.taxCents;
+      lines.set(key, line);
     });
+    return Array.from(lines.values());
   }
 
-  private buildInvoiceNumber(paymentId: string, issueDate: Date) {
-    const suffix = paymentId.slice(-4).toUpperCase();
-    return `SAU-${issueDate.getFullYear()}-${suffix}`;
+  private prorateAmounts(original: InvoiceAmounts, amountCents: number): InvoiceAmounts {
+    if (amountCents >= original.totalCents || original.totalCents <= 0) {
+      return {
+        subtotalCents: original.subtotalCents,
+        ecoSurchargeCents: original.ecoSurchargeCents,
+        loyaltyCreditsCents: original.loyaltyCreditsCents,
+        extrasCents: original.extrasCents,
+        taxCents: original.taxCents,
+        totalCents: original.totalCents,
+      };
+    }
+    const ratio = amountCents / original.totalCents;
+    const ecoSurchargeCents = Math.round(original.ecoSurchargeCents * ratio);
+    const loyaltyCreditsCents = Math.round(original.loyaltyCreditsCents * ratio);
+    const extrasCents = Math.round(original.extrasCents * ratio);
+    const taxCents = Math.round(original.taxCents * ratio);
+    return {
+      subtotalCents: amountCents - ecoSurchargeCents - extrasCents + loyaltyCreditsCents - taxCents,
+      ecoSurchargeCents,
+      loyaltyCreditsCents,
+      extrasCents,
+      taxCents,
+      totalCents: amountCents,
+    };
   }
 
   private formatCurrency(valueCents: number) {
@@ -455,6 +1223,19 @@ export class InvoiceService {
       .filter((mission): mission is StoredMission => Boolean(mission?.bookingId && mission?.paymentDistributionId));
   }
 
+  private formatOnSiteTime(mission: StoredMission) {
+    if (!mission.checkInAt) {
+      return 'Présence sur place : non pointée';
+    }
+    const checkIn = this.formatDateTime(new Date(mission.checkInAt));
+    const checkOut = mission.checkOutAt ? this.formatDateTime(new Date(mission.checkOutAt)) : '—';
+    const worked =
+      typeof mission.workedMinutes === 'number'
+        ? ` (${Math.floor(mission.workedMinutes / 60)} h ${String(mission.workedMinutes % 60).padStart(2, '0')})`
+        : '';
+    return `Présence sur place : ${checkIn} – ${checkOut}${worked}`;
+  }
+
   private computeMissionBreakdown(mission: StoredMission) {
     const grossCents =
       mission.clientTotalCents && mission.clientTotalCents > mission.amountCents
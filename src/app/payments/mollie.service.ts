@@ -3,7 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { createHmac, timingSafeEqual } from 'crypto';
 import { URLSearchParams } from 'url';
 import createMollieClient from '@mollie/api-client';
-import type { Customer, Mandate, Payment } from '@mollie/api-client';
+import type { Capture, Customer, Mandate, Payment, Refund } from '@mollie/api-client';
 import type { AppEnvironmentConfig } from '../config/configuration';
 
 type MollieClient = ReturnType<typeof createMollieClient>;
@@ -11,6 +11,10 @@ type CreatePaymentParameters = Parameters<MollieClient['payments']['create']>[0]
 type CreateCustomerParameters = Parameters<MollieClient['customers']['create']>[0];
 type MandateCreateParameters = Parameters<MollieClient['customerMandates']['create']>[0];
 type MandateCreatePayload = Omit<MandateCreateParameters, 'customerId'>;
+type CreateRefundParameters = Parameters<MollieClient['paymentRefunds']['create']>[0];
+type CreateRefundPayload = Omit<CreateRefundParameters, 'paymentId'>;
+type CreateCaptureParameters = Parameters<MollieClient['paymentCaptures']['create']>[0];
+type CreateCapturePayload = Omit<CreateCaptureParameters, 'paymentId'>;
 
 @Injectable()
 export class MollieService {
@@ -62,6 +66,33 @@ export class MollieService {
     return client.payments.get(paymentId) as unknown as Promise<Payment>;
   }
 
+  async createRefund(paymentId: string, params: CreateRefundPayload): Promise<Refund> {
+    const client = this.requireClient();
+    return client.paymentRefunds.create({ ...params, paymentId }) as unknown as Promise<Refund>;
+  }
+
+  async getRefund(paymentId: string, refundId: string): Promise<Refund> {
+    const client = this.requireClient();
+    return client.paymentRefunds.get(refundId, { paymentId }) as unknown as Promise<Refund>;
+  }
+
+  /** Captures (part of) an authorized payment; Mollie releases the remainder of the authorization. */
+  async createCapture(paymentId: string, params: CreateCapturePayload): Promise<Capture> {
+    const client = this.requireClient();
+    return client.paymentCaptures.create({ ...params, paymentId }) as unknown as Promise<Capture>;
+  }
+
+  async releaseAuthorization(paymentId: string): Promise<void> {
+    const client = this.requireClient();
+    await client.payments.releaseAuthorization(paymentId);
+  }
+
+  async listRefunds(paymentId: string): Promise<Refund[]> {
+    const client = this.requireClient();
+    const page = await client.paymentRefunds.page({ paymentId, limit: 250 });
+    return Array.from(page) as unknown as Refund[];
+  }
+
   async parseEvent(
     payload: Buffer | string | object,
     signature?: string,
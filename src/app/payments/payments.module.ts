@@ -9,6 +9,7 @@ import { InvoiceModule } from './invoice/invoice.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { MollieService } from './mollie.service';
 import { PricingModule } from '../pricing/pricing.module';
+import { MarketingModule } from '../marketing/marketing.module';
 import { BookingsModule } from '../bookings/bookings.module';
 import { SystemModule } from '../system/system.module';
 
@@ -20,6 +21,7 @@ import { SystemModule } from '../system/system.module';
     InvoiceModule,
     NotificationsModule,
     PricingModule,
+    MarketingModule,
     forwardRef(() => BookingsModule),
     SystemModule,
   ],
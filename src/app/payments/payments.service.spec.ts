@@ -0,0 +1,351 @@
+import { BadRequestException, UnprocessableEntityException } from '@nestjs/common';
+import { PaymentProvider, PaymentRefundSource, PaymentRefundStatus, PaymentStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MollieService } from './mollie.service';
+import { PaymentsService, pendingCancellationSettlement } from './payments.service';
+
+type StoredRefund = {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  paymentId: string;
+  amountCents: number;
+  currency: string;
+  status: PaymentRefundStatus;
+  source: PaymentRefundSource;
+  reason: string | null;
+  sourceReference: string | null;
+  externalRefundId: string | null;
+  failureReason: string | null;
+  processedAt: Date | null;
+};
+
+describe('PaymentsService refunds', () => {
+  let service: PaymentsService;
+  let mollie: { createRefund: jest.Mock };
+  let payment: {
+    id: string;
+    bookingId: string;
+    amountCents: number;
+    currency: string;
+    status: PaymentStatus;
+    provider: PaymentProvider;
+    externalReference: string;
+  };
+  let refunds: StoredRefund[];
+
+  const withPayment = (refund: StoredRefund) => ({ ...refund, payment: { bookingId: payment.bookingId } });
+
+  beforeEach(() => {
+    payment = {
+      id: 'pay_1',
+      bookingId: 'booking_1',
+      amountCents: 10_000,
+      currency: 'EUR',
+      status: PaymentStatus.CAPTURED,
+      provider: PaymentProvider.MOLLIE,
+      externalReference: 'tr_1',
+    };
+    refunds = [];
+
+    const paymentRefund = {
+      findUnique: jest.fn(async ({ where }: { where: { sourceReference: string } }) => {
+        const refund = refunds.find((entry) => entry.sourceReference === where.sourceReference);
+        return refund ? withPayment(refund) : null;
+      }),
+      findUniqueOrThrow: jest.fn(async ({ where }: { where: { id: string } }) => {
+        const refund = refunds.find((entry) => entry.id === where.id);
+        if (!refund) {
+          throw new Error('not found');
+        }
+        return refund;
+      }),
+      aggregate: jest.fn(async ({ where }: { where: { status: { in: PaymentRefundStatus[] } } }) => {
+        await Promise.resolve();
+        const open = refunds.filter((refund) => where.status.in.includes(refund.status));
+        const amountCents = open.length ? open.reduce((sum, refund) => sum + refund.amountCents, 0) : null;
+        return { _sum: { amountCents } };
+      }),
+      create: jest.fn(async ({ data }: { data: Partial<StoredRefund> }) => {
+        const refund: StoredRefund = {
+          id: `refund_${refunds.length + 1}`,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          paymentId: payment.id,
+          amountCents: data.amountCents ?? 0,
+          currency: data.currency ?? 'EUR',
+          status: PaymentRefundStatus.PENDING,
+          source: data.source ?? PaymentRefundSource.ADMIN,
+          reason: data.reason ?? null,
+          sourceReference: data.sourceReference ?? null,
+          externalRefundId: null,
+          failureReason: null,
+          processedAt: null,
+        };
+        refunds.push(refund);
+        return refund;
+      }),
+      update: jest.fn(async ({ where, data }: { where: { id: string }; data: Partial<StoredRefund> }) => {
+        const refund = refunds.find((entry) => entry.id === where.id)!;
+        Object.assign(refund, data);
+        return withPayment(refund);
+      }),
+    };
+
+    // Emulates the row lock taken with SELECT ... FOR UPDATE: held until the transaction callback settles.
+    let rowLock = Promise.resolve();
+    const client = {
+      payment: {
+        findUnique: jest.fn(async () => ({ id: payment.id })),
+        findUniqueOrThrow: jest.fn(async () => ({ ...payment })),
+      },
+      paymentRefund,
+      paymentEvent: { create: jest.fn() },
+    };
+    const prisma = {
+      ...client,
+      $transaction: jest.fn(async (callback: (tx: unknown) => Promise<unknown>) => {
+        let release: () => void = () => undefined;
+        const tx = {
+          ...client,
+          $queryRaw: jest.fn(async () => {
+            const previous = rowLock;
+            rowLock = new Promise<void>((resolve) => (release = resolve));
+            await previous;
+          }),
+        };
+        try {
+          return await callback(tx);
+        } finally {
+          release();
+        }
+      }),
+    };
+
+    mollie = {
+      createRefund: jest.fn(async () => ({ id: 're_1', status: 'pending' })),
+    };
+
+    service = new PaymentsService(
+      prisma as unknown as PrismaService,
+      mollie as unknown as MollieService,
+      ...(Array.from({ length: 9 }, () => ({})) as [never, never, never, never, never, never, never, never, never])
+    );
+  });
+
+  it('never lets concurrent refunds exceed the payment', async () => {
+    const results = await Promise.allSettled([
+      service.refundPayment({ paymentId: payment.id, amountCents: 6000, source: PaymentRefundSource.ADMIN }),
+      service.refundPayment({ paymentId: payment.id, amountCents: 6000, source: PaymentRefundSource.ADMIN }),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const rejected = results.find((result) => result.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(BadRequestException);
+    expect(refunds.map((refund) => refund.amountCents)).toEqual([6000]);
+    expect(mollie.createRefund).toHaveBeenCalledTimes(1);
+  });
+
+  it('refunds the remaining balance by default', async () => {
+    await service.refundPayment({ paymentId: payment.id, amountCents: 3000, source: PaymentRefundSource.ADMIN });
+    const record = await service.refundPayment({ paymentId: payment.id, source: PaymentRefundSource.ADMIN });
+
+    expect(record).toMatchObject({ amountCents: 7000, status: 'pending', externalRefundId: 're_1' });
+    expect(mollie.createRefund).toHaveBeenLastCalledWith(
+      'tr_1',
+      expect.objectContaining({ amount: { currency: 'EUR', value: '70.00' } })
+    );
+    await expect(
+      service.refundPayment({ paymentId: payment.id, amountCents: 1, source: PaymentRefundSource.ADMIN })
+    ).rejects.toThrow('REFUND_AMOUNT_INVALID');
+  });
+
+  it('returns the existing refund for a repeated source reference', async () => {
+    const input = {
+      paymentId: payment.id,
+      amountCents: 2500,
+      source: PaymentRefundSource.CANCELLATION,
+      sourceReference: 'cancellation:booking_1',
+    };
+    const first = await service.refundPayment(input);
+    const second = await service.refundPayment(input);
+
+    expect(second.id).toBe(first.id);
+    expect(refunds).toHaveLength(1);
+    expect(mollie.createRefund).toHaveBeenCalledTimes(1);
+  });
+
+  it('frees the reserved amount again when Mollie rejects the refund', async () => {
+    mollie.createRefund.mockRejectedValueOnce(new Error('insufficient balance'));
+
+    await expect(
+      service.refundPayment({ paymentId: payment.id, amountCents: 10_000, source: PaymentRefundSource.ADMIN })
+    ).rejects.toBeInstanceOf(UnprocessableEntityException);
+    expect(refunds[0]).toMatchObject({ status: PaymentRefundStatus.FAILED, failureReason: 'insufficient balance' });
+
+    const retry = await service.refundPayment({ paymentId: payment.id, source: PaymentRefundSource.ADMIN });
+    expect(retry.amountCents).toBe(10_000);
+  });
+
+  it('refuses payments that were not collected', async () => {
+    payment.status = PaymentStatus.PENDING;
+    await expect(
+      service.refundPayment({ paymentId: payment.id, amountCents: 100, source: PaymentRefundSource.ADMIN })
+    ).rejects.toThrow('PAYMENT_NOT_REFUNDABLE');
+    expect(refunds).toHaveLength(0);
+  });
+});
+
+describe('PaymentsService booking payment amount', () => {
+  let service: PaymentsService;
+  let payment: { id: string; amountCents: number; platformFeeCents: number; status: PaymentStatus; provider: PaymentProvider };
+  let booking: { pricingTotalCents: number; pricingCurrency: string; shortNotice: boolean; shortNoticeDepositCents: number | null; client: unknown };
+  let initializeCheckout: jest.SpyInstance;
+  let refundPayment: jest.SpyInstance;
+
+  beforeEach(() => {
+    // The quote charged 19% VAT; the matched provider turned out to be a small business.
+    payment = {
+      id: 'pay_1',
+      amountCents: 11_900,
+      platformFeeCents: 0,
+      status: PaymentStatus.PENDING,
+      provider: PaymentProvider.MOLLIE,
+    };
+    booking = {
+      pricingTotalCents: 10_000,
+      pricingCurrency: 'EUR',
+      shortNotice: false,
+      shortNoticeDepositCents: null,
+      client: { id: 'client_1', email: 'anna@example.com', firstName: 'Anna', lastName: 'Schmidt' },
+    };
+    const prisma = {
+      booking: { findUnique: jest.fn(async () => booking) },
+      payment: { findUnique: jest.fn(async () => payment) },
+      paymentEvent: { create: jest.fn() },
+    };
+    service = new PaymentsService(
+      prisma as unknown as PrismaService,
+      { isEnabled: jest.fn(() => true) } as unknown as MollieService,
+      ...(Array.from({ length: 9 }, () => ({})) as [never, never, never, never, never, never, never, never, never])
+    );
+    initializeCheckout = jest
+      .spyOn(service as unknown as { initializeMollieBookingPayment: () => Promise<unknown> }, 'initializeMollieBookingPayment')
+      .mockResolvedValue({});
+    refundPayment = jest.spyOn(service, 'refundPayment').mockResolvedValue({} as never);
+  });
+
+  it('replaces an open checkout with one for the new total', async () => {
+    await service.syncBookingPaymentAmount('booking_1');
+
+    expect(initializeCheckout).toHaveBeenCalledWith(
+      expect.objectContaining({ bookingId: 'booking_1', amountCents: 10_000, currency: 'EUR' })
+    );
+    expect(refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('refunds the difference of a collected payment', async () => {
+    payment.status = PaymentStatus.CAPTURED;
+
+    await service.syncBookingPaymentAmount('booking_1');
+
+    expect(refundPayment).toHaveBeenCalledWith(
+      expect.objectContaining({ paymentId: 'pay_1', amountCents: 1900, source: PaymentRefundSource.ADMIN })
+    );
+    expect(initializeCheckout).not.toHaveBeenCalled();
+  });
+
+  it('leaves short-notice deposits and matching amounts alone', async () => {
+    booking.shortNotice = true;
+    booking.shortNoticeDepositCents = 11_900;
+    await service.syncBookingPaymentAmount('booking_1');
+
+    booking.shortNotice = false;
+    booking.pricingTotalCents = 11_900;
+    await service.syncBookingPaymentAmount('booking_1');
+
+    expect(initializeCheckout).not.toHaveBeenCalled();
+    expect(refundPayment).not.toHaveBeenCalled();
+  });
+});
+
+describe('PaymentsService cancellation settlement', () => {
+  let service: PaymentsService;
+  let booking: {
+    id: string;
+    cancellationSettlement: unknown;
+    cancellationSettlementDueAt: Date | null;
+    cancellationSettlementAttempts: number;
+  };
+  let settleCancellation: jest.SpyInstance;
+
+  beforeEach(() => {
+    booking = {
+      id: 'booking_1',
+      ...pendingCancellationSettlement({ feeCents: 2380, providerLines: [], reason: 'client_cancelled' }),
+    };
+    const prisma = {
+      booking: {
+        findUnique: jest.fn(async () => ({ ...booking })),
+        findMany: jest.fn(async ({ where }) => {
+          const dueAt = booking.cancellationSettlementDueAt;
+          return dueAt && dueAt <= where.cancellationSettlementDueAt.lte
+            ? [{ id: booking.id, cancellationSettlementDueAt: dueAt }]
+            : [];
+        }),
+        update: jest.fn(async ({ data }) => {
+          Object.assign(booking, {
+            ...data,
+            cancellationSettlement: data.cancellationSettlement === Prisma.DbNull ? null : booking.cancellationSettlement,
+            cancellationSettlementAttempts:
+              booking.cancellationSettlementAttempts + (data.cancellationSettlementAttempts?.increment ?? 0),
+          });
+          return { ...booking };
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          if (booking.cancellationSettlementDueAt?.getTime() !== where.cancellationSettlementDueAt?.getTime()) {
+            return { count: 0 };
+          }
+          Object.assign(booking, data);
+          return { count: 1 };
+        }),
+      },
+    };
+    service = new PaymentsService(
+      prisma as unknown as PrismaService,
+      {} as MollieService,
+      ...(Array.from({ length: 9 }, () => ({})) as [never, never, never, never, never, never, never, never, never])
+    );
+    settleCancellation = jest.spyOn(service, 'settleCancellation');
+  });
+
+  it('keeps a failed settlement pending and retries it once it is due', async () => {
+    settleCancellation.mockRejectedValueOnce(new Error('Mollie unavailable')).mockResolvedValueOnce(undefined);
+
+    await expect(service.settlePendingCancellation('booking_1')).resolves.toBe(false);
+    expect(booking.cancellationSettlementAttempts).toBe(1);
+    expect(booking.cancellationSettlement).toEqual(expect.objectContaining({ feeCents: 2380 }));
+
+    await service.retryPendingCancellationSettlements();
+    expect(settleCancellation).toHaveBeenCalledTimes(1);
+
+    booking.cancellationSettlementDueAt = new Date(Date.now() - 1000);
+    await service.retryPendingCancellationSettlements();
+
+    expect(settleCancellation).toHaveBeenLastCalledWith({
+      bookingId: 'booking_1',
+      feeCents: 2380,
+      providerLines: [],
+      reason: 'client_cancelled',
+    });
+    expect(booking.cancellationSettlement).toBeNull();
+    expect(booking.cancellationSettlementDueAt).toBeNull();
+  });
+
+  it('does nothing for bookings without a pending settlement', async () => {
+    booking.cancellationSettlementDueAt = null;
+
+    await expect(service.settlePendingCancellation('booking_1')).resolves.toBe(false);
+    expect(settleCancellation).not.toHaveBeenCalled();
+  });
+});
@@ -22,16 +22,23 @@ import {
   Document as PrismaDocument,
   Invoice as PrismaInvoice,
   ProviderPayout as PrismaProviderPayout,
+  NotificationAutomationEvent,
   NotificationType,
   UserRole,
   PaymentProvider,
   DisputeStatus as PrismaDisputeStatus,
+  PaymentRefund as PrismaPaymentRefund,
+  PaymentRefundSource,
+  PaymentRefundStatus,
+  CompanyBillingMode,
+  InvoiceKind,
 } from '@prisma/client';
 import type {
   User,
   PaymentMandateRecord,
   PaymentMethod as ClientPaymentMethod,
   PaymentRecord,
+  PaymentRefundRecord,
   ProviderOnboardingResponse,
 } from '@saubio/models';
 import { PrismaService } from '../../prisma/prisma.service';
@@ -48,15 +55,21 @@ import { ConfigService } from '@nestjs/config';
 import { InvoiceService } from './invoice/invoice.service';
 import { NotificationsService } from '../notifications/notifications.service';
 import { EmailQueueService } from '../notifications/email-queue.service';
+import { NotificationAutomationService } from '../notifications/notification-automation.service';
 import { PricingService } from '../pricing/pricing.service';
+import { ReferralService } from '../marketing/referral.service';
+import { MarketingCampaignsService } from '../marketing/marketing-campaigns.service';
 import { MollieService } from './mollie.service';
 import type {
   Mandate as MollieMandate,
   MandateMethod as MollieMandateMethod,
   Locale as MollieLocale,
   SequenceType as MollieSequenceType,
+  Refund as MollieRefund,
 } from '@mollie/api-client';
 import { CreateMandateDto } from './dto/create-mandate.dto';
+import { NET_PROVIDER_SHARE_FACTOR, PLATFORM_COMMISSION_RATE } from './payment.constants';
+import { computeRefundClawbacks } from './refund-clawback';
 
 type InitializeBookingPaymentInput = {
   bookingId: string;
@@ -88,6 +101,58 @@ type CreatePaymentRecordInput = {
   provider?: PaymentProvider;
 };
 
+type RefundPaymentInput = {
+  paymentId?: string | null;
+  bookingId?: string;
+  amountCents?: number;
+  reason?: string | null;
+  source: PaymentRefundSource;
+  sourceReference?: string;
+  requestedById?: string | null;
+};
+
+/** What a cancellation still has to settle with the payment; kept on the booking until it succeeds. */
+export type CancellationSettlement = {
+  feeCents: number;
+  /** Compensation (positive) or penalty (negative) lines for the next payout batch. */
+  providerLines: { providerId: string; amountCents: number }[];
+  reason: string;
+  requestedById?: string | null;
+};
+
+type SettleCancellationInput = CancellationSettlement & { bookingId: string };
+
+type PaymentRefundWithPayment = PrismaPaymentRefund & {
+  payment: Pick<PaymentModel, 'bookingId'>;
+};
+
+const REFUNDABLE_PAYMENT_STATUSES: PrismaPaymentStatus[] = [
+  PrismaPaymentStatus.CAPTURED,
+  PrismaPaymentStatus.RELEASED,
+];
+
+const OPEN_PAYMENT_STATUSES: PrismaPaymentStatus[] = [
+  PrismaPaymentStatus.PENDING,
+  PrismaPaymentStatus.REQUIRES_ACTION,
+];
+
+const OPEN_REFUND_STATUSES: PaymentRefundStatus[] = [
+  PaymentRefundStatus.PENDING,
+  PaymentRefundStatus.PROCESSING,
+  PaymentRefundStatus.REFUNDED,
+];
+
+const CANCELLATION_SETTLEMENT_RETRY_MS = 10 * 60 * 1000;
+
+/** Booking fields that record a cancellation's settlement for `settlePendingCancellation` and its retry job. */
+export function pendingCancellationSettlement(settlement: CancellationSettlement) {
+  return {
+    cancellationSettlement: settlement,
+    cancellationSettlementDueAt: new Date(Date.now() + CANCELLATION_SETTLEMENT_RETRY_MS),
+    cancellationSettlementAttempts: 0,
+  };
+}
+
 export interface MollieWebhookProcessingResult {
   paymentId?: string;
   bookingId?: string;
@@ -119,6 +184,12 @@ type PaymentDistributionWithPayment = PaymentDistributionModel & {
       endAt: Date;
       addressCity: string;
       pricingTotalCents: number;
+      assignments: {
+        providerId: string;
+        checkInAt: Date | null;
+        checkOutAt: Date | null;
+        workedMinutes: number | null;
+      }[];
     };
     distributions: PaymentDistributionModel[];
   };
@@ -144,6 +215,10 @@ type StoredPayoutMission = {
   startAt?: string;
   endAt?: string;
   clientTotalCents?: number;
+  checkInAt?: string | null;
+  checkOutAt?: string | null;
+  workedMinutes?: number | null;
+  overtime?: boolean;
 };
 
 type BillingRecipient = {
@@ -166,9 +241,12 @@ export class PaymentsService {
     private readonly invoiceService: InvoiceService,
     private readonly notifications: NotificationsService,
     private readonly emailQueue: EmailQueueService,
+    private readonly automation: NotificationAutomationService,
     private readonly pricing: PricingService,
     @Inject(forwardRef(() => BookingsService))
-    private readonly bookingsService: BookingsService
+    private readonly bookingsService: BookingsService,
+    private readonly referrals: ReferralService,
+    private readonly campaigns: MarketingCampaignsService
   ) {}
 
   @Cron('0 5 * * 5')
@@ -879,6 +957,376 @@ export class PaymentsService {
     );
   }
 
+  /**
+   * Brings the booking payment in line with a booking total that changed after the payment was set up, which
+   * happens when matching assigns small-business providers and the VAT is resolved again. An open checkout is
+   * replaced by one for the new amount and a collected payment is refunded the difference. Short-notice deposits
+   * are settled when a provider accepts, so they are left alone.
+   */
+  async syncBookingPaymentAmount(bookingId: string) {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: {
+        pricingTotalCents: true,
+        pricingCurrency: true,
+        shortNotice: true,
+        shortNoticeDepositCents: true,
+        client: { select: { id: true, email: true, firstName: true, lastName: true } },
+      },
+    });
+    const payment = await this.prisma.payment.findUnique({ where: { bookingId } });
+    if (!booking || !payment || payment.amountCents === booking.pricingTotalCents) {
+      return;
+    }
+    if (booking.shortNotice && payment.amountCents === booking.shortNoticeDepositCents) {
+      return;
+    }
+
+    const amountCents = booking.pricingTotalCents;
+    if (OPEN_PAYMENT_STATUSES.includes(payment.status)) {
+      if (!booking.client || !this.mollieService.isEnabled()) {
+        this.logger.warn(`[Payments] Cannot replace the open checkout of booking ${bookingId} for the new total`);
+        return;
+      }
+      await this.initializeMollieBookingPayment({
+        bookingId,
+        client: booking.client,
+        amountCents,
+        currency: booking.pricingCurrency,
+        platformFeeCents: payment.platformFeeCents,
+      });
+      await this.recordPaymentEvent(
+        payment.provider,
+        'amount.updated',
+        { previousAmountCents: payment.amountCents, amountCents },
+        payment.id
+      );
+      return;
+    }
+
+    if (REFUNDABLE_PAYMENT_STATUSES.includes(payment.status) && amountCents < payment.amountCents) {
+      await this.refundPayment({
+        paymentId: payment.id,
+        amountCents: payment.amountCents - amountCents,
+        reason: 'tax_adjustment',
+        source: PaymentRefundSource.ADMIN,
+        sourceReference: `tax:${bookingId}:${amountCents}`,
+      });
+      return;
+    }
+
+    await this.recordPaymentEvent(
+      payment.provider,
+      'amount.mismatch',
+      { paymentAmountCents: payment.amountCents, bookingTotalCents: amountCents, status: payment.status },
+      payment.id
+    );
+    this.logger.warn(
+      `[Payments] Payment ${payment.id} (${payment.status}) no longer matches the total of booking ${bookingId}`
+    );
+  }
+
+  /**
+   * Charges approved overtime as its own Mollie payment, since the booking payment is already collected. Clients
+   * with a valid SEPA mandate are debited directly, others get a checkout link. The provider's share and the
+   * supplementary invoice are only booked once Mollie reports the payment as paid (`settleOvertimePayment`).
+   */
+  async createOvertimePayment(params: {
+    bookingId: string;
+    assignmentId: string;
+    providerId: string;
+    netCents: number;
+    taxCents: number;
+  }): Promise<{ checkoutUrl: string | null } | null> {
+    const amount = Math.max(0, Math.round(params.netCents + params.taxCents));
+    if (!amount) {
+      return null;
+    }
+    if (!this.mollieService.isEnabled()) {
+      throw new ConflictException('MOLLIE_NOT_CONFIGURED');
+    }
+    const payment = await this.prisma.payment.findUnique({
+      where: { bookingId: params.bookingId },
+    });
+    if (!payment) {
+      this.logger.warn(`No payment record found for booking ${params.bookingId} to charge overtime for.`);
+      return null;
+    }
+    const mandate = payment.externalCustomerId
+      ? await this.prisma.paymentMandate.findFirst({
+          where: { clientId: payment.clientId, status: 'valid', revokedAt: null },
+          orderBy: { createdAt: 'desc' },
+        })
+      : null;
+
+    const molliePayment = await this.mollieService.createPayment({
+      amount: { value: this.formatAmountValue(amount), currency: payment.currency },
+      description: `Saubio heures supplémentaires ${params.bookingId.slice(0, 8).toUpperCase()}`,
+      redirectUrl: `${this.getAppBaseUrl()}/client/bookings/${params.bookingId}?overtime=success`,
+      webhookUrl: this.getPaymentsWebhookUrl(),
+      locale: 'fr_FR' as MollieLocale,
+      ...(payment.externalCustomerId ? { customerId: payment.externalCustomerId } : {}),
+      ...(mandate
+        ? { mandateId: mandate.externalMandateId, sequenceType: 'recurring' as MollieSequenceType }
+        : { sequenceType: 'oneoff' as MollieSequenceType }),
+      metadata: {
+        purpose: 'booking_overtime',
+        bookingId: params.bookingId,
+        assignmentId: params.assignmentId,
+        providerId: params.providerId,
+        netCents: params.netCents,
+        taxCents: params.taxCents,
+      },
+    });
+
+    await this.prisma.bookingAssignment.update({
+      where: { id: params.assignmentId },
+      data: { overtimePaymentReference: molliePayment.id },
+    });
+    await this.recordPaymentEvent(
+      payment.provider,
+      'overtime.created',
+      { assignmentId: params.assignmentId, externalReference: molliePayment.id, amountCents: amount },
+      payment.id
+    );
+    return { checkoutUrl: molliePayment._links?.checkout?.href ?? null };
+  }
+
+  /**
+   * Books a paid overtime charge: the provider's share goes out with the next payout batch and the client gets a
+   * supplementary invoice. The booking payment itself is left untouched, so it is never refunded beyond what it
+   * collected.
+   */
+  private async settleOvertimePayment(metadata: Record<string, unknown>, externalReference: string) {
+    const assignmentId = typeof metadata['assignmentId'] === 'string' ? metadata['assignmentId'] : null;
+    const netCents = typeof metadata['netCents'] === 'number' ? metadata['netCents'] : null;
+    const taxCents = typeof metadata['taxCents'] === 'number' ? metadata['taxCents'] : 0;
+    if (!assignmentId || netCents === null) {
+      this.logger.warn(`[Payments] Overtime payment ${externalReference} is missing its metadata`);
+      return;
+    }
+    const paidAt = new Date();
+    const settled = await this.prisma.$transaction(async (tx) => {
+      // Mollie re-sends webhooks, and a retried charge can leave an older checkout open: only the first paid
+      // payment books anything.
+      const claim = await tx.bookingAssignment.updateMany({
+        where: { id: assignmentId, overtimePaidAt: null },
+        data: { overtimePaidAt: paidAt, overtimePaymentReference: externalReference },
+      });
+      if (!claim.count) {
+        const current = await tx.bookingAssignment.findUnique({
+          where: { id: assignmentId },
+          select: { overtimePaymentReference: true },
+        });
+        if (current && current.overtimePaymentReference !== externalReference) {
+          this.logger.warn(
+            `[Payments] Overtime of assignment ${assignmentId} was already paid by ${current.overtimePaymentReference}; payment ${externalReference} needs a refund`
+          );
+        }
+        return null;
+      }
+      const assignment = await tx.bookingAssignment.findUniqueOrThrow({ where: { id: assignmentId } });
+      const payment = await tx.payment.findUnique({ where: { bookingId: assignment.bookingId } });
+      if (!payment) {
+        return null;
+      }
+      await tx.paymentDistribution.create({
+        data: {
+          payment: { connect: { id: payment.id } },
+          beneficiaryId: assignment.providerId,
+          beneficiaryType: 'provider',
+          amountCents: Math.round((netCents + taxCents) * NET_PROVIDER_SHARE_FACTOR),
+          currency: payment.currency,
+          externalReference: `overtime:${assignmentId}`,
+          payoutStatus: 'pending',
+        },
+      });
+      return payment;
+    });
+    if (!settled) {
+      return;
+    }
+
+    await this.recordPaymentEvent(
+      settled.provider,
+      'overtime.paid',
+      { assignmentId, externalReference, netCents, taxCents },
+      settled.id
+    );
+    const generatedInvoice = await this.invoiceService.generateOvertimeInvoice({
+      bookingId: settled.bookingId,
+      assignmentId,
+      netCents,
+      taxCents,
+      paidAt,
+    });
+    await this.notifyInvoiceGenerated(
+      settled,
+      generatedInvoice?.document ?? null,
+      generatedInvoice?.invoice ?? null
+    );
+  }
+
+  @Cron('*/10 * * * *')
+  async retryPendingCancellationSettlements() {
+    const now = new Date();
+    const pending = await this.prisma.booking.findMany({
+      where: { cancellationSettlementDueAt: { lte: now } },
+      orderBy: { cancellationSettlementDueAt: 'asc' },
+      take: 20,
+      select: { id: true, cancellationSettlementDueAt: true },
+    });
+
+    for (const booking of pending) {
+      // Pushing the due date out claims the booking, so a parallel run skips it.
+      const claimed = await this.prisma.booking.updateMany({
+        where: { id: booking.id, cancellationSettlementDueAt: booking.cancellationSettlementDueAt },
+        data: { cancellationSettlementDueAt: new Date(now.getTime() + CANCELLATION_SETTLEMENT_RETRY_MS) },
+      });
+      if (claimed.count) {
+        await this.settlePendingCancellation(booking.id);
+      }
+    }
+  }
+
+  /**
+   * Runs the settlement recorded on a cancelled booking. On success it is cleared; on failure it stays pending
+   * and `retryPendingCancellationSettlements` tries again, so the payment never stays authorised or uncaptured.
+   */
+  async settlePendingCancellation(bookingId: string): Promise<boolean> {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: { cancellationSettlement: true, cancellationSettlementDueAt: true },
+    });
+    if (!booking?.cancellationSettlementDueAt || !booking.cancellationSettlement) {
+      return false;
+    }
+
+    const settlement = booking.cancellationSettlement as CancellationSettlement;
+    try {
+      await this.settleCancellation({ bookingId, ...settlement });
+    } catch (error) {
+      const attempts = await this.prisma.booking.update({
+        where: { id: bookingId },
+        data: {
+          cancellationSettlementDueAt: new Date(Date.now() + CANCELLATION_SETTLEMENT_RETRY_MS),
+          cancellationSettlementAttempts: { increment: 1 },
+        },
+        select: { cancellationSettlementAttempts: true },
+      });
+      this.logger.warn(
+        `Payment settlement after cancellation failed for booking ${bookingId} (attempt ${
+          attempts.cancellationSettlementAttempts
+        }): ${error instanceof Error ? error.message : String(error)}`
+      );
+      return false;
+    }
+
+    await this.prisma.booking.update({
+      where: { id: bookingId },
+      data: { cancellationSettlement: Prisma.DbNull, cancellationSettlementDueAt: null },
+    });
+    return true;
+  }
+
+  /**
+   * Settles the payment of a cancelled booking: an authorized payment is captured for the fee and the rest of
+   * the authorization released, a collected payment is refunded minus the fee. Provider lines are only booked
+   * when money was actually collected, since payout batches only pick up settled payments.
+   */
+  async settleCancellation(input: SettleCancellationInput) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { bookingId: input.bookingId },
+      include: { refunds: true },
+    });
+    if (!payment) {
+      return;
+    }
+
+    const feeCents = Math.min(Math.max(0, Math.round(input.feeCents)), payment.amountCents);
+    if (payment.status === PrismaPaymentStatus.AUTHORIZED) {
+      const compensationCents = input.providerLines
+        .filter((line) => line.amountCents > 0)
+        .reduce((sum, line) => sum + line.amountCents, 0);
+      await this.settleAuthorizedCancellation(payment, feeCents, compensationCents);
+    } else if (REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+      const reservedCents = payment.refunds
+        .filter((refund) => OPEN_REFUND_STATUSES.includes(refund.status))
+        .reduce((sum, refund) => sum + refund.amountCents, 0);
+      const refundCents = payment.amountCents - reservedCents - feeCents;
+      if (refundCents > 0) {
+        await this.refundPayment({
+          paymentId: payment.id,
+          amountCents: refundCents,
+          reason: input.reason,
+          source: PaymentRefundSource.CANCELLATION,
+          sourceReference: `cancellation:${input.bookingId}`,
+          requestedById: input.requestedById ?? null,
+        });
+      }
+    } else {
+      return;
+    }
+
+    for (const line of input.providerLines) {
+      if (!line.amountCents) {
+        continue;
+      }
+      const externalReference = `cancellation:${input.bookingId}:${line.providerId}`;
+      const existing = await this.prisma.paymentDistribution.findFirst({
+        where: { paymentId: payment.id, externalReference },
+        select: { id: true },
+      });
+      if (existing) {
+        continue;
+      }
+      await this.prisma.paymentDistribution.create({
+        data: {
+          payment: { connect: { id: payment.id } },
+          beneficiaryId: line.providerId,
+          beneficiaryType: 'provider',
+          amountCents: line.amountCents,
+          currency: payment.currency,
+          externalReference,
+          payoutStatus: 'pending',
+        },
+      });
+    }
+  }
+
+  private async settleAuthorizedCancellation(payment: PaymentModel, feeCents: number, compensationCents: number) {
+    if (payment.provider === PaymentProvider.MOLLIE && payment.externalReference && this.mollieService.isEnabled()) {
+      if (feeCents > 0) {
+        await this.mollieService.createCapture(payment.externalReference, {
+          amount: { currency: payment.currency, value: this.formatAmountValue(feeCents) },
+          description: `Saubio frais d'annulation ${payment.bookingId.slice(0, 8).toUpperCase()}`,
+        });
+      } else {
+        await this.mollieService.releaseAuthorization(payment.externalReference);
+      }
+    }
+
+    const now = new Date();
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data:
+        feeCents > 0
+          ? {
+              status: PrismaPaymentStatus.CAPTURED,
+              amountCents: feeCents,
+              platformFeeCents: Math.max(0, feeCents - compensationCents),
+              capturedAt: now,
+            }
+          : { status: PrismaPaymentStatus.CANCELLED, cancellationReason: 'booking_cancelled' },
+    });
+    await this.recordPaymentEvent(
+      payment.provider,
+      feeCents > 0 ? 'cancellation.captured' : 'cancellation.released',
+      { amountCents: feeCents, authorizedCents: payment.amountCents },
+      payment.id
+    );
+  }
+
   async captureBookingPayment(bookingId: string) {
     this.logger.debug(`captureBookingPayment invoked for booking ${bookingId}, but manual capture is disabled for Mollie.`);
   }
@@ -972,6 +1420,128 @@ export class PaymentsService {
     };
   }
 
+  async refundPayment(input: RefundPaymentInput): Promise<PaymentRefundRecord> {
+    if (input.sourceReference) {
+      const existing = await this.prisma.paymentRefund.findUnique({
+        where: { sourceReference: input.sourceReference },
+        include: { payment: { select: { bookingId: true } } },
+      });
+      if (existing) {
+        return this.mapRefundToRecord(existing);
+      }
+    }
+
+    const target = input.paymentId
+      ? await this.prisma.payment.findUnique({ where: { id: input.paymentId }, select: { id: true } })
+      : input.bookingId
+      ? await this.prisma.payment.findUnique({ where: { bookingId: input.bookingId }, select: { id: true } })
+      : null;
+    if (!target) {
+      throw new NotFoundException('PAYMENT_NOT_FOUND');
+    }
+
+    let reservation: { payment: PaymentModel; refund: PrismaPaymentRefund };
+    try {
+      reservation = await this.prisma.$transaction(async (tx) => {
+        // Locking the payment row serializes concurrent refunds, so together they never exceed what was paid.
+        await tx.$queryRaw`SELECT 1 FROM "Payment" WHERE id = ${target.id} FOR UPDATE`;
+        const payment = await tx.payment.findUniqueOrThrow({ where: { id: target.id } });
+        if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+          throw new BadRequestException('PAYMENT_NOT_REFUNDABLE');
+        }
+        const reserved = await tx.paymentRefund.aggregate({
+          where: { paymentId: payment.id, status: { in: OPEN_REFUND_STATUSES } },
+          _sum: { amountCents: true },
+        });
+        const remainingCents = payment.amountCents - (reserved._sum.amountCents ?? 0);
+        const amountCents = input.amountCents ?? remainingCents;
+        if (amountCents <= 0 || amountCents > remainingCents) {
+          throw new BadRequestException('REFUND_AMOUNT_INVALID');
+        }
+        const refund = await tx.paymentRefund.create({
+          data: {
+            payment: { connect: { id: payment.id } },
+            amountCents,
+            currency: payment.currency ?? 'EUR',
+            source: input.source,
+            reason: input.reason ?? null,
+            sourceReference: input.sourceReference ?? null,
+            requestedBy: input.requestedById ? { connect: { id: input.requestedById } } : undefined,
+          },
+        });
+        return { payment, refund };
+      });
+    } catch (error) {
+      if (
+        input.sourceReference &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const concurrent = await this.prisma.paymentRefund.findUnique({
+          where: { sourceReference: input.sourceReference },
+          include: { payment: { select: { bookingId: true } } },
+        });
+        if (concurrent) {
+          return this.mapRefundToRecord(concurrent);
+        }
+      }
+      throw error;
+    }
+    const { payment, refund } = reservation;
+    const amountCents = refund.amountCents;
+
+    await this.recordPaymentEvent(
+      payment.provider,
+      'refund.requested',
+      { refundId: refund.id, amountCents, source: input.source, reason: input.reason ?? null },
+      payment.id
+    );
+
+    if (payment.provider !== PaymentProvider.MOLLIE || !payment.externalReference) {
+      // Nothing to call for payments collected outside Mollie; finance settles those offline.
+      return this.mapRefundToRecord(await this.settleRefund(refund.id));
+    }
+
+    let mollieRefund: MollieRefund;
+    try {
+      mollieRefund = await this.mollieService.createRefund(payment.externalReference, {
+        amount: { currency: refund.currency, value: this.formatAmountValue(amountCents) },
+        description: `Saubio remboursement ${payment.bookingId.slice(0, 8).toUpperCase()}`,
+        metadata: {
+          refundId: refund.id,
+          paymentId: payment.id,
+          bookingId: payment.bookingId,
+          source: input.source.toLowerCase(),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.prisma.paymentRefund.update({
+        where: { id: refund.id },
+        data: { status: PaymentRefundStatus.FAILED, failureReason: message },
+      });
+      await this.recordPaymentEvent(
+        PaymentProvider.MOLLIE,
+        'refund.failed',
+        { refundId: refund.id, error: message },
+        payment.id
+      );
+      this.logger.warn(`[Payments] Mollie refund failed for payment=${payment.id}: ${message}`);
+      throw new UnprocessableEntityException('REFUND_FAILED');
+    }
+
+    return this.mapRefundToRecord(await this.applyMollieRefundStatus(refund.id, mollieRefund));
+  }
+
+  async listPaymentRefunds(paymentId: string): Promise<PaymentRefundRecord[]> {
+    const refunds = await this.prisma.paymentRefund.findMany({
+      where: { paymentId },
+      orderBy: { createdAt: 'desc' },
+      include: { payment: { select: { bookingId: true } } },
+    });
+    return refunds.map((refund) => this.mapRefundToRecord(refund));
+  }
+
   async handleMollieEvent(event: Record<string, unknown>): Promise<MollieWebhookProcessingResult | null> {
     const enrichedEvent = await this.enrichMollieEvent(event);
     this.logger.debug('===== PARSED EVENT (ENRICHED) =====');
@@ -1016,6 +1586,18 @@ export class PaymentsService {
       } metadata=${JSON.stringify(metadata ?? {})}`
     );
 
+    // Overtime is charged separately; its webhooks must not replay the booking payment flow.
+    if (metadata['purpose'] === 'booking_overtime') {
+      await this.recordPaymentEvent(PaymentProvider.MOLLIE, type, enrichedEvent);
+      const externalReference = typeof enrichedEvent['id'] === 'string' ? (enrichedEvent['id'] as string) : null;
+      if (status === 'paid' && externalReference) {
+        await this.settleOvertimePayment(metadata, externalReference);
+      } else if (status === 'failed') {
+        this.logger.warn(`[Payments] Overtime payment ${externalReference ?? 'unknown'} failed`);
+      }
+      return context;
+    }
+
     if (
       status === 'paid' &&
       metadata &&
@@ -1062,7 +1644,11 @@ export class PaymentsService {
     context.bookingId = payment.bookingId;
     context.userId = payment.clientId;
 
-    if (status === 'paid') {
+    // Mollie keeps a refunded payment in `paid` and re-sends the payment webhook for every refund
+    // status change, so these notifications must not replay the capture flow.
+    const hasRefunds = await this.syncMollieRefunds(payment, enrichedEvent);
+
+    if (status === 'paid' && !hasRefunds) {
       const now = new Date();
       const method = this.mapMollieMethod(enrichedEvent['method']);
       const updateData: Prisma.PaymentUpdateInput = {
@@ -1092,6 +1678,8 @@ export class PaymentsService {
       );
       await this.notifyPaymentCapturedEvent(updatedPayment);
       await this.finalizeLoyaltyForPayment(updatedPayment);
+      await this.referrals.rewardForPayment(updatedPayment);
+      await this.campaigns.recordConversion(updatedPayment);
       await this.triggerShortNoticeDispatch(updatedPayment);
     }
 
@@ -1103,6 +1691,14 @@ export class PaymentsService {
           occurredAt: new Date(),
         },
       });
+      if (payment.status !== PrismaPaymentStatus.FAILED) {
+        await this.automation.trigger(NotificationAutomationEvent.PAYMENT_FAILED, {
+          bookingId: payment.bookingId,
+          paymentId: payment.id,
+          payload: { failure: { type: normalizedType || null } },
+          dedupeKey: `${payment.id}:${payment.occurredAt.toISOString()}`,
+        });
+      }
     }
 
     return context;
@@ -1205,7 +1801,12 @@ export class PaymentsService {
         payoutStatus: 'pending',
         payment: {
           status: {
-            in: [PrismaPaymentStatus.CAPTURED, PrismaPaymentStatus.RELEASED],
+            in: [
+              PrismaPaymentStatus.CAPTURED,
+              PrismaPaymentStatus.RELEASED,
+              PrismaPaymentStatus.REFUNDED,
+              PrismaPaymentStatus.CANCELLED,
+            ],
           },
         },
       },
@@ -1220,6 +1821,9 @@ export class PaymentsService {
                 endAt: true,
                 addressCity: true,
                 pricingTotalCents: true,
+                assignments: {
+                  select: { providerId: true, checkInAt: true, checkOutAt: true, workedMinutes: true },
+                },
               },
             },
             distributions: true,
@@ -1262,6 +1866,13 @@ export class PaymentsService {
       groups.set(distribution.beneficiaryId, group);
     }
 
+    // Refund clawbacks can outweigh a provider's pending earnings; carry those over to a later batch.
+    for (const [providerId, group] of groups) {
+      if (group.amountCents <= 0) {
+        groups.delete(providerId);
+      }
+    }
+
     if (groups.size === 0) {
       return null;
     }
@@ -1281,17 +1892,26 @@ export class PaymentsService {
               amountCents: group.amountCents,
               currency: group.currency,
               status: ProviderPayoutStatus.PROCESSING,
-              missions: group.distributions.map((item) => ({
-                paymentDistributionId: item.id,
-                paymentId: item.paymentId,
-                bookingId: item.payment.booking.id,
-                service: item.payment.booking.service,
-                amountCents: item.amountCents,
-                city: item.payment.booking.addressCity,
-                startAt: item.payment.booking.startAt.toISOString(),
-                endAt: item.payment.booking.endAt.toISOString(),
-                clientTotalCents: this.computeClientPortionForDistribution(item),
-              })),
+              missions: group.distributions.map((item) => {
+                const assignment = item.payment.booking.assignments.find(
+                  (entry) => entry.providerId === item.beneficiaryId
+                );
+                return {
+                  paymentDistributionId: item.id,
+                  paymentId: item.paymentId,
+                  bookingId: item.payment.booking.id,
+                  service: item.payment.booking.service,
+                  amountCents: item.amountCents,
+                  city: item.payment.booking.addressCity,
+                  startAt: item.payment.booking.startAt.toISOString(),
+                  endAt: item.payment.booking.endAt.toISOString(),
+                  clientTotalCents: this.computeClientPortionForDistribution(item),
+                  checkInAt: assignment?.checkInAt?.toISOString() ?? null,
+                  checkOutAt: assignment?.checkOutAt?.toISOString() ?? null,
+                  workedMinutes: assignment?.workedMinutes ?? null,
+                  overtime: item.externalReference?.startsWith('overtime:') ?? false,
+                };
+              }),
             })),
           },
         },
@@ -1349,7 +1969,7 @@ export class PaymentsService {
 
   private computeClientPortionForDistribution(distribution: PaymentDistributionWithPayment): number {
     const providerShareTotal = distribution.payment.distributions
-      .filter((entry) => entry.beneficiaryType === 'provider')
+      .filter((entry) => entry.beneficiaryType === 'provider' && entry.amountCents > 0)
       .reduce((sum, entry) => sum + entry.amountCents, 0);
 
     const bookingTotal = distribution.payment.booking.pricingTotalCents ?? distribution.payment.amountCents ?? distribution.amountCents;
@@ -1406,7 +2026,8 @@ export class PaymentsService {
     document?: PrismaDocument | null,
     invoice?: PrismaInvoice | null
   ) {
-    if (!payment.clientId) {
+    // Bookings of consolidated company accounts are invoiced monthly instead.
+    if (!payment.clientId || !invoice) {
       return;
     }
 
@@ -1414,6 +2035,8 @@ export class PaymentsService {
     if (!shouldNotify) {
       return;
     }
+    // Supplementary invoices (overtime) are not tied to the booking payment and bill their own amount.
+    const supplementary = invoice.paymentId !== payment.id;
 
     const bookingRecord = await this.prisma.booking.findUnique({
       where: { id: payment.bookingId },
@@ -1437,7 +2060,7 @@ export class PaymentsService {
       event: 'invoice_generated',
       paymentId: payment.id,
       bookingId: payment.bookingId,
-      amountCents: payment.amountCents,
+      amountCents: supplementary ? invoice.totalCents : payment.amountCents,
       currency: payment.currency ?? 'EUR',
       documentId: document?.id ?? null,
       documentName: document?.name ?? null,
@@ -1470,7 +2093,7 @@ export class PaymentsService {
       invoice ?? undefined,
       bookingRecord?.client ?? undefined
     );
-    if (bookingRecord?.shortNotice && recipient) {
+    if (bookingRecord?.shortNotice && recipient && !supplementary) {
       await this.enqueueShortNoticeConfirmationEmail({
         recipient,
         booking: bookingRecord,
@@ -1490,10 +2113,9 @@ export class PaymentsService {
       where: {
         bookingId: payment.bookingId,
         action: 'invoice_generated',
-        metadata: {
-          path: ['paymentId'],
-          equals: payment.id,
-        },
+        metadata: invoice
+          ? { path: ['invoiceId'], equals: invoice.id }
+          : { path: ['paymentId'], equals: payment.id },
       },
     });
 
@@ -2060,6 +2682,245 @@ export class PaymentsService {
     }
   }
 
+  private async syncMollieRefunds(payment: PaymentModel, event: Record<string, unknown>): Promise<boolean> {
+    const knownRefunds = await this.prisma.paymentRefund.findMany({
+      where: { paymentId: payment.id },
+    });
+    const amountRefunded = event['amountRefunded'] as { value?: string } | undefined;
+    const reportsRefunds = Number(amountRefunded?.value ?? 0) > 0;
+    if (
+      (!knownRefunds.length && !reportsRefunds) ||
+      payment.provider !== PaymentProvider.MOLLIE ||
+      !payment.externalReference
+    ) {
+      return knownRefunds.length > 0;
+    }
+
+    let mollieRefunds: MollieRefund[];
+    try {
+      mollieRefunds = await this.mollieService.listRefunds(payment.externalReference);
+    } catch (error) {
+      this.logger.warn(
+        `Unable to sync Mollie refunds for payment ${payment.id}: ${error instanceof Error ? error.message : error}`
+      );
+      return true;
+    }
+
+    for (const mollieRefund of mollieRefunds) {
+      const metadata = (mollieRefund.metadata ?? {}) as Record<string, unknown>;
+      const local =
+        knownRefunds.find((refund) => refund.externalRefundId === mollieRefund.id) ??
+        knownRefunds.find((refund) => refund.id === metadata['refundId']);
+      try {
+        if (local) {
+          await this.applyMollieRefundStatus(local.id, mollieRefund);
+          continue;
+        }
+        // Refund issued directly from the Mollie dashboard: adopt it so the ledger stays aligned.
+        const created = await this.prisma.paymentRefund.create({
+          data: {
+            payment: { connect: { id: payment.id } },
+            amountCents: Math.round(Number(mollieRefund.amount.value) * 100),
+            currency: mollieRefund.amount.currency ?? payment.currency ?? 'EUR',
+            source: PaymentRefundSource.EXTERNAL,
+            reason: mollieRefund.description ?? null,
+            externalRefundId: mollieRefund.id,
+          },
+        });
+        await this.applyMollieRefundStatus(created.id, mollieRefund);
+      } catch (error) {
+        this.logger.warn(
+          `Unable to sync Mollie refund ${mollieRefund.id} for payment ${payment.id}: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+    }
+    return true;
+  }
+
+  private async applyMollieRefundStatus(
+    refundId: string,
+    mollieRefund: MollieRefund
+  ): Promise<PaymentRefundWithPayment> {
+    const status = this.mapMollieRefundStatus(mollieRefund.status);
+    const current = await this.prisma.paymentRefund.findUniqueOrThrow({ where: { id: refundId } });
+    if (status === PaymentRefundStatus.REFUNDED) {
+      if (!current.externalRefundId) {
+        await this.prisma.paymentRefund.update({
+          where: { id: refundId },
+          data: { externalRefundId: mollieRefund.id },
+        });
+      }
+      return this.settleRefund(refundId);
+    }
+
+    const updated = await this.prisma.paymentRefund.update({
+      where: { id: refundId },
+      data: {
+        externalRefundId: mollieRefund.id,
+        status,
+        failureReason: status === PaymentRefundStatus.FAILED ? `mollie_${mollieRefund.status}` : current.failureReason,
+      },
+      include: { payment: { select: { bookingId: true } } },
+    });
+    if (current.status !== status) {
+      await this.recordPaymentEvent(
+        PaymentProvider.MOLLIE,
+        `refund.${status.toLowerCase()}`,
+        { refundId, externalRefundId: mollieRefund.id, mollieStatus: mollieRefund.status },
+        updated.paymentId
+      );
+    }
+    return updated;
+  }
+
+  /**
+   * Books a completed refund exactly once: payment totals, provider clawbacks, loyalty and the
+   * credit note. Provider shares already handed to a payout are netted out of the next batch.
+   */
+  private async settleRefund(refundId: string): Promise<PaymentRefundWithPayment> {
+    const now = new Date();
+    const { refund, payment } = await this.prisma.$transaction(async (tx) => {
+      const claim = await tx.paymentRefund.updateMany({
+        where: { id: refundId, ledgerAppliedAt: null },
+        data: { status: PaymentRefundStatus.REFUNDED, processedAt: now, ledgerAppliedAt: now },
+      });
+      const refund = await tx.paymentRefund.findUniqueOrThrow({
+        where: { id: refundId },
+        include: { payment: { include: { distributions: true } } },
+      });
+      if (!claim.count) {
+        return { refund, payment: null };
+      }
+
+      const refundedTotalCents = refund.payment.refundedAmountCents + refund.amountCents;
+      const fullyRefunded = refundedTotalCents >= refund.payment.amountCents;
+      const payment = await tx.payment.update({
+        where: { id: refund.paymentId },
+        data: {
+          refundedAmountCents: { increment: refund.amountCents },
+          ...(fullyRefunded ? { status: PrismaPaymentStatus.REFUNDED, refundedAt: now } : {}),
+        },
+      });
+
+      const clawbacks = computeRefundClawbacks(
+        refund.payment.distributions,
+        refundedTotalCents / Math.max(refund.payment.amountCents, 1)
+      );
+      for (const clawback of clawbacks) {
+        await tx.paymentDistribution.create({
+          data: {
+            payment: { connect: { id: refund.paymentId } },
+            beneficiaryId: clawback.providerId,
+            beneficiaryType: 'provider',
+            amountCents: -clawback.amountCents,
+            currency: clawback.currency,
+            externalReference: `refund:${refund.id}`,
+            payoutStatus: 'pending',
+          },
+        });
+      }
+
+      return { refund, payment };
+    });
+
+    const record = await this.prisma.paymentRefund.findUniqueOrThrow({
+      where: { id: refund.id },
+      include: { payment: { select: { bookingId: true } } },
+    });
+    if (!payment) {
+      return record;
+    }
+
+    await this.recordPaymentEvent(
+      payment.provider,
+      'refund.refunded',
+      {
+        refundId: refund.id,
+        externalRefundId: refund.externalRefundId,
+        amountCents: refund.amountCents,
+        refundedAmountCents: payment.refundedAmountCents,
+      },
+      payment.id
+    );
+    this.logger.log(
+      `[Payments] Refund settled refund=${refund.id} payment=${payment.id} amount=${refund.amountCents} total=${payment.refundedAmountCents}`
+    );
+
+    await this.pricing.reverseBookingLoyalty({
+      bookingId: payment.bookingId,
+      clientId: payment.clientId,
+      paymentId: payment.id,
+      refundId: refund.id,
+      refundedTotalCents: payment.refundedAmountCents,
+      paidAmountCents: payment.amountCents,
+      currency: payment.currency,
+    });
+
+    // Company bookings billed monthly are netted into or credited with the next consolidated invoice.
+    const billedMonthly = await this.prisma.booking.count({
+      where: {
+        id: payment.bookingId,
+        invoices: { none: { kind: InvoiceKind.INVOICE } },
+        OR: [{ companyInvoiceId: { not: null } }, { company: { billingMode: CompanyBillingMode.CONSOLIDATED } }],
+      },
+    });
+    if (billedMonthly) {
+      return record;
+    }
+
+    try {
+      await this.invoiceService.generateCreditNote({
+        bookingId: payment.bookingId,
+        paymentId: payment.id,
+        amountCents: refund.amountCents,
+        reason: refund.reason ?? 'refund',
+        sourceReference: `refund:${refund.id}`,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Credit note generation failed for refund ${refund.id}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return record;
+  }
+
+  private mapMollieRefundStatus(status?: string | null): PaymentRefundStatus {
+    switch ((status ?? '').toLowerCase()) {
+      case 'processing':
+        return PaymentRefundStatus.PROCESSING;
+      case 'refunded':
+        return PaymentRefundStatus.REFUNDED;
+      case 'failed':
+        return PaymentRefundStatus.FAILED;
+      case 'canceled':
+      case 'cancelled':
+        return PaymentRefundStatus.CANCELED;
+      default:
+        return PaymentRefundStatus.PENDING;
+    }
+  }
+
+  private mapRefundToRecord(refund: PaymentRefundWithPayment): PaymentRefundRecord {
+    return {
+      id: refund.id,
+      createdAt: refund.createdAt.toISOString(),
+      updatedAt: refund.updatedAt.toISOString(),
+      paymentId: refund.paymentId,
+      bookingId: refund.payment.bookingId,
+      amountCents: refund.amountCents,
+      currency: refund.currency,
+      status: refund.status.toLowerCase() as PaymentRefundRecord['status'],
+      source: refund.source.toLowerCase() as PaymentRefundRecord['source'],
+      reason: refund.reason ?? null,
+      externalRefundId: refund.externalRefundId ?? null,
+      failureReason: refund.failureReason ?? null,
+      processedAt: refund.processedAt ? refund.processedAt.toISOString() : null,
+    };
+  }
+
   private async recordPaymentEvent(
     provider: PaymentProvider,
     type: string,
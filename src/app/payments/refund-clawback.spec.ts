@@ -0,0 +1,45 @@
+import { computeRefundClawbacks, isClawbackExempt } from './refund-clawback';
+
+const line = (beneficiaryId: string, amountCents: number, externalReference: string | null = null) => ({
+  beneficiaryId,
+  beneficiaryType: 'provider',
+  amountCents,
+  currency: 'EUR',
+  externalReference,
+});
+
+describe('refund clawbacks', () => {
+  it('takes back the refunded share of each provider earning, net of earlier clawbacks', () => {
+    const distributions = [line('p1', 6000), line('p2', 4000), line('p1', -1500, 'refund:r1')];
+    expect(computeRefundClawbacks(distributions, 0.5)).toEqual([
+      { providerId: 'p1', amountCents: 1500, currency: 'EUR' },
+      { providerId: 'p2', amountCents: 2000, currency: 'EUR' },
+    ]);
+    expect(computeRefundClawbacks(distributions, 0.25)).toEqual([
+      { providerId: 'p2', amountCents: 1000, currency: 'EUR' },
+    ]);
+  });
+
+  it('leaves cancellation compensation alone when the refund settles after it was booked', () => {
+    // Mollie refunds settle through the webhook, after settleCancellation booked the compensation.
+    const distributions = [line('p1', 8000), line('p1', 2625, 'cancellation:b1:p1')];
+    expect(computeRefundClawbacks(distributions, 0.75)).toEqual([
+      { providerId: 'p1', amountCents: 6000, currency: 'EUR' },
+    ]);
+    expect(computeRefundClawbacks([line('p1', 2625, 'cancellation:b1:p1')], 1)).toEqual([]);
+  });
+
+  it('ignores overtime, penalties and non-provider lines', () => {
+    expect(isClawbackExempt({ externalReference: 'overtime:a1' })).toBe(true);
+    expect(isClawbackExempt({ externalReference: 'refund:r1' })).toBe(false);
+    const distributions = [
+      line('p1', 5000),
+      line('p1', 1200, 'overtime:a1'),
+      line('p1', -800, 'cancellation:b1:p1'),
+      { ...line('platform', 3000), beneficiaryType: 'platform' },
+    ];
+    expect(computeRefundClawbacks(distributions, 1)).toEqual([
+      { providerId: 'p1', amountCents: 5000, currency: 'EUR' },
+    ]);
+  });
+});
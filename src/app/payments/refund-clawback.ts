@@ -0,0 +1,49 @@
+import type { PaymentDistribution } from '@prisma/client';
+
+type ClawbackDistribution = Pick<
+  PaymentDistribution,
+  'beneficiaryId' | 'beneficiaryType' | 'amountCents' | 'currency' | 'externalReference'
+>;
+
+/**
+ * Provider lines that are not a share of the booking payment: cancellation compensation (or penalty) is settled
+ * out of the retained fee, and overtime is collected by its own payment. Refunds of the booking payment leave them
+ * alone, whether the refund settles right away or later through the Mollie webhook.
+ */
+const CLAWBACK_EXEMPT_PREFIXES = ['cancellation:', 'overtime:'];
+
+export function isClawbackExempt(distribution: Pick<PaymentDistribution, 'externalReference'>) {
+  const reference = distribution.externalReference ?? '';
+  return CLAWBACK_EXEMPT_PREFIXES.some((prefix) => reference.startsWith(prefix));
+}
+
+/**
+ * Negative provider lines that bring each provider's earnings on a payment in line with the refunded share,
+ * net of what earlier refunds already took back.
+ */
+export function computeRefundClawbacks(distributions: ClawbackDistribution[], refundedRatio: number) {
+  const ratio = Math.min(1, Math.max(0, refundedRatio));
+  const byProvider = new Map<string, { earnedCents: number; clawedBackCents: number; currency: string }>();
+  for (const distribution of distributions) {
+    if (distribution.beneficiaryType !== 'provider' || isClawbackExempt(distribution)) {
+      continue;
+    }
+    const entry = byProvider.get(distribution.beneficiaryId) ?? {
+      earnedCents: 0,
+      clawedBackCents: 0,
+      currency: distribution.currency ?? 'EUR',
+    };
+    if (distribution.amountCents >= 0) {
+      entry.earnedCents += distribution.amountCents;
+    } else {
+      entry.clawedBackCents -= distribution.amountCents;
+    }
+    byProvider.set(distribution.beneficiaryId, entry);
+  }
+
+  return Array.from(byProvider, ([providerId, entry]) => ({
+    providerId,
+    amountCents: Math.round(entry.earnedCents * ratio) - entry.clawedBackCents,
+    currency: entry.currency,
+  })).filter((line) => line.amountCents > 0);
+}
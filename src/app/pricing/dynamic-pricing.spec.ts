@@ -0,0 +1,122 @@
+import { PricingRuleAudience, PricingRuleType, SoilLevel, type PricingRule } from '@prisma/client';
+import { applyDynamicPricing, matchesPricingRule } from './dynamic-pricing';
+
+const rule = (overrides: Partial<PricingRule>): PricingRule => ({
+  id: overrides.code ?? 'rule',
+  code: 'RULE',
+  type: PricingRuleType.WEEKEND_SURCHARGE,
+  audience: PricingRuleAudience.GENERAL,
+  description: null,
+  amountCents: null,
+  percentageBps: null,
+  multiplier: null,
+  minSquareMeters: null,
+  maxSquareMeters: null,
+  postalCodePrefixes: [],
+  weekdays: [],
+  startMinute: null,
+  endMinute: null,
+  maxLeadTimeHours: null,
+  soilLevel: null,
+  validFrom: null,
+  validUntil: null,
+  exclusive: false,
+  isActive: true,
+  priority: 100,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+// Saturday 7 March 2026, 19:30 in Berlin.
+const saturdayEvening = new Date('2026-03-07T18:30:00Z');
+// Tuesday 10 March 2026, 10:00 in Berlin.
+const tuesdayMorning = new Date('2026-03-10T09:00:00Z');
+
+describe('dynamic pricing', () => {
+  it('applies weekend and evening surcharges on their default days and hours', () => {
+    const rules = [
+      rule({ code: 'WEEKEND', percentageBps: 1500 }),
+      rule({ code: 'EVENING', type: PricingRuleType.EVENING_SURCHARGE, amountCents: 500 }),
+    ];
+
+    const weekend = applyDynamicPricing(rules, 10_000, { startAt: saturdayEvening });
+    expect(weekend.adjustments.map((adjustment) => [adjustment.type, adjustment.amountCents])).toEqual([
+      ['weekend', 1500],
+      ['evening', 500],
+    ]);
+    expect(weekend.subtotalCents).toBe(12_000);
+
+    expect(applyDynamicPricing(rules, 10_000, { startAt: tuesdayMorning }).adjustments).toEqual([]);
+  });
+
+  it('matches zones by postal-code prefix and soil rules by level', () => {
+    const zone = rule({ type: PricingRuleType.ZONE_MULTIPLIER, postalCodePrefixes: ['10', '12'], multiplier: 1.2 });
+    expect(matchesPricingRule(zone, { startAt: tuesdayMorning, postalCode: '10115' })).toBe(true);
+    expect(matchesPricingRule(zone, { startAt: tuesdayMorning, postalCode: '80331' })).toBe(false);
+
+    const soil = rule({ type: PricingRuleType.SOIL_LEVEL_MULTIPLIER, soilLevel: SoilLevel.STRONG, multiplier: 1.3 });
+    const result = applyDynamicPricing([zone, soil], 10_000, {
+      startAt: tuesdayMorning,
+      postalCode: '12043',
+      soilLevel: 'strong',
+    });
+    expect(result.adjustments.map((adjustment) => adjustment.amountCents)).toEqual([2000, 3000]);
+    expect(matchesPricingRule(soil, { startAt: tuesdayMorning, soilLevel: 'normal' })).toBe(false);
+  });
+
+  it('keeps only the highest-priority rule per type and stops at exclusive rules', () => {
+    const result = applyDynamicPricing(
+      [
+        rule({ code: 'WEEKEND_LOW', percentageBps: 500, priority: 50 }),
+        rule({ code: 'WEEKEND_HIGH', percentageBps: 2000, priority: 10 }),
+      ],
+      10_000,
+      { startAt: saturdayEvening }
+    );
+    expect(result.adjustments).toHaveLength(1);
+    expect(result.adjustments[0].code).toBe('WEEKEND_HIGH');
+
+    const exclusive = applyDynamicPricing(
+      [
+        rule({
+          code: 'OFF_PEAK',
+          type: PricingRuleType.OFF_PEAK_DISCOUNT,
+          percentageBps: 1000,
+          priority: 1,
+          exclusive: true,
+        }),
+        rule({ code: 'ZONE', type: PricingRuleType.ZONE_MULTIPLIER, multiplier: 1.5, priority: 5 }),
+      ],
+      10_000,
+      { startAt: tuesdayMorning }
+    );
+    expect(exclusive.adjustments.map((adjustment) => adjustment.code)).toEqual(['OFF_PEAK']);
+    expect(exclusive.adjustments[0].amountCents).toBe(-1000);
+    expect(exclusive.subtotalCents).toBe(9000);
+  });
+
+  it('prices short notice from the lead time or the booking flag', () => {
+    const now = new Date('2026-03-10T06:00:00Z');
+    const withLeadTime = rule({ type: PricingRuleType.SHORT_NOTICE_SURCHARGE, maxLeadTimeHours: 4, amountCents: 900 });
+    expect(matchesPricingRule(withLeadTime, { startAt: tuesdayMorning, now })).toBe(true);
+    expect(matchesPricingRule(withLeadTime, { startAt: new Date('2026-03-12T09:00:00Z'), now })).toBe(false);
+
+    const flagged = rule({ type: PricingRuleType.SHORT_NOTICE_SURCHARGE, amountCents: 900 });
+    expect(matchesPricingRule(flagged, { startAt: tuesdayMorning, shortNotice: true })).toBe(true);
+    expect(matchesPricingRule(flagged, { startAt: tuesdayMorning })).toBe(false);
+  });
+
+  it('ignores rules outside their validity window or audience', () => {
+    const seasonal = rule({
+      percentageBps: 1000,
+      validFrom: new Date('2026-04-01T00:00:00Z'),
+      validUntil: new Date('2026-05-01T00:00:00Z'),
+    });
+    expect(matchesPricingRule(seasonal, { startAt: saturdayEvening })).toBe(false);
+
+    const business = rule({ percentageBps: 1000, audience: PricingRuleAudience.BUSINESS });
+    expect(matchesPricingRule(business, { startAt: saturdayEvening })).toBe(false);
+    expect(matchesPricingRule(business, { startAt: saturdayEvening, business: true })).toBe(true);
+  });
+});
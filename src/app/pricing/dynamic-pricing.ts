@@ -0,0 +1,166 @@
+import { DateTime } from 'luxon';
+import { PricingRuleAudience, PricingRuleType } from '@prisma/client';
+import type { PricingRule } from '@prisma/client';
+import type { CleaningSoilLevel, PricingAdjustment, PricingAdjustmentType, PricingBreakdown } from '@saubio/models';
+
+export const PRICING_TIME_ZONE = 'Europe/Berlin';
+
+const ADJUSTMENT_TYPES: Partial<Record<PricingRuleType, PricingAdjustmentType>> = {
+  [PricingRuleType.ZONE_MULTIPLIER]: 'zone',
+  [PricingRuleType.WEEKEND_SURCHARGE]: 'weekend',
+  [PricingRuleType.EVENING_SURCHARGE]: 'evening',
+  [PricingRuleType.SHORT_NOTICE_SURCHARGE]: 'short_notice',
+  [PricingRuleType.SOIL_LEVEL_MULTIPLIER]: 'soil_level',
+  [PricingRuleType.OFF_PEAK_DISCOUNT]: 'off_peak',
+};
+
+export const DYNAMIC_PRICING_RULE_TYPES = Object.keys(ADJUSTMENT_TYPES) as PricingRuleType[];
+
+/** Weekend and evening rules apply to Saturday/Sunday and 18:00–24:00 unless they narrow it down themselves. */
+const DEFAULT_WEEKDAYS: Partial<Record<PricingRuleType, number[]>> = {
+  [PricingRuleType.WEEKEND_SURCHARGE]: [6, 7],
+};
+const DEFAULT_WINDOWS: Partial<Record<PricingRuleType, { startMinute: number; endMinute: number }>> = {
+  [PricingRuleType.EVENING_SURCHARGE]: { startMinute: 18 * 60, endMinute: 24 * 60 },
+};
+
+export interface DynamicPricingContext {
+  startAt: Date;
+  now?: Date;
+  postalCode?: string | null;
+  soilLevel?: CleaningSoilLevel | null;
+  surfacesSquareMeters?: number;
+  /** Booked inside the short-notice window (`Booking.shortNotice`). */
+  shortNotice?: boolean;
+  /** Company bookings also get the rules with the BUSINESS audience. */
+  business?: boolean;
+}
+
+export function isDynamicPricingRule(rule: Pick<PricingRule, 'type'>) {
+  return rule.type in ADJUSTMENT_TYPES;
+}
+
+function inTimeWindow(minute: number, startMinute: number, endMinute: number) {
+  // Windows such as 22:00–06:00 wrap around midnight.
+  return startMinute <= endMinute
+    ? minute >= startMinute && minute < endMinute
+    : minute >= startMinute || minute < endMinute;
+}
+
+export function matchesPricingRule(rule: PricingRule, context: DynamicPricingContext) {
+  const startAt = context.startAt.getTime();
+  if ((rule.validFrom && startAt < rule.validFrom.getTime()) || (rule.validUntil && startAt >= rule.validUntil.getTime())) {
+    return false;
+  }
+  if (rule.audience === PricingRuleAudience.BUSINESS && !context.business) {
+    return false;
+  }
+  const surface = context.surfacesSquareMeters;
+  if (
+    typeof surface === 'number' &&
+    ((rule.minSquareMeters !== null && surface < rule.minSquareMeters) ||
+      (rule.maxSquareMeters !== null && surface > rule.maxSquareMeters))
+  ) {
+    return false;
+  }
+  if (rule.postalCodePrefixes.length) {
+    const postalCode = context.postalCode?.trim() ?? '';
+    if (!rule.postalCodePrefixes.some((prefix) => postalCode.startsWith(prefix))) {
+      return false;
+    }
+  }
+  if (rule.soilLevel && rule.soilLevel.toLowerCase() !== context.soilLevel) {
+    return false;
+  }
+  if (rule.type === PricingRuleType.SOIL_LEVEL_MULTIPLIER && !rule.soilLevel) {
+    return false;
+  }
+
+  const local = DateTime.fromJSDate(context.startAt, { zone: PRICING_TIME_ZONE });
+  const weekdays = rule.weekdays.length ? rule.weekdays : DEFAULT_WEEKDAYS[rule.type] ?? [];
+  if (weekdays.length && !weekdays.includes(local.weekday)) {
+    return false;
+  }
+  const defaultWindow = DEFAULT_WINDOWS[rule.type];
+  const startMinute = rule.startMinute ?? defaultWindow?.startMinute;
+  const endMinute = rule.endMinute ?? defaultWindow?.endMinute;
+  if (
+    typeof startMinute === 'number' &&
+    typeof endMinute === 'number' &&
+    !inTimeWindow(local.hour * 60 + local.minute, startMinute, endMinute)
+  ) {
+    return false;
+  }
+
+  if (rule.type === PricingRuleType.SHORT_NOTICE_SURCHARGE) {
+    if (rule.maxLeadTimeHours === null) {
+      return Boolean(context.shortNotice);
+    }
+    const leadTimeHours = (startAt - (context.now ?? new Date()).getTime()) / 3_600_000;
+    return leadTimeHours <= rule.maxLeadTimeHours;
+  }
+  return true;
+}
+
+function adjustmentCents(rule: PricingRule, baseCents: number) {
+  let amount = 0;
+  if (typeof rule.multiplier === 'number') {
+    amount = baseCents * (rule.multiplier - 1);
+  } else if (typeof rule.percentageBps === 'number') {
+    amount = (baseCents * rule.percentageBps) / 10_000;
+  } else if (typeof rule.amountCents === 'number') {
+    amount = rule.amountCents;
+  }
+  amount = Math.round(amount);
+  // Zone and soil multipliers go either way; surcharges only raise the price and discounts only lower it.
+  switch (rule.type) {
+    case PricingRuleType.OFF_PEAK_DISCOUNT:
+      return -Math.abs(amount);
+    case PricingRuleType.WEEKEND_SURCHARGE:
+    case PricingRuleType.EVENING_SURCHARGE:
+    case PricingRuleType.SHORT_NOTICE_SURCHARGE:
+      return Math.abs(amount);
+    default:
+      return amount;
+  }
+}
+
+/**
+ * Applies the dynamic rules to the square-meter subtotal. Rules are taken in priority order (lowest first);
+ * only the first matching rule of each type applies, every adjustment is computed on the base subtotal so the
+ * order does not compound, and an exclusive rule stops all lower-priority rules. The subtotal never drops below zero.
+ */
+export function applyDynamicPricing(
+  rules: PricingRule[],
+  baseSubtotalCents: number,
+  context: DynamicPricingContext
+): PricingBreakdown & { subtotalCents: number } {
+  const ordered = rules
+    .filter((rule) => rule.isActive && isDynamicPricingRule(rule))
+    .sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime());
+
+  const adjustments: PricingAdjustment[] = [];
+  const appliedTypes = new Set<PricingRuleType>();
+  for (const rule of ordered) {
+    if (appliedTypes.has(rule.type) || !matchesPricingRule(rule, context)) {
+      continue;
+    }
+    appliedTypes.add(rule.type);
+    const amountCents = adjustmentCents(rule, baseSubtotalCents);
+    if (amountCents !== 0) {
+      adjustments.push({
+        ruleId: rule.id,
+        code: rule.code,
+        type: ADJUSTMENT_TYPES[rule.type]!,
+        label: rule.description ?? rule.code,
+        amountCents,
+      });
+    }
+    if (rule.exclusive) {
+      break;
+    }
+  }
+
+  const adjusted = baseSubtotalCents + adjustments.reduce((sum, adjustment) => sum + adjustment.amountCents, 0);
+  return { baseSubtotalCents, adjustments, subtotalCents: Math.max(0, adjusted) };
+}
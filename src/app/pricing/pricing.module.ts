@@ -1,12 +1,13 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { PricingService } from './pricing.service';
 import { PricingController } from './pricing.controller';
 import { AuthModule } from '../auth/auth.module';
 import { GeocodingModule } from '../geocoding/geocoding.module';
+import { TaxModule } from '../tax/tax.module';
 
 @Module({
-  imports: [PrismaModule, AuthModule, GeocodingModule],
+  imports: [PrismaModule, forwardRef(() => AuthModule), GeocodingModule, TaxModule],
   controllers: [PricingController],
   providers: [PricingService],
   exports: [PricingService],
@@ -0,0 +1,84 @@
+import { LoyaltyTransactionType } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { GeocodingService } from '../geocoding/geocoding.service';
+import { PostalCodeService } from '../geocoding/postal-code.service';
+import { TaxService } from '../tax/tax.service';
+import { PricingService } from './pricing.service';
+
+describe('PricingService loyalty reversal', () => {
+  type Balance = { id: string; clientId: string; points: number; lifetimeEarned: number; lifetimeRedeemed: number };
+  let balances: Balance[];
+  let transactions: Array<{
+    balanceId: string;
+    type: LoyaltyTransactionType;
+    points: number;
+    paymentId: string;
+    metadata: Record<string, unknown> | null;
+  }>;
+  let service: PricingService;
+
+  beforeEach(() => {
+    balances = [
+      { id: 'balance_referred', clientId: 'user_2', points: 50, lifetimeEarned: 50, lifetimeRedeemed: 0 },
+      { id: 'balance_referrer', clientId: 'user_1', points: 100, lifetimeEarned: 100, lifetimeRedeemed: 0 },
+    ];
+    const earned = (balanceId: string, points: number) => ({
+      balanceId,
+      type: LoyaltyTransactionType.EARN,
+      points,
+      paymentId: 'payment_1',
+      metadata: null,
+    });
+    transactions = [earned('balance_referred', 50), earned('balance_referrer', 100)];
+    const prisma = {
+      loyaltyTransaction: {
+        findMany: jest.fn(async ({ where }) => transactions.filter((entry) => entry.paymentId === where.paymentId)),
+        create: jest.fn(async ({ data }) => {
+          transactions.push({
+            balanceId: data.balance.connect.id,
+            type: data.type,
+            points: data.points,
+            paymentId: data.payment.connect.id,
+            metadata: data.metadata,
+          });
+        }),
+      },
+      loyaltyBalance: {
+        findUniqueOrThrow: jest.fn(async ({ where }) => balances.find((balance) => balance.id === where.id)),
+        update: jest.fn(async ({ where, data }) => {
+          const balance = balances.find((entry) => entry.id === where.id) as Balance;
+          balance.points += data.points.increment;
+          balance.lifetimeEarned -= data.lifetimeEarned.decrement;
+          return balance;
+        }),
+      },
+      clientProfile: { updateMany: jest.fn() },
+      $transaction: jest.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(prisma)),
+    };
+    service = new PricingService(
+      prisma as unknown as PrismaService,
+      {} as GeocodingService,
+      {} as PostalCodeService,
+      {} as TaxService
+    );
+  });
+
+  it('claws back the referrer reward credited on the refunded payment, once', async () => {
+    const refund = {
+      bookingId: 'booking_1',
+      clientId: 'user_2',
+      paymentId: 'payment_1',
+      refundId: 'refund_1',
+      refundedTotalCents: 5000,
+      paidAmountCents: 10_000,
+    };
+
+    await service.reverseBookingLoyalty(refund);
+    await service.reverseBookingLoyalty({ ...refund, refundId: 'refund_1_retry' });
+
+    expect(balances.map((balance) => [balance.clientId, balance.points])).toEqual([
+      ['user_2', 25],
+      ['user_1', 50],
+    ]);
+  });
+});
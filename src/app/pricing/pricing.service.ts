@@ -1,8 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
-import type { AddressSuggestion, PriceEstimate, PriceEstimateParams, ServiceCategory } from '@saubio/models';
-import { EcoPreference } from '@saubio/models';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import type {
+  AddressSuggestion,
+  CleaningSoilLevel,
+  PriceEstimate,
+  PriceEstimateParams,
+  ServiceAddonId,
+  ServiceCategory,
+} from '@saubio/models';
+import { EcoPreference, SERVICE_ADDON_CATALOG } from '@saubio/models';
 import {
   LoyaltyBalance as PrismaLoyaltyBalance,
+  LoyaltyTransaction as PrismaLoyaltyTransaction,
   LoyaltyTransactionType,
   PricingRule,
   PricingRuleAudience,
@@ -11,12 +19,35 @@ import {
 import { PrismaService } from '../../prisma/prisma.service';
 import { GeocodingService } from '../geocoding/geocoding.service';
 import { PostalCodeService } from '../geocoding/postal-code.service';
+import {
+  haversineDistanceKm,
+  resolveGeoPoint,
+  type GeoPoint,
+  type ResolvedGeoPoint,
+} from '../geocoding/postal-code-centroids';
+import { addonRuleCode, priceServiceAddons, unavailableAddons } from './service-addons';
+import { TaxService } from '../tax/tax.service';
+import { computeTaxCents } from '../tax/tax-rules';
+import { applyDynamicPricing, isDynamicPricingRule } from './dynamic-pricing';
 
 type PricingQuoteInput = {
   surfacesSquareMeters: number;
   ecoPreference: EcoPreference;
   clientId?: string | null;
   currency?: string;
+  service?: ServiceCategory;
+  addons?: string[];
+  /** Tax context: service address country, company customer and the providers known so far. */
+  countryCode?: string | null;
+  companyId?: string | null;
+  providerIds?: string[];
+  /** Dynamic pricing context; without a start time only the square-meter price applies. */
+  startAt?: string | Date;
+  postalCode?: string | null;
+  soilLevel?: CleaningSoilLevel | null;
+  shortNotice?: boolean;
+  /** Moment lead-time rules measure from; rescheduled bookings keep the time they were booked. */
+  now?: Date;
 };
 
 type FinalizeLoyaltyInput = {
@@ -28,17 +59,40 @@ type FinalizeLoyaltyInput = {
   currency?: string;
 };
 
+type CreditLoyaltyInput = {
+  clientId: string;
+  points: number;
+  bookingId?: string | null;
+  paymentId?: string | null;
+  metadata: Prisma.InputJsonObject;
+};
+
+type ReverseLoyaltyInput = {
+  bookingId: string;
+  clientId?: string | null;
+  paymentId: string;
+  refundId: string;
+  refundedTotalCents: number;
+  paidAmountCents: number;
+  currency?: string;
+};
+
+/** Travel radius of providers who did not set their own and of installs without a matching config. */
+const DEFAULT_DISTANCE_MAX_KM = 20;
+
 type PricingRuleMap = Map<string, PricingRule>;
+type PricingRuleSet = { rules: PricingRuleMap; dynamicRules: PricingRule[] };
 @Injectable()
 export class PricingService {
   private readonly logger = new Logger(PricingService.name);
-  private cachedRules: { expiresAt: number; rules: PricingRuleMap } | null = null;
+  private cachedRules: { expiresAt: number; ruleSet: PricingRuleSet } | null = null;
   private static readonly RULE_CACHE_TTL_MS = 5 * 60 * 1000;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly geocoding: GeocodingService,
-    private readonly postalCodes: PostalCodeService
+    private readonly postalCodes: PostalCodeService,
+    private readonly tax: TaxService
   ) {}
 
   async getPublicConfig() {
@@ -50,6 +104,14 @@ export class PricingService {
       loyaltyValuePerPointCents: this.resolveAmount(rules, 'LOYALTY_VALUE_PER_POINT', 10),
       loyaltyEarnPointsPerEuro: this.resolveMultiplier(rules, 'LOYALTY_EARN_PER_EURO', 1.5),
       loyaltyMaxRedeemBps: this.resolvePercentage(rules, 'LOYALTY_MAX_REDEEM_BPS', 2000),
+      referralReferrerRewardCents: this.resolveAmount(rules, 'REFERRAL_REWARD_REFERRER', 1000),
+      referralReferredRewardCents: this.resolveAmount(rules, 'REFERRAL_REWARD_REFERRED', 1000),
+      addonPricesCents: Object.fromEntries(
+        SERVICE_ADDON_CATALOG.map((addon) => [
+          addon.id,
+          this.resolveAmount(rules, addonRuleCode(addon.id), addon.priceCents),
+        ])
+      ) as Record<ServiceAddonId, number>,
     };
   }
 
@@ -71,12 +133,35 @@ export class PricingService {
     const rules = await this.getPublicConfig();
     const baseRate = rules.baseRatePerSquareMeterCents;
     const ecoSurchargeBps = rules.ecoSurchargeBps;
-    const subtotal = Math.round(input.surfacesSquareMeters * baseRate);
+    const baseSubtotal = Math.round(input.surfacesSquareMeters * baseRate);
+    const dynamic = input.startAt
+      ? applyDynamicPricing((await this.loadRuleSet()).dynamicRules, baseSubtotal, {
+          startAt: new Date(input.startAt),
+          now: input.now,
+          postalCode: input.postalCode,
+          soilLevel: input.soilLevel,
+          surfacesSquareMeters: input.surfacesSquareMeters,
+          shortNotice: input.shortNotice,
+          business: Boolean(input.companyId),
+        })
+      : { baseSubtotalCents: baseSubtotal, adjustments: [], subtotalCents: baseSubtotal };
+    const subtotal = dynamic.subtotalCents;
     const ecoSurcharge =
       input.ecoPreference === 'bio' ? Math.round((subtotal * ecoSurchargeBps) / 10_000) : 0;
-    const extras = 0;
+    const requestedAddons = input.addons ?? [];
+    if (requestedAddons.length && unavailableAddons(input.service ?? '', requestedAddons).length) {
+      throw new BadRequestException('BOOKING_ADDON_NOT_AVAILABLE');
+    }
+    const addons = priceServiceAddons(requestedAddons, rules.addonPricesCents);
+    const extras = addons.reduce((sum, addon) => sum + addon.priceCents, 0);
     const taxableBase = subtotal + ecoSurcharge + extras;
-    const tax = Math.round(taxableBase * 0.19);
+    const appliedTax = await this.tax.resolveForBooking({
+      countryCode: input.countryCode,
+      service: input.service,
+      companyId: input.companyId,
+      providerIds: input.providerIds,
+    });
+    const tax = computeTaxCents(taxableBase, appliedTax.rateBps);
 
     let loyaltyCreditsCents = 0;
     if (input.clientId) {
@@ -93,7 +178,11 @@ export class PricingService {
       ecoSurchargeCents: ecoSurcharge,
       loyaltyCreditsCents,
       extrasCents: extras,
+      addons,
       taxCents: tax,
+      taxRule: appliedTax.rule,
+      taxRateBps: appliedTax.rateBps,
+      breakdown: { baseSubtotalCents: dynamic.baseSubtotalCents, adjustments: dynamic.adjustments },
       currency: (input.currency ?? 'EUR').toUpperCase() as 'EUR',
       totalCents: subtotal + ecoSurcharge + extras - loyaltyCreditsCents + tax,
     };
@@ -152,16 +241,26 @@ export class PricingService {
         hourlyRateCents: true,
         serviceCategories: true,
         serviceAreas: true,
+        distanceMaxKm: true,
         serviceZones: {
           select: {
             postalCode: true,
             city: true,
             district: true,
+            countryCode: true,
+            latitude: true,
+            longitude: true,
           },
         },
       },
     });
     this.logger.debug(`[PriceEstimate] Total active providers=${providers.length}`);
+    // Estimates are only offered for German postal codes (see the lookup above).
+    const origin = resolveGeoPoint(location?.latitude, location?.longitude, normalizedPostal, 'DE');
+    const matchingConfig = origin
+      ? await this.prisma.matchingConfig.findFirst({ orderBy: { updatedAt: 'desc' }, select: { distanceMaxKm: true } })
+      : null;
+    const defaultDistanceMaxKm = matchingConfig?.distanceMaxKm ?? DEFAULT_DISTANCE_MAX_KM;
 
     const serviceFiltered = providers.filter((provider) =>
       this.providerSupportsService(provider.serviceCategories, params.service)
@@ -177,7 +276,7 @@ export class PricingService {
       .forEach((variant) => normalizedCitySet.add(variant));
 
     const locationFiltered = serviceFiltered.filter((provider) =>
-      this.providerMatchesEstimateLocation(provider, normalizedPostal, normalizedCitySet)
+      this.providerMatchesEstimateLocation(provider, normalizedPostal, normalizedCitySet, origin, defaultDistanceMaxKm)
     );
     this.logger.debug(
       `[PriceEstimate] After location filter=${locationFiltered.length} (citySet=${Array.from(normalizedCitySet).join(',')})`
@@ -302,6 +401,133 @@ export class PricingService {
     }
   }
 
+  /** Books points that were not earned through a capture, e.g. referral rewards. */
+  async creditLoyaltyPoints(payload: CreditLoyaltyInput, tx?: Prisma.TransactionClient) {
+    if (payload.points <= 0) {
+      return;
+    }
+    const client = tx ?? this.prisma;
+    const balance = await this.getOrCreateBalance(payload.clientId, tx);
+    await client.loyaltyTransaction.create({
+      data: {
+        balance: { connect: { id: balance.id } },
+        type: LoyaltyTransactionType.EARN,
+        points: payload.points,
+        booking: payload.bookingId ? { connect: { id: payload.bookingId } } : undefined,
+        payment: payload.paymentId ? { connect: { id: payload.paymentId } } : undefined,
+        metadata: payload.metadata,
+      },
+    });
+    const updated = await client.loyaltyBalance.update({
+      where: { id: balance.id },
+      data: {
+        points: { increment: payload.points },
+        lifetimeEarned: { increment: payload.points },
+        lastEarnedAt: new Date(),
+      },
+    });
+    await client.clientProfile.updateMany({
+      where: { userId: payload.clientId },
+      data: { loyaltyPoints: updated.points },
+    });
+  }
+
+  /**
+   * Claws back points earned on a payment and gives back redeemed points in proportion to the
+   * cumulative refunded amount, so repeated partial refunds never reverse more than once. Points
+   * credited to other clients for the payment, such as a referrer's reward, are clawed back too.
+   */
+  async reverseBookingLoyalty(payload: ReverseLoyaltyInput) {
+    if (!payload.clientId || payload.paidAmountCents <= 0) {
+      return;
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const transactions = await tx.loyaltyTransaction.findMany({
+          where: { paymentId: payload.paymentId },
+        });
+        const byBalance = new Map<string, PrismaLoyaltyTransaction[]>();
+        for (const transaction of transactions) {
+          byBalance.set(transaction.balanceId, [...(byBalance.get(transaction.balanceId) ?? []), transaction]);
+        }
+        for (const [balanceId, balanceTransactions] of byBalance) {
+          await this.reverseBalanceLoyalty(tx, balanceId, balanceTransactions, payload);
+        }
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Unable to reverse loyalty for booking ${payload.bookingId}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  private async reverseBalanceLoyalty(
+    tx: Prisma.TransactionClient,
+    balanceId: string,
+    transactions: PrismaLoyaltyTransaction[],
+    payload: ReverseLoyaltyInput
+  ) {
+    let earned = 0;
+    let redeemed = 0;
+    let earnReversed = 0;
+    let redeemRestored = 0;
+    for (const transaction of transactions) {
+      if (transaction.type === LoyaltyTransactionType.EARN) {
+        earned += transaction.points;
+      } else if (transaction.type === LoyaltyTransactionType.REDEEM) {
+        redeemed += transaction.points;
+      } else {
+        const metadata = (transaction.metadata ?? {}) as Record<string, unknown>;
+        if (metadata['source'] === 'refund') {
+          earnReversed += Number(metadata['earnReversed'] ?? 0);
+          redeemRestored += Number(metadata['redeemRestored'] ?? 0);
+        }
+      }
+    }
+
+    const ratio = Math.min(1, payload.refundedTotalCents / payload.paidAmountCents);
+    const earnToReverse = Math.max(0, Math.round(earned * ratio) - earnReversed);
+    const redeemToRestore = Math.max(0, Math.round(redeemed * ratio) - redeemRestored);
+    if (!earnToReverse && !redeemToRestore) {
+      return;
+    }
+
+    const balance = await tx.loyaltyBalance.findUniqueOrThrow({ where: { id: balanceId } });
+    const delta = Math.max(redeemToRestore - earnToReverse, -balance.points);
+    await tx.loyaltyTransaction.create({
+      data: {
+        balance: { connect: { id: balance.id } },
+        type: LoyaltyTransactionType.ADJUST,
+        points: delta,
+        booking: { connect: { id: payload.bookingId } },
+        payment: { connect: { id: payload.paymentId } },
+        metadata: {
+          source: 'refund',
+          refundId: payload.refundId,
+          earnReversed: earnToReverse,
+          redeemRestored: redeemToRestore,
+          currency: payload.currency ?? 'EUR',
+        },
+      },
+    });
+    const updated = await tx.loyaltyBalance.update({
+      where: { id: balance.id },
+      data: {
+        points: { increment: delta },
+        lifetimeEarned: { decrement: Math.min(earnToReverse, balance.lifetimeEarned) },
+        lifetimeRedeemed: { decrement: Math.min(redeemToRestore, balance.lifetimeRedeemed) },
+      },
+    });
+
+    await tx.clientProfile.updateMany({
+      where: { userId: balance.clientId },
+      data: { loyaltyPoints: updated.points },
+    });
+  }
+
   private async previewLoyaltyRedemption(params: {
     clientId: string;
     rules: Awaited<ReturnType<typeof this.getPublicConfig>>;
@@ -395,15 +621,35 @@ export class PricingService {
   private providerMatchesEstimateLocation(
     provider: {
       serviceAreas: string[];
-      serviceZones: { postalCode: string | null; city: string | null; district: string | null }[];
+      distanceMaxKm: number | null;
+      serviceZones: {
+        postalCode: string | null;
+        city: string | null;
+        district: string | null;
+        countryCode: string | null;
+        latitude: number | null;
+        longitude: number | null;
+      }[];
     },
     normalizedPostal: string,
-    normalizedCitySet: Set<string>
+    normalizedCitySet: Set<string>,
+    origin: GeoPoint | null = null,
+    defaultDistanceMaxKm = DEFAULT_DISTANCE_MAX_KM
   ): boolean {
     if (!normalizedPostal && normalizedCitySet.size === 0) {
       return true;
     }
 
+    if (origin) {
+      const zonePoints = provider.serviceZones
+        .map((zone) => resolveGeoPoint(zone.latitude, zone.longitude, zone.postalCode, zone.countryCode))
+        .filter((point): point is ResolvedGeoPoint => Boolean(point));
+      if (zonePoints.length) {
+        const radiusKm = provider.distanceMaxKm ?? defaultDistanceMaxKm;
+        return zonePoints.some((point) => haversineDistanceKm(origin, point) <= radiusKm);
+      }
+    }
+
     const matchesPostal =
       normalizedPostal &&
       provider.serviceZones.some((zone) => {
@@ -454,17 +700,34 @@ export class PricingService {
     return created;
   }
 
+  /** Drops the cached rules, tax rates included, so changes made by ops apply to the next quote. */
+  invalidateRuleCache() {
+    this.cachedRules = null;
+    this.tax.invalidateConfigCache();
+  }
+
   private async loadRuleMap(): Promise<PricingRuleMap> {
+    return (await this.loadRuleSet()).rules;
+  }
+
+  private async loadRuleSet(): Promise<PricingRuleSet> {
     if (this.cachedRules && this.cachedRules.expiresAt > Date.now()) {
-      return this.cachedRules.rules;
+      return this.cachedRules.ruleSet;
     }
     const rules = await this.prisma.pricingRule.findMany({
-      where: { isActive: true, audience: PricingRuleAudience.GENERAL },
+      where: { isActive: true },
       orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
     });
-    const map: PricingRuleMap = new Map(rules.map((rule) => [rule.code, rule]));
-    this.cachedRules = { rules: map, expiresAt: Date.now() + PricingService.RULE_CACHE_TTL_MS };
-    return map;
+    const ruleSet: PricingRuleSet = {
+      rules: new Map(
+        rules
+          .filter((rule) => rule.audience === PricingRuleAudience.GENERAL && !isDynamicPricingRule(rule))
+          .map((rule) => [rule.code, rule])
+      ),
+      dynamicRules: rules.filter((rule) => isDynamicPricingRule(rule)),
+    };
+    this.cachedRules = { ruleSet, expiresAt: Date.now() + PricingService.RULE_CACHE_TTL_MS };
+    return ruleSet;
   }
 
   private resolveAmount(map: PricingRuleMap, code: string, fallback: number) {
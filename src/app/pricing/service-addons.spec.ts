@@ -0,0 +1,39 @@
+import {
+  addonRuleCode,
+  priceServiceAddons,
+  unavailableAddons,
+  withAddonEnd,
+  withAddonHours,
+  withoutAddonEnd,
+  withoutAddonHours,
+} from './service-addons';
+
+describe('service add-ons', () => {
+  it('rejects add-ons the service does not offer', () => {
+    expect(unavailableAddons('residential', ['oven', 'ironing'])).toEqual([]);
+    expect(unavailableAddons('office', ['oven', 'dishes', 'sauna'])).toEqual(['oven', 'sauna']);
+  });
+
+  it('prices each add-on once in catalogue order with rule overrides', () => {
+    expect(priceServiceAddons(['ironing', 'oven', 'oven'], { ironing: 3900 })).toEqual([
+      { id: 'oven', title: 'Backofen reinigen', priceCents: 2500, extraMinutes: 30 },
+      { id: 'ironing', title: 'Bügelservice (1 Stunde)', priceCents: 3900, extraMinutes: 60 },
+    ]);
+    expect(addonRuleCode('interior_windows')).toBe('ADDON_INTERIOR_WINDOWS');
+  });
+
+  it('adds and removes the add-on time from the recommended hours', () => {
+    const lines = priceServiceAddons(['oven', 'dishes']);
+    expect(withAddonHours(3, lines)).toBe(3.83);
+    expect(withoutAddonHours(3.83, lines)).toBe(3);
+    expect(withAddonHours(undefined, lines)).toBeNull();
+  });
+
+  it('extends the booked end by the add-on time', () => {
+    const lines = priceServiceAddons(['oven', 'ironing']);
+    const endAt = new Date('2026-03-02T12:00:00Z');
+    expect(withAddonEnd(endAt, lines)).toEqual(new Date('2026-03-02T13:30:00Z'));
+    expect(withoutAddonEnd(withAddonEnd(endAt, lines), lines)).toEqual(endAt);
+    expect(withAddonEnd(endAt, [])).toEqual(endAt);
+  });
+});
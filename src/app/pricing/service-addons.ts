@@ -0,0 +1,89 @@
+import { SERVICE_ADDON_CATALOG } from '@saubio/models';
+import type { ServiceAddon, ServiceAddonId, ServiceAddonLine } from '@saubio/models';
+
+/** Pricing rule code that overrides the catalogue price of an add-on, e.g. `ADDON_OVEN`. */
+export function addonRuleCode(id: ServiceAddonId) {
+  return `ADDON_${id.toUpperCase()}`;
+}
+
+export function addonsForService(service: string): ServiceAddon[] {
+  return SERVICE_ADDON_CATALOG.filter((addon) => addon.services.some((entry) => entry === service));
+}
+
+/** Requested add-ons that are unknown or cannot be booked with the service. */
+export function unavailableAddons(service: string, ids: readonly string[]) {
+  const available = new Set<string>(addonsForService(service).map((addon) => addon.id));
+  return ids.filter((id) => !available.has(id));
+}
+
+/** Prices the selected add-ons in catalogue order, each at most once. */
+export function priceServiceAddons(
+  ids: readonly string[],
+  pricesCents: Partial<Record<ServiceAddonId, number>> = {}
+): ServiceAddonLine[] {
+  const selected = new Set(ids);
+  return SERVICE_ADDON_CATALOG.filter((addon) => selected.has(addon.id)).map((addon) => ({
+    id: addon.id,
+    title: addon.title,
+    priceCents: Math.max(0, pricesCents[addon.id] ?? addon.priceCents),
+    extraMinutes: addon.extraMinutes,
+  }));
+}
+
+/** Reads the add-on snapshot stored on a booking, skipping malformed entries. */
+export function parseAddonLines(value: unknown): ServiceAddonLine[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((entry) => {
+    if (typeof entry !== 'object' || entry === null) {
+      return [];
+    }
+    const line = entry as Partial<ServiceAddonLine>;
+    if (typeof line.id !== 'string' || typeof line.title !== 'string') {
+      return [];
+    }
+    return [
+      {
+        id: line.id,
+        title: line.title,
+        priceCents: Number(line.priceCents) || 0,
+        extraMinutes: Number(line.extraMinutes) || 0,
+      },
+    ];
+  });
+}
+
+function addonMinutes(lines: readonly ServiceAddonLine[]) {
+  return lines.reduce((sum, line) => sum + line.extraMinutes, 0);
+}
+
+function addonHours(lines: readonly ServiceAddonLine[]) {
+  return addonMinutes(lines) / 60;
+}
+
+/** Booked or recommended hours including the time the add-ons take; unknown stays unknown. */
+export function withAddonHours(hours: number | null | undefined, lines: readonly ServiceAddonLine[]) {
+  if (typeof hours !== 'number' || !Number.isFinite(hours)) {
+    return hours ?? null;
+  }
+  return Math.round((hours + addonHours(lines)) * 100) / 100;
+}
+
+/** Inverse of `withAddonHours`, for re-pricing a booking whose stored hours already include its add-ons. */
+export function withoutAddonHours(hours: number | null | undefined, lines: readonly ServiceAddonLine[]) {
+  if (typeof hours !== 'number' || !Number.isFinite(hours)) {
+    return hours ?? null;
+  }
+  return Math.max(0, Math.round((hours - addonHours(lines)) * 100) / 100);
+}
+
+/** Booked end pushed out by the time the add-ons take, so the provider is booked for the add-on work. */
+export function withAddonEnd(endAt: Date, lines: readonly ServiceAddonLine[]) {
+  return new Date(endAt.getTime() + addonMinutes(lines) * 60_000);
+}
+
+/** Inverse of `withAddonEnd`, for rescheduling a booking whose stored end already includes its add-ons. */
+export function withoutAddonEnd(endAt: Date, lines: readonly ServiceAddonLine[]) {
+  return new Date(endAt.getTime() - addonMinutes(lines) * 60_000);
+}
@@ -1,5 +1,5 @@
 import { Type } from 'class-transformer';
-import { IsBoolean, IsEnum, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { IsBoolean, IsEnum, IsOptional, IsString, Matches, ValidateNested } from 'class-validator';
 import { DigestFrequency } from '@prisma/client';
 
 export class UpdateUserPreferencesDto {
@@ -18,6 +18,14 @@ export class UpdateUserPreferencesDto {
   @IsOptional()
   @IsEnum(DigestFrequency)
   digestFrequency?: DigestFrequency;
+
+  @IsOptional()
+  @Matches(/^$|^([01]\d|2[0-3]):[0-5]\d$/)
+  quietHoursStart?: string;
+
+  @IsOptional()
+  @Matches(/^$|^([01]\d|2[0-3]):[0-5]\d$/)
+  quietHoursEnd?: string;
 }
 
 export class UpdateProfileDto {
@@ -29,6 +29,8 @@ export class ProfileService {
             productUpdates: true,
             enableDarkMode: true,
             digestFrequency: true,
+            quietHoursStart: true,
+            quietHoursEnd: true,
           },
         },
         profileAudits: {
@@ -55,6 +57,8 @@ export class ProfileService {
           productUpdates: true,
           enableDarkMode: false,
           digestFrequency: 'WEEKLY' as const,
+          quietHoursStart: null,
+          quietHoursEnd: null,
         },
       };
     }
@@ -68,6 +72,8 @@ export class ProfileService {
         productUpdates: true,
         enableDarkMode: false,
         digestFrequency: 'WEEKLY' as const,
+        quietHoursStart: null,
+        quietHoursEnd: null,
       },
     };
   }
@@ -140,12 +146,16 @@ export class ProfileService {
         productUpdates: boolean;
         enableDarkMode: boolean;
         digestFrequency: DigestFrequency;
+        quietHoursStart: string | null;
+        quietHoursEnd: string | null;
       };
       const preferenceDefaults: PreferenceSnapshot = {
         marketingEmails: false,
         productUpdates: true,
         enableDarkMode: false,
         digestFrequency: DigestFrequency.WEEKLY,
+        quietHoursStart: null,
+        quietHoursEnd: null,
       };
 
       const applyPreferenceChange = <K extends keyof PreferenceSnapshot>(
@@ -181,6 +191,12 @@ export class ProfileService {
       if (payload.preferences.digestFrequency !== undefined) {
         applyPreferenceChange('digestFrequency', payload.preferences.digestFrequency);
       }
+      if (payload.preferences.quietHoursStart !== undefined) {
+        applyPreferenceChange('quietHoursStart', payload.preferences.quietHoursStart || null);
+      }
+      if (payload.preferences.quietHoursEnd !== undefined) {
+        applyPreferenceChange('quietHoursEnd', payload.preferences.quietHoursEnd || null);
+      }
     }
 
     return this.prisma.$transaction(async (tx) => {
@@ -205,6 +221,8 @@ export class ProfileService {
               (preferenceUpdateData.enableDarkMode as boolean | undefined) ?? false,
             digestFrequency:
               (preferenceUpdateData.digestFrequency as DigestFrequency | undefined) ?? DigestFrequency.WEEKLY,
+            quietHoursStart: (preferenceUpdateData.quietHoursStart as string | null | undefined) ?? null,
+            quietHoursEnd: (preferenceUpdateData.quietHoursEnd as string | null | undefined) ?? null,
           },
         });
       }
@@ -241,6 +259,8 @@ export class ProfileService {
               productUpdates: true,
               enableDarkMode: true,
               digestFrequency: true,
+              quietHoursStart: true,
+              quietHoursEnd: true,
             },
           },
           profileAudits: {
@@ -0,0 +1,11 @@
+import { IsLatitude, IsLongitude, IsOptional } from 'class-validator';
+
+export class ProviderCheckInDto {
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
+}
@@ -0,0 +1,9 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class ProviderOnTheWayDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(240)
+  etaMinutes?: number;
+}
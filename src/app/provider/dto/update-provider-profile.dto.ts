@@ -1,7 +1,7 @@
-import { IsArray, IsBoolean, IsNumber, IsOptional, IsString, ValidateNested, IsLatitude, IsLongitude } from 'class-validator';
+import { IsArray, IsBoolean, IsNumber, IsOptional, IsString, ValidateNested, IsLatitude, IsLongitude, Min } from 'class-validator';
 import { Type } from 'class-transformer';
 
-class ProviderServiceZoneDto {
+export class ProviderServiceZoneDto {
   @IsString()
   name!: string;
 
@@ -68,6 +68,15 @@ export class UpdateProviderProfileDto {
   @IsBoolean()
   offersEco?: boolean;
 
+  @IsOptional()
+  @IsBoolean()
+  smallBusiness?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  distanceMaxKm?: number | null;
+
   @IsOptional()
   @IsBoolean()
   acceptsAnimals?: boolean;
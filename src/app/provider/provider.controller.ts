@@ -1,6 +1,7 @@
 import { Body, Controller, Delete, Get, Header, Param, Patch, Post, Put, Query, UseGuards } from '@nestjs/common';
 import { ApiTags } from '@nestjs/swagger';
 import type {
+  BookingEvidence,
   BookingRequest,
   PaymentRecord,
   ProviderDashboardResponse,
@@ -20,6 +21,10 @@ import { UpdateProviderMissionStatusDto } from './dto/update-provider-mission-st
 import { UpdateProviderProfileDto } from './dto/update-provider-profile.dto';
 import { UpdateProviderServicesDto } from './dto/update-provider-services.dto';
 import { CancelProviderMissionDto } from './dto/cancel-provider-mission.dto';
+import { ProviderOnTheWayDto } from './dto/provider-on-the-way.dto';
+import { ProviderCheckInDto } from './dto/provider-check-in.dto';
+import { BookingEvidenceService } from '../bookings/booking-evidence.service';
+import { UpdateChecklistItemDto, UploadMissionPhotoDto } from '../bookings/dto/booking-evidence.dto';
 import { ProviderEarningsFiltersDto } from './dto/provider-earnings-filters.dto';
 import { CompleteIdentityDto } from './dto/complete-identity.dto';
 import { CompleteAddressDto } from './dto/complete-address.dto';
@@ -38,7 +43,10 @@ import { UploadProfilePhotoDto } from './dto/upload-profile-photo.dto';
 @UseGuards(AccessTokenGuard, RolesGuard)
 @Roles('provider', 'employee', 'admin')
 export class ProviderController {
-  constructor(private readonly providerService: ProviderService) {}
+  constructor(
+    private readonly providerService: ProviderService,
+    private readonly bookingEvidence: BookingEvidenceService
+  ) {}
 
   @Get('dashboard')
   getDashboard(@CurrentUser() user: User): Promise<ProviderDashboardResponse> {
@@ -84,6 +92,57 @@ export class ProviderController {
     return this.providerService.cancelMission(user, id, payload.reason);
   }
 
+  @Post('missions/:id/on-the-way')
+  notifyOnTheWay(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Body() payload: ProviderOnTheWayDto
+  ): Promise<BookingRequest> {
+    return this.providerService.notifyOnTheWay(user, id, payload.etaMinutes);
+  }
+
+  @Post('missions/:id/check-in')
+  checkInMission(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Body() payload: ProviderCheckInDto
+  ): Promise<BookingRequest> {
+    return this.providerService.checkInMission(user, id, payload);
+  }
+
+  @Post('missions/:id/check-out')
+  checkOutMission(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Body() payload: ProviderCheckInDto
+  ): Promise<BookingRequest> {
+    return this.providerService.checkOutMission(user, id, payload);
+  }
+
+  @Get('missions/:id/checklist')
+  getMissionEvidence(@CurrentUser() user: User, @Param('id') id: string): Promise<BookingEvidence> {
+    return this.bookingEvidence.getForProvider(user, id);
+  }
+
+  @Patch('missions/:id/checklist/:itemId')
+  updateChecklistItem(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+    @Body() payload: UpdateChecklistItemDto
+  ): Promise<BookingEvidence> {
+    return this.bookingEvidence.updateChecklistItem(user, id, itemId, payload);
+  }
+
+  @Post('missions/:id/photos')
+  uploadMissionPhoto(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Body() payload: UploadMissionPhotoDto
+  ): Promise<BookingEvidence> {
+    return this.bookingEvidence.uploadPhoto(user, id, payload);
+  }
+
   @Get('payments')
   listPayments(@CurrentUser() user: User): Promise<PaymentRecord[]> {
     return this.providerService.listPayments(user);
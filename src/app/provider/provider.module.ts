@@ -7,7 +7,6 @@ import { PaymentsModule } from '../payments/payments.module';
 import { ProviderDirectoryController } from './provider-directory.controller';
 import { ProviderCitiesController } from './provider-cities.controller';
 import { ProviderCoverageController } from './provider-coverage.controller';
-import { SmsService } from './sms.service';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { GeocodingModule } from '../geocoding/geocoding.module';
 import { IdentityModule } from '../identity/identity.module';
@@ -15,6 +14,6 @@ import { IdentityModule } from '../identity/identity.module';
 @Module({
   imports: [AuthModule, BookingsModule, PaymentsModule, NotificationsModule, GeocodingModule, IdentityModule],
   controllers: [ProviderController, ProviderDirectoryController, ProviderCitiesController, ProviderCoverageController],
-  providers: [ProviderService, SmsService],
+  providers: [ProviderService],
 })
 export class ProviderModule {}
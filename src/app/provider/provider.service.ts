@@ -13,9 +13,11 @@ import {
   ProviderServiceZone as PrismaProviderServiceZone,
   ProviderType as PrismaProviderType,
   ProviderPayout as PrismaProviderPayout,
+  ReviewStatus as PrismaReviewStatus,
   IdentityVerificationStatus as PrismaIdentityVerificationStatus,
   User as PrismaUser,
   BookingInvitationStatus as PrismaBookingInvitationStatus,
+  OvertimeRequestStatus,
   UserRole,
 } from '@prisma/client';
 import type {
@@ -45,17 +47,27 @@ import { ConfigService } from '@nestjs/config';
 import type { AppEnvironmentConfig } from '../config/configuration';
 import { PrismaService } from '../../prisma/prisma.service';
 import { BookingMapper, type BookingWithRelations } from '../bookings/booking.mapper';
+import {
+  checkInReference,
+  computeOvertimeAmountCents,
+  computeOvertimeMinutes,
+  computePlannedMinutes,
+  computeWorkedMinutes,
+  distanceFromAddressMeters,
+  isWithinCheckInTolerance,
+} from '../bookings/booking-time-tracking';
 import { ProviderMissionFiltersDto } from './dto/provider-mission-filters.dto';
 import { UpdateProviderProfileDto } from './dto/update-provider-profile.dto';
 import { PROVIDER_ALLOWED_STATUSES, UpdateProviderMissionStatusDto } from './dto/update-provider-mission-status.dto';
 import { ProviderDirectoryDto } from './dto/provider-directory.dto';
 import { BookingNotificationsService } from '../bookings/booking-notifications.service';
-import { PaymentsService } from '../payments/payments.service';
+import { CancellationPolicyService } from '../bookings/cancellation-policy.service';
+import { PaymentsService, pendingCancellationSettlement } from '../payments/payments.service';
 import { CompleteIdentityDto } from './dto/complete-identity.dto';
 import { CompleteAddressDto } from './dto/complete-address.dto';
 import { CompletePhoneDto } from './dto/complete-phone.dto';
 import { RequestPhoneVerificationDto } from './dto/request-phone-verification.dto';
-import { SmsService } from './sms.service';
+import { SmsService } from '../notifications/sms.service';
 import * as bcrypt from 'bcrypt';
 import { randomInt } from 'crypto';
 import { SignupFeeRequestDto } from './dto/signup-fee-request.dto';
@@ -70,6 +82,7 @@ import { UpdateProviderServicesDto } from './dto/update-provider-services.dto';
 import { SERVICE_TYPE_CATALOG } from './service-type-catalog';
 import { PostalCodeService } from '../geocoding/postal-code.service';
 import { ProviderInvitationFiltersDto } from './dto/provider-invitation-filters.dto';
+import { ProviderCheckInDto } from './dto/provider-check-in.dto';
 import {
   PLATFORM_COMMISSION_RATE,
   PLATFORM_COMMISSION_VAT_RATE,
@@ -200,7 +213,8 @@ export class ProviderService {
     private readonly notifications: NotificationsService,
     private readonly postalCodes: PostalCodeService,
     private readonly identityDocumentTypes: IdentityDocumentTypesService,
-    private readonly identityAudit: IdentityAuditService
+    private readonly identityAudit: IdentityAuditService,
+    private readonly cancellationPolicies: CancellationPolicyService
   ) {}
 
   async listDirectoryProviders(filters: ProviderDirectoryDto): Promise<ProviderDirectoryItem[]> {
@@ -557,6 +571,7 @@ export class ProviderService {
           take: 3,
         },
         reviews: {
+          where: { status: PrismaReviewStatus.PUBLISHED },
           orderBy: { createdAt: 'desc' },
           take: 6,
           include: {
@@ -576,6 +591,13 @@ export class ProviderService {
       authorFirstName: review.author.firstName,
       comment: review.comment ?? undefined,
       score: review.score,
+      criteria: {
+        punctuality: review.punctualityScore ?? undefined,
+        quality: review.qualityScore ?? undefined,
+        communication: review.communicationScore ?? undefined,
+      },
+      providerReply: review.providerReply ?? undefined,
+      providerRepliedAt: review.providerRepliedAt?.toISOString(),
       createdAt: review.createdAt.toISOString(),
     }));
     return {
@@ -2235,6 +2257,7 @@ export class ProviderService {
     }
 
     if (status && status !== currentStatus) {
+      await this.bookingNotifications.triggerStatusAutomation(id, status);
       await this.bookingNotifications.notifyParticipants({
         booking: updated as BookingWithRelations,
         type: status === 'cancelled' ? NotificationType.BOOKING_CANCELLATION : NotificationType.BOOKING_STATUS,
@@ -2288,11 +2311,21 @@ export class ProviderService {
     }
 
     const cancellationReason = reason ?? 'provider_cancelled';
+    const quote = await this.cancellationPolicies.quote(booking, { initiator: 'provider', providerId: profile.id });
 
     const updated = await this.prisma.booking.update({
       where: { id },
       data: {
         status: PrismaBookingStatus.CANCELLED,
+        cancelledAt: new Date(),
+        cancellationFeeCents: 0,
+        cancellationInitiator: 'provider',
+        ...pendingCancellationSettlement({
+          feeCents: 0,
+          providerLines: quote.providerLines,
+          reason: cancellationReason,
+          requestedById: user.id,
+        }),
         auditLog: {
           create: {
             actor: { connect: { id: user.id } },
@@ -2301,6 +2334,9 @@ export class ProviderService {
               from: BookingMapper.toDomainStatus(booking.status),
               to: 'cancelled',
               reason: cancellationReason,
+              initiator: 'provider',
+              penaltyCents: quote.preview.feeCents,
+              policyId: quote.preview.policyId,
             },
           },
         },
@@ -2313,6 +2349,9 @@ export class ProviderService {
       },
     });
 
+    // The client gets a full refund; the penalty is withheld from the provider's next payout.
+    await this.payments.settlePendingCancellation(id);
+
     await this.bookingNotifications.notifyParticipants({
       booking: updated as BookingWithRelations,
       type: NotificationType.BOOKING_CANCELLATION,
@@ -2326,6 +2365,281 @@ export class ProviderService {
     return BookingMapper.toDomain(updated as BookingWithRelations);
   }
 
+  /** Tells the client the provider has left for the appointment (in-app, push and, if opted in, SMS). */
+  async notifyOnTheWay(user: User, id: string, etaMinutes?: number): Promise<BookingRequest> {
+    await this.assertOnboardingComplete(user);
+    const profile = await this.requireProviderProfile(user.id);
+    const booking = await this.prisma.booking.findUnique({
+      where: { id },
+      include: {
+        assignments: true,
+        auditLog: true,
+        attachments: true,
+        fallbackTeamCandidate: { include: { members: true } },
+      },
+    });
+
+    if (!booking) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+    if (!booking.assignments.some((assignment) => assignment.providerId === profile.id)) {
+      throw new ForbiddenException('BOOKING_FORBIDDEN');
+    }
+    if (booking.status !== PrismaBookingStatus.CONFIRMED) {
+      throw new BadRequestException('BOOKING_NOT_CONFIRMED');
+    }
+
+    const updated = await this.prisma.booking.update({
+      where: { id },
+      data: {
+        auditLog: {
+          create: {
+            actor: { connect: { id: user.id } },
+            action: 'provider_on_the_way',
+            metadata: { providerId: profile.id, etaMinutes: etaMinutes ?? null },
+          },
+        },
+      },
+      include: {
+        assignments: true,
+        auditLog: true,
+        attachments: true,
+        fallbackTeamCandidate: { include: { members: true } },
+      },
+    });
+
+    await this.bookingNotifications.notifyParticipants({
+      booking: updated as BookingWithRelations,
+      type: NotificationType.BOOKING_STATUS,
+      providerTargets: [],
+      payload: {
+        event: 'provider_on_the_way',
+        providerName: profile.user?.firstName ?? null,
+        etaMinutes: etaMinutes ?? null,
+        actorId: user.id,
+      },
+      dedupeKey: `provider_on_the_way:${id}:${profile.id}`,
+    });
+
+    return BookingMapper.toDomain(updated as BookingWithRelations);
+  }
+
+  /** Starts on-site time tracking; the first check-in also moves a confirmed booking to in progress. */
+  async checkInMission(user: User, id: string, position: ProviderCheckInDto): Promise<BookingRequest> {
+    await this.assertOnboardingComplete(user);
+    const profile = await this.requireProviderProfile(user.id);
+    const booking = await this.prisma.booking.findUnique({
+      where: { id },
+      include: {
+        assignments: true,
+        auditLog: true,
+        attachments: true,
+        fallbackTeamCandidate: { include: { members: true } },
+      },
+    });
+
+    if (!booking) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+    const assignment = booking.assignments.find((entry) => entry.providerId === profile.id);
+    if (!assignment) {
+      throw new ForbiddenException('BOOKING_FORBIDDEN');
+    }
+    if (booking.status !== PrismaBookingStatus.CONFIRMED && booking.status !== PrismaBookingStatus.IN_PROGRESS) {
+      throw new BadRequestException('BOOKING_NOT_CONFIRMED');
+    }
+    if (assignment.checkInAt) {
+      throw new ConflictException('MISSION_ALREADY_CHECKED_IN');
+    }
+
+    const distanceMeters = distanceFromAddressMeters(checkInReference(booking), position);
+    const startsMission = booking.status === PrismaBookingStatus.CONFIRMED;
+    const auditEntries: Prisma.BookingAuditCreateWithoutBookingInput[] = [
+      {
+        actor: { connect: { id: user.id } },
+        action: 'provider_checked_in',
+        metadata: {
+          providerId: profile.id,
+          distanceMeters,
+          withinTolerance: isWithinCheckInTolerance(distanceMeters),
+        },
+      },
+    ];
+    if (startsMission) {
+      auditEntries.push({
+        actor: { connect: { id: user.id } },
+        action: 'status_changed',
+        metadata: { from: 'confirmed', to: 'in_progress', reason: 'provider_checked_in' },
+      });
+    }
+
+    const updated = await this.prisma.booking.update({
+      where: { id },
+      data: {
+        ...(startsMission ? { status: PrismaBookingStatus.IN_PROGRESS } : {}),
+        assignments: {
+          update: {
+            where: { id: assignment.id },
+            data: {
+              checkInAt: new Date(),
+              checkInLatitude: position.latitude ?? null,
+              checkInLongitude: position.longitude ?? null,
+              checkInDistanceMeters: distanceMeters,
+            },
+          },
+        },
+        auditLog: { create: auditEntries },
+      },
+      include: {
+        assignments: true,
+        auditLog: true,
+        attachments: true,
+        fallbackTeamCandidate: { include: { members: true } },
+      },
+    });
+
+    await this.bookingNotifications.notifyParticipants({
+      booking: updated as BookingWithRelations,
+      type: NotificationType.BOOKING_STATUS,
+      providerTargets: [],
+      payload: {
+        event: 'provider_checked_in',
+        status: BookingMapper.toDomainStatus(updated.status),
+        providerName: profile.user?.firstName ?? null,
+        actorId: user.id,
+      },
+    });
+
+    return BookingMapper.toDomain(updated as BookingWithRelations);
+  }
+
+  /**
+   * Stops on-site time tracking. Worked time beyond the booked duration becomes an overtime request the client
+   * approves or declines; once every assigned provider has checked out the booking is completed.
+   */
+  async checkOutMission(user: User, id: string, position: ProviderCheckInDto): Promise<BookingRequest> {
+    await this.assertOnboardingComplete(user);
+    const profile = await this.requireProviderProfile(user.id);
+    const booking = await this.prisma.booking.findUnique({
+      where: { id },
+      include: {
+        assignments: true,
+        auditLog: true,
+        attachments: true,
+        fallbackTeamCandidate: { include: { members: true } },
+      },
+    });
+
+    if (!booking) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+    const assignment = booking.assignments.find((entry) => entry.providerId === profile.id);
+    if (!assignment) {
+      throw new ForbiddenException('BOOKING_FORBIDDEN');
+    }
+    if (booking.status !== PrismaBookingStatus.IN_PROGRESS) {
+      throw new BadRequestException('BOOKING_NOT_IN_PROGRESS');
+    }
+    if (!assignment.checkInAt) {
+      throw new BadRequestException('MISSION_NOT_CHECKED_IN');
+    }
+    if (assignment.checkOutAt) {
+      throw new ConflictException('MISSION_ALREADY_CHECKED_OUT');
+    }
+
+    const checkOutAt = new Date();
+    const distanceMeters = distanceFromAddressMeters(checkInReference(booking), position);
+    const workedMinutes = computeWorkedMinutes(assignment.checkInAt, checkOutAt);
+    const plannedMinutes = computePlannedMinutes({
+      durationHours: booking.durationHours !== null ? Number(booking.durationHours) : null,
+      startAt: booking.startAt,
+      endAt: booking.endAt,
+    });
+    const overtimeMinutes = computeOvertimeMinutes(workedMinutes, plannedMinutes);
+    const overtimeAmountCents = computeOvertimeAmountCents({
+      overtimeMinutes,
+      plannedMinutes,
+      servicePriceCents: booking.pricingSubtotalCents + booking.pricingEcoCents,
+      requiredProviders: booking.requiredProviders ?? 1,
+    });
+    const requestsOvertime = overtimeAmountCents > 0;
+    const completesMission = booking.assignments.every(
+      (entry) => entry.id === assignment.id || Boolean(entry.checkOutAt)
+    );
+
+    const auditEntries: Prisma.BookingAuditCreateWithoutBookingInput[] = [
+      {
+        actor: { connect: { id: user.id } },
+        action: 'provider_checked_out',
+        metadata: {
+          providerId: profile.id,
+          distanceMeters,
+          withinTolerance: isWithinCheckInTolerance(distanceMeters),
+          workedMinutes,
+          plannedMinutes,
+          overtimeMinutes: requestsOvertime ? overtimeMinutes : 0,
+          overtimeAmountCents: requestsOvertime ? overtimeAmountCents : 0,
+        },
+      },
+    ];
+    if (completesMission) {
+      auditEntries.push({
+        actor: { connect: { id: user.id } },
+        action: 'status_changed',
+        metadata: { from: 'in_progress', to: 'completed', reason: 'provider_checked_out' },
+      });
+    }
+
+    const updated = await this.prisma.booking.update({
+      where: { id },
+      data: {
+        ...(completesMission ? { status: PrismaBookingStatus.COMPLETED } : {}),
+        assignments: {
+          update: {
+            where: { id: assignment.id },
+            data: {
+              checkOutAt,
+              checkOutLatitude: position.latitude ?? null,
+              checkOutLongitude: position.longitude ?? null,
+              checkOutDistanceMeters: distanceMeters,
+              workedMinutes,
+              ...(requestsOvertime
+                ? { overtimeMinutes, overtimeAmountCents, overtimeStatus: OvertimeRequestStatus.PENDING }
+                : {}),
+            },
+          },
+        },
+        auditLog: { create: auditEntries },
+      },
+      include: {
+        assignments: true,
+        auditLog: true,
+        attachments: true,
+        fallbackTeamCandidate: { include: { members: true } },
+      },
+    });
+
+    if (completesMission) {
+      await this.bookingNotifications.triggerStatusAutomation(id, 'completed');
+    }
+    await this.bookingNotifications.notifyParticipants({
+      booking: updated as BookingWithRelations,
+      type: NotificationType.BOOKING_STATUS,
+      providerTargets: [],
+      payload: {
+        event: requestsOvertime ? 'overtime_requested' : 'provider_checked_out',
+        status: BookingMapper.toDomainStatus(updated.status),
+        assignmentId: assignment.id,
+        workedMinutes,
+        overtimeMinutes: requestsOvertime ? overtimeMinutes : 0,
+        overtimeAmountCents: requestsOvertime ? overtimeAmountCents : 0,
+        actorId: user.id,
+      },
+    });
+
+    return BookingMapper.toDomain(updated as BookingWithRelations);
+  }
+
   private async capturePaymentSafely(bookingId: string) {
     try {
       await this.payments.captureBookingPayment(bookingId);
@@ -2384,17 +2698,23 @@ export class ProviderService {
       });
       if (payload.serviceZones.length) {
         await this.prisma.providerServiceZone.createMany({
-          data: payload.serviceZones.map((zone) => ({
-            providerId: profile.id,
-            name: zone.name,
-            postalCode: zone.postalCode ?? null,
-            city: zone.city ?? null,
-            district: zone.district ?? null,
-            countryCode: zone.countryCode ?? null,
-            latitude: zone.latitude ?? null,
-            longitude: zone.longitude ?? null,
-            radiusKm: zone.radiusKm ?? 5,
-          })),
+          data: payload.serviceZones.map((zone) => {
+            const centroid =
+              zone.latitude === undefined || zone.longitude === undefined
+                ? this.postalCodes.centroid(zone.postalCode, zone.countryCode)
+                : null;
+            return {
+              providerId: profile.id,
+              name: zone.name,
+              postalCode: zone.postalCode ?? null,
+              city: zone.city ?? null,
+              district: zone.district ?? null,
+              countryCode: zone.countryCode ?? null,
+              latitude: zone.latitude ?? centroid?.latitude ?? null,
+              longitude: zone.longitude ?? centroid?.longitude ?? null,
+              radiusKm: zone.radiusKm ?? 5,
+            };
+          }),
         });
       }
     }
@@ -2410,6 +2730,12 @@ export class ProviderService {
     if (payload.offersEco !== undefined) {
       data.offersEco = payload.offersEco;
     }
+    if (payload.smallBusiness !== undefined) {
+      data.smallBusiness = payload.smallBusiness;
+    }
+    if (payload.distanceMaxKm !== undefined) {
+      data.distanceMaxKm = payload.distanceMaxKm;
+    }
     if (payload.acceptsAnimals !== undefined) {
       data.acceptsAnimals = payload.acceptsAnimals;
     }
@@ -2600,6 +2926,8 @@ export class ProviderService {
       ratingAverage: entity.ratingAverage ?? undefined,
       ratingCount: entity.ratingCount ?? undefined,
       offersEco: entity.offersEco,
+      smallBusiness: entity.smallBusiness,
+      distanceMaxKm: entity.distanceMaxKm ?? undefined,
       photoUrl: this.resolveProfilePhotoUrl(entity.documents),
       acceptsAnimals: entity.acceptsAnimals ?? false,
       payoutMethod: (entity.payoutMethod as ProviderProfileModel['payoutMethod']) ?? undefined,
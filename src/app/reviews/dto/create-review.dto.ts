@@ -0,0 +1,44 @@
+import { IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+export class CreateReviewDto {
+  @IsString()
+  @IsNotEmpty()
+  bookingId!: string;
+
+  /** Required when several providers worked on the booking. */
+  @IsOptional()
+  @IsString()
+  providerId?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  score!: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  punctualityScore?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  qualityScore?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  communicationScore?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  ecoCompliance?: boolean;
+}
@@ -0,0 +1,16 @@
+import { detectReviewFlags } from './review-moderation';
+
+describe('detectReviewFlags', () => {
+  it('flags contact details and links', () => {
+    expect(detectReviewFlags('Schreibt mir direkt: anna.k@example.de oder 0176 123 45 678')).toEqual([
+      'contains_email',
+      'contains_phone',
+    ]);
+    expect(detectReviewFlags('Mehr Infos auf www.example.com')).toEqual(['contains_link']);
+  });
+
+  it('keeps regular feedback untouched', () => {
+    expect(detectReviewFlags('Sehr gründlich, pünktlich um 9:30 da. 5 Sterne!')).toEqual([]);
+    expect(detectReviewFlags(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,17 @@
+const CONTACT_PATTERNS: Array<{ reason: string; pattern: RegExp }> = [
+  { reason: 'contains_email', pattern: /[^\s@]+@[^\s@]+\.[a-z]{2,}/i },
+  { reason: 'contains_phone', pattern: /(?:\+|00)?\d[\d\s/().-]{7,}\d/ },
+  { reason: 'contains_link', pattern: /\b(?:https?:\/\/|www\.)\S+/i },
+];
+
+/**
+ * Returns the reasons a text should go through moderation before it is shown publicly.
+ * Reviews are screened for contact details so clients and providers cannot move bookings
+ * off the platform through the directory.
+ */
+export function detectReviewFlags(text?: string | null): string[] {
+  if (!text) {
+    return [];
+  }
+  return CONTACT_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ reason }) => reason);
+}
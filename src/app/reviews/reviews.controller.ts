@@ -0,0 +1,33 @@
+import { Body, Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import type { User } from '@saubio/models';
+import { AccessTokenGuard } from '../auth/guards/access-token.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ReviewsService } from './reviews.service';
+import { CreateReviewDto } from './dto/create-review.dto';
+import { ReplyReviewDto } from './dto/reply-review.dto';
+
+@Controller('reviews')
+@UseGuards(AccessTokenGuard, RolesGuard)
+@Roles('client', 'company')
+export class ReviewsController {
+  constructor(private readonly reviews: ReviewsService) {}
+
+  @Post()
+  create(@Body() payload: CreateReviewDto, @CurrentUser() user: User) {
+    return this.reviews.create(user, payload);
+  }
+
+  @Get('bookings/:bookingId')
+  @Roles('client', 'company', 'provider', 'employee', 'admin')
+  listForBooking(@Param('bookingId') bookingId: string, @CurrentUser() user: User) {
+    return this.reviews.listForBooking(bookingId, user);
+  }
+
+  @Post(':id/reply')
+  @Roles('provider')
+  reply(@Param('id') id: string, @Body() payload: ReplyReviewDto, @CurrentUser() user: User) {
+    return this.reviews.reply(id, user, payload);
+  }
+}
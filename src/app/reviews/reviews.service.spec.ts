@@ -0,0 +1,120 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { BookingStatus, Prisma, ReviewStatus } from '@prisma/client';
+import type { User } from '@saubio/models';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ReviewsService } from './reviews.service';
+
+describe('ReviewsService', () => {
+  const client = { id: 'client_1', roles: ['client'], companies: [] } as unknown as User;
+  let booking: {
+    id: string;
+    clientId: string;
+    companyId: string | null;
+    status: BookingStatus;
+    endAt: Date;
+    assignments: Array<{ providerId: string }>;
+  };
+  let prisma: {
+    booking: { findUnique: jest.Mock };
+    review: { create: jest.Mock; aggregate: jest.Mock };
+    providerProfile: { findUnique: jest.Mock; update: jest.Mock };
+  };
+  let service: ReviewsService;
+
+  beforeEach(() => {
+    booking = {
+      id: 'booking_1',
+      clientId: client.id,
+      companyId: null,
+      status: BookingStatus.COMPLETED,
+      endAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+      assignments: [{ providerId: 'provider_1' }],
+    };
+    prisma = {
+      booking: { findUnique: jest.fn(async () => booking) },
+      review: {
+        create: jest.fn(async ({ data }) => ({
+          id: 'review_1',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          bookingId: data.booking.connect.id,
+          authorId: data.author.connect.id,
+          targetProviderId: data.targetProvider.connect.id,
+          ...data,
+        })),
+        aggregate: jest.fn().mockResolvedValue({ _avg: { score: 4.666666 }, _count: { _all: 3 } }),
+      },
+      providerProfile: {
+        findUnique: jest.fn().mockResolvedValue({ userId: 'provider_user_1' }),
+        update: jest.fn(),
+      },
+    };
+    service = new ReviewsService(
+      prisma as unknown as PrismaService,
+      { emit: jest.fn() } as unknown as NotificationsService
+    );
+  });
+
+  describe('create', () => {
+    it('only accepts reviews of completed bookings', async () => {
+      booking.status = BookingStatus.CONFIRMED;
+
+      await expect(service.create(client, { bookingId: 'booking_1', score: 5 })).rejects.toThrow(
+        new BadRequestException('REVIEW_BOOKING_NOT_COMPLETED')
+      );
+      expect(prisma.review.create).not.toHaveBeenCalled();
+    });
+
+    it('closes the review window 14 days after the booking ended', async () => {
+      booking.endAt = new Date(Date.now() - 15 * 24 * 60 * 60 * 1000);
+      await expect(service.create(client, { bookingId: 'booking_1', score: 5 })).rejects.toThrow(
+        'REVIEW_WINDOW_CLOSED'
+      );
+
+      booking.endAt = new Date(Date.now() - 13 * 24 * 60 * 60 * 1000);
+      await expect(service.create(client, { bookingId: 'booking_1', score: 5 })).resolves.toMatchObject({
+        targetProviderId: 'provider_1',
+        status: 'published',
+      });
+    });
+
+    it('reports a second review of the same booking as a conflict', async () => {
+      prisma.review.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      await expect(service.create(client, { bookingId: 'booking_1', score: 4 })).rejects.toThrow(
+        new ConflictException('REVIEW_ALREADY_SUBMITTED')
+      );
+      expect(prisma.providerProfile.update).not.toHaveBeenCalled();
+    });
+
+    it('updates the provider rating once the review is stored', async () => {
+      await service.create(client, { bookingId: 'booking_1', score: 5 });
+
+      expect(prisma.review.aggregate).toHaveBeenCalledWith({
+        where: { targetProviderId: 'provider_1', status: { not: ReviewStatus.HIDDEN } },
+        _avg: { score: true },
+        _count: { _all: true },
+      });
+      expect(prisma.providerProfile.update).toHaveBeenCalledWith({
+        where: { id: 'provider_1' },
+        data: { ratingAverage: 4.67, ratingCount: 3 },
+      });
+    });
+  });
+
+  describe('recomputeProviderRating', () => {
+    it('clears the average when no visible review is left', async () => {
+      prisma.review.aggregate.mockResolvedValue({ _avg: { score: null }, _count: { _all: 0 } });
+
+      await service.recomputeProviderRating('provider_1');
+
+      expect(prisma.providerProfile.update).toHaveBeenCalledWith({
+        where: { id: 'provider_1' },
+        data: { ratingAverage: null, ratingCount: 0 },
+      });
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  BookingStatus as PrismaBookingStatus,
+  NotificationType,
+  Prisma,
+  ReviewStatus as PrismaReviewStatus,
+  type Review as PrismaReview,
+} from '@prisma/client';
+import type { Review, ReviewStatus, User } from '@saubio/models';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CreateReviewDto } from './dto/create-review.dto';
+import { ReplyReviewDto } from './dto/reply-review.dto';
+import { detectReviewFlags } from './review-moderation';
+
+const REVIEW_WINDOW_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class ReviewsService {
+  private readonly logger = new Logger(ReviewsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notifications: NotificationsService
+  ) {}
+
+  async create(user: User, payload: CreateReviewDto): Promise<Review> {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: payload.bookingId },
+      include: { assignments: { select: { providerId: true } } },
+    });
+    if (!booking || !this.isBookingClient(booking, user)) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+    if (booking.status !== PrismaBookingStatus.COMPLETED) {
+      throw new BadRequestException('REVIEW_BOOKING_NOT_COMPLETED');
+    }
+    if (Date.now() > booking.endAt.getTime() + REVIEW_WINDOW_DAYS * DAY_MS) {
+      throw new BadRequestException('REVIEW_WINDOW_CLOSED');
+    }
+
+    const providerIds = booking.assignments.map((assignment) => assignment.providerId);
+    const providerId = payload.providerId ?? (providerIds.length === 1 ? providerIds[0] : undefined);
+    if (!providerId) {
+      throw new BadRequestException('REVIEW_PROVIDER_REQUIRED');
+    }
+    if (!providerIds.includes(providerId)) {
+      throw new BadRequestException('REVIEW_PROVIDER_NOT_ASSIGNED');
+    }
+
+    const flags = detectReviewFlags(payload.comment);
+    let review: PrismaReview;
+    try {
+      review = await this.prisma.review.create({
+        data: {
+          booking: { connect: { id: booking.id } },
+          author: { connect: { id: user.id } },
+          targetProvider: { connect: { id: providerId } },
+          score: payload.score,
+          punctualityScore: payload.punctualityScore ?? null,
+          qualityScore: payload.qualityScore ?? null,
+          communicationScore: payload.communicationScore ?? null,
+          comment: payload.comment?.trim() || null,
+          ecoCompliance: payload.ecoCompliance ?? false,
+          status: flags.length ? PrismaReviewStatus.FLAGGED : PrismaReviewStatus.PUBLISHED,
+          moderationNotes: flags.length ? `AUTO_FLAG: ${flags.join(', ')}` : null,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('REVIEW_ALREADY_SUBMITTED');
+      }
+      throw error;
+    }
+
+    await this.recomputeProviderRating(providerId);
+    await this.notifyProvider(review);
+
+    return this.mapReview(review);
+  }
+
+  async listForBooking(bookingId: string, user: User): Promise<Review[]> {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: { assignments: { select: { provider: { select: { userId: true } } } } },
+    });
+    const isAssignedProvider = booking?.assignments.some((assignment) => assignment.provider.userId === user.id);
+    if (!booking || !(this.isElevated(user) || this.isBookingClient(booking, user) || isAssignedProvider)) {
+      throw new NotFoundException('BOOKING_NOT_FOUND');
+    }
+
+    const reviews = await this.prisma.review.findMany({
+      where: { bookingId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return reviews.map((review) => this.mapReview(review));
+  }
+
+  async reply(reviewId: string, user: User, payload: ReplyReviewDto): Promise<Review> {
+    const review = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+      include: { targetProvider: { select: { userId: true } } },
+    });
+    if (!review || review.status === PrismaReviewStatus.HIDDEN) {
+      throw new NotFoundException('REVIEW_NOT_FOUND');
+    }
+    if (review.targetProvider.userId !== user.id) {
+      throw new ForbiddenException('REVIEW_FORBIDDEN');
+    }
+    if (review.providerReply) {
+      throw new ConflictException('REVIEW_ALREADY_REPLIED');
+    }
+    if (detectReviewFlags(payload.reply).length) {
+      throw new BadRequestException('REVIEW_REPLY_CONTACT_DETAILS');
+    }
+
+    const updated = await this.prisma.review.update({
+      where: { id: review.id },
+      data: { providerReply: payload.reply.trim(), providerRepliedAt: new Date() },
+    });
+
+    await this.notifications.emit({
+      userIds: [review.authorId],
+      type: NotificationType.BOOKING_STATUS,
+      bookingId: review.bookingId,
+      payload: {
+        event: 'review_replied',
+        reviewId: review.id,
+        bookingId: review.bookingId,
+      },
+    });
+
+    return this.mapReview(updated);
+  }
+
+  /**
+   * Hidden reviews are excluded from the public rating; flagged ones keep counting while they
+   * wait for moderation, matching the aggregates shown in the quality dashboards.
+   */
+  async recomputeProviderRating(providerId: string) {
+    const aggregate = await this.prisma.review.aggregate({
+      where: { targetProviderId: providerId, status: { not: PrismaReviewStatus.HIDDEN } },
+      _avg: { score: true },
+      _count: { _all: true },
+    });
+    const average = aggregate._avg.score;
+    await this.prisma.providerProfile.update({
+      where: { id: providerId },
+      data: {
+        ratingAverage: average === null ? null : Math.round(average * 100) / 100,
+        ratingCount: aggregate._count._all,
+      },
+    });
+  }
+
+  private async notifyProvider(review: PrismaReview) {
+    const provider = await this.prisma.providerProfile.findUnique({
+      where: { id: review.targetProviderId },
+      select: { userId: true },
+    });
+    if (!provider) {
+      return;
+    }
+    try {
+      await this.notifications.emit({
+        userIds: [provider.userId],
+        type: NotificationType.BOOKING_STATUS,
+        bookingId: review.bookingId,
+        providerId: review.targetProviderId,
+        payload: {
+          event: 'review_received',
+          reviewId: review.id,
+          bookingId: review.bookingId,
+          score: review.score,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Unable to notify provider about review ${review.id}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private isBookingClient(booking: { clientId: string | null; companyId: string | null }, user: User) {
+    if (booking.clientId === user.id) {
+      return true;
+    }
+    return Boolean(booking.companyId && user.roles.includes('company') && user.companies?.includes(booking.companyId));
+  }
+
+  private isElevated(user: User) {
+    return user.roles.includes('admin') || user.roles.includes('employee');
+  }
+
+  private mapReview(review: PrismaReview): Review {
+    return {
+      id: review.id,
+      createdAt: review.createdAt.toISOString(),
+      updatedAt: review.updatedAt.toISOString(),
+      bookingId: review.bookingId,
+      authorId: review.authorId,
+      targetProviderId: review.targetProviderId,
+      score: review.score,
+      criteria: {
+        punctuality: review.punctualityScore ?? undefined,
+        quality: review.qualityScore ?? undefined,
+        communication: review.communicationScore ?? undefined,
+      },
+      comment: review.comment ?? undefined,
+      ecoCompliance: review.ecoCompliance,
+      status: review.status.toLowerCase() as ReviewStatus,
+      providerReply: review.providerReply ?? undefined,
+      providerRepliedAt: review.providerRepliedAt?.toISOString(),
+    };
+  }
+}
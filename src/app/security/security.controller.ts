@@ -32,6 +32,12 @@ export class SecurityController {
     return this.security.revokeSession(id);
   }
 
+  @Post('users/:id/two-factor/reset')
+  @Roles('admin')
+  resetTwoFactor(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.security.resetTwoFactor(id, this.actor(user));
+  }
+
   @Get('login-attempts')
   listLoginAttempts(@Query() query: ListLoginAttemptsDto) {
     return this.security.listLoginAttempts(query);
@@ -374,6 +374,41 @@ export class SecurityService {
     return this.mapSession(token);
   }
 
+  /**
+   * Removes the user's second factor so they can enrol again on their next login. Open sessions
+   * are revoked because they may have been created by whoever holds the lost device.
+   */
+  async resetTwoFactor(userId: string, actor: ActorContext) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true } });
+    if (!user) {
+      throw new NotFoundException('USER_NOT_FOUND');
+    }
+
+    const [removed, revoked] = await this.prisma.$transaction([
+      this.prisma.userTwoFactor.deleteMany({ where: { userId } }),
+      this.prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+
+    await this.recordSecurityLog({
+      category: SecurityLogCategory.AUTH,
+      level: SecurityLogLevel.WARN,
+      message: 'TWO_FACTOR_RESET',
+      actorId: actor.id,
+      actorEmail: actor.label,
+      metadata: {
+        targetUserId: user.id,
+        targetEmail: user.email,
+        hadSecondFactor: removed.count > 0,
+        revokedSessions: revoked.count,
+      },
+    });
+
+    return { success: true };
+  }
+
   async listLoginAttempts(
     query: ListLoginAttemptsDto
   ): Promise<AdminPaginatedResponse<AdminSecurityLoginAttempt>> {
@@ -447,6 +482,18 @@ export class SecurityService {
     });
   }
 
+  /** Attempts through one provider since a moment, by address or by client IP, for throttling. */
+  async countRecentLoginAttempts(params: { provider: string; since: Date; email?: string; ipAddress?: string }) {
+    return this.prisma.loginAttempt.count({
+      where: {
+        provider: params.provider,
+        createdAt: { gte: params.since },
+        ...(params.email ? { email: params.email } : {}),
+        ...(params.ipAddress ? { ipAddress: params.ipAddress } : {}),
+      },
+    });
+  }
+
   async listSecurityLogs(
     query: ListSecurityLogsDto
   ): Promise<AdminPaginatedResponse<AdminSecurityLog>> {
@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { performance } from 'node:perf_hooks';
 import type { AppEnvironmentConfig } from '../config/configuration';
@@ -532,6 +532,19 @@ export class SystemObservabilityService {
     };
   }
 
+  async getApiKey(id: string): Promise<AdminSystemApiKeyItem> {
+    const record = await this.prisma.systemApiKey.findUnique({
+      where: { id },
+      include: {
+        owner: { select: { id: true, email: true, firstName: true, lastName: true } },
+      },
+    });
+    if (!record) {
+      throw new NotFoundException('API_KEY_NOT_FOUND');
+    }
+    return this.mapSystemApiKey(record);
+  }
+
   async listApiKeys(params: SystemApiKeysListParams = {}): Promise<AdminPaginatedResponse<AdminSystemApiKeyItem>> {
     const page = Math.max(1, Number(params.page ?? 1));
     const pageSize = Math.max(1, Math.min(Number(params.pageSize ?? 20), 100));
@@ -579,6 +592,19 @@ export class SystemObservabilityService {
     }
   }
 
+  async getImportJob(id: string): Promise<AdminSystemImportJobItem> {
+    const record = await this.prisma.dataImportJob.findUnique({
+      where: { id },
+      include: {
+        createdBy: { select: { id: true, email: true, firstName: true, lastName: true } },
+      },
+    });
+    if (!record) {
+      throw new NotFoundException('IMPORT_JOB_NOT_FOUND');
+    }
+    return this.mapImportJob(record);
+  }
+
   async listImportJobs(
     params: DataImportJobsListParams = {}
   ): Promise<AdminPaginatedResponse<AdminSystemImportJobItem>> {
@@ -630,6 +656,19 @@ export class SystemObservabilityService {
     }
   }
 
+  async getExportJob(id: string): Promise<AdminSystemExportJobItem> {
+    const record = await this.prisma.dataExportJob.findUnique({
+      where: { id },
+      include: {
+        requestedBy: { select: { id: true, email: true, firstName: true, lastName: true } },
+      },
+    });
+    if (!record) {
+      throw new NotFoundException('EXPORT_JOB_NOT_FOUND');
+    }
+    return this.mapExportJob(record);
+  }
+
   async listExportJobs(
     params: DataExportJobsListParams = {}
   ): Promise<AdminPaginatedResponse<AdminSystemExportJobItem>> {
@@ -775,6 +814,9 @@ export class SystemObservabilityService {
   }
 
   private mapSystemApiKey(record: any): AdminSystemApiKeyItem {
+    const windowStart = record.usageWindowStart ? new Date(record.usageWindowStart) : null;
+    const usageToday =
+      windowStart && Date.now() - windowStart.getTime() < 24 * 60 * 60 * 1000 ? record.usageCount ?? 0 : 0;
     return {
       id: record.id,
       name: record.name,
@@ -783,7 +825,10 @@ export class SystemObservabilityService {
       scopes: Array.isArray(record.scopes) ? record.scopes : [],
       status: this.toApiKeyStatus(record.status),
       rateLimitPerDay: record.rateLimitPerDay ?? undefined,
+      usageToday,
       lastUsedAt: this.toIso(record.lastUsedAt),
+      rotatedAt: this.toIso(record.rotatedAt),
+      revokedAt: this.toIso(record.revokedAt),
       createdAt: this.toIso(record.createdAt)!,
       updatedAt: this.toIso(record.updatedAt)!,
       owner: this.mapUser(record.owner),
@@ -799,6 +844,10 @@ export class SystemObservabilityService {
       status: this.toJobStatus(record.status),
       processedCount: record.processedCount ?? 0,
       totalCount: record.totalCount ?? undefined,
+      successCount: record.successCount ?? 0,
+      errorCount: record.errorCount ?? 0,
+      dryRun: Boolean(record.dryRun),
+      reportAvailable: Boolean(record.reportPath),
       sourceFilename: record.sourceFilename ?? undefined,
       createdAt: this.toIso(record.createdAt)!,
       startedAt: this.toIso(record.startedAt),
@@ -819,10 +868,14 @@ export class SystemObservabilityService {
       status: this.toJobStatus(record.status),
       recordCount: record.recordCount ?? undefined,
       fileUrl: record.fileUrl ?? undefined,
+      documentId: record.documentId ?? undefined,
       expiresAt: this.toIso(record.expiresAt),
       createdAt: this.toIso(record.createdAt)!,
+      startedAt: this.toIso(record.startedAt),
       completedAt: this.toIso(record.completedAt),
+      purgedAt: this.toIso(record.purgedAt),
       updatedAt: this.toIso(record.updatedAt)!,
+      attempts: record.attempts ?? undefined,
       errorMessage: record.errorMessage ?? undefined,
       metadata: this.asRecord(record.parameters) ?? undefined,
       requestedBy: this.mapUser(record.requestedBy),
@@ -866,7 +919,8 @@ export class SystemObservabilityService {
   }
 
   private toJobFormat(value?: string): AdminSystemImportJobItem['format'] {
-    return (value ?? 'csv').toLowerCase() === 'json' ? 'json' : 'csv';
+    const normalized = (value ?? 'csv').toLowerCase();
+    return normalized === 'json' || normalized === 'xlsx' ? normalized : 'csv';
   }
 
   private toImportEntity(value?: string): AdminSystemImportJobItem['entity'] {
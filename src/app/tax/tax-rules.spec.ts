@@ -0,0 +1,45 @@
+import { TAX_RATES, computeTaxCents, describeTaxRule, resolveTaxRule } from './tax-rules';
+
+describe('tax rules', () => {
+  it('applies the rate of the country the service is performed in', () => {
+    expect(resolveTaxRule({ countryCode: 'de' })).toEqual({ rule: 'de_standard', rateBps: 1900, countryCode: 'DE' });
+    expect(resolveTaxRule({ countryCode: 'AT', reducedRate: true })).toEqual({
+      rule: 'at_reduced',
+      rateBps: 1000,
+      countryCode: 'AT',
+    });
+    expect(resolveTaxRule({ countryCode: 'CH' }).rateBps).toBe(810);
+    expect(resolveTaxRule({}).rule).toBe('de_standard');
+  });
+
+  it('refuses countries it has no rates for instead of taxing them as German', () => {
+    expect(() => resolveTaxRule({ countryCode: 'FR' })).toThrow('TAX_COUNTRY_UNSUPPORTED');
+  });
+
+  it('decides reverse charge by the country of the property, not of the VAT number', () => {
+    expect(resolveTaxRule({ countryCode: 'DE', customerVatNumber: 'ATU12345678' }).rule).toBe('de_standard');
+    expect(resolveTaxRule({ countryCode: 'AT', customerVatNumber: 'DE136695976' })).toEqual({
+      rule: 'reverse_charge',
+      rateBps: 0,
+      countryCode: 'AT',
+    });
+    expect(resolveTaxRule({ countryCode: 'AT', customerVatNumber: 'ATU12345678' }).rule).toBe('reverse_charge');
+    expect(resolveTaxRule({ countryCode: 'AT' }).rule).toBe('at_standard');
+    expect(resolveTaxRule({ countryCode: 'CH', customerVatNumber: 'DE136695976' }).rule).toBe('ch_standard');
+  });
+
+  it('charges no VAT for small-business providers, even to foreign companies', () => {
+    expect(
+      resolveTaxRule({ countryCode: 'AT', customerVatNumber: 'ATU12345678', smallBusinessProviders: true })
+    ).toEqual({ rule: 'small_business', rateBps: 0, countryCode: 'AT' });
+  });
+
+  it('uses overridden rates and describes the rule for invoices', () => {
+    const rates = { ...TAX_RATES, DE: { ...TAX_RATES.DE, standardBps: 1600 } };
+    expect(resolveTaxRule({ countryCode: 'DE' }, rates).rateBps).toBe(1600);
+    expect(computeTaxCents(10_050, 1900)).toBe(1910);
+    expect(describeTaxRule('ch_standard', 810).label).toBe('TVA (8,1%)');
+    expect(describeTaxRule(null, null).label).toBe('TVA (19%)');
+    expect(describeTaxRule('reverse_charge', 0).note).toContain('Reverse Charge');
+  });
+});
@@ -0,0 +1,127 @@
+import { BadRequestException } from '@nestjs/common';
+import type { TaxRuleCode } from '@saubio/models';
+
+export type TaxCountry = 'DE' | 'AT' | 'CH';
+export type TaxRateKind = 'standard' | 'reduced';
+
+export interface CountryTaxRates {
+  standardBps: number;
+  reducedBps: number;
+  /** EU member states shift the VAT to business customers when the provider is established elsewhere. */
+  eu: boolean;
+}
+
+export const DEFAULT_TAX_COUNTRY: TaxCountry = 'DE';
+
+/** Country the providers are established in for VAT purposes. */
+export const PROVIDER_TAX_COUNTRY: TaxCountry = 'DE';
+
+export const TAX_RATES: Record<TaxCountry, CountryTaxRates> = {
+  DE: { standardBps: 1900, reducedBps: 700, eu: true },
+  AT: { standardBps: 2000, reducedBps: 1000, eu: true },
+  CH: { standardBps: 810, reducedBps: 260, eu: false },
+};
+
+export const DEFAULT_VAT_RATE_BPS = TAX_RATES[DEFAULT_TAX_COUNTRY].standardBps;
+
+export interface TaxContext {
+  /** Country of the service address; cleaning is taxed where the property is. */
+  countryCode?: string | null;
+  reducedRate?: boolean;
+  /** Validated VAT number of the company customer, if any; only marks the customer as a business. */
+  customerVatNumber?: string | null;
+  /** True when every provider on the booking is a small business under §19 UStG. */
+  smallBusinessProviders?: boolean;
+}
+
+export interface AppliedTax {
+  rule: TaxRuleCode;
+  rateBps: number;
+  countryCode: TaxCountry;
+}
+
+/** Pricing rule code overriding a country rate, e.g. `VAT_DE_STANDARD` (percentageBps). */
+export function taxRateRuleCode(country: TaxCountry, kind: TaxRateKind) {
+  return `VAT_${country}_${kind.toUpperCase()}`;
+}
+
+/** Pricing rule code marking a service as taxed at the reduced rate, e.g. `VAT_REDUCED_CARPET_LAUNDRY`. */
+export function reducedRateRuleCode(service: string) {
+  return `VAT_REDUCED_${service.toUpperCase()}`;
+}
+
+/** Quotes without an address are priced for Germany; any other country we have no rates for is refused. */
+export function toTaxCountry(countryCode?: string | null): TaxCountry {
+  const normalized = countryCode?.trim().toUpperCase();
+  if (!normalized) {
+    return DEFAULT_TAX_COUNTRY;
+  }
+  if (!(normalized in TAX_RATES)) {
+    throw new BadRequestException('TAX_COUNTRY_UNSUPPORTED');
+  }
+  return normalized as TaxCountry;
+}
+
+export function resolveTaxRule(context: TaxContext, rates: Record<TaxCountry, CountryTaxRates> = TAX_RATES): AppliedTax {
+  const countryCode = toTaxCountry(context.countryCode);
+  const countryRates = rates[countryCode];
+  // Small businesses charge no VAT at all, so there is nothing to reverse either (§13b Abs. 5 UStG).
+  if (context.smallBusinessProviders) {
+    return { rule: 'small_business', rateBps: 0, countryCode };
+  }
+  // Cleaning is supplied where the property is (Art. 47 MwStSystRL), so a German property always carries German
+  // VAT. Only in another member state does the business customer owe it instead (Art. 194 MwStSystRL).
+  if (countryRates.eu && countryCode !== PROVIDER_TAX_COUNTRY && context.customerVatNumber) {
+    return { rule: 'reverse_charge', rateBps: 0, countryCode };
+  }
+  const kind: TaxRateKind = context.reducedRate ? 'reduced' : 'standard';
+  return {
+    rule: `${countryCode.toLowerCase()}_${kind}` as TaxRuleCode,
+    rateBps: kind === 'reduced' ? countryRates.reducedBps : countryRates.standardBps,
+    countryCode,
+  };
+}
+
+export function computeTaxCents(taxableCents: number, rateBps: number) {
+  return Math.round((taxableCents * rateBps) / 10_000);
+}
+
+function formatRate(rateBps: number) {
+  return `${(rateBps / 100).toLocaleString('de-DE', { maximumFractionDigits: 2 })}%`;
+}
+
+/** Amount row label and legal mention printed on invoices and credit notes. */
+export function describeTaxRule(rule: string | null | undefined, rateBps: number | null | undefined) {
+  const rate = rateBps ?? DEFAULT_VAT_RATE_BPS;
+  switch (rule) {
+    case 'reverse_charge':
+      return {
+        label: 'TVA (autoliquidation)',
+        note: 'Steuerschuldnerschaft des Leistungsempfängers (Reverse Charge, Art. 194 MwStSystRL) : la TVA est due par le client.',
+      };
+    case 'small_business':
+      return {
+        label: 'TVA (0%)',
+        note: 'Gemäß §19 UStG wird keine Umsatzsteuer berechnet (prestataire soumis au régime des petites entreprises).',
+      };
+    case 'at_standard':
+    case 'at_reduced':
+      return {
+        label: `TVA (${formatRate(rate)})`,
+        note: `TVA autrichienne (${formatRate(rate)}) appliquée conformément au §10 UStG 1994.`,
+      };
+    case 'ch_standard':
+    case 'ch_reduced':
+      return {
+        label: `TVA (${formatRate(rate)})`,
+        note: `TVA suisse (${formatRate(rate)}) appliquée conformément à l’art. 25 LTVA.`,
+      };
+    default:
+      return {
+        label: `TVA (${formatRate(rate)})`,
+        note: `TVA allemande (${formatRate(rate)}) appliquée conformément au §1 UStG${
+          rule === 'de_reduced' ? ' et au §12 Abs. 2 UStG' : ''
+        }.`,
+      };
+  }
+}
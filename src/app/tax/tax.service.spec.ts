@@ -0,0 +1,42 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import { TaxService } from './tax.service';
+
+describe('TaxService', () => {
+  let rules: Array<{ code: string; percentageBps: number | null }>;
+  let providers: Array<{ smallBusiness: boolean }>;
+  let service: TaxService;
+
+  beforeEach(() => {
+    rules = [];
+    providers = [];
+    const prisma = {
+      pricingRule: { findMany: jest.fn(async () => rules) },
+      providerProfile: { findMany: jest.fn(async () => providers) },
+      company: { findUnique: jest.fn().mockResolvedValue(null) },
+    };
+    service = new TaxService(prisma as unknown as PrismaService);
+  });
+
+  it('applies edited tax rates once the cache is invalidated', async () => {
+    await expect(service.resolveForBooking({ countryCode: 'DE' })).resolves.toMatchObject({ rateBps: 1900 });
+
+    rules = [{ code: 'VAT_DE_STANDARD', percentageBps: 1600 }];
+    await expect(service.resolveForBooking({ countryCode: 'DE' })).resolves.toMatchObject({ rateBps: 1900 });
+
+    service.invalidateConfigCache();
+    await expect(service.resolveForBooking({ countryCode: 'DE' })).resolves.toMatchObject({ rateBps: 1600 });
+  });
+
+  it('waives VAT only when every assigned provider is a small business', async () => {
+    providers = [{ smallBusiness: true }];
+    await expect(service.resolveForBooking({ countryCode: 'DE' })).resolves.toMatchObject({ rule: 'de_standard' });
+    await expect(
+      service.resolveForBooking({ countryCode: 'DE', providerIds: ['provider_1'] })
+    ).resolves.toMatchObject({ rule: 'small_business', rateBps: 0 });
+
+    providers = [{ smallBusiness: true }, { smallBusiness: false }];
+    await expect(
+      service.resolveForBooking({ countryCode: 'DE', providerIds: ['provider_1', 'provider_2'] })
+    ).resolves.toMatchObject({ rule: 'de_standard', rateBps: 1900 });
+  });
+});
@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { PricingRuleType } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  TAX_RATES,
+  reducedRateRuleCode,
+  resolveTaxRule,
+  taxRateRuleCode,
+  type AppliedTax,
+  type CountryTaxRates,
+  type TaxCountry,
+} from './tax-rules';
+
+type TaxConfig = {
+  rates: Record<TaxCountry, CountryTaxRates>;
+  reducedServices: Set<string>;
+};
+
+/**
+ * Decides which VAT rule applies to a booking. Rates default to `TAX_RATES` and can be overridden with
+ * `TAX_RATE` pricing rules; the same rules mark services that qualify for the reduced rate.
+ */
+@Injectable()
+export class TaxService {
+  private cachedConfig: { expiresAt: number; config: TaxConfig } | null = null;
+  private static readonly CONFIG_CACHE_TTL_MS = 5 * 60 * 1000;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async resolveForBooking(params: {
+    countryCode?: string | null;
+    service?: string | null;
+    companyId?: string | null;
+    providerIds?: string[];
+  }): Promise<AppliedTax> {
+    const providerIds = Array.from(new Set(params.providerIds ?? []));
+    const [config, company, providers] = await Promise.all([
+      this.loadConfig(),
+      params.companyId
+        ? this.prisma.company.findUnique({
+            where: { id: params.companyId },
+            select: { vatNumber: true, vatNumberValidatedAt: true },
+          })
+        : null,
+      providerIds.length
+        ? this.prisma.providerProfile.findMany({
+            where: { id: { in: providerIds } },
+            select: { smallBusiness: true },
+          })
+        : [],
+    ]);
+
+    return resolveTaxRule(
+      {
+        countryCode: params.countryCode,
+        reducedRate: params.service ? config.reducedServices.has(params.service) : false,
+        customerVatNumber: company?.vatNumberValidatedAt ? company.vatNumber : null,
+        smallBusinessProviders:
+          providers.length > 0 &&
+          providers.length === providerIds.length &&
+          providers.every((provider) => provider.smallBusiness),
+      },
+      config.rates
+    );
+  }
+
+  /** Drops the cached rates so `TAX_RATE` rules edited by ops apply to the next quote. */
+  invalidateConfigCache() {
+    this.cachedConfig = null;
+  }
+
+  private async loadConfig(): Promise<TaxConfig> {
+    if (this.cachedConfig && this.cachedConfig.expiresAt > Date.now()) {
+      return this.cachedConfig.config;
+    }
+    const rules = await this.prisma.pricingRule.findMany({
+      where: { isActive: true, type: PricingRuleType.TAX_RATE },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+    const byCode = new Map(rules.map((rule) => [rule.code, rule]));
+    const resolve = (country: TaxCountry, kind: 'standard' | 'reduced', fallback: number) => {
+      const rule = byCode.get(taxRateRuleCode(country, kind));
+      return typeof rule?.percentageBps === 'number' ? rule.percentageBps : fallback;
+    };
+
+    const rates = Object.fromEntries(
+      (Object.entries(TAX_RATES) as [TaxCountry, CountryTaxRates][]).map(([country, defaults]) => [
+        country,
+        {
+          ...defaults,
+          standardBps: resolve(country, 'standard', defaults.standardBps),
+          reducedBps: resolve(country, 'reduced', defaults.reducedBps),
+        },
+      ])
+    ) as Record<TaxCountry, CountryTaxRates>;
+    const reducedServices = new Set(
+      rules
+        .map((rule) => rule.code)
+        .filter((code) => code.startsWith(reducedRateRuleCode('')))
+        .map((code) => code.slice(reducedRateRuleCode('').length).toLowerCase())
+    );
+
+    const config = { rates, reducedServices };
+    this.cachedConfig = { config, expiresAt: Date.now() + TaxService.CONFIG_CACHE_TTL_MS };
+    return config;
+  }
+}
@@ -107,6 +107,22 @@ export class UsersService {
     return this.toDomain(user);
   }
 
+  async updatePassword(id: string, hashedPassword: string): Promise<void> {
+    await this.prisma.user.update({ where: { id }, data: { hashedPassword } });
+  }
+
+  async markEmailVerified(id: string): Promise<User> {
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: { emailVerifiedAt: new Date() },
+      include: {
+        companyMemberships: true,
+      },
+    });
+
+    return this.toDomain(user);
+  }
+
   private toDomain(entity: PrismaUser & { companyMemberships: { companyId: string }[] }): User {
     return {
       id: entity.id,
@@ -118,6 +134,7 @@ export class UsersService {
       lastName: entity.lastName,
       preferredLocale: entity.preferredLocale,
       isActive: entity.isActive,
+      emailVerifiedAt: entity.emailVerifiedAt?.toISOString(),
       roles: entity.roles.map((role) => this.toDomainRole(role)),
       companies: entity.companyMemberships.map((membership) => membership.companyId),
     };